@@ -0,0 +1,136 @@
+/**
+ * Tests for the event-driven backtester
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  BacktestData,
+  EventDrivenBacktester,
+  OhlcvCandle,
+  simulateSwap,
+} from '../../app/lib/agents/backtesting';
+import { LogicBasedTradingEngine } from '../../app/lib/agents/agentipy-integration';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+// Flat candles at the given closes, one per minute
+function candles(closes: number[]): OhlcvCandle[] {
+  return closes.map((close, i) => ({ timestamp: START + i * MINUTE, open: close, high: close, low: close, close }));
+}
+
+function dipRules(): LogicBasedTradingEngine {
+  const engine = new LogicBasedTradingEngine();
+  engine.addRule({
+    name: 'sell-rip',
+    condition: ctx => ctx.portfolio.tokens > 0 && ctx.marketData.price > 1.05,
+    action: 'execute',
+    confidence: 0.8,
+    reasoning: 'Take profit',
+    parameters: { side: 'sell' },
+  });
+  engine.addRule({
+    name: 'buy-dip',
+    condition: ctx => ctx.portfolio.tokens === 0 && ctx.marketData.price < 0.95,
+    action: 'execute',
+    confidence: 0.8,
+    reasoning: 'Buy the dip',
+    parameters: { side: 'buy', amount: 1 },
+  });
+  return engine;
+}
+
+describe('simulateSwap', () => {
+  it('should price swaps against constant-product reserves with the fee taken from the input', () => {
+    const buy = simulateSwap('buy', 10, 0.01, 1000, 25);
+    expect(buy.amountOut).toBeCloseTo((100000 * 9.975) / 1009.975);
+    expect(buy.fee).toBeCloseTo(0.025);
+    expect(buy.executionPrice).toBeCloseTo(10 / buy.amountOut);
+    expect(buy.slippage).toBeGreaterThan(1);
+
+    const sell = simulateSwap('sell', buy.amountOut, 0.01, 1000, 25);
+    expect(sell.amountOut).toBeLessThan(10);
+    expect(sell.slippage).toBeGreaterThan(1);
+
+    // Deeper pools mean less price impact
+    expect(simulateSwap('buy', 10, 0.01, 100000, 25).slippage).toBeLessThan(0.3);
+  });
+});
+
+describe('EventDrivenBacktester', () => {
+  it('should replay rules on candle closes and report closed trades', async () => {
+    const backtester = new EventDrivenBacktester({ logicEngine: dipRules() });
+    const result = await backtester.backtest('custom', { candles: candles([1, 0.9, 1.1, 0.9, 1.1]) });
+
+    expect(result.tradeLog.map(trade => [trade.side, trade.marketPrice, trade.reason])).toEqual([
+      ['buy', 0.9, 'Buy the dip'],
+      ['sell', 1.1, 'Take profit'],
+      ['buy', 0.9, 'Buy the dip'],
+      ['sell', 1.1, 'Take profit'],
+    ]);
+    expect(result.totalTrades).toBe(4);
+    expect(result.trades).toHaveLength(2);
+    expect(result.winRate).toBe(1);
+    expect(result.totalProfit).toBeCloseTo(result.trades[0].profit + result.trades[1].profit);
+    expect(result.totalProfit).toBeLessThan(2 * (1.1 / 0.9 - 1)); // Fees and price impact
+    expect(result.totalFees).toBeGreaterThan(0);
+    expect(result.equityCurve).toHaveLength(5);
+  });
+
+  it('should measure drawdown and Sharpe ratio on the equity curve', () => {
+    const engine = new LogicBasedTradingEngine();
+    engine.addRule({
+      name: 'all-in',
+      condition: ctx => ctx.portfolio.tokens === 0,
+      action: 'execute',
+      confidence: 1,
+      reasoning: 'All in',
+      parameters: { side: 'buy', amount: 10 },
+    });
+
+    const result = new EventDrivenBacktester().runRules(engine, { candles: candles([1, 1.2, 0.6]) });
+    expect(result.tradeLog).toHaveLength(1);
+    expect(result.maxDrawdown).toBeCloseTo(50);
+    expect(result.sharpeRatio).toBeLessThan(0);
+    expect(result.winRate).toBe(0);
+  });
+
+  it('should run grid fills off candle wicks and historical trades, deterministically', () => {
+    const oscillating: OhlcvCandle[] = Array.from({ length: 6 }, (_, i) => ({
+      timestamp: START + i * MINUTE,
+      open: 1,
+      high: 1.12,
+      low: 0.88,
+      close: 1,
+    }));
+    const data: BacktestData = {
+      candles: oscillating,
+      trades: [{ timestamp: START + 6.5 * MINUTE, price: 0.85 }],
+      solReserve: 10000,
+    };
+    const config = {
+      tokenMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      strategy: 'grid' as const,
+      gridLevels: 5,
+      gridRange: { min: 0.8, max: 1.2 },
+      buyAmount: 1,
+    };
+
+    const backtester = new EventDrivenBacktester();
+    const result = backtester.runMarketMaker(config, data);
+    const sells = result.tradeLog.filter(trade => trade.side === 'sell');
+
+    expect(sells.length).toBeGreaterThan(0);
+    expect(result.winRate).toBe(1);
+    expect(result.tradeLog[0].reason).toBe('Grid buy at level 1');
+    expect(result.tradeLog[result.tradeLog.length - 1]).toMatchObject({ side: 'buy', marketPrice: 0.85 });
+    expect(backtester.runMarketMaker(config, data)).toEqual(result);
+  });
+
+  it('should reject strategies it cannot replay', async () => {
+    const backtester = new EventDrivenBacktester();
+    await expect(backtester.backtest('arbitrage', { candles: candles([1]) })).rejects.toThrow('not supported');
+    await expect(backtester.backtest('custom', { candles: candles([1]) })).rejects.toThrow('logic engine');
+    await expect(backtester.backtest('trend-following', { candles: [] })).rejects.toThrow('at least one candle');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for pluggable agreement strategies and learned provider weights in the consensus engine
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { z } from 'zod';
+import { ConsensusConfig, ConsensusProvider } from '../../app/lib/ai/consensus/types';
+import { providerRegistry } from '../../app/lib/ai/consensus/providers/registry';
+import { executeConsensus } from '../../app/lib/ai/consensus/engine';
+import {
+  embeddingAgreement,
+  extractNumber,
+  resolveAgreementStrategy,
+  schemaAgreement,
+} from '../../app/lib/ai/consensus/agreement';
+import { ProviderWeightTracker, providerWeights } from '../../app/lib/ai/consensus/weights';
+
+const CONFIG: Partial<ConsensusConfig> = { cacheEnabled: false, minProviders: 2, timeout: 1000, learnWeights: false };
+
+function mockProvider(id: string, response: string, weight = 1): ConsensusProvider {
+  return {
+    id,
+    name: id,
+    enabled: true,
+    query: async () => ({ provider: id, response, timestamp: new Date() }),
+    normalize: (value: any) => value,
+    validate: () => true,
+    getConfig: () => ({ weight }),
+    getHealth: async () => ({ status: 'healthy' as const }),
+  };
+}
+
+function useProviders(...providers: ConsensusProvider[]) {
+  providers.forEach(provider => providerRegistry.register(provider));
+}
+
+describe('Consensus agreement strategies', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    providerRegistry.getIds().forEach(id => providerRegistry.unregister(id));
+    providerWeights.reset();
+  });
+
+  afterEach(() => {
+    providerRegistry.getIds().forEach(id => providerRegistry.unregister(id));
+    jest.restoreAllMocks();
+  });
+
+  it('votes on numbers within a tolerance where word overlap sees disagreement', async () => {
+    useProviders(
+      mockProvider('a', 'SOL is trading at $150.20'),
+      mockProvider('b', 'The price is 150.5 USD'),
+      mockProvider('c', 'Around 180')
+    );
+
+    const lexical = await executeConsensus('SOL price?', undefined, CONFIG);
+    expect(lexical.agreement).toBeCloseTo(100 / 3, 6);
+    expect(lexical.metadata.strategy).toBe('lexical:0.7');
+
+    const numeric = await executeConsensus('SOL price?', undefined, {
+      ...CONFIG,
+      threshold: 0.6,
+      agreement: { type: 'numeric', tolerance: 0.01 },
+    });
+    expect(numeric.consensus).toBe(true);
+    expect(numeric.agreement).toBeCloseTo(200 / 3, 6);
+    expect(numeric.majorityValue).toBeCloseTo(150.35, 9);
+    expect(numeric.minority).toEqual(['Around 180']);
+
+    expect(extractNumber('{"quote": {"price": "1,234.5"}}', 'quote.price')).toBe(1234.5);
+    expect(extractNumber('Price: 1,234.5 USDC')).toBe(1234.5);
+    expect(extractNumber('no idea')).toBeUndefined();
+  });
+
+  it('matches JSON fields exactly and keeps unparseable answers out of the majority', async () => {
+    useProviders(
+      mockProvider('a', 'Decision: {"action": "BUY", "size": 1}'),
+      mockProvider('b', '```json\n{"size": 2, "action": "buy"}\n```'),
+      mockProvider('c', 'I would sell', 5)
+    );
+
+    const result = await executeConsensus('Trade?', undefined, {
+      ...CONFIG,
+      threshold: 0.25,
+      agreement: schemaAgreement({ schema: z.object({ action: z.enum(['BUY', 'buy', 'SELL', 'sell']), size: z.number() }), fields: ['action'] }),
+    });
+
+    // The heavier provider gave no JSON, so it only dilutes agreement
+    expect(result.majorityValue).toEqual({ action: 'BUY', size: 1 });
+    expect(result.agreement).toBeCloseTo(200 / 7, 6);
+    expect(result.consensus).toBe(true);
+
+    // Comparing the whole object sees the different sizes
+    const strict = await executeConsensus('Trade?', undefined, { ...CONFIG, agreement: { type: 'schema' } });
+    expect(strict.agreement).toBeCloseTo(100 / 7, 6);
+  });
+
+  it('groups paraphrases by embedding cosine similarity', async () => {
+    const vectors: Record<string, number[]> = {
+      'The pool is safe to trade': [1, 0.1, 0],
+      'No risk found in this pool': [0.95, 0.2, 0],
+      'This pool is a rug pull': [0, 0.1, 1],
+    };
+    useProviders(...Object.keys(vectors).map((text, i) => mockProvider(`p${i}`, text)));
+
+    const embed = jest.fn(async (texts: string[]) => texts.map(text => vectors[text]));
+    const result = await executeConsensus('Is it safe?', undefined, {
+      ...CONFIG,
+      threshold: 0.6,
+      agreement: embeddingAgreement(embed, 0.9),
+    });
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(result.consensus).toBe(true);
+    expect(result.majority).toBe('The pool is safe to trade');
+    expect(result.minority).toEqual(['This pool is a rug pull']);
+
+    // A failed embedding call falls back to word overlap
+    const failed = await executeConsensus('Is it safe?', undefined, {
+      ...CONFIG,
+      agreement: embeddingAgreement(async () => {
+        throw new Error('embedding endpoint down');
+      }),
+    });
+    expect(failed.consensus).toBe(false);
+
+    expect(() => resolveAgreementStrategy({ type: 'embedding' })).toThrow('requires the local AI provider');
+  });
+});
+
+describe('Learned provider weights', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    providerRegistry.getIds().forEach(id => providerRegistry.unregister(id));
+    providerWeights.reset();
+  });
+
+  afterEach(() => {
+    providerRegistry.getIds().forEach(id => providerRegistry.unregister(id));
+    jest.restoreAllMocks();
+  });
+
+  it('moves weights with agreement rates around the configured weight', () => {
+    const tracker = new ProviderWeightTracker({ alpha: 0.5 });
+    expect(tracker.getWeight('new', 2)).toBe(2);
+
+    tracker.record(['a', 'b'], ['a']);
+    tracker.record(['a', 'b'], ['a']);
+    expect(tracker.getStats()).toEqual([
+      { provider: 'a', rounds: 2, agreed: 2, rate: 0.875, multiplier: 1.375 },
+      { provider: 'b', rounds: 2, agreed: 0, rate: 0.125, multiplier: 0.625 },
+    ]);
+    expect(tracker.getWeight('a', 2)).toBeCloseTo(2.75, 9);
+    expect(tracker.getWeight('b')).toBeCloseTo(0.625, 9);
+  });
+
+  it('learns from each consensus round and applies the weights to the next vote', async () => {
+    useProviders(mockProvider('a', '100'), mockProvider('b', '100'), mockProvider('c', '250'));
+    const config: Partial<ConsensusConfig> = { ...CONFIG, learnWeights: true, agreement: { type: 'numeric' } };
+
+    const first = await executeConsensus('Score?', undefined, config);
+    expect(first.metadata.weights).toEqual({ a: 1, b: 1, c: 1 });
+
+    const second = await executeConsensus('Score?', undefined, config);
+    expect(second.metadata.weights!.a).toBeCloseTo(1.05, 9);
+    expect(second.metadata.weights!.c).toBeCloseTo(0.95, 9);
+    expect(second.agreement).toBeCloseTo(210 / 3.05, 6);
+    expect(providerWeights.getStats().find(stats => stats.provider === 'c')).toMatchObject({ rounds: 2, agreed: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for consensus intent classification and multi-agent planning in the master orchestrator
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { AgentContext, ContextManagerAgent, ContextQuery, ContextStorage } from '../../app/lib/agents/context-manager';
+import { ConsensusProvider } from '../../app/lib/ai/consensus/types';
+import { AgentExpression, expressionStore } from '../../app/lib/ai/expressions';
+import { classifyIntent } from '../../app/lib/ai/intent-classifier';
+import { MasterAIOrchestrator } from '../../app/lib/ai/master-orchestrator';
+import { orderPlanSteps, planByKeywords } from '../../app/lib/ai/task-planner';
+
+class MemoryContextStorage implements ContextStorage {
+  private contexts = new Map<string, AgentContext>();
+
+  async save(context: AgentContext): Promise<string> {
+    const id = `ctx-${this.contexts.size}`;
+    this.contexts.set(id, context);
+    return id;
+  }
+  async get(contextId: string) {
+    return this.contexts.get(contextId) || null;
+  }
+  async query(query: ContextQuery) {
+    return Array.from(this.contexts.values()).filter(context =>
+      (!query.agentId || context.agentId === query.agentId) &&
+      (!query.sessionId || context.sessionId === query.sessionId)
+    );
+  }
+  async delete(contextId: string) {
+    return this.contexts.delete(contextId);
+  }
+  async update() {
+    return false;
+  }
+}
+
+function mockProvider(id: string, answer: (prompt: string) => string, weight = 1): ConsensusProvider {
+  return {
+    id,
+    name: id,
+    enabled: true,
+    query: async (prompt: string) => ({ provider: id, response: answer(prompt), timestamp: new Date() }),
+    normalize: (response: any) => response,
+    validate: () => true,
+    getConfig: () => ({ weight }),
+    getHealth: async () => ({ status: 'healthy' as const }),
+  };
+}
+
+function intentAnswer(category: string, confidence: number, keywords: string[] = []) {
+  return () => JSON.stringify({ category, confidence, keywords, reasoning: 'test' });
+}
+
+describe('Intent classification', () => {
+  beforeEach(() => {
+    expressionStore.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('takes a weighted vote across providers and records the consensus', async () => {
+    const providers = [
+      mockProvider('a', intentAnswer('security', 0.9, ['security'])),
+      mockProvider('b', () => '```json\n' + intentAnswer('security', 0.7, ['token'])() + '\n```'),
+      mockProvider('c', intentAnswer('trading', 0.8), 1.5),
+      mockProvider('d', () => 'I think this is about security'),
+    ];
+
+    const intent = await classifyIntent('is this token safe?', { providers });
+    expect(intent.source).toBe('consensus');
+    expect(intent.category).toBe('security');
+    expect(intent.agreement).toBeCloseTo(2 / 3.5, 6);
+    expect(intent.confidence).toBeCloseTo(0.8 * (2 / 3.5), 6);
+    expect(intent.keywords).toEqual(['security', 'token']);
+    expect(intent.votes.map(vote => vote.provider)).toEqual(['a', 'b', 'c']);
+
+    const [reached] = expressionStore.getByType('consensus.reached') as any[];
+    expect(reached.consensusId).toBe(intent.consensusId);
+    expect(reached.result).toMatchObject({ consensus: true, majority: expect.stringContaining('security') });
+    expect(reached.result.responses).toHaveLength(4);
+    expect(expressionStore.getByType('consensus.requested')).toHaveLength(1);
+  });
+
+  it('falls back to keywords without usable provider answers', async () => {
+    expect(await classifyIntent('find arbitrage profit', { providers: [] })).toMatchObject({
+      category: 'trading',
+      source: 'keywords',
+      keywords: ['arbitrage', 'profit'],
+    });
+
+    const failing = mockProvider('down', () => {
+      throw new Error('offline');
+    });
+    const intent = await classifyIntent('audit this program', { providers: [failing] });
+    expect(intent).toMatchObject({ category: 'security', source: 'keywords' });
+    expect(intent.consensusId).toBeDefined();
+  });
+});
+
+describe('Task planning', () => {
+  it('splits compound queries by agent and chains "then" clauses', () => {
+    const plan = planByKeywords(
+      "scan arbitrage and check the token's security, then monitor the wallet",
+      ['trading', 'security', 'blockchain']
+    );
+
+    expect(plan.source).toBe('keywords');
+    expect(plan.steps).toEqual([
+      { id: 'step-1', agentId: 'trading', task: 'scan arbitrage', dependsOn: [] },
+      { id: 'step-2', agentId: 'security', task: "check the token's security", dependsOn: [] },
+      { id: 'step-3', agentId: 'blockchain', task: 'monitor the wallet', dependsOn: ['step-2'] },
+    ]);
+    expect(plan.waves).toEqual([['step-1', 'step-2'], ['step-3']]);
+
+    // Clauses for unregistered agents stay with their neighbours
+    expect(planByKeywords('buy and sell then play a game', ['trading']).steps).toEqual([
+      { id: 'step-1', agentId: 'trading', task: 'buy and sell and play a game', dependsOn: [] },
+    ]);
+  });
+
+  it('rejects plans with unknown agents, unknown steps or cycles', () => {
+    expect(() => orderPlanSteps([{ id: 'a', agentId: 'nobody', task: 'x', dependsOn: [] }], ['trading']))
+      .toThrow('unknown agent nobody');
+    expect(() => orderPlanSteps([{ id: 'a', agentId: 'trading', task: 'x', dependsOn: ['b'] }], ['trading']))
+      .toThrow('unknown step b');
+    expect(() => orderPlanSteps([
+      { id: 'a', agentId: 'trading', task: 'x', dependsOn: ['b'] },
+      { id: 'b', agentId: 'trading', task: 'y', dependsOn: ['a'] },
+    ], ['trading'])).toThrow('dependency cycle between a, b');
+  });
+});
+
+describe('MasterAIOrchestrator', () => {
+  let running: string[];
+  let maxConcurrent: number;
+
+  function agent(id: string, delay: number, fail = false) {
+    return {
+      description: `${id} agent`,
+      handleTask: jest.fn(async (query: string, context: Record<string, any>) => {
+        running.push(id);
+        maxConcurrent = Math.max(maxConcurrent, running.length);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        running.splice(running.indexOf(id), 1);
+        if (fail) {
+          throw new Error(`${id} is down`);
+        }
+        return { response: `${id}: ${query}`, confidence: 0.9, suggestions: [id], upstream: context.upstream };
+      }),
+    };
+  }
+
+  beforeEach(() => {
+    running = [];
+    maxConcurrent = 0;
+    expressionStore.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (global as any).fetch = jest.fn(async () => ({ ok: false }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete (global as any).fetch;
+  });
+
+  it('runs independent sub-tasks in parallel and merges their results', async () => {
+    const orchestrator = new MasterAIOrchestrator(new ContextManagerAgent(new MemoryContextStorage()), { providers: [] });
+    orchestrator.registerAgent('trading', agent('trading', 20));
+    orchestrator.registerAgent('security', agent('security', 10));
+
+    const response = await orchestrator.routeQuery("scan arbitrage and check the token's security", 'session-1');
+
+    expect(maxConcurrent).toBe(2);
+    expect(response.agentId).toBe('master');
+    expect(response.response).toBe("[trading] trading: scan arbitrage\n\n[security] security: check the token's security");
+    expect(response.confidence).toBeCloseTo(0.9, 6);
+    expect(response.suggestions).toEqual(['trading', 'security']);
+
+    const planId = response.context!.plan.id;
+    const recorded = expressionStore.query({ tags: [planId] }) as AgentExpression[];
+    expect(recorded.filter(expr => expr.type === 'agent.task.assigned').map(expr => expr.agentId).sort())
+      .toEqual(['security', 'trading']);
+    expect(recorded.filter(expr => expr.type === 'agent.task.completed').every(expr => expr.task?.status === 'completed'))
+      .toBe(true);
+    const [decision] = recorded.filter(expr => expr.type === 'agent.decision');
+    expect(decision.decision?.action).toBe('route:trading,security');
+  });
+
+  it('follows an LLM plan, passes upstream results and skips steps after a failure', async () => {
+    const plan = {
+      steps: [
+        { id: 'scan', agentId: 'trading', task: 'find arbitrage', dependsOn: [] },
+        { id: 'audit', agentId: 'security', task: 'audit the route tokens', dependsOn: ['scan'] },
+        { id: 'watch', agentId: 'blockchain', task: 'monitor the pool', dependsOn: [] },
+        { id: 'report', agentId: 'trading', task: 'summarize', dependsOn: ['watch'] },
+      ],
+    };
+    const provider = mockProvider('planner', prompt =>
+      prompt.startsWith('Classify') ? intentAnswer('trading', 0.9)() : JSON.stringify(plan)
+    );
+
+    const orchestrator = new MasterAIOrchestrator(new ContextManagerAgent(new MemoryContextStorage()), { providers: [provider] });
+    const security = agent('security', 1);
+    orchestrator.registerAgent('trading', agent('trading', 1));
+    orchestrator.registerAgent('security', security);
+    orchestrator.registerAgent('blockchain', agent('blockchain', 1, true));
+
+    const response = await orchestrator.routeQuery('find arbitrage and make sure it is safe', 'session-2');
+    const steps = response.context!.steps;
+
+    expect(response.context!.plan.source).toBe('llm');
+    expect(steps.map((step: any) => step.status)).toEqual(['completed', 'completed', 'failed', 'skipped']);
+    expect(security.handleTask.mock.calls[0][1].upstream).toEqual({ scan: steps[0].result });
+    expect(response.response).toContain('[blockchain] monitor the pool: failed - blockchain is down');
+    expect(response.confidence).toBeCloseTo(0.9 * 0.5, 6);
+    expect(expressionStore.getByType('consensus.reached')).toHaveLength(1);
+  });
+
+  it('keeps single-agent queries on the direct path', async () => {
+    const orchestrator = new MasterAIOrchestrator(new ContextManagerAgent(new MemoryContextStorage()), { providers: [] });
+    orchestrator.registerAgent('trading', agent('trading', 1));
+    orchestrator.registerAgent('security', agent('security', 1, true));
+
+    await expect(orchestrator.routeQuery('swap SOL for USDC', 'session-3')).resolves.toMatchObject({
+      agentId: 'trading',
+      response: 'trading: swap SOL for USDC',
+      confidence: 0.9,
+    });
+    await expect(orchestrator.routeQuery('audit my program', 'session-3')).rejects.toThrow('security is down');
+    expect(orchestrator.getActiveTasks()).toEqual([]);
+  });
+});
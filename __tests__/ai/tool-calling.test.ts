@@ -0,0 +1,329 @@
+/**
+ * Tests for native tool-calling formats, the tool loop and the MCP server's Solana tools
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { ChatMessage, ConsensusProvider, ToolCallingResponse, ToolDefinition } from '../../app/lib/ai/consensus/types';
+import { OpenAIProvider } from '../../app/lib/ai/consensus/providers/openai';
+import { AnthropicProvider } from '../../app/lib/ai/consensus/providers/anthropic';
+import { GeminiProvider } from '../../app/lib/ai/consensus/providers/gemini';
+import { LocalAIProvider } from '../../app/lib/ai/consensus/providers/local';
+import { MCPClient } from '../../app/lib/ai/mcp/client';
+import { MCPToolExecutor, ToolAuditLog, ToolExecutor, runToolLoop } from '../../app/lib/ai/tool-calling';
+import { createSolanaTools } from '../../app/lib/ai/mcp/solana-tools';
+
+const WALLET = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qrf6ZJ3wCE6cMLRs9rF7L9sQr1';
+
+const ACCOUNT_TOOL: ToolDefinition = {
+  name: 'get_account_info',
+  description: 'Look up an account',
+  inputSchema: { type: 'object', properties: { address: { type: 'string' } }, required: ['address'] },
+};
+
+const CONVERSATION: ChatMessage[] = [
+  { role: 'system', content: 'Use tools' },
+  { role: 'user', content: 'What is my balance?' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'get_account_info', arguments: { address: WALLET } }] },
+  { role: 'tool', toolCallId: 'call-1', name: 'get_account_info', content: '{"sol":1.5}' },
+];
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, statusText: 'status', json: async () => body, text: async () => JSON.stringify(body) };
+}
+
+describe('Native tool-calling formats', () => {
+  let requests: Array<{ url: string; body: any }>;
+
+  function mockFetch(body: unknown) {
+    (global as any).fetch = jest.fn(async (url: string, init: any) => {
+      requests.push({ url, body: JSON.parse(init.body) });
+      return jsonResponse(body);
+    });
+  }
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete (global as any).fetch;
+    jest.restoreAllMocks();
+  });
+
+  it('speaks OpenAI function calling', async () => {
+    mockFetch({
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'get_account_info', arguments: '{"address":"abc"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+    });
+
+    const response = await new OpenAIProvider({ apiKey: 'key' }).queryWithTools(CONVERSATION, [ACCOUNT_TOOL]);
+    const { body } = requests[0];
+
+    expect(body.tools).toEqual([{ type: 'function', function: { name: 'get_account_info', description: 'Look up an account', parameters: ACCOUNT_TOOL.inputSchema } }]);
+    expect(body.messages[2].tool_calls[0]).toEqual({
+      id: 'call-1',
+      type: 'function',
+      function: { name: 'get_account_info', arguments: JSON.stringify({ address: WALLET }) },
+    });
+    expect(body.messages[3]).toEqual({ role: 'tool', tool_call_id: 'call-1', content: '{"sol":1.5}' });
+    expect(response.toolCalls).toEqual([{ id: 'call_2', name: 'get_account_info', arguments: { address: 'abc' } }]);
+  });
+
+  it('speaks Anthropic tool use', async () => {
+    mockFetch({
+      content: [
+        { type: 'text', text: 'Checking the token account.' },
+        { type: 'tool_use', id: 'toolu_2', name: 'get_account_info', input: { address: 'abc' } },
+      ],
+      stop_reason: 'tool_use',
+    });
+
+    const response = await new AnthropicProvider({ apiKey: 'key' }).queryWithTools(CONVERSATION, [ACCOUNT_TOOL]);
+    const { body } = requests[0];
+
+    expect(body.system).toBe('Use tools');
+    expect(body.tools[0]).toEqual({ name: 'get_account_info', description: 'Look up an account', input_schema: ACCOUNT_TOOL.inputSchema });
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'What is my balance?' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'call-1', name: 'get_account_info', input: { address: WALLET } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-1', content: '{"sol":1.5}' }] },
+    ]);
+    expect(response.response).toBe('Checking the token account.');
+    expect(response.toolCalls).toEqual([{ id: 'toolu_2', name: 'get_account_info', arguments: { address: 'abc' } }]);
+  });
+
+  it('speaks Gemini function calling', async () => {
+    mockFetch({
+      candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'get_account_info', args: { address: 'abc' } } }] } }],
+    });
+
+    const response = await new GeminiProvider({ apiKey: 'key' }).queryWithTools(CONVERSATION, [ACCOUNT_TOOL]);
+    const { body } = requests[0];
+
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'Use tools' }] });
+    expect(body.tools[0].functionDeclarations[0].name).toBe('get_account_info');
+    expect(body.contents.map((content: any) => content.role)).toEqual(['user', 'model', 'user']);
+    expect(body.contents[1].parts).toEqual([{ functionCall: { name: 'get_account_info', args: { address: WALLET } } }]);
+    expect(body.contents[2].parts).toEqual([{ functionResponse: { name: 'get_account_info', response: { content: '{"sol":1.5}' } } }]);
+    expect(response.toolCalls).toEqual([{ id: 'get_account_info-0', name: 'get_account_info', arguments: { address: 'abc' } }]);
+  });
+
+  it('speaks Ollama chat tools for the local provider', async () => {
+    mockFetch({ message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_account_info', arguments: { address: 'abc' } } }] }, done: true });
+
+    const provider = new LocalAIProvider({ endpoint: 'http://ollama.local', model: 'llama3.1', apiType: 'ollama' });
+    const response = await provider.queryWithTools(CONVERSATION, [ACCOUNT_TOOL]);
+    const { url, body } = requests[requests.length - 1];
+
+    expect(url).toBe('http://ollama.local/api/chat');
+    expect(body.stream).toBe(false);
+    expect(body.messages[2].tool_calls).toEqual([{ function: { name: 'get_account_info', arguments: { address: WALLET } } }]);
+    expect(body.messages[3]).toEqual({ role: 'tool', tool_name: 'get_account_info', content: '{"sol":1.5}' });
+    expect(response.toolCalls).toEqual([{ id: 'get_account_info-0', name: 'get_account_info', arguments: { address: 'abc' } }]);
+  });
+});
+
+describe('runToolLoop', () => {
+  let auditLog: ToolAuditLog;
+
+  function scriptedProvider(replies: Array<Partial<ToolCallingResponse>>): ConsensusProvider & { calls: ChatMessage[][] } {
+    const calls: ChatMessage[][] = [];
+    return {
+      id: 'scripted',
+      name: 'scripted',
+      enabled: true,
+      calls,
+      query: async () => ({ provider: 'scripted', response: '', timestamp: new Date() }),
+      queryWithTools: async (messages: ChatMessage[]) => {
+        calls.push([...messages]);
+        const reply = replies[Math.min(calls.length - 1, replies.length - 1)];
+        return { provider: 'scripted', response: '', timestamp: new Date(), toolCalls: [], ...reply };
+      },
+      normalize: (value: any) => value,
+      validate: () => true,
+      getConfig: () => ({}),
+      getHealth: async () => ({ status: 'healthy' as const }),
+    };
+  }
+
+  beforeEach(() => {
+    auditLog = new ToolAuditLog();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete (global as any).fetch;
+    jest.restoreAllMocks();
+  });
+
+  it('executes MCP tools, feeds results back and audits every call', async () => {
+    (global as any).fetch = jest.fn(async (url: string, init?: any) => {
+      if (url === 'http://mcp.local/tools') {
+        return jsonResponse({ tools: [ACCOUNT_TOOL, { ...ACCOUNT_TOOL, name: 'simulate_transaction' }] });
+      }
+      const { params } = JSON.parse(init.body);
+      return params.address === WALLET
+        ? jsonResponse({ result: { address: WALLET, sol: 1.5 } })
+        : jsonResponse({ error: `address is not a valid Solana address: ${params.address}` }, 500);
+    });
+
+    const provider = scriptedProvider([
+      {
+        toolCalls: [
+          { id: 'a', name: 'get_account_info', arguments: { address: WALLET } },
+          { id: 'b', name: 'get_account_info', arguments: { address: 'nope' } },
+          { id: 'c', name: 'simulate_transaction', arguments: {} },
+        ],
+      },
+      { response: 'You hold 1.5 SOL.' },
+    ]);
+
+    const executor = new MCPToolExecutor(new MCPClient({ serverUrl: 'http://mcp.local' }));
+    const result = await runToolLoop(provider, 'What is my SOL balance?', executor, {
+      allowedTools: ['get_account_info'],
+      auditLog,
+    });
+
+    expect(result).toMatchObject({ response: 'You hold 1.5 SOL.', stopReason: 'completed', steps: 2 });
+    expect(result.toolCalls.map(entry => [entry.callId, entry.status])).toEqual([
+      ['a', 'success'],
+      ['b', 'error'],
+      ['c', 'rejected'],
+    ]);
+    expect(auditLog.getByRun(result.runId)).toHaveLength(3);
+
+    // The second model call sees every tool result, errors included
+    const toolMessages = provider.calls[1].filter(message => message.role === 'tool');
+    expect(toolMessages.map(message => message.role === 'tool' && message.content)).toEqual([
+      JSON.stringify({ address: WALLET, sol: 1.5 }),
+      JSON.stringify({ error: 'address is not a valid Solana address: nope' }),
+      JSON.stringify({ error: 'Unknown or disallowed tool: simulate_transaction' }),
+    ]);
+    expect(provider.calls[0][0]).toMatchObject({ role: 'system' });
+  });
+
+  it('stops at the step and tool call limits', async () => {
+    const executor: ToolExecutor = {
+      listTools: async () => [ACCOUNT_TOOL],
+      callTool: jest.fn(async () => ({ sol: 1 })),
+    };
+    const looping = () => scriptedProvider([
+      {
+        response: 'Still looking',
+        toolCalls: [
+          { id: 'x', name: 'get_account_info', arguments: { address: WALLET } },
+          { id: 'y', name: 'get_account_info', arguments: { address: WALLET } },
+        ],
+      },
+    ]);
+
+    const stepLimited = await runToolLoop(looping(), 'loop', executor, { maxSteps: 3, auditLog });
+    expect(stepLimited).toMatchObject({ stopReason: 'step_limit', steps: 3, response: 'Still looking' });
+    expect(stepLimited.toolCalls).toHaveLength(4); // The last step's requests are not executed
+
+    const callLimited = await runToolLoop(looping(), 'loop', executor, { maxToolCalls: 3, auditLog });
+    expect(callLimited).toMatchObject({ stopReason: 'tool_call_limit', steps: 2 });
+    expect(callLimited.toolCalls).toHaveLength(3);
+
+    const textOnly = { ...looping(), queryWithTools: undefined };
+    await expect(runToolLoop(textOnly, 'loop', executor)).rejects.toThrow('does not support tool calling');
+  });
+});
+
+describe('Solana MCP tools', () => {
+  // Handlers are plain JS; tsc infers every destructured param as required
+  const solanaTools = (options: Record<string, any>): Record<string, { handler: (params: any) => Promise<any> }> =>
+    createSolanaTools(options);
+
+  it('looks up accounts with SOL and token balances', async () => {
+    const owner = new PublicKey('11111111111111111111111111111111');
+    const tokenAccount = (mint: string, amount: string) => ({
+      pubkey: Keypair.generate().publicKey,
+      account: { data: { parsed: { info: { mint, tokenAmount: { amount, uiAmountString: String(Number(amount) / 1e6), decimals: 6 } } } } },
+    });
+    const connection = {
+      getParsedAccountInfo: jest.fn(async () => ({ value: { lamports: 1500000000, owner, executable: false, data: Buffer.alloc(0) } })),
+      getParsedTokenAccountsByOwner: jest.fn(async (_: PublicKey, { programId }: { programId: PublicKey }) => ({
+        value: programId.toBase58().startsWith('Tokenkeg') ? [tokenAccount(USDC, '2500000'), tokenAccount(WALLET, '0')] : [],
+      })),
+    };
+
+    const tools = solanaTools({ connection });
+    await expect(tools.get_account_info.handler({ address: WALLET, includeTokens: true })).resolves.toEqual({
+      address: WALLET,
+      exists: true,
+      lamports: 1500000000,
+      sol: 1.5,
+      owner: owner.toBase58(),
+      executable: false,
+      parsed: undefined,
+      space: 0,
+      tokens: [expect.objectContaining({ mint: USDC, amount: '2500000', uiAmount: '2.5', decimals: 6 })],
+    });
+    await expect(tools.get_account_info.handler({ address: 'not-a-key' })).rejects.toThrow('address is not a valid Solana address');
+  });
+
+  it('quotes through Jupiter and summarizes pool scans', async () => {
+    const urls: string[] = [];
+    const fetchMock = jest.fn(async (url: string) => {
+      urls.push(url);
+      if (url.includes('/quote')) {
+        return jsonResponse({
+          inputMint: WALLET, outputMint: USDC, inAmount: '1000000000', outAmount: '150250000',
+          otherAmountThreshold: '149498750', priceImpactPct: '0.0001', slippageBps: 50,
+          routePlan: [{ percent: 100, swapInfo: { label: 'Raydium' } }],
+        });
+      }
+      const pool = (id: string, tvl: number, mint: string) => ({
+        id, dex: 'raydium', poolAddress: id, tokenA: { mint: WALLET, symbol: 'SOL' }, tokenB: { mint, symbol: 'X' },
+        price: 150, fee: 25, tvl, volume24h: 1,
+      });
+      return jsonResponse({ pools: [pool('small', 10, USDC), pool('other', 1000, 'Other'), pool('big', 500, USDC)] });
+    });
+
+    const tools = solanaTools({ connection: {}, fetch: fetchMock, appUrl: 'http://app.local/', appApiKey: 'secret' });
+
+    const quote = await tools.get_quote.handler({ inputMint: WALLET, outputMint: USDC, amount: '1000000000' });
+    expect(quote).toMatchObject({ outAmount: '150250000', minimumOutAmount: '149498750', route: [{ label: 'Raydium', percent: 100 }] });
+    expect(urls[0]).toBe(`https://lite-api.jup.ag/v6/quote?inputMint=${WALLET}&outputMint=${USDC}&amount=1000000000&slippageBps=50`);
+    await expect(tools.get_quote.handler({ inputMint: WALLET, outputMint: USDC, amount: '1.5' })).rejects.toThrow('positive integer');
+
+    const scan = await tools.scan_pools.handler({ dexes: ['raydium'], token: USDC, limit: 1 });
+    expect(urls[1]).toBe('http://app.local/api/pools/scan?dexes=raydium');
+    expect(fetchMock.mock.calls[1]).toEqual([urls[1], { headers: { 'x-api-key': 'secret' } }]);
+    expect(scan).toEqual({ totalPools: 2, pools: [expect.objectContaining({ id: 'big', pair: 'SOL/X', tvl: 500 })] });
+  });
+
+  it('simulates unsigned transactions', async () => {
+    const payer = Keypair.generate().publicKey;
+    const tx = new Transaction({ feePayer: payer, recentBlockhash: '11111111111111111111111111111111' })
+      .add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: Keypair.generate().publicKey, lamports: 1000 }));
+    const encoded = tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+
+    const connection = {
+      simulateTransaction: jest.fn(async () => ({
+        context: { slot: 42 },
+        value: { err: null, logs: ['Program 11111111111111111111111111111111 success'], unitsConsumed: 150 },
+      })),
+    };
+    const tools = solanaTools({ connection });
+
+    await expect(tools.simulate_transaction.handler({ transaction: encoded })).resolves.toEqual({
+      slot: 42,
+      success: true,
+      err: null,
+      unitsConsumed: 150,
+      logs: ['Program 11111111111111111111111111111111 success'],
+    });
+    expect((connection.simulateTransaction.mock.calls[0] as any[])[1]).toMatchObject({ sigVerify: false, replaceRecentBlockhash: true });
+    await expect(tools.simulate_transaction.handler({ transaction: 'AAAA' })).rejects.toThrow('not a valid serialized transaction');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for API key issuing, rotation, revocation and request authentication
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { MemoryStorageAdapter, STORAGE_MIGRATIONS, setStorage } from '../../app/lib/storage';
+import {
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  listApiKeys,
+  verifyApiKey,
+  authenticateApiKey,
+  scopeForPath,
+} from '../../app/lib/api-keys';
+import { getUserUsageRecords } from '../../app/lib/usage-tracking/tracker';
+
+const OWNER = 'owner-wallet';
+
+function request(path: string, key?: string): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    headers: key ? { authorization: `Bearer ${key}` } : {},
+  });
+}
+
+describe('API keys', () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorageAdapter(STORAGE_MIGRATIONS));
+  });
+
+  it('stores only a hash and verifies the issued key', async () => {
+    const { key, info } = await createApiKey(OWNER, { name: 'backend', scopes: ['pools'] });
+
+    expect(key.startsWith(info.prefix)).toBe(true);
+    expect(info).not.toHaveProperty('hash');
+    expect((await verifyApiKey(key))?.id).toBe(info.id);
+    expect(await verifyApiKey(key.slice(0, -1) + (key.endsWith('0') ? '1' : '0'))).toBeNull();
+
+    const [listed] = await listApiKeys(OWNER);
+    expect(listed.usageCount).toBe(0);
+    expect(listed.lastUsedAt).toBeNull();
+  });
+
+  it('rotates with a grace period and revokes', async () => {
+    const { key: oldKey, info } = await createApiKey(OWNER, { name: 'backend', scopes: ['pools', 'ai'] });
+
+    const rotated = await rotateApiKey(OWNER, info.id, 60000);
+    expect(rotated.info.scopes).toEqual(['pools', 'ai']);
+    expect(rotated.info.rotatedFrom).toBe(info.id);
+    expect(await verifyApiKey(oldKey)).not.toBeNull();
+    await expect(rotateApiKey(OWNER, info.id)).rejects.toThrow('already rotated');
+
+    await revokeApiKey(OWNER, info.id);
+    expect(await verifyApiKey(oldKey)).toBeNull();
+    expect(await verifyApiKey(rotated.key)).not.toBeNull();
+    await expect(revokeApiKey('someone-else', rotated.info.id)).rejects.toThrow('API key not found');
+  });
+
+  it('maps route groups to scopes', () => {
+    expect(scopeForPath('/api/pools/scan')).toBe('pools');
+    expect(scopeForPath('/api/jupiter/quote')).toBe('jupiter');
+    expect(scopeForPath('/api/ai/core')).toBe('ai');
+    expect(scopeForPath('/api/agents/control')).toBeNull();
+    expect(scopeForPath('/api/poolsx')).toBeNull();
+  });
+
+  it('authenticates scoped requests, meters usage and enforces the quota', async () => {
+    const { key } = await createApiKey(OWNER, {
+      name: 'scanner',
+      scopes: ['pools'],
+      rateLimit: { limit: 2, windowMs: 60000 },
+    });
+
+    expect(await authenticateApiKey(request('/api/pools/scan'))).toBeNull();
+    expect(await authenticateApiKey(request('/api/pools/scan', 'slk_bogus'))).toMatchObject({ ok: false, status: 401 });
+    expect(await authenticateApiKey(request('/api/jupiter/quote', key))).toMatchObject({ ok: false, status: 403 });
+
+    expect(await authenticateApiKey(request('/api/pools/scan', key))).toMatchObject({ ok: true, scope: 'pools' });
+    expect(await authenticateApiKey(request('/api/pools/scan', key))).toMatchObject({ ok: true });
+    expect(await authenticateApiKey(request('/api/pools/scan', key))).toMatchObject({ ok: false, status: 429 });
+
+    const records = await getUserUsageRecords(OWNER);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ feature: 'scanner_scan', metadata: { path: '/api/pools/scan' } });
+
+    const [listed] = await listApiKeys(OWNER);
+    expect(listed.usageCount).toBe(2);
+    expect(listed.lastUsedAt).not.toBeNull();
+  });
+
+  it('rejects invalid scopes and rate limits', async () => {
+    await expect(createApiKey(OWNER, { name: 'x', scopes: [] })).rejects.toThrow('valid scope');
+    await expect(createApiKey(OWNER, {
+      name: 'x',
+      scopes: ['ai'],
+      rateLimit: { limit: 1000, windowMs: 1000 },
+    })).rejects.toThrow('rate limit');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for data exports: formats, filters, pagination and scheduled runs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { MemoryStorageAdapter, STORAGE_MIGRATIONS, setStorage } from '../../app/lib/storage';
+import { saveArbitrageScan } from '../../app/lib/arbitrage/scan-store';
+import { ArbitrageScanningResults, ArbitrageScanningResultsSchema } from '../../app/lib/arbitrage/arbitrage-result-schema';
+import { recordMarketMakerFill } from '../../app/lib/market-maker/trade-log';
+import { MarketMakerFill } from '../../app/lib/market-maker/types';
+import {
+  streamExport,
+  exportToBytes,
+  createExportSchedule,
+  runDueExportSchedules,
+  listExportRuns,
+  readExportRunFile,
+  periodStart,
+  ExportRequest,
+} from '../../app/lib/export';
+
+const WALLET = 'wallet-1111';
+
+function fill(overrides: Partial<MarketMakerFill>): MarketMakerFill {
+  return {
+    strategy: 'market_making',
+    agentWallet: WALLET,
+    tokenMint: 'mint-a',
+    side: 'buy',
+    price: 0.5,
+    solAmount: 1,
+    tokenAmount: 2,
+    realizedPnl: 0,
+    signature: 'sig',
+    timestamp: new Date('2024-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function scan(scanId: string, start: string): ArbitrageScanningResults {
+  return {
+    scanId,
+    scanStartTime: start,
+    scanEndTime: start,
+    probableTrades: [],
+    tradesExecuted: [],
+    tradesFailed: [],
+    tradesMissed: [],
+    financialSummary: {
+      solMade: 1.5,
+      solDeposited: 0,
+      gasFeesPaid: 0.01,
+      netSolProfit: 1.49,
+      specialTokensMade: [],
+      nftsAcquired: [],
+    },
+    chainsScanned: ['solana'],
+    shouldRepeat: false,
+  };
+}
+
+async function exportText(request: ExportRequest): Promise<{ text: string; nextCursor: string | null }> {
+  const result = await streamExport(request);
+  return { text: await new Response(result.body).text(), nextCursor: result.nextCursor };
+}
+
+/**
+ * Just enough of the Thrift compact protocol to read parquet metadata back
+ */
+function readThriftStruct(bytes: Uint8Array, start: number): { value: Record<number, any>; end: number } {
+  let pos = start;
+  const varint = () => {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = bytes[pos++];
+      result += (byte & 0x7f) * scale;
+      if (byte < 0x80) return result;
+      scale *= 128;
+    }
+  };
+  const zigzag = () => {
+    const n = varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  };
+  const readValue = (type: number): any => {
+    switch (type) {
+      case 1: return true;
+      case 2: return false;
+      case 5:
+      case 6: return zigzag();
+      case 8: {
+        const length = varint();
+        const text = new TextDecoder().decode(bytes.subarray(pos, pos + length));
+        pos += length;
+        return text;
+      }
+      case 9: {
+        const header = bytes[pos++];
+        const size = header >> 4 === 15 ? varint() : header >> 4;
+        return Array.from({ length: size }, () => readValue(header & 0x0f));
+      }
+      case 12: {
+        const struct: Record<number, any> = {};
+        let fieldId = 0;
+        for (;;) {
+          const header = bytes[pos++];
+          if (header === 0) return struct;
+          fieldId = header >> 4 ? fieldId + (header >> 4) : zigzag();
+          struct[fieldId] = readValue(header & 0x0f);
+        }
+      }
+      default:
+        throw new Error(`Unexpected thrift type ${type}`);
+    }
+  };
+  const value = readValue(12);
+  return { value, end: pos };
+}
+
+describe('data export', () => {
+  let exportDir: string;
+
+  beforeEach(() => {
+    setStorage(new MemoryStorageAdapter(STORAGE_MIGRATIONS));
+    exportDir = mkdtempSync(path.join(tmpdir(), 'exports-'));
+    process.env.EXPORT_DIR = exportDir;
+  });
+
+  afterEach(() => {
+    rmSync(exportDir, { recursive: true, force: true });
+    delete process.env.EXPORT_DIR;
+  });
+
+  it('writes CSV with quoting and guards against spreadsheet formulas', async () => {
+    await recordMarketMakerFill(fill({ signature: '=HYPERLINK("x")', price: 0.25 }));
+    await recordMarketMakerFill(fill({ signature: 'plain,sig', side: 'sell' }));
+
+    const { text } = await exportText({ dataset: 'market_maker_trades', wallet: WALLET, format: 'csv' });
+    const lines = text.trim().split('\r\n');
+    expect(lines[0]).toBe('timestamp,strategy,agentWallet,tokenMint,side,price,solAmount,tokenAmount,realizedPnl,signature');
+    expect(lines[1]).toBe(`2024-03-01T00:00:00.000Z,market_making,${WALLET},mint-a,buy,0.25,1,2,0,"'=HYPERLINK(""x"")"`);
+    expect(lines[2].endsWith(',"plain,sig"')).toBe(true);
+  });
+
+  it('filters by range and side and pages with a cursor', async () => {
+    for (let day = 1; day <= 5; day++) {
+      await recordMarketMakerFill(fill({
+        signature: `sig-${day}`,
+        side: day % 2 === 0 ? 'sell' : 'buy',
+        timestamp: new Date(Date.UTC(2024, 2, day)),
+      }));
+    }
+
+    const request: ExportRequest = {
+      dataset: 'market_maker_trades',
+      wallet: WALLET,
+      format: 'jsonl',
+      filters: { from: '2024-03-01T00:00:00Z', to: '2024-03-05T00:00:00Z', side: 'buy' },
+      limit: 1,
+    };
+    const first = await exportText(request);
+    expect(first.text.trim().split('\n').map(line => JSON.parse(line).signature)).toEqual(['sig-1']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await exportText({ ...request, cursor: first.nextCursor! });
+    expect(second.text.trim().split('\n').map(line => JSON.parse(line).signature)).toEqual(['sig-3']);
+    expect(second.nextCursor).toBeNull();
+
+    await expect(streamExport({ ...request, limit: 0 })).rejects.toThrow('limit');
+    await expect(streamExport({ ...request, filters: { from: 'yesterday' } })).rejects.toThrow('Invalid from date');
+  });
+
+  it('exports arbitrage scans that conform to the results schema', async () => {
+    await saveArbitrageScan(WALLET, scan('scan-2', '2024-03-02T00:00:00.000Z'));
+    await saveArbitrageScan(WALLET, scan('scan-1', '2024-03-01T00:00:00.000Z'));
+    await saveArbitrageScan('someone-else', scan('scan-3', '2024-03-01T00:00:00.000Z'));
+    await expect(saveArbitrageScan(WALLET, { scanId: 'bad' } as ArbitrageScanningResults)).rejects.toThrow();
+
+    const { text } = await exportText({ dataset: 'arbitrage', wallet: WALLET, format: 'jsonl' });
+    const documents = text.trim().split('\n').map(line => JSON.parse(line));
+    expect(documents.map(document => document.scanId)).toEqual(['scan-1', 'scan-2']);
+    documents.forEach(document => expect(ArbitrageScanningResultsSchema.safeParse(document).success).toBe(true));
+
+    const csv = await exportText({ dataset: 'arbitrage', wallet: WALLET, format: 'csv' });
+    expect(csv.text).toContain('"{""solMade"":1.5');
+  });
+
+  it('writes a readable Parquet file', async () => {
+    await recordMarketMakerFill(fill({ price: 0.5 }));
+    await recordMarketMakerFill(fill({ price: 0.75, timestamp: new Date('2024-03-02T00:00:00Z') }));
+
+    const { bytes } = await exportToBytes({ dataset: 'market_maker_trades', wallet: WALLET, format: 'parquet' });
+    const text = new TextDecoder();
+    expect(text.decode(bytes.subarray(0, 4))).toBe('PAR1');
+    expect(text.decode(bytes.subarray(bytes.length - 4))).toBe('PAR1');
+
+    const footerLength = new DataView(bytes.buffer, bytes.byteOffset).getInt32(bytes.length - 8, true);
+    const { value: meta } = readThriftStruct(bytes, bytes.length - 8 - footerLength);
+    expect(meta[3]).toBe(2); // num_rows
+    expect(meta[2].slice(1).map((element: Record<number, any>) => element[4])).toEqual([
+      'timestamp', 'strategy', 'agentWallet', 'tokenMint', 'side', 'price',
+      'solAmount', 'tokenAmount', 'realizedPnl', 'signature',
+    ]);
+
+    // Read the price column's page: header, definition levels, then PLAIN doubles
+    const priceChunk = meta[4][0][1][5][3];
+    const page = readThriftStruct(bytes, priceChunk[9]);
+    expect(page.value[5][1]).toBe(2); // num_values
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const levelsLength = view.getInt32(page.end, true);
+    const valuesAt = page.end + 4 + levelsLength;
+    expect([view.getFloat64(valuesAt, true), view.getFloat64(valuesAt + 8, true)]).toEqual([0.5, 0.75]);
+  });
+
+  it('runs schedules once per period and keeps the file for download', async () => {
+    expect(periodStart('weekly', new Date('2024-03-07T12:00:00Z')).toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    expect(periodStart('quarterly', new Date('2024-05-20T00:00:00Z')).toISOString()).toBe('2024-04-01T00:00:00.000Z');
+
+    const schedule = await createExportSchedule(
+      WALLET,
+      { dataset: 'market_maker_trades', format: 'csv', frequency: 'monthly' },
+      new Date('2024-03-10T00:00:00Z')
+    );
+    expect(schedule.nextRunAt).toBe('2024-04-01T00:00:00.000Z');
+
+    await recordMarketMakerFill(fill({ signature: 'march', timestamp: new Date('2024-03-15T00:00:00Z') }));
+    await recordMarketMakerFill(fill({ signature: 'april', timestamp: new Date('2024-04-02T00:00:00Z') }));
+
+    expect(await runDueExportSchedules(new Date('2024-03-31T23:00:00Z'))).toEqual([]);
+    const [run] = await runDueExportSchedules(new Date('2024-04-01T06:00:00Z'));
+    expect(run).toMatchObject({
+      status: 'succeeded',
+      rows: 1,
+      periodStart: '2024-03-01T00:00:00.000Z',
+      periodEnd: '2024-04-01T00:00:00.000Z',
+    });
+    expect(await runDueExportSchedules(new Date('2024-04-01T07:00:00Z'))).toEqual([]);
+
+    const contents = readFileSync(path.join(exportDir, run.fileName!), 'utf8');
+    expect(contents).toContain('march');
+    expect(contents).not.toContain('april');
+
+    expect((await listExportRuns(WALLET)).map(r => r.id)).toEqual([run.id]);
+    const file = await readExportRunFile(WALLET, run.id);
+    expect(file.fileName).toBe('market_maker_trades-2024-03-01.csv');
+    await expect(readExportRunFile('someone-else', run.id)).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Tests for the Jupiter, Raydium, Orca, Marinade and Magic Eden instruction encoders
+ * Instruction data and derived accounts are checked against mainnet values
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { TransactionBuilder } from '../../app/lib/transaction-builder';
+import { getTemplateById } from '../../app/lib/instructions/templates';
+import { MARKET_STATE_LAYOUT } from '../../app/lib/pools/layouts/openbook';
+import {
+  deriveAmmAuthority,
+  encodeRaydiumSwapBaseIn,
+  resolveRaydiumSwapKeys,
+} from '../../app/lib/instructions/encoders/raydium';
+import {
+  ROUTE_DISCRIMINATOR,
+  SHARED_ACCOUNTS_ROUTE_DISCRIMINATOR,
+  decodeJupiterRouteArgs,
+  encodeJupiterRouteData,
+  fetchJupiterSwapInstructions,
+  slippageBpsForMinOut,
+} from '../../app/lib/instructions/encoders/jupiter';
+import {
+  INITIALIZE_TICK_ARRAY_DISCRIMINATOR,
+  OPEN_POSITION_DISCRIMINATOR,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  deriveWhirlpoolTickArray,
+  encodeOpenPositionData,
+  getWhirlpoolTickArrayStartIndex,
+  validateTickRange,
+} from '../../app/lib/instructions/encoders/orca';
+import {
+  DEPOSIT_DISCRIMINATOR,
+  encodeMarinadeDepositData,
+  getMarinadeDepositKeys,
+} from '../../app/lib/instructions/encoders/marinade';
+import { BUY_DISCRIMINATOR, encodeM2BuyData } from '../../app/lib/instructions/encoders/magic-eden';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const OPENBOOK = 'srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX';
+
+// Mainnet SOL/USDC OpenBook market behind the AMM v4 fixture
+const SOL_USDC_MARKET = {
+  address: '8BnEgHoWFysVcuFFX7QztDmzuH8r5ZFvyP3sYwn1XTh6',
+  vaultSignerNonce: 1,
+  authority: 'CTz5UMLQm2SRWHzQnU62Pi4yJqbNGjgRBHqqp6oDHfF7',
+  bids: '5jWUncPNBMZJ3sTHKmMLszypVkoRK6bfEQMQUHweeQnh',
+  asks: 'EaXdHx7x3mdGA38j5RSmKYSXMzAFzzUXCLNBEDXDn1d5',
+  eventQueue: '8CvwxZ9Db6XbLD46NZwwmVDZZRDy7eydFcAGkXKh9axa',
+  baseVault: 'CKxTHwM9fPMRRvZmFnFoqKNd9pQR21c5Aq9bh5h9oghX',
+  quoteVault: '6A5NHCj1yF6urc9wZNe6Bcjj4LVszQNj5DwAWG97yzMu',
+};
+
+function anchorDiscriminator(name: string): number[] {
+  return Array.from(createHash('sha256').update(`global:${name}`).digest().subarray(0, 8));
+}
+
+function accountInfo(data: Buffer, owner: string): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+function mockConnection(accounts: Record<string, AccountInfo<Buffer>>): Connection {
+  return {
+    getAccountInfo: async (key: PublicKey) => accounts[key.toString()] ?? null,
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(key => accounts[key.toString()] ?? null),
+  } as unknown as Connection;
+}
+
+function marketAccount(): Buffer {
+  const data = Buffer.alloc(MARKET_STATE_LAYOUT.span);
+  const writeKey = (field: 'bids' | 'asks' | 'eventQueue' | 'baseVault' | 'quoteVault', value: string) =>
+    new PublicKey(value).toBuffer().copy(data, MARKET_STATE_LAYOUT.offsetOf(field));
+
+  data.writeBigUInt64LE(BigInt(SOL_USDC_MARKET.vaultSignerNonce), MARKET_STATE_LAYOUT.offsetOf('vaultSignerNonce'));
+  writeKey('bids', SOL_USDC_MARKET.bids);
+  writeKey('asks', SOL_USDC_MARKET.asks);
+  writeKey('eventQueue', SOL_USDC_MARKET.eventQueue);
+  writeKey('baseVault', SOL_USDC_MARKET.baseVault);
+  writeKey('quoteVault', SOL_USDC_MARKET.quoteVault);
+  return data;
+}
+
+describe('Raydium AMM v4 swap', () => {
+  const amm = JSON.parse(readFileSync(join(__dirname, '../fixtures/raydium/amm-v4-sol-usdc.json'), 'utf8'));
+  const owner = Keypair.generate().publicKey;
+  const connection = mockConnection({
+    [amm.address]: accountInfo(Buffer.from(amm.data, 'base64'), amm.programId),
+    [SOL_USDC_MARKET.address]: accountInfo(marketAccount(), OPENBOOK),
+  });
+
+  it('should encode SwapBaseIn as tag 9 followed by u64 amounts', () => {
+    // 1 SOL in, at least 150 USDC out
+    expect(encodeRaydiumSwapBaseIn(1_000_000_000, '150000000').toString('hex')).toBe(
+      '09' + '00ca9a3b00000000' + '80d1f00800000000'
+    );
+    expect(() => encodeRaydiumSwapBaseIn(-1, 0)).toThrow('out of u64 range');
+  });
+
+  it('should derive the mainnet AMM authority', () => {
+    expect(deriveAmmAuthority().toString()).toBe('5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1');
+  });
+
+  it('should fill vaults, market accounts and ATAs from the pool state', async () => {
+    const { keys, destinationMint } = await resolveRaydiumSwapKeys(
+      connection,
+      { ammId: amm.address, userSourceOwner: owner.toString() },
+      WSOL
+    );
+
+    expect(keys.poolCoinTokenAccount.toString()).toBe('DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz');
+    expect(keys.serumProgramId.toString()).toBe(OPENBOOK);
+    expect(keys.serumMarket.toString()).toBe(SOL_USDC_MARKET.address);
+    expect(keys.serumBids.toString()).toBe(SOL_USDC_MARKET.bids);
+    expect(keys.serumPcVaultAccount.toString()).toBe(SOL_USDC_MARKET.quoteVault);
+    expect(keys.serumVaultSigner.toString()).toBe(SOL_USDC_MARKET.authority);
+    expect(keys.userSourceTokenAccount.equals(getAssociatedTokenAddressSync(new PublicKey(WSOL), owner))).toBe(true);
+    expect(keys.userDestinationTokenAccount.equals(getAssociatedTokenAddressSync(new PublicKey(USDC), owner))).toBe(true);
+    expect(destinationMint?.toString()).toBe(USDC);
+  });
+
+  it('should build the ATA setup and swap through TransactionBuilder', async () => {
+    const builder = new TransactionBuilder(connection);
+    const transaction = await builder.buildTransaction({
+      instructions: [
+        {
+          template: getTemplateById('raydium_swap')!,
+          accounts: { ammId: amm.address, userSourceOwner: owner.toString() },
+          args: { amountIn: '1000000000', minimumAmountOut: '150000000', inputMint: WSOL },
+        },
+      ],
+    });
+
+    expect(transaction.instructions).toHaveLength(2);
+    const swap = transaction.instructions[1];
+    expect(swap.programId.toString()).toBe('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+    expect(swap.keys).toHaveLength(18);
+    expect(swap.keys[17]).toEqual({ pubkey: owner, isSigner: true, isWritable: false });
+    expect(swap.data.toString('hex')).toBe('0900ca9a3b0000000080d1f00800000000');
+  });
+
+  it('should refuse to build a swap without a minimum output', async () => {
+    const builder = new TransactionBuilder(connection);
+    const build = (args: Record<string, string>) => builder.buildTransaction({
+      instructions: [
+        {
+          template: getTemplateById('raydium_swap')!,
+          accounts: { ammId: amm.address, userSourceOwner: owner.toString() },
+          args: { amountIn: '1000000000', inputMint: WSOL, ...args },
+        },
+      ],
+    });
+
+    await expect(build({})).rejects.toThrow('raydium_swap: missing required argument "minimumAmountOut"');
+    await expect(build({ minimumAmountOut: '0' })).rejects.toThrow('minimumAmountOut must be greater than 0');
+  });
+
+  it('should require inputMint to derive user token accounts', async () => {
+    await expect(
+      resolveRaydiumSwapKeys(connection, { ammId: amm.address, userSourceOwner: owner.toString() })
+    ).rejects.toThrow('inputMint is required');
+  });
+});
+
+describe('Jupiter v6 route', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should use the Anchor discriminators of route and shared_accounts_route', () => {
+    expect(ROUTE_DISCRIMINATOR).toEqual(anchorDiscriminator('route'));
+    expect(SHARED_ACCOUNTS_ROUTE_DISCRIMINATOR).toEqual(anchorDiscriminator('shared_accounts_route'));
+  });
+
+  it('should round-trip the route args', () => {
+    const data = encodeJupiterRouteData(
+      [{ swap: Buffer.from([7]), percent: 100, inputIndex: 0, outputIndex: 1 }],
+      1_000_000_000,
+      150_000_000,
+      50
+    );
+
+    expect(data.toString('hex')).toBe(
+      'e517cb977ae3ad2a' + '01000000' + '07640001' + '00ca9a3b00000000' + '80d1f00800000000' + '3200' + '00'
+    );
+    expect(decodeJupiterRouteArgs(data)).toEqual({
+      kind: 'route',
+      inAmount: BigInt(1_000_000_000),
+      quotedOutAmount: BigInt(150_000_000),
+      slippageBps: 50,
+      platformFeeBps: 0,
+    });
+  });
+
+  it('should pick the slippage that enforces minAmountOut on-chain', () => {
+    expect(slippageBpsForMinOut(150_000_000, 149_250_000)).toBe(50);
+    expect(slippageBpsForMinOut(150_000_000, 150_000_000)).toBe(0);
+    expect(() => slippageBpsForMinOut(150_000_000, 150_000_001)).toThrow('below minAmountOut');
+  });
+
+  it('should verify the swap instruction returned by the API', async () => {
+    const user = Keypair.generate().publicKey;
+    const mockFetch = (spentAmount: number) =>
+      (async (url: string, init?: { body?: string }) => {
+        if (url.includes('/quote?')) {
+          return { ok: true, json: async () => ({ inAmount: '1000000000', outAmount: '150000000' }) };
+        }
+        const { quoteResponse } = JSON.parse(init!.body!);
+        const data = encodeJupiterRouteData(
+          [{ swap: Buffer.from([7]), percent: 100, inputIndex: 0, outputIndex: 1 }],
+          spentAmount,
+          quoteResponse.outAmount,
+          quoteResponse.slippageBps
+        );
+        return {
+          ok: true,
+          json: async () => ({
+            swapInstruction: {
+              programId: 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+              accounts: [{ pubkey: user.toString(), isSigner: true, isWritable: false }],
+              data: data.toString('base64'),
+            },
+          }),
+        };
+      }) as unknown as typeof fetch;
+
+    const request = { inputMint: WSOL, outputMint: USDC, amount: 1_000_000_000, minAmountOut: 148_500_000, userPublicKey: user };
+
+    global.fetch = mockFetch(1_000_000_000);
+    const instructions = await fetchJupiterSwapInstructions(request);
+    expect(instructions).toHaveLength(1);
+    expect(decodeJupiterRouteArgs(instructions[0].data).slippageBps).toBe(100);
+
+    global.fetch = mockFetch(2_000_000_000);
+    await expect(fetchJupiterSwapInstructions(request)).rejects.toThrow('Jupiter route spends 2000000000');
+  });
+});
+
+describe('Orca Whirlpool open position', () => {
+  it('should encode open_position with bump and tick bounds', () => {
+    expect(OPEN_POSITION_DISCRIMINATOR).toEqual(anchorDiscriminator('open_position'));
+    expect(INITIALIZE_TICK_ARRAY_DISCRIMINATOR).toEqual(anchorDiscriminator('initialize_tick_array'));
+    expect(encodeOpenPositionData(254, -22528, -16896).toString('hex')).toBe(
+      '87802f4d0f98f031' + 'fe' + '00a8ffff' + '00beffff'
+    );
+  });
+
+  it('should locate tick arrays by 88-tick windows', () => {
+    expect(getWhirlpoolTickArrayStartIndex(-22528, 64)).toBe(-22528);
+    expect(getWhirlpoolTickArrayStartIndex(-16896, 64)).toBe(-16896);
+    expect(getWhirlpoolTickArrayStartIndex(-1, 64)).toBe(-5632);
+    expect(getWhirlpoolTickArrayStartIndex(100, 1)).toBe(88);
+  });
+
+  it('should reject unaligned or inverted ranges', () => {
+    expect(() => validateTickRange(-100, 128, 64)).toThrow('multiples of tick spacing 64');
+    expect(() => validateTickRange(128, -128, 64)).toThrow('must be below');
+  });
+
+  it('should initialize missing tick arrays and generate the position mint', async () => {
+    const whirlpool = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+    const whirlpoolData = Buffer.alloc(653);
+    whirlpoolData.writeUInt16LE(64, 41);
+    const existingArray = deriveWhirlpoolTickArray(whirlpool, -22528);
+
+    const builder = new TransactionBuilder(
+      mockConnection({
+        [whirlpool.toString()]: accountInfo(whirlpoolData, ORCA_WHIRLPOOL_PROGRAM_ID),
+        [existingArray.toString()]: accountInfo(Buffer.alloc(8), ORCA_WHIRLPOOL_PROGRAM_ID),
+      })
+    );
+    const transaction = await builder.buildTransaction({
+      instructions: [
+        {
+          template: getTemplateById('orca_open_position')!,
+          accounts: { whirlpool: whirlpool.toString(), owner: owner.toString() },
+          args: { tickLowerIndex: '-22528', tickUpperIndex: '-16896' },
+        },
+      ],
+    });
+
+    const signers = (transaction as any)._additionalSigners as Keypair[];
+    expect(signers).toHaveLength(1);
+    expect(transaction.instructions).toHaveLength(2);
+
+    const [initTickArray, openPosition] = transaction.instructions;
+    expect(initTickArray.data.toString('hex')).toBe('0bbcc1d68d5b95b8' + '00beffff');
+    expect(initTickArray.keys[2].pubkey.equals(deriveWhirlpoolTickArray(whirlpool, -16896))).toBe(true);
+    expect(openPosition.keys[3]).toEqual({ pubkey: signers[0].publicKey, isSigner: true, isWritable: true });
+    expect(openPosition.data.subarray(9).toString('hex')).toBe('00a8ffff00beffff');
+  });
+});
+
+describe('Marinade deposit', () => {
+  it('should derive the mainnet state PDAs', () => {
+    const keys = getMarinadeDepositKeys(Keypair.generate().publicKey);
+
+    expect(keys.reservePda.toString()).toBe('Du3Ysj1wKbxPKkuPPnvzQLQh8oMSVifs3jGZjJWXFmHN');
+    expect(keys.liqPoolSolLegPda.toString()).toBe('UefNb6z6yvArqe4cJHTXCqStRsKmWhGxnZzuHbikP5Q');
+    expect(keys.liqPoolMsolLegAuthority.toString()).toBe('EyaSjUtSgo9aRD1f8LWXwdvkpDTmXAW54yoSHZRF14WL');
+    expect(keys.msolMintAuthority.toString()).toBe('3JLPCS1qM2zRw3Dp6V4hZnYHd4toMNPkNesXdX9tg6KM');
+  });
+
+  it('should encode deposit lamports', () => {
+    expect(DEPOSIT_DISCRIMINATOR).toEqual(anchorDiscriminator('deposit'));
+    expect(encodeMarinadeDepositData(1_000_000_000).toString('hex')).toBe('f223c68952e1f2b6' + '00ca9a3b00000000');
+  });
+});
+
+describe('Magic Eden M2 buy', () => {
+  it('should encode bumps, price and size', () => {
+    expect(BUY_DISCRIMINATOR).toEqual(anchorDiscriminator('buy'));
+    expect(
+      encodeM2BuyData({ tradeStateBump: 254, escrowPaymentBump: 253, buyerPrice: 1_500_000_000, tokenSize: 1 }).toString('hex')
+    ).toBe('66063d1201daebea' + 'fe' + 'fd' + '002f685900000000' + '0100000000000000');
+  });
+
+  it('should reject bumps that do not match the derived accounts', async () => {
+    const builder = new TransactionBuilder(mockConnection({}));
+    const accounts = {
+      auctionHouse: 'E8cU1WiRWjanGxmn96ewBgk9vPTcL6AEZ1t6F6fkgUWe',
+      authority: 'autMW8SgBkVYeBgqYiTuJZnkvDZMVU2MHJh9Jh7CSQ2',
+      buyer: Keypair.generate().publicKey.toString(),
+      tokenAccount: Keypair.generate().publicKey.toString(),
+      tokenMint: Keypair.generate().publicKey.toString(),
+    };
+    const template = getTemplateById('me_buy_now')!;
+
+    const transaction = await builder.buildTransaction({
+      instructions: [{ template, accounts, args: { buyerPrice: '1500000000', tokenSize: 1 } }],
+    });
+    const [buy] = transaction.instructions;
+    expect(buy.keys[0].pubkey.toString()).toBe(accounts.buyer);
+    expect(buy.data.subarray(10).toString('hex')).toBe('002f6859000000000100000000000000');
+
+    await expect(
+      builder.buildTransaction({
+        instructions: [{ template, accounts, args: { buyerPrice: '1500000000', tradeStateBump: buy.data[8] ^ 1 } }],
+      })
+    ).rejects.toThrow('tradeStateBump should be');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for decoding Anchor accounts, instructions and events from legacy and 0.30+ IDLs
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Keypair } from '@solana/web3.js';
+import {
+  EVENT_IX_TAG,
+  anchorDiscriminator,
+  decodeIdlAccount,
+  decodeIdlEvent,
+  decodeIdlEventsFromLogs,
+  decodeIdlInstruction,
+  parseIdl,
+} from '../../app/lib/instructions/idl-decoder';
+
+const owner = Keypair.generate().publicKey;
+const market = Keypair.generate().publicKey;
+const payer = Keypair.generate().publicKey;
+
+const u8 = (value: number) => Buffer.from([value]);
+const u32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+const i64 = (value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigInt64LE(BigInt(value));
+  return buffer;
+};
+const str = (value: string) => Buffer.concat([u32(value.length), Buffer.from(value)]);
+
+// Position { owner, side: Side, size: i64, limits: Option<Limits>, fills: Vec<u64>, tag: [u8; 2], label: String }
+// Side is Bid | Ask { price: u64 } | Cancelled(u8); Limits { max: u64 }
+function positionBody(): Buffer {
+  return Buffer.concat([
+    owner.toBuffer(),
+    u8(1), i64(1500),
+    i64(-42),
+    u8(1), i64(900),
+    u32(2), i64(1), i64(2),
+    Buffer.from([7, 8]),
+    str('long'),
+  ]);
+}
+
+const legacyIdl = {
+  version: '0.1.0',
+  name: 'perps',
+  instructions: [
+    {
+      name: 'openPosition',
+      accounts: [
+        { name: 'position', isMut: true, isSigner: false },
+        { name: 'common', accounts: [{ name: 'market', isMut: false, isSigner: false }, { name: 'payer', isMut: true, isSigner: true }] },
+      ],
+      args: [{ name: 'size', type: 'i64' }, { name: 'side', type: { defined: 'Side' } }],
+    },
+  ],
+  accounts: [
+    {
+      name: 'Position',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'owner', type: 'publicKey' },
+          { name: 'side', type: { defined: 'Side' } },
+          { name: 'size', type: 'i64' },
+          { name: 'limits', type: { option: { defined: 'Limits' } } },
+          { name: 'fills', type: { vec: 'u64' } },
+          { name: 'tag', type: { array: ['u8', 2] } },
+          { name: 'label', type: 'string' },
+        ],
+      },
+    },
+    { name: 'Market', type: { kind: 'struct', fields: [{ name: 'authority', type: 'publicKey' }] } },
+  ],
+  types: [
+    {
+      name: 'Side',
+      type: {
+        kind: 'enum',
+        variants: [{ name: 'Bid' }, { name: 'Ask', fields: [{ name: 'price', type: 'u64' }] }, { name: 'Cancelled', fields: ['u8'] }],
+      },
+    },
+    { name: 'Limits', type: { kind: 'struct', fields: [{ name: 'max', type: 'u64' }] } },
+  ],
+  events: [{ name: 'PositionOpened', fields: [{ name: 'owner', type: 'publicKey', index: false }, { name: 'size', type: 'i64', index: false }] }],
+};
+
+const newIdl = {
+  address: 'Perps11111111111111111111111111111111111111',
+  metadata: { name: 'perps', version: '0.1.0', spec: '0.1.0' },
+  instructions: [
+    {
+      name: 'open_position',
+      discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+      accounts: [
+        { name: 'position', writable: true },
+        { name: 'common', accounts: [{ name: 'market' }, { name: 'payer', writable: true, signer: true }] },
+      ],
+      args: [{ name: 'size', type: 'i64' }, { name: 'side', type: { defined: { name: 'Side' } } }],
+    },
+  ],
+  accounts: [
+    { name: 'Position', discriminator: [170, 188, 143, 228, 122, 64, 247, 208] },
+    { name: 'Market', discriminator: [219, 190, 213, 55, 0, 227, 198, 154] },
+  ],
+  events: [{ name: 'PositionOpened', discriminator: [9, 9, 9, 9, 9, 9, 9, 9] }],
+  types: [
+    ...legacyIdl.types.map(type => JSON.parse(JSON.stringify(type).replace(/"defined":"(\w+)"/g, '"defined":{"name":"$1"}'))),
+    ...legacyIdl.accounts.map(account => JSON.parse(JSON.stringify(account).replace(/publicKey/g, 'pubkey').replace(/"defined":"(\w+)"/g, '"defined":{"name":"$1"}'))),
+    { name: 'PositionOpened', type: { kind: 'struct', fields: [{ name: 'owner', type: 'pubkey' }, { name: 'size', type: 'i64' }] } },
+  ],
+};
+
+const expectedPosition = {
+  owner: owner.toBase58(),
+  side: { Ask: { price: '1500' } },
+  size: '-42',
+  limits: { max: '900' },
+  fills: ['1', '2'],
+  tag: [7, 8],
+  label: 'long',
+};
+
+describe('parseIdl', () => {
+  it('should derive legacy discriminators from names', () => {
+    const idl = parseIdl(legacyIdl);
+    expect(idl.format).toBe('legacy');
+    expect(idl.instructions[0].discriminator).toEqual(anchorDiscriminator('global', 'open_position'));
+    expect(idl.accounts[0].discriminator).toEqual(anchorDiscriminator('account', 'Position'));
+    expect(idl.instructions[0].accounts).toEqual(['position', 'common.market', 'common.payer']);
+  });
+
+  it('should take 0.30+ discriminators and layouts from the IDL', () => {
+    const idl = parseIdl(newIdl);
+    expect(idl.format).toBe('v0.30');
+    expect(idl.address).toBe(newIdl.address);
+    expect(idl.events[0].discriminator).toEqual([9, 9, 9, 9, 9, 9, 9, 9]);
+  });
+});
+
+describe.each([
+  ['legacy', parseIdl(legacyIdl)],
+  ['0.30+', parseIdl(newIdl)],
+])('decoding with a %s IDL', (_, idl) => {
+  const positionDiscriminator = idl.accounts[0].discriminator;
+
+  it('should detect and decode an account with nested types', () => {
+    const data = Buffer.concat([Buffer.from(positionDiscriminator), positionBody(), Buffer.alloc(16)]);
+    expect(decodeIdlAccount(idl, data)).toEqual({ name: 'Position', data: expectedPosition });
+    expect(decodeIdlAccount(idl, data, 'Position')!.data).toEqual(expectedPosition);
+    expect(() => decodeIdlAccount(idl, data, 'Market')).toThrow('does not start with the Market discriminator');
+    expect(decodeIdlAccount(idl, Buffer.alloc(40))).toBeNull();
+  });
+
+  it('should report where truncated data ends', () => {
+    const data = Buffer.concat([Buffer.from(positionDiscriminator), positionBody().subarray(0, 45)]);
+    expect(() => decodeIdlAccount(idl, data)).toThrow('Position.size');
+  });
+
+  it('should decode instruction args and name its accounts', () => {
+    const data = Buffer.concat([Buffer.from(idl.instructions[0].discriminator), i64(10), u8(2), u8(3)]);
+    const extra = Keypair.generate().publicKey;
+    const decoded = decodeIdlInstruction(idl, data, [owner, market, payer, extra]);
+
+    expect(decoded!.name).toBe(idl.instructions[0].name);
+    expect(decoded!.args).toEqual({ size: '10', side: { Cancelled: [3] } });
+    expect(decoded!.accounts.map(account => account.name)).toEqual(['position', 'common.market', 'common.payer', 'remainingAccounts[0]']);
+    expect(decoded!.accounts[2].pubkey).toBe(payer.toBase58());
+  });
+
+  it('should decode events from logs and emit_cpi instructions', () => {
+    const event = Buffer.concat([Buffer.from(idl.events[0].discriminator), owner.toBuffer(), i64(5)]);
+    const expected = { name: 'PositionOpened', data: { owner: owner.toBase58(), size: '5' } };
+
+    expect(decodeIdlEventsFromLogs(idl, ['Program log: opened', `Program data: ${event.toString('base64')}`])).toEqual([expected]);
+    expect(decodeIdlEvent(idl, Buffer.concat([Buffer.from(EVENT_IX_TAG), event]))).toEqual(expected);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for Token-2022 mint extension sizing and initialization order
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import {
+  ExtensionType,
+  LENGTH_SIZE,
+  MINT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  TokenInstruction,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+} from '@solana/spl-token';
+import { pack } from '@solana/spl-token-metadata';
+import { planMintExtensions } from '../../app/lib/instructions/encoders/token-2022';
+import { TransactionBuilder } from '../../app/lib/transaction-builder';
+import { getTemplateById } from '../../app/lib/instructions/templates';
+
+const METADATA = { name: 'Ipsum', symbol: 'IPS', uri: 'https://example.com/ipsum.json' };
+
+describe('planMintExtensions', () => {
+  const mint = Keypair.generate().publicKey;
+  const authority = Keypair.generate().publicKey;
+
+  it('should initialize every extension before InitializeMint, in order', () => {
+    const plan = planMintExtensions({
+      mint,
+      authority,
+      transferFee: { basisPoints: 250, maximumFee: 1000000 },
+      interestRateBps: -200,
+      nonTransferable: true,
+      permanentDelegate: authority,
+      metadata: METADATA,
+      transferHookProgram: Keypair.generate().publicKey,
+    });
+
+    expect(plan.extensions).toEqual([
+      ExtensionType.TransferFeeConfig,
+      ExtensionType.InterestBearingConfig,
+      ExtensionType.NonTransferable,
+      ExtensionType.PermanentDelegate,
+      ExtensionType.MetadataPointer,
+      ExtensionType.TransferHook,
+    ]);
+    expect(plan.preInitializeInstructions.map(ix => ix.data[0])).toEqual([
+      TokenInstruction.TransferFeeExtension,
+      TokenInstruction.InterestBearingMintExtension,
+      TokenInstruction.InitializeNonTransferableMint,
+      TokenInstruction.InitializePermanentDelegate,
+      TokenInstruction.MetadataPointerExtension,
+      TokenInstruction.TransferHookExtension,
+    ]);
+    expect(plan.preInitializeInstructions.every(ix => ix.programId.equals(TOKEN_2022_PROGRAM_ID))).toBe(true);
+    expect(plan.postInitializeInstructions).toHaveLength(1);
+  });
+
+  it('should allocate the extensions and fund the metadata written after initialization', () => {
+    const plan = planMintExtensions({ mint, authority, metadata: METADATA });
+    const metadataLength = pack({ mint, updateAuthority: authority, additionalMetadata: [], ...METADATA }).length;
+
+    expect(plan.mintSpace).toBe(getMintLen([ExtensionType.MetadataPointer]));
+    expect(plan.rentSpace).toBe(plan.mintSpace + TYPE_SIZE + LENGTH_SIZE + metadataLength);
+
+    const bare = planMintExtensions({ mint, authority });
+    expect(bare.mintSpace).toBe(MINT_SIZE);
+    expect(bare.rentSpace).toBe(MINT_SIZE);
+  });
+
+  it('should reject invalid fees, rates and off-mint metadata', () => {
+    expect(() => planMintExtensions({ mint, authority, transferFee: { basisPoints: 10001 } })).toThrow('basis points');
+    expect(() => planMintExtensions({ mint, authority, interestRateBps: 40000 })).toThrow('i16');
+    expect(() =>
+      planMintExtensions({ mint, authority, metadata: METADATA, metadataPointer: Keypair.generate().publicKey })
+    ).toThrow('reference the mint');
+  });
+});
+
+describe('TransactionBuilder create_token_and_mint', () => {
+  const owner = Keypair.generate().publicKey;
+  const rentFor: number[] = [];
+  const connection = {
+    getMinimumBalanceForRentExemption: async (space: number) => {
+      rentFor.push(space);
+      return space * 10;
+    },
+  } as unknown as Connection;
+
+  it('should build a Token-2022 launch with extensions and on-mint metadata', async () => {
+    const builder = new TransactionBuilder(connection);
+    const transaction = await builder.buildTransaction({
+      instructions: [
+        {
+          template: getTemplateById('spl_token_create_mint')!,
+          accounts: { payer: owner.toString(), tokenAccountOwner: owner.toString() },
+          args: {
+            _operation: 'create_token_and_mint',
+            decimals: 6,
+            initialSupply: BigInt(1000),
+            mintAuthority: owner.toString(),
+            useToken2022: true,
+            enableTax: true,
+            transferFee: 100,
+            maxTransferFee: '',
+            enableInterestBearing: true,
+            interestRate: 500,
+            permanentDelegate: owner.toString(),
+            tokenName: METADATA.name,
+            tokenSymbol: METADATA.symbol,
+            metadataURI: METADATA.uri,
+          },
+        },
+      ],
+    });
+
+    const [create, ...rest] = transaction.instructions;
+    const mint = create.keys[1].pubkey;
+    expect(create.programId.equals(SystemProgram.programId)).toBe(true);
+    expect(create.data.readBigUInt64LE(12)).toBe(
+      BigInt(getMintLen([
+        ExtensionType.TransferFeeConfig,
+        ExtensionType.InterestBearingConfig,
+        ExtensionType.PermanentDelegate,
+        ExtensionType.MetadataPointer,
+      ]))
+    );
+    expect(new PublicKey(create.data.subarray(20, 52)).equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+    expect(rentFor[rentFor.length - 1]).toBeGreaterThan(Number(create.data.readBigUInt64LE(12)));
+
+    expect(rest.slice(0, 5).map(ix => ix.data[0])).toEqual([
+      TokenInstruction.TransferFeeExtension,
+      TokenInstruction.InterestBearingMintExtension,
+      TokenInstruction.InitializePermanentDelegate,
+      TokenInstruction.MetadataPointerExtension,
+      TokenInstruction.InitializeMint,
+    ]);
+    // Token metadata initialize, then the Token-2022 ATA and the mint-to
+    const ata = getAssociatedTokenAddressSync(mint, owner, false, TOKEN_2022_PROGRAM_ID);
+    expect(rest[5].keys[0].pubkey.equals(mint)).toBe(true);
+    expect(rest[6].keys[1].pubkey.equals(ata)).toBe(true);
+    expect(rest[7].keys[1].pubkey.equals(ata)).toBe(true);
+    expect(rest).toHaveLength(8);
+  });
+
+  it('should refuse confidential transfers instead of skipping them', async () => {
+    const builder = new TransactionBuilder(connection);
+    await expect(
+      builder.buildTransaction({
+        instructions: [
+          {
+            template: getTemplateById('spl_token_create_mint')!,
+            accounts: { payer: owner.toString() },
+            args: { _operation: 'create_token_and_mint', useToken2022: true, enableConfidentialTransfers: true },
+          },
+        ],
+      })
+    ).rejects.toThrow('confidential transfers');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for Kamino, Solend and marginfi flash loan legs and their instruction indices
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ComputeBudgetProgram, Connection, Keypair, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { FlashLoanStackManager } from '../../app/lib/lending/flash-loan-stack';
+import { getLendingProtocol } from '../../app/lib/lending/protocols';
+import {
+  FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR,
+  FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR,
+  KAMINO_RESERVE_DISCRIMINATOR,
+} from '../../app/lib/instructions/encoders/kamino-lend';
+import { SOLEND_RESERVE_SIZE } from '../../app/lib/instructions/encoders/solend';
+import {
+  END_FLASHLOAN_DISCRIMINATOR,
+  START_FLASHLOAN_DISCRIMINATOR,
+} from '../../app/lib/instructions/encoders/marginfi';
+import { KaminoFlashLoanManager } from '../../app/lib/mev/flash-loans';
+
+const USDC = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const KAMINO = getLendingProtocol('kamino')!.programId;
+const SOLEND = getLendingProtocol('solend')!.programId;
+const MARGINFI = getLendingProtocol('marginfi')!.programId;
+
+function writeKeys(data: Buffer, entries: Array<[number, PublicKey]>): Buffer {
+  entries.forEach(([offset, key]) => key.toBuffer().copy(data, offset));
+  return data;
+}
+
+const kaminoReserve = Keypair.generate().publicKey;
+const kaminoReserveData = writeKeys(Buffer.alloc(256), [
+  [32, Keypair.generate().publicKey],
+  [128, USDC],
+  [160, Keypair.generate().publicKey],
+  [192, Keypair.generate().publicKey],
+]);
+Buffer.from(KAMINO_RESERVE_DISCRIMINATOR).copy(kaminoReserveData, 0);
+
+const solendReserve = Keypair.generate().publicKey;
+const solendReserveData = writeKeys(Buffer.alloc(SOLEND_RESERVE_SIZE), [
+  [10, Keypair.generate().publicKey],
+  [42, USDC],
+  [75, Keypair.generate().publicKey],
+  [339, Keypair.generate().publicKey],
+]);
+
+const marginfiBank = Keypair.generate().publicKey;
+const marginfiAccount = Keypair.generate().publicKey;
+
+function mockConnection(marginfiAccountData: Buffer): Connection {
+  return {
+    getProgramAccounts: async (programId: PublicKey, config: any) => {
+      if (programId.equals(KAMINO)) return [{ pubkey: kaminoReserve, account: { data: kaminoReserveData } }];
+      if (programId.equals(SOLEND)) return [{ pubkey: solendReserve, account: { data: solendReserveData } }];
+      // marginfi: banks are filtered by mint at offset 8, accounts by group at offset 8 and authority at 40
+      const isAccount = config.filters.some((filter: any) => filter.memcmp?.offset === 40);
+      return isAccount
+        ? [{ pubkey: marginfiAccount, account: { data: marginfiAccountData } }]
+        : [{ pubkey: marginfiBank, account: { data: Buffer.alloc(0) } }];
+    },
+    getAccountInfo: async () => ({ owner: TOKEN_PROGRAM_ID, data: Buffer.alloc(82) }),
+  } as unknown as Connection;
+}
+
+function marginfiAccountWithBalances(banks: PublicKey[]): Buffer {
+  const data = Buffer.alloc(72 + 16 * 104);
+  banks.forEach((bank, i) => {
+    data[72 + i * 104] = 1;
+    bank.toBuffer().copy(data, 72 + i * 104 + 1);
+  });
+  return data;
+}
+
+function hasPrefix(instruction: TransactionInstruction, prefix: number[]): boolean {
+  return prefix.every((byte, i) => instruction.data[i] === byte);
+}
+
+describe('FlashLoanStackManager', () => {
+  const borrower = Keypair.generate().publicKey;
+  const swap = SystemProgram.transfer({ fromPubkey: borrower, toPubkey: borrower, lamports: 1 });
+  const computeBudget = ComputeBudgetProgram.setComputeUnitLimit({ units: 600000 });
+
+  it('should point each Kamino and Solend repay at its borrow', async () => {
+    const manager = new FlashLoanStackManager(mockConnection(marginfiAccountWithBalances([])));
+    const kamino = await manager.addFlashLoan(USDC, BigInt(1000000), 'kamino');
+    const solend = await manager.addFlashLoan(USDC, BigInt(2000000), 'solend');
+
+    const transaction = await manager.buildStackedTransaction([swap], borrower, { setupInstructions: [computeBudget] });
+    const instructions = transaction.instructions;
+
+    // compute budget, one ATA (same mint), kamino borrow, solend borrow, swap, solend repay, kamino repay
+    expect(instructions).toHaveLength(7);
+    expect(instructions[2]).toBe(kamino.borrowInstructions![0]);
+    expect(instructions[3]).toBe(solend.borrowInstructions![0]);
+    expect(instructions[5]).toBe(solend.repayInstructions![0]);
+    expect(instructions[6]).toBe(kamino.repayInstructions![0]);
+    expect(hasPrefix(instructions[2], FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR)).toBe(true);
+    expect(hasPrefix(instructions[6], FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR)).toBe(true);
+    expect(instructions[6].data[16]).toBe(2);
+    expect(instructions[5].data[0]).toBe(20);
+    expect(instructions[5].data[9]).toBe(3);
+    expect(instructions[5].keys[4].pubkey.equals(solendReserve)).toBe(true);
+
+    expect(manager.validateStack(BigInt(10000), transaction).errors).toEqual([]);
+  });
+
+  it('should report a missing or misdirected repay', async () => {
+    const manager = new FlashLoanStackManager(mockConnection(marginfiAccountWithBalances([])));
+    const item = await manager.addFlashLoan(USDC, BigInt(1000000), 'kamino');
+    const transaction = await manager.buildStackedTransaction([swap], borrower);
+
+    expect(manager.validateStack(BigInt(10000), transaction).valid).toBe(true);
+
+    transaction.instructions.pop();
+    const missing = manager.validateStack(BigInt(10000), transaction);
+    expect(missing.valid).toBe(false);
+    expect(missing.errors[0]).toContain(`Flash loan ${item.id} has no repay instruction`);
+
+    // A compute budget instruction inserted after building shifts the borrow
+    transaction.instructions.unshift(computeBudget);
+    transaction.add(item.repayInstructions![0]);
+    expect(manager.validateStack(BigInt(10000), transaction).errors[0]).toContain('has no repay instruction');
+  });
+
+  it('should bracket marginfi loans with start and end_flashloan', async () => {
+    const manager = new FlashLoanStackManager(mockConnection(marginfiAccountWithBalances([])));
+    await manager.addFlashLoan(USDC, BigInt(5000000), 'marginfi');
+    const transaction = await manager.buildStackedTransaction([swap, swap], borrower);
+    const instructions = transaction.instructions;
+
+    // ATA, start, borrow, swap, swap, repay, end
+    expect(instructions).toHaveLength(7);
+    expect(hasPrefix(instructions[1], START_FLASHLOAN_DISCRIMINATOR)).toBe(true);
+    expect(instructions[1].data.readBigUInt64LE(8)).toBe(BigInt(6));
+    expect(hasPrefix(instructions[6], END_FLASHLOAN_DISCRIMINATOR)).toBe(true);
+    expect(instructions[1].keys[0].pubkey.equals(marginfiAccount)).toBe(true);
+    expect(instructions.every(ix => !ix.programId.equals(MARGINFI) || ix.keys.some(k => k.isSigner && k.pubkey.equals(borrower)))).toBe(true);
+
+    expect(manager.validateStack(BigInt(10000), transaction).errors).toEqual([]);
+    transaction.instructions.splice(5, 1);
+    expect(manager.validateStack(BigInt(10000), transaction).errors[0]).toContain('not its end_flashloan');
+  });
+
+  it('should require health accounts when the marginfi account has other open balances', async () => {
+    const manager = new FlashLoanStackManager(mockConnection(marginfiAccountWithBalances([Keypair.generate().publicKey])));
+    await manager.addFlashLoan(USDC, BigInt(5000000), 'marginfi');
+    await expect(manager.buildStackedTransaction([swap], borrower)).rejects.toThrow('open balances');
+  });
+
+  it('should only auto-select protocols it can build', async () => {
+    const manager = new FlashLoanStackManager(mockConnection(marginfiAccountWithBalances([])));
+    // Only the Jupiter registry entry claims unlisted tokens, and it has no flash loan builder
+    await expect(manager.addFlashLoan(Keypair.generate().publicKey, BigInt(1))).rejects.toThrow('No flash loan protocol');
+    expect((await manager.addFlashLoan(USDC, BigInt(1))).protocol.id).toBe('kamino');
+  });
+});
+
+describe('KaminoFlashLoanManager', () => {
+  it('should build borrow, swaps and repay as one transaction', async () => {
+    const borrower = Keypair.generate().publicKey;
+    const manager = new KaminoFlashLoanManager(mockConnection(marginfiAccountWithBalances([])));
+    const swap = SystemProgram.transfer({ fromPubkey: borrower, toPubkey: borrower, lamports: 1 });
+
+    const { transaction, totalRepayAmount } = await manager.createFlashLoanArbitrageSequence(
+      { tokenMint: USDC, amount: BigInt(1000000), borrower },
+      [swap],
+      Keypair.generate().publicKey,
+      0
+    );
+
+    expect(transaction.instructions).toHaveLength(4);
+    expect(transaction.instructions[1].keys[3].pubkey.equals(kaminoReserve)).toBe(true);
+    expect(transaction.instructions[3].data[16]).toBe(1);
+    expect(totalRepayAmount).toBe(BigInt(1000500));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for the grid engine's virtual orders and the agent's grid strategy
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Connection } from '@solana/web3.js';
+import {
+  GridEngine,
+  MemoryGridStateStorage,
+  computeGridPrices,
+} from '../../app/lib/market-maker/grid';
+import { MarketMakerAgent } from '../../app/lib/market-maker/agent';
+import { executeTrade } from '../../app/lib/market-maker/trading';
+
+jest.mock('../../app/lib/market-maker/trading', () => ({
+  executeTrade: jest.fn(),
+}));
+
+const mockExecuteTrade = executeTrade as jest.MockedFunction<typeof executeTrade>;
+const TOKEN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RANGE_CONFIG = { levels: 5, spacing: 1, range: { min: 1, max: 2 }, orderSize: 0.5 };
+
+describe('computeGridPrices', () => {
+  it('should spread levels evenly across a range', () => {
+    expect(computeGridPrices(RANGE_CONFIG, 1.5)).toEqual([1, 1.25, 1.5, 1.75, 2]);
+  });
+
+  it('should step by the spacing percentage around the price without a range', () => {
+    const prices = computeGridPrices({ levels: 5, spacing: 10, orderSize: 1 }, 100);
+    expect(prices[2]).toBeCloseTo(100);
+    expect(prices[3] / prices[2]).toBeCloseTo(1.1);
+    expect(prices[0]).toBeCloseTo(100 / 1.21);
+  });
+
+  it('should reject grids it cannot lay out', () => {
+    expect(() => computeGridPrices({ ...RANGE_CONFIG, levels: 1 }, 1.5)).toThrow('at least 2 levels');
+    expect(() => computeGridPrices({ levels: 5, spacing: 1, orderSize: 1 }, 0)).toThrow('current price');
+  });
+});
+
+describe('GridEngine', () => {
+  it('should buy below the price, then sell one level up and re-arm the buy', () => {
+    const grid = GridEngine.create(TOKEN, RANGE_CONFIG, 1.6);
+    expect(grid.getOpenOrders().map(order => [order.side, order.price])).toEqual([
+      ['buy', 1], ['buy', 1.25], ['buy', 1.5],
+    ]);
+
+    const [buy] = grid.onPrice(1.45);
+    expect(buy).toEqual({ levelIndex: 2, side: 'buy', price: 1.5, amount: 0.5 });
+    expect(grid.onPrice(1.4)).toEqual([]); // still pending
+    grid.recordFill(buy, 'buy-sig');
+
+    const [sell] = grid.onPrice(1.8);
+    expect(sell).toEqual({ levelIndex: 2, side: 'sell', price: 1.75, amount: 0.5 / 1.5 });
+    const fill = grid.recordFill(sell, 'sell-sig');
+    expect(fill.realizedPnl).toBeCloseTo((0.5 / 1.5) * 1.75 - 0.5);
+
+    const analytics = grid.getAnalytics();
+    expect(analytics.levels[2]).toMatchObject({ order: 'buy', buyFills: 1, sellFills: 1, inventory: 0 });
+    expect(analytics.realizedPnl).toBeCloseTo(fill.realizedPnl);
+    expect(analytics.totalFills).toBe(2);
+  });
+
+  it('should arm levels above the starting price once the price rises past them', () => {
+    const grid = GridEngine.create(TOKEN, RANGE_CONFIG, 1.1);
+    expect(grid.getState().levels[2].order).toBe('idle');
+    expect(grid.onPrice(1.55)).toEqual([]);
+    expect(grid.getState().levels[1].order).toBe('buy');
+    expect(grid.getState().levels[2].order).toBe('idle');
+    expect(grid.onPrice(1.2).map(trigger => trigger.levelIndex)).toEqual([1]);
+  });
+
+  it('should put failed orders back on the book and resume pending ones after a restart', () => {
+    const grid = GridEngine.create(TOKEN, RANGE_CONFIG, 1.6);
+    const triggers = grid.onPrice(1.2);
+    expect(triggers.map(trigger => trigger.levelIndex)).toEqual([1, 2]);
+
+    grid.releaseOrder(triggers[0]);
+    expect(grid.onPrice(1.2).map(trigger => trigger.levelIndex)).toEqual([1]);
+
+    const resumed = GridEngine.fromState(grid.getState());
+    expect(resumed.onPrice(1.2).map(trigger => trigger.levelIndex)).toEqual([1, 2]);
+    expect(() => resumed.recordFill({ ...triggers[0], side: 'sell' }, 'sig')).toThrow('No pending sell order');
+  });
+});
+
+describe('MarketMakerAgent grid strategy', () => {
+  const connection = {
+    getBalance: async () => 1e9,
+    getAccountInfo: async () => null,
+  } as unknown as Connection;
+  const config = {
+    tokenMint: TOKEN,
+    strategy: 'grid' as const,
+    enabled: true,
+    agentWalletSeed: 'grid-strategy-test-seed-0123456789',
+    gridLevels: 5,
+    gridRange: { min: 1, max: 2 },
+    buyAmount: 0.5,
+  };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockExecuteTrade.mockReset();
+    // 1 SOL quotes 1/1.6 tokens, i.e. 1.6 SOL per token
+    global.fetch = (async () => ({ ok: true, json: async () => ({ outAmount: String(1e9 / 1.6) }) })) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should trade crossed levels and resume the grid after a restart', async () => {
+    const storage = new MemoryGridStateStorage();
+    mockExecuteTrade.mockRejectedValueOnce(new Error('slippage')).mockResolvedValueOnce('buy-sig');
+
+    const agent = new MarketMakerAgent(connection, config, storage);
+    await agent.start();
+    try {
+      await agent.processGridPrice(1.2);
+    } finally {
+      await agent.stop();
+    }
+
+    // level 1 (1.25) failed and went back on the book, level 2 (1.5) filled
+    expect(mockExecuteTrade).toHaveBeenCalledTimes(2);
+    expect(mockExecuteTrade.mock.calls[1][2]).toMatchObject({ type: 'buy', amount: 0.5 });
+    expect(agent.getState().totalBuys).toBe(1);
+
+    mockExecuteTrade.mockReset();
+    mockExecuteTrade.mockResolvedValue('sell-sig');
+    const restarted = new MarketMakerAgent(connection, config, storage);
+    await restarted.start();
+    try {
+      expect(restarted.getGrid()!.getAnalytics().inventory).toBeCloseTo(0.5 / 1.5);
+      await restarted.processGridPrice(1.8);
+    } finally {
+      await restarted.stop();
+    }
+
+    expect(mockExecuteTrade).toHaveBeenCalledTimes(1);
+    expect(mockExecuteTrade.mock.calls[0][2]).toMatchObject({ type: 'sell', amount: 0.5 / 1.5 });
+    expect(restarted.getState().profit).toBeCloseTo((0.5 / 1.5) * 1.75 - 0.5);
+  });
+});
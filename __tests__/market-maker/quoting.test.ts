@@ -0,0 +1,155 @@
+/**
+ * Tests for inventory-aware quoting and the agent's market making strategy
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Connection } from '@solana/web3.js';
+import { InventoryQuoter, QuotingConfig, computeQuote } from '../../app/lib/market-maker/quoting';
+import { MarketMakerAgent } from '../../app/lib/market-maker/agent';
+import { executeTrade } from '../../app/lib/market-maker/trading';
+
+jest.mock('../../app/lib/market-maker/trading', () => ({
+  executeTrade: jest.fn(),
+}));
+
+const mockExecuteTrade = executeTrade as jest.MockedFunction<typeof executeTrade>;
+const TOKEN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const CONFIG: QuotingConfig = {
+  spread: 1,
+  minSpread: 0.2,
+  maxSpread: 10,
+  minPosition: 0,
+  maxPosition: 10,
+  orderSize: 1,
+  riskAversion: 5,
+  horizon: 60,
+  fairPriceSamples: 6,
+  volatilitySamples: 30,
+  volatilityPauseThreshold: 3,
+  pauseDurationMs: 60000,
+};
+
+describe('computeQuote', () => {
+  it('should quote the base spread around the fair price at target inventory', () => {
+    const quote = computeQuote(1, 5, 0, CONFIG);
+    expect(quote.inventorySkew).toBe(0);
+    expect(quote.reservationPrice).toBe(1);
+    expect(quote.bid).toBeCloseTo(0.995);
+    expect(quote.ask).toBeCloseTo(1.005);
+    expect(quote.spread).toBeCloseTo(1);
+  });
+
+  it('should skew and widen quotes as inventory drifts, and stop quoting past the limits', () => {
+    const full = computeQuote(1, 10, 0, CONFIG);
+    expect(full.inventorySkew).toBe(1);
+    expect(full.spread).toBeCloseTo(2);
+    expect(full.reservationPrice).toBeCloseTo(0.99);
+    expect(full.bid).toBeNull();
+    expect(full.ask).toBeCloseTo(0.99 * 1.01);
+
+    const empty = computeQuote(1, 0, 0, CONFIG);
+    expect(empty.inventorySkew).toBe(-1);
+    expect(empty.ask).toBeNull();
+    expect(empty.bid).toBeCloseTo(1.01 * 0.99);
+
+    const nearCeiling = computeQuote(1, 9.5, 0, CONFIG);
+    expect(nearCeiling.bidSize).toBeCloseTo(0.5);
+  });
+
+  it('should widen with volatility within the configured spread bounds', () => {
+    // 5 * 0.01^2 * 60 = 3% of inventory risk on top of the 1% base
+    expect(computeQuote(1, 5, 0.01, CONFIG).spread).toBeCloseTo(4);
+    expect(computeQuote(1, 5, 0.05, CONFIG).spread).toBeCloseTo(10);
+    expect(computeQuote(1, 5, 0, { ...CONFIG, spread: 0.05 }).spread).toBeCloseTo(0.2);
+  });
+});
+
+describe('InventoryQuoter', () => {
+  it('should fill crossed quotes and realize PnL against the average cost', () => {
+    const quoter = new InventoryQuoter(CONFIG, 5, 4.5);
+    expect(quoter.onPrice(1)).toEqual([]);
+
+    const [sell] = quoter.onPrice(1.01);
+    expect(sell).toEqual({ side: 'sell', price: expect.closeTo(1.005), amount: expect.closeTo(1 / 1.005) });
+    const fill = quoter.recordFill(sell, 'sell-sig');
+    expect(fill.realizedPnl).toBeCloseTo(1 - 0.9 / 1.005);
+
+    const state = quoter.getState();
+    expect(state.inventory).toBeCloseTo(5 - 1 / 1.005);
+    expect(state.realizedPnl).toBeCloseTo(fill.realizedPnl);
+    expect(state.fillHistory).toHaveLength(1);
+    expect(state.quoteHistory).toHaveLength(3);
+    expect(state.inventoryHistory.map(snapshot => snapshot.tokens)).toEqual([5, 5, state.inventory]);
+  });
+
+  it('should pull quotes on a volatility spike until the pause ends', () => {
+    const start = new Date('2025-01-01T00:00:00Z');
+    const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+    const quoter = new InventoryQuoter(CONFIG, 5, 5);
+
+    quoter.onPrice(1, at(0));
+    expect(quoter.onPrice(1.05, at(10))).toEqual([]); // would have crossed the ask
+    const paused = quoter.getState(at(10));
+    expect(paused.paused).toBe(true);
+    expect(paused.quote).toBeNull();
+    expect(paused.pauseReason).toContain('Price moved 5.00%');
+
+    expect(quoter.onPrice(1.05, at(30))).toEqual([]);
+    expect(quoter.isPaused(at(30))).toBe(true);
+    quoter.onPrice(1.05, at(80));
+    expect(quoter.isPaused(at(80))).toBe(false);
+    expect(quoter.getState(at(80)).quote).not.toBeNull();
+  });
+});
+
+describe('MarketMakerAgent market making strategy', () => {
+  const connection = {
+    getBalance: async () => 1e9,
+    getAccountInfo: async () => null,
+  } as unknown as Connection;
+  const config = {
+    tokenMint: TOKEN,
+    strategy: 'market_making' as const,
+    enabled: true,
+    agentWalletSeed: 'quoting-strategy-test-seed-012345',
+    buyAmount: 0.5,
+    maxPosition: 5,
+  };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockExecuteTrade.mockReset();
+    // 1 SOL quotes 1/1.6 tokens, i.e. 1.6 SOL per token
+    global.fetch = (async () => ({ ok: true, json: async () => ({ outAmount: String(1e9 / 1.6) }) })) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should only bid with an empty book, fill crossed bids and expose the history', async () => {
+    mockExecuteTrade.mockResolvedValue('buy-sig');
+    const agent = new MarketMakerAgent(connection, config);
+    await agent.start();
+    try {
+      const initial = agent.getState().quoting!;
+      expect(initial.quote!.ask).toBeNull();
+      expect(initial.quote!.bid).toBeCloseTo(1.6 * 1.005 * 0.995);
+
+      await agent.processQuotePrice(1.59);
+      await agent.processQuotePrice(1.3);
+    } finally {
+      await agent.stop();
+    }
+
+    expect(mockExecuteTrade).toHaveBeenCalledTimes(1);
+    expect(mockExecuteTrade.mock.calls[0][2]).toMatchObject({ type: 'buy', amount: 0.5 });
+
+    const state = agent.getState();
+    expect(state.totalBuys).toBe(1);
+    expect(state.quoting!.fillHistory).toHaveLength(1);
+    expect(state.quoting!.paused).toBe(true);
+    expect(state.quoting!.quote).toBeNull();
+    expect(state.positions.tokenBalance).toBeCloseTo(0.5 / (1.6 * 1.005 * 0.995));
+  });
+});
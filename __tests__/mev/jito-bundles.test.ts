@@ -0,0 +1,145 @@
+/**
+ * Tests for sequential Jito bundle simulation with state carry-over
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { JitoBundleManager } from '../../app/lib/mev/jito-bundles';
+
+const TIP_ACCOUNT = '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZ8Nonsp8qrdNiy';
+const BLOCKHASH = '11111111111111111111111111111111';
+const SIMULATION_RPC = 'http://jito-rpc.local';
+
+type RpcBody = { method: string; params: [{ encodedTransactions: string[] }, Record<string, any>] };
+
+const signer = Keypair.generate();
+
+function transferTx(lamports: number): Transaction {
+  return new Transaction().add(SystemProgram.transfer({
+    fromPubkey: signer.publicKey,
+    toPubkey: Keypair.generate().publicKey,
+    lamports,
+  }));
+}
+
+function mockConnection(overrides: Record<string, unknown> = {}): Connection {
+  return {
+    rpcEndpoint: 'http://rpc.local',
+    getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 1 }),
+    ...overrides,
+  } as unknown as Connection;
+}
+
+function rpcResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, statusText: 'status', json: async () => body };
+}
+
+function accounts(payer: number, tip: number) {
+  return [{ lamports: payer }, { lamports: tip }];
+}
+
+describe('JitoBundleManager.simulateBundle', () => {
+  let fetchMock: jest.Mock<(url: string, init: { body: string }) => Promise<ReturnType<typeof rpcResponse>>>;
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async () => rpcResponse({}));
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('simulates transactions in order and reports compute units, balance changes and profit', async () => {
+    fetchMock.mockImplementation(async () => rpcResponse({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        value: {
+          summary: 'succeeded',
+          transactionResults: [
+            { err: null, logs: ['borrow'], unitsConsumed: 45_000, preExecutionAccounts: accounts(1_000_000_000, 0), postExecutionAccounts: accounts(999_995_000, 0) },
+            { err: null, logs: ['repay'], unitsConsumed: 80_000, preExecutionAccounts: accounts(999_995_000, 0), postExecutionAccounts: accounts(1_020_000_000, 10_000) },
+          ],
+        },
+      },
+    }));
+
+    const manager = new JitoBundleManager(mockConnection(), undefined, SIMULATION_RPC);
+    const bundle = await manager.createBundle([transferTx(1), transferTx(2)], 10_000, signer);
+    const result = await manager.simulateBundle(bundle);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const request: RpcBody = JSON.parse(init.body);
+    expect(url).toBe(SIMULATION_RPC);
+    expect(request.method).toBe('simulateBundle');
+    expect(request.params[0].encodedTransactions).toHaveLength(2);
+    expect(request.params[1].preExecutionAccountsConfigs[0].addresses).toEqual([signer.publicKey.toString(), TIP_ACCOUNT]);
+    expect(request.params[1].postExecutionAccountsConfigs).toHaveLength(2);
+
+    expect(result.success).toBe(true);
+    expect(result.unitsConsumed).toBe(125_000);
+    expect(result.transactions!.map(tx => tx.unitsConsumed)).toEqual([45_000, 80_000]);
+    expect(result.transactions![0].balanceChanges[0].delta).toBe(-5_000);
+    expect(result.balanceChanges).toEqual([
+      { address: signer.publicKey.toString(), role: 'signer', preLamports: 1_000_000_000, postLamports: 1_020_000_000, delta: 20_000_000 },
+      { address: TIP_ACCOUNT, role: 'tip', preLamports: 0, postLamports: 10_000, delta: 10_000 },
+    ]);
+    expect(result.profit).toBeCloseTo(0.02, 9);
+  });
+
+  it('fails a flash loan bundle whose repay fails against the post-loan state', async () => {
+    fetchMock.mockImplementation(async () => rpcResponse({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        value: {
+          summary: { failed: { error: { TransactionFailure: [[], 'custom program error: 0x1'] }, tx_signature: null } },
+          transactionResults: [
+            { err: null, logs: [], unitsConsumed: 40_000, preExecutionAccounts: null, postExecutionAccounts: null },
+            { err: { InstructionError: [0, { Custom: 1 }] }, logs: ['Program log: insufficient funds'], unitsConsumed: 12_000, preExecutionAccounts: null, postExecutionAccounts: null },
+          ],
+        },
+      },
+    }));
+
+    const manager = new JitoBundleManager(mockConnection(), undefined, SIMULATION_RPC);
+    const bundle = await manager.createFlashLoanArbitrageBundle(
+      SystemProgram.transfer({ fromPubkey: signer.publicKey, toPubkey: signer.publicKey, lamports: 1 }),
+      [],
+      SystemProgram.transfer({ fromPubkey: signer.publicKey, toPubkey: signer.publicKey, lamports: 1 }),
+      signer
+    );
+    const result = await manager.simulateBundle(bundle);
+
+    expect(result.success).toBe(false);
+    expect(result.failedTransactionIndex).toBe(1);
+    expect(result.error).toContain('Transaction 1 failed');
+    expect(result.logs).toEqual(['Program log: insufficient funds']);
+    expect(result.profit).toBeUndefined();
+  });
+
+  it('falls back to a standard simulation only for single-transaction bundles', async () => {
+    fetchMock.mockImplementation(async () => rpcResponse({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } }));
+    const simulateTransaction = jest.fn(async () => ({
+      context: { slot: 1 },
+      value: { err: null, logs: ['ok'], unitsConsumed: 3_000, accounts: [{ lamports: 490_000 }, { lamports: 10_000 }] },
+    }));
+    const connection = mockConnection({
+      simulateTransaction,
+      getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map((_, i) => ({ lamports: i === 0 ? 500_000 : 0 })),
+    });
+    const manager = new JitoBundleManager(connection, undefined, SIMULATION_RPC);
+
+    const multi = await manager.simulateBundle(await manager.createBundle([transferTx(1), transferTx(2)], 10_000, signer));
+    expect(multi.success).toBe(false);
+    expect(multi.error).toContain('simulateBundle');
+    expect(simulateTransaction).not.toHaveBeenCalled();
+
+    const single = await manager.simulateBundle(await manager.createBundle([transferTx(1)], 10_000, signer));
+    expect(single.success).toBe(true);
+    expect(single.unitsConsumed).toBe(3_000);
+    expect(single.balanceChanges!.map(change => change.delta)).toEqual([-10_000, 10_000]);
+    expect(single.profit).toBeCloseTo(-0.00001, 9);
+  });
+});
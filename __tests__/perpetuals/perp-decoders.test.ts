@@ -0,0 +1,195 @@
+/**
+ * Tests for Drift perp market, Jupiter Perps custody and Pyth price decoding
+ * and the market data EnhancedPerpetualMonitor derives from them
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  DRIFT_PERP_MARKET_LAYOUT,
+  DRIFT_PROGRAM_ID,
+  decodeDriftPerpMarket,
+  deriveDriftPerpMarketAddress,
+  driftPerpMetrics,
+} from '../../app/lib/perpetuals/drift';
+import {
+  JUPITER_CUSTODY_LAYOUT,
+  JUPITER_PERPS_CUSTODIES,
+  JUPITER_PERPS_PROGRAM_ID,
+  decodeJupiterCustody,
+  jupiterPerpMetrics,
+} from '../../app/lib/perpetuals/jupiter';
+import {
+  PYTH_LEGACY_PRICE_LAYOUT,
+  PYTH_PRICE_MESSAGE_LAYOUT,
+  PYTH_RECEIVER_PROGRAM_ID,
+  decodePythPrice,
+} from '../../app/lib/perpetuals/pyth';
+import { EnhancedPerpetualMonitor } from '../../app/lib/perpetuals/enhanced-monitor';
+
+const DRIFT_ORACLE = Keypair.generate().publicKey;
+const JUPITER_ORACLE = Keypair.generate().publicKey;
+const PUBLISH_TIME = 1_700_000_000;
+
+function writeI128(data: Buffer, offset: number, value: bigint) {
+  data.writeBigInt64LE(BigInt.asIntN(64, value), offset);
+  data.writeBigInt64LE(value < BigInt(0) ? BigInt(-1) : BigInt(0), offset + 8);
+}
+
+function driftMarket(): Buffer {
+  const layout = DRIFT_PERP_MARKET_LAYOUT;
+  const data = Buffer.alloc(layout.span);
+  Buffer.from([10, 223, 12, 44, 107, 245, 55, 247]).copy(data, 0);
+  DRIFT_ORACLE.toBuffer().copy(data, layout.offsetOf('oracle'));
+  data.writeBigInt64LE(BigInt(150_000_000), layout.offsetOf('lastOraclePrice')); // $150
+  data.writeBigInt64LE(BigInt(150_000_000), layout.offsetOf('lastOraclePriceTwap'));
+  // Reserves of 1000 base / 1010 quote at a peg of 150 -> $151.50
+  writeI128(data, layout.offsetOf('baseAssetReserve'), BigInt(1000) * BigInt(1e9));
+  writeI128(data, layout.offsetOf('quoteAssetReserve'), BigInt(1010) * BigInt(1e9));
+  writeI128(data, layout.offsetOf('pegMultiplier'), BigInt(150_000_000));
+  writeI128(data, layout.offsetOf('baseAssetAmountLong'), BigInt(3000) * BigInt(1e9));
+  writeI128(data, layout.offsetOf('baseAssetAmountShort'), BigInt(-1000) * BigInt(1e9));
+  // 0.015 quote per base per hour at $150 -> 0.01% per hour
+  data.writeBigInt64LE(BigInt(15_000_000), layout.offsetOf('lastFundingRate'));
+  data.writeBigInt64LE(BigInt(3600), layout.offsetOf('fundingPeriod'));
+  data.writeBigUInt64LE(BigInt(2_500_000) * BigInt(1e6), layout.offsetOf('volume24h'));
+  data.write('SOL-PERP', layout.offsetOf('name'), 'utf8');
+  data.fill(0x20, layout.offsetOf('name') + 8, layout.offsetOf('name') + 32);
+  data.writeUInt8(1, layout.offsetOf('status'));
+  return data;
+}
+
+function jupiterCustody(oracle: PublicKey): Buffer {
+  const layout = JUPITER_CUSTODY_LAYOUT;
+  const data = Buffer.alloc(layout.span + 64);
+  Buffer.from([1, 184, 48, 81, 93, 131, 63, 145]).copy(data, 0);
+  data.writeUInt8(9, layout.offsetOf('decimals'));
+  oracle.toBuffer().copy(data, layout.offsetOf('oracleAccount'));
+  data.writeBigUInt64LE(BigInt(10_000) * BigInt(1e9), layout.offsetOf('owned'));
+  data.writeBigUInt64LE(BigInt(2_000) * BigInt(1e9), layout.offsetOf('locked'));
+  data.writeBigUInt64LE(BigInt(100_000) * BigInt(1e6), layout.offsetOf('globalShortSizes'));
+  data.writeBigUInt64LE(BigInt(1_000), layout.offsetOf('hourlyFundingDbps'));
+  return data;
+}
+
+function pythLegacy(price: number, exponent: number, status = 1): Buffer {
+  const layout = PYTH_LEGACY_PRICE_LAYOUT;
+  const data = Buffer.alloc(3312);
+  data.writeUInt32LE(0xa1b2c3d4, 0);
+  data.writeUInt32LE(2, layout.offsetOf('version'));
+  data.writeUInt32LE(3, layout.offsetOf('accountType'));
+  data.writeInt32LE(exponent, layout.offsetOf('exponent'));
+  data.writeBigInt64LE(BigInt(PUBLISH_TIME), layout.offsetOf('timestamp'));
+  data.writeBigInt64LE(BigInt(price), layout.offsetOf('aggPrice'));
+  data.writeBigUInt64LE(BigInt(5_000), layout.offsetOf('aggConf'));
+  data.writeUInt32LE(status, layout.offsetOf('aggStatus'));
+  return data;
+}
+
+function pythPriceUpdate(price: number, exponent: number, verification: 'partial' | 'full'): Buffer {
+  const messageOffset = 8 + 32 + (verification === 'partial' ? 2 : 1);
+  const data = Buffer.alloc(messageOffset + PYTH_PRICE_MESSAGE_LAYOUT.span + 8);
+  Buffer.from([34, 241, 35, 99, 157, 126, 244, 205]).copy(data, 0);
+  data.writeUInt8(verification === 'partial' ? 0 : 1, 40);
+  if (verification === 'partial') data.writeUInt8(5, 41);
+  data.writeBigInt64LE(BigInt(price), messageOffset + PYTH_PRICE_MESSAGE_LAYOUT.offsetOf('price'));
+  data.writeBigUInt64LE(BigInt(1_000), messageOffset + PYTH_PRICE_MESSAGE_LAYOUT.offsetOf('conf'));
+  data.writeInt32LE(exponent, messageOffset + PYTH_PRICE_MESSAGE_LAYOUT.offsetOf('exponent'));
+  data.writeBigInt64LE(BigInt(PUBLISH_TIME), messageOffset + PYTH_PRICE_MESSAGE_LAYOUT.offsetOf('publishTime'));
+  return data;
+}
+
+function accountInfo(data: Buffer, owner: string): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+function mockConnection(accounts: Record<string, AccountInfo<Buffer>>): Connection {
+  return {
+    getAccountInfo: async (key: PublicKey) => accounts[key.toString()] ?? null,
+  } as unknown as Connection;
+}
+
+describe('perpetuals account decoding', () => {
+  it('lays out Drift PerpMarket at its on-chain size', () => {
+    expect(DRIFT_PERP_MARKET_LAYOUT.span).toBe(1216);
+    expect(DRIFT_PERP_MARKET_LAYOUT.offsetOf('baseAssetReserve')).toBe(176);
+    expect(DRIFT_PERP_MARKET_LAYOUT.offsetOf('name')).toBe(1000);
+    expect(DRIFT_PERP_MARKET_LAYOUT.offsetOf('marketIndex')).toBe(1160);
+  });
+
+  it('computes Drift mark price, funding, open interest and skew', () => {
+    const market = decodeDriftPerpMarket(driftMarket());
+    expect(market.marketName).toBe('SOL-PERP');
+    expect(market.oracle.equals(DRIFT_ORACLE)).toBe(true);
+
+    const metrics = driftPerpMetrics(market);
+    expect(metrics.indexPrice).toBe(150);
+    expect(metrics.markPrice).toBeCloseTo(151.5, 6);
+    expect(metrics.fundingRate).toBeCloseTo(0.0001, 10);
+    expect(metrics.longOpenInterest).toBe(450_000);
+    expect(metrics.shortOpenInterest).toBe(150_000);
+    expect(metrics.openInterest).toBe(600_000);
+    expect(metrics.longShortRatio).toBe(0.75);
+    expect(metrics.skew).toBe(0.5);
+    expect(metrics.volume24h).toBe(2_500_000);
+
+    // A live oracle price overrides the cached one
+    expect(driftPerpMetrics(market, 160).longOpenInterest).toBe(480_000);
+    const wrongAccount = driftMarket();
+    wrongAccount[0] = 0;
+    expect(() => decodeDriftPerpMarket(wrongAccount)).toThrow('discriminator');
+  });
+
+  it('decodes legacy and pull-oracle Pyth prices', () => {
+    const legacy = decodePythPrice(pythLegacy(14_250_000_000, -8));
+    expect(legacy.price).toBeCloseTo(142.5, 8);
+    expect(legacy.publishTime.getTime()).toBe(PUBLISH_TIME * 1000);
+    expect(legacy.trading).toBe(true);
+    expect(decodePythPrice(pythLegacy(14_250_000_000, -8, 2)).trading).toBe(false);
+
+    for (const verification of ['partial', 'full'] as const) {
+      const update = decodePythPrice(pythPriceUpdate(15_000_000_000, -8, verification));
+      expect(update.price).toBeCloseTo(150, 8);
+      expect(update.confidence).toBeCloseTo(0.00001, 10);
+    }
+    expect(() => decodePythPrice(Buffer.alloc(300))).toThrow('Not a Pyth price account');
+  });
+
+  it('derives Jupiter Perps open interest and borrow rate from a custody', () => {
+    const metrics = jupiterPerpMetrics(decodeJupiterCustody(jupiterCustody(JUPITER_ORACLE)), 150);
+    expect(metrics.markPrice).toBe(150);
+    expect(metrics.longOpenInterest).toBe(300_000);
+    expect(metrics.shortOpenInterest).toBe(100_000);
+    expect(metrics.skew).toBe(0.5);
+    // 1000 dbps = 1% per hour at full utilization; 20% utilized
+    expect(metrics.fundingRate).toBeCloseTo(0.002, 10);
+  });
+
+  it('monitors contracts from chain and feeds the arbitrage detectors', async () => {
+    const driftAddress = deriveDriftPerpMarketAddress(0);
+    const connection = mockConnection({
+      [driftAddress.toString()]: accountInfo(driftMarket(), DRIFT_PROGRAM_ID),
+      [DRIFT_ORACLE.toString()]: accountInfo(pythPriceUpdate(15_000_000_000, -8, 'full'), PYTH_RECEIVER_PROGRAM_ID),
+      [JUPITER_PERPS_CUSTODIES['SOL-PERP']]: accountInfo(jupiterCustody(JUPITER_ORACLE), JUPITER_PERPS_PROGRAM_ID),
+      [JUPITER_ORACLE.toString()]: accountInfo(pythLegacy(14_900_000_000, -8), PYTH_RECEIVER_PROGRAM_ID),
+    });
+    const monitor = new EnhancedPerpetualMonitor(connection);
+
+    const drift = await monitor.monitorContract('drift', 'SOL-PERP');
+    const jupiter = await monitor.monitorContract('jupiter', 'SOL-PERP');
+    expect(drift).toMatchObject({ market: 'SOL-PERP', indexPrice: 150, address: driftAddress.toString() });
+    expect(drift!.lastUpdate.getTime()).toBe(PUBLISH_TIME * 1000);
+    expect(jupiter).toMatchObject({ indexPrice: 149, markPrice: 149 });
+    expect(await monitor.monitorContract('drift', 'NOPE-PERP')).toBeNull();
+    expect(await monitor.monitorContract('drift', Keypair.generate().publicKey.toString())).toBeNull();
+
+    expect(monitor.detectArbitrage(drift!, 149)).toMatchObject({ type: 'premium', action: 'short_perp_long_spot' });
+    expect(monitor.detectArbitrage(drift!, 0)).toBeNull();
+    expect(monitor.compareProtocols('SOL-PERP', [drift!, jupiter!])).toMatchObject({
+      protocol: 'jupiter-drift',
+      spotPrice: 149,
+      perpPrice: 151.5,
+    });
+    expect(monitor.getContracts()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Tests for Orca Whirlpool, Meteora DLMM and Lifinity account layouts
+ * Builds synthetic accounts from the layouts and runs them through the fetchers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  WHIRLPOOL_LAYOUT,
+  WHIRLPOOL_TICK_ARRAY_LAYOUT,
+  WHIRLPOOL_TICK_LAYOUT,
+  deriveWhirlpoolTickArray,
+  getWhirlpoolTickArrayStartIndex,
+} from '../../app/lib/pools/layouts/orca';
+import {
+  BIN_ARRAY_LAYOUT,
+  DLMM_BIN_LAYOUT,
+  LB_PAIR_LAYOUT,
+  METEORA_DLMM_PROGRAM_ID,
+  decodeLbPair,
+  deriveBinArrayAddress,
+  getBinArrayIndex,
+  getLbPairFeeRate,
+} from '../../app/lib/pools/layouts/meteora';
+import {
+  LIFINITY_AMM_LAYOUT,
+  LIFINITY_CURVE_CONSTANT_PRODUCT,
+  LIFINITY_CURVE_STABLE,
+  LIFINITY_V2_PROGRAM_ID,
+} from '../../app/lib/pools/layouts/lifinity';
+import { tickIndexToSqrtPriceX64 } from '../../app/lib/pools/quoters/concentrated-liquidity';
+import { OrcaFetcher } from '../../app/lib/pools/fetchers/orca';
+import { MeteoraFetcher } from '../../app/lib/pools/fetchers/meteora';
+import { LifinityFetcher } from '../../app/lib/pools/fetchers/lifinity';
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+type Layout = { span: number; discriminator?: readonly number[]; offsetOf(field: string): number };
+
+/**
+ * Zeroed account for a layout with its discriminator and the given fields written
+ */
+function encode(layout: Layout, fields: Record<string, number | bigint | boolean | PublicKey>, span = layout.span) {
+  const data = Buffer.alloc(span);
+  layout.discriminator?.forEach((byte, i) => (data[i] = byte));
+  for (const [name, value] of Object.entries(fields)) {
+    writeField(data, layout.offsetOf(name), value);
+  }
+  return data;
+}
+
+// Field widths follow the value: pubkeys, u64/i64 bigints (or 128-bit with width 16), i32 numbers
+function writeField(data: Buffer, offset: number, value: number | bigint | boolean | PublicKey, width?: number) {
+  if (value instanceof PublicKey) {
+    value.toBuffer().copy(data, offset);
+  } else if (typeof value === 'boolean') {
+    data.writeUInt8(value ? 1 : 0, offset);
+  } else if (typeof value === 'bigint') {
+    if (width === 16) {
+      const unsigned = value < BigInt(0) ? value + (BigInt(1) << BigInt(128)) : value;
+      data.writeBigUInt64LE(unsigned & BigInt('0xffffffffffffffff'), offset);
+      data.writeBigUInt64LE(unsigned >> BigInt(64), offset + 8);
+    } else {
+      data.writeBigInt64LE(value, offset);
+    }
+  } else {
+    data.writeIntLE(value, offset, width ?? 4);
+  }
+}
+
+function tokenAccount(amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+function mintAccount(decimals: number): Buffer {
+  const data = Buffer.alloc(82);
+  data.writeUInt8(decimals, 44);
+  return data;
+}
+
+function accountInfo(data: Buffer, owner: string): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+/**
+ * In-memory connection serving accounts, counting getMultipleAccountsInfo calls
+ */
+function mockConnection(accounts: Record<string, AccountInfo<Buffer>>, programAccounts: string[] = []) {
+  const calls = { getMultipleAccountsInfo: 0 };
+  const connection = {
+    rpcEndpoint: 'http://localhost:8899',
+    getAccountInfo: async (key: PublicKey) => accounts[key.toString()] ?? null,
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+      calls.getMultipleAccountsInfo++;
+      return keys.map(key => accounts[key.toString()] ?? null);
+    },
+    getProgramAccounts: async () =>
+      programAccounts.map(address => ({ pubkey: new PublicKey(address), account: accounts[address] })),
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+/**
+ * Vaults and mints for a pair, registered in the account map
+ */
+function addPair(accounts: Record<string, AccountInfo<Buffer>>, reserveA: bigint, reserveB: bigint, decimalsA = 9, decimalsB = 6) {
+  const pair = {
+    mintA: PublicKey.unique(),
+    mintB: PublicKey.unique(),
+    vaultA: PublicKey.unique(),
+    vaultB: PublicKey.unique(),
+  };
+  accounts[pair.mintA.toString()] = accountInfo(mintAccount(decimalsA), TOKEN_PROGRAM);
+  accounts[pair.mintB.toString()] = accountInfo(mintAccount(decimalsB), TOKEN_PROGRAM);
+  accounts[pair.vaultA.toString()] = accountInfo(tokenAccount(reserveA), TOKEN_PROGRAM);
+  accounts[pair.vaultB.toString()] = accountInfo(tokenAccount(reserveB), TOKEN_PROGRAM);
+  return pair;
+}
+
+let heliusKey: string | undefined;
+beforeEach(() => {
+  // Route fetchPools through connection.getProgramAccounts
+  heliusKey = process.env.NEXT_PUBLIC_HELIUS_API_KEY;
+  delete process.env.NEXT_PUBLIC_HELIUS_API_KEY;
+});
+afterEach(() => {
+  if (heliusKey !== undefined) process.env.NEXT_PUBLIC_HELIUS_API_KEY = heliusKey;
+});
+
+describe('DEX account layouts', () => {
+  it('should match on-chain account sizes', () => {
+    expect(WHIRLPOOL_LAYOUT.span).toBe(653);
+    expect(WHIRLPOOL_TICK_LAYOUT.span).toBe(113);
+    expect(WHIRLPOOL_TICK_ARRAY_LAYOUT.span).toBe(9988);
+    expect(LB_PAIR_LAYOUT.span).toBe(904);
+    expect(DLMM_BIN_LAYOUT.span).toBe(144);
+    expect(BIN_ARRAY_LAYOUT.span).toBe(10136);
+  });
+
+  it('should place Whirlpool and LbPair fields at their Anchor offsets', () => {
+    expect(WHIRLPOOL_LAYOUT.offsetOf('tickSpacing')).toBe(41);
+    expect(WHIRLPOOL_LAYOUT.offsetOf('sqrtPrice')).toBe(65);
+    expect(WHIRLPOOL_LAYOUT.offsetOf('tokenMintA')).toBe(101);
+    expect(LB_PAIR_LAYOUT.offsetOf('activeId')).toBe(76);
+    expect(LB_PAIR_LAYOUT.offsetOf('binStep')).toBe(80);
+    expect(LB_PAIR_LAYOUT.offsetOf('tokenXMint')).toBe(88);
+    expect(LB_PAIR_LAYOUT.offsetOf('reserveX')).toBe(152);
+  });
+
+  it('should compute tick and bin array indexes for negative positions', () => {
+    expect(getWhirlpoolTickArrayStartIndex(-1, 64)).toBe(-5632);
+    expect(getWhirlpoolTickArrayStartIndex(5632, 64)).toBe(5632);
+    expect(getBinArrayIndex(-1)).toBe(-1);
+    expect(getBinArrayIndex(69)).toBe(0);
+    expect(getBinArrayIndex(-71)).toBe(-2);
+  });
+});
+
+describe('OrcaFetcher', () => {
+  const TICK_SPACING = 64;
+
+  function whirlpool(pair: ReturnType<typeof addPair>, tickCurrentIndex: number, liquidity: bigint) {
+    const data = encode(WHIRLPOOL_LAYOUT, {
+      tokenMintA: pair.mintA,
+      tokenVaultA: pair.vaultA,
+      tokenMintB: pair.mintB,
+      tokenVaultB: pair.vaultB,
+      tickCurrentIndex,
+    });
+    data.writeUInt16LE(TICK_SPACING, WHIRLPOOL_LAYOUT.offsetOf('tickSpacing'));
+    data.writeUInt16LE(3000, WHIRLPOOL_LAYOUT.offsetOf('feeRate'));
+    writeField(data, WHIRLPOOL_LAYOUT.offsetOf('liquidity'), liquidity, 16);
+    writeField(data, WHIRLPOOL_LAYOUT.offsetOf('sqrtPrice'), tickIndexToSqrtPriceX64(tickCurrentIndex), 16);
+    writeField(data, WHIRLPOOL_LAYOUT.offsetOf('protocolFeeOwedA'), BigInt(1_000));
+    return data;
+  }
+
+  // Tick array with initialized ticks at the given slots
+  function tickArray(pool: PublicKey, startTickIndex: number, slots: Array<[number, bigint]>) {
+    const data = encode(WHIRLPOOL_TICK_ARRAY_LAYOUT, { startTickIndex, whirlpool: pool });
+    const ticksOffset = WHIRLPOOL_TICK_ARRAY_LAYOUT.offsetOf('ticks');
+    for (const [slot, liquidityNet] of slots) {
+      const offset = ticksOffset + slot * WHIRLPOOL_TICK_LAYOUT.span;
+      writeField(data, offset, true);
+      writeField(data, offset + WHIRLPOOL_TICK_LAYOUT.offsetOf('liquidityNet'), liquidityNet, 16);
+    }
+    return data;
+  }
+
+  function setup() {
+    const accounts: Record<string, AccountInfo<Buffer>> = {};
+    const addresses: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const pair = addPair(accounts, BigInt(1_000_000_000_000), BigInt(150_000_000_000));
+      const address = PublicKey.unique();
+      accounts[address.toString()] = accountInfo(whirlpool(pair, -100 + i * 10_000, BigInt(1e12)), ORCA_WHIRLPOOL_PROGRAM_ID);
+      addresses.push(address.toString());
+    }
+
+    // Current array of the first pool, with ticks below and above the price
+    const start = getWhirlpoolTickArrayStartIndex(-100, TICK_SPACING);
+    const first = new PublicKey(addresses[0]);
+    accounts[deriveWhirlpoolTickArray(first, start).toString()] = accountInfo(
+      tickArray(first, start, [[80, BigInt(5e11)], [87, BigInt(-2e11)]]),
+      ORCA_WHIRLPOOL_PROGRAM_ID
+    );
+
+    // A drained pool is skipped before any dependent loads
+    const drained = PublicKey.unique();
+    const drainedPair = addPair(accounts, BigInt(1), BigInt(1));
+    accounts[drained.toString()] = accountInfo(whirlpool(drainedPair, 0, BigInt(0)), ORCA_WHIRLPOOL_PROGRAM_ID);
+    addresses.push(drained.toString());
+
+    return { accounts, addresses, start };
+  }
+
+  it('should load every pool with two batched account reads', async () => {
+    const { accounts, addresses, start } = setup();
+    const { connection, calls } = mockConnection(accounts, addresses);
+
+    const result = await new OrcaFetcher().fetchPools(connection);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.pools).toHaveLength(3);
+    // Vaults and mints, then tick arrays, regardless of the pool count
+    expect(calls.getMultipleAccountsInfo).toBe(2);
+
+    const pool = result.pools.find(p => p.poolAddress === addresses[0])!;
+    expect(pool.id).toBe(`orca-${addresses[0]}`);
+    expect(pool.reserves.tokenA).toBe(BigInt(1_000_000_000_000 - 1_000));
+    expect(pool.fee).toBe(30);
+    expect(pool.price).toBeCloseTo(Math.pow(1.0001, -100) * 1000, 6);
+    if (pool.curve?.kind !== 'concentrated') throw new Error('expected a concentrated curve');
+    expect(pool.curve.ticks).toEqual([
+      { index: start + 80 * TICK_SPACING, liquidityNet: BigInt(5e11) },
+      { index: start + 87 * TICK_SPACING, liquidityNet: BigInt(-2e11) },
+    ]);
+    // One array on each side during scans
+    expect(pool.curve.tickRange).toEqual({ lower: start - 5632, upper: start + 2 * 5632 });
+  });
+
+  it('should load two tick arrays on each side for a single pool', async () => {
+    const { accounts, addresses, start } = setup();
+    const { connection } = mockConnection(accounts);
+
+    const pool = await new OrcaFetcher().fetchPoolById(connection, addresses[0]);
+
+    if (pool?.curve?.kind !== 'concentrated') throw new Error('expected a concentrated curve');
+    expect(pool.curve.ticks).toHaveLength(2);
+    expect(pool.curve.tickRange).toEqual({ lower: start - 2 * 5632, upper: start + 3 * 5632 });
+    expect(await new OrcaFetcher().fetchPoolById(connection, addresses[3])).toBeNull();
+  });
+});
+
+describe('MeteoraFetcher', () => {
+  const BIN_STEP = 10;
+
+  function lbPair(pair: ReturnType<typeof addPair>, activeId: number, status = 0) {
+    const data = encode(LB_PAIR_LAYOUT, {
+      tokenXMint: pair.mintA,
+      tokenYMint: pair.mintB,
+      reserveX: pair.vaultA,
+      reserveY: pair.vaultB,
+      activeId,
+      protocolFeeAmountX: BigInt(500),
+    });
+    data.writeUInt16LE(BIN_STEP, LB_PAIR_LAYOUT.offsetOf('binStep'));
+    data.writeUInt16LE(10_000, LB_PAIR_LAYOUT.offsetOf('baseFactor'));
+    data.writeUInt8(status, LB_PAIR_LAYOUT.offsetOf('status'));
+    return data;
+  }
+
+  function binArray(pair: PublicKey, index: number, bins: Array<[number, bigint, bigint]>) {
+    const data = encode(BIN_ARRAY_LAYOUT, { index: BigInt(index), lbPair: pair });
+    const binsOffset = BIN_ARRAY_LAYOUT.offsetOf('bins');
+    for (const [slot, amountX, amountY] of bins) {
+      const offset = binsOffset + slot * DLMM_BIN_LAYOUT.span;
+      writeField(data, offset + DLMM_BIN_LAYOUT.offsetOf('amountX'), amountX);
+      writeField(data, offset + DLMM_BIN_LAYOUT.offsetOf('amountY'), amountY);
+    }
+    return data;
+  }
+
+  it('should derive the base fee from the base factor and bin step', () => {
+    const state = decodeLbPair(lbPair(addPair({}, BigInt(0), BigInt(0)), 0));
+    // 10000 * 10 * 10 = 1e6 in 1e9 precision: 0.1%
+    expect(getLbPairFeeRate(state)).toBe(1000);
+  });
+
+  it('should decode DLMM pairs into dlmm curves with their bins', async () => {
+    const accounts: Record<string, AccountInfo<Buffer>> = {};
+    const addresses: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const pair = addPair(accounts, BigInt(5_000_000_000), BigInt(700_000_000));
+      const address = PublicKey.unique();
+      accounts[address.toString()] = accountInfo(lbPair(pair, -2 + i * 500), METEORA_DLMM_PROGRAM_ID);
+      addresses.push(address.toString());
+    }
+    const disabled = PublicKey.unique();
+    accounts[disabled.toString()] = accountInfo(lbPair(addPair(accounts, BigInt(1), BigInt(1)), 0, 1), METEORA_DLMM_PROGRAM_ID);
+    addresses.push(disabled.toString());
+
+    // Active bin -2 sits in array -1 at slot 68; bin 3 sits in array 0
+    const first = new PublicKey(addresses[0]);
+    accounts[deriveBinArrayAddress(first, -1).toString()] = accountInfo(
+      binArray(first, -1, [[67, BigInt(0), BigInt(300_000_000)], [68, BigInt(1_000_000_000), BigInt(400_000_000)]]),
+      METEORA_DLMM_PROGRAM_ID
+    );
+    accounts[deriveBinArrayAddress(first, 0).toString()] = accountInfo(
+      binArray(first, 0, [[3, BigInt(4_000_000_000), BigInt(0)]]),
+      METEORA_DLMM_PROGRAM_ID
+    );
+
+    const { connection, calls } = mockConnection(accounts, addresses);
+    const result = await new MeteoraFetcher().fetchPools(connection);
+
+    // Only the limited-fetch notice for the non-Helius path
+    expect((result.errors ?? []).filter(error => !error.startsWith('Warning'))).toEqual([]);
+    expect(result.pools).toHaveLength(3);
+    expect(calls.getMultipleAccountsInfo).toBe(2);
+
+    const pool = result.pools.find(p => p.poolAddress === addresses[0])!;
+    expect(pool.id).toBe(`meteora-${addresses[0]}`);
+    expect(pool.reserves.tokenA).toBe(BigInt(5_000_000_000 - 500));
+    expect(pool.price).toBeCloseTo(Math.pow(1.001, -2) * 1000, 6);
+    expect(pool.curve).toEqual({
+      kind: 'dlmm',
+      activeId: -2,
+      binStep: BIN_STEP,
+      feeRate: 1000,
+      bins: [
+        { id: -3, amountX: BigInt(0), amountY: BigInt(300_000_000) },
+        { id: -2, amountX: BigInt(1_000_000_000), amountY: BigInt(400_000_000) },
+        { id: 3, amountX: BigInt(4_000_000_000), amountY: BigInt(0) },
+      ],
+    });
+  });
+});
+
+describe('LifinityFetcher', () => {
+  function amm(pair: ReturnType<typeof addPair>, curveType: number, curveParameters: bigint) {
+    return encode(LIFINITY_AMM_LAYOUT, {
+      isInitialized: true,
+      tokenAAccount: pair.vaultA,
+      tokenBAccount: pair.vaultB,
+      tokenAMint: pair.mintA,
+      tokenBMint: pair.mintB,
+      tradeFeeNumerator: BigInt(2),
+      tradeFeeDenominator: BigInt(10_000),
+      ownerTradeFeeNumerator: BigInt(1),
+      ownerTradeFeeDenominator: BigInt(10_000),
+      curveType,
+      curveParameters,
+    }, LIFINITY_AMM_LAYOUT.span + 200);
+  }
+
+  it('should tag stable pools and keep concentration on constant-product pools', async () => {
+    const accounts: Record<string, AccountInfo<Buffer>> = {};
+    const stablePair = addPair(accounts, BigInt(1_800_000_000_000), BigInt(200_000_000_000), 6, 6);
+    const cpPair = addPair(accounts, BigInt(1_000_000_000_000), BigInt(150_000_000_000));
+    const stable = PublicKey.unique().toString();
+    const cp = PublicKey.unique().toString();
+    accounts[stable] = accountInfo(amm(stablePair, LIFINITY_CURVE_STABLE, BigInt(100)), LIFINITY_V2_PROGRAM_ID);
+    accounts[cp] = accountInfo(amm(cpPair, LIFINITY_CURVE_CONSTANT_PRODUCT, BigInt(8)), LIFINITY_V2_PROGRAM_ID);
+
+    const { connection, calls } = mockConnection(accounts, [stable, cp]);
+    const result = await new LifinityFetcher().fetchPools(connection);
+
+    expect(result.errors).toBeUndefined();
+    expect(calls.getMultipleAccountsInfo).toBe(1);
+
+    const stablePool = result.pools.find(p => p.poolAddress === stable)!;
+    expect(stablePool.curve).toEqual({ kind: 'stable', amplification: 100, feeRate: 300 });
+    expect(stablePool.fee).toBe(3);
+    // Near par despite the 9:1 reserve ratio
+    expect(stablePool.price).toBeGreaterThan(0.9);
+    expect(stablePool.price).toBeLessThan(1);
+
+    const cpPool = result.pools.find(p => p.poolAddress === cp)!;
+    expect(cpPool.curve).toEqual({ kind: 'constant_product', concentration: 8, feeRate: 300 });
+    expect(cpPool.price).toBeCloseTo(150, 6);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for negative-cycle detection over the pool graph
+ * Covers full detection, streamed updates that open or close a cycle, decoding of
+ * streamed pool accounts, and the long-lived detector the arbitrage scanner keeps between scans
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Connection } from '@solana/web3.js';
+import { NegativeCycleDetector } from '../../app/lib/pools/negative-cycle-detector';
+import { ArbitrageDetector } from '../../app/lib/pools/arbitrage';
+import {
+  decodePoolAccountUpdate,
+  PoolUpdate,
+  PoolUpdateCallback,
+  PoolWebSocketManager,
+} from '../../app/lib/pools/websocket';
+import { CLMM_POOL_LAYOUT, decodeClmmPool } from '../../app/lib/pools/layouts/raydium';
+import { DEFAULT_SCANNER_CONFIG, PoolData, ScannerConfig, TokenInfo, WSOL_MINT } from '../../app/lib/pools/types';
+import { createFixedClock } from '../../app/lib/pools/clock';
+
+const SOL: TokenInfo = { mint: WSOL_MINT, symbol: 'SOL', decimals: 9 };
+const USDC: TokenInfo = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+const BONK: TokenInfo = { mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', symbol: 'BONK', decimals: 6 };
+
+function makePool(id: string, tokenA: TokenInfo, tokenB: TokenInfo, reserveA: bigint, reserveB: bigint): PoolData {
+  return {
+    id,
+    dex: 'raydium',
+    tokenA,
+    tokenB,
+    reserves: { tokenA: reserveA, tokenB: reserveB },
+    price: 0,
+    fee: 0.25,
+    volume24h: 0,
+    tvl: 0,
+    recentTrades: [],
+    lastUpdated: new Date(0),
+    poolAddress: `${id}-address`,
+    curve: { kind: 'constant_product', feeRate: 2500 },
+  };
+}
+
+/**
+ * SOL -> USDC -> BONK -> SOL at consistent prices: every loop loses its fees
+ */
+function balancedTriangle(): PoolData[] {
+  return [
+    makePool('sol-usdc', SOL, USDC, BigInt(1_000_000_000_000), BigInt(150_000_000_000)),
+    makePool('usdc-bonk', USDC, BONK, BigInt(1_000_000_000_000), BigInt(1_000_000_000_000)),
+    makePool('bonk-sol', BONK, SOL, BigInt(150_000_000_000), BigInt(1_000_000_000_000)),
+  ];
+}
+
+function reserveUpdate(pool: PoolData, reserveA: bigint, reserveB: bigint): PoolUpdate {
+  return { poolId: pool.poolAddress!, dex: pool.dex, price: 0, reserveA, reserveB, timestamp: new Date(1) };
+}
+
+/**
+ * Stand-in for the WebSocket manager that lets a test push updates
+ */
+function fakeManager() {
+  const state = { subscribeCalls: 0, unsubscribeCalls: 0, subscribed: [] as string[], callback: null as PoolUpdateCallback | null };
+  const manager = {
+    subscribeMultiple: (pools: Array<{ poolId: string }>, callback: PoolUpdateCallback) => {
+      state.subscribeCalls++;
+      state.subscribed = pools.map(pool => pool.poolId);
+      state.callback = callback;
+      return () => {
+        state.unsubscribeCalls++;
+      };
+    },
+  } as unknown as PoolWebSocketManager;
+  return { manager, state };
+}
+
+describe('NegativeCycleDetector', () => {
+  it('should find no cycle when every loop only pays fees', () => {
+    const detector = new NegativeCycleDetector(balancedTriangle(), 3);
+    expect(detector.detectAll()).toEqual([]);
+    expect(detector.getGraphStats()).toEqual({ tokens: 3, edges: 6, activeCycles: 0 });
+  });
+
+  it('should detect a mispriced triangle once, whichever token it is found from', () => {
+    const pools = balancedTriangle();
+    // 2% more SOL per BONK than the other two pools imply
+    pools[2] = makePool('bonk-sol', BONK, SOL, BigInt(150_000_000_000), BigInt(1_020_000_000_000));
+
+    const cycles = new NegativeCycleDetector(pools, 3).detectAll();
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].pools.map(pool => pool.id).sort()).toEqual(['bonk-sol', 'sol-usdc', 'usdc-bonk']);
+    expect(cycles[0].weight).toBeLessThan(0);
+    // 1.02 at marginal prices less three 0.25% fees
+    expect(cycles[0].rate).toBeCloseTo(1.02 * Math.pow(0.9975, 3), 9);
+    expect(cycles[0].profitPercent).toBeCloseTo((1.02 * Math.pow(0.9975, 3) - 1) * 100, 6);
+  });
+
+  it('should respect the hop limit', () => {
+    const pools = balancedTriangle();
+    pools[2] = makePool('bonk-sol', BONK, SOL, BigInt(150_000_000_000), BigInt(1_020_000_000_000));
+
+    expect(new NegativeCycleDetector(pools, 2).detectAll()).toEqual([]);
+    expect(new NegativeCycleDetector(pools, 3).findCyclesThrough(USDC.mint)).toHaveLength(1);
+  });
+
+  it('should open and close a cycle from streamed updates to one pool', () => {
+    const pools = balancedTriangle();
+    const detector = new NegativeCycleDetector(pools, 3);
+    detector.detectAll();
+
+    const notified: string[][] = [];
+    detector.subscribe(cycles => notified.push(cycles.map(cycle => cycle.key)));
+
+    const opened = detector.applyUpdate(reserveUpdate(pools[2], BigInt(150_000_000_000), BigInt(1_020_000_000_000)));
+    expect(opened).toHaveLength(1);
+    expect(detector.getActiveCycles().map(cycle => cycle.key)).toEqual([opened[0].key]);
+    expect(notified).toEqual([[opened[0].key]]);
+
+    // A further move on the same pool keeps the cycle without reporting it as new
+    expect(detector.applyUpdate(reserveUpdate(pools[2], BigInt(150_000_000_000), BigInt(1_030_000_000_000)))).toEqual([]);
+    expect(detector.getActiveCycles()[0].rate).toBeCloseTo(1.03 * Math.pow(0.9975, 3), 9);
+
+    // Arbitraged back into line: the cycle closes
+    expect(detector.applyUpdate(reserveUpdate(pools[2], BigInt(150_000_000_000), BigInt(1_000_000_000_000)))).toEqual([]);
+    expect(detector.getActiveCycles()).toEqual([]);
+    expect(notified).toHaveLength(1);
+  });
+
+  it('should ignore updates for pools outside the graph', () => {
+    const detector = new NegativeCycleDetector(balancedTriangle(), 3);
+    const stranger = makePool('other', SOL, BONK, BigInt(1), BigInt(1));
+    expect(detector.applyUpdate(reserveUpdate(stranger, BigInt(5), BigInt(5)))).toEqual([]);
+  });
+
+  it('should leave the pools it was given untouched', () => {
+    const pools = balancedTriangle();
+    const detector = new NegativeCycleDetector(pools, 3);
+
+    const [cycle] = detector.applyUpdate(reserveUpdate(pools[2], BigInt(150_000_000_000), BigInt(1_020_000_000_000)));
+
+    expect(pools[2].reserves).toEqual({ tokenA: BigInt(150_000_000_000), tokenB: BigInt(1_000_000_000_000) });
+    const streamed = cycle.pools.find(pool => pool.id === 'bonk-sol')!;
+    expect(streamed).not.toBe(pools[2]);
+    expect(streamed.reserves.tokenB).toBe(BigInt(1_020_000_000_000));
+  });
+
+  it('should keep its stream subscriptions across pool reloads', () => {
+    const { manager, state } = fakeManager();
+    const detector = new NegativeCycleDetector(balancedTriangle(), 3);
+
+    detector.attach(manager);
+    expect(state.subscribeCalls).toBe(1);
+    expect(state.subscribed.sort()).toEqual(['bonk-sol-address', 'sol-usdc-address', 'usdc-bonk-address']);
+
+    // Same pools from a new scan: no resubscription
+    detector.setPools(balancedTriangle());
+    expect(state.subscribeCalls).toBe(1);
+
+    // A new pool joins: subscribe to the new set, then release the old one
+    detector.setPools([...balancedTriangle(), makePool('sol-bonk', SOL, BONK, BigInt(1_000_000_000), BigInt(150_000_000))]);
+    expect(state.subscribeCalls).toBe(2);
+    expect(state.unsubscribeCalls).toBe(1);
+    expect(state.subscribed).toContain('sol-bonk-address');
+
+    detector.detach();
+    expect(state.unsubscribeCalls).toBe(2);
+    expect(detector.isAttached()).toBe(false);
+  });
+});
+
+describe('ArbitrageDetector multi-hop detection', () => {
+  const config: ScannerConfig = {
+    ...DEFAULT_SCANNER_CONFIG,
+    maxHops: 3,
+    minProfitThreshold: 0,
+    minProfitPercent: 0,
+  };
+  const connection = { rpcEndpoint: 'http://localhost:8899' } as unknown as Connection;
+
+  it('should report cycles opened by streamed updates between scans', async () => {
+    const pools = balancedTriangle();
+    const detector = new ArbitrageDetector(pools, config, connection, undefined, createFixedClock(0));
+    const { manager, state } = fakeManager();
+
+    expect(await detector.detectOpportunities()).toEqual([]);
+
+    const streamed: string[][] = [];
+    const detach = detector.attachLiveUpdates(
+      opportunities => streamed.push(opportunities.map(opp => opp.type)),
+      manager
+    );
+
+    state.callback!(reserveUpdate(pools[2], BigInt(150_000_000_000), BigInt(1_020_000_000_000)));
+    expect(streamed).toEqual([['multi_hop']]);
+
+    // The streamed state stays inside the detector
+    expect(pools[2].reserves.tokenB).toBe(BigInt(1_000_000_000_000));
+
+    // The next scan reuses the attached graph instead of building a new one
+    pools[2] = makePool('bonk-sol', BONK, SOL, BigInt(150_000_000_000), BigInt(1_020_000_000_000));
+    detector.setPools(pools);
+    const scanned = await detector.detectOpportunities();
+    expect(scanned.some(opp => opp.type === 'multi_hop' && opp.path.startToken.mint === WSOL_MINT)).toBe(true);
+    expect(state.subscribeCalls).toBe(1);
+
+    detach();
+    expect(state.unsubscribeCalls).toBe(1);
+  });
+});
+
+describe('streamed pool accounts', () => {
+  // Raydium CLMM SOL/USDC account: SOL at 150 USDC, 0.05% fee tier
+  const fixture = JSON.parse(readFileSync(join(__dirname, '../fixtures/raydium/clmm-sol-usdc.json'), 'utf8'));
+  const account = Buffer.from(fixture.data, 'base64');
+  const state = decodeClmmPool(account);
+
+  function clmmPool(): PoolData {
+    return {
+      ...makePool('raydium_clmm-sol-usdc', SOL, USDC, BigInt(5_000_000_000_000), BigInt(750_000_000_000)),
+      dex: 'raydium_clmm',
+      price: 150,
+      fee: 5,
+      poolAddress: fixture.address,
+      curve: {
+        kind: 'concentrated',
+        sqrtPriceX64: state.sqrtPriceX64,
+        liquidity: state.liquidity,
+        tickCurrentIndex: state.tickCurrent,
+        tickSpacing: state.tickSpacing,
+        feeRate: 500,
+      },
+    };
+  }
+
+  // The same account with SOL at ratio * 150 USDC
+  function movedAccount(ratio: number): Buffer {
+    const data = Buffer.from(account);
+    const sqrtPrice = state.sqrtPriceX64 * BigInt(Math.round(Math.sqrt(ratio) * 1e9)) / BigInt(1e9);
+    const offset = CLMM_POOL_LAYOUT.offsetOf('sqrtPriceX64');
+    data.writeBigUInt64LE(sqrtPrice & BigInt('0xffffffffffffffff'), offset);
+    data.writeBigUInt64LE(sqrtPrice >> BigInt(64), offset + 8);
+    return data;
+  }
+
+  it('should decode a CLMM account into its curve state', () => {
+    const update = decodePoolAccountUpdate(fixture.address, 'raydium_clmm', account)!;
+
+    expect(update.curve).toEqual({
+      kind: 'concentrated',
+      sqrtPriceX64: state.sqrtPriceX64,
+      liquidity: state.liquidity,
+      tickCurrentIndex: state.tickCurrent,
+    });
+    expect(update.price).toBeCloseTo(150, 6);
+    // Reserves live in the vaults, not the pool account
+    expect(update.reserveA).toBe(BigInt(0));
+    expect(update.reserveB).toBe(BigInt(0));
+  });
+
+  it('should reject accounts that do not match the DEX layout', () => {
+    expect(decodePoolAccountUpdate(fixture.address, 'orca', account)).toBeNull();
+  });
+
+  it('should find no phantom cycle from an unchanged account and open one when the price moves', () => {
+    const pools = [clmmPool(), makePool('sol-usdc', SOL, USDC, BigInt(1_000_000_000_000), BigInt(150_000_000_000))];
+    const detector = new NegativeCycleDetector(pools, 3);
+    const { manager, state: stream } = fakeManager();
+    detector.attach(manager);
+    expect(detector.detectAll()).toEqual([]);
+
+    stream.callback!(decodePoolAccountUpdate(fixture.address, 'raydium_clmm', account)!);
+    expect(detector.getActiveCycles()).toEqual([]);
+
+    // SOL 2% dearer in the CLMM pool: buy it in the constant-product pool, sell it there
+    stream.callback!(decodePoolAccountUpdate(fixture.address, 'raydium_clmm', movedAccount(1.02))!);
+    const [cycle] = detector.getActiveCycles();
+    expect(cycle.rate).toBeCloseTo(1.02 * 0.9995 * 0.9975, 6);
+
+    const streamed = cycle.pools.find(pool => pool.id === pools[0].id)!;
+    expect(streamed.price).toBeCloseTo(153, 6);
+    expect(streamed.reserves).toEqual(pools[0].reserves);
+    // The caller's pool keeps the state it was loaded with
+    expect(pools[0].price).toBe(150);
+    expect(pools[0].curve).toEqual(clmmPool().curve);
+  });
+});
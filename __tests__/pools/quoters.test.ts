@@ -0,0 +1,241 @@
+/**
+ * Tests for the constant-product, concentrated-liquidity, DLMM and stable-swap quoters
+ * Outputs are checked against closed-form curve math and independently solved invariants
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PoolCurve, PoolData } from '../../app/lib/pools/types';
+import { ConstantProductQuoter } from '../../app/lib/pools/quoters/constant-product';
+import {
+  ConcentratedLiquidityQuoter,
+  tickIndexToSqrtPriceX64,
+} from '../../app/lib/pools/quoters/concentrated-liquidity';
+import { DLMMQuoter, getBinPrice } from '../../app/lib/pools/quoters/dlmm';
+import { StableSwapQuoter, computeD } from '../../app/lib/pools/quoters/stable-swap';
+import { quoteEngine } from '../../app/lib/pools/quote-engine';
+
+const SOL = { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 };
+const USDC = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+const USDT = { mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', decimals: 6 };
+
+function makePool(overrides: Partial<PoolData> & { curve: PoolCurve }): PoolData {
+  return {
+    id: 'test-pool',
+    dex: 'test',
+    tokenA: SOL,
+    tokenB: USDC,
+    reserves: { tokenA: BigInt(0), tokenB: BigInt(0) },
+    price: 0,
+    fee: 0,
+    volume24h: 0,
+    tvl: 0,
+    recentTrades: [],
+    lastUpdated: new Date(),
+    ...overrides,
+  };
+}
+
+describe('ConstantProductQuoter', () => {
+  const quoter = new ConstantProductQuoter();
+  const pool = makePool({
+    reserves: { tokenA: BigInt(1_000_000_000_000), tokenB: BigInt(150_000_000_000) },
+    curve: { kind: 'constant_product', feeRate: 2500 },
+  });
+
+  it('should charge the fee on input and follow x * y = k', () => {
+    const quote = quoter.quote(pool, true, BigInt(1_000_000_000));
+
+    // dy = y * dx' / (x + dx') with dx' = 1 SOL less 0.25%
+    expect(quote.feeAmount).toBe(BigInt(2_500_000));
+    expect(quote.amountOut).toBe(BigInt(149_475_897));
+    expect(quote.complete).toBe(true);
+    expect(quoter.spotPrice(pool)).toBeCloseTo(150, 9);
+    expect(quote.priceImpact).toBeCloseTo(1 - 149.475897 / 150, 6);
+  });
+
+  it('should price against virtual reserves when concentrated', () => {
+    const concentrated = { ...pool, curve: { kind: 'constant_product' as const, feeRate: 2500, concentration: 4 } };
+    const quote = quoter.quote(concentrated, true, BigInt(10_000_000_000));
+
+    // 4x virtual reserves: 600k USDC * 9.975 / (4000 + 9.975) SOL
+    expect(Number(quote.amountOut)).toBeCloseTo((600_000_000_000 * 9_975_000_000) / (4_000_000_000_000 + 9_975_000_000), -1);
+    expect(quote.amountOut).toBeGreaterThan(quoter.quote(pool, true, BigInt(10_000_000_000)).amountOut);
+  });
+});
+
+describe('ConcentratedLiquidityQuoter', () => {
+  const quoter = new ConcentratedLiquidityQuoter();
+  const L1 = 1e12;
+  const L2 = 5e11;
+
+  // Price 1.0 at tick 0; liquidity halves below tick -100
+  const pool = makePool({
+    tokenA: USDC,
+    tokenB: USDT,
+    curve: {
+      kind: 'concentrated',
+      sqrtPriceX64: tickIndexToSqrtPriceX64(0),
+      liquidity: BigInt(L1),
+      tickCurrentIndex: 0,
+      tickSpacing: 10,
+      feeRate: 3000,
+      ticks: [
+        { index: -100, liquidityNet: BigInt(L1 - L2) },
+        { index: -500, liquidityNet: BigInt(L2) },
+        { index: 200, liquidityNet: BigInt(-L1) },
+      ],
+    },
+  });
+
+  const sqrtPrice = (tick: number) => Math.pow(1.0001, tick / 2);
+
+  it('should match the single-range closed form when the swap stays inside a tick', () => {
+    const amountIn = 1_000_000_000;
+    const quote = quoter.quote(pool, true, BigInt(amountIn));
+
+    // 1/sqrt(P') = 1/sqrt(P) + dx/L, dy = L * (sqrt(P) - sqrt(P'))
+    const net = amountIn * (1 - 0.003);
+    const next = 1 / (1 + net / L1);
+    expect(Number(quote.amountOut)).toBeCloseTo(L1 * (1 - next), -1);
+    expect(quote.complete).toBe(true);
+  });
+
+  it('should cross an initialized tick and continue with the reduced liquidity', () => {
+    const amountIn = 10_000_000_000;
+    const quote = quoter.quote(pool, true, BigInt(amountIn));
+
+    const sqrtTick = sqrtPrice(-100);
+    const firstRangeIn = L1 * (1 / sqrtTick - 1);
+    const secondRangeIn = amountIn * (1 - 0.003) - firstRangeIn;
+    const sqrtEnd = 1 / (1 / sqrtTick + secondRangeIn / L2);
+    const expectedOut = L1 * (1 - sqrtTick) + L2 * (sqrtTick - sqrtEnd);
+
+    expect(firstRangeIn).toBeLessThan(amountIn);
+    expect(Math.abs(Number(quote.amountOut) - expectedOut)).toBeLessThan(5);
+    expect(quote.complete).toBe(true);
+    expect(Number(quote.feeAmount)).toBeCloseTo(amountIn * 0.003, -2);
+  });
+
+  it('should quote buys of tokenA across ticks to the right', () => {
+    const amountIn = 1_000_000_000;
+    const quote = quoter.quote(pool, false, BigInt(amountIn));
+
+    // sqrt(P') = sqrt(P) + dy/L, dx = L * (1/sqrt(P) - 1/sqrt(P'))
+    const next = 1 + (amountIn * (1 - 0.003)) / L1;
+    expect(Number(quote.amountOut)).toBeCloseTo(L1 * (1 - 1 / next), -1);
+  });
+
+  it('should stop at the edge of the loaded ticks or the current range', () => {
+    const withRange = makePool({
+      ...pool,
+      curve: { ...(pool.curve as any), tickRange: { lower: -200, upper: 200 } },
+    });
+    const huge = BigInt(1_000_000_000_000);
+    const bounded = quoter.quote(withRange, true, huge);
+    const noTicks = quoter.quote(makePool({ ...pool, curve: { ...(pool.curve as any), ticks: undefined } }), false, huge);
+
+    expect(bounded.complete).toBe(false);
+    expect(bounded.amountIn).toBeLessThan(huge);
+    const sqrtTick = sqrtPrice(-100);
+    const expectedOut = L1 * (1 - sqrtTick) + L2 * (sqrtTick - sqrtPrice(-200));
+    expect(Math.abs(Number(bounded.amountOut) - expectedOut)).toBeLessThan(5);
+
+    expect(noTicks.complete).toBe(false);
+    expect(Math.abs(Number(noTicks.amountOut) - L1 * (1 - 1 / sqrtPrice(10)))).toBeLessThan(5);
+  });
+});
+
+describe('DLMMQuoter', () => {
+  const quoter = new DLMMQuoter();
+  const pool = makePool({
+    tokenA: USDC,
+    tokenB: USDT,
+    curve: {
+      kind: 'dlmm',
+      activeId: 0,
+      binStep: 10,
+      feeRate: 0,
+      bins: [
+        { id: -1, amountX: BigInt(0), amountY: BigInt(2_000_000_000) },
+        { id: 0, amountX: BigInt(1_000_000_000), amountY: BigInt(1_000_000_000) },
+        { id: 1, amountX: BigInt(2_000_000_000), amountY: BigInt(0) },
+      ],
+    },
+  });
+
+  it('should drain the active bin then trade at the next bin price', () => {
+    const quote = quoter.quote(pool, true, BigInt(1_500_000_000));
+
+    // 1 USDC at price 1, then 0.5 at 1.001^-1
+    const expected = 1_000_000_000 + 500_000_000 * getBinPrice(-1, 10);
+    expect(Math.abs(Number(quote.amountOut) - expected)).toBeLessThanOrEqual(2);
+    expect(quote.complete).toBe(true);
+    expect(quoter.spotPrice(pool)).toBe(1);
+  });
+
+  it('should charge the fee on input and report incomplete quotes past the loaded bins', () => {
+    const withFee = makePool({ ...pool, curve: { ...(pool.curve as any), feeRate: 1000 } });
+    const quote = quoter.quote(withFee, false, BigInt(500_000_000));
+    expect(Number(quote.feeAmount)).toBe(500_000);
+    expect(Number(quote.amountOut)).toBe(499_500_000);
+
+    const drained = quoter.quote(pool, true, BigInt(5_000_000_000));
+    expect(drained.complete).toBe(false);
+    expect(drained.amountOut).toBe(BigInt(3_000_000_000));
+  });
+});
+
+describe('StableSwapQuoter', () => {
+  const quoter = new StableSwapQuoter();
+  const stablePool = (reserveA: number, reserveB: number, feeRate = 0) =>
+    makePool({
+      tokenA: USDC,
+      tokenB: USDT,
+      reserves: { tokenA: BigInt(reserveA), tokenB: BigInt(reserveB) },
+      curve: { kind: 'stable', amplification: 100, feeRate },
+    });
+
+  it('should hold D = x + y for balanced reserves', () => {
+    expect(computeD(BigInt(100), BigInt(1e12), BigInt(1e12))).toBe(BigInt(2e12));
+  });
+
+  it('should trade near par at balanced reserves', () => {
+    // Reference output from solving the invariant at 60-digit precision: 999995024.89
+    const quote = quoter.quote(stablePool(1e12, 1e12), true, BigInt(1_000_000_000));
+    expect(Math.abs(Number(quote.amountOut) - 999_995_024)).toBeLessThanOrEqual(3);
+    expect(quote.complete).toBe(true);
+    expect(quoter.spotPrice(stablePool(1e12, 1e12))).toBeCloseTo(1, 5);
+  });
+
+  it('should penalize selling the abundant side of imbalanced reserves', () => {
+    // Reference outputs for 10k in at 1.8M / 0.2M: 9403188329.45 and 10575596921.11
+    const imbalanced = stablePool(1.8e12, 0.2e12);
+    const sellAbundant = quoter.quote(imbalanced, true, BigInt(10_000_000_000));
+    const sellScarce = quoter.quote(imbalanced, false, BigInt(10_000_000_000));
+
+    expect(Math.abs(Number(sellAbundant.amountOut) - 9_403_188_329)).toBeLessThanOrEqual(3);
+    expect(Math.abs(Number(sellScarce.amountOut) - 10_575_596_921)).toBeLessThanOrEqual(3);
+    expect(quoter.spotPrice(imbalanced)).toBeLessThan(1);
+  });
+
+  it('should take the fee from the output', () => {
+    const quote = quoter.quote(stablePool(1e12, 1e12, 400), true, BigInt(1_000_000_000));
+    expect(Math.abs(Number(quote.amountOut) - 999_995_024 * (1 - 0.0004))).toBeLessThanOrEqual(3);
+    expect(Math.abs(Number(quote.feeAmount) - 399_998)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('QuoteEngine', () => {
+  it('should select the quoter from the pool curve', () => {
+    const stable = makePool({
+      tokenA: USDC,
+      tokenB: USDT,
+      reserves: { tokenA: BigInt(1e12), tokenB: BigInt(1e12) },
+      curve: { kind: 'stable', amplification: 100, feeRate: 0 },
+    });
+
+    expect(quoteEngine.getQuoter(stable)).toBeInstanceOf(StableSwapQuoter);
+    expect(quoteEngine.quote(stable, USDT.mint, BigInt(1_000_000_000)).amountOut).toBeGreaterThan(BigInt(999_990_000));
+    expect(quoteEngine.quote(stable, SOL.mint, BigInt(1_000_000_000)).amountOut).toBe(BigInt(0));
+  });
+});
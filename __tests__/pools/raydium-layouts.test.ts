@@ -0,0 +1,256 @@
+/**
+ * Tests for Raydium AMM v4, CLMM and CPMM account layouts
+ * Decodes account fixtures and builds PoolData through the fetchers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  AMM_V4_POOL_LAYOUT,
+  CLMM_POOL_LAYOUT,
+  CLMM_CONFIG_LAYOUT,
+  CLMM_TICK_ARRAY_LAYOUT,
+  CPMM_POOL_LAYOUT,
+  CPMM_CONFIG_LAYOUT,
+  decodeAmmV4Pool,
+  decodeClmmConfig,
+  decodeClmmPool,
+  decodeClmmTickArray,
+  decodeCpmmConfig,
+  decodeCpmmPool,
+  deriveTickArrayAddress,
+  getTickArrayStartIndex,
+} from '../../app/lib/pools/layouts/raydium';
+import { RaydiumFetcher, RaydiumClmmFetcher, RaydiumCpmmFetcher } from '../../app/lib/pools/fetchers/raydium';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+interface AccountFixture {
+  address: string;
+  programId: string;
+  data: string; // base64
+}
+
+function loadFixture(name: string): AccountFixture & { buffer: Buffer } {
+  const fixture: AccountFixture = JSON.parse(
+    readFileSync(join(__dirname, '../fixtures/raydium', `${name}.json`), 'utf8')
+  );
+  return { ...fixture, buffer: Buffer.from(fixture.data, 'base64') };
+}
+
+function tokenAccount(amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+function accountInfo(data: Buffer, owner: string): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+/**
+ * In-memory connection serving fixtures, counting getMultipleAccountsInfo calls
+ */
+function mockConnection(accounts: Record<string, AccountInfo<Buffer>>) {
+  const calls = { getMultipleAccountsInfo: 0 };
+  const connection = {
+    rpcEndpoint: 'http://localhost:8899',
+    getAccountInfo: async (key: PublicKey) => accounts[key.toString()] ?? null,
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+      calls.getMultipleAccountsInfo++;
+      return keys.map(key => accounts[key.toString()] ?? null);
+    },
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+describe('Raydium account layouts', () => {
+  it('should match on-chain account sizes', () => {
+    expect(AMM_V4_POOL_LAYOUT.span).toBe(752);
+    expect(CPMM_POOL_LAYOUT.span).toBe(637);
+    expect(CPMM_CONFIG_LAYOUT.span).toBe(236);
+    expect(CLMM_POOL_LAYOUT.span).toBe(1544);
+    expect(CLMM_CONFIG_LAYOUT.span).toBe(117);
+    expect(CLMM_TICK_ARRAY_LAYOUT.span).toBe(10240);
+  });
+
+  describe('AMM v4', () => {
+    it('should decode the SOL/USDC pool', () => {
+      const { buffer } = loadFixture('amm-v4-sol-usdc');
+      const state = decodeAmmV4Pool(buffer);
+
+      expect(state.status).toBe(BigInt(6));
+      expect(state.baseDecimal).toBe(BigInt(9));
+      expect(state.quoteDecimal).toBe(BigInt(6));
+      expect(state.swapFeeNumerator).toBe(BigInt(25));
+      expect(state.swapFeeDenominator).toBe(BigInt(10000));
+      expect(state.baseNeedTakePnl).toBe(BigInt(1_250_000_000));
+      expect(state.quoteNeedTakePnl).toBe(BigInt(187_500_000));
+      expect(state.baseVault.toString()).toBe('DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz');
+      expect(state.quoteVault.toString()).toBe('HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz');
+      expect(state.baseMint.toString()).toBe(WSOL);
+      expect(state.quoteMint.toString()).toBe(USDC);
+      expect(state.marketProgramId.toString()).toBe('srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX');
+      expect(state.lpReserve).toBe(BigInt(5_000_000_000_000));
+    });
+
+    it('should reject truncated account data', () => {
+      const { buffer } = loadFixture('amm-v4-sol-usdc');
+      expect(() => decodeAmmV4Pool(buffer.subarray(0, 700))).toThrow('expected at least 752 bytes');
+    });
+  });
+
+  describe('CPMM', () => {
+    it('should decode the pool state and config', () => {
+      const pool = decodeCpmmPool(loadFixture('cpmm-sol-usdc').buffer);
+      const config = decodeCpmmConfig(loadFixture('cpmm-config').buffer);
+
+      expect(pool.ammConfig.toString()).toBe(loadFixture('cpmm-config').address);
+      expect(pool.token0Mint.toString()).toBe(WSOL);
+      expect(pool.token1Mint.toString()).toBe(USDC);
+      expect(pool.mint0Decimals).toBe(9);
+      expect(pool.mint1Decimals).toBe(6);
+      expect(pool.lpMintDecimals).toBe(9);
+      expect(pool.status).toBe(0);
+      expect(pool.protocolFeesToken0).toBe(BigInt(42_000));
+      expect(pool.fundFeesToken1).toBe(BigInt(1_575));
+      expect(config.tradeFeeRate).toBe(BigInt(2500));
+      expect(config.protocolFeeRate).toBe(BigInt(120000));
+    });
+
+    it('should reject accounts with another discriminator', () => {
+      const config = loadFixture('cpmm-config').buffer;
+      const padded = Buffer.concat([config, Buffer.alloc(CPMM_POOL_LAYOUT.span - config.length)]);
+      expect(() => decodeCpmmPool(padded)).toThrow('discriminator');
+    });
+  });
+
+  describe('CLMM', () => {
+    it('should decode the pool state and config', () => {
+      const pool = decodeClmmPool(loadFixture('clmm-sol-usdc').buffer);
+      const config = decodeClmmConfig(loadFixture('clmm-config').buffer);
+
+      expect(pool.ammConfig.toString()).toBe(loadFixture('clmm-config').address);
+      expect(pool.tokenMint0.toString()).toBe(WSOL);
+      expect(pool.tokenMint1.toString()).toBe(USDC);
+      expect(pool.tokenVault0.toString()).toBe('6P4tvbLkRL7Ti5fV6ZvGmfVQHbUUxV6QmbUJW5ttLkpT');
+      expect(pool.mintDecimals0).toBe(9);
+      expect(pool.mintDecimals1).toBe(6);
+      expect(pool.tickSpacing).toBe(10);
+      expect(pool.liquidity).toBe(BigInt('48012345678901'));
+      expect(pool.sqrtPriceX64).toBe(BigInt('7144393258922745856'));
+      expect(pool.tickCurrent).toBe(-18971);
+      expect(pool.totalFeesToken0).toBe(BigInt(9_876_543_210));
+      expect(config.tradeFeeRate).toBe(500);
+      expect(config.tickSpacing).toBe(10);
+    });
+
+    it('should decode initialized ticks with signed liquidity', () => {
+      const tickArray = decodeClmmTickArray(loadFixture('clmm-tick-array').buffer);
+
+      expect(tickArray.poolId.toString()).toBe(loadFixture('clmm-sol-usdc').address);
+      expect(tickArray.startTickIndex).toBe(-19200);
+      expect(tickArray.ticks).toEqual([
+        { index: -19000, liquidityNet: BigInt('3000000000000'), liquidityGross: BigInt('3000000000000') },
+        { index: -18900, liquidityNet: BigInt('-1500000000000'), liquidityGross: BigInt('1500000000000') },
+      ]);
+    });
+
+    it('should derive the tick array address for the current tick', () => {
+      const pool = new PublicKey(loadFixture('clmm-sol-usdc').address);
+
+      expect(getTickArrayStartIndex(-18971, 10)).toBe(-19200);
+      expect(getTickArrayStartIndex(600, 10)).toBe(600);
+      expect(deriveTickArrayAddress(pool, -19200).toString()).toBe(loadFixture('clmm-tick-array').address);
+    });
+  });
+});
+
+describe('Raydium fetchers', () => {
+  it('should build AMM v4 PoolData net of pending PnL', async () => {
+    const fixture = loadFixture('amm-v4-sol-usdc');
+    const { connection, calls } = mockConnection({
+      [fixture.address]: accountInfo(fixture.buffer, fixture.programId),
+      DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz: accountInfo(tokenAccount(BigInt(101_250_000_000)), WSOL),
+      HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz: accountInfo(tokenAccount(BigInt(15_187_500_000)), WSOL),
+    });
+
+    const pool = await new RaydiumFetcher().fetchPoolById(connection, fixture.address);
+
+    expect(calls.getMultipleAccountsInfo).toBe(1);
+    expect(pool).not.toBeNull();
+    expect(pool!.dex).toBe('raydium');
+    expect(pool!.tokenA).toMatchObject({ mint: WSOL, symbol: 'SOL', decimals: 9 });
+    expect(pool!.tokenB).toMatchObject({ mint: USDC, symbol: 'USDC', decimals: 6 });
+    expect(pool!.reserves.tokenA).toBe(BigInt(100_000_000_000));
+    expect(pool!.reserves.tokenB).toBe(BigInt(15_000_000_000));
+    expect(pool!.price).toBeCloseTo(150, 6);
+    expect(pool!.fee).toBe(25);
+    expect(pool!.curve).toEqual({ kind: 'constant_product', feeRate: 2500 });
+  });
+
+  it('should build CPMM PoolData with the config fee rate', async () => {
+    const fixture = loadFixture('cpmm-sol-usdc');
+    const config = loadFixture('cpmm-config');
+    const state = decodeCpmmPool(fixture.buffer);
+    const { connection, calls } = mockConnection({
+      [fixture.address]: accountInfo(fixture.buffer, fixture.programId),
+      [config.address]: accountInfo(config.buffer, config.programId),
+      [state.token0Vault.toString()]: accountInfo(tokenAccount(BigInt(2_000_052_500)), WSOL),
+      [state.token1Vault.toString()]: accountInfo(tokenAccount(BigInt(300_007_875)), WSOL),
+    });
+
+    const pool = await new RaydiumCpmmFetcher().fetchPoolById(connection, fixture.address);
+
+    expect(calls.getMultipleAccountsInfo).toBe(1);
+    expect(pool!.dex).toBe('raydium_cpmm');
+    expect(pool!.reserves.tokenA).toBe(BigInt(2_000_000_000));
+    expect(pool!.reserves.tokenB).toBe(BigInt(300_000_000));
+    expect(pool!.price).toBeCloseTo(150, 6);
+    expect(pool!.fee).toBe(25);
+  });
+
+  it('should build CLMM PoolData with ticks from the surrounding tick arrays', async () => {
+    const fixture = loadFixture('clmm-sol-usdc');
+    const config = loadFixture('clmm-config');
+    const tickArray = loadFixture('clmm-tick-array');
+    const state = decodeClmmPool(fixture.buffer);
+    const { connection, calls } = mockConnection({
+      [fixture.address]: accountInfo(fixture.buffer, fixture.programId),
+      [config.address]: accountInfo(config.buffer, config.programId),
+      [tickArray.address]: accountInfo(tickArray.buffer, tickArray.programId),
+      [state.tokenVault0.toString()]: accountInfo(tokenAccount(BigInt(50_000_000_000)), WSOL),
+      [state.tokenVault1.toString()]: accountInfo(tokenAccount(BigInt(7_500_000_000)), WSOL),
+    });
+
+    const pool = await new RaydiumClmmFetcher().fetchPoolById(connection, fixture.address);
+
+    // One batch for vaults + config, one for tick arrays
+    expect(calls.getMultipleAccountsInfo).toBe(2);
+    expect(pool!.dex).toBe('raydium_clmm');
+    expect(pool!.price).toBeCloseTo(150, 6);
+    expect(pool!.fee).toBe(5);
+    expect(pool!.curve).toMatchObject({
+      kind: 'concentrated',
+      tickCurrentIndex: -18971,
+      tickSpacing: 10,
+      feeRate: 500,
+      ticks: [
+        { index: -19000, liquidityNet: BigInt('3000000000000') },
+        { index: -18900, liquidityNet: BigInt('-1500000000000') },
+      ],
+    });
+  });
+
+  it('should skip pools owned by another program', async () => {
+    const fixture = loadFixture('cpmm-sol-usdc');
+    const { connection } = mockConnection({
+      [fixture.address]: accountInfo(fixture.buffer, 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK'),
+    });
+
+    expect(await new RaydiumCpmmFetcher().fetchPoolById(connection, fixture.address)).toBeNull();
+  });
+});
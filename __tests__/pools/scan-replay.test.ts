@@ -0,0 +1,130 @@
+/**
+ * Tests for scan snapshot record/replay
+ * Records a scan against fixture accounts, then re-runs detection offline
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  ScanSnapshot,
+  recordScan,
+  replayScan,
+  serializeSnapshot,
+  parseSnapshot,
+} from '../../app/lib/pools/replay';
+import { decodeCpmmPool } from '../../app/lib/pools/layouts/raydium';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+
+function loadFixture(name: string): { address: string; programId: string; buffer: Buffer } {
+  const fixture = JSON.parse(readFileSync(join(__dirname, '../fixtures/raydium', `${name}.json`), 'utf8'));
+  return { ...fixture, buffer: Buffer.from(fixture.data, 'base64') };
+}
+
+function tokenAccount(amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+function accountInfo(data: Buffer, owner: string): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+/**
+ * AMM v4 SOL/USDC at 150 and CPMM SOL/USDC at 160: a simple two-pool arbitrage
+ */
+function marketConnection() {
+  const amm = loadFixture('amm-v4-sol-usdc');
+  const cpmm = loadFixture('cpmm-sol-usdc');
+  const cpmmConfig = loadFixture('cpmm-config');
+  const cpmmState = decodeCpmmPool(cpmm.buffer);
+
+  const accounts: Record<string, AccountInfo<Buffer>> = {
+    DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz: accountInfo(tokenAccount(BigInt(10_001_250_000_000)), WSOL),
+    HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz: accountInfo(tokenAccount(BigInt(1_500_187_500_000)), WSOL),
+    [cpmmConfig.address]: accountInfo(cpmmConfig.buffer, cpmmConfig.programId),
+    [cpmmState.token0Vault.toString()]: accountInfo(tokenAccount(BigInt(10_000_052_500_000)), WSOL),
+    [cpmmState.token1Vault.toString()]: accountInfo(tokenAccount(BigInt(1_600_000_007_875)), WSOL),
+  };
+  const programAccounts: Record<string, Array<{ address: string; buffer: Buffer }>> = {
+    [amm.programId]: [amm],
+    [cpmm.programId]: [cpmm],
+  };
+
+  const calls = { total: 0 };
+  const connection = {
+    rpcEndpoint: 'http://localhost:8899',
+    getProgramAccounts: async (programId: PublicKey) => {
+      calls.total++;
+      return (programAccounts[programId.toString()] || []).map(({ address, buffer }) => ({
+        pubkey: new PublicKey(address),
+        account: accountInfo(buffer, programId.toString()),
+      }));
+    },
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+      calls.total++;
+      return keys.map(key => accounts[key.toString()] ?? null);
+    },
+  } as unknown as Connection;
+
+  return { connection, calls };
+}
+
+describe('Scan replay', () => {
+  const config = { enabledDEXs: ['raydium', 'raydium_cpmm'], showUnprofitable: false };
+  let snapshot: ScanSnapshot;
+
+  beforeAll(async () => {
+    delete process.env.NEXT_PUBLIC_HELIUS_API_KEY;
+    delete process.env.NEXT_PUBLIC_BIRDEYE_API_KEY;
+
+    const { connection } = marketConnection();
+    const recorded = await recordScan(connection, config, 'two-pool SOL/USDC');
+    expect(recorded.state.pools).toHaveLength(2);
+
+    // Round-trip through the file format
+    snapshot = parseSnapshot(serializeSnapshot(recorded.snapshot));
+  });
+
+  it('should record raw program accounts and vault balances', () => {
+    const methods = Object.keys(snapshot.rpc).map(key => key.slice(0, key.indexOf('(')));
+
+    expect(snapshot.label).toBe('two-pool SOL/USDC');
+    expect(snapshot.rpcEndpoint).toBe('http://localhost:8899');
+    expect(methods.filter(method => method === 'getProgramAccounts')).toHaveLength(2);
+    expect(methods).toContain('getMultipleAccountsInfo');
+  });
+
+  it('should rebuild the same pools and detect the arbitrage offline', async () => {
+    const result = await replayScan(snapshot);
+
+    expect(result.state.errors).toEqual([]);
+    expect(result.state.pools.map(pool => pool.dex)).toEqual(['raydium', 'raydium_cpmm']);
+    expect(result.state.pools.every(pool => pool.lastUpdated.toISOString() === snapshot.recordedAt)).toBe(true);
+    expect(result.opportunities.length).toBeGreaterThan(0);
+    expect(result.opportunities[0].steps.map(step => step.dex).sort()).toEqual(['raydium', 'raydium_cpmm']);
+    expect(result.riskAnalyses).toHaveLength(result.opportunities.length);
+  });
+
+  it('should be deterministic across replays', async () => {
+    const first = await replayScan(snapshot);
+    const second = await replayScan(snapshot);
+
+    expect(first.opportunities.map(o => o.id)).toEqual(second.opportunities.map(o => o.id));
+    expect(serializeResult(first)).toEqual(serializeResult(second));
+  });
+
+  it('should fail instead of going live for unrecorded requests', async () => {
+    const result = await replayScan({ ...snapshot, rpc: {} });
+
+    expect(result.state.pools).toEqual([]);
+    expect(result.state.errors.some(error => error.includes('no recorded response'))).toBe(true);
+  });
+});
+
+function serializeResult(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) => (typeof entry === 'bigint' ? entry.toString() : entry));
+}
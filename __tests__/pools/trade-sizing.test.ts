@@ -0,0 +1,172 @@
+/**
+ * Tests for the optimal trade-size search
+ * Two constant-product pools in a row compose into one constant-product curve with
+ * virtual reserves X = a1*b2/(b1+b2) and Y = a2*b1/(b1+b2), whose profit peaks at
+ * sqrt(X*Y) - X. The search is checked against that closed form.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Connection } from '@solana/web3.js';
+import { optimizeTradeSize, RouteSimulator } from '../../app/lib/pools/trade-sizing';
+import { ArbitrageDetector } from '../../app/lib/pools/arbitrage';
+import { createFixedClock } from '../../app/lib/pools/clock';
+import { DEFAULT_SCANNER_CONFIG, PoolData, TokenInfo, WSOL_MINT } from '../../app/lib/pools/types';
+
+interface TwoPoolRoute {
+  a1: number; // Start token in the buy pool
+  b1: number; // Intermediate token in the buy pool
+  b2: number; // Intermediate token in the sell pool
+  a2: number; // Start token in the sell pool
+}
+
+// Exact fee-free constant-product hops, as the quoter computes them
+function simulateTwoPools(route: TwoPoolRoute): RouteSimulator {
+  const [a1, b1, b2, a2] = [route.a1, route.b1, route.b2, route.a2].map(value => BigInt(value));
+  return amountIn => {
+    const intermediate = (b1 * amountIn) / (a1 + amountIn);
+    return (a2 * intermediate) / (b2 + intermediate);
+  };
+}
+
+function closedForm(route: TwoPoolRoute) {
+  const x = (route.a1 * route.b2) / (route.b1 + route.b2);
+  const y = (route.a2 * route.b1) / (route.b1 + route.b2);
+  const optimalInput = Math.sqrt(x * y) - x;
+  return { optimalInput, optimalProfit: (y * optimalInput) / (x + optimalInput) - optimalInput };
+}
+
+// SOL at 150 USDC in one pool and 2% cheaper in the other
+const SOL_ROUTE: TwoPoolRoute = { a1: 1_000e9, b1: 150_000e6, b2: 150_000e6, a2: 1_020e9 };
+
+describe('optimizeTradeSize', () => {
+  it('should find the profit maximum of a two-pool route', () => {
+    const expected = closedForm(SOL_ROUTE);
+    const sizing = optimizeTradeSize(simulateTwoPools(SOL_ROUTE), { decimals: 9 })!;
+
+    // ~4.975 SOL in; the search stops within 0.1% of the size
+    expect(Math.abs(Number(sizing.optimalInputAmount) - expected.optimalInput) / expected.optimalInput).toBeLessThan(0.002);
+    expect(sizing.optimalProfit).toBeCloseTo(expected.optimalProfit / 1e9, 6);
+    expect(sizing.optimalOutputAmount - sizing.optimalInputAmount).toBeGreaterThan(BigInt(0));
+    expect(Math.abs(sizing.marginalProfit)).toBeLessThan(1e-3);
+    expect(sizing.iterations).toBeLessThan(100);
+  });
+
+  it('should report a profit curve that peaks at the optimum', () => {
+    const sizing = optimizeTradeSize(simulateTwoPools(SOL_ROUTE), { decimals: 9, curvePoints: 8 })!;
+    const profits = sizing.profitCurve.map(point => point.profit);
+
+    expect(sizing.profitCurve).toHaveLength(8);
+    expect(Math.max(...profits)).toBeLessThanOrEqual(sizing.optimalProfit + 1e-9);
+    // Samples run to twice the optimum, so the middle one sits on it
+    expect(sizing.profitCurve[3].inputAmount).toBe(sizing.optimalInputAmount);
+  });
+
+  it('should scale the default bounds by the start token decimals', () => {
+    // USDC route whose optimum is well under 0.001 SOL worth of raw units
+    const route: TwoPoolRoute = { a1: 100e6, b1: 100e6, b2: 100e6, a2: 102e6 };
+    const expected = closedForm(route);
+    const sizing = optimizeTradeSize(simulateTwoPools(route), { decimals: 6 })!;
+
+    expect(expected.optimalInput).toBeLessThan(1_000_000);
+    expect(Math.abs(Number(sizing.optimalInputAmount) - expected.optimalInput) / expected.optimalInput).toBeLessThan(0.002);
+    expect(sizing.optimalProfit).toBeCloseTo(expected.optimalProfit / 1e6, 4);
+  });
+
+  describe('boundaries', () => {
+    it('should stop at the upper bound when profit keeps rising', () => {
+      const sizing = optimizeTradeSize(amountIn => (amountIn * BigInt(101)) / BigInt(100), {
+        decimals: 9,
+        maxInput: BigInt(50_000_000_000),
+      })!;
+
+      expect(sizing.optimalInputAmount).toBe(BigInt(50_000_000_000));
+      expect(sizing.optimalProfit).toBeCloseTo(0.5, 9);
+      expect(sizing.marginalProfit).toBeCloseTo(0.01, 6);
+    });
+
+    it('should stop at the largest fillable size when deeper sizes cannot fill', () => {
+      const capacity = BigInt(3_000_000_000);
+      const sizing = optimizeTradeSize(
+        amountIn => (amountIn > capacity ? null : (amountIn * BigInt(101)) / BigInt(100)),
+        { decimals: 9 }
+      )!;
+
+      expect(sizing.optimalInputAmount).toBeLessThanOrEqual(capacity);
+      expect(Number(sizing.optimalInputAmount)).toBeGreaterThan(Number(capacity) * 0.998);
+      expect(sizing.profitCurve.every(point => point.inputAmount <= capacity)).toBe(true);
+    });
+
+    it('should return null when even the minimum size cannot fill', () => {
+      expect(optimizeTradeSize(() => null, { decimals: 9 })).toBeNull();
+      expect(optimizeTradeSize(amountIn => amountIn, { minInput: BigInt(10), maxInput: BigInt(5) })).toBeNull();
+    });
+  });
+
+  it('should settle on the minimum size of an unprofitable route', () => {
+    const losing: TwoPoolRoute = { a1: 1_000e9, b1: 150_000e6, b2: 150_000e6, a2: 995e9 };
+    const sizing = optimizeTradeSize(simulateTwoPools(losing), { decimals: 9 })!;
+
+    expect(sizing.optimalInputAmount).toBe(BigInt(1_000_000));
+    expect(sizing.optimalProfit).toBeLessThan(0);
+    expect(sizing.marginalProfit).toBeLessThan(0);
+  });
+});
+
+describe('ArbitrageDetector sizing', () => {
+  const USDC: TokenInfo = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+  const USDT: TokenInfo = { mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', symbol: 'USDT', decimals: 6 };
+  const SOL: TokenInfo = { mint: WSOL_MINT, symbol: 'SOL', decimals: 9 };
+  const config = { ...DEFAULT_SCANNER_CONFIG, minProfitThreshold: 0, minProfitPercent: 0 };
+
+  function pair(id: string, dex: PoolData['dex'], tokenA: TokenInfo, tokenB: TokenInfo, reserveA: number, reserveB: number): PoolData {
+    return {
+      id,
+      dex,
+      tokenA,
+      tokenB,
+      reserves: { tokenA: BigInt(reserveA), tokenB: BigInt(reserveB) },
+      price: reserveB / Math.pow(10, tokenB.decimals) / (reserveA / Math.pow(10, tokenA.decimals)),
+      fee: 0,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(0),
+      poolAddress: `${id}-address`,
+      curve: { kind: 'constant_product', feeRate: 0 },
+    };
+  }
+
+  function stablePair(id: string, dex: PoolData['dex'], usdc: number, usdt: number): PoolData {
+    return pair(id, dex, USDC, USDT, usdc, usdt);
+  }
+
+  it('should size a USDC route in USDC and value its profit in SOL', async () => {
+    // SOL at 150 USDC prices the USDC profit
+    const pools = [
+      stablePair('ray', 'raydium', 1_000_000e6, 1_000_000e6),
+      stablePair('orca', 'orca', 1_000_000e6, 1_020_000e6),
+      pair('sol-usdc', 'meteora', SOL, USDC, 10_000e9, 1_500_000e6),
+    ];
+    const detector = new ArbitrageDetector(pools, config, {} as Connection, undefined, createFixedClock(0));
+
+    // The same loop also closes from USDT; take the one starting in USDC
+    const opportunity = (await detector.detectOpportunities()).find(opp => opp.path.startToken.mint === USDC.mint)!;
+    // Sell USDC into the USDT-rich pool, buy it back in the balanced one
+    const expected = closedForm({ a1: 1_000_000e6, b1: 1_020_000e6, b2: 1_000_000e6, a2: 1_000_000e6 });
+
+    expect(opportunity).toBeDefined();
+    expect(Math.abs(Number(opportunity.sizing!.optimalInputAmount) - expected.optimalInput) / expected.optimalInput).toBeLessThan(0.002);
+    // ~4,926 USDC in for ~12.3 USDC out, worth ~0.082 SOL
+    expect(opportunity.sizing!.optimalProfit).toBeCloseTo(expected.optimalProfit / 1e6, 2);
+    expect(opportunity.profit).toBeCloseTo(expected.optimalProfit / 1e6 / 150, 4);
+    expect(opportunity.netProfit).toBeCloseTo(opportunity.profit - opportunity.gasEstimate / 1e9, 9);
+    expect(opportunity.profitPercent).toBeCloseTo((expected.optimalProfit / expected.optimalInput) * 100, 3);
+  });
+
+  it('should not report a route whose profit cannot be valued in SOL', async () => {
+    const pools = [stablePair('ray', 'raydium', 1_000_000e6, 1_000_000e6), stablePair('orca', 'orca', 1_000_000e6, 1_020_000e6)];
+    const detector = new ArbitrageDetector(pools, config, {} as Connection, undefined, createFixedClock(0));
+
+    expect(await detector.detectOpportunities()).toEqual([]);
+  });
+});
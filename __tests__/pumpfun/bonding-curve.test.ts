@@ -0,0 +1,249 @@
+/**
+ * Tests for pump.fun bonding curve quoting, buy/sell instructions and the
+ * curve-or-Raydium trade planning used by the sniper
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { NATIVE_MINT, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  BONDING_CURVE_LAYOUT,
+  PUMPFUN_GLOBAL_LAYOUT,
+  PUMPFUN_PROGRAM_ID,
+  decodeBondingCurve,
+  deriveBondingCurve,
+  derivePumpFunGlobal,
+  quoteBondingCurveBuy,
+  quoteBondingCurveSell,
+  withMaxSlippage,
+  withMinSlippage,
+} from '../../app/lib/pumpfun/bonding-curve';
+import { evaluateExit, loadPumpFunMarket, planPumpFunBuy, planPumpFunSell } from '../../app/lib/pumpfun/trade';
+import { AMM_V4_POOL_LAYOUT, RAYDIUM_AMM_V4_PROGRAM_ID } from '../../app/lib/pools/layouts/raydium';
+import { MARKET_STATE_LAYOUT, OPENBOOK_PROGRAM_ID, deriveMarketVaultSigner } from '../../app/lib/pools/layouts/openbook';
+
+const MINT = Keypair.generate().publicKey;
+const CREATOR = Keypair.generate().publicKey;
+const FEE_RECIPIENT = Keypair.generate().publicKey;
+const USER = Keypair.generate().publicKey;
+
+// Launch state of a pump.fun curve: 30 SOL / 1.073B tokens virtual, 793.1M tokens sellable
+const VIRTUAL_SOL = BigInt(30_000_000_000);
+const VIRTUAL_TOKENS = BigInt('1073000000000000');
+const REAL_TOKENS = BigInt('793100000000000');
+const FEE_BPS = BigInt(100);
+
+function accountInfo(data: Buffer, owner: string | PublicKey): AccountInfo<Buffer> {
+  return { data, owner: new PublicKey(owner), executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+function mockConnection(accounts: Record<string, AccountInfo<Buffer>>): Connection {
+  return {
+    getAccountInfo: async (key: PublicKey) => accounts[key.toString()] ?? null,
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(key => accounts[key.toString()] ?? null),
+  } as unknown as Connection;
+}
+
+function globalAccount(): Buffer {
+  const layout = PUMPFUN_GLOBAL_LAYOUT;
+  const data = Buffer.alloc(layout.span + 256);
+  Buffer.from([167, 232, 232, 177, 200, 108, 114, 127]).copy(data, 0);
+  FEE_RECIPIENT.toBuffer().copy(data, layout.offsetOf('feeRecipient'));
+  data.writeBigUInt64LE(REAL_TOKENS, layout.offsetOf('initialRealTokenReserves'));
+  data.writeBigUInt64LE(BigInt(95), layout.offsetOf('feeBasisPoints'));
+  data.writeBigUInt64LE(BigInt(5), layout.offsetOf('creatorFeeBasisPoints'));
+  return data;
+}
+
+function curveAccount(options: { solBought?: bigint; complete?: boolean } = {}): Buffer {
+  const layout = BONDING_CURVE_LAYOUT;
+  const solBought = options.solBought ?? BigInt(0);
+  // Keep virtual SOL * virtual tokens constant, as the program does
+  const virtualSol = VIRTUAL_SOL + solBought;
+  const virtualTokens = VIRTUAL_SOL * VIRTUAL_TOKENS / virtualSol;
+
+  const data = Buffer.alloc(layout.span + 8);
+  Buffer.from([23, 183, 248, 55, 96, 216, 172, 96]).copy(data, 0);
+  data.writeBigUInt64LE(virtualTokens, layout.offsetOf('virtualTokenReserves'));
+  data.writeBigUInt64LE(virtualSol, layout.offsetOf('virtualSolReserves'));
+  data.writeBigUInt64LE(REAL_TOKENS - (VIRTUAL_TOKENS - virtualTokens), layout.offsetOf('realTokenReserves'));
+  data.writeBigUInt64LE(solBought, layout.offsetOf('realSolReserves'));
+  data.writeUInt8(options.complete ? 1 : 0, layout.offsetOf('complete'));
+  CREATOR.toBuffer().copy(data, layout.offsetOf('creator'));
+  return data;
+}
+
+function curveAccounts(curve: Buffer): Record<string, AccountInfo<Buffer>> {
+  return {
+    [derivePumpFunGlobal().toString()]: accountInfo(globalAccount(), PUMPFUN_PROGRAM_ID),
+    [deriveBondingCurve(MINT).toString()]: accountInfo(curve, PUMPFUN_PROGRAM_ID),
+    [MINT.toString()]: accountInfo(Buffer.alloc(82), TOKEN_PROGRAM_ID),
+  };
+}
+
+function tokenAccount(amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+/**
+ * A graduated MINT/SOL AMM v4 pool holding 200M tokens against 85 SOL, and its market
+ */
+function raydiumAccounts(): { pool: PublicKey; accounts: Record<string, AccountInfo<Buffer>> } {
+  const pool = Keypair.generate().publicKey;
+  const market = Keypair.generate().publicKey;
+  const baseVault = Keypair.generate().publicKey;
+  const quoteVault = Keypair.generate().publicKey;
+
+  const layout = AMM_V4_POOL_LAYOUT;
+  const data = Buffer.alloc(layout.span);
+  data.writeBigUInt64LE(BigInt(6), layout.offsetOf('status'));
+  data.writeBigUInt64LE(BigInt(25), layout.offsetOf('swapFeeNumerator'));
+  data.writeBigUInt64LE(BigInt(10_000), layout.offsetOf('swapFeeDenominator'));
+  baseVault.toBuffer().copy(data, layout.offsetOf('baseVault'));
+  quoteVault.toBuffer().copy(data, layout.offsetOf('quoteVault'));
+  MINT.toBuffer().copy(data, layout.offsetOf('baseMint'));
+  NATIVE_MINT.toBuffer().copy(data, layout.offsetOf('quoteMint'));
+  market.toBuffer().copy(data, layout.offsetOf('marketId'));
+  new PublicKey(OPENBOOK_PROGRAM_ID).toBuffer().copy(data, layout.offsetOf('marketProgramId'));
+
+  const marketData = Buffer.alloc(MARKET_STATE_LAYOUT.span);
+  let nonce = 0;
+  for (; ; nonce++) {
+    try {
+      deriveMarketVaultSigner(market, BigInt(nonce), new PublicKey(OPENBOOK_PROGRAM_ID));
+      break;
+    } catch {
+      // Off-curve nonces are rejected; try the next one
+    }
+  }
+  marketData.writeBigUInt64LE(BigInt(nonce), MARKET_STATE_LAYOUT.offsetOf('vaultSignerNonce'));
+
+  return {
+    pool,
+    accounts: {
+      [pool.toString()]: accountInfo(data, RAYDIUM_AMM_V4_PROGRAM_ID),
+      [market.toString()]: accountInfo(marketData, OPENBOOK_PROGRAM_ID),
+      [baseVault.toString()]: accountInfo(tokenAccount(BigInt('200000000000000')), TOKEN_PROGRAM_ID),
+      [quoteVault.toString()]: accountInfo(tokenAccount(BigInt(85_000_000_000)), TOKEN_PROGRAM_ID),
+    },
+  };
+}
+
+describe('pump.fun bonding curve', () => {
+  it('quotes buys and sells from the virtual reserves', () => {
+    const curve = decodeBondingCurve(curveAccount());
+    expect(curve.creator.equals(CREATOR)).toBe(true);
+
+    // 1 SOL including the 1% fee buys roughly 34.3M tokens at launch
+    const buy = quoteBondingCurveBuy(curve, BigInt(1_000_000_000), FEE_BPS);
+    expect(Number(buy.amountOut) / 1e6).toBeCloseTo(34_281_150, 0);
+    expect(buy.amountIn).toBeLessThanOrEqual(BigInt(1_000_000_000));
+    expect(buy.amountIn).toBeGreaterThan(BigInt(999_999_000));
+    expect(buy.feeAmount).toBe(BigInt(9_900_991));
+    expect(buy.priceImpact).toBeCloseTo(0.0323, 3);
+
+    // Nothing has been bought yet, so there is no SOL to pay a seller from
+    const unfunded = quoteBondingCurveSell(curve, BigInt(1_000_000_000_000), FEE_BPS);
+    expect(unfunded.amountOut).toBe(BigInt(0));
+    expect(unfunded.complete).toBe(false);
+
+    // 1M tokens after 10 SOL of buys: 40 SOL * 1M / (804.75M + 1M), less the 1% fee
+    const sell = quoteBondingCurveSell(decodeBondingCurve(curveAccount({ solBought: BigInt(10_000_000_000) })), BigInt(1_000_000_000_000), FEE_BPS);
+    expect(sell.amountOut + sell.feeAmount).toBe(BigInt(49_643_189));
+    expect(sell.feeAmount).toBe(BigInt(496_432));
+    expect(sell.complete).toBe(true);
+
+    // A buy larger than what is left on the curve is capped at the real reserves
+    const whale = quoteBondingCurveBuy(curve, BigInt(500_000_000_000), FEE_BPS);
+    expect(whale.amountOut).toBe(REAL_TOKENS);
+    expect(whale.complete).toBe(false);
+
+    const graduated = decodeBondingCurve(curveAccount({ complete: true }));
+    expect(quoteBondingCurveBuy(graduated, BigInt(1_000_000_000), FEE_BPS).amountOut).toBe(BigInt(0));
+    expect(withMaxSlippage(BigInt(1_000), 500)).toBe(BigInt(1_050));
+    expect(withMinSlippage(BigInt(1_000), 500)).toBe(BigInt(950));
+  });
+
+  it('builds a curve buy with a max SOL cost and a sell with a min SOL output', async () => {
+    const connection = mockConnection(curveAccounts(curveAccount({ solBought: BigInt(10_000_000_000) })));
+
+    const buy = await planPumpFunBuy(connection, {
+      mint: MINT.toString(),
+      user: USER,
+      amount: BigInt(500_000_000),
+      slippageBps: 1_000,
+    });
+    expect(buy.venue).toBe('bonding_curve');
+    expect(buy.limit).toBe(buy.quote.amountIn * BigInt(11) / BigInt(10));
+    expect(buy.instructions).toHaveLength(2);
+
+    const instruction = buy.instructions[1];
+    expect(instruction.programId.toString()).toBe(PUMPFUN_PROGRAM_ID);
+    expect(Array.from(instruction.data.subarray(0, 8))).toEqual([102, 6, 61, 18, 1, 218, 235, 234]);
+    expect(instruction.data.readBigUInt64LE(8)).toBe(buy.quote.amountOut);
+    expect(instruction.data.readBigUInt64LE(16)).toBe(buy.limit);
+    expect(instruction.keys[1].pubkey.equals(FEE_RECIPIENT)).toBe(true);
+    expect(instruction.keys[5].pubkey.equals(getAssociatedTokenAddressSync(MINT, USER))).toBe(true);
+    expect(instruction.keys[6]).toMatchObject({ pubkey: USER, isSigner: true, isWritable: true });
+
+    const sell = await planPumpFunSell(connection, {
+      mint: MINT.toString(),
+      user: USER,
+      amount: buy.quote.amountOut,
+      slippageBps: 1_000,
+    });
+    expect(sell.instructions).toHaveLength(1);
+    expect(Array.from(sell.instructions[0].data.subarray(0, 8))).toEqual([51, 230, 133, 164, 1, 127, 131, 173]);
+    expect(sell.instructions[0].data.readBigUInt64LE(16)).toBe(sell.quote.amountOut * BigInt(9) / BigInt(10));
+    // Round trip loses the fee on both legs
+    expect(sell.quote.amountOut).toBeLessThan(buy.quote.amountIn);
+  });
+
+  it('routes graduated tokens to the recorded Raydium pool', async () => {
+    const raydium = raydiumAccounts();
+    const connection = mockConnection({
+      ...curveAccounts(curveAccount({ complete: true })),
+      ...raydium.accounts,
+    });
+    const request = { mint: MINT.toString(), user: USER, amount: BigInt(1_000_000_000), slippageBps: 300 };
+
+    await expect(planPumpFunBuy(connection, request)).rejects.toThrow('no Raydium pool is recorded');
+
+    const buy = await planPumpFunBuy(connection, { ...request, raydiumPool: raydium.pool.toString() });
+    expect(buy.venue).toBe('raydium');
+    // 1 SOL less the 0.25% fee against 85 SOL / 200M tokens
+    expect(buy.quote.amountOut).toBe(BigInt('2319834878920'));
+    const swap = buy.instructions.find(ix => ix.programId.toString() === RAYDIUM_AMM_V4_PROGRAM_ID)!;
+    expect(swap.data.readBigUInt64LE(1)).toBe(BigInt(1_000_000_000));
+    expect(swap.data.readBigUInt64LE(9)).toBe(buy.limit);
+    expect(buy.limit).toBe(buy.quote.amountOut * BigInt(97) / BigInt(100));
+    // Wrap, sync, create the token ATA, swap, unwrap
+    expect(buy.instructions).toHaveLength(6);
+  });
+
+  it('triggers take-profit and stop-loss exits from sell quotes', async () => {
+    const entry = decodeBondingCurve(curveAccount());
+    const buy = quoteBondingCurveBuy(entry, BigInt(1_000_000_000), FEE_BPS);
+    const position = { mint: MINT.toString(), tokenAmount: buy.amountOut, costLamports: buy.amountIn };
+    const rules = { takeProfitPct: 100, stopLossPct: 30 };
+
+    const marketAt = async (solBought: bigint) =>
+      loadPumpFunMarket(mockConnection(curveAccounts(curveAccount({ solBought }))), MINT.toString());
+
+    // Straight after entry the position is down only the fees
+    const flat = evaluateExit(position, await marketAt(BigInt(1_000_000_000)), rules);
+    expect(flat.trigger).toBeNull();
+    expect(flat.pnlPct).toBeCloseTo(-2, 0);
+
+    // 40 more SOL into the curve more than doubles the price
+    const up = evaluateExit(position, await marketAt(BigInt(41_000_000_000)), rules);
+    expect(up.trigger).toBe('take_profit');
+    expect(up.pnlPct).toBeGreaterThan(100);
+
+    // The entry SOL has left the curve again
+    const down = evaluateExit(position, await marketAt(BigInt(0)), rules);
+    expect(down.trigger).toBe('stop_loss');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for rule-based pump.fun launch scoring and offline replay of recorded streams
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PumpFunFilterResult, PumpFunTransactionResult } from '../../app/lib/pumpfun/quicknode-filter';
+import { SnipingAnalysisSchema } from '../../app/lib/pumpfun/ai-analysis';
+import {
+  LaunchScorer,
+  parseRecordedStream,
+  replayLaunches,
+  sweepThresholds,
+  toSnipingAnalysis,
+} from '../../app/lib/pumpfun/launch-scorer';
+
+const T = 1_700_000_000;
+const CREATE_FEE = 0.02;
+
+function creation(mint: string, creator: string, timestamp: number, devTokens = 0, devSol = 0): PumpFunTransactionResult {
+  return {
+    signature: `create-${mint}`,
+    operation: 'tokenCreation',
+    timestamp,
+    accounts: { owner: creator },
+    info: {
+      tokenMint: mint,
+      changes: { sol: -(devSol + CREATE_FEE), token: devTokens },
+      bondingCurve: { k: 32190005730, initialReserves: 30, createFee: CREATE_FEE },
+    },
+  };
+}
+
+function trade(
+  operation: 'buy' | 'sell',
+  mint: string,
+  wallet: string,
+  sol: number,
+  tokens: number,
+  timestamp: number
+): PumpFunTransactionResult {
+  return {
+    signature: `${operation}-${mint}-${wallet}-${timestamp}`,
+    operation,
+    timestamp,
+    accounts: { owner: wallet },
+    info: {
+      tokenAddress: mint,
+      changes: operation === 'buy' ? { sol: -sol, token: tokens } : { sol, token: -tokens },
+    },
+  };
+}
+
+function migration(mint: string, timestamp: number): PumpFunTransactionResult {
+  return { signature: `migrate-${mint}`, operation: 'migration', timestamp, accounts: {}, info: { tokenAddress: mint, stage: 'pre' } };
+}
+
+function block(slot: number, blockTime: number, transactions: PumpFunTransactionResult[]): PumpFunFilterResult {
+  return { slot, blockTime, transactions };
+}
+
+/**
+ * Two launches: GOOD from a creator with a graduated token, spreading over 25 buyers;
+ * BAD from a serial creator, bundled in the create slot, with the dev dumping
+ */
+function recording(): PumpFunFilterResult[] {
+  const blocks: PumpFunFilterResult[] = [
+    block(100, T - 3000, [creation('old-1', 'rugger', T - 3000)]),
+    block(110, T - 2000, [creation('old-2', 'rugger', T - 2000)]),
+    block(120, T - 1000, [creation('old-3', 'rugger', T - 1000)]),
+
+    // 20M dev buy (2%) in the create
+    block(1000, T, [creation('GOOD', 'builder', T, 20_000_000, 0.6)]),
+    // 150M dev buy (15%) plus three wallets in the same slot
+    block(1500, T + 30, [
+      creation('BAD', 'rugger', T + 30, 150_000_000, 4.5),
+      trade('buy', 'BAD', 'sniper-1', 1, 50_000_000, T + 30),
+      trade('buy', 'BAD', 'sniper-2', 1, 50_000_000, T + 30),
+      trade('buy', 'BAD', 'sniper-3', 1, 50_000_000, T + 30),
+    ]),
+    block(1600, T + 120, [trade('sell', 'BAD', 'rugger', 4, 150_000_000, T + 120)]),
+  ];
+
+  // 25 buyers of 0.5 SOL / 10M tokens each across the first 250 seconds
+  for (let i = 0; i < 25; i++) {
+    blocks.push(block(1010 + i * 20, T + 10 * (i + 1), [trade('buy', 'GOOD', `buyer-${i}`, 0.5, 10_000_000, T + 10 * (i + 1))]));
+  }
+  // Outside the 5 minute window
+  blocks.push(block(2000, T + 400, [trade('buy', 'GOOD', 'whale', 50, 300_000_000, T + 400)]));
+  blocks.push(block(3000, T + 900, [migration('GOOD', T + 900)]));
+
+  return blocks.sort((a, b) => a.slot - b.slot);
+}
+
+describe('LaunchScorer', () => {
+  it('aggregates the launch window into features', () => {
+    const scorer = new LaunchScorer({}, { builder: { launches: 2, graduated: 1 } });
+    scorer.ingestAll(recording());
+
+    const good = scorer.getFeatures('GOOD')!;
+    expect(good.creatorLaunches).toBe(2);
+    expect(good.creatorGraduations).toBe(1);
+    expect(good.devBuyPct).toBeCloseTo(2, 6);
+    expect(good.trades).toBe(26); // The whale buy is past the window
+    expect(good.uniqueBuyers).toBe(25);
+    expect(good.top10HolderPct).toBeCloseTo(11, 6);
+    expect(good.bundledWallets).toBe(0);
+    expect(good.elapsedMinutes).toBe(5);
+    expect(good.velocitySolPerMinute).toBeCloseTo((0.6 + 12.5) / 5, 6);
+
+    const bad = scorer.getFeatures('BAD')!;
+    expect(bad.creatorLaunches).toBe(3);
+    expect(bad.creatorGraduations).toBe(0);
+    expect(bad.devBuyPct).toBeCloseTo(15, 6);
+    expect(bad.devSold).toBe(true);
+    expect(bad.bundledWallets).toBe(3);
+    expect(bad.bundledPct).toBeCloseTo(15, 6);
+
+    // Creator history keeps accumulating for the launches that follow
+    expect(scorer.getCreatorHistory()).toEqual({
+      builder: { launches: 3, graduated: 2 },
+      rugger: { launches: 4, graduated: 0 },
+    });
+  });
+
+  it('scores launches and maps them onto the sniping analysis shape', () => {
+    const scorer = new LaunchScorer({}, { builder: { launches: 2, graduated: 1 } });
+    scorer.ingestAll(recording());
+
+    const good = scorer.score('GOOD')!;
+    expect(good.verdict).toBe('snipe');
+    expect(good.score).toBe(100);
+    expect(good.warnings).toEqual([]);
+
+    const bad = scorer.score('BAD')!;
+    expect(bad.verdict).toBe('avoid');
+    expect(bad.score).toBe(0);
+    expect(bad.warnings).toEqual(expect.arrayContaining([
+      'Creator launched 3 earlier tokens and none graduated',
+      'Creator sold within the launch window',
+      'Dev bought 15.0% of supply',
+    ]));
+    expect(bad.warnings.some(warning => warning.startsWith('3 wallets bought within 1 slot(s)'))).toBe(true);
+
+    const analysis = SnipingAnalysisSchema.parse(toSnipingAnalysis(bad));
+    expect(analysis).toMatchObject({ shouldSnipe: false, riskLevel: 'very_high', timing: { urgency: 'skip' } });
+    expect(analysis.metrics?.creatorReputation).toBe('suspicious');
+    expect(toSnipingAnalysis(good)).toMatchObject({ shouldSnipe: true, confidence: 100, riskLevel: 'low' });
+    expect(scorer.score('unknown')).toBeNull();
+  });
+
+  it('replays recorded JSON Lines and sweeps thresholds against graduations', () => {
+    // Shuffled on disk; replay orders blocks by slot
+    const lines = recording().reverse().map(result => JSON.stringify(result)).join('\n');
+    const results = parseRecordedStream(lines);
+    expect(results[0].slot).toBe(100);
+
+    const launches = replayLaunches(results, {}, { builder: { launches: 2, graduated: 1 } });
+    expect(launches.map(launch => [launch.mint, launch.graduated])).toEqual([
+      ['old-1', false],
+      ['old-2', false],
+      ['old-3', false],
+      ['GOOD', true],
+      ['BAD', false],
+    ]);
+
+    const sweep = sweepThresholds(launches, [50, 90]);
+    expect(sweep[1]).toEqual({ threshold: 90, selected: 1, graduated: 1, precision: 1, recall: 1 });
+
+    // A tighter window drops later buyers, which changes the score
+    const early = replayLaunches(results, { windowMinutes: 1 }, { builder: { launches: 2, graduated: 1 } });
+    const earlyGood = early.find(launch => launch.mint === 'GOOD')!;
+    expect(earlyGood.features.uniqueBuyers).toBe(6);
+    expect(earlyGood.score).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the storage adapters and the subsystems persisted through them
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileStorageAdapter,
+  MemoryStorageAdapter,
+  STORAGE_MIGRATIONS,
+  StorageMigration,
+  STORAGE_COLLECTIONS,
+  getStorage,
+  setStorage,
+} from '../../app/lib/storage';
+import {
+  trackUsage,
+  getFreeTrialStatus,
+  getOrCreateFreeTrial,
+  getUserUsageRecords,
+  listTrackedUsers,
+  MAX_USAGE_RECORDS_PER_USER,
+  USAGE_RECORD_RETENTION_DAYS,
+} from '../../app/lib/usage-tracking/tracker';
+import { airdropStore } from '../../app/lib/seal-token/server-store';
+
+describe('MemoryStorageAdapter', () => {
+  it('discards every write of a transaction that throws', async () => {
+    const storage = new MemoryStorageAdapter();
+    await storage.set('items', 'a', { count: 1 });
+
+    await expect(storage.transaction(tx => {
+      tx.set('items', 'a', { count: 2 });
+      tx.set('items', 'b', { count: 1 });
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+
+    expect(await storage.get('items', 'a')).toEqual({ count: 1 });
+    expect(await storage.get('items', 'b')).toBeUndefined();
+  });
+
+  it('applies migrations in order once and records the schema version', async () => {
+    const applied: string[] = [];
+    const migrations: StorageMigration[] = [
+      { version: 2, name: 'second', up: tx => { applied.push('second'); tx.set('meta', 'second', true); } },
+      { version: 1, name: 'first', up: () => { applied.push('first'); } },
+    ];
+    const storage = new MemoryStorageAdapter(migrations);
+
+    await storage.get('meta', 'second');
+    await storage.get('meta', 'second');
+
+    expect(applied).toEqual(['first', 'second']);
+    expect(await storage.getSchemaVersion()).toBe(2);
+    expect(await storage.get('meta', 'second')).toBe(true);
+  });
+
+  it('serializes concurrent read-modify-write transactions', async () => {
+    const storage = new MemoryStorageAdapter();
+    await Promise.all(Array.from({ length: 20 }, () => storage.transaction(tx => {
+      tx.set('counters', 'hits', (tx.get<number>('counters', 'hits') || 0) + 1);
+    })));
+
+    expect(await storage.get('counters', 'hits')).toBe(20);
+  });
+});
+
+describe('FileStorageAdapter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists data and schema version across adapter instances', async () => {
+    const filePath = path.join(dir, 'nested', 'store.json');
+    const first = new FileStorageAdapter(filePath, { migrations: STORAGE_MIGRATIONS });
+    await first.set('agents', 'wallet-1', { type: 'arbitrage' });
+
+    const second = new FileStorageAdapter(filePath, { migrations: STORAGE_MIGRATIONS });
+    expect(await second.get('agents', 'wallet-1')).toEqual({ type: 'arbitrage' });
+    expect(await second.getSchemaVersion()).toBe(1);
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['store.json']);
+  });
+
+  it('sees writes made by another instance on the same file', async () => {
+    const filePath = path.join(dir, 'store.json');
+    const a = new FileStorageAdapter(filePath);
+    const b = new FileStorageAdapter(filePath);
+
+    await a.set('items', 'x', 1);
+    await b.transaction(tx => tx.set('items', 'x', (tx.get<number>('items', 'x') || 0) + 1));
+
+    expect(await a.get('items', 'x')).toBe(2);
+  });
+
+  it('times out while another process holds the lock', async () => {
+    const filePath = path.join(dir, 'store.json');
+    await fs.writeFile(`${filePath}.lock`, '');
+    const storage = new FileStorageAdapter(filePath, { lockTimeoutMs: 50 });
+
+    await expect(storage.set('items', 'x', 1)).rejects.toThrow('Timed out waiting for storage lock');
+  });
+
+  it('reads while another process holds the lock', async () => {
+    const filePath = path.join(dir, 'store.json');
+    const storage = new FileStorageAdapter(filePath, { lockTimeoutMs: 50 });
+    await storage.set('items', 'x', 1);
+    await fs.writeFile(`${filePath}.lock`, '');
+
+    expect(await storage.get('items', 'x')).toBe(1);
+    expect(await storage.list('items')).toEqual([['x', 1]]);
+  });
+});
+
+describe('persisted subsystems', () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorageAdapter(STORAGE_MIGRATIONS));
+  });
+
+  it('tracks usage against the free trial in the shared store', async () => {
+    await trackUsage('user-1', 'scanner_scan', { tokens: 3 });
+    await trackUsage('user-1', 'scanner_scan');
+
+    const trial = await getFreeTrialStatus('user-1');
+    const records = await getUserUsageRecords('user-1');
+    expect(trial?.featuresUsed.scanner_scan).toBe(2);
+    expect(trial?.startDate).toBeInstanceOf(Date);
+    expect(records).toHaveLength(2);
+    expect(records[0].timestamp).toBeInstanceOf(Date);
+    expect(await listTrackedUsers()).toEqual(['user-1']);
+  });
+
+  it('drops usage records past retention and caps the rest', async () => {
+    const expired = new Date(Date.now() - (USAGE_RECORD_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+    const recent = new Date();
+    const seeded = Array.from({ length: MAX_USAGE_RECORDS_PER_USER }, (_, i) => ({
+      id: `seed-${i}`,
+      userId: 'user-3',
+      feature: 'scanner_scan',
+      timestamp: i === 0 ? expired : recent,
+      cost: 0,
+      paid: false,
+    }));
+    await getStorage().set(STORAGE_COLLECTIONS.usageRecords, 'user-3', seeded);
+
+    await trackUsage('user-3', 'scanner_scan');
+    let records = await getUserUsageRecords('user-3');
+    expect(records).toHaveLength(MAX_USAGE_RECORDS_PER_USER);
+    expect(records.some(r => r.id === 'seed-0')).toBe(false);
+
+    await trackUsage('user-3', 'scanner_scan');
+    records = await getUserUsageRecords('user-3');
+    expect(records).toHaveLength(MAX_USAGE_RECORDS_PER_USER);
+    expect(records.some(r => r.id === 'seed-1')).toBe(false);
+  });
+
+  it('does not write when looking up a trial', async () => {
+    const trial = await getOrCreateFreeTrial('user-4');
+
+    expect(trial.isActive).toBe(true);
+    expect(await getFreeTrialStatus('user-4')).toBeNull();
+    expect(await listTrackedUsers()).toEqual([]);
+  });
+
+  it('rejects premium services during the trial without recording them', async () => {
+    await expect(trackUsage('user-2', 'bundler_multi_send')).rejects.toThrow('premium service');
+    expect(await getUserUsageRecords('user-2')).toEqual([]);
+  });
+
+  it('lets only one concurrent airdrop claim succeed', async () => {
+    const reservation = { id: 'r1', amount: 100, requiresCNFT: false, createdAt: new Date().toISOString() };
+    const results = await Promise.all([
+      airdropStore.claim('wallet-1', reservation),
+      airdropStore.claim('wallet-1', reservation),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await airdropStore.isClaimed('wallet-1')).toBe(true);
+
+    await airdropStore.updateStatus('wallet-1', 'reserved');
+    expect(await airdropStore.hasReservation('wallet-1')).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for address lookup tables and v0 transaction sizing
+ * Sizes are checked against web3.js serialization; oversized drafts must build as v0
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  MAX_ADDRESSES_PER_EXTEND,
+  collectLookupCandidates,
+  measureTransactionSize,
+  planCreateLookupTable,
+  planExtendLookupTable,
+} from '../../app/lib/lookup-tables';
+import { TransactionBuilder } from '../../app/lib/transaction-builder';
+import { getTemplateById } from '../../app/lib/instructions/templates';
+import { TransactionDraft } from '../../app/lib/instructions/types';
+
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+function keys(count: number): PublicKey[] {
+  return Array.from({ length: count }, () => Keypair.generate().publicKey);
+}
+
+function lookupTable(addresses: PublicKey[], authority?: PublicKey): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority,
+      addresses,
+    },
+  });
+}
+
+/**
+ * Flash-loan-sized stack: borrow, four swaps and repay, each touching eight accounts
+ */
+function flashLoanStack(payer: PublicKey): { instructions: TransactionInstruction[]; accounts: PublicKey[] } {
+  const programs = keys(3);
+  const accounts = keys(36);
+  const instructions = Array.from({ length: 6 }, (_, i) =>
+    new TransactionInstruction({
+      programId: programs[i % programs.length],
+      keys: [
+        { pubkey: payer, isSigner: true, isWritable: true },
+        ...accounts.slice(i * 6, i * 6 + 6).map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+        { pubkey: accounts[0], isSigner: false, isWritable: false },
+      ],
+      data: Buffer.alloc(24, i),
+    })
+  );
+  return { instructions, accounts };
+}
+
+describe('Transaction sizing', () => {
+  it('should match web3.js serialization for legacy and v0 messages', () => {
+    const payer = Keypair.generate().publicKey;
+    const instructions = keys(3).map(to => SystemProgram.transfer({ fromPubkey: payer, toPubkey: to, lamports: 1 }));
+    const table = lookupTable(instructions.map(ix => ix.keys[1].pubkey));
+
+    const legacy = new Transaction({ feePayer: payer, recentBlockhash: BLOCKHASH }).add(...instructions);
+    const v0 = new VersionedTransaction(
+      new TransactionMessage({ payerKey: payer, recentBlockhash: BLOCKHASH, instructions }).compileToV0Message([table])
+    );
+
+    const size = measureTransactionSize(instructions, payer, [table]);
+    expect(size.legacyBytes).toBe(legacy.serialize({ requireAllSignatures: false, verifySignatures: false }).length);
+    expect(size.versionedBytes).toBe(v0.serialize().length);
+    expect(size.compressedAccounts).toHaveLength(3);
+    expect(size.lookupTables).toEqual([table.key.toString()]);
+  });
+
+  it('should measure stacks past the legacy packet limit and report the savings', () => {
+    const payer = Keypair.generate().publicKey;
+    const { instructions, accounts } = flashLoanStack(payer);
+
+    const withoutTables = measureTransactionSize(instructions, payer);
+    expect(withoutTables.fitsLegacy).toBe(false);
+    expect(withoutTables.compressedAccounts).toEqual([]);
+
+    const size = measureTransactionSize(instructions, payer, [lookupTable(accounts)]);
+    expect(size.fitsVersioned).toBe(true);
+    expect(size.compressedAccounts.sort()).toEqual(accounts.map(String).sort());
+    expect(size.savedBytes).toBe(size.legacyBytes - size.versionedBytes);
+    // 36 keys become 1-byte indexes; the table costs its key, two length prefixes, the version and lookup count
+    expect(size.savedBytes).toBe(36 * 32 - 36 - 32 - 2 - 2);
+  });
+});
+
+describe('Lookup table planning', () => {
+  it('should pick non-signer, non-program accounts by use count', () => {
+    const payer = Keypair.generate().publicKey;
+    const { instructions, accounts } = flashLoanStack(payer);
+
+    const candidates = collectLookupCandidates(instructions);
+    expect(candidates[0].equals(accounts[0])).toBe(true);
+    expect(candidates.some(key => key.equals(payer))).toBe(false);
+    expect(candidates.some(key => key.equals(instructions[0].programId))).toBe(false);
+    expect(collectLookupCandidates(instructions, { minUses: 2 })).toHaveLength(1);
+  });
+
+  it('should batch create and extend instructions', () => {
+    const authority = Keypair.generate().publicKey;
+    const plan = planCreateLookupTable(authority, authority, 1000, keys(45));
+
+    expect(plan.batches).toHaveLength(Math.ceil(45 / MAX_ADDRESSES_PER_EXTEND));
+    expect(plan.batches[0]).toHaveLength(2);
+    expect(plan.batches.slice(1).every(batch => batch.length === 1)).toBe(true);
+    expect(plan.batches[0][0].keys[0].pubkey.equals(plan.lookupTableAddress)).toBe(true);
+  });
+
+  it('should only extend with missing addresses, as the table authority', () => {
+    const authority = Keypair.generate().publicKey;
+    const existing = keys(5);
+    const table = lookupTable(existing, authority);
+    const added = keys(3);
+
+    const plan = planExtendLookupTable(table, authority, authority, [...existing, ...added]);
+    expect(plan.addresses).toEqual(added);
+    expect(plan.batches).toHaveLength(1);
+    expect(() => planExtendLookupTable(table, Keypair.generate().publicKey, authority, added)).toThrow('is owned by');
+    expect(() => planExtendLookupTable(lookupTable(existing), authority, authority, added)).toThrow('is frozen');
+  });
+});
+
+describe('TransactionBuilder v0 transactions', () => {
+  const owner = Keypair.generate().publicKey;
+  const tokenAccounts = keys(44);
+  const table = lookupTable(tokenAccounts);
+  const connection = {
+    getAddressLookupTable: async (key: PublicKey) => ({
+      context: { slot: 1 },
+      value: key.equals(table.key) ? table : null,
+    }),
+    getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 100 }),
+    getFeeForMessage: async () => ({ context: { slot: 1 }, value: 5000 }),
+  } as unknown as Connection;
+
+  // 22 token transfers: too many accounts for a legacy transaction
+  const draft: TransactionDraft = {
+    instructions: Array.from({ length: 22 }, (_, i) => ({
+      template: getTemplateById('spl_token_transfer')!,
+      accounts: {
+        source: tokenAccounts[i * 2].toString(),
+        destination: tokenAccounts[i * 2 + 1].toString(),
+        authority: owner.toString(),
+      },
+      args: { amount: 1 },
+    })),
+  };
+
+  it('should compile oversized drafts against lookup tables', async () => {
+    const builder = new TransactionBuilder(connection);
+    const built = await builder.buildVersionedTransaction({ ...draft, lookupTables: [table.key.toString()] }, owner);
+
+    expect(built.size.fitsLegacy).toBe(false);
+    expect(built.size.compressedAccounts).toHaveLength(44);
+    expect(built.transaction.message.addressTableLookups[0].accountKey.equals(table.key)).toBe(true);
+    expect(built.transaction.serialize().length).toBe(built.size.versionedBytes);
+    expect(built.lastValidBlockHeight).toBe(100);
+  });
+
+  it('should reject drafts that do not fit even as v0', async () => {
+    const builder = new TransactionBuilder(connection);
+    await expect(builder.buildVersionedTransaction(draft, owner)).rejects.toThrow('over the 1232-byte limit');
+  });
+
+  it('should report size savings in estimateCost for legacy and v0 transactions', async () => {
+    const builder = new TransactionBuilder(connection);
+    const legacy = await builder.buildTransaction(draft);
+    legacy.feePayer = owner;
+
+    const legacyCost = await builder.estimateCost(legacy);
+    expect(legacyCost.size.fitsLegacy).toBe(false);
+    expect(legacyCost.lamports).toBe(5000);
+
+    const versioned = await builder.toVersionedTransaction(legacy, owner, [table.key.toString()]);
+    const cost = await builder.estimateCost(versioned.transaction);
+    expect(cost.lamports).toBe(5000);
+    expect(cost.size.savedBytes).toBe(versioned.size.savedBytes);
+    expect(cost.size.compressedAccounts).toHaveLength(44);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for the password keystore and the encrypted wallet registry
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { createCipheriv, pbkdf2Sync } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import {
+  KdfParams,
+  createKdfParams,
+  decryptWithPassword,
+  encryptWithPassword,
+} from '../../app/lib/wallet-manager/keystore';
+import { WalletRegistry } from '../../app/lib/wallet-manager/registry';
+
+const PASSWORD = 'correct horse battery staple';
+const SALT = new Uint8Array(16).fill(1);
+const IV = new Uint8Array(12).fill(2);
+const PLAINTEXT = new TextEncoder().encode('hello keystore');
+
+// Vectors generated with Node's crypto (pbkdf2Sync / scryptSync + aes-256-gcm, ciphertext || tag)
+const VECTORS: Array<[string, KdfParams, string]> = [
+  ['PBKDF2-SHA256', createKdfParams('pbkdf2', { iterations: 1000, salt: SALT }), '3tgXtGbidNSb7HScUM7e54mocWtkx/4zcfie3P3L'],
+  ['scrypt', { name: 'scrypt', N: 1024, r: 8, p: 1, salt: Buffer.from(SALT).toString('base64') }, 'oO7fJu8gg7pNY59AS7iLvte3i9VAkA3vpU/6HoHp'],
+];
+
+describe('keystore envelopes', () => {
+  it.each(VECTORS)('should match the %s test vector', async (_, kdf, ciphertext) => {
+    const envelope = await encryptWithPassword(PLAINTEXT, PASSWORD, { kdf, iv: IV });
+    expect(envelope.ciphertext).toBe(ciphertext);
+    expect(envelope.iv).toBe(Buffer.from(IV).toString('base64'));
+    expect(envelope.version).toBe(1);
+    expect(Buffer.from(await decryptWithPassword(envelope, PASSWORD)).toString()).toBe('hello keystore');
+  });
+
+  it('should reject a wrong password or tampered ciphertext', async () => {
+    const envelope = await encryptWithPassword(PLAINTEXT, PASSWORD, { kdf: VECTORS[0][1] });
+    await expect(decryptWithPassword(envelope, 'wrong')).rejects.toThrow('Invalid password or corrupted data');
+
+    const tampered = Buffer.from(envelope.ciphertext, 'base64');
+    tampered[0] ^= 1;
+    await expect(decryptWithPassword({ ...envelope, ciphertext: tampered.toString('base64') }, PASSWORD)).rejects.toThrow('Invalid password');
+  });
+});
+
+describe('WalletRegistry keystore', () => {
+  const registries: WalletRegistry[] = [];
+  const createRegistry = (idleTimeoutMs?: number) => {
+    const registry = new WalletRegistry({ kdfIterations: 1000, idleTimeoutMs });
+    registries.push(registry);
+    return registry;
+  };
+
+  afterEach(() => registries.splice(0).forEach(registry => registry.lock()));
+
+  it('should store keys encrypted and only read them while unlocked', async () => {
+    const registry = createRegistry();
+    const keypair = Keypair.generate();
+
+    await expect(registry.registerWallet(keypair.publicKey.toString(), keypair)).rejects.toThrow('locked');
+    await registry.unlock(PASSWORD);
+    const wallet = await registry.registerWallet(keypair.publicKey.toString(), keypair);
+
+    expect(wallet.encryptedKeypair).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+    expect(JSON.parse(wallet.encryptedKeypair!).cipher).toBe('aes-256-gcm');
+    expect((await registry.getKeypair(wallet.id))!.publicKey.equals(keypair.publicKey)).toBe(true);
+
+    registry.lock();
+    await expect(registry.getKeypair(wallet.id)).rejects.toThrow('Wallet registry is locked');
+    await expect(registry.unlock('wrong')).rejects.toThrow('Invalid password');
+    expect(registry.isUnlocked()).toBe(false);
+  });
+
+  it('should re-encrypt every key when the password changes', async () => {
+    const registry = createRegistry();
+    await registry.unlock(PASSWORD);
+    const keypair = Keypair.generate();
+    const wallet = await registry.registerWallet(keypair.publicKey.toString(), keypair);
+    const before = wallet.encryptedKeypair;
+
+    await expect(registry.changePassword('wrong', 'new password')).rejects.toThrow('Invalid password');
+    await registry.changePassword(PASSWORD, 'new password');
+    expect(registry.getWallet(wallet.id)!.encryptedKeypair).not.toBe(before);
+
+    registry.lock();
+    await expect(registry.unlock(PASSWORD)).rejects.toThrow('Invalid password');
+    await registry.unlock('new password');
+    expect((await registry.getKeypair(wallet.id))!.secretKey).toEqual(keypair.secretKey);
+  });
+
+  it('should lock after the idle timeout', async () => {
+    const registry = createRegistry(50);
+    await registry.unlock(PASSWORD);
+    expect(registry.isUnlocked()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(registry.isUnlocked()).toBe(false);
+  });
+
+  it('should export and import an encrypted backup between registries', async () => {
+    const source = createRegistry();
+    await source.unlock(PASSWORD);
+    const keypair = Keypair.generate();
+    const wallet = await source.registerWallet(keypair.publicKey.toString(), keypair, 'sniper', ['bundler']);
+    const backup = await source.exportRegistry('backup password');
+
+    expect(backup).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+
+    const target = createRegistry();
+    await target.unlock('other password');
+    await expect(target.importRegistry(backup, 'wrong')).rejects.toThrow('Invalid password');
+    await target.importRegistry(backup, 'backup password');
+
+    expect(target.getWallet(wallet.id)!.label).toBe('sniper');
+    expect((await target.getKeypair(wallet.id))!.secretKey).toEqual(keypair.secretKey);
+  });
+
+  it('should import a backup encrypted by another implementation', async () => {
+    const keypair = Keypair.generate();
+    const payload = JSON.stringify({
+      version: '2.0',
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      wallets: [{ id: 'wallet-1', address: keypair.publicKey.toString(), secretKey: Buffer.from(keypair.secretKey).toString('base64') }],
+      groups: [],
+    });
+    const key = pbkdf2Sync('backup password', SALT, 1000, 32, 'sha256');
+    const cipher = createCipheriv('aes-256-gcm', key, IV);
+    const ciphertext = Buffer.concat([cipher.update(payload), cipher.final(), cipher.getAuthTag()]);
+    const backup = JSON.stringify({
+      type: 'wallet-registry-export',
+      version: 1,
+      cipher: 'aes-256-gcm',
+      kdf: VECTORS[0][1],
+      iv: Buffer.from(IV).toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    });
+
+    const registry = createRegistry();
+    await registry.unlock(PASSWORD);
+    await registry.importRegistry(backup, 'backup password');
+    expect((await registry.getKeypair('wallet-1'))!.publicKey.equals(keypair.publicKey)).toBe(true);
+  });
+});
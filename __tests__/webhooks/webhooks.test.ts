@@ -0,0 +1,216 @@
+/**
+ * Tests for webhook subscriptions, signed delivery, retries and the dead-letter queue
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { promises as dnsPromises } from 'dns';
+import { MemoryStorageAdapter, STORAGE_MIGRATIONS, setStorage } from '../../app/lib/storage';
+import {
+  createWebhookSubscription,
+  updateWebhookSubscription,
+  deleteWebhookSubscription,
+  emitWebhookEvent,
+  forwardMarketMakerFills,
+  processDueDeliveries,
+  sendTestEvent,
+  listDeliveries,
+  listDeadLetters,
+  redriveDeadLetter,
+  retryDelayMs,
+  verifyWebhookSignature,
+  MAX_DELIVERY_ATTEMPTS,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '../../app/lib/webhooks';
+import type { MarketMakerAgent } from '../../app/lib/market-maker/agent';
+import type { MarketMakerFill } from '../../app/lib/market-maker/types';
+
+const OWNER = 'owner-wallet';
+const URL = 'https://hooks.example.com/events';
+
+type FetchArgs = [string, { headers: Record<string, string>; body: string }];
+
+describe('webhooks', () => {
+  let fetchMock: jest.Mock<(...args: FetchArgs) => Promise<{ ok: boolean; status: number }>>;
+
+  // Resolve every webhook host to the given address
+  function resolveTo(address: string) {
+    jest.spyOn(dnsPromises, 'lookup').mockImplementation((async () => [{ address, family: address.includes(':') ? 6 : 4 }]) as never);
+  }
+
+  beforeEach(() => {
+    setStorage(new MemoryStorageAdapter(STORAGE_MIGRATIONS));
+    fetchMock = jest.fn(async () => ({ ok: true, status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    resolveTo('93.184.216.34');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+  });
+
+  // Let the delivery run started by emit finish
+  async function settle() {
+    await processDueDeliveries();
+  }
+
+  it('delivers HMAC-signed events to matching subscriptions only', async () => {
+    const { subscription, secret } = await createWebhookSubscription(OWNER, {
+      url: URL,
+      events: ['wallet.balance_change'],
+      accounts: ['wallet-a'],
+    });
+
+    expect(await emitWebhookEvent('wallet.balance_change', { change: 5 }, ['wallet-b'])).toBe(0);
+    expect(await emitWebhookEvent('whale.signal', { whale: 'wallet-a' }, ['wallet-a'])).toBe(0);
+    expect(await emitWebhookEvent('wallet.balance_change', { change: 5 }, ['wallet-a'])).toBe(1);
+    await settle();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(URL);
+    const timestamp = Number(init.headers[TIMESTAMP_HEADER]);
+    expect(verifyWebhookSignature(secret, timestamp, init.body, init.headers[SIGNATURE_HEADER])).toBe(true);
+    expect(verifyWebhookSignature('wrong', timestamp, init.body, init.headers[SIGNATURE_HEADER])).toBe(false);
+    expect(JSON.parse(init.body)).toMatchObject({ type: 'wallet.balance_change', data: { change: 5 } });
+
+    const [delivery] = await listDeliveries(OWNER, { subscriptionId: subscription.id });
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.attempts).toHaveLength(1);
+  });
+
+  it('retries with exponential backoff and dead-letters after the last attempt', async () => {
+    fetchMock.mockImplementation(async () => ({ ok: false, status: 503 }));
+    await createWebhookSubscription(OWNER, { url: URL, events: ['market_maker.fill'] });
+
+    expect(retryDelayMs(1)).toBe(30000);
+    expect(retryDelayMs(3)).toBe(120000);
+
+    await emitWebhookEvent('market_maker.fill', { side: 'buy' });
+    await settle();
+
+    let [delivery] = await listDeliveries(OWNER);
+    expect(delivery.status).toBe('pending');
+    const firstRetry = new Date(delivery.nextAttemptAt!).getTime() - new Date(delivery.attempts[0].at).getTime();
+    expect(firstRetry).toBeGreaterThanOrEqual(30000);
+
+    // Not due yet
+    expect(await processDueDeliveries(Date.now())).toBe(0);
+
+    let now = Date.now();
+    for (let attempt = 2; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      now += retryDelayMs(attempt - 1) + 1000;
+      expect(await processDueDeliveries(now)).toBe(1);
+    }
+
+    [delivery] = await listDeliveries(OWNER);
+    expect(delivery.status).toBe('dead');
+    expect(delivery.attempts).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+    expect(delivery.attempts[0].error).toBe('HTTP 503');
+    expect((await listDeadLetters(OWNER)).map(d => d.id)).toEqual([delivery.id]);
+
+    fetchMock.mockImplementation(async () => ({ ok: true, status: 200 }));
+    await redriveDeadLetter(OWNER, delivery.id);
+    await settle();
+    expect(await listDeadLetters(OWNER)).toEqual([]);
+    expect((await listDeliveries(OWNER))[0].status).toBe('succeeded');
+  });
+
+  it('test-fires a single attempt even for paused webhooks', async () => {
+    fetchMock.mockImplementation(async () => { throw new Error('connect ECONNREFUSED'); });
+    const { subscription } = await createWebhookSubscription(OWNER, { url: URL, events: ['pumpfun.launch'] });
+    await updateWebhookSubscription(OWNER, subscription.id, { active: false });
+
+    const delivery = await sendTestEvent(OWNER, subscription.id);
+    expect(delivery.event.type).toBe('webhook.test');
+    expect(delivery.status).toBe('dead');
+    expect(delivery.attempts[0].error).toBe('connect ECONNREFUSED');
+    expect(await listDeadLetters(OWNER)).toEqual([]);
+
+    expect(await emitWebhookEvent('pumpfun.launch', { mint: 'x' })).toBe(0);
+  });
+
+  it('cancels pending deliveries when the webhook is deleted', async () => {
+    fetchMock.mockImplementation(async () => ({ ok: false, status: 500 }));
+    const { subscription } = await createWebhookSubscription(OWNER, { url: URL, events: ['whale.signal'] });
+    await emitWebhookEvent('whale.signal', { whale: 'w' });
+    await settle();
+
+    await deleteWebhookSubscription(OWNER, subscription.id);
+    expect((await listDeliveries(OWNER))[0].status).toBe('cancelled');
+  });
+
+  it('forwards market maker fills from the agent fill listener', async () => {
+    await createWebhookSubscription(OWNER, { url: URL, events: ['market_maker.fill'], accounts: ['agent-wallet'] });
+    let listener: ((fill: MarketMakerFill) => void) | null = null;
+    const agent = {
+      onFill: (callback: (fill: MarketMakerFill) => void) => {
+        listener = callback;
+        return () => { listener = null; };
+      },
+    } as unknown as MarketMakerAgent;
+
+    const stop = forwardMarketMakerFills(agent);
+    listener!({
+      strategy: 'grid',
+      agentWallet: 'agent-wallet',
+      tokenMint: 'token-mint',
+      side: 'buy',
+      price: 1.5,
+      solAmount: 0.5,
+      tokenAmount: 0.5 / 1.5,
+      realizedPnl: 0,
+      signature: 'sig',
+      timestamp: new Date(0),
+      levelIndex: 2,
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await settle();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      type: 'market_maker.fill',
+      data: { strategy: 'grid', side: 'buy', levelIndex: 2, timestamp: '1970-01-01T00:00:00.000Z' },
+    });
+    stop();
+    expect(listener).toBeNull();
+  });
+
+  it('validates subscriptions', async () => {
+    await expect(createWebhookSubscription(OWNER, { url: 'ftp://example.com', events: ['whale.signal'] }))
+      .rejects.toThrow('http or https');
+    await expect(createWebhookSubscription(OWNER, { url: URL, events: ['webhook.test'] }))
+      .rejects.toThrow('at least one event type');
+  });
+
+  it('rejects private and link-local endpoints outside production unless opted in', async () => {
+    const privateUrls = ['http://127.0.0.1:8080/hook', 'http://169.254.169.254/latest/meta-data', 'http://[::1]/hook', 'http://localhost:3000/hook'];
+    for (const url of privateUrls) {
+      await expect(createWebhookSubscription(OWNER, { url, events: ['whale.signal'] })).rejects.toThrow('public endpoint');
+    }
+
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    await createWebhookSubscription(OWNER, { url: 'http://localhost:3000/hook', events: ['whale.signal'] });
+    await emitWebhookEvent('whale.signal', { whale: 'w' });
+    await settle();
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:3000/hook');
+  });
+
+  it('refuses deliveries to hosts that resolve to private addresses', async () => {
+    const { subscription } = await createWebhookSubscription(OWNER, { url: URL, events: ['whale.signal'] });
+    // The host was public when registered and now points into the internal network
+    resolveTo('10.0.0.5');
+
+    await emitWebhookEvent('whale.signal', { whale: 'w' });
+    await settle();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [delivery] = await listDeliveries(OWNER, { subscriptionId: subscription.id });
+    expect(delivery.attempts[0].error).toBe('Webhook host hooks.example.com resolves to private address 10.0.0.5');
+
+    resolveTo('fe80::1');
+    expect((await sendTestEvent(OWNER, subscription.id)).attempts[0].error).toContain('private address fe80::1');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
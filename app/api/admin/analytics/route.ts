@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { 
-  usageRecords, 
-  freeTrials,
+  listTrackedUsers,
+  getFreeTrialStatus,
   getUsageStats,
   getUserUsageRecords 
 } from '@/app/lib/usage-tracking/tracker';
@@ -44,16 +44,13 @@ export async function GET(request: NextRequest) {
     const period = (searchParams.get('period') as 'daily' | 'weekly' | 'monthly' | 'all_time') || 'all_time';
 
     // Get all users
-    const allUserIds = Array.from(new Set([
-      ...Array.from(usageRecords.keys()),
-      ...Array.from(freeTrials.keys())
-    ]));
+    const allUserIds = await listTrackedUsers();
 
     // Aggregate statistics
-    const userAnalytics = allUserIds.map(userId => {
-      const trial = freeTrials.get(userId);
-      const records = getUserUsageRecords(userId);
-      const stats = getUsageStats(userId, period);
+    const userAnalytics = await Promise.all(allUserIds.map(async userId => {
+      const trial = await getFreeTrialStatus(userId);
+      const records = await getUserUsageRecords(userId);
+      const stats = await getUsageStats(userId, period);
 
       return {
         userId,
@@ -76,7 +73,7 @@ export async function GET(request: NextRequest) {
             cost: r.cost,
           })),
       };
-    });
+    }));
 
     // Overall statistics
     const totalUsers = allUserIds.length;
@@ -103,15 +100,15 @@ export async function GET(request: NextRequest) {
       dailyUsage[dateKey] = 0;
     }
 
-    allUserIds.forEach(userId => {
-      const records = getUserUsageRecords(userId);
+    for (const userId of allUserIds) {
+      const records = await getUserUsageRecords(userId);
       records.forEach(record => {
         const dateKey = record.timestamp.toISOString().split('T')[0];
         if (dailyUsage[dateKey] !== undefined) {
           dailyUsage[dateKey]++;
         }
       });
-    });
+    }
 
     return NextResponse.json({
       summary: {
@@ -4,8 +4,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { agentRegistry, BaseSolanaAgent } from '@/app/lib/agents/solana-agent-kit';
-import { agentStorage } from '@/app/lib/agents/storage';
+import { Connection } from '@solana/web3.js';
+import { agentRegistry } from '@/app/lib/agents/solana-agent-kit';
+import { restoreAgent } from '@/app/lib/agents/storage';
 import { verifyTimestampedSignature } from '@/app/lib/security/auth';
 import { rateLimitByIp } from '@/app/lib/security/rate-limit';
 
@@ -53,14 +54,13 @@ export async function POST(request: NextRequest) {
     // Try to get agent from registry first
     let agent = agentRegistry.get(wallet);
     
-    // If not in registry, try to get from storage and re-register
+    // If not in registry, try to restore it from storage and re-register
     if (!agent) {
-      const stored = agentStorage.get(wallet);
-      if (stored && stored.agent) {
-        agent = stored.agent;
-        if (agent) {
-          agentRegistry.register(agent);
-        }
+      const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET ||
+                     'https://api.mainnet-beta.solana.com';
+      agent = await restoreAgent(wallet, new Connection(rpcUrl, 'confirmed'));
+      if (agent) {
+        agentRegistry.register(agent);
       }
     }
     
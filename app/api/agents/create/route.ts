@@ -8,16 +8,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection, Keypair } from '@solana/web3.js';
-import {
-  ArbitrageAgent,
-  PortfolioRebalancingAgent,
-  LiquidityScanningAgent,
-  AgentConfig,
-  agentRegistry,
-} from '@/app/lib/agents/solana-agent-kit';
-import { LocalLLMProvider, AIEnhancedAgent } from '@/app/lib/agents/agentipy-integration';
-import { defiPlugins } from '@/app/lib/agents/defi-plugins';
-import { agentStorage, storeAgent } from '@/app/lib/agents/storage';
+import { AgentConfig, agentRegistry } from '@/app/lib/agents/solana-agent-kit';
+import { buildAgent } from '@/app/lib/agents/factory';
+import { storeAgent } from '@/app/lib/agents/storage';
 
 export const dynamic = 'force-dynamic';
 
@@ -41,8 +34,6 @@ export async function POST(request: NextRequest) {
                    'https://api.mainnet-beta.solana.com';
     const connection = new Connection(rpcUrl, 'confirmed');
 
-    // Create agent based on type
-    let agent;
     const agentConfig: AgentConfig = {
       name: config.name || 'Unnamed Agent',
       enabled: config.enabled !== false,
@@ -56,52 +47,18 @@ export async function POST(request: NextRequest) {
       plugins: config.plugins || [],
     };
 
-    // Generate keypair from seed if provided
-    let agentKeypair: Keypair | undefined;
-    if (agentWalletSeed) {
-      const seedBuffer = Buffer.from(agentWalletSeed, 'utf-8').slice(0, 32);
-      agentKeypair = Keypair.fromSeed(seedBuffer);
-    }
-
-    switch (type) {
-      case 'arbitrage':
-        agent = new ArbitrageAgent(connection, agentConfig, agentKeypair);
-        break;
-
-      case 'portfolio-rebalancing':
-        agent = new PortfolioRebalancingAgent(connection, agentConfig, agentKeypair);
-        break;
-
-      case 'liquidity-scanning':
-        agent = new LiquidityScanningAgent(connection, agentConfig, agentKeypair);
-        break;
-
-      case 'ai-enhanced':
-        // Use local LLM if available
-        const llmEndpoint = process.env.LOCAL_AI_ENDPOINT;
-        const llmModel = process.env.LOCAL_AI_MODEL;
-        const llmProvider = llmEndpoint && llmModel
-          ? new LocalLLMProvider(llmEndpoint, llmModel)
-          : undefined;
-
-        agent = new AIEnhancedAgent(connection, agentConfig, agentKeypair, llmProvider);
-        break;
-
-      default:
-        return NextResponse.json(
-          { error: `Unknown agent type: ${type}` },
-          { status: 400 }
-        );
-    }
+    // Generate keypair from seed if provided, otherwise a fresh one that is stored
+    // (encrypted) with the agent so it can be restored
+    const agentKeypair = agentWalletSeed
+      ? Keypair.fromSeed(Buffer.from(agentWalletSeed, 'utf-8').slice(0, 32))
+      : Keypair.generate();
 
-    // Register plugins
-    if (agentConfig.plugins) {
-      for (const pluginId of agentConfig.plugins) {
-        const plugin = defiPlugins.find(p => p.id === pluginId);
-        if (plugin) {
-          agent.registerPlugin(plugin);
-        }
-      }
+    const agent = buildAgent(type, connection, agentConfig, agentKeypair);
+    if (!agent) {
+      return NextResponse.json(
+        { error: `Unknown agent type: ${type}` },
+        { status: 400 }
+      );
     }
 
     // Register agent
@@ -109,13 +66,13 @@ export async function POST(request: NextRequest) {
     
     // Store agent info and instance for persistence
     const agentWallet = agent.getAgentWallet().toString();
-    storeAgent(agentWallet, {
+    await storeAgent(agentWallet, {
       type,
       config: agentConfig,
       wallet: agentWallet,
       createdAt: new Date(),
       agent, // Store agent instance
-    });
+    }, agentKeypair);
 
     // Start agent if enabled
     if (agentConfig.enabled) {
@@ -149,7 +106,7 @@ export async function GET(request: NextRequest) {
     
     // Get agents from both registry and storage
     const registryAgents = agentRegistry.getAll();
-    const storageAgents = getAllStoredAgents();
+    const storageAgents = await getAllStoredAgents();
     
     // Combine both sources
     const allAgents = new Map<string, any>();
@@ -157,7 +114,7 @@ export async function GET(request: NextRequest) {
     // Add from registry
     for (const agent of registryAgents) {
       const wallet = agent.getAgentWallet().toString();
-      const stored = getStoredAgent(wallet);
+      const stored = await getStoredAgent(wallet);
       allAgents.set(wallet, {
         agent,
         stored,
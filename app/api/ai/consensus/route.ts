@@ -4,9 +4,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { executeConsensus, executeConsensusWithRetry } from '@/app/lib/ai/consensus/engine';
 import { providerRegistry } from '@/app/lib/ai/consensus/providers/registry';
 import { consensusCache } from '@/app/lib/ai/consensus/cache';
+import { providerWeights } from '@/app/lib/ai/consensus/weights';
 import { ConsensusQueryOptions } from '@/app/lib/ai/consensus/types';
 
 /**
@@ -14,6 +16,9 @@ import { ConsensusQueryOptions } from '@/app/lib/ai/consensus/types';
  * Get consensus result by ID or list providers
  */
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   const searchParams = request.nextUrl.searchParams;
   const action = searchParams.get('action');
   const id = searchParams.get('id');
@@ -60,8 +65,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ cache: stats });
     }
 
+    // Get learned provider weights
+    if (action === 'weights') {
+      return NextResponse.json({ weights: providerWeights.getStats() });
+    }
+
     return NextResponse.json({
-      error: 'Invalid action. Use ?action=providers|health|cache or ?id=<consensus-id>',
+      error: 'Invalid action. Use ?action=providers|health|cache|weights or ?id=<consensus-id>',
     }, { status: 400 });
   } catch (error: any) {
     return NextResponse.json({
@@ -75,6 +85,9 @@ export async function GET(request: NextRequest) {
  * Execute consensus query
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const body = await request.json();
     const { prompt, options, config, retry } = body;
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { initializeCoreModel, getCoreModel } from '@/app/lib/ai/core-model';
 
 /**
@@ -11,6 +12,9 @@ import { initializeCoreModel, getCoreModel } from '@/app/lib/ai/core-model';
  * Get core model status and info
  */
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const action = searchParams.get('action');
@@ -45,6 +49,9 @@ export async function GET(request: NextRequest) {
  * Query the core model or switch models
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const body = await request.json();
     const { action, prompt, model, options } = body;
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 
 export const dynamic = 'force-dynamic';
-export const runtime = 'edge';
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/images/generations';
 
@@ -11,6 +11,9 @@ const OPENAI_API_URL = 'https://api.openai.com/v1/images/generations';
  * Uses DALL-E 3 for high-quality, professional results
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const apiKey = process.env.OPENAI_API_KEY;
     
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 
 export const dynamic = 'force-dynamic';
 
@@ -7,6 +8,9 @@ export const dynamic = 'force-dynamic';
  * Processes uploaded images and prepares them for social media
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const formData = await request.formData();
     const file = formData.get('image') as File;
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,6 +9,9 @@ const LOCAL_AI_ENDPOINT = process.env.LOCAL_AI_ENDPOINT || 'http://localhost:123
 const USE_LOCAL_AI = true; // Default to true as requested by user context
 
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const { tokenSymbol, tokenName, mood } = await request.json();
 
@@ -0,0 +1,106 @@
+/**
+ * AI Tool-Calling API Route
+ * Runs a provider's function-calling loop against the MCP server's tools
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
+import { createMCPClient } from '@/app/lib/ai/mcp/client';
+import { providerRegistry } from '@/app/lib/ai/consensus/providers/registry';
+import { MCPToolExecutor, runToolLoop, toolAuditLog } from '@/app/lib/ai/tool-calling';
+
+/**
+ * GET /api/ai/tools
+ * List MCP tools, or read the tool audit log with ?action=audit[&runId=<id>]
+ */
+export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
+  const searchParams = request.nextUrl.searchParams;
+
+  if (searchParams.get('action') === 'audit') {
+    const runId = searchParams.get('runId');
+    return NextResponse.json({
+      entries: runId ? toolAuditLog.getByRun(runId) : toolAuditLog.getRecent(),
+    });
+  }
+
+  const client = createMCPClient();
+  if (!client) {
+    return NextResponse.json({
+      error: 'MCP server is not configured. Set MCP_ENABLED=true and MCP_SERVER_URL.',
+    }, { status: 503 });
+  }
+
+  try {
+    const tools = await new MCPToolExecutor(client).listTools();
+    return NextResponse.json({
+      tools,
+      providers: providerRegistry.getAll()
+        .filter(p => typeof p.queryWithTools === 'function')
+        .map(p => p.id),
+    });
+  } catch (error: any) {
+    return NextResponse.json({
+      error: error.message || 'Failed to list tools',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/ai/tools
+ * Body: { prompt, provider?, tools?, maxSteps?, options? }
+ */
+export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
+  try {
+    const body = await request.json();
+    const { prompt, provider: providerId, tools, maxSteps, options } = body;
+
+    if (!prompt || typeof prompt !== 'string') {
+      return NextResponse.json({
+        error: 'Prompt is required and must be a string',
+      }, { status: 400 });
+    }
+
+    const client = createMCPClient();
+    if (!client) {
+      return NextResponse.json({
+        error: 'MCP server is not configured. Set MCP_ENABLED=true and MCP_SERVER_URL.',
+      }, { status: 503 });
+    }
+
+    const provider = providerId
+      ? providerRegistry.get(providerId)
+      : providerRegistry.getAll().find(p => typeof p.queryWithTools === 'function');
+    if (!provider || typeof provider.queryWithTools !== 'function') {
+      return NextResponse.json({
+        error: providerId
+          ? `Provider ${providerId} is not registered or does not support tool calling`
+          : 'No registered provider supports tool calling',
+      }, { status: 400 });
+    }
+
+    // Requests may lower the configured limits but not raise them
+    const stepLimit = parseInt(process.env.AI_TOOL_MAX_STEPS || '5');
+    const result = await runToolLoop(provider, prompt, new MCPToolExecutor(client), {
+      maxSteps: typeof maxSteps === 'number' ? Math.max(1, Math.min(maxSteps, stepLimit)) : stepLimit,
+      maxToolCalls: parseInt(process.env.AI_TOOL_MAX_CALLS || '20'),
+      allowedTools: Array.isArray(tools) ? tools : undefined,
+      queryOptions: {
+        temperature: options?.temperature,
+        maxTokens: options?.maxTokens,
+      },
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Tool-calling API error:', error);
+    return NextResponse.json({
+      error: error.message || 'Failed to run tool calls',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * API Key Management API
+ * Create, list, rotate and revoke API keys for a wallet
+ * POST /api/api-keys { action: 'list' | 'create' | 'rotate' | 'revoke', wallet, signature, timestamp, ... }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createApiKey,
+  listApiKeys,
+  rotateApiKey,
+  revokeApiKey,
+  isApiKeyScope,
+  API_KEY_SCOPES,
+} from '@/app/lib/api-keys';
+import { verifyTimestampedSignature } from '@/app/lib/security/auth';
+import { rateLimitByIp } from '@/app/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+// Longest an old key may keep working after rotation
+const MAX_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Available scopes
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    scopes: Object.entries(API_KEY_SCOPES).map(([name, scope]) => ({
+      name,
+      routes: scope.routes.map(prefix => `${prefix}*`),
+      description: scope.description,
+    })),
+  });
+}
+
+/**
+ * Manage API keys (requires wallet signature)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    if (!rateLimitByIp(request)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, wallet, signature, timestamp } = body;
+
+    if (!action || !wallet) {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, wallet' },
+        { status: 400 }
+      );
+    }
+
+    // Authentication: Verify signature
+    if (!signature || !timestamp) {
+      return NextResponse.json(
+        { error: 'Authentication required: signature and timestamp missing' },
+        { status: 401 }
+      );
+    }
+
+    const isValid = verifyTimestampedSignature(Number(timestamp), signature, wallet);
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Invalid signature or timestamp expired' },
+        { status: 401 }
+      );
+    }
+
+    switch (action) {
+      case 'list':
+        return NextResponse.json({
+          success: true,
+          keys: await listApiKeys(wallet),
+        });
+
+      case 'create': {
+        const { name, scopes, rateLimit } = body;
+        if (!Array.isArray(scopes) || !scopes.every(isApiKeyScope)) {
+          return NextResponse.json(
+            { error: `Invalid scopes. Available: ${Object.keys(API_KEY_SCOPES).join(', ')}` },
+            { status: 400 }
+          );
+        }
+        const issued = await createApiKey(wallet, { name, scopes, rateLimit });
+        return NextResponse.json({
+          success: true,
+          key: issued.key, // Only time the full key is returned
+          info: issued.info,
+        });
+      }
+
+      case 'rotate': {
+        const { keyId, graceMs } = body;
+        if (!keyId) {
+          return NextResponse.json({ error: 'Missing required field: keyId' }, { status: 400 });
+        }
+        const grace = Math.min(Math.max(Number(graceMs) || 0, 0), MAX_ROTATION_GRACE_MS);
+        const issued = await rotateApiKey(wallet, keyId, grace);
+        return NextResponse.json({
+          success: true,
+          key: issued.key,
+          info: issued.info,
+        });
+      }
+
+      case 'revoke': {
+        const { keyId } = body;
+        if (!keyId) {
+          return NextResponse.json({ error: 'Missing required field: keyId' }, { status: 400 });
+        }
+        return NextResponse.json({
+          success: true,
+          info: await revokeApiKey(wallet, keyId),
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('API key management error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * API route for AI-powered arbitrage analysis
- * Returns structured arbitrage scanning results using the schema
+ * Returns structured arbitrage scanning results using the schema. With a signed
+ * `wallet` the results are also saved for that wallet's exports.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -9,6 +10,8 @@ import {
   validateArbitrageResults,
   getArbitrageResultsPrompt,
 } from '../../../lib/arbitrage/arbitrage-result-schema';
+import { saveArbitrageScan } from '../../../lib/arbitrage/scan-store';
+import { verifyTimestampedSignature } from '../../../lib/security/auth';
 
 export const dynamic = 'force-dynamic';
 
@@ -23,8 +26,18 @@ export async function POST(request: NextRequest) {
       failedTrades = [],
       missedTrades = [],
       scanMetadata = {},
+      wallet,
+      signature,
+      timestamp,
     } = body;
 
+    if (wallet && !verifyTimestampedSignature(Number(timestamp), signature, wallet)) {
+      return NextResponse.json(
+        { error: 'Invalid signature or timestamp expired' },
+        { status: 401 }
+      );
+    }
+
     // Create prompt with schema
     const scanData = {
       opportunities,
@@ -95,6 +108,9 @@ Analyze this data and return the complete structured results.`;
 
     // Validate against schema
     const validated = validateArbitrageResults(parsed);
+    if (wallet) {
+      await saveArbitrageScan(wallet, validated);
+    }
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,52 @@
+/**
+ * Scheduled Export Runner
+ * Runs every due export schedule. Call it at least daily from a cron job with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ * GET /api/export/cron
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Connection } from '@solana/web3.js';
+import { timingSafeEqual } from 'crypto';
+import { runDueExportSchedules } from '@/app/lib/export';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET ||
+                   'https://api.mainnet-beta.solana.com';
+    const runs = await runDueExportSchedules(new Date(), { connection: new Connection(rpcUrl, 'confirmed') });
+
+    return NextResponse.json({
+      success: true,
+      runs: runs.map(run => ({
+        id: run.id,
+        scheduleId: run.scheduleId,
+        status: run.status,
+        rows: run.rows,
+        error: run.error,
+      })),
+    });
+  } catch (error) {
+    console.error('Scheduled export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
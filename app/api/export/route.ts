@@ -0,0 +1,190 @@
+/**
+ * Data Export API
+ * Download transactions, usage, arbitrage scans or market maker trades as CSV,
+ * JSON Lines or Parquet, and manage recurring exports
+ * POST /api/export { action, wallet, signature, timestamp, ... }
+ *
+ * Actions: export, schedules, create-schedule, update-schedule, delete-schedule, runs, download
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Connection } from '@solana/web3.js';
+import {
+  streamExport,
+  createExportSchedule,
+  listExportSchedules,
+  updateExportSchedule,
+  deleteExportSchedule,
+  listExportRuns,
+  readExportRunFile,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FREQUENCIES,
+  MAX_EXPORT_LIMIT,
+} from '@/app/lib/export';
+import { verifyTimestampedSignature } from '@/app/lib/security/auth';
+import { rateLimitByIp } from '@/app/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const NEXT_CURSOR_HEADER = 'X-Export-Next-Cursor';
+
+function getConnection(): Connection {
+  const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET ||
+                 'https://api.mainnet-beta.solana.com';
+  return new Connection(rpcUrl, 'confirmed');
+}
+
+/**
+ * Available datasets, formats and schedule frequencies
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    datasets: Object.keys(EXPORT_DATASETS).map(dataset => ({
+      dataset,
+      columns: EXPORT_DATASETS[dataset as keyof typeof EXPORT_DATASETS].columns,
+    })),
+    formats: Object.keys(EXPORT_CONTENT_TYPES),
+    frequencies: EXPORT_FREQUENCIES,
+    maxLimit: MAX_EXPORT_LIMIT,
+    cursorHeader: NEXT_CURSOR_HEADER,
+  });
+}
+
+/**
+ * Run an export or manage schedules (requires wallet signature)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    if (!rateLimitByIp(request)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, wallet, signature, timestamp } = body;
+
+    if (!action || !wallet) {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, wallet' },
+        { status: 400 }
+      );
+    }
+
+    // Authentication: Verify signature
+    if (!signature || !timestamp) {
+      return NextResponse.json(
+        { error: 'Authentication required: signature and timestamp missing' },
+        { status: 401 }
+      );
+    }
+
+    const isValid = verifyTimestampedSignature(Number(timestamp), signature, wallet);
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Invalid signature or timestamp expired' },
+        { status: 401 }
+      );
+    }
+
+    const { scheduleId } = body;
+    if (['update-schedule', 'delete-schedule'].includes(action) && !scheduleId) {
+      return NextResponse.json({ error: 'Missing required field: scheduleId' }, { status: 400 });
+    }
+
+    switch (action) {
+      case 'export': {
+        const { dataset, format = 'csv', filters, limit, cursor } = body;
+        if (!dataset) {
+          return NextResponse.json({ error: 'Missing required field: dataset' }, { status: 400 });
+        }
+
+        const result = await streamExport(
+          {
+            dataset,
+            wallet,
+            format,
+            filters,
+            limit: limit === undefined ? undefined : Number(limit),
+            cursor,
+          },
+          { connection: dataset === 'transactions' ? getConnection() : undefined }
+        );
+
+        const headers: Record<string, string> = {
+          'Content-Type': result.contentType,
+          'Content-Disposition': `attachment; filename="${result.fileName}"`,
+          'Cache-Control': 'no-store',
+        };
+        if (result.nextCursor) {
+          headers[NEXT_CURSOR_HEADER] = result.nextCursor;
+        }
+        return new NextResponse(result.body, { headers });
+      }
+
+      case 'schedules':
+        return NextResponse.json({
+          success: true,
+          schedules: await listExportSchedules(wallet),
+        });
+
+      case 'create-schedule': {
+        const { dataset, format, frequency, filters } = body;
+        return NextResponse.json({
+          success: true,
+          schedule: await createExportSchedule(wallet, { dataset, format, frequency, filters }),
+        });
+      }
+
+      case 'update-schedule': {
+        const { format, filters, active } = body;
+        return NextResponse.json({
+          success: true,
+          schedule: await updateExportSchedule(wallet, scheduleId, { format, filters, active }),
+        });
+      }
+
+      case 'delete-schedule':
+        await deleteExportSchedule(wallet, scheduleId);
+        return NextResponse.json({ success: true });
+
+      case 'runs':
+        return NextResponse.json({
+          success: true,
+          runs: await listExportRuns(wallet, scheduleId),
+        });
+
+      case 'download': {
+        const { runId } = body;
+        if (!runId) {
+          return NextResponse.json({ error: 'Missing required field: runId' }, { status: 400 });
+        }
+        const file = await readExportRunFile(wallet, runId);
+        return new NextResponse(file.bytes, {
+          headers: {
+            'Content-Type': file.contentType,
+            'Content-Disposition': `attachment; filename="${file.fileName}"`,
+            'Cache-Control': 'no-store',
+          },
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // Next.js API route to proxy Jupiter quote requests (fixes CORS issues)
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { validateSolanaAddress, validateNumeric, safeEncodeParam, ALLOWED_API_BASES } from '@/app/lib/security/validation';
 
 const JUPITER_API_BASE = `${ALLOWED_API_BASES.JUPITER}/v6`;
@@ -8,6 +9,9 @@ const JUPITER_API_BASE = `${ALLOWED_API_BASES.JUPITER}/v6`;
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     // Security: API keys should only come from environment variables, never from query parameters
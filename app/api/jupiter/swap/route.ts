@@ -1,6 +1,7 @@
 // Next.js API route to proxy Jupiter swap requests (fixes CORS issues and handles API key)
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { ALLOWED_API_BASES } from '@/app/lib/security/validation';
 
 const JUPITER_API_BASE = `${ALLOWED_API_BASES.JUPITER}/v6`;
@@ -8,6 +9,9 @@ const JUPITER_API_BASE = `${ALLOWED_API_BASES.JUPITER}/v6`;
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     // Security: API keys should only come from environment variables, never from request body
     const apiKey = process.env.JUPITER_API_KEY;
@@ -2,6 +2,7 @@
 // Ultra API simplifies swap execution by handling quote + execution in one call
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { validateSolanaAddress, validateNumeric, safeEncodeParam, ALLOWED_API_BASES } from '@/app/lib/security/validation';
 
 const JUPITER_ULTRA_BASE = `${ALLOWED_API_BASES.JUPITER_ULTRA}/ultra`;
@@ -24,6 +25,9 @@ export const dynamic = 'force-dynamic';
  * }
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     // Security: API keys should only come from environment variables
     const apiKey = process.env.JUPITER_API_KEY;
@@ -163,6 +167,9 @@ export async function POST(request: NextRequest) {
  * Get quote using Ultra API (alternative to /quote endpoint)
  */
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const apiKey = process.env.JUPITER_API_KEY;
@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection } from '@solana/web3.js';
-import { EnhancedPerpetualMonitor } from '@/app/lib/perpetuals/enhanced-monitor';
+import { EnhancedPerpetualMonitor, isPerpetualProtocol, PerpetualContract } from '@/app/lib/perpetuals/enhanced-monitor';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const protocol = searchParams.get('protocol') as 'drift' | 'mango' | 'zetamarkets' | '01' | null;
+  const protocol = searchParams.get('protocol');
   const market = searchParams.get('market');
+
+  if (protocol !== null && !isPerpetualProtocol(protocol)) {
+    return NextResponse.json(
+      { error: `Unsupported protocol: ${protocol}. Supported: drift, jupiter`, success: false },
+      { status: 400 }
+    );
+  }
   
   try {
-    const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_DEVNET || 
-                   process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET || 
-                   'https://api.devnet.solana.com';
+    // Perp markets and oracles only exist on mainnet
+    const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET || 
+                   'https://api.mainnet-beta.solana.com';
     const connection = new Connection(rpcUrl, 'confirmed');
 
     const monitor = new EnhancedPerpetualMonitor(connection);
@@ -52,12 +59,18 @@ export async function GET(request: NextRequest) {
     // Monitor all major perpetual markets
     const markets = [
       { protocol: 'drift' as const, market: 'SOL-PERP' },
-      { protocol: 'mango' as const, market: 'SOL-PERP' },
+      { protocol: 'jupiter' as const, market: 'SOL-PERP' },
     ];
 
-    const contracts = await Promise.all(
+    // One protocol failing should not hide the others
+    const results = await Promise.allSettled(
       markets.map(m => monitor.monitorContract(m.protocol, m.market))
     );
+    const contracts = results.map((result, i) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.error(`Failed to monitor ${markets[i].protocol} ${markets[i].market}:`, result.reason);
+      return null;
+    });
 
     const allArbitrages = [];
     const solPools = state.pools.filter(p => 
@@ -76,7 +89,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Compare across protocols
-    const crossProtocol = monitor.compareProtocols('SOL-PERP', contracts.filter(Boolean) as any);
+    const crossProtocol = monitor.compareProtocols(
+      'SOL-PERP',
+      contracts.filter((c): c is PerpetualContract => c !== null)
+    );
 
     return NextResponse.json({
       success: true,
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 import { ArbitrageDetector } from '@/app/lib/pools/arbitrage';
@@ -8,6 +9,9 @@ import { DEFAULT_SCANNER_CONFIG } from '@/app/lib/pools/types';
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   const searchParams = request.nextUrl.searchParams;
   const opportunityId = searchParams.get('opportunityId');
   const minProfit = parseFloat(searchParams.get('minProfit') || '0.01');
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 import { GraphArbitrageDetector } from '@/app/lib/pools/graph-detector';
@@ -7,6 +8,9 @@ import { DEFAULT_SCANNER_CONFIG } from '@/app/lib/pools/types';
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   const searchParams = request.nextUrl.searchParams;
   const startToken = searchParams.get('startToken') || 'So11111111111111111111111111111111111111112'; // SOL
   const maxHops = parseInt(searchParams.get('maxHops') || '5', 10);
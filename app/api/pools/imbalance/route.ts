@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 import { ArbitrageDetector } from '@/app/lib/pools/arbitrage';
@@ -35,6 +36,9 @@ export interface ImbalanceSignal {
 }
 
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   const searchParams = request.nextUrl.searchParams;
   const signalTypes = searchParams.get('types')?.split(',') || [];
   let minSeverity = searchParams.get('severity') || 'low';
@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 import { DEFAULT_SCANNER_CONFIG } from '@/app/lib/pools/types';
@@ -16,6 +17,9 @@ export const dynamic = 'force-dynamic';
  * GET /api/pools/scan?network=mainnet&dexes=orca,raydium,meteora
  */
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const network = searchParams.get('network') || 'mainnet';
@@ -131,6 +135,12 @@ export async function GET(request: NextRequest) {
       
       const detector = new ArbitrageDetector(pools, config, connection);
       opportunities = await detector.detectOpportunities();
+
+      // Forward to webhook subscribers; delivery failures must not fail the scan
+      const { emitArbitrageOpportunities } = await import('@/app/lib/webhooks');
+      await emitArbitrageOpportunities(opportunities).catch(error =>
+        console.error('[Pool Scan API] Failed to emit webhook events:', error)
+      );
     }
 
     // Group pools by DEX
@@ -185,6 +195,9 @@ export async function GET(request: NextRequest) {
  * GET /api/pools/scan?tokenA=...&tokenB=...
  */
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const body = await request.json();
     const { tokenA, tokenB, network = 'mainnet' } = body;
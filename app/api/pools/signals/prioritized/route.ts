@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { PoolScanner } from '@/app/lib/pools/scanner';
 import { ArbitrageDetector } from '@/app/lib/pools/arbitrage';
@@ -22,6 +23,9 @@ interface PrioritizedSignal {
 }
 
 export async function GET(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const rpcUrl = process.env.NEXT_PUBLIC_SOLANA_RPC_DEVNET || 
                    process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET || 
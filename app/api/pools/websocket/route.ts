@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/app/lib/api-keys';
 import { Connection } from '@solana/web3.js';
 import { poolWebSocketManager } from '@/app/lib/pools/websocket';
 
@@ -7,6 +8,9 @@ export const dynamic = 'force-dynamic';
 // WebSocket endpoint for real-time pool updates
 // This would be upgraded to actual WebSocket in production
 export async function POST(request: NextRequest) {
+  const apiKeyError = await checkApiKey(request);
+  if (apiKeyError) return apiKeyError;
+
   try {
     const body = await request.json();
     const { pools, action } = body; // action: 'subscribe' | 'unsubscribe'
@@ -49,34 +49,20 @@ export async function POST(request: NextRequest) {
     }
 
     // 3. Check Server-Side Eligibility (Instead of client-side localStorage)
-    // Optimistic Lock: Mark as claimed immediately to prevent race conditions
-    // We will revert this if subsequent checks fail
-    const isClaimed = airdropStore.isClaimed(walletAddress);
-    if (isClaimed) {
+    // Claim atomically before any slow checks so concurrent requests cannot both pass;
+    // the claim is reverted if the checks or the transfer fail
+    const claimed = await airdropStore.claim(walletAddress, {
+      id: `claim_${Date.now()}_${walletAddress.slice(0, 8)}`,
+      amount: 10000,
+      requiresCNFT: true,
+      createdAt: new Date().toISOString(),
+    });
+    if (!claimed) {
        return NextResponse.json(
         { error: 'Airdrop already claimed' },
         { status: 403 }
       );
     }
-    
-    // Apply lock early to prevent race conditions
-    // Track whether record existed before so we can properly revert
-    const existingRecord = airdropStore.get(walletAddress);
-    const wasNewRecord = !existingRecord;
-    
-    if (existingRecord) {
-      airdropStore.updateStatus(walletAddress, 'claimed');
-    } else {
-      airdropStore.save({
-        id: `claim_${Date.now()}_${walletAddress.slice(0, 8)}`,
-        wallet: walletAddress,
-        amount: 10000,
-        status: 'claimed',
-        requiresCNFT: true,
-        createdAt: new Date().toISOString(),
-        claimedAt: new Date().toISOString()
-      });
-    }
 
     const walletPubkey = new PublicKey(walletAddress);
 
@@ -107,19 +93,8 @@ export async function POST(request: NextRequest) {
             throw new Error('Beta Tester Attestation not found');
         }
     } catch (error) {
-        // Revert lock if verification fails
-        if (wasNewRecord) {
-            // If we created a new record, remove it or set to reserved
-            const currentRecord = airdropStore.get(walletAddress);
-            if (currentRecord) {
-                currentRecord.status = 'reserved';
-                currentRecord.claimedAt = null;
-                airdropStore.save(currentRecord);
-            }
-        } else if (existingRecord) {
-            // If record existed before, revert to its previous status
-            airdropStore.updateStatus(walletAddress, 'reserved');
-        }
+        // Revert claim if verification fails
+        await airdropStore.updateStatus(walletAddress, 'reserved');
         return NextResponse.json({ error: error instanceof Error ? error.message : 'Verification failed' }, { status: 403 });
     }
 
@@ -127,6 +102,7 @@ export async function POST(request: NextRequest) {
     // WARNING: In production, treasury keypair should be stored securely (HSM, AWS KMS, etc.)
     const treasurySeed = process.env.SEAL_TREASURY_SEED;
     if (!treasurySeed) {
+      await airdropStore.updateStatus(walletAddress, 'reserved');
       return NextResponse.json(
         { error: 'Treasury wallet not configured' },
         { status: 500 }
@@ -139,13 +115,14 @@ export async function POST(request: NextRequest) {
     if (seedBuffer.length < 32) {
        // Pad with zeros if too short (unsafe but prevents crash, better to fail in prod)
        // Ideally, throw error.
+        await airdropStore.updateStatus(walletAddress, 'reserved');
         return NextResponse.json({ error: 'Invalid treasury seed configuration' }, { status: 500 });
     }
     seedBuffer = seedBuffer.slice(0, 32);
     const treasuryKeypair = Keypair.fromSeed(seedBuffer);
 
     // 5. Proceed with Transfer
-    // (Lock already applied in step 3)
+    // (Claim already recorded in step 3)
 
     // Process airdrop
     let signature;
@@ -157,18 +134,7 @@ export async function POST(request: NextRequest) {
       );
     } catch (error) {
       // Revert claim status on failure to allow retry
-      if (wasNewRecord) {
-        // If we created a new record, update it to reserved
-        const currentRecord = airdropStore.get(walletAddress);
-        if (currentRecord) {
-          currentRecord.status = 'reserved';
-          currentRecord.claimedAt = null;
-          airdropStore.save(currentRecord);
-        }
-      } else if (existingRecord) {
-        // If record existed before, revert to its previous status
-        airdropStore.updateStatus(walletAddress, 'reserved');
-      }
+      await airdropStore.updateStatus(walletAddress, 'reserved');
       throw error;
     }
 
@@ -215,7 +181,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const isClaimed = airdropStore.isClaimed(walletAddress);
+    const isClaimed = await airdropStore.isClaimed(walletAddress);
     
     // Verify cNFT ownership
     const host = request.headers.get('host') || 'localhost:3000';
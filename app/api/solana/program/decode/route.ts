@@ -1,10 +1,16 @@
-// API route to decode account data using Anchor IDL
+// API route to decode account, instruction or event data using Anchor IDL
 // POST /api/solana/program/decode
-// Body: { accountData: string (base64), idl?: object, accountType?: string }
+// Body: { accountData: string (base64), idl?: object, accountType?: string, dataType?: string }
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { validateSolanaAddress } from '@/app/lib/security/validation';
+import {
+  decodeIdlAccount,
+  decodeIdlEvent,
+  decodeIdlInstruction,
+  parseIdl,
+} from '@/app/lib/instructions/idl-decoder';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,14 +19,16 @@ export const dynamic = 'force-dynamic';
  * 
  * Body:
  * - accountData: Base64 encoded account data OR account address (required)
- * - idl: Anchor IDL JSON (optional, for Anchor program decoding)
- * - accountType: Account type name from IDL (optional)
+ * - idl: Anchor IDL JSON, legacy or 0.30+ format (optional, for Anchor program decoding)
+ * - accountType: Account type name from IDL (optional, detected from the discriminator if omitted)
+ * - dataType: 'account' | 'instruction' | 'event' (default: 'account')
+ * - accounts: Instruction account addresses in order, to name them from the IDL (optional)
  * - programId: Program ID if using account address instead of raw data (optional)
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { accountData, idl, accountType, programId: programIdParam } = body;
+    const { accountData, idl, accountType, dataType = 'account', accounts, programId: programIdParam } = body;
 
     if (!accountData) {
       return NextResponse.json(
@@ -72,20 +80,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // If IDL is provided, try to decode using Anchor
-    if (idl && accountType) {
+    // If IDL is provided, decode with it
+    if (idl) {
+      let parsedIdl;
       try {
-        // This would require @coral-xyz/anchor
-        // For now, return the raw data with a note
-        decodedData = {
-          note: 'Anchor IDL decoding requires @coral-xyz/anchor library. Raw data provided.',
+        parsedIdl = parseIdl(idl);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid IDL' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const decoded =
+          dataType === 'instruction'
+            ? decodeIdlInstruction(parsedIdl, rawData, Array.isArray(accounts) ? accounts : [])
+            : dataType === 'event'
+              ? decodeIdlEvent(parsedIdl, rawData)
+              : decodeIdlAccount(parsedIdl, rawData, accountType || undefined);
+
+        decodedData = decoded || {
+          error: `No ${dataType} in the IDL matches the data's discriminator`,
+          discriminator: rawData.subarray(0, 8).toString('hex'),
           rawData: rawData.toString('base64'),
-          hex: rawData.toString('hex'),
           length: rawData.length,
         };
       } catch (error) {
         decodedData = {
-          error: 'Failed to decode with IDL',
+          error: error instanceof Error ? error.message : 'Failed to decode with IDL',
           rawData: rawData.toString('base64'),
           hex: rawData.toString('hex'),
           length: rawData.length,
@@ -115,7 +138,8 @@ export async function POST(request: NextRequest) {
       metadata: {
         dataLength: rawData.length,
         hasIdl: !!idl,
-        accountType: accountType || null,
+        dataType,
+        accountType: (idl && dataType === 'account' && decodedData.name) || accountType || null,
       },
     });
   } catch (error) {
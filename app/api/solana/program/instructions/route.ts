@@ -1,12 +1,31 @@
 // API route to get program instructions/transactions
 // GET /api/solana/program/instructions?programId=<address>&limit=<number>&before=<signature>&until=<signature>
+// POST /api/solana/program/instructions with the same fields plus `idl` to decode instructions and events
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { validateSolanaAddress } from '@/app/lib/security/validation';
+import {
+  ParsedIdl,
+  decodeIdlEvent,
+  decodeIdlEventsFromLogs,
+  decodeIdlInstruction,
+  parseIdl,
+} from '@/app/lib/instructions/idl-decoder';
 
 export const dynamic = 'force-dynamic';
 
+type Commitment = 'finalized' | 'confirmed' | 'processed';
+
+interface InstructionsQuery {
+  programId: string | null;
+  limit: string | number | null;
+  before: string | null;
+  until: string | null;
+  commitment: Commitment;
+  idl?: unknown;
+}
+
 /**
  * Get recent instructions/transactions for a program
  * 
@@ -18,13 +37,44 @@ export const dynamic = 'force-dynamic';
  * - commitment: 'finalized' | 'confirmed' | 'processed' (default: 'confirmed')
  */
 export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  return getProgramInstructions({
+    programId: searchParams.get('programId'),
+    limit: searchParams.get('limit'),
+    before: searchParams.get('before'),
+    until: searchParams.get('until'),
+    commitment: (searchParams.get('commitment') || 'confirmed') as Commitment,
+  });
+}
+
+/**
+ * Same as GET, with the fields in the JSON body and an optional Anchor IDL (legacy or 0.30+).
+ * With an IDL, the program's instructions get a `decoded` field and each transaction the
+ * events the program emitted.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    return getProgramInstructions({
+      programId: body.programId ?? null,
+      limit: body.limit ?? null,
+      before: body.before ?? null,
+      until: body.until ?? null,
+      commitment: body.commitment || 'confirmed',
+      idl: body.idl,
+    });
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
+}
+
+async function getProgramInstructions(query: InstructionsQuery) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const programIdParam = searchParams.get('programId');
-    const limitParam = searchParams.get('limit');
-    const before = searchParams.get('before');
-    const until = searchParams.get('until');
-    const commitment = (searchParams.get('commitment') || 'confirmed') as 'finalized' | 'confirmed' | 'processed';
+    const { programId: programIdParam, before, until, commitment } = query;
+    const limitParam = query.limit === null ? null : String(query.limit);
 
     // Validate program ID
     if (!programIdParam) {
@@ -53,6 +103,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    let idl: ParsedIdl | null = null;
+    if (query.idl) {
+      try {
+        idl = parseIdl(query.idl);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid IDL' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Get RPC connection
     const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || 
                    (process.env.NEXT_PUBLIC_HELIUS_API_KEY 
@@ -79,6 +141,10 @@ export async function GET(request: NextRequest) {
 
           if (!tx) return null;
 
+          const accountKeys = tx.transaction.message.getAccountKeys({
+            accountKeysFromLookups: tx.meta?.loadedAddresses,
+          });
+
           return {
             signature: sigInfo.signature,
             slot: sigInfo.slot,
@@ -89,7 +155,11 @@ export async function GET(request: NextRequest) {
               programIdIndex: ix.programIdIndex,
               accounts: ix.accountKeyIndexes,
               data: Buffer.from(ix.data).toString('base64'),
+              ...(idl && accountKeys.get(ix.programIdIndex)?.equals(programId)
+                ? { decoded: decodeProgramInstruction(idl, Buffer.from(ix.data), ix.accountKeyIndexes.map(i => accountKeys.get(i)!)) }
+                : {}),
             })) || [],
+            ...(idl ? { events: decodeIdlEventsFromLogs(idl, tx.meta?.logMessages || []) } : {}),
           };
         } catch (error) {
           console.error(`Error fetching transaction ${sigInfo.signature}:`, error);
@@ -129,3 +199,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// emit_cpi! events arrive as self-invoked instructions, so try them as events as well
+function decodeProgramInstruction(idl: ParsedIdl, data: Buffer, accounts: PublicKey[]) {
+  try {
+    return decodeIdlInstruction(idl, data, accounts) || decodeIdlEvent(idl, data);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Failed to decode with IDL' };
+  }
+}
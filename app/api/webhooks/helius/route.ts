@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { CoreAIModel } from '@/app/lib/ai/core-model';
+import { emitBalanceChange, emitPumpFunLaunch } from '@/app/lib/webhooks';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -26,6 +27,8 @@ const DEX_PROGRAM_IDS = new Set([
   'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', // Jupiter v6
 ]);
 
+const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
 interface HeliusWebhookPayload {
   accountData?: Array<{
     account: string;
@@ -146,6 +149,12 @@ export async function POST(request: NextRequest) {
     const results = [];
 
     for (const transaction of payload) {
+      try {
+        await forwardWebhookEvents(transaction);
+      } catch (error) {
+        console.error('[Helius Webhook] Error forwarding events:', error);
+      }
+
       try {
         const result = await processTransaction(transaction);
         if (result) {
@@ -172,6 +181,29 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Forward balance changes and pump.fun launches to outbound webhook subscribers
+ */
+async function forwardWebhookEvents(tx: HeliusWebhookPayload): Promise<void> {
+  for (const account of tx.accountData || []) {
+    if (account.nativeBalanceChange) {
+      await emitBalanceChange(account.account, account.nativeBalanceChange, tx.signature, tx.slot, tx.timestamp);
+    }
+  }
+
+  const isPumpFunCreate = tx.type === 'CREATE' &&
+    (tx.instructions || []).some(inst => inst.programId === PUMPFUN_PROGRAM_ID);
+  const mint = tx.tokenTransfers?.[0]?.mint;
+  if (isPumpFunCreate && mint) {
+    await emitPumpFunLaunch({
+      mint,
+      creator: tx.feePayer || '',
+      signature: tx.signature,
+      createdAt: tx.timestamp * 1000,
+    });
+  }
+}
+
 /**
  * Process a single transaction from Helius webhook
  */
@@ -0,0 +1,170 @@
+/**
+ * Webhook Subscriptions API
+ * Register endpoints for platform events, inspect deliveries and test-fire
+ * POST /api/webhooks/subscriptions { action, wallet, signature, timestamp, ... }
+ *
+ * Actions: list, create, update, rotate-secret, delete, test, deliveries, dead-letters, redrive
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  updateWebhookSubscription,
+  rotateWebhookSecret,
+  deleteWebhookSubscription,
+  sendTestEvent,
+  listDeliveries,
+  listDeadLetters,
+  redriveDeadLetter,
+  WEBHOOK_EVENT_TYPES,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from '@/app/lib/webhooks';
+import { verifyTimestampedSignature } from '@/app/lib/security/auth';
+import { rateLimitByIp } from '@/app/lib/security/rate-limit';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Available event types and how deliveries are signed
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    events: Object.entries(WEBHOOK_EVENT_TYPES).map(([type, description]) => ({ type, description })),
+    signing: {
+      algorithm: 'HMAC-SHA256',
+      signatureHeader: SIGNATURE_HEADER,
+      timestampHeader: TIMESTAMP_HEADER,
+      signedContent: '<timestamp>.<raw body>',
+    },
+  });
+}
+
+/**
+ * Manage webhooks (requires wallet signature)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    if (!rateLimitByIp(request)) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, wallet, signature, timestamp } = body;
+
+    if (!action || !wallet) {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, wallet' },
+        { status: 400 }
+      );
+    }
+
+    // Authentication: Verify signature
+    if (!signature || !timestamp) {
+      return NextResponse.json(
+        { error: 'Authentication required: signature and timestamp missing' },
+        { status: 401 }
+      );
+    }
+
+    const isValid = verifyTimestampedSignature(Number(timestamp), signature, wallet);
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Invalid signature or timestamp expired' },
+        { status: 401 }
+      );
+    }
+
+    const { webhookId, deliveryId } = body;
+    const needsWebhookId = ['update', 'rotate-secret', 'delete', 'test'].includes(action);
+    if (needsWebhookId && !webhookId) {
+      return NextResponse.json({ error: 'Missing required field: webhookId' }, { status: 400 });
+    }
+
+    switch (action) {
+      case 'list':
+        return NextResponse.json({
+          success: true,
+          webhooks: await listWebhookSubscriptions(wallet),
+        });
+
+      case 'create': {
+        const { url, events, accounts, description } = body;
+        const created = await createWebhookSubscription(wallet, { url, events, accounts, description });
+        return NextResponse.json({
+          success: true,
+          webhook: created.subscription,
+          secret: created.secret,
+        });
+      }
+
+      case 'update': {
+        const { url, events, accounts, description, active } = body;
+        return NextResponse.json({
+          success: true,
+          webhook: await updateWebhookSubscription(wallet, webhookId, { url, events, accounts, description, active }),
+        });
+      }
+
+      case 'rotate-secret':
+        return NextResponse.json({
+          success: true,
+          secret: await rotateWebhookSecret(wallet, webhookId),
+        });
+
+      case 'delete':
+        await deleteWebhookSubscription(wallet, webhookId);
+        return NextResponse.json({ success: true });
+
+      case 'test':
+        return NextResponse.json({
+          success: true,
+          delivery: await sendTestEvent(wallet, webhookId),
+        });
+
+      case 'deliveries':
+        return NextResponse.json({
+          success: true,
+          deliveries: await listDeliveries(wallet, {
+            subscriptionId: webhookId,
+            status: body.status,
+            limit: Math.min(Number(body.limit) || 50, 100),
+          }),
+        });
+
+      case 'dead-letters':
+        return NextResponse.json({
+          success: true,
+          deliveries: await listDeadLetters(wallet),
+        });
+
+      case 'redrive':
+        if (!deliveryId) {
+          return NextResponse.json({ error: 'Missing required field: deliveryId' }, { status: 400 });
+        }
+        return NextResponse.json({
+          success: true,
+          delivery: await redriveDeadLetter(wallet, deliveryId),
+        });
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Webhook subscription error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection } from '@solana/web3.js';
 import { WhaleTracker } from '@/app/lib/whales/tracker';
+import { forwardWhaleSignals } from '@/app/lib/webhooks';
 
 export const dynamic = 'force-dynamic';
 
@@ -16,6 +17,7 @@ export async function GET(request: NextRequest) {
     const connection = new Connection(rpcUrl, 'confirmed');
 
     const tracker = new WhaleTracker(connection);
+    forwardWhaleSignals(tracker);
     
     // If specific address requested
     if (address) {
@@ -23,6 +23,7 @@ import {
   ArrowLeft,
   Brain,
 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { PoolScanner } from '../lib/pools/scanner';
 import { ArbitrageDetector } from '../lib/pools/arbitrage';
@@ -32,6 +33,8 @@ import {
   ScannerConfig,
   DEFAULT_SCANNER_CONFIG,
   DEXProtocol,
+  TokenInfo,
+  WSOL_MINT,
 } from '../lib/pools/types';
 import { UnifiedAIAgents } from './UnifiedAIAgents';
 import { useUsageTracking } from '../hooks/useUsageTracking';
@@ -43,6 +46,17 @@ import { Arbitrage3DVisualization } from './charts/Arbitrage3DVisualization';
 import { useArbitrageAI } from '../hooks/useArbitrageAI';
 import { ArbitrageScanningResults } from '../lib/arbitrage/arbitrage-result-schema';
 
+// Raw amounts are in the start token's smallest unit (lamports for SOL, 1e-6 for USDC, ...)
+function toWholeTokens(amount: bigint, token: TokenInfo): number {
+  return Number(amount) / Math.pow(10, token.decimals);
+}
+
+// Profit and net profit are valued in SOL; routes starting elsewhere also show what they make in their own token
+function formatStartTokenProfit(opportunity: ArbitrageOpportunity, digits: number): string | null {
+  if (!opportunity.sizing || opportunity.path.startToken.mint === WSOL_MINT) return null;
+  return `${opportunity.sizing.optimalProfit.toFixed(digits)} ${opportunity.path.startToken.symbol}`;
+}
+
 interface ArbitrageScannerProps {
   onBuildTransaction?: (opportunity: ArbitrageOpportunity) => void;
   onBack?: () => void;
@@ -75,6 +89,18 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
   // Capture the opportunity when modal opens to avoid stale closure issues
   const modalOpportunityRef = useRef<ArbitrageOpportunity | null>(null);
 
+  // One detector for the component's lifetime, so its cycle graph keeps streaming pool updates between scans
+  const detectorRef = useRef<ArbitrageDetector | null>(null);
+  const detachLiveUpdatesRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    return () => {
+      detachLiveUpdatesRef.current?.();
+      detachLiveUpdatesRef.current = null;
+      detectorRef.current = null;
+    };
+  }, [connection]);
+
   const handleExecuteClick = (opportunity: ArbitrageOpportunity) => {
     // Capture the opportunity in a ref when modal opens
     modalOpportunityRef.current = opportunity;
@@ -138,8 +164,27 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
           console.error('Error initializing Birdeye optimizer:', error);
         }
         
-        const detector = new ArbitrageDetector(state.pools, config, connection, birdeyeOptimizer);
+        let detector = detectorRef.current;
+        if (detector) {
+          detector.setPools(state.pools);
+          detector.updateConfig(config);
+          detector.setBirdeyeOptimizer(birdeyeOptimizer);
+        } else {
+          detector = new ArbitrageDetector(state.pools, config, connection, birdeyeOptimizer);
+          detectorRef.current = detector;
+        }
         const detected = await detector.detectOpportunities();
+
+        // Cycles opened by streamed pool updates show up before the next scan
+        if (!detachLiveUpdatesRef.current) {
+          detachLiveUpdatesRef.current = detector.attachLiveUpdates(streamed => {
+            setOpportunities(prev => {
+              const known = new Set(prev.map(opp => opp.path.steps.map(step => step.pool.id).join('>')));
+              const fresh = streamed.filter(opp => !known.has(opp.path.steps.map(step => step.pool.id).join('>')));
+              return fresh.length > 0 ? [...fresh, ...prev] : prev;
+            });
+          });
+        }
         
         // Also find unconventional opportunities via AI searcher
         try {
@@ -565,7 +610,9 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
           className="bg-slate-800 border border-slate-700 rounded px-3 py-2"
         >
           <option value="all">All DEXs</option>
-          <option value="raydium">Raydium</option>
+          <option value="raydium">Raydium AMM</option>
+          <option value="raydium_clmm">Raydium CLMM</option>
+          <option value="raydium_cpmm">Raydium CPMM</option>
           <option value="orca">Orca</option>
           <option value="jupiter">Jupiter</option>
           <option value="meteora">Meteora</option>
@@ -619,6 +666,7 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
                   <th className="pb-2 text-slate-400">Profit</th>
                   <th className="pb-2 text-slate-400">Profit %</th>
                   <th className="pb-2 text-slate-400">Net Profit</th>
+                  <th className="pb-2 text-slate-400">Optimal Size</th>
                   <th className="pb-2 text-slate-400">Confidence</th>
                   <th className="pb-2 text-slate-400">Hops</th>
                   <th className="pb-2 text-slate-400">Actions</th>
@@ -654,6 +702,9 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
                       <span className="text-green-400 font-medium">
                         {opp.profit.toFixed(4)} SOL
                       </span>
+                      {formatStartTokenProfit(opp, 4) && (
+                        <div className="text-[10px] text-slate-500">{formatStartTokenProfit(opp, 4)}</div>
+                      )}
                     </td>
                     <td className="py-3">
                       <span className="text-teal-400">
@@ -665,6 +716,17 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
                         {opp.netProfit.toFixed(4)} SOL
                       </span>
                     </td>
+                    <td className="py-3">
+                      <span className="text-slate-200">
+                        {toWholeTokens(opp.sizing?.optimalInputAmount ?? opp.inputAmount, opp.path.startToken).toFixed(3)}{' '}
+                        {opp.path.startToken.symbol}
+                      </span>
+                      {opp.sizing && (
+                        <div className="text-[10px] text-slate-500">
+                          marginal {opp.sizing.marginalProfit.toExponential(2)}
+                        </div>
+                      )}
+                    </td>
                     <td className="py-3">
                       <span className={`px-2 py-1 rounded text-xs ${
                         opp.confidence >= 0.7 ? 'bg-green-900/50 text-green-400' :
@@ -747,7 +809,9 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
                 <div className="bg-slate-800/50 rounded p-3 border border-slate-800 mb-4">
                   <div className="flex justify-between text-sm mb-1">
                     <span className="text-slate-400">Profit:</span>
-                    <span className="text-green-400 font-mono">+{capturedOpportunity.profit.toFixed(5)} SOL</span>
+                    <span className="text-green-400 font-mono">+{capturedOpportunity.profit.toFixed(5)} SOL
+                      {formatStartTokenProfit(capturedOpportunity, 5) && ` (${formatStartTokenProfit(capturedOpportunity, 5)})`}
+                    </span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-slate-400">Confidence:</span>
@@ -755,6 +819,48 @@ export function ArbitrageScanner({ onBuildTransaction, onBack }: ArbitrageScanne
                       {((capturedOpportunity.confidence || 0) * 100).toFixed(0)}%
                     </span>
                   </div>
+                  {capturedOpportunity.sizing && (
+                    <>
+                      <div className="flex justify-between text-sm mt-1">
+                        <span className="text-slate-400">Optimal Size:</span>
+                        <span className="text-slate-200 font-mono">
+                          {toWholeTokens(capturedOpportunity.sizing.optimalInputAmount, capturedOpportunity.path.startToken).toFixed(4)}{' '}
+                          {capturedOpportunity.path.startToken.symbol}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-slate-400">Marginal Profit:</span>
+                        <span className="text-slate-200 font-mono">
+                          {capturedOpportunity.sizing.marginalProfit.toExponential(2)}
+                        </span>
+                      </div>
+                      {capturedOpportunity.sizing.profitCurve.length > 1 && (
+                        <div className="h-24 mt-2">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart
+                              data={capturedOpportunity.sizing.profitCurve.map(point => ({
+                                size: toWholeTokens(point.inputAmount, capturedOpportunity.path.startToken),
+                                profit: point.profit,
+                              }))}
+                            >
+                              <XAxis dataKey="size" hide />
+                              <YAxis hide domain={['auto', 'auto']} />
+                              <Tooltip
+                                formatter={(value: number) => [`${value.toFixed(5)} ${capturedOpportunity.path.startToken.symbol}`, 'Profit']}
+                                labelFormatter={(size: number) => `Size: ${size.toFixed(4)} ${capturedOpportunity.path.startToken.symbol}`}
+                              />
+                              <ReferenceLine
+                                x={toWholeTokens(capturedOpportunity.sizing.optimalInputAmount, capturedOpportunity.path.startToken)}
+                                stroke="#14b8a6"
+                                strokeDasharray="3 3"
+                              />
+                              <Line type="monotone" dataKey="profit" stroke="#22c55e" dot={false} />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
 
                 <p className="text-slate-300 text-sm mb-4">
@@ -23,6 +23,13 @@ import {
   getTemplateById 
 } from '../lib/instructions/templates';
 import { TransactionBuilder } from '../lib/transaction-builder';
+import {
+  ParsedIdl,
+  decodeIdlAccount,
+  decodeIdlEvent,
+  decodeIdlInstruction,
+  parseIdl
+} from '../lib/instructions/idl-decoder';
 
 interface InstructionAssemblerProps {
   onTransactionBuilt?: (transaction: any, cost: any) => void;
@@ -39,6 +46,7 @@ export function InstructionAssembler({ onTransactionBuilt }: InstructionAssemble
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
   const [isBuilding, setIsBuilding] = useState(false);
   const [buildError, setBuildError] = useState<string | null>(null);
+  const [showIdlInspector, setShowIdlInspector] = useState(false);
 
   const categories = [
     { id: 'system', name: 'System', icon: '🏠' },
@@ -129,7 +137,10 @@ export function InstructionAssembler({ onTransactionBuilt }: InstructionAssemble
     instruction.template.args.forEach(arg => {
       const value = instruction.args[arg.name];
       if (value === undefined || value === '') {
-        errors.push(`Missing required argument: ${arg.name}`);
+        if (!arg.isOptional) {
+          errors.push(`Missing required argument: ${arg.name}`);
+        }
+        return;
       }
 
       // Type-specific validation
@@ -220,6 +231,14 @@ export function InstructionAssembler({ onTransactionBuilt }: InstructionAssemble
         </div>
         
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowIdlInspector(!showIdlInspector)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-200 font-medium transition-colors"
+          >
+            <Code className="h-4 w-4" />
+            <span>Decode with IDL</span>
+          </button>
+
           <button
             onClick={() => setShowTemplateSelector(true)}
             className="flex items-center space-x-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-medium transition-colors"
@@ -250,6 +269,9 @@ export function InstructionAssembler({ onTransactionBuilt }: InstructionAssemble
         </div>
       </div>
 
+      {/* IDL Inspector */}
+      {showIdlInspector && <IdlInspector connection={connection} />}
+
       {/* Popular Templates Section */}
       <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
         <h3 className="text-lg font-semibold text-white mb-3">Popular Instructions</h3>
@@ -472,6 +494,130 @@ function InstructionCard({
   );
 }
 
+// IDL Inspector: decode account, instruction or event data of any Anchor program from its IDL
+function IdlInspector({ connection }: { connection: Connection }) {
+  const [idlJson, setIdlJson] = useState('');
+  const [dataType, setDataType] = useState<'account' | 'instruction' | 'event'>('account');
+  const [input, setInput] = useState('');
+  const [accountType, setAccountType] = useState('');
+  const [result, setResult] = useState<unknown>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+
+  let idl: ParsedIdl | null = null;
+  let idlError: string | null = null;
+  if (idlJson.trim()) {
+    try {
+      idl = parseIdl(JSON.parse(idlJson));
+    } catch (e) {
+      idlError = e instanceof Error ? e.message : 'Invalid IDL';
+    }
+  }
+
+  const handleDecode = async () => {
+    if (!idl || !input.trim()) return;
+    setIsDecoding(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      let data: Buffer;
+      const value = input.trim();
+      // Accounts can be given by address; everything else is base64 (or hex with 0x)
+      if (dataType === 'account' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) {
+        const accountInfo = await connection.getAccountInfo(new PublicKey(value));
+        if (!accountInfo) {
+          throw new Error('Account not found');
+        }
+        data = Buffer.from(accountInfo.data);
+      } else if (value.startsWith('0x')) {
+        data = Buffer.from(value.slice(2), 'hex');
+      } else {
+        data = Buffer.from(value, 'base64');
+      }
+
+      const decoded =
+        dataType === 'instruction'
+          ? decodeIdlInstruction(idl, data)
+          : dataType === 'event'
+            ? decodeIdlEvent(idl, data)
+            : decodeIdlAccount(idl, data, accountType || undefined);
+      if (!decoded) {
+        throw new Error(`No ${dataType} in the IDL matches discriminator ${data.subarray(0, 8).toString('hex')}`);
+      }
+      setResult(decoded);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to decode');
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50 space-y-3">
+      <h3 className="text-lg font-semibold text-white">Decode with IDL</h3>
+      <textarea
+        value={idlJson}
+        onChange={(e) => setIdlJson(e.target.value)}
+        placeholder="Paste an Anchor IDL (legacy or 0.30+ JSON)"
+        rows={6}
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-gray-200 placeholder-gray-500 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      {idlError && <p className="text-sm text-red-400">{idlError}</p>}
+      {idl && (
+        <p className="text-xs text-gray-500">
+          {idl.name || 'Program'} ({idl.format} IDL): {idl.instructions.length} instructions, {idl.accounts.length} accounts, {idl.events.length} events
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={dataType}
+          onChange={(e) => setDataType(e.target.value as 'account' | 'instruction' | 'event')}
+          className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          <option value="account">Account</option>
+          <option value="instruction">Instruction</option>
+          <option value="event">Event</option>
+        </select>
+        {dataType === 'account' && (
+          <select
+            value={accountType}
+            onChange={(e) => setAccountType(e.target.value)}
+            className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="">Auto-detect type</option>
+            {idl?.accounts.map(account => (
+              <option key={account.name} value={account.name}>{account.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={dataType === 'account' ? 'Account address or base64 data' : 'Base64 or 0x-prefixed hex data'}
+          className="flex-1 min-w-[16rem] px-3 py-2 bg-gray-900 border border-gray-700 rounded-md text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          onClick={handleDecode}
+          disabled={!idl || !input.trim() || isDecoding}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-white font-medium transition-colors"
+        >
+          {isDecoding ? 'Decoding...' : 'Decode'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {result !== null && (
+        <pre className="max-h-96 overflow-auto p-3 bg-gray-900 border border-gray-700 rounded-md text-xs text-gray-300">
+          {JSON.stringify(result, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
 // Template Selector Modal
 function TemplateSelectorModal({ 
   categories, 
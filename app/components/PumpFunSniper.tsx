@@ -3,8 +3,8 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, createTransferInstruction } from '@solana/spl-token';
 import { PumpFunStream, PumpFunStreamEvent, PumpFunToken } from '../lib/pumpfun/stream';
+import { PumpFunPosition, evaluateExit, loadPumpFunMarket, planPumpFunBuy, planPumpFunSell } from '../lib/pumpfun/trade';
 import { PumpFunQuickNodeStream } from '../lib/pumpfun/quicknode-stream';
 import { SnipingAnalysis } from '../lib/pumpfun/ai-analysis';
 import { 
@@ -32,6 +32,9 @@ interface SnipingConfig {
   maxInvestment: number; // SOL
   minConfidence: number; // 0-100
   maxRiskLevel: 'low' | 'medium' | 'high' | 'very_high';
+  slippageBps: number;
+  takeProfitPct: number; // Sell when up this much (100 = 2x), 0 to disable
+  stopLossPct: number; // Sell when down this much, 0 to disable
   filters: {
     minMarketCap: number;
     maxMarketCap: number;
@@ -50,12 +53,17 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
   const [tokens, setTokens] = useState<Map<string, PumpFunToken>>(new Map());
   const [analyses, setAnalyses] = useState<Map<string, SnipingAnalysis>>(new Map());
   const [snipedTokens, setSnipedTokens] = useState<Set<string>>(new Set());
+  // Open positions by mint; a ref so stream callbacks always see the latest entries
+  const positionsRef = useRef<Map<string, PumpFunPosition>>(new Map());
   const [config, setConfig] = useState<SnipingConfig>({
     enabled: false,
     autoSnipe: false,
     maxInvestment: 0.1, // 0.1 SOL default
     minConfidence: 70,
     maxRiskLevel: 'medium',
+    slippageBps: 500,
+    takeProfitPct: 100,
+    stopLossPct: 30,
     filters: {
       minMarketCap: 0,
       maxMarketCap: 1000000,
@@ -106,36 +114,6 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
     };
   }, [connection]);
 
-  // Handle stream events
-  useEffect(() => {
-    if (!stream || !isStreaming) return;
-
-    const unsubscribe = stream.onEvent(async (event: PumpFunStreamEvent) => {
-      console.log('[PumpFun Sniper] New event:', event);
-
-      // Update token data
-      setTokens(prev => {
-        const updated = new Map(prev);
-        updated.set(event.token.mint, event.token);
-        return updated;
-      });
-
-      setStats(prev => ({
-        ...prev,
-        tokensDetected: prev.tokensDetected + 1,
-      }));
-
-      // Auto-analyze if enabled
-      if (config.enabled) {
-        await analyzeToken(event.token);
-      }
-    });
-
-    return () => {
-      unsubscribe();
-    };
-  }, [stream, isStreaming, config.enabled]);
-
   /**
    * Check if token passes filters
    */
@@ -186,45 +164,31 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
         config.maxInvestment
       ) * LAMPORTS_PER_SOL;
 
-      // Build buy transaction for pump.fun
-      // Note: This is a simplified example - actual pump.fun buy requires their program interaction
-      const transaction = new Transaction();
-      
-      // Get associated token account
-      const mintPubkey = new PublicKey(token.mint);
-      const userAta = await getAssociatedTokenAddress(mintPubkey, publicKey);
-      
-      // Check if ATA exists, create if not
-      try {
-        await connection.getAccountInfo(userAta);
-      } catch {
-        transaction.add(
-          createAssociatedTokenAccountInstruction(
-            publicKey,
-            userAta,
-            publicKey,
-            mintPubkey,
-            TOKEN_PROGRAM_ID
-          )
-        );
-      }
-
-      // TODO: Add actual pump.fun buy instruction
-      // This requires the pump.fun program ID and buy instruction builder
-      // For now, this is a placeholder structure
+      // Buys on the bonding curve, or on the Raydium pool once the token has graduated
+      const plan = await planPumpFunBuy(connection, {
+        mint: token.mint,
+        user: publicKey,
+        amount: BigInt(Math.floor(investmentAmount)),
+        slippageBps: config.slippageBps,
+        raydiumPool: token.raydiumPool,
+      });
+      const transaction = new Transaction().add(...plan.instructions);
 
       const signature = await sendTransaction(transaction, connection);
       await connection.confirmTransaction(signature, 'confirmed');
 
+      positionsRef.current.set(token.mint, {
+        mint: token.mint,
+        tokenAmount: plan.quote.amountOut,
+        costLamports: plan.quote.amountIn,
+      });
       setSnipedTokens(prev => new Set(prev).add(token.mint));
       setStats(prev => ({
         ...prev,
         snipesExecuted: prev.snipesExecuted + 1,
         snipesSuccessful: prev.snipesSuccessful + 1,
-        totalInvested: prev.totalInvested + investmentAmount / LAMPORTS_PER_SOL,
+        totalInvested: prev.totalInvested + Number(plan.quote.amountIn) / LAMPORTS_PER_SOL,
       }));
-
-      console.log('[PumpFun Sniper] Sniped token:', token.symbol, signature);
     } catch (error) {
       console.error('[PumpFun Sniper] Snipe execution error:', error);
       setStats(prev => ({
@@ -234,6 +198,43 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
     }
   }, [publicKey, sendTransaction, connection, config]);
 
+  /**
+   * Sell a sniped position once it crosses the take-profit or stop-loss level
+   */
+  const checkExit = useCallback(async (token: PumpFunToken) => {
+    const position = positionsRef.current.get(token.mint);
+    if (!position || !publicKey || !sendTransaction) return;
+
+    try {
+      const market = await loadPumpFunMarket(connection, token.mint, token.raydiumPool);
+      const decision = evaluateExit(position, market, {
+        takeProfitPct: config.takeProfitPct || undefined,
+        stopLossPct: config.stopLossPct || undefined,
+      });
+      if (!decision.trigger) return;
+
+      // Claim the position before sending so later events do not sell it twice
+      positionsRef.current.delete(token.mint);
+      const plan = await planPumpFunSell(connection, {
+        mint: token.mint,
+        user: publicKey,
+        amount: position.tokenAmount,
+        slippageBps: config.slippageBps,
+        raydiumPool: token.raydiumPool,
+      });
+      const signature = await sendTransaction(new Transaction().add(...plan.instructions), connection);
+      await connection.confirmTransaction(signature, 'confirmed');
+
+      setStats(prev => ({
+        ...prev,
+        totalProfit: prev.totalProfit + Number(plan.quote.amountOut - position.costLamports) / LAMPORTS_PER_SOL,
+      }));
+    } catch (error) {
+      positionsRef.current.set(token.mint, position);
+      console.error('[PumpFun Sniper] Exit error:', error);
+    }
+  }, [publicKey, sendTransaction, connection, config]);
+
   /**
    * Analyze token with AI
    */
@@ -277,6 +278,40 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
     }
   }, [config, executeSnipe]);
 
+  // Handle stream events
+  useEffect(() => {
+    if (!stream || !isStreaming) return;
+
+    const unsubscribe = stream.onEvent(async (event: PumpFunStreamEvent) => {
+      // Update token data
+      setTokens(prev => {
+        const updated = new Map(prev);
+        updated.set(event.token.mint, event.token);
+        return updated;
+      });
+
+      setStats(prev => ({
+        ...prev,
+        tokensDetected: prev.tokensDetected + 1,
+      }));
+
+      // Price moves on held tokens may trigger an exit
+      if (positionsRef.current.has(event.token.mint)) {
+        await checkExit(event.token);
+        return;
+      }
+
+      // Auto-analyze if enabled
+      if (config.enabled) {
+        await analyzeToken(event.token);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [stream, isStreaming, config.enabled, checkExit]);
+
   /**
    * Toggle stream
    */
@@ -410,6 +445,41 @@ export function PumpFunSniper({ onBack }: PumpFunSniperProps) {
                   max="100"
                 />
               </div>
+              <div>
+                <label className="text-gray-300 block mb-2">Slippage (%)</label>
+                <input
+                  type="number"
+                  value={config.slippageBps / 100}
+                  onChange={(e) => setConfig(prev => ({ ...prev, slippageBps: Math.round((parseFloat(e.target.value) || 0) * 100) }))}
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg"
+                  step="0.1"
+                  min="0"
+                  max="50"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-gray-300 block mb-2">Take Profit (%)</label>
+                  <input
+                    type="number"
+                    value={config.takeProfitPct}
+                    onChange={(e) => setConfig(prev => ({ ...prev, takeProfitPct: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg"
+                    min="0"
+                  />
+                </div>
+                <div>
+                  <label className="text-gray-300 block mb-2">Stop Loss (%)</label>
+                  <input
+                    type="number"
+                    value={config.stopLossPct}
+                    onChange={(e) => setConfig(prev => ({ ...prev, stopLossPct: parseFloat(e.target.value) || 0 }))}
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg"
+                    min="0"
+                    max="100"
+                  />
+                </div>
+              </div>
             </div>
           </div>
         )}
@@ -148,7 +148,7 @@ export function TransactionBundler({ onBack }: TransactionBundlerProps) {
       // Register created wallets
       if (createdWallets && createdWallets.length > 0) {
         for (const wallet of createdWallets) {
-          walletRegistry.registerWallet(
+          await walletRegistry.registerWallet(
             wallet.keypair.publicKey.toString(),
             wallet.keypair,
             wallet.label || `Bundler Wallet ${Date.now()}`,
@@ -1,10 +1,11 @@
 import React from 'react';
-import { Transaction, PublicKey } from '@solana/web3.js';
-import { X, Send, DollarSign, Eye, Key } from 'lucide-react';
+import { Transaction, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { X, Send, DollarSign, Eye, Key, Minimize2 } from 'lucide-react';
+import { TransactionSizeReport } from '../lib/lookup-tables';
 
 interface TransactionPreviewProps {
-  transaction: Transaction;
-  cost: { lamports: number; sol: number };
+  transaction: Transaction | VersionedTransaction;
+  cost: { lamports: number; sol: number; size?: TransactionSizeReport };
   onExecute: () => void;
   onClose: () => void;
   onSimulate?: () => void; // Add simulation option
@@ -15,6 +16,7 @@ interface TransactionPreviewProps {
 // Add instruction name mapping
 const PROGRAM_NAMES: Record<string, string> = {
   '11111111111111111111111111111112': 'System Program',
+  'AddressLookupTab1e1111111111111111111111111': 'Address Lookup Table',
   'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA': 'SPL Token',
   'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL': 'Associated Token',
   'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s': 'Metaplex Metadata',
@@ -41,21 +43,53 @@ export function TransactionPreview({
     return PROGRAM_NAMES[key] || `${key.slice(0, 8)}...`;
   };
 
-  const getInstructionSummary = (instruction: any, index: number) => {
+  const isVersioned = transaction instanceof VersionedTransaction;
+
+  // v0 instructions reference accounts by index; indexes past the static keys come from lookup tables
+  const instructions = transaction instanceof VersionedTransaction
+    ? transaction.message.compiledInstructions.map(instruction => {
+        const staticKeys = transaction.message.staticAccountKeys;
+        return {
+          programId: staticKeys[instruction.programIdIndex],
+          keys: instruction.accountKeyIndexes.map(index =>
+            index < staticKeys.length ? staticKeys[index].toString() : `ALT#${index - staticKeys.length}`
+          ),
+          data: instruction.data,
+        };
+      })
+    : transaction.instructions.map(instruction => ({
+        programId: instruction.programId,
+        keys: instruction.keys.map(key => key.pubkey.toString()),
+        data: instruction.data,
+      }));
+
+  const feePayer = transaction instanceof VersionedTransaction
+    ? transaction.message.staticAccountKeys[0]
+    : transaction.feePayer;
+  const recentBlockhash = transaction instanceof VersionedTransaction
+    ? transaction.message.recentBlockhash
+    : transaction.recentBlockhash;
+  const lastValidBlockHeight = transaction instanceof VersionedTransaction
+    ? undefined
+    : transaction.lastValidBlockHeight;
+
+  const getInstructionSummary = (instruction: typeof instructions[number], index: number) => {
     const programName = getProgramName(instruction.programId);
-    const accountCount = instruction.keys?.length || 0;
-    const dataSize = instruction.data?.length || 0;
+    const accountCount = instruction.keys.length;
+    const dataSize = instruction.data.length;
     
     return {
       programName,
       accountCount,
       dataSize,
-      accounts: instruction.keys?.slice(0, 3).map((key: any) => 
-        key.pubkey.toString().slice(0, 8) + '...'
-      ) || []
+      accounts: instruction.keys.slice(0, 3).map(key => 
+        key.startsWith('ALT#') ? key : key.slice(0, 8) + '...'
+      )
     };
   };
 
+  const size = cost.size;
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-gray-900 border border-gray-700 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden">
@@ -100,16 +134,58 @@ export function TransactionPreview({
             </div>
           </div>
 
+          {/* Size Summary */}
+          {size && (
+            <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <Minimize2 className="h-5 w-5 text-blue-400" />
+                  <h3 className="font-semibold text-white">Transaction Size</h3>
+                </div>
+                <span className="px-2 py-1 bg-gray-700 text-xs rounded-full text-gray-300">
+                  {isVersioned ? 'v0' : 'legacy'}
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-400">Legacy:</span>
+                  <div className={`font-mono mt-1 ${size.fitsLegacy ? 'text-gray-200' : 'text-red-400'}`}>
+                    {size.legacyBytes} / {size.maxBytes} bytes
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-400">v0 with lookup tables:</span>
+                  <div className={`font-mono mt-1 ${size.fitsVersioned ? 'text-gray-200' : 'text-red-400'}`}>
+                    {size.versionedBytes} / {size.maxBytes} bytes
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-400">Saved:</span>
+                  <div className="font-mono text-green-400 mt-1">{size.savedBytes} bytes</div>
+                </div>
+              </div>
+              {size.compressedAccounts.length > 0 && (
+                <div className="mt-3 text-xs text-gray-400">
+                  <span className="font-medium">
+                    {size.compressedAccounts.length} accounts loaded from {size.lookupTables.length} lookup table(s):{' '}
+                  </span>
+                  {size.compressedAccounts.slice(0, 4).map(account => account.slice(0, 8) + '...').join(', ')}
+                  {size.compressedAccounts.length > 4 && ` +${size.compressedAccounts.length - 4} more`}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Instructions Summary */}
           <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700/50">
             <div className="flex items-center justify-between mb-3">
-              <h3 className="font-semibold text-white">Instructions ({transaction.instructions.length})</h3>
+              <h3 className="font-semibold text-white">Instructions ({instructions.length})</h3>
               <span className="text-xs text-gray-500">
-                {transaction.recentBlockhash ? 'Ready to execute' : 'Missing blockhash'}
+                {recentBlockhash ? 'Ready to execute' : 'Missing blockhash'}
               </span>
             </div>
             <div className="space-y-3">
-              {transaction.instructions.map((instruction, index) => {
+              {instructions.map((instruction, index) => {
                 const summary = getInstructionSummary(instruction, index);
                 return (
                   <div key={index} className="p-3 bg-gray-900/50 rounded border border-gray-700/30">
@@ -150,25 +226,25 @@ export function TransactionPreview({
               <div>
                 <span className="text-gray-400">Fee Payer:</span>
                 <div className="font-mono text-gray-200 mt-1">
-                  {transaction.feePayer?.toString().slice(0, 16)}...
+                  {feePayer?.toString().slice(0, 16)}...
                 </div>
               </div>
               <div>
                 <span className="text-gray-400">Recent Blockhash:</span>
                 <div className="font-mono text-gray-200 mt-1">
-                  {transaction.recentBlockhash?.slice(0, 16)}...
+                  {recentBlockhash?.slice(0, 16)}...
                 </div>
               </div>
               <div>
                 <span className="text-gray-400">Valid Until:</span>
                 <div className="text-gray-200 mt-1">
-                  Block {transaction.lastValidBlockHeight?.toLocaleString() || 'N/A'}
+                  Block {lastValidBlockHeight?.toLocaleString() || 'N/A'}
                 </div>
               </div>
               <div>
                 <span className="text-gray-400">Instructions:</span>
                 <div className="text-gray-200 mt-1">
-                  {transaction.instructions.length}
+                  {instructions.length}
                 </div>
               </div>
             </div>
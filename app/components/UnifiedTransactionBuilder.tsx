@@ -32,16 +32,23 @@ import {
 } from 'lucide-react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { TransactionBuilder } from '../lib/transaction-builder';
+import { TransactionSizeReport } from '../lib/lookup-tables';
 import { getTemplateById, getTemplatesByCategory } from '../lib/instructions/templates';
 import { BuiltInstruction, TransactionDraft, InstructionTemplate } from '../lib/instructions/types';
 import { importTransaction } from '../lib/transaction-importer';
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 import { UnifiedAIAgents } from './UnifiedAIAgents';
 import { ArbitragePanel } from './ArbitragePanel';
 import { ArbitrageOpportunity } from '../lib/pools/types';
 import { AdvancedInstructionCard } from './AdvancedInstructionCard';
 import { TemplateSelectorModal } from './TemplateSelectorModal';
 
+// Lookup tables applied to every build (comma-separated addresses)
+const DEFAULT_LOOKUP_TABLES = (process.env.NEXT_PUBLIC_ADDRESS_LOOKUP_TABLES || '')
+  .split(',')
+  .map(address => address.trim())
+  .filter(Boolean);
+
 // --- Block to Instruction Template Mapping ---
 const BLOCK_TO_TEMPLATE: Record<string, string> = {
   'jup_swap': 'jupiter_swap',
@@ -106,12 +113,14 @@ const SIMPLE_BLOCK_CATEGORIES: Record<string, SimpleBlock[]> = {
       // Token-2022 Extensions
       useToken2022: 'false',
       transferFee: '0',
+      maxTransferFee: '',
       enableTax: 'false',
       transferHookProgram: '',
       enableConfidentialTransfers: 'false',
       enableInterestBearing: 'false',
       interestRate: '0',
       enableNonTransferable: 'false',
+      permanentDelegate: '',
       enableTransferMemo: 'false',
       enableImmutableOwner: 'false',
       metadataPointer: '',
@@ -513,6 +522,7 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
     sol: number;
     platformFee: { lamports: number; sol: number };
     total: { lamports: number; sol: number };
+    size: TransactionSizeReport;
   } | null>(null);
   
   // Simple mode state
@@ -734,12 +744,14 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
         // Token-2022 Extensions
         const useToken2022 = block.params.useToken2022 === 'true';
         const transferFee = parseInt(block.params.transferFee || '0');
+        const maxTransferFee = block.params.maxTransferFee || '';
         const enableTax = block.params.enableTax === 'true';
         const transferHookProgram = block.params.transferHookProgram || '';
         const enableConfidentialTransfers = block.params.enableConfidentialTransfers === 'true';
         const enableInterestBearing = block.params.enableInterestBearing === 'true';
         const interestRate = parseInt(block.params.interestRate || '0');
         const enableNonTransferable = block.params.enableNonTransferable === 'true';
+        const permanentDelegate = block.params.permanentDelegate || '';
         const enableTransferMemo = block.params.enableTransferMemo === 'true';
         const enableImmutableOwner = block.params.enableImmutableOwner === 'true';
         const metadataPointer = block.params.metadataPointer || '';
@@ -773,12 +785,14 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
         // Token-2022 Extensions
         args['useToken2022'] = useToken2022;
         args['transferFee'] = enableTax ? transferFee : 0;
+        args['maxTransferFee'] = maxTransferFee;
         args['enableTax'] = enableTax;
         args['transferHookProgram'] = transferHookProgram;
         args['enableConfidentialTransfers'] = enableConfidentialTransfers;
         args['enableInterestBearing'] = enableInterestBearing;
         args['interestRate'] = interestRate;
         args['enableNonTransferable'] = enableNonTransferable;
+        args['permanentDelegate'] = permanentDelegate;
         args['enableTransferMemo'] = enableTransferMemo;
         args['enableImmutableOwner'] = enableImmutableOwner;
         args['metadataPointer'] = metadataPointer;
@@ -942,14 +956,28 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
         memo: `sealevelstudios.xyz 🤑`
       };
 
-      const transaction = await builder.buildTransaction(draft);
+      let transaction: Transaction | VersionedTransaction = await builder.buildTransaction(draft);
 
       // Add fixed platform fee (0.0002 SOL) if a valid fee recipient is configured
       builder.addPlatformFee(transaction, publicKey);
 
       await builder.prepareTransaction(transaction, publicKey);
       
-      const cost = await builder.estimateCost(transaction);
+      let cost = await builder.estimateCost(transaction);
+
+      // Legacy transactions stop at 1232 bytes; recompile as v0 against the lookup tables when needed
+      const lookupTables = [...DEFAULT_LOOKUP_TABLES, ...(transactionDraft.lookupTables || [])];
+      if (!cost.size.fitsLegacy || lookupTables.length > 0) {
+        const versioned = await builder.toVersionedTransaction(transaction, publicKey, lookupTables);
+        transaction = versioned.transaction;
+        cost = await builder.estimateCost(transaction, versioned.lookupTables);
+        addLog(
+          `Built v0 transaction: ${cost.size.versionedBytes} bytes (legacy ${cost.size.legacyBytes}), ` +
+          `${cost.size.compressedAccounts.length} account(s) from ${cost.size.lookupTables.length} lookup table(s)`,
+          'info'
+        );
+      }
+
       setBuiltTransaction(transaction);
       setTransactionCost(cost);
 
@@ -993,9 +1021,13 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
       if (additionalSigners.length > 0) {
         addLog(`Found ${additionalSigners.length} additional signer(s) (e.g., mint keypair)`, 'info');
         // Sign transaction with additional signers
-        additionalSigners.forEach((signer: any) => {
-          builtTransaction.partialSign(signer);
-        });
+        if (builtTransaction instanceof VersionedTransaction) {
+          builtTransaction.sign(additionalSigners);
+        } else {
+          additionalSigners.forEach((signer: any) => {
+            builtTransaction.partialSign(signer);
+          });
+        }
       }
       
       const signature = await sendTransaction(builtTransaction, connection);
@@ -1177,6 +1209,14 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
                     <span className="text-slate-300 font-medium">Total:</span>
                     <span className="text-white font-mono font-bold">{transactionCost.total.sol.toFixed(9)} SOL</span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-400">Size:</span>
+                    <span className="text-slate-300 font-mono">
+                      {builtTransaction instanceof VersionedTransaction
+                        ? `${transactionCost.size.versionedBytes}/${transactionCost.size.maxBytes} B (v0, -${transactionCost.size.savedBytes})`
+                        : `${transactionCost.size.legacyBytes}/${transactionCost.size.maxBytes} B`}
+                    </span>
+                  </div>
                 </div>
               )}
             </div>
@@ -1306,7 +1346,7 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
 
               <div className="space-y-4">
                 {Object.entries(selectedBlock.params).map(([key, value]) => {
-                  const isAddressField = ['to', 'destination', 'wallet', 'mint', 'mintAuthority', 'freezeAuthority', 'tokenAccountOwner', 'delegate', 'transferHookProgram', 'metadataPointer', 'updateAuthority', 'tokenMint', 'lendingPool'].includes(key);
+                  const isAddressField = ['to', 'destination', 'wallet', 'mint', 'mintAuthority', 'freezeAuthority', 'tokenAccountOwner', 'delegate', 'permanentDelegate', 'transferHookProgram', 'metadataPointer', 'updateAuthority', 'tokenMint', 'lendingPool'].includes(key);
                   const isAmountField = ['amount', 'initialSupply', 'supplyCap', 'delegatedAmount', 'repayAmount'].includes(key);
                   const isBooleanField = ['enableFreeze', 'enableTax', 'revokeMintAuthority', 'freezeInitialAccount', 'isNative', 'primarySaleHappened', 'isMutable', 'useToken2022', 'enableConfidentialTransfers', 'enableInterestBearing', 'enableNonTransferable', 'enableTransferMemo', 'enableImmutableOwner'].includes(key);
                   const isPercentageField = ['transferFee', 'sellerFeeBasisPoints', 'interestRate'].includes(key);
@@ -1503,6 +1543,7 @@ export function UnifiedTransactionBuilder({ onTransactionBuilt, onBack }: Unifie
                               isAmountField && key === 'delegatedAmount' ? "e.g., 1000000 (lamports)" :
                               isAmountField ? "e.g., 1000000000 (lamports)" :
                               isPercentageField && key === 'transferFee' ? "e.g., 100 (1%) or 500 (5%)" :
+                              key === 'maxTransferFee' ? "Max fee per transfer in base units (blank = no cap)" :
                               isPercentageField && key === 'sellerFeeBasisPoints' ? "e.g., 500 (5%) or 1000 (10%)" :
                               isPercentageField && key === 'interestRate' ? "e.g., 500 (5% APY) or -200 (-2% APY)" :
                               isStringField && key === 'tokenName' ? "e.g., Solana Ipsum Token" :
@@ -20,6 +20,8 @@ import {
   Key,
   FileText,
   ArrowLeft,
+  Lock,
+  Unlock,
 } from 'lucide-react';
 import { useConnection } from '@solana/wallet-adapter-react';
 import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
@@ -41,12 +43,21 @@ export function WalletManager({ onBack }: WalletManagerProps) {
   const [showExport, setShowExport] = useState(false);
   const [editingWallet, setEditingWallet] = useState<string | null>(null);
   const [showPrivateKeys, setShowPrivateKeys] = useState<Set<string>>(new Set());
+  const [isUnlocked, setIsUnlocked] = useState(walletRegistry.isUnlocked());
+  const [showUnlock, setShowUnlock] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
 
   useEffect(() => {
     loadWallets();
     loadGroups();
   }, []);
 
+  // The registry locks itself after its idle timeout
+  useEffect(() => {
+    const interval = setInterval(() => setIsUnlocked(walletRegistry.isUnlocked()), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
   const loadWallets = () => {
     const allWallets = walletRegistry.getAllWallets();
     setWallets(allWallets);
@@ -114,9 +125,39 @@ export function WalletManager({ onBack }: WalletManagerProps) {
     return walletRegistry.getStats();
   }, [wallets]);
 
+  const handleUnlock = async (password: string) => {
+    try {
+      await walletRegistry.unlock(password);
+      setIsUnlocked(true);
+      setShowUnlock(false);
+      loadWallets();
+    } catch (error) {
+      alert(`Unlock failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleLock = () => {
+    walletRegistry.lock();
+    setIsUnlocked(false);
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    try {
+      await walletRegistry.changePassword(currentPassword, newPassword);
+      setIsUnlocked(true);
+      setShowChangePassword(false);
+    } catch (error) {
+      alert(`Password change failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleImport = async (privateKey: string, label?: string, tags?: string[]) => {
+    if (!walletRegistry.isUnlocked()) {
+      setShowUnlock(true);
+      return;
+    }
     try {
-      walletRegistry.importWallet({ privateKey, label, tags });
+      await walletRegistry.importWallet({ privateKey, label, tags });
       loadWallets();
       setShowImport(false);
     } catch (error) {
@@ -124,13 +165,17 @@ export function WalletManager({ onBack }: WalletManagerProps) {
     }
   };
 
-  const handleExport = (password: string) => {
+  const handleExport = async (password: string) => {
+    if (!walletRegistry.isUnlocked()) {
+      setShowUnlock(true);
+      return;
+    }
     try {
       const walletIds = selectedWallets.size > 0
         ? Array.from(selectedWallets)
         : wallets.map(w => w.id);
       
-      const exportData = walletRegistry.exportRegistry(password, walletIds);
+      const exportData = await walletRegistry.exportRegistry(password, walletIds);
       const blob = new Blob([exportData], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -180,6 +225,32 @@ export function WalletManager({ onBack }: WalletManagerProps) {
             </div>
           </div>
           <div className="flex gap-2">
+            {isUnlocked ? (
+              <>
+                <button
+                  onClick={() => setShowChangePassword(true)}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg flex items-center gap-2"
+                >
+                  <Key size={18} />
+                  Change Password
+                </button>
+                <button
+                  onClick={handleLock}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg flex items-center gap-2"
+                >
+                  <Lock size={18} />
+                  Lock
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setShowUnlock(true)}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg flex items-center gap-2"
+              >
+                <Unlock size={18} />
+                Unlock
+              </button>
+            )}
             <button
               onClick={() => setShowImport(true)}
               className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg flex items-center gap-2"
@@ -356,6 +427,23 @@ export function WalletManager({ onBack }: WalletManagerProps) {
         />
       )}
 
+      {/* Unlock Modal */}
+      {showUnlock && (
+        <UnlockModal
+          isNewPassword={!walletRegistry.isKeystoreInitialized()}
+          onUnlock={handleUnlock}
+          onClose={() => setShowUnlock(false)}
+        />
+      )}
+
+      {/* Change Password Modal */}
+      {showChangePassword && (
+        <ChangePasswordModal
+          onChange={handleChangePassword}
+          onClose={() => setShowChangePassword(false)}
+        />
+      )}
+
       {/* Edit Modal */}
       {editingWallet && (
         <EditWalletModal
@@ -467,6 +555,120 @@ function ExportWalletModal({ onExport, onClose, walletCount }: { onExport: (pass
   );
 }
 
+function UnlockModal({ isNewPassword, onUnlock, onClose }: { isNewPassword: boolean; onUnlock: (password: string) => void; onClose: () => void }) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const mismatch = isNewPassword && password !== confirmPassword;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">{isNewPassword ? 'Set Registry Password' : 'Unlock Wallets'}</h2>
+        <p className="text-gray-400 mb-4">
+          {isNewPassword
+            ? 'Private keys are encrypted with this password. It cannot be recovered if lost.'
+            : 'Enter the registry password to use stored private keys.'}
+        </p>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-900 rounded border border-gray-700"
+            />
+          </div>
+          {isNewPassword && (
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Confirm Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-900 rounded border border-gray-700"
+              />
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={() => onUnlock(password)}
+            disabled={!password || mismatch}
+            className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded-lg"
+          >
+            {isNewPassword ? 'Set Password' : 'Unlock'}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChangePasswordModal({ onChange, onClose }: { onChange: (currentPassword: string, newPassword: string) => void; onClose: () => void }) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-md">
+        <h2 className="text-xl font-bold mb-4">Change Registry Password</h2>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Current Password</label>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-900 rounded border border-gray-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">New Password</label>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-900 rounded border border-gray-700"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Confirm New Password</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-900 rounded border border-gray-700"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={() => onChange(currentPassword, newPassword)}
+            disabled={!currentPassword || !newPassword || newPassword !== confirmPassword}
+            className="flex-1 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg"
+          >
+            Change Password
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function EditWalletModal({ wallet, onSave, onClose }: { wallet: ManagedWallet; onSave: (updates: { label?: string; tags?: string[]; notes?: string }) => void; onClose: () => void }) {
   const [label, setLabel] = useState(wallet.label || '');
   const [tags, setTags] = useState(wallet.tags?.join(', ') || '');
@@ -1,14 +1,16 @@
 // React Hook for Usage Tracking
 // Provides easy access to usage tracking functionality
 
-import { useCallback } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import {
   trackUsage,
-  getUsageStats,
-  getFreeTrialStatus,
-  canUseFeature,
-  isInFreeTrial,
+  getOrCreateFreeTrial,
+  getUserUsageRecords,
+  createFreeTrial,
+  refreshFreeTrial,
+  evaluateFeatureAccess,
+  summarizeUsage,
   FeatureType,
   UsageRecord,
   UsageStats,
@@ -17,51 +19,77 @@ import {
 
 export function useUsageTracking() {
   const { publicKey } = useWallet();
-  
+
   const userId = publicKey?.toString() || '';
-  
+
+  // Storage is async, so the getters below read from this cache, reloaded per wallet
+  // and after every tracked use
+  const [trial, setTrial] = useState<FreeTrialStatus | null>(null);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setTrial(null);
+      setRecords([]);
+      return;
+    }
+    const [nextTrial, nextRecords] = await Promise.all([
+      getOrCreateFreeTrial(userId),
+      getUserUsageRecords(userId),
+    ]);
+    setTrial(nextTrial);
+    setRecords(nextRecords);
+  }, [userId]);
+
+  useEffect(() => {
+    refresh().catch(error => console.error('Failed to load usage:', error));
+  }, [refresh]);
+
   const trackFeatureUsage = useCallback(
-    (feature: FeatureType, metadata?: Record<string, any>): UsageRecord | null => {
+    async (feature: FeatureType, metadata?: Record<string, any>): Promise<UsageRecord | null> => {
       if (!userId) return null;
-      
+
       try {
-        return trackUsage(userId, feature, metadata);
+        const record = await trackUsage(userId, feature, metadata);
+        await refresh();
+        return record;
       } catch (error) {
         console.error('Failed to track usage:', error);
         return null;
       }
     },
-    [userId]
+    [userId, refresh]
   );
-  
+
   const getStats = useCallback(
     (period: 'daily' | 'weekly' | 'monthly' | 'all_time' = 'all_time'): UsageStats | null => {
       if (!userId) return null;
-      return getUsageStats(userId, period);
+      return summarizeUsage(userId, records, period);
     },
-    [userId]
+    [userId, records]
   );
-  
+
   const getTrialStatus = useCallback((): FreeTrialStatus | null => {
-    if (!userId) return null;
-    return getFreeTrialStatus(userId);
-  }, [userId]);
-  
+    if (!userId || !trial) return null;
+    return refreshFreeTrial(trial);
+  }, [userId, trial]);
+
   const checkFeatureAccess = useCallback(
     (feature: FeatureType): { allowed: boolean; reason?: string } => {
       if (!userId) {
         return { allowed: false, reason: 'Wallet not connected' };
       }
-      return canUseFeature(userId, feature);
+      // Before the trial has loaded, judge against the trial a first use would create
+      return evaluateFeatureAccess(trial ? refreshFreeTrial(trial) : createFreeTrial(userId), feature);
     },
-    [userId]
+    [userId, trial]
   );
-  
+
   const isTrialActive = useCallback((): boolean => {
-    if (!userId) return false;
-    return isInFreeTrial(userId);
-  }, [userId]);
-  
+    if (!userId || !trial) return false;
+    return refreshFreeTrial(trial).isActive;
+  }, [userId, trial]);
+
   return {
     trackFeatureUsage,
     getStats,
@@ -71,4 +99,3 @@ export function useUsageTracking() {
     userId,
   };
 }
-
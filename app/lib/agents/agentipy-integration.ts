@@ -36,15 +36,36 @@ export interface BacktestingEngine {
 
 export interface BacktestResult {
   totalTrades: number;
-  winRate: number;
-  totalProfit: number;
-  maxDrawdown: number;
-  sharpeRatio: number;
+  winRate: number; // 0-1, share of closing trades that made money
+  totalProfit: number; // SOL, marked to the last price
+  maxDrawdown: number; // Percentage of peak equity
+  sharpeRatio: number; // Annualized
   trades: Array<{
     timestamp: Date;
     profit: number;
     success: boolean;
   }>;
+  initialEquity: number; // SOL
+  finalEquity: number; // SOL
+  totalFees: number; // SOL, pool fees plus transaction fees
+  equityCurve: Array<{ timestamp: Date; equity: number }>;
+  tradeLog: BacktestTrade[];
+}
+
+/**
+ * One simulated execution
+ */
+export interface BacktestTrade {
+  timestamp: Date;
+  side: 'buy' | 'sell';
+  marketPrice: number; // SOL per token before the trade
+  executionPrice: number; // SOL per token after fees and price impact
+  solAmount: number; // Spent on buys, received on sells
+  tokenAmount: number;
+  fee: number; // SOL
+  slippage: number; // Percentage against the market price
+  realizedPnl: number; // SOL, sells only
+  reason: string;
 }
 
 /**
@@ -169,6 +190,20 @@ export class AIEnhancedAgent extends BaseSolanaAgent {
     });
   }
 
+  /**
+   * Engine used to validate this agent's strategy on historical data
+   */
+  setBacktestingEngine(engine: BacktestingEngine): void {
+    this.backtestingEngine = engine;
+  }
+
+  async backtest(historicalData: any): Promise<BacktestResult> {
+    if (!this.backtestingEngine) {
+      throw new Error('No backtesting engine configured');
+    }
+    return this.backtestingEngine.backtest(this.config.strategy, historicalData);
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) return;
     this.isRunning = true;
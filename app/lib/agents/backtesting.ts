@@ -0,0 +1,504 @@
+/**
+ * Backtesting Engine
+ * Deterministic event-driven replay of historical candles and trades through agent
+ * strategies: logic-based rules and the market maker's grid, quoting, DCA and TWAP
+ * strategies. Every execution is priced against a constant-product pool anchored at
+ * the event price, so fees and price impact scale with the pool's reserves.
+ */
+
+import { AgentStrategy } from './solana-agent-kit';
+import {
+  BacktestingEngine,
+  BacktestResult,
+  BacktestTrade,
+  LogicBasedTradingEngine,
+  TradingContext,
+} from './agentipy-integration';
+import { MarketMakerConfig } from '../market-maker/types';
+import { GridEngine, gridConfigFromMarketMaker } from '../market-maker/grid';
+import { InventoryQuoter, quotingConfigFromMarketMaker } from '../market-maker/quoting';
+
+/**
+ * Historical candle. Prices are SOL per token.
+ */
+export interface OhlcvCandle {
+  timestamp: number; // Candle open, ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  solReserve?: number; // Pool SOL depth during the candle
+}
+
+/**
+ * Historical swap, replayed as a price update between candle ticks
+ */
+export interface HistoricalTrade {
+  timestamp: number; // ms
+  price: number;
+  side?: 'buy' | 'sell';
+  solAmount?: number;
+}
+
+export interface BacktestData {
+  tokenMint?: string;
+  candles: OhlcvCandle[];
+  trades?: HistoricalTrade[];
+  solReserve?: number; // Pool SOL depth for candles without their own
+}
+
+export interface BacktestOptions {
+  initialSol?: number;
+  feeBps?: number; // Pool swap fee
+  txFee?: number; // SOL per transaction, base plus priority fee
+  solReserve?: number; // Pool SOL depth when the data has none
+  marketMaker?: MarketMakerConfig; // Strategy replayed for 'market-making'
+  logicEngine?: LogicBasedTradingEngine; // Rules replayed for 'custom', or instead of the defaults
+  orderSize?: number; // SOL per rule-driven buy
+  smaPeriod?: number; // Candles in the moving average handed to rules
+}
+
+export interface SwapSimulation {
+  amountOut: number; // Tokens for buys, SOL for sells
+  fee: number; // SOL
+  executionPrice: number; // SOL per token
+  slippage: number; // Percentage against the pool price, fee included
+}
+
+const DEFAULT_OPTIONS = {
+  initialSol: 10,
+  feeBps: 25,
+  txFee: 0.00001,
+  solReserve: 1000,
+  orderSize: 1,
+  smaPeriod: 20,
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Constant-product swap against a pool holding `solReserve` SOL at `price`.
+ * `amountIn` is SOL for buys and tokens for sells; the fee is taken from the input.
+ */
+export function simulateSwap(
+  side: 'buy' | 'sell',
+  amountIn: number,
+  price: number,
+  solReserve: number,
+  feeBps: number
+): SwapSimulation {
+  if (!(price > 0) || !(solReserve > 0)) {
+    throw new Error('Pool price and reserves must be positive');
+  }
+  const tokenReserve = solReserve / price;
+  const feeRate = feeBps / 10000;
+
+  if (side === 'buy') {
+    const netIn = amountIn * (1 - feeRate);
+    const amountOut = (tokenReserve * netIn) / (solReserve + netIn);
+    const executionPrice = amountIn / amountOut;
+    return { amountOut, fee: amountIn * feeRate, executionPrice, slippage: (executionPrice / price - 1) * 100 };
+  }
+
+  const netIn = amountIn * (1 - feeRate);
+  const amountOut = (solReserve * netIn) / (tokenReserve + netIn);
+  const executionPrice = amountOut / amountIn;
+  return { amountOut, fee: amountIn * feeRate * price, executionPrice, slippage: (1 - executionPrice / price) * 100 };
+}
+
+/**
+ * Rules for the rule-based strategies. Both read `marketData.sma` and trade
+ * `orderSize` SOL in, everything out.
+ * - trend-following: buy 1% above the moving average, sell below it
+ * - mean-reversion: buy 3% below the moving average, sell once back at it
+ */
+export function createDefaultRuleEngine(strategy: 'trend-following' | 'mean-reversion', orderSize: number): LogicBasedTradingEngine {
+  const engine = new LogicBasedTradingEngine();
+  const hasTokens = (ctx: TradingContext) => ctx.portfolio.tokens > 0;
+  const hasSma = (ctx: TradingContext) => ctx.marketData.sma !== undefined;
+
+  if (strategy === 'trend-following') {
+    engine.addRule({
+      name: 'trend-exit',
+      condition: ctx => hasSma(ctx) && hasTokens(ctx) && ctx.marketData.price < ctx.marketData.sma,
+      action: 'execute',
+      confidence: 0.7,
+      reasoning: 'Price fell below the moving average',
+      parameters: { side: 'sell' },
+    });
+    engine.addRule({
+      name: 'trend-entry',
+      condition: ctx => hasSma(ctx) && !hasTokens(ctx) && ctx.marketData.price > ctx.marketData.sma * 1.01,
+      action: 'execute',
+      confidence: 0.7,
+      reasoning: 'Price broke above the moving average',
+      parameters: { side: 'buy', amount: orderSize },
+    });
+  } else {
+    engine.addRule({
+      name: 'reversion-exit',
+      condition: ctx => hasSma(ctx) && hasTokens(ctx) && ctx.marketData.price >= ctx.marketData.sma,
+      action: 'execute',
+      confidence: 0.7,
+      reasoning: 'Price reverted to the moving average',
+      parameters: { side: 'sell' },
+    });
+    engine.addRule({
+      name: 'reversion-entry',
+      condition: ctx => hasSma(ctx) && ctx.marketData.price <= ctx.marketData.sma * 0.97,
+      action: 'execute',
+      confidence: 0.7,
+      reasoning: 'Price stretched below the moving average',
+      parameters: { side: 'buy', amount: orderSize },
+    });
+  }
+
+  return engine;
+}
+
+/**
+ * One price update of the replay. Candles become open, low/high (nearest to the open
+ * first) and close ticks; historical trades fall between them by timestamp.
+ */
+interface ReplayEvent {
+  timestamp: number;
+  price: number;
+  solReserve: number;
+  candle: OhlcvCandle;
+  candleIndex: number;
+  isClose: boolean;
+}
+
+type TickHandler = (event: ReplayEvent, run: BacktestRun) => void;
+
+/**
+ * Balances, fills and equity of one replay
+ */
+class BacktestRun {
+  sol: number;
+  tokens = 0;
+  costBasis = 0; // SOL paid for `tokens`
+  fees = 0;
+  tradeLog: BacktestTrade[] = [];
+  equityCurve: Array<{ timestamp: Date; equity: number }> = [];
+
+  constructor(readonly initialSol: number, private feeBps: number, private txFee: number) {
+    this.sol = initialSol;
+  }
+
+  /**
+   * Swap at the event's pool. `amount` is SOL for buys and tokens for sells, clipped to
+   * what the wallet holds. Returns null when there is nothing to trade.
+   */
+  execute(side: 'buy' | 'sell', amount: number, event: ReplayEvent, reason: string): BacktestTrade | null {
+    const amountIn = side === 'buy'
+      ? Math.min(amount, this.sol - this.txFee)
+      : Math.min(amount, this.tokens);
+    if (!(amountIn > 0)) return null;
+
+    const swap = simulateSwap(side, amountIn, event.price, event.solReserve, this.feeBps);
+    let realizedPnl = 0;
+
+    if (side === 'buy') {
+      this.sol -= amountIn + this.txFee;
+      this.tokens += swap.amountOut;
+      this.costBasis += amountIn + this.txFee;
+    } else {
+      const cost = this.costBasis * (amountIn / this.tokens);
+      realizedPnl = swap.amountOut - this.txFee - cost;
+      this.sol += swap.amountOut - this.txFee;
+      this.tokens -= amountIn;
+      this.costBasis -= cost;
+    }
+    this.fees += swap.fee + this.txFee;
+
+    const trade: BacktestTrade = {
+      timestamp: new Date(event.timestamp),
+      side,
+      marketPrice: event.price,
+      executionPrice: swap.executionPrice,
+      solAmount: side === 'buy' ? amountIn : swap.amountOut,
+      tokenAmount: side === 'buy' ? swap.amountOut : amountIn,
+      fee: swap.fee + this.txFee,
+      slippage: swap.slippage,
+      realizedPnl,
+      reason,
+    };
+    this.tradeLog.push(trade);
+    return trade;
+  }
+
+  equity(price: number): number {
+    return this.sol + this.tokens * price;
+  }
+
+  signature(): string {
+    return `backtest-${this.tradeLog.length}`;
+  }
+}
+
+export class EventDrivenBacktester implements BacktestingEngine {
+  private options: BacktestOptions & typeof DEFAULT_OPTIONS;
+
+  constructor(options: BacktestOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async backtest(strategy: AgentStrategy, historicalData: BacktestData): Promise<BacktestResult> {
+    switch (strategy) {
+      case 'market-making':
+        return this.runMarketMaker(
+          this.options.marketMaker || { tokenMint: historicalData.tokenMint || '', strategy: 'market_making' },
+          historicalData
+        );
+      case 'trend-following':
+      case 'mean-reversion':
+        return this.runRules(
+          this.options.logicEngine || createDefaultRuleEngine(strategy, this.options.orderSize),
+          historicalData
+        );
+      case 'custom':
+        if (!this.options.logicEngine) {
+          throw new Error('Custom strategies need a logic engine to backtest');
+        }
+        return this.runRules(this.options.logicEngine, historicalData);
+      default:
+        throw new Error(`Backtesting is not supported for the ${strategy} strategy`);
+    }
+  }
+
+  /**
+   * Replay a market maker config through the same engines MarketMakerAgent runs
+   */
+  runMarketMaker(config: MarketMakerConfig, data: BacktestData): BacktestResult {
+    switch (config.strategy) {
+      case 'grid':
+        return this.replay(data, () => this.gridHandler(config));
+      case 'market_making':
+        return this.replay(data, interval => this.quotingHandler(config, interval / 4));
+      case 'dca':
+        return this.replay(data, () => this.scheduleHandler(
+          'DCA buy', (config.dcaInterval || 60) * 60 * 1000, config.dcaAmount || 0.1, config.dcaMaxBuys || 10
+        ));
+      case 'twap': {
+        const intervals = config.twapIntervals || 10;
+        return this.replay(data, () => this.scheduleHandler(
+          'TWAP slice', ((config.twapDuration || 60) * 60 * 1000) / intervals, config.twapAmount || 1, intervals
+        ));
+      }
+      default:
+        throw new Error(`Backtesting is not supported for the ${config.strategy} market maker strategy`);
+    }
+  }
+
+  /**
+   * Replay rules against each candle close. An 'execute' decision trades
+   * `parameters.side` (default buy) for `parameters.amount`: SOL for buys (default
+   * orderSize), tokens for sells (default everything held).
+   */
+  runRules(engine: LogicBasedTradingEngine, data: BacktestData): BacktestResult {
+    const closes: number[] = [];
+
+    return this.replay(data, () => (event, run) => {
+      if (!event.isClose) return;
+      const { candle } = event;
+      closes.push(candle.close);
+      const window = closes.slice(-this.options.smaPeriod);
+
+      const decision = engine.evaluate({
+        marketData: {
+          price: event.price,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume,
+          sma: window.length === this.options.smaPeriod ? window.reduce((a, b) => a + b, 0) / window.length : undefined,
+          timestamp: new Date(event.timestamp),
+        },
+        portfolio: {
+          sol: run.sol,
+          tokens: run.tokens,
+          equity: run.equity(event.price),
+          averageCost: run.tokens > 0 ? run.costBasis / run.tokens : 0,
+        },
+        recentTrades: run.tradeLog.slice(-10),
+      });
+      if (decision.action !== 'execute') return;
+
+      const side = decision.parameters?.side === 'sell' ? 'sell' : 'buy';
+      const amount = decision.parameters?.amount ?? (side === 'buy' ? this.options.orderSize : run.tokens);
+      run.execute(side, amount, event, decision.reasoning);
+    });
+  }
+
+  private gridHandler(config: MarketMakerConfig): TickHandler {
+    let grid: GridEngine | undefined;
+
+    return (event, run) => {
+      if (!grid) {
+        grid = GridEngine.create(config.tokenMint, gridConfigFromMarketMaker(config), event.price);
+        return;
+      }
+      for (const trigger of grid.onPrice(event.price)) {
+        const trade = run.execute(trigger.side, trigger.amount, event, `Grid ${trigger.side} at level ${trigger.levelIndex}`);
+        if (trade) {
+          grid.recordFill({ ...trigger, amount: trigger.side === 'buy' ? trade.solAmount : trade.tokenAmount }, run.signature());
+        } else {
+          grid.releaseOrder(trigger);
+        }
+      }
+    };
+  }
+
+  private quotingHandler(config: MarketMakerConfig, tickMs: number): TickHandler {
+    const quoter = new InventoryQuoter(quotingConfigFromMarketMaker(config, tickMs));
+
+    return (event, run) => {
+      const now = new Date(event.timestamp);
+      for (const trigger of quoter.onPrice(event.price, now)) {
+        const trade = run.execute(trigger.side, trigger.amount, event, `Quote ${trigger.side} at ${trigger.price}`);
+        if (trade) {
+          quoter.recordFill({ ...trigger, amount: trigger.side === 'buy' ? trade.solAmount : trade.tokenAmount }, run.signature(), now);
+        }
+      }
+    };
+  }
+
+  private scheduleHandler(reason: string, intervalMs: number, amount: number, maxBuys: number): TickHandler {
+    let nextBuy: number | undefined;
+    let buys = 0;
+
+    return (event, run) => {
+      if (nextBuy === undefined) {
+        nextBuy = event.timestamp + intervalMs;
+        return;
+      }
+      if (buys >= maxBuys || event.timestamp < nextBuy) return;
+      run.execute('buy', amount, event, reason);
+      buys++;
+      nextBuy += intervalMs;
+    };
+  }
+
+  private replay(data: BacktestData, createHandler: (candleIntervalMs: number) => TickHandler): BacktestResult {
+    const candles = [...(data.candles || [])].sort((a, b) => a.timestamp - b.timestamp);
+    if (candles.length === 0) {
+      throw new Error('Backtest needs at least one candle');
+    }
+    for (const candle of candles) {
+      if (!(candle.open > 0 && candle.high > 0 && candle.low > 0 && candle.close > 0)) {
+        throw new Error(`Invalid prices in candle at ${new Date(candle.timestamp).toISOString()}`);
+      }
+    }
+
+    const interval = candleInterval(candles);
+    const events = buildEvents(candles, data.trades || [], interval, data.solReserve || this.options.solReserve);
+    const handler = createHandler(interval);
+    const run = new BacktestRun(this.options.initialSol, this.options.feeBps, this.options.txFee);
+
+    for (const event of events) {
+      handler(event, run);
+      if (event.isClose) {
+        run.equityCurve.push({ timestamp: new Date(event.timestamp), equity: run.equity(event.price) });
+      }
+    }
+
+    const lastPrice = events[events.length - 1].price;
+    const finalEquity = run.equity(lastPrice);
+    const closing = run.tradeLog.filter(trade => trade.side === 'sell');
+
+    return {
+      totalTrades: run.tradeLog.length,
+      winRate: closing.length > 0 ? closing.filter(trade => trade.realizedPnl > 0).length / closing.length : 0,
+      totalProfit: finalEquity - run.initialSol,
+      maxDrawdown: maxDrawdown(run.equityCurve.map(point => point.equity)),
+      sharpeRatio: sharpeRatio(run.equityCurve.map(point => point.equity), YEAR_MS / interval),
+      trades: closing.map(trade => ({ timestamp: trade.timestamp, profit: trade.realizedPnl, success: trade.realizedPnl > 0 })),
+      initialEquity: run.initialSol,
+      finalEquity,
+      totalFees: run.fees,
+      equityCurve: run.equityCurve,
+      tradeLog: run.tradeLog,
+    };
+  }
+}
+
+/**
+ * Median spacing between candles, ms
+ */
+function candleInterval(candles: OhlcvCandle[]): number {
+  const gaps = candles.slice(1).map((candle, i) => candle.timestamp - candles[i].timestamp).sort((a, b) => a - b);
+  return gaps.length > 0 && gaps[Math.floor(gaps.length / 2)] > 0 ? gaps[Math.floor(gaps.length / 2)] : 60000;
+}
+
+function buildEvents(candles: OhlcvCandle[], trades: HistoricalTrade[], interval: number, defaultReserve: number): ReplayEvent[] {
+  const events: ReplayEvent[] = [];
+
+  candles.forEach((candle, candleIndex) => {
+    const solReserve = candle.solReserve || defaultReserve;
+    const path = candle.close >= candle.open
+      ? [candle.open, candle.low, candle.high, candle.close]
+      : [candle.open, candle.high, candle.low, candle.close];
+    path.forEach((price, i) => {
+      events.push({
+        timestamp: candle.timestamp + (interval * i) / 4,
+        price,
+        solReserve,
+        candle,
+        candleIndex,
+        isClose: i === path.length - 1,
+      });
+    });
+  });
+
+  for (const trade of trades) {
+    if (!(trade.price > 0)) continue;
+    // Trades belong to the last candle opened before them
+    let candleIndex = 0;
+    while (candleIndex + 1 < candles.length && candles[candleIndex + 1].timestamp <= trade.timestamp) {
+      candleIndex++;
+    }
+    const candle = candles[candleIndex];
+    events.push({
+      timestamp: trade.timestamp,
+      price: trade.price,
+      solReserve: candle.solReserve || defaultReserve,
+      candle,
+      candleIndex,
+      isClose: false,
+    });
+  }
+
+  // Stable sort keeps candle ticks ahead of trades with the same timestamp
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Largest peak-to-trough fall, as a percentage of the peak
+ */
+function maxDrawdown(equity: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      worst = Math.max(worst, ((peak - value) / peak) * 100);
+    }
+  }
+  return worst;
+}
+
+/**
+ * Annualized Sharpe ratio of per-candle equity returns, risk-free rate zero
+ */
+function sharpeRatio(equity: number[], periodsPerYear: number): number {
+  const returns = equity.slice(1).map((value, i) => (equity[i] > 0 ? value / equity[i] - 1 : 0));
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
+  return stdDev > 0 ? (mean / stdDev) * Math.sqrt(periodsPerYear) : 0;
+}
@@ -0,0 +1,69 @@
+/**
+ * Agent Factory
+ * Builds agent instances by type, shared by the create route and by restoring
+ * persisted agents after a restart
+ */
+
+import { Connection, Keypair } from '@solana/web3.js';
+import {
+  ArbitrageAgent,
+  PortfolioRebalancingAgent,
+  LiquidityScanningAgent,
+  AgentConfig,
+  BaseSolanaAgent,
+} from './solana-agent-kit';
+import { LocalLLMProvider, AIEnhancedAgent } from './agentipy-integration';
+import { defiPlugins } from './defi-plugins';
+
+/**
+ * Create an agent of `type` with its configured plugins registered.
+ * Returns null for an unknown type.
+ */
+export function buildAgent(
+  type: string,
+  connection: Connection,
+  agentConfig: AgentConfig,
+  agentKeypair?: Keypair
+): BaseSolanaAgent | null {
+  let agent: BaseSolanaAgent;
+
+  switch (type) {
+    case 'arbitrage':
+      agent = new ArbitrageAgent(connection, agentConfig, agentKeypair);
+      break;
+
+    case 'portfolio-rebalancing':
+      agent = new PortfolioRebalancingAgent(connection, agentConfig, agentKeypair);
+      break;
+
+    case 'liquidity-scanning':
+      agent = new LiquidityScanningAgent(connection, agentConfig, agentKeypair);
+      break;
+
+    case 'ai-enhanced':
+      // Use local LLM if available
+      const llmEndpoint = process.env.LOCAL_AI_ENDPOINT;
+      const llmModel = process.env.LOCAL_AI_MODEL;
+      const llmProvider = llmEndpoint && llmModel
+        ? new LocalLLMProvider(llmEndpoint, llmModel)
+        : undefined;
+
+      agent = new AIEnhancedAgent(connection, agentConfig, agentKeypair, llmProvider);
+      break;
+
+    default:
+      return null;
+  }
+
+  // Register plugins
+  if (agentConfig.plugins) {
+    for (const pluginId of agentConfig.plugins) {
+      const plugin = defiPlugins.find(p => p.id === pluginId);
+      if (plugin) {
+        agent.registerPlugin(plugin);
+      }
+    }
+  }
+
+  return agent;
+}
@@ -1,54 +1,121 @@
 /**
  * Shared Agent Storage
- * Provides persistent storage for agents across API routes
- * In production, this should use a database
+ * Agent records (type, config, wallet) are kept in the shared storage adapter so they
+ * survive restarts. Live instances only exist in this process and are rebuilt from the
+ * record, including the keypair when it was stored encrypted, by restoreAgent.
  */
 
-import { BaseSolanaAgent } from './solana-agent-kit';
+import { Connection, Keypair } from '@solana/web3.js';
+import { AgentConfig, BaseSolanaAgent } from './solana-agent-kit';
+import { buildAgent } from './factory';
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+import { encryptWithPassword, decryptWithPassword, PasswordEnvelope } from '../wallet-manager/keystore';
 
 interface StoredAgent {
   type: string;
-  config: any;
+  config: AgentConfig;
   wallet: string;
   createdAt: Date;
   agent?: BaseSolanaAgent;
 }
 
-// Shared storage across all API routes
-export const agentStorage = new Map<string, StoredAgent>();
+// Persisted form; the agent's secret key is encrypted with KEYPAIR_ENCRYPTION_KEY
+interface AgentRecord {
+  type: string;
+  config: AgentConfig;
+  wallet: string;
+  createdAt: string;
+  encryptedKey?: PasswordEnvelope;
+}
+
+const COLLECTION = STORAGE_COLLECTIONS.agents;
+
+// Live agent instances in this process
+const liveAgents = new Map<string, BaseSolanaAgent>();
+
+function toStoredAgent(record: AgentRecord): StoredAgent {
+  return {
+    type: record.type,
+    config: record.config,
+    wallet: record.wallet,
+    createdAt: new Date(record.createdAt),
+    agent: liveAgents.get(record.wallet),
+  };
+}
 
 /**
- * Store an agent
+ * Store an agent. Pass its keypair to allow restoring it after a restart; the key is
+ * only persisted when KEYPAIR_ENCRYPTION_KEY is set.
  */
-export function storeAgent(wallet: string, data: StoredAgent): void {
-  agentStorage.set(wallet, data);
+export async function storeAgent(wallet: string, data: StoredAgent, keypair?: Keypair): Promise<void> {
+  const password = process.env.KEYPAIR_ENCRYPTION_KEY;
+  const record: AgentRecord = {
+    type: data.type,
+    config: data.config,
+    wallet,
+    createdAt: data.createdAt.toISOString(),
+    encryptedKey: keypair && password ? await encryptWithPassword(keypair.secretKey, password) : undefined,
+  };
+
+  await getStorage().set(COLLECTION, wallet, record);
+  if (data.agent) {
+    liveAgents.set(wallet, data.agent);
+  }
 }
 
 /**
  * Get stored agent data
  */
-export function getStoredAgent(wallet: string): StoredAgent | undefined {
-  return agentStorage.get(wallet);
+export async function getStoredAgent(wallet: string): Promise<StoredAgent | undefined> {
+  const record = await getStorage().get<AgentRecord>(COLLECTION, wallet);
+  return record ? toStoredAgent(record) : undefined;
 }
 
 /**
  * Get all stored agents
  */
-export function getAllStoredAgents(): StoredAgent[] {
-  return Array.from(agentStorage.values());
+export async function getAllStoredAgents(): Promise<StoredAgent[]> {
+  const records = await getStorage().list<AgentRecord>(COLLECTION);
+  return records.map(([, record]) => toStoredAgent(record));
+}
+
+/**
+ * Rebuild a stored agent whose instance was lost (e.g. after a restart).
+ * Returns undefined if there is no record or its key was not persisted.
+ */
+export async function restoreAgent(wallet: string, connection: Connection): Promise<BaseSolanaAgent | undefined> {
+  const live = liveAgents.get(wallet);
+  if (live) return live;
+
+  const record = await getStorage().get<AgentRecord>(COLLECTION, wallet);
+  const password = process.env.KEYPAIR_ENCRYPTION_KEY;
+  if (!record?.encryptedKey || !password) return undefined;
+
+  const keypair = Keypair.fromSecretKey(await decryptWithPassword(record.encryptedKey, password));
+  if (keypair.publicKey.toString() !== wallet) {
+    throw new Error(`Stored key does not match agent wallet ${wallet}`);
+  }
+
+  const agent = buildAgent(record.type, connection, record.config, keypair);
+  if (!agent) {
+    throw new Error(`Unknown agent type: ${record.type}`);
+  }
+  liveAgents.set(wallet, agent);
+  return agent;
 }
 
 /**
  * Remove an agent
  */
-export function removeAgent(wallet: string): void {
-  agentStorage.delete(wallet);
+export async function removeAgent(wallet: string): Promise<void> {
+  liveAgents.delete(wallet);
+  await getStorage().delete(COLLECTION, wallet);
 }
 
 /**
  * Clear all agents
  */
-export function clearAllAgents(): void {
-  agentStorage.clear();
+export async function clearAllAgents(): Promise<void> {
+  liveAgents.clear();
+  await getStorage().transaction(tx => tx.clear(COLLECTION));
 }
-
@@ -0,0 +1,258 @@
+/**
+ * Agreement Strategies
+ * Pluggable rules for deciding whether two provider responses give the same answer
+ */
+
+import { ZodTypeAny } from 'zod';
+import {
+  AgreementComparator,
+  AgreementSpec,
+  AgreementStrategy,
+  ProviderResponse,
+} from './types';
+import { providerRegistry } from './providers/registry';
+import { LocalAIProvider } from './providers/local';
+
+/**
+ * Pull the first JSON object out of a model response, tolerating code fences and prose
+ */
+export function extractJsonObject(text: string): any {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object in response');
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Jaccard similarity on lowercased words
+ */
+export function lexicalSimilarity(response1: string, response2: string): number {
+  const words1 = new Set(response1.toLowerCase().split(/\s+/));
+  const words2 = new Set(response2.toLowerCase().split(/\s+/));
+
+  const intersection = new Set(Array.from(words1).filter(x => words2.has(x)));
+  const union = new Set([...Array.from(words1), ...Array.from(words2)]);
+
+  if (union.size === 0) return 0;
+  return intersection.size / union.size;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function lexicalComparator(responses: ProviderResponse[], threshold: number): AgreementComparator {
+  return {
+    agrees: (a, b) => lexicalSimilarity(responses[a].response, responses[b].response) > threshold,
+    valid: () => true,
+  };
+}
+
+/**
+ * Word-overlap agreement
+ * The original engine behaviour; different wording of the same answer counts as disagreement
+ */
+export function lexicalAgreement(threshold: number = 0.7): AgreementStrategy {
+  return {
+    name: 'lexical',
+    key: `lexical:${threshold}`,
+    prepare: async responses => lexicalComparator(responses, threshold),
+  };
+}
+
+/**
+ * Embedding cosine agreement
+ * If the embedding call fails the vote falls back to word overlap, which can only
+ * produce false disagreements, never false agreements
+ */
+export function embeddingAgreement(
+  embed: (texts: string[]) => Promise<number[][]>,
+  threshold: number = 0.85
+): AgreementStrategy {
+  return {
+    name: 'embedding',
+    key: `embedding:${threshold}`,
+    prepare: async responses => {
+      let vectors: number[][];
+      try {
+        vectors = await embed(responses.map(r => r.response));
+      } catch (error) {
+        console.warn('Embedding agreement failed, falling back to lexical similarity:', error);
+        return lexicalComparator(responses, 0.7);
+      }
+
+      return {
+        agrees: (a, b) => cosineSimilarity(vectors[a] || [], vectors[b] || []) >= threshold,
+        valid: index => (vectors[index] || []).length > 0,
+      };
+    },
+  };
+}
+
+/**
+ * Sort object keys and lowercase trimmed strings so equal answers serialize identically
+ */
+function canonicalize(value: any): any {
+  if (typeof value === 'string') return value.trim().toLowerCase();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, any> = {};
+    Object.keys(value).sort().forEach(key => {
+      sorted[key] = canonicalize(value[key]);
+    });
+    return sorted;
+  }
+  return value;
+}
+
+function readPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Exact-match voting on JSON fields
+ * Responses must contain a JSON object (validated against the schema when given);
+ * two responses agree when every compared field is equal. Strings compare
+ * case-insensitively. Without explicit fields the whole object is compared
+ */
+export function schemaAgreement(
+  options: { schema?: ZodTypeAny; fields?: string[] } = {}
+): AgreementStrategy {
+  const fields = options.fields || [];
+
+  return {
+    name: 'schema',
+    key: `schema:${fields.join(',')}`,
+    prepare: async responses => {
+      const parsed = responses.map(response => {
+        try {
+          const json = extractJsonObject(response.response);
+          return options.schema ? options.schema.parse(json) : json;
+        } catch {
+          return undefined;
+        }
+      });
+      const keys = parsed.map(value => {
+        if (value === undefined) return undefined;
+        const compared = fields.length > 0
+          ? fields.map(field => readPath(value, field))
+          : value;
+        return JSON.stringify(canonicalize(compared));
+      });
+
+      return {
+        agrees: (a, b) => keys[a] !== undefined && keys[a] === keys[b],
+        valid: index => keys[index] !== undefined,
+        value: indexes => parsed[indexes[0]],
+      };
+    },
+  };
+}
+
+/**
+ * Read a number from a response: a JSON field when given, otherwise the first number in the text
+ */
+export function extractNumber(text: string, field?: string): number | undefined {
+  if (field) {
+    try {
+      const raw = readPath(extractJsonObject(text), field);
+      if (typeof raw === 'string') return extractNumber(raw);
+      const value = typeof raw === 'number' ? raw : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const match = text.match(/-?\d[\d,]*(?:\.\d+)?(?:e[-+]?\d+)?/i);
+  if (!match) return undefined;
+  const value = Number(match[0].replace(/,/g, ''));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Numeric-tolerance voting for price or score answers
+ * Two answers agree when they differ by at most the absolute tolerance or the
+ * relative tolerance of the larger magnitude, whichever is wider. The group value is
+ * the median of its answers
+ */
+export function numericAgreement(
+  options: { field?: string; tolerance?: number; absoluteTolerance?: number } = {}
+): AgreementStrategy {
+  const tolerance = options.tolerance ?? 0.01;
+  const absoluteTolerance = options.absoluteTolerance ?? 0;
+
+  return {
+    name: 'numeric',
+    key: `numeric:${options.field || ''}:${tolerance}:${absoluteTolerance}`,
+    prepare: async responses => {
+      const values = responses.map(response => extractNumber(response.response, options.field));
+
+      return {
+        agrees: (a, b) => {
+          const x = values[a];
+          const y = values[b];
+          if (x === undefined || y === undefined) return false;
+          return Math.abs(x - y) <= Math.max(absoluteTolerance, tolerance * Math.max(Math.abs(x), Math.abs(y)));
+        },
+        valid: index => values[index] !== undefined,
+        value: indexes => {
+          const sorted = indexes.map(index => values[index]!).sort((a, b) => a - b);
+          const mid = Math.floor(sorted.length / 2);
+          return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Resolve a config value to a strategy
+ * Embedding agreement uses the registered local AI provider for embeddings
+ */
+export function resolveAgreementStrategy(agreement?: AgreementSpec | AgreementStrategy): AgreementStrategy {
+  if (!agreement) {
+    return lexicalAgreement();
+  }
+  if ('prepare' in agreement) {
+    return agreement;
+  }
+
+  switch (agreement.type) {
+    case 'lexical':
+      return lexicalAgreement(agreement.threshold);
+
+    case 'embedding': {
+      const local = providerRegistry.getAll().find(
+        (provider): provider is LocalAIProvider => provider instanceof LocalAIProvider
+      );
+      if (!local) {
+        throw new Error('Embedding agreement requires the local AI provider to be registered');
+      }
+      return embeddingAgreement(texts => local.embed(texts), agreement.threshold);
+    }
+
+    case 'schema':
+      return schemaAgreement({ fields: agreement.fields });
+
+    case 'numeric':
+      return numericAgreement(agreement);
+
+    default:
+      throw new Error(`Unknown agreement strategy: ${(agreement as { type: string }).type}`);
+  }
+}
@@ -19,9 +19,11 @@ export class ConsensusCache {
    * Generate cache key from request
    */
   private getCacheKey(request: ConsensusRequest): string {
-    // Use prompt hash as key (simple hash for now)
+    // Use prompt hash as key (simple hash for now), per agreement strategy
     const promptHash = this.simpleHash(request.prompt);
-    return `consensus:${promptHash}`;
+    return request.agreementKey
+      ? `consensus:${promptHash}:${request.agreementKey}`
+      : `consensus:${promptHash}`;
   }
 
   /**
@@ -12,6 +12,7 @@ const DEFAULT_CONFIG: ConsensusConfig = {
   timeout: 30000, // 30 seconds
   cacheEnabled: true,
   cacheTTL: 300, // 5 minutes
+  learnWeights: true, // Scale weights by historical agreement
   retryConfig: {
     maxRetries: 3,
     backoffMultiplier: 2,
@@ -89,6 +90,9 @@ export function loadConsensusConfig(): ConsensusConfig {
   if (process.env.CONSENSUS_CACHE_TTL) {
     config.cacheTTL = parseInt(process.env.CONSENSUS_CACHE_TTL);
   }
+  if (process.env.CONSENSUS_LEARN_WEIGHTS !== undefined) {
+    config.learnWeights = process.env.CONSENSUS_LEARN_WEIGHTS === 'true';
+  }
 
   return config;
 }
@@ -4,6 +4,7 @@
  */
 
 import {
+  AgreementComparator,
   ConsensusRequest,
   ConsensusResult,
   ConsensusConfig,
@@ -13,62 +14,44 @@ import {
 import { providerRegistry } from './providers/registry';
 import { consensusCache } from './cache';
 import { consensusConfig } from './config';
+import { resolveAgreementStrategy } from './agreement';
+import { providerWeights } from './weights';
 
 // Timeout limits in ms
 const MIN_TIMEOUT = 100;    // Do not allow less than 100ms
 const MAX_TIMEOUT = 30000;  // Do not allow more than 30 seconds
 
-/**
- * Calculate similarity between two responses
- * Uses simple string similarity (can be enhanced with semantic similarity)
- */
-function calculateSimilarity(response1: string, response2: string): number {
-  // Simple lexical similarity (Jaccard similarity on words)
-  const words1 = new Set(response1.toLowerCase().split(/\s+/));
-  const words2 = new Set(response2.toLowerCase().split(/\s+/));
-
-  const intersection = new Set(Array.from(words1).filter(x => words2.has(x)));
-  const union = new Set([...Array.from(words1), ...Array.from(words2)]);
-
-  if (union.size === 0) return 0;
-  return intersection.size / union.size;
-}
-
 /**
  * Find majority response using weighted voting
+ * Responses are grouped by the agreement strategy; invalid answers (unparseable for
+ * structured strategies) keep their weight in the total but never form the majority
  */
 function findMajority(
   responses: ProviderResponse[],
-  weights: Map<string, number>
-): { majority: string; minority: string[]; agreement: number } {
-  // Group responses by similarity
-  const groups: Array<{ response: string; responses: ProviderResponse[]; weight: number }> = [];
-
-  for (const response of responses) {
-    let added = false;
-    for (const group of groups) {
-      // Check if similar to existing group
-      const similarity = calculateSimilarity(response.response, group.response);
-      if (similarity > 0.7) {
-        // Similar enough - add to group
-        group.responses.push(response);
-        group.weight += weights.get(response.provider) || 1.0;
-        added = true;
-        break;
-      }
-    }
-    if (!added) {
+  weights: Map<string, number>,
+  comparator: AgreementComparator
+): { majority: string; majorityValue?: any; majorityProviders: string[]; minority: string[]; agreement: number } {
+  // Group responses by agreement with each group's first response
+  const groups: Array<{ indexes: number[]; weight: number; valid: boolean }> = [];
+
+  responses.forEach((response, index) => {
+    const weight = weights.get(response.provider) || 1.0;
+    const group = comparator.valid(index)
+      ? groups.find(g => g.valid && comparator.agrees(g.indexes[0], index))
+      : undefined;
+
+    if (group) {
+      // Agrees - add to group
+      group.indexes.push(index);
+      group.weight += weight;
+    } else {
       // Create new group
-      groups.push({
-        response: response.response,
-        responses: [response],
-        weight: weights.get(response.provider) || 1.0,
-      });
+      groups.push({ indexes: [index], weight, valid: comparator.valid(index) });
     }
-  }
+  });
 
-  // Find group with highest weight
-  groups.sort((a, b) => b.weight - a.weight);
+  // Find valid group with highest weight
+  groups.sort((a, b) => Number(b.valid) - Number(a.valid) || b.weight - a.weight);
   const majorityGroup = groups[0];
   const minorityGroups = groups.slice(1);
 
@@ -77,11 +60,13 @@ function findMajority(
     (sum, r) => sum + (weights.get(r.provider) || 1.0),
     0
   );
-  const agreement = totalWeight > 0 ? (majorityGroup.weight / totalWeight) * 100 : 0;
+  const agreement = totalWeight > 0 && majorityGroup.valid ? (majorityGroup.weight / totalWeight) * 100 : 0;
 
   return {
-    majority: majorityGroup.response,
-    minority: minorityGroups.map(g => g.response),
+    majority: responses[majorityGroup.indexes[0]].response,
+    majorityValue: majorityGroup.valid && comparator.value ? comparator.value(majorityGroup.indexes) : undefined,
+    majorityProviders: majorityGroup.valid ? majorityGroup.indexes.map(i => responses[i].provider) : [],
+    minority: minorityGroups.map(g => responses[g.indexes[0]].response),
     agreement,
   };
 }
@@ -95,10 +80,12 @@ export async function executeConsensus(
   config?: Partial<ConsensusConfig>
 ): Promise<ConsensusResult> {
   const requestId = `consensus-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const strategy = resolveAgreementStrategy(config?.agreement);
   const request: ConsensusRequest = {
     id: requestId,
     prompt,
     options,
+    agreementKey: strategy.key,
     timestamp: new Date(),
   };
 
@@ -175,13 +162,25 @@ export async function executeConsensus(
     );
   }
 
-  // Calculate consensus
+  // Calculate consensus with configured weights, scaled by learned agreement rates
   const weights = new Map<string, number>();
   providers.forEach(p => {
-    weights.set(p.id, p.getConfig().weight || 1.0);
+    const baseWeight = p.getConfig().weight || 1.0;
+    weights.set(p.id, finalConfig.learnWeights ? providerWeights.getWeight(p.id, baseWeight) : baseWeight);
   });
 
-  const { majority, minority, agreement } = findMajority(successfulResponses, weights);
+  const comparator = await strategy.prepare(successfulResponses);
+  const { majority, majorityValue, majorityProviders, minority, agreement } = findMajority(
+    successfulResponses,
+    weights,
+    comparator
+  );
+
+  // Only rounds with something to agree on teach the weights
+  if (finalConfig.learnWeights && successfulResponses.length >= 2) {
+    providerWeights.record(successfulResponses.map(r => r.provider), majorityProviders);
+  }
+
   const consensus = agreement >= finalConfig.threshold * 100;
 
   // Calculate confidence (based on agreement and number of providers)
@@ -197,6 +196,7 @@ export async function executeConsensus(
     agreement,
     responses: successfulResponses,
     majority,
+    majorityValue,
     minority,
     metadata: {
       providersQueried: providers.length,
@@ -205,6 +205,8 @@ export async function executeConsensus(
       cacheHit: false,
       prompt,
       timestamp: new Date(),
+      strategy: strategy.key,
+      weights: Object.fromEntries(Array.from(weights.entries())),
     },
   };
 
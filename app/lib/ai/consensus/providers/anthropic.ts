@@ -7,7 +7,11 @@ import {
   ProviderResponse,
   ProviderConfig,
   ConsensusQueryOptions,
+  ChatMessage,
+  ToolCallingResponse,
+  ToolDefinition,
 } from '../types';
+import { anthropicText, fromAnthropicToolCalls, toAnthropicMessages, toAnthropicTools } from './tool-formats';
 
 export class AnthropicProvider extends BaseConsensusProvider {
   get id(): string {
@@ -65,6 +69,59 @@ export class AnthropicProvider extends BaseConsensusProvider {
     }
   }
 
+  /**
+   * Query with native tool use
+   */
+  async queryWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ConsensusQueryOptions
+  ): Promise<ToolCallingResponse> {
+    const startTime = Date.now();
+
+    if (!this.config.apiKey) {
+      throw new Error('Anthropic API key not configured');
+    }
+
+    try {
+      const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.config.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: this.config.model || 'claude-3-5-sonnet-20241022',
+          max_tokens: options?.maxTokens ?? 1000,
+          ...(system && { system }),
+          messages: anthropicMessages,
+          ...(tools.length > 0 && { tools: toAnthropicTools(tools) }),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        this.updateHealth('degraded', error);
+        throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      const latency = Date.now() - startTime;
+      this.recordSuccess(latency);
+
+      return {
+        ...this.normalize(data),
+        response: anthropicText(data),
+        toolCalls: fromAnthropicToolCalls(data),
+      };
+    } catch (error: any) {
+      this.updateHealth('down', error.message);
+      throw error;
+    }
+  }
+
   normalize(response: any): ProviderResponse {
     return {
       provider: this.id,
@@ -7,7 +7,11 @@ import {
   ProviderResponse,
   ProviderConfig,
   ConsensusQueryOptions,
+  ChatMessage,
+  ToolCallingResponse,
+  ToolDefinition,
 } from '../types';
+import { fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from './tool-formats';
 
 export class DeepSeekProvider extends BaseConsensusProvider {
   get id(): string {
@@ -65,6 +69,53 @@ export class DeepSeekProvider extends BaseConsensusProvider {
     }
   }
 
+  /**
+   * Query with native function calling
+   */
+  async queryWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ConsensusQueryOptions
+  ): Promise<ToolCallingResponse> {
+    const startTime = Date.now();
+
+    if (!this.config.apiKey) {
+      throw new Error('DeepSeek API key not configured');
+    }
+
+    try {
+      const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.config.model || 'deepseek-chat',
+          messages: toOpenAIMessages(messages),
+          ...(tools.length > 0 && { tools: toOpenAITools(tools) }),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens ?? 1000,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        this.updateHealth('degraded', error);
+        throw new Error(`DeepSeek API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      const latency = Date.now() - startTime;
+      this.recordSuccess(latency);
+
+      return { ...this.normalize(data), toolCalls: fromOpenAIToolCalls(data) };
+    } catch (error: any) {
+      this.updateHealth('down', error.message);
+      throw error;
+    }
+  }
+
   normalize(response: any): ProviderResponse {
     return {
       provider: this.id,
@@ -7,7 +7,11 @@ import {
   ProviderResponse,
   ProviderConfig,
   ConsensusQueryOptions,
+  ChatMessage,
+  ToolCallingResponse,
+  ToolDefinition,
 } from '../types';
+import { fromGeminiToolCalls, geminiText, toGeminiContents, toGeminiTools } from './tool-formats';
 
 export class GeminiProvider extends BaseConsensusProvider {
   get id(): string {
@@ -71,6 +75,60 @@ export class GeminiProvider extends BaseConsensusProvider {
     }
   }
 
+  /**
+   * Query with native function calling
+   */
+  async queryWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ConsensusQueryOptions
+  ): Promise<ToolCallingResponse> {
+    const startTime = Date.now();
+
+    if (!this.config.apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    try {
+      const model = this.config.model || 'gemini-pro';
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${this.config.apiKey}`;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...toGeminiContents(messages),
+          ...(tools.length > 0 && { tools: toGeminiTools(tools) }),
+          generationConfig: {
+            temperature: options?.temperature ?? 0.7,
+            maxOutputTokens: options?.maxTokens ?? 1000,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        this.updateHealth('degraded', error);
+        throw new Error(`Gemini API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      const latency = Date.now() - startTime;
+      this.recordSuccess(latency);
+
+      return {
+        ...this.normalize(data),
+        response: geminiText(data),
+        toolCalls: fromGeminiToolCalls(data),
+      };
+    } catch (error: any) {
+      this.updateHealth('down', error.message);
+      throw error;
+    }
+  }
+
   normalize(response: any): ProviderResponse {
     return {
       provider: this.id,
@@ -9,7 +9,17 @@ import {
   ProviderResponse,
   ProviderConfig,
   ConsensusQueryOptions,
+  ChatMessage,
+  ToolCallingResponse,
+  ToolDefinition,
 } from '../types';
+import {
+  fromOllamaToolCalls,
+  fromOpenAIToolCalls,
+  toOllamaMessages,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './tool-formats';
 import { detectGPU, checkDockerEndpoint, getPerformanceMetrics, type GPUInfo, type PerformanceMetrics } from '../../gpu-utils';
 
 export interface LocalModelConfig extends ProviderConfig {
@@ -18,6 +28,7 @@ export interface LocalModelConfig extends ProviderConfig {
   apiType: 'ollama' | 'lmstudio' | 'openai-compatible' | 'custom';
   timeout?: number;
   dockerEnabled?: boolean; // Whether running in Docker
+  embeddingModel?: string; // Model for embeddings, defaults to the chat model
 }
 
 export class LocalAIProvider extends BaseConsensusProvider {
@@ -239,6 +250,129 @@ export class LocalAIProvider extends BaseConsensusProvider {
     });
   }
 
+  /**
+   * Query with native function calling
+   * Ollama: POST /api/chat, OpenAI-compatible: POST /v1/chat/completions
+   */
+  async queryWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ConsensusQueryOptions
+  ): Promise<ToolCallingResponse> {
+    const startTime = Date.now();
+
+    if (!this.enabled) {
+      throw new Error('Local AI not configured. Please set endpoint and model.');
+    }
+
+    const isOllama = this.localConfig.apiType === 'ollama';
+    if (!isOllama && this.localConfig.apiType !== 'lmstudio' && this.localConfig.apiType !== 'openai-compatible') {
+      throw new Error(`Tool calling is not supported for API type: ${this.localConfig.apiType}`);
+    }
+
+    try {
+      const response = await fetch(
+        isOllama ? `${this.localConfig.endpoint}/api/chat` : `${this.localConfig.endpoint}/v1/chat/completions`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(isOllama
+            ? {
+                model: this.localConfig.model,
+                messages: toOllamaMessages(messages),
+                ...(tools.length > 0 && { tools: toOpenAITools(tools) }),
+                stream: false,
+                options: {
+                  temperature: options?.temperature ?? 0.7,
+                  num_predict: options?.maxTokens ?? 1000,
+                },
+              }
+            : {
+                model: this.localConfig.model,
+                messages: toOpenAIMessages(messages),
+                ...(tools.length > 0 && { tools: toOpenAITools(tools) }),
+                temperature: options?.temperature ?? 0.7,
+                max_tokens: options?.maxTokens ?? 1000,
+              }),
+          signal: AbortSignal.timeout(this.localConfig.timeout || 30000),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        this.updateHealth('degraded', error);
+        throw new Error(`Local AI API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json();
+      const latency = Date.now() - startTime;
+      this.recordSuccess(latency);
+
+      if (isOllama) {
+        return {
+          provider: this.id,
+          response: data.message?.content || '',
+          model: this.localConfig.model,
+          timestamp: new Date(),
+          metadata: { done: data.done },
+          toolCalls: fromOllamaToolCalls(data),
+        };
+      }
+      return { ...this.normalize(data), toolCalls: fromOpenAIToolCalls(data) };
+    } catch (error: any) {
+      this.updateHealth('down', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Embed texts for semantic similarity
+   * Ollama: POST /api/embed, OpenAI-compatible: POST /v1/embeddings
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = this.localConfig.embeddingModel || this.localConfig.model;
+    let endpoint: string;
+
+    switch (this.localConfig.apiType) {
+      case 'ollama':
+        endpoint = `${this.localConfig.endpoint}/api/embed`;
+        break;
+
+      case 'lmstudio':
+      case 'openai-compatible':
+        endpoint = `${this.localConfig.endpoint}/v1/embeddings`;
+        break;
+
+      default:
+        throw new Error(`Embeddings are not supported for API type: ${this.localConfig.apiType}`);
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, input: texts }),
+      signal: AbortSignal.timeout(this.localConfig.timeout || 30000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local AI embedding error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const embeddings: number[][] = this.localConfig.apiType === 'ollama'
+      ? data.embeddings
+      : (data.data || []).map((item: { embedding: number[] }) => item.embedding);
+
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+      throw new Error(`Local AI returned ${embeddings?.length ?? 0} embeddings for ${texts.length} texts`);
+    }
+    return embeddings;
+  }
+
   normalize(response: any): ProviderResponse {
     switch (this.localConfig.apiType) {
       case 'ollama':
@@ -72,6 +72,7 @@ export class ProviderRegistry {
         timeout: parseInt(process.env.LOCAL_AI_TIMEOUT || '30000'),
         weight: parseFloat(process.env.LOCAL_AI_WEIGHT || '1.5'), // Higher weight for core model
         dockerEnabled: process.env.DOCKER_AI_ENABLED === 'true',
+        embeddingModel: process.env.LOCAL_AI_EMBEDDING_MODEL,
       };
       
       this.register(new LocalAIProvider(localConfig));
@@ -0,0 +1,231 @@
+/**
+ * Native Tool-Calling Formats
+ * Converts provider-neutral messages and tool definitions to each API's function-calling
+ * format and reads tool calls back out of the responses
+ */
+
+import { ChatMessage, ToolCall, ToolDefinition } from '../types';
+
+/**
+ * Tool arguments arrive as JSON strings from OpenAI-style APIs; malformed JSON becomes
+ * an empty object so the tool's own validation reports it back to the model
+ */
+function parseArguments(value: unknown): Record<string, any> {
+  if (typeof value !== 'string') {
+    return (value as Record<string, any>) || {};
+  }
+  try {
+    return JSON.parse(value || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function systemText(messages: ChatMessage[]): string | undefined {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content);
+  return system.length > 0 ? system.join('\n\n') : undefined;
+}
+
+/**
+ * OpenAI Chat Completions (also DeepSeek, LM Studio and other OpenAI-compatible servers)
+ */
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+export function toOpenAIMessages(messages: ChatMessage[]) {
+  return messages.map(message => {
+    switch (message.role) {
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls && message.toolCalls.length > 0 && {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          }),
+        };
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+}
+
+export function fromOpenAIToolCalls(response: any): ToolCall[] {
+  const calls: any[] = response.choices?.[0]?.message?.tool_calls || [];
+  return calls.map((call, index) => ({
+    id: call.id || `call-${index}`,
+    name: call.function?.name,
+    arguments: parseArguments(call.function?.arguments),
+  }));
+}
+
+/**
+ * Anthropic Messages
+ * Tool results go back as tool_result blocks in a user turn
+ */
+export function toAnthropicTools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+export function toAnthropicMessages(messages: ChatMessage[]): { system?: string; messages: any[] } {
+  const converted: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const last = converted[converted.length - 1];
+      // Results of parallel calls share one user turn
+      if (last && last.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+        last.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant') {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+    } else {
+      converted.push({ role: 'user', content: message.content });
+    }
+  }
+
+  return { system: systemText(messages), messages: converted };
+}
+
+export function fromAnthropicToolCalls(response: any): ToolCall[] {
+  const blocks: any[] = response.content || [];
+  return blocks
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+}
+
+export function anthropicText(response: any): string {
+  const blocks: any[] = response.content || [];
+  return blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+}
+
+/**
+ * Gemini generateContent
+ * Function calls carry no IDs on older models, so results are matched by name
+ */
+export function toGeminiTools(tools: ToolDefinition[]) {
+  return [{
+    functionDeclarations: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    })),
+  }];
+}
+
+export function toGeminiContents(messages: ChatMessage[]): { systemInstruction?: any; contents: any[] } {
+  const contents: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const part = { functionResponse: { name: message.name, response: { content: message.content } } };
+      const last = contents[contents.length - 1];
+      if (last && last.role === 'user' && last.parts[0]?.functionResponse) {
+        last.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    } else if (message.role === 'assistant') {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+        ],
+      });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    }
+  }
+
+  const system = systemText(messages);
+  return {
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    contents,
+  };
+}
+
+export function fromGeminiToolCalls(response: any): ToolCall[] {
+  const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+  return parts
+    .filter(part => part.functionCall)
+    .map((part, index) => ({
+      id: part.functionCall.id || `${part.functionCall.name}-${index}`,
+      name: part.functionCall.name,
+      arguments: part.functionCall.args || {},
+    }));
+}
+
+export function geminiText(response: any): string {
+  const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+  return parts.filter(part => typeof part.text === 'string').map(part => part.text).join('');
+}
+
+/**
+ * Ollama /api/chat
+ * OpenAI-style tool definitions, but arguments are objects and calls have no IDs
+ */
+export function toOllamaMessages(messages: ChatMessage[]) {
+  return messages.map(message => {
+    switch (message.role) {
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content,
+          ...(message.toolCalls && message.toolCalls.length > 0 && {
+            tool_calls: message.toolCalls.map(call => ({
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }),
+        };
+      case 'tool':
+        return { role: 'tool', tool_name: message.name, content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+}
+
+export function fromOllamaToolCalls(response: any): ToolCall[] {
+  const calls: any[] = response.message?.tool_calls || [];
+  return calls.map((call, index) => ({
+    id: call.id || `${call.function?.name}-${index}`,
+    name: call.function?.name,
+    arguments: parseArguments(call.function?.arguments),
+  }));
+}
@@ -8,6 +8,11 @@ export interface ConsensusProvider {
   name: string;
   enabled: boolean;
   query(prompt: string, options?: ConsensusQueryOptions): Promise<ProviderResponse>;
+  queryWithTools?(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options?: ConsensusQueryOptions
+  ): Promise<ToolCallingResponse>;
   normalize(response: any): ProviderResponse;
   validate(response: any): boolean;
   getConfig(): ProviderConfig;
@@ -48,6 +53,35 @@ export interface ProviderResponse {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Tool calling
+ * Provider-neutral messages and tool definitions; each provider converts them to its native format
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: string;
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface ToolCallingResponse extends ProviderResponse {
+  toolCalls: ToolCall[];
+}
+
 export interface ConsensusResult {
   id: string;
   consensus: boolean;
@@ -55,6 +89,7 @@ export interface ConsensusResult {
   agreement: number; // Percentage of providers in agreement
   responses: ProviderResponse[];
   majority: string;
+  majorityValue?: any; // Parsed answer of the majority group for structured strategies
   minority: string[];
   metadata: {
     providersQueried: number;
@@ -63,6 +98,8 @@ export interface ConsensusResult {
     cacheHit: boolean;
     prompt: string;
     timestamp: Date;
+    strategy?: string; // Agreement strategy key
+    weights?: Record<string, number>; // Effective provider weights used for the vote
   };
 }
 
@@ -73,6 +110,8 @@ export interface ConsensusConfig {
   timeout: number; // Overall timeout in ms
   cacheEnabled: boolean;
   cacheTTL: number; // Cache TTL in seconds
+  agreement?: AgreementSpec | AgreementStrategy; // How responses are judged to agree (default lexical)
+  learnWeights: boolean; // Scale provider weights by their historical agreement rate
   retryConfig: {
     maxRetries: number;
     backoffMultiplier: number;
@@ -85,6 +124,29 @@ export interface ConsensusRequest {
   prompt: string;
   options?: ConsensusQueryOptions;
   config?: Partial<ConsensusConfig>;
+  agreementKey?: string; // Cache results per agreement strategy
   timestamp: Date;
 }
 
+/**
+ * Agreement strategies
+ * Decide whether two provider responses give the same answer
+ */
+export type AgreementSpec =
+  | { type: 'lexical'; threshold?: number }
+  | { type: 'embedding'; threshold?: number }
+  | { type: 'schema'; fields?: string[] }
+  | { type: 'numeric'; field?: string; tolerance?: number; absoluteTolerance?: number };
+
+export interface AgreementComparator {
+  agrees(a: number, b: number): boolean; // Indexes into the prepared responses
+  valid(index: number): boolean; // Invalid answers never form the majority
+  value?(indexes: number[]): any; // Parsed answer for a group of agreeing responses
+}
+
+export interface AgreementStrategy {
+  name: string;
+  key: string; // Name plus parameters, used in cache keys
+  prepare(responses: ProviderResponse[]): Promise<AgreementComparator>;
+}
+
@@ -0,0 +1,82 @@
+/**
+ * Provider Weight Learning
+ * Scales configured provider weights by how often each provider agrees with the majority
+ */
+
+export interface ProviderAgreementStats {
+  provider: string;
+  rounds: number;
+  agreed: number;
+  rate: number; // Exponential moving average of agreement (0-1)
+  multiplier: number;
+}
+
+export interface WeightLearningOptions {
+  alpha: number; // Moving average smoothing per round
+  initialRate: number;
+  minMultiplier: number; // Multiplier at a 0% agreement rate
+  maxMultiplier: number; // Multiplier at a 100% agreement rate
+}
+
+const DEFAULT_OPTIONS: WeightLearningOptions = {
+  alpha: 0.1,
+  initialRate: 0.5,
+  minMultiplier: 0.5,
+  maxMultiplier: 1.5,
+};
+
+export class ProviderWeightTracker {
+  private options: WeightLearningOptions;
+  private stats: Map<string, { rounds: number; agreed: number; rate: number }> = new Map();
+
+  constructor(options: Partial<WeightLearningOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record one consensus round
+   * Every participant moves its agreement rate towards 1 if it was in the majority, else towards 0
+   */
+  record(participants: string[], agreed: string[]): void {
+    for (const provider of participants) {
+      const stats = this.stats.get(provider) || { rounds: 0, agreed: 0, rate: this.options.initialRate };
+      const inMajority = agreed.includes(provider);
+
+      stats.rounds++;
+      if (inMajority) stats.agreed++;
+      stats.rate += this.options.alpha * ((inMajority ? 1 : 0) - stats.rate);
+      this.stats.set(provider, stats);
+    }
+  }
+
+  getMultiplier(provider: string): number {
+    const rate = this.stats.get(provider)?.rate ?? this.options.initialRate;
+    const { minMultiplier, maxMultiplier } = this.options;
+    return minMultiplier + (maxMultiplier - minMultiplier) * rate;
+  }
+
+  /**
+   * Learned weight for a provider
+   * Normalized so a provider at the initial rate keeps its configured weight
+   */
+  getWeight(provider: string, baseWeight: number = 1.0): number {
+    const { initialRate, minMultiplier, maxMultiplier } = this.options;
+    const initialMultiplier = minMultiplier + (maxMultiplier - minMultiplier) * initialRate;
+    return baseWeight * (this.getMultiplier(provider) / initialMultiplier);
+  }
+
+  getStats(): ProviderAgreementStats[] {
+    return Array.from(this.stats.entries()).map(([provider, stats]) => ({
+      provider,
+      ...stats,
+      multiplier: this.getMultiplier(provider),
+    }));
+  }
+
+  reset(): void {
+    this.stats.clear();
+  }
+}
+
+// Global weight tracker
+export const providerWeights = new ProviderWeightTracker();
@@ -121,6 +121,42 @@ export class ExpressionFactory {
     };
   }
 
+  static createTaskCompleted(
+    agentId: string,
+    task: AgentExpression['task'],
+    result?: any,
+    fromAgent?: string,
+    metadata?: Expression['metadata']
+  ): AgentExpression {
+    return {
+      id: `expr-${Date.now()}-${Math.random()}`,
+      type: 'agent.task.completed',
+      agentId,
+      fromAgent,
+      timestamp: new Date(),
+      task,
+      data: { task, result, fromAgent },
+      metadata,
+    };
+  }
+
+  static createDecision(
+    agentId: string,
+    decision: AgentExpression['decision'],
+    data: Record<string, any> = {},
+    metadata?: Expression['metadata']
+  ): AgentExpression {
+    return {
+      id: `expr-${Date.now()}-${Math.random()}`,
+      type: 'agent.decision',
+      agentId,
+      timestamp: new Date(),
+      decision,
+      data: { ...data, decision },
+      metadata,
+    };
+  }
+
   static createConsensusRequested(
     consensusId: string,
     prompt: string,
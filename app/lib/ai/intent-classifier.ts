@@ -0,0 +1,229 @@
+/**
+ * Intent Classifier
+ * Structured intent classification through the consensus providers,
+ * with a keyword matcher as the fallback when no provider answers
+ */
+
+import { z } from 'zod';
+import { ConsensusProvider, ProviderResponse } from './consensus/types';
+import { extractJsonObject } from './consensus/agreement';
+import { providerRegistry } from './consensus/providers/registry';
+import { ExpressionFactory, expressionStore } from './expressions';
+
+export const INTENT_CATEGORIES = ['trading', 'blockchain', 'security', 'gaming', 'context', 'general'] as const;
+
+export type IntentCategory = typeof INTENT_CATEGORIES[number];
+
+/**
+ * Intent Classification Schema
+ * The JSON every provider is asked to answer with
+ */
+export const IntentClassificationSchema = z.object({
+  category: z.enum(INTENT_CATEGORIES),
+  confidence: z.number().min(0).max(1),
+  keywords: z.array(z.string()).default([]),
+  reasoning: z.string().optional(),
+});
+
+export type IntentClassificationResponse = z.infer<typeof IntentClassificationSchema>;
+
+export interface IntentClassification {
+  category: IntentCategory;
+  confidence: number;
+  keywords: string[];
+  source: 'consensus' | 'keywords';
+  agreement: number; // Share of provider weight behind the category
+  votes: Array<{ provider: string; category: IntentCategory; confidence: number; weight: number }>;
+  consensusId?: string;
+}
+
+export interface ClassifyIntentOptions {
+  providers?: ConsensusProvider[];
+  agentId?: string;
+  timeout?: number;
+}
+
+const INTENT_KEYWORDS: Array<{ category: IntentCategory; keywords: string[] }> = [
+  { category: 'trading', keywords: ['arbitrage', 'trade', 'swap', 'buy', 'sell', 'price', 'profit'] },
+  { category: 'blockchain', keywords: ['transaction', 'account', 'wallet', 'analyze', 'inspect', 'monitor'] },
+  { category: 'security', keywords: ['security', 'audit', 'vulnerability', 'risk', 'safe', 'secure'] },
+  { category: 'gaming', keywords: ['game', 'wager', 'bet', 'pvp', 'pvh', 'tournament', 'match'] },
+  { category: 'context', keywords: ['context', 'memory', 'remember', 'recall', 'history'] },
+];
+
+/**
+ * Every keyword category that matches the text, in the order they appear
+ */
+export function matchIntentCategories(text: string): Array<{ category: IntentCategory; keywords: string[]; position: number }> {
+  const lowerText = text.toLowerCase();
+
+  return INTENT_KEYWORDS
+    .map(intent => {
+      const keywords = intent.keywords.filter(keyword => lowerText.includes(keyword));
+      const positions = keywords.map(keyword => lowerText.indexOf(keyword));
+      return { category: intent.category, keywords, position: Math.min(...positions) };
+    })
+    .filter(match => match.keywords.length > 0)
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Keyword-based classification
+ * Takes the first category in declaration order that has a keyword in the query
+ */
+export function classifyIntentByKeywords(query: string): IntentClassification {
+  const lowerQuery = query.toLowerCase();
+
+  for (const intent of INTENT_KEYWORDS) {
+    const matches = intent.keywords.filter(keyword => lowerQuery.includes(keyword));
+    if (matches.length > 0) {
+      return {
+        category: intent.category,
+        confidence: matches.length / intent.keywords.length,
+        keywords: matches,
+        source: 'keywords',
+        agreement: 1,
+        votes: [],
+      };
+    }
+  }
+
+  return {
+    category: 'general',
+    confidence: 0.5,
+    keywords: [],
+    source: 'keywords',
+    agreement: 1,
+    votes: [],
+  };
+}
+
+export function buildIntentPrompt(query: string): string {
+  return [
+    'Classify the intent of a user request to a Solana DeFi assistant.',
+    `Categories: ${INTENT_CATEGORIES.join(', ')}.`,
+    '- trading: arbitrage, swaps, prices, profit',
+    '- blockchain: transactions, accounts, wallets, monitoring',
+    '- security: audits, token safety, risk',
+    '- gaming: wagers, matches, tournaments',
+    '- context: memory and conversation history',
+    '- general: anything else',
+    'Respond with only a JSON object matching this schema:',
+    '{"category": string (one of the categories), "confidence": number (0-1), "keywords": string[], "reasoning": string}',
+    '',
+    `Request: ${JSON.stringify(query)}`,
+  ].join('\n');
+}
+
+/**
+ * Classify intent through the consensus providers
+ * Each provider votes with its configured weight; the winning category's confidence is
+ * the weighted mean of its voters scaled by their share of the total weight
+ */
+export async function classifyIntent(
+  query: string,
+  options: ClassifyIntentOptions = {}
+): Promise<IntentClassification> {
+  const providers = options.providers || providerRegistry.getAll();
+  if (providers.length === 0) {
+    return classifyIntentByKeywords(query);
+  }
+
+  const agentId = options.agentId || 'master';
+  const consensusId = `intent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const prompt = buildIntentPrompt(query);
+
+  expressionStore.add(
+    ExpressionFactory.createConsensusRequested(consensusId, prompt, agentId, {
+      tags: ['intent-classification'],
+    })
+  );
+
+  const settled = await Promise.allSettled(
+    providers.map(provider =>
+      provider.query(prompt, { temperature: 0, maxTokens: 300, timeout: options.timeout })
+    )
+  );
+
+  const responses: ProviderResponse[] = [];
+  const votes: IntentClassification['votes'] = [];
+  const keywordsByCategory = new Map<IntentCategory, Set<string>>();
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status !== 'fulfilled') {
+      console.error(`Intent classification failed for ${providers[index].id}:`, outcome.reason);
+      return;
+    }
+    responses.push(outcome.value);
+
+    try {
+      const parsed = IntentClassificationSchema.parse(extractJsonObject(outcome.value.response));
+      votes.push({
+        provider: outcome.value.provider,
+        category: parsed.category,
+        confidence: parsed.confidence,
+        weight: providers[index].getConfig().weight ?? 1,
+      });
+      const keywords = keywordsByCategory.get(parsed.category) || new Set<string>();
+      parsed.keywords.forEach(keyword => keywords.add(keyword));
+      keywordsByCategory.set(parsed.category, keywords);
+    } catch (error) {
+      console.error(`Invalid intent classification from ${outcome.value.provider}:`, error);
+    }
+  });
+
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+  if (votes.length === 0 || totalWeight <= 0) {
+    const fallback = classifyIntentByKeywords(query);
+    expressionStore.add(
+      ExpressionFactory.createConsensusReached(consensusId, {
+        consensus: false,
+        confidence: 0,
+        agreement: 0,
+        majority: JSON.stringify({ category: fallback.category, source: fallback.source }),
+        responses: responses.map(({ provider, response }) => ({ provider, response })),
+      }, prompt, { tags: ['intent-classification'] })
+    );
+    return { ...fallback, consensusId };
+  }
+
+  const weightByCategory = new Map<IntentCategory, number>();
+  for (const vote of votes) {
+    weightByCategory.set(vote.category, (weightByCategory.get(vote.category) || 0) + vote.weight);
+  }
+
+  // Ties go to the category voted first
+  let category = votes[0].category;
+  weightByCategory.forEach((weight, candidate) => {
+    if (weight > weightByCategory.get(category)!) {
+      category = candidate;
+    }
+  });
+
+  const winners = votes.filter(vote => vote.category === category);
+  const winnerWeight = weightByCategory.get(category)!;
+  const agreement = winnerWeight / totalWeight;
+  const meanConfidence = winners.reduce((sum, vote) => sum + vote.confidence * vote.weight, 0) / winnerWeight;
+
+  const classification: IntentClassification = {
+    category,
+    confidence: meanConfidence * agreement,
+    keywords: Array.from(keywordsByCategory.get(category) || []),
+    source: 'consensus',
+    agreement,
+    votes,
+    consensusId,
+  };
+
+  expressionStore.add(
+    ExpressionFactory.createConsensusReached(consensusId, {
+      consensus: agreement > 0.5,
+      confidence: classification.confidence,
+      agreement,
+      majority: JSON.stringify({ category, confidence: classification.confidence, keywords: classification.keywords }),
+      responses: responses.map(({ provider, response }) => ({ provider, response })),
+    }, prompt, { tags: ['intent-classification', category] })
+  );
+
+  return classification;
+}
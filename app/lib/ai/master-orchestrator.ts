@@ -6,6 +6,11 @@
 
 import { ContextManagerAgent } from '../agents/context-manager';
 import { MasterContextAggregator } from '../agents/context-integration';
+import { ConsensusProvider } from './consensus/types';
+import { providerRegistry } from './consensus/providers/registry';
+import { ExpressionFactory, expressionStore } from './expressions';
+import { IntentClassification, classifyIntent } from './intent-classifier';
+import { TaskPlan, executePlan, mergePlanResults, planTasks } from './task-planner';
 
 export interface AgentTask {
   id: string;
@@ -37,10 +42,15 @@ export class MasterAIOrchestrator {
   private taskQueue: AgentTask[] = [];
   private activeTasks: Map<string, AgentTask> = new Map();
   private agentRegistry: Map<string, any> = new Map();
+  private providers?: ConsensusProvider[];
 
-  constructor(contextManager: ContextManagerAgent) {
+  /**
+   * @param options.providers Providers for intent classification and planning; defaults to the registry
+   */
+  constructor(contextManager: ContextManagerAgent, options: { providers?: ConsensusProvider[] } = {}) {
     this.contextManager = contextManager;
     this.contextAggregator = new MasterContextAggregator(contextManager);
+    this.providers = options.providers;
   }
 
   /**
@@ -52,6 +62,8 @@ export class MasterAIOrchestrator {
 
   /**
    * Route user query to appropriate agent(s)
+   * Single-step plans go straight to one agent; compound queries run as a plan
+   * and their step results are merged into one response
    */
   async routeQuery(
     userQuery: string,
@@ -68,8 +80,20 @@ export class MasterAIOrchestrator {
       Array.from(this.agentRegistry.keys())
     );
 
-    // 3. Determine which Tier 1 agent should handle
-    const tier1Agent = this.selectTier1Agent(intent);
+    // 3. Plan which agents handle which parts of the query
+    const plan = await this.planQuery(userQuery, intent);
+
+    expressionStore.add(
+      ExpressionFactory.createDecision('master', {
+        action: `route:${plan.steps.map(step => step.agentId).join(',')}`,
+        reasoning: `Intent ${intent.category} (${intent.source}); ${plan.steps.length} step(s) planned by ${plan.planner || plan.source}`,
+        confidence: intent.confidence,
+        consensusId: intent.consensusId,
+      }, { query: userQuery, intent, plan }, {
+        tags: ['routing', intent.category, plan.id],
+        consensusId: intent.consensusId,
+      })
+    );
 
     // 4. Save context
     await this.contextManager.saveContext(
@@ -78,7 +102,8 @@ export class MasterAIOrchestrator {
       {
         query: userQuery,
         intent,
-        selectedAgent: tier1Agent,
+        plan,
+        selectedAgent: plan.steps[0].agentId,
         timestamp: new Date().toISOString(),
       },
       {
@@ -87,27 +112,83 @@ export class MasterAIOrchestrator {
       }
     );
 
-    // 5. Delegate to Tier 1 agent
-    const agent = this.agentRegistry.get(tier1Agent);
+    // 5. Execute the plan, passing each step the results it depends on
+    const results = await executePlan(plan, (step, upstream) =>
+      this.runAgentTask(step.agentId, step.task, sessionId, {
+        allContext,
+        intent,
+        plan,
+        upstream,
+        userId,
+        walletAddress,
+      })
+    );
+
+    if (results.length === 1) {
+      const [step] = results;
+      if (step.status !== 'completed') {
+        throw new Error(step.error);
+      }
+      return {
+        agentId: step.agentId,
+        response: step.result.response || step.result,
+        context: step.result.context,
+        suggestions: step.result.suggestions,
+        confidence: step.result.confidence || 0.8,
+      };
+    }
+
+    const merged = mergePlanResults(results);
+    return {
+      agentId: 'master',
+      response: merged.response,
+      context: { plan, steps: merged.steps },
+      suggestions: merged.suggestions,
+      confidence: merged.confidence,
+    };
+  }
+
+  /**
+   * Plan a query across registered agents
+   */
+  async planQuery(userQuery: string, intent?: IntentClassification): Promise<TaskPlan> {
+    const agents = Array.from(this.agentRegistry.entries()).map(([id, agent]) => ({
+      id,
+      description: agent?.description,
+    }));
+
+    return planTasks(userQuery, agents, {
+      providers: this.getProviders(),
+      agentForCategory: category => this.selectTier1Agent({ category }),
+      fallbackAgent: intent ? this.selectTier1Agent(intent) : undefined,
+    });
+  }
+
+  /**
+   * Run a single task on an agent and save its response as agent context
+   */
+  private async runAgentTask(
+    agentId: string,
+    query: string,
+    sessionId: string,
+    context: Record<string, any>
+  ): Promise<any> {
+    const agent = this.agentRegistry.get(agentId);
     if (!agent) {
-      throw new Error(`Agent ${tier1Agent} not found`);
+      throw new Error(`Agent ${agentId} not found`);
     }
 
-    // 6. Get agent's context via GET request
-    const agentContext = await this.getAgentContext(tier1Agent, sessionId);
+    // Get agent's context via GET request
+    const agentContext = await this.getAgentContext(agentId, sessionId);
 
-    // 7. Execute task
     const task: AgentTask = {
       id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      assignedTo: tier1Agent,
+      assignedTo: agentId,
       assignedBy: 'master',
-      task: userQuery,
+      task: query,
       context: {
         ...agentContext,
-        allContext,
-        intent,
-        userId,
-        walletAddress,
+        ...context,
       },
       status: 'in_progress',
       timestamp: new Date(),
@@ -117,7 +198,7 @@ export class MasterAIOrchestrator {
 
     try {
       // Execute agent task
-      const result = await agent.handleTask(userQuery, task.context);
+      const result = await agent.handleTask(query, task.context);
 
       // Update task
       task.status = 'completed';
@@ -125,26 +206,20 @@ export class MasterAIOrchestrator {
 
       // Save agent context
       await this.contextManager.saveContext(
-        tier1Agent,
+        agentId,
         sessionId,
         {
-          query: userQuery,
+          query,
           response: result,
           timestamp: new Date().toISOString(),
         },
         {
-          tags: ['agent-response', intent.category],
+          tags: ['agent-response', context.intent?.category || 'general'],
           priority: 'medium',
         }
       );
 
-      return {
-        agentId: tier1Agent,
-        response: result.response || result,
-        context: result.context,
-        suggestions: result.suggestions,
-        confidence: result.confidence || 0.8,
-      };
+      return result;
     } catch (error) {
       task.status = 'failed';
       task.error = error instanceof Error ? error.message : String(error);
@@ -156,40 +231,14 @@ export class MasterAIOrchestrator {
 
   /**
    * Analyze user intent
+   * Classified through the consensus providers, falling back to keywords
    */
-  private async analyzeIntent(query: string): Promise<{
-    category: string;
-    confidence: number;
-    keywords: string[];
-  }> {
-    const lowerQuery = query.toLowerCase();
-    
-    // Simple keyword-based intent detection
-    // In production, use AI model for this
-    const intents = [
-      { category: 'trading', keywords: ['arbitrage', 'trade', 'swap', 'buy', 'sell', 'price', 'profit'] },
-      { category: 'blockchain', keywords: ['transaction', 'account', 'wallet', 'analyze', 'inspect', 'monitor'] },
-      { category: 'security', keywords: ['security', 'audit', 'vulnerability', 'risk', 'safe', 'secure'] },
-      { category: 'gaming', keywords: ['game', 'wager', 'bet', 'pvp', 'pvh', 'tournament', 'match'] },
-      { category: 'context', keywords: ['context', 'memory', 'remember', 'recall', 'history'] },
-    ];
-
-    for (const intent of intents) {
-      const matches = intent.keywords.filter(keyword => lowerQuery.includes(keyword));
-      if (matches.length > 0) {
-        return {
-          category: intent.category,
-          confidence: matches.length / intent.keywords.length,
-          keywords: matches,
-        };
-      }
-    }
+  private async analyzeIntent(query: string): Promise<IntentClassification> {
+    return classifyIntent(query, { providers: this.getProviders(), agentId: 'master' });
+  }
 
-    return {
-      category: 'general',
-      confidence: 0.5,
-      keywords: [],
-    };
+  private getProviders(): ConsensusProvider[] {
+    return this.providers || providerRegistry.getAll();
   }
 
   /**
@@ -8,6 +8,7 @@
 
 const http = require('http');
 const url = require('url');
+const { createSolanaTools } = require('./solana-tools');
 
 const PORT = process.env.MCP_PORT || 8000;
 const API_KEY = process.env.MCP_API_KEY;
@@ -23,8 +24,11 @@ function log(level, message) {
 
 // MCP Tools Registry
 const tools = {
-  // Solana-specific tools would be registered here
-  // Example: get_account_info, build_transaction, etc.
+  ...createSolanaTools({
+    rpcUrl: process.env.SOLANA_RPC_URL || process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET,
+    appUrl: process.env.APP_URL,
+    appApiKey: process.env.APP_API_KEY,
+  }),
 };
 
 // MCP Resources Registry
@@ -49,7 +53,8 @@ function handleTools(req, res) {
   res.end(JSON.stringify({
     tools: Object.keys(tools).map(name => ({
       name,
-      ...tools[name],
+      description: tools[name].description,
+      inputSchema: tools[name].inputSchema,
     })),
   }));
 }
@@ -70,14 +75,33 @@ function handleToolCall(req, res, toolName) {
   });
 
   req.on('end', async () => {
+    let params;
+    try {
+      // Clients send { params: {...} }; a bare object is accepted too
+      const parsed = body ? JSON.parse(body) : {};
+      params = parsed.params || parsed;
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON body' }));
+      return;
+    }
+
+    const missing = (tool.inputSchema.required || []).filter(name => params[name] === undefined);
+    if (missing.length > 0) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Missing required parameters: ${missing.join(', ')}` }));
+      return;
+    }
+
+    const startTime = Date.now();
     try {
-      const params = body ? JSON.parse(body) : {};
       const result = await tool.handler(params);
+      log('info', `Tool ${toolName} completed in ${Date.now() - startTime}ms`);
       
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ result }));
     } catch (error) {
-      log('error', `Tool call error: ${error.message}`);
+      log('error', `Tool ${toolName} failed after ${Date.now() - startTime}ms: ${error.message}`);
       res.writeHead(500, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: error.message }));
     }
@@ -0,0 +1,230 @@
+/**
+ * Solana MCP Tools
+ * Read-only Solana tools served by the MCP server so models look up on-chain state
+ * instead of guessing it: account lookup, pool scan, swap quote and transaction simulation
+ *
+ * Each tool is { description, inputSchema, handler(params) } as expected by the server's registry.
+ */
+
+const { Connection, PublicKey, VersionedTransaction } = require('@solana/web3.js');
+
+const LAMPORTS_PER_SOL = 1000000000;
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+function toPublicKey(value, field) {
+  try {
+    return new PublicKey(value);
+  } catch (error) {
+    throw new Error(`${field} is not a valid Solana address: ${value}`);
+  }
+}
+
+async function readJson(response, label) {
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${label} failed: ${response.status} - ${text}`);
+  }
+  return response.json();
+}
+
+/**
+ * Create the Solana tool set
+ *
+ * @param {object} options
+ * @param {string} [options.rpcUrl] Solana RPC endpoint
+ * @param {Connection} [options.connection] Existing connection (takes precedence over rpcUrl)
+ * @param {string} [options.appUrl] Base URL of the Next.js app, used for pool scans
+ * @param {string} [options.appApiKey] API key for the app's routes
+ * @param {string} [options.jupiterApiBase] Jupiter quote API base
+ * @param {Function} [options.fetch] fetch implementation
+ */
+function createSolanaTools(options = {}) {
+  const connection = options.connection ||
+    new Connection(options.rpcUrl || 'https://api.mainnet-beta.solana.com', 'confirmed');
+  const appUrl = (options.appUrl || 'http://localhost:3000').replace(/\/$/, '');
+  const jupiterApiBase = (options.jupiterApiBase || 'https://lite-api.jup.ag/v6').replace(/\/$/, '');
+  const fetchFn = options.fetch || ((...args) => fetch(...args));
+
+  return {
+    get_account_info: {
+      description: 'Look up a Solana account: SOL balance, owner program, executable flag and parsed data ' +
+        '(token accounts and mints are decoded). Set includeTokens to also list SPL token balances of a wallet.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          address: { type: 'string', description: 'Base58 account address' },
+          includeTokens: { type: 'boolean', description: 'List SPL token balances owned by the address' },
+        },
+        required: ['address'],
+      },
+      handler: async ({ address, includeTokens }) => {
+        const pubkey = toPublicKey(address, 'address');
+        const { value: account } = await connection.getParsedAccountInfo(pubkey);
+
+        const result = account
+          ? {
+              address,
+              exists: true,
+              lamports: account.lamports,
+              sol: account.lamports / LAMPORTS_PER_SOL,
+              owner: account.owner.toBase58(),
+              executable: account.executable,
+              parsed: Buffer.isBuffer(account.data) ? undefined : account.data.parsed,
+              space: Buffer.isBuffer(account.data) ? account.data.length : account.data.space,
+            }
+          : { address, exists: false, lamports: 0, sol: 0 };
+
+        if (includeTokens) {
+          const responses = await Promise.all(
+            [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+              connection.getParsedTokenAccountsByOwner(pubkey, { programId: new PublicKey(programId) })
+            )
+          );
+          result.tokens = responses
+            .flatMap(response => response.value)
+            .map(({ pubkey: tokenAccount, account: tokenAccountInfo }) => {
+              const info = tokenAccountInfo.data.parsed.info;
+              return {
+                account: tokenAccount.toBase58(),
+                mint: info.mint,
+                amount: info.tokenAmount.amount,
+                uiAmount: info.tokenAmount.uiAmountString,
+                decimals: info.tokenAmount.decimals,
+              };
+            })
+            .filter(token => token.amount !== '0');
+        }
+
+        return result;
+      },
+    },
+
+    scan_pools: {
+      description: 'Scan on-chain DEX pools (Raydium, Orca, Meteora, ...) and return the largest by TVL, ' +
+        'optionally only pools containing a token mint.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dexes: { type: 'array', items: { type: 'string' }, description: 'DEXes to scan, e.g. ["raydium", "orca"]' },
+          token: { type: 'string', description: 'Only pools containing this mint' },
+          minLiquidity: { type: 'number', description: 'Minimum pool liquidity' },
+          limit: { type: 'number', description: 'Maximum pools to return (default 10)' },
+        },
+      },
+      handler: async ({ dexes, token, minLiquidity, limit = 10 }) => {
+        if (token) toPublicKey(token, 'token');
+
+        const query = new URLSearchParams();
+        if (dexes && dexes.length > 0) query.set('dexes', dexes.join(','));
+        if (minLiquidity !== undefined) query.set('minLiquidity', String(minLiquidity));
+
+        const data = await readJson(
+          await fetchFn(`${appUrl}/api/pools/scan?${query.toString()}`, {
+            headers: options.appApiKey ? { 'x-api-key': options.appApiKey } : {},
+          }),
+          'Pool scan'
+        );
+
+        const pools = (data.pools || [])
+          .filter(pool => !token || pool.tokenA.mint === token || pool.tokenB.mint === token)
+          .sort((a, b) => (b.tvl || 0) - (a.tvl || 0));
+
+        return {
+          totalPools: pools.length,
+          pools: pools.slice(0, limit).map(pool => ({
+            id: pool.id,
+            dex: pool.dex,
+            address: pool.poolAddress,
+            pair: `${pool.tokenA.symbol}/${pool.tokenB.symbol}`,
+            tokenA: pool.tokenA.mint,
+            tokenB: pool.tokenB.mint,
+            price: pool.price,
+            feeBps: pool.fee,
+            tvl: pool.tvl,
+            volume24h: pool.volume24h,
+          })),
+        };
+      },
+    },
+
+    get_quote: {
+      description: 'Get a Jupiter swap quote. amount is in base units of the input mint (lamports for SOL).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          inputMint: { type: 'string', description: 'Mint to sell' },
+          outputMint: { type: 'string', description: 'Mint to buy' },
+          amount: { type: 'string', description: 'Input amount in base units' },
+          slippageBps: { type: 'number', description: 'Slippage tolerance in basis points (default 50)' },
+        },
+        required: ['inputMint', 'outputMint', 'amount'],
+      },
+      handler: async ({ inputMint, outputMint, amount, slippageBps = 50 }) => {
+        toPublicKey(inputMint, 'inputMint');
+        toPublicKey(outputMint, 'outputMint');
+        if (!/^\d+$/.test(String(amount)) || BigInt(amount) <= BigInt(0)) {
+          throw new Error(`amount must be a positive integer in base units: ${amount}`);
+        }
+
+        const query = new URLSearchParams({
+          inputMint,
+          outputMint,
+          amount: String(amount),
+          slippageBps: String(slippageBps),
+        });
+        const quote = await readJson(await fetchFn(`${jupiterApiBase}/quote?${query.toString()}`), 'Jupiter quote');
+
+        return {
+          inputMint: quote.inputMint,
+          outputMint: quote.outputMint,
+          inAmount: quote.inAmount,
+          outAmount: quote.outAmount,
+          minimumOutAmount: quote.otherAmountThreshold,
+          priceImpactPct: quote.priceImpactPct,
+          slippageBps: quote.slippageBps,
+          route: (quote.routePlan || []).map(step => ({
+            label: step.swapInfo && step.swapInfo.label,
+            percent: step.percent,
+          })),
+        };
+      },
+    },
+
+    simulate_transaction: {
+      description: 'Simulate a serialized transaction (base64, legacy or versioned) without signatures. ' +
+        'Returns the error, program logs and compute units consumed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          transaction: { type: 'string', description: 'Base64 serialized transaction' },
+        },
+        required: ['transaction'],
+      },
+      handler: async ({ transaction }) => {
+        let tx;
+        try {
+          tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+        } catch (error) {
+          throw new Error(`transaction is not a valid serialized transaction: ${error.message}`);
+        }
+
+        const { value, context } = await connection.simulateTransaction(tx, {
+          sigVerify: false,
+          replaceRecentBlockhash: true,
+          commitment: 'processed',
+        });
+
+        return {
+          slot: context.slot,
+          success: value.err === null,
+          err: value.err,
+          unitsConsumed: value.unitsConsumed,
+          logs: value.logs || [],
+        };
+      },
+    },
+  };
+}
+
+module.exports = { createSolanaTools };
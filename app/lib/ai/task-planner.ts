@@ -0,0 +1,316 @@
+/**
+ * Task Planner
+ * Splits a request into a DAG of sub-tasks across registered agents,
+ * runs independent sub-tasks in parallel and merges their results
+ */
+
+import { z } from 'zod';
+import { ConsensusProvider } from './consensus/types';
+import { providerRegistry } from './consensus/providers/registry';
+import { ExpressionFactory, expressionStore } from './expressions';
+import { extractJsonObject } from './consensus/agreement';
+import { IntentCategory, matchIntentCategories } from './intent-classifier';
+
+export interface PlanStep {
+  id: string;
+  agentId: string;
+  task: string;
+  dependsOn: string[];
+}
+
+export interface TaskPlan {
+  id: string;
+  query: string;
+  steps: PlanStep[];
+  waves: string[][]; // Step IDs that can run together, in execution order
+  source: 'llm' | 'keywords';
+  planner?: string; // Provider that produced the plan
+}
+
+export interface PlannerAgent {
+  id: string;
+  description?: string;
+}
+
+export interface PlanTasksOptions {
+  providers?: ConsensusProvider[];
+  agentForCategory?: (category: IntentCategory) => string | undefined;
+  fallbackAgent?: string;
+  timeout?: number;
+}
+
+export interface PlanStepResult {
+  stepId: string;
+  agentId: string;
+  task: string;
+  status: 'completed' | 'failed' | 'skipped';
+  result?: any;
+  error?: string;
+}
+
+export interface MergedPlanResult {
+  response: string;
+  confidence: number;
+  suggestions: any[];
+  steps: PlanStepResult[];
+}
+
+/**
+ * Task Plan Schema
+ * The JSON a provider is asked to answer with when planning
+ */
+export const TaskPlanSchema = z.object({
+  steps: z.array(z.object({
+    id: z.string().min(1),
+    agentId: z.string().min(1),
+    task: z.string().min(1),
+    dependsOn: z.array(z.string()).default([]),
+  })).min(1),
+});
+
+/**
+ * Validate a plan against the registered agents and group its steps into waves
+ * Every step in a wave only depends on steps in earlier waves
+ */
+export function orderPlanSteps(steps: PlanStep[], agentIds: string[]): string[][] {
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      throw new Error(`Duplicate plan step ${step.id}`);
+    }
+    if (!agentIds.includes(step.agentId)) {
+      throw new Error(`Plan step ${step.id} targets unknown agent ${step.agentId}`);
+    }
+    ids.add(step.id);
+  }
+  for (const step of steps) {
+    const missing = step.dependsOn.find(dependency => !ids.has(dependency));
+    if (missing) {
+      throw new Error(`Plan step ${step.id} depends on unknown step ${missing}`);
+    }
+  }
+
+  const waves: string[][] = [];
+  const done = new Set<string>();
+  let remaining = steps;
+
+  while (remaining.length > 0) {
+    const wave = remaining.filter(step => step.dependsOn.every(dependency => done.has(dependency)));
+    if (wave.length === 0) {
+      throw new Error(`Plan has a dependency cycle between ${remaining.map(step => step.id).join(', ')}`);
+    }
+    wave.forEach(step => done.add(step.id));
+    waves.push(wave.map(step => step.id));
+    remaining = remaining.filter(step => !done.has(step.id));
+  }
+
+  return waves;
+}
+
+export function buildPlanPrompt(query: string, agents: PlannerAgent[]): string {
+  return [
+    'Split a user request to a Solana DeFi assistant into sub-tasks for the available agents.',
+    'Agents:',
+    ...agents.map(agent => `- ${agent.id}${agent.description ? `: ${agent.description}` : ''}`),
+    'Use one step per agent unless the request needs more. A step lists the step IDs whose results it needs in dependsOn;',
+    'steps without dependencies run in parallel.',
+    'Respond with only a JSON object matching this schema:',
+    '{"steps": [{"id": string, "agentId": string (one of the agents), "task": string, "dependsOn": string[]}]}',
+    '',
+    `Request: ${JSON.stringify(query)}`,
+  ].join('\n');
+}
+
+function newPlanId(): string {
+  return `plan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Keyword-based plan
+ * Splits the request on conjunctions, routes each clause by its keywords and makes
+ * clauses introduced by "then" wait for the step before them
+ */
+export function planByKeywords(
+  query: string,
+  agentIds: string[],
+  options: Pick<PlanTasksOptions, 'agentForCategory' | 'fallbackAgent'> = {}
+): TaskPlan {
+  const agentFor = options.agentForCategory || ((category: IntentCategory) => category);
+  const parts = query.split(/(,|;|\band then\b|\bthen\b|\band\b|\balso\b)/i);
+
+  const steps: PlanStep[] = [];
+  let sequential = false;
+  let unrouted: string[] = [];
+
+  for (const part of parts) {
+    const text = part.trim();
+    if (!text || text === ',' || text === ';') {
+      continue;
+    }
+    if (/^(and then|then|and|also)$/i.test(text)) {
+      sequential = sequential || /then/i.test(text);
+      continue;
+    }
+
+    const match = matchIntentCategories(text)
+      .map(candidate => agentFor(candidate.category))
+      .find(agentId => agentId !== undefined && agentIds.includes(agentId));
+    const last = steps[steps.length - 1];
+
+    if (!match) {
+      // Clauses without keywords belong to the step around them
+      if (last) {
+        last.task = `${last.task} and ${text}`;
+      } else {
+        unrouted.push(text);
+      }
+    } else if (last && last.agentId === match && !sequential) {
+      last.task = `${last.task} and ${text}`;
+    } else {
+      steps.push({
+        id: `step-${steps.length + 1}`,
+        agentId: match,
+        task: [...unrouted, text].join(' and '),
+        dependsOn: sequential && last ? [last.id] : [],
+      });
+      unrouted = [];
+    }
+    sequential = false;
+  }
+
+  if (steps.length === 0) {
+    const fallbackAgent = options.fallbackAgent || agentIds[0];
+    if (!fallbackAgent) {
+      throw new Error('No agents registered to plan for');
+    }
+    steps.push({ id: 'step-1', agentId: fallbackAgent, task: query, dependsOn: [] });
+  }
+
+  return {
+    id: newPlanId(),
+    query,
+    steps,
+    waves: orderPlanSteps(steps, agentIds),
+    source: 'keywords',
+  };
+}
+
+/**
+ * Plan a request across agents
+ * Providers are asked in order of weight and the first valid plan wins; without one the
+ * keyword planner is used
+ */
+export async function planTasks(
+  query: string,
+  agents: PlannerAgent[],
+  options: PlanTasksOptions = {}
+): Promise<TaskPlan> {
+  const agentIds = agents.map(agent => agent.id);
+  const providers = [...(options.providers || providerRegistry.getAll())]
+    .sort((a, b) => (b.getConfig().weight ?? 1) - (a.getConfig().weight ?? 1));
+  const prompt = buildPlanPrompt(query, agents);
+
+  for (const provider of providers) {
+    try {
+      const response = await provider.query(prompt, { temperature: 0, maxTokens: 800, timeout: options.timeout });
+      const { steps } = TaskPlanSchema.parse(extractJsonObject(response.response));
+      return {
+        id: newPlanId(),
+        query,
+        steps,
+        waves: orderPlanSteps(steps, agentIds),
+        source: 'llm',
+        planner: provider.id,
+      };
+    } catch (error) {
+      console.error(`Planning failed for ${provider.id}:`, error);
+    }
+  }
+
+  return planByKeywords(query, agentIds, options);
+}
+
+/**
+ * Execute a plan wave by wave
+ * Steps in a wave run in parallel and receive the results of the steps they depend on;
+ * a step whose dependency failed is skipped. Every step is recorded in the expression store
+ */
+export async function executePlan(
+  plan: TaskPlan,
+  runStep: (step: PlanStep, upstream: Record<string, any>) => Promise<any>,
+  fromAgent: string = 'master'
+): Promise<PlanStepResult[]> {
+  const stepsById = new Map(plan.steps.map(step => [step.id, step]));
+  const results = new Map<string, PlanStepResult>();
+  const metadata = { tags: ['plan', plan.id] };
+
+  const run = async (step: PlanStep): Promise<PlanStepResult> => {
+    const description = { id: `${plan.id}:${step.id}`, description: step.task };
+    const blocked = step.dependsOn.find(dependency => results.get(dependency)?.status !== 'completed');
+
+    if (blocked) {
+      const error = `Dependency ${blocked} did not complete`;
+      expressionStore.add(
+        ExpressionFactory.createTaskCompleted(step.agentId, { ...description, status: 'failed' }, { error }, fromAgent, metadata)
+      );
+      return { stepId: step.id, agentId: step.agentId, task: step.task, status: 'skipped', error };
+    }
+
+    expressionStore.add(
+      ExpressionFactory.createTaskAssigned(step.agentId, { ...description, status: 'in_progress' }, fromAgent, metadata)
+    );
+
+    const upstream: Record<string, any> = {};
+    step.dependsOn.forEach(dependency => {
+      upstream[dependency] = results.get(dependency)!.result;
+    });
+
+    try {
+      const result = await runStep(step, upstream);
+      expressionStore.add(
+        ExpressionFactory.createTaskCompleted(step.agentId, { ...description, status: 'completed' }, result, fromAgent, metadata)
+      );
+      return { stepId: step.id, agentId: step.agentId, task: step.task, status: 'completed', result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      expressionStore.add(
+        ExpressionFactory.createTaskCompleted(step.agentId, { ...description, status: 'failed' }, { error: message }, fromAgent, metadata)
+      );
+      return { stepId: step.id, agentId: step.agentId, task: step.task, status: 'failed', error: message };
+    }
+  };
+
+  for (const wave of plan.waves) {
+    const waveResults = await Promise.all(wave.map(stepId => run(stepsById.get(stepId)!)));
+    waveResults.forEach(result => results.set(result.stepId, result));
+  }
+
+  return plan.steps.map(step => results.get(step.id)!);
+}
+
+/**
+ * Merge step results into one response
+ * Confidence is the mean over completed steps, scaled by the share of steps that completed
+ */
+export function mergePlanResults(results: PlanStepResult[]): MergedPlanResult {
+  const completed = results.filter(result => result.status === 'completed');
+
+  const sections = results.map(result => {
+    if (result.status !== 'completed') {
+      return `[${result.agentId}] ${result.task}: ${result.status} - ${result.error}`;
+    }
+    const response = result.result?.response ?? result.result;
+    return `[${result.agentId}] ${typeof response === 'string' ? response : JSON.stringify(response)}`;
+  });
+
+  const meanConfidence = completed.length > 0
+    ? completed.reduce((sum, result) => sum + (result.result?.confidence ?? 0.8), 0) / completed.length
+    : 0;
+
+  return {
+    response: sections.join('\n\n'),
+    confidence: results.length > 0 ? meanConfidence * (completed.length / results.length) : 0,
+    suggestions: completed.reduce<any[]>((all, result) => all.concat(result.result?.suggestions || []), []),
+    steps: results,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Tool Calling
+ * Runs a provider's function-calling loop against tools registered in the MCP server,
+ * with step limits and an audit log of every tool execution
+ */
+
+import {
+  ChatMessage,
+  ConsensusProvider,
+  ConsensusQueryOptions,
+  ToolCall,
+  ToolDefinition,
+} from './consensus/types';
+import { MCPClient } from './mcp/client';
+
+/**
+ * Tool Executor
+ * Where tool calls are executed; the MCP server in production
+ */
+export interface ToolExecutor {
+  listTools(): Promise<ToolDefinition[]>;
+  callTool(name: string, args: Record<string, any>): Promise<any>;
+}
+
+export class MCPToolExecutor implements ToolExecutor {
+  private client: MCPClient;
+
+  constructor(client: MCPClient) {
+    this.client = client;
+  }
+
+  async listTools(): Promise<ToolDefinition[]> {
+    const tools = await this.client.listTools();
+    return tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<any> {
+    const { result, error } = await this.client.callTool({ tool: name, params: args });
+    if (error) {
+      throw new Error(error);
+    }
+    return result;
+  }
+}
+
+export interface ToolAuditEntry {
+  id: string;
+  runId: string;
+  provider: string;
+  step: number;
+  callId: string;
+  tool: string;
+  arguments: Record<string, any>;
+  status: 'success' | 'error' | 'rejected';
+  result?: any;
+  error?: string;
+  durationMs: number;
+  timestamp: Date;
+}
+
+/**
+ * Tool Audit Log
+ * In-memory record of tool executions (can be extended to use database)
+ */
+export class ToolAuditLog {
+  private entries: ToolAuditEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  add(entry: ToolAuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    console.log(
+      `[Tool Audit] run=${entry.runId} provider=${entry.provider} step=${entry.step} ` +
+      `tool=${entry.tool} status=${entry.status} duration=${entry.durationMs}ms` +
+      (entry.error ? ` error=${entry.error}` : '')
+    );
+  }
+
+  getByRun(runId: string): ToolAuditEntry[] {
+    return this.entries.filter(entry => entry.runId === runId);
+  }
+
+  getRecent(limit: number = 50): ToolAuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+// Global tool audit log
+export const toolAuditLog = new ToolAuditLog();
+
+export interface ToolLoopOptions {
+  maxSteps?: number; // Model calls per run
+  maxToolCalls?: number; // Tool executions per run
+  allowedTools?: string[]; // Defaults to every tool the executor lists
+  system?: string;
+  maxResultChars?: number; // Tool results are truncated before going back to the model
+  queryOptions?: ConsensusQueryOptions;
+  auditLog?: ToolAuditLog;
+}
+
+export interface ToolLoopResult {
+  runId: string;
+  provider: string;
+  response: string;
+  stopReason: 'completed' | 'step_limit' | 'tool_call_limit';
+  steps: number;
+  toolCalls: ToolAuditEntry[];
+  messages: ChatMessage[];
+}
+
+export const DEFAULT_TOOL_SYSTEM_PROMPT =
+  'You are a Solana DeFi assistant with tools for reading on-chain state. ' +
+  'Use them for balances, accounts, pools, quotes and simulations instead of guessing; ' +
+  'if a tool fails, say so rather than inventing a value.';
+
+const DEFAULT_MAX_STEPS = 5;
+const DEFAULT_MAX_TOOL_CALLS = 20;
+const DEFAULT_MAX_RESULT_CHARS = 20000;
+
+function serializeResult(value: any, maxChars: number): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxChars ? `${text.slice(0, maxChars)}... [truncated ${text.length - maxChars} chars]` : text;
+}
+
+/**
+ * Run a tool-calling loop
+ * Each step asks the model for its next move; requested tools run sequentially and their
+ * results are fed back until the model answers without tool calls or a limit is reached
+ */
+export async function runToolLoop(
+  provider: ConsensusProvider,
+  prompt: string,
+  executor: ToolExecutor,
+  options: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  if (!provider.queryWithTools) {
+    throw new Error(`Provider ${provider.id} does not support tool calling`);
+  }
+
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const maxToolCalls = options.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS;
+  const maxResultChars = options.maxResultChars ?? DEFAULT_MAX_RESULT_CHARS;
+  const auditLog = options.auditLog || toolAuditLog;
+  const runId = `tools-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const tools = (await executor.listTools()).filter(
+    tool => !options.allowedTools || options.allowedTools.includes(tool.name)
+  );
+  const toolNames = new Set(tools.map(tool => tool.name));
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: options.system || DEFAULT_TOOL_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+  const audit: ToolAuditEntry[] = [];
+
+  const finish = (response: string, stopReason: ToolLoopResult['stopReason'], steps: number): ToolLoopResult => ({
+    runId,
+    provider: provider.id,
+    response,
+    stopReason,
+    steps,
+    toolCalls: audit,
+    messages,
+  });
+
+  const execute = async (call: ToolCall, step: number): Promise<string> => {
+    const startTime = Date.now();
+    const entry: ToolAuditEntry = {
+      id: `${runId}-${audit.length}`,
+      runId,
+      provider: provider.id,
+      step,
+      callId: call.id,
+      tool: call.name,
+      arguments: call.arguments,
+      status: 'success',
+      durationMs: 0,
+      timestamp: new Date(),
+    };
+
+    let content: string;
+    if (!toolNames.has(call.name)) {
+      entry.status = 'rejected';
+      entry.error = `Unknown or disallowed tool: ${call.name}`;
+      content = JSON.stringify({ error: entry.error });
+    } else {
+      try {
+        entry.result = await executor.callTool(call.name, call.arguments);
+        content = serializeResult(entry.result, maxResultChars);
+      } catch (error) {
+        entry.status = 'error';
+        entry.error = error instanceof Error ? error.message : String(error);
+        content = JSON.stringify({ error: entry.error });
+      }
+    }
+
+    entry.durationMs = Date.now() - startTime;
+    audit.push(entry);
+    auditLog.add(entry);
+    return content;
+  };
+
+  let lastResponse = '';
+  for (let step = 1; step <= maxSteps; step++) {
+    const response = await provider.queryWithTools(messages, tools, options.queryOptions);
+    lastResponse = response.response;
+    messages.push({ role: 'assistant', content: response.response, toolCalls: response.toolCalls });
+
+    if (response.toolCalls.length === 0) {
+      return finish(response.response, 'completed', step);
+    }
+    if (step === maxSteps) {
+      break;
+    }
+
+    for (const call of response.toolCalls) {
+      if (audit.length >= maxToolCalls) {
+        return finish(lastResponse, 'tool_call_limit', step);
+      }
+      const content = await execute(call, step);
+      messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content });
+    }
+  }
+
+  return finish(lastResponse, 'step_limit', maxSteps);
+}
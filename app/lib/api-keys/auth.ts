@@ -0,0 +1,78 @@
+/**
+ * API Key Authentication
+ * Lets backend services call scoped API routes with a key instead of a browser session.
+ * Each request checks the key's scope, enforces its rate limit and is metered against the
+ * key owner.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '../storage';
+import { rateLimitByApiKey } from '../security/rate-limit';
+import { recordUsage } from '../usage-tracking/tracker';
+import { recordApiKeyUse, verifyApiKey } from './keys';
+import { API_KEY_SCOPES, scopeForPath } from './scopes';
+import { ApiKeyAuthResult } from './types';
+
+/**
+ * Key presented in `x-api-key` or `Authorization: Bearer <key>`
+ */
+export function getApiKeyFromRequest(request: NextRequest): string | null {
+  const header = request.headers.get('x-api-key');
+  if (header) return header;
+
+  const authorization = request.headers.get('authorization');
+  const match = authorization?.match(/^Bearer\s+(slk_\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Authenticate a request's API key. Returns null when the request carries no key.
+ */
+export async function authenticateApiKey(request: NextRequest): Promise<ApiKeyAuthResult | null> {
+  const key = getApiKeyFromRequest(request);
+  if (!key) return null;
+
+  const apiKey = await verifyApiKey(key);
+  if (!apiKey) {
+    return { ok: false, status: 401, error: 'Invalid, revoked or expired API key' };
+  }
+
+  const pathname = request.nextUrl.pathname;
+  const scope = scopeForPath(pathname);
+  if (!scope) {
+    return { ok: false, status: 403, error: 'API keys cannot access this route' };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `API key is missing the '${scope}' scope` };
+  }
+
+  if (!rateLimitByApiKey(apiKey.id, apiKey.rateLimit)) {
+    return { ok: false, status: 429, error: 'API key rate limit exceeded. Please try again later.' };
+  }
+
+  try {
+    // One write per request: the usage record and the key's use counter commit together
+    await getStorage().transaction(tx => {
+      recordUsage(tx, apiKey.owner, API_KEY_SCOPES[scope].feature, {
+        apiKeyId: apiKey.id,
+        path: pathname,
+        method: request.method,
+      });
+      recordApiKeyUse(tx, apiKey.id);
+    });
+  } catch (error) {
+    return { ok: false, status: 402, error: error instanceof Error ? error.message : 'Usage not allowed' };
+  }
+
+  return { ok: true, apiKey, scope };
+}
+
+/**
+ * Route guard: the error response for a rejected API key, or null to continue.
+ * Requests without a key are left to the route's usual handling.
+ */
+export async function checkApiKey(request: NextRequest): Promise<NextResponse | null> {
+  const result = await authenticateApiKey(request);
+  if (!result || result.ok) return null;
+  return NextResponse.json({ error: result.error }, { status: result.status });
+}
@@ -0,0 +1,8 @@
+/**
+ * API Key Exports
+ */
+
+export * from './types';
+export * from './scopes';
+export * from './keys';
+export * from './auth';
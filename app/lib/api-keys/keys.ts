@@ -0,0 +1,180 @@
+/**
+ * API Key Management
+ * Issue, rotate, revoke and verify keys. Keys look like `slk_<id>_<secret>`: the id
+ * locates the record and the secret is compared against its stored SHA-256 hash.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getStorage, STORAGE_COLLECTIONS, StorageTransaction } from '../storage';
+import type { RateLimitConfig } from '../security/rate-limit';
+import { isApiKeyScope } from './scopes';
+import { ApiKeyInfo, ApiKeyRecord, CreateApiKeyOptions, IssuedApiKey } from './types';
+
+const COLLECTION = STORAGE_COLLECTIONS.apiKeys;
+const KEY_PREFIX = 'slk';
+const KEY_PATTERN = /^slk_([0-9a-f]{16})_([0-9a-f]{64})$/;
+
+export const MAX_KEYS_PER_OWNER = 10;
+export const DEFAULT_API_KEY_RATE_LIMIT: RateLimitConfig = { limit: 60, windowMs: 60000 };
+const MAX_REQUESTS_PER_MINUTE = 600;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toInfo(record: ApiKeyRecord): ApiKeyInfo {
+  const { hash: _hash, ...info } = record;
+  return info;
+}
+
+function isUsable(record: ApiKeyRecord, now: Date): boolean {
+  return !record.revokedAt && (!record.expiresAt || new Date(record.expiresAt) > now);
+}
+
+function validateOptions(options: CreateApiKeyOptions): void {
+  if (!options.name || options.name.length > 64) {
+    throw new Error('API key name must be 1-64 characters');
+  }
+  if (options.scopes.length === 0 || !options.scopes.every(isApiKeyScope)) {
+    throw new Error('API key needs at least one valid scope');
+  }
+  const rateLimit = options.rateLimit;
+  if (rateLimit) {
+    const perMinute = rateLimit.limit * (60000 / rateLimit.windowMs);
+    if (rateLimit.limit < 1 || rateLimit.windowMs < 1000 || perMinute > MAX_REQUESTS_PER_MINUTE) {
+      throw new Error(`API key rate limit must be at least 1 request per window and at most ${MAX_REQUESTS_PER_MINUTE} per minute`);
+    }
+  }
+}
+
+function newRecord(owner: string, options: CreateApiKeyOptions, now: Date): { key: string; record: ApiKeyRecord } {
+  const id = randomBytes(8).toString('hex');
+  const secret = randomBytes(32).toString('hex');
+  return {
+    key: `${KEY_PREFIX}_${id}_${secret}`,
+    record: {
+      id,
+      owner,
+      name: options.name,
+      prefix: `${KEY_PREFIX}_${id}_${secret.slice(0, 4)}`,
+      hash: hashSecret(secret),
+      scopes: Array.from(new Set(options.scopes)),
+      rateLimit: options.rateLimit || DEFAULT_API_KEY_RATE_LIMIT,
+      createdAt: now.toISOString(),
+      lastUsedAt: null,
+      usageCount: 0,
+      expiresAt: null,
+      revokedAt: null,
+    },
+  };
+}
+
+/**
+ * Issue a new key for `owner`
+ */
+export async function createApiKey(owner: string, options: CreateApiKeyOptions): Promise<IssuedApiKey> {
+  validateOptions(options);
+
+  return getStorage().transaction(tx => {
+    const now = new Date();
+    const active = tx.list<ApiKeyRecord>(COLLECTION)
+      .filter(([, record]) => record.owner === owner && isUsable(record, now));
+    if (active.length >= MAX_KEYS_PER_OWNER) {
+      throw new Error(`Maximum of ${MAX_KEYS_PER_OWNER} active API keys reached`);
+    }
+
+    const { key, record } = newRecord(owner, options, now);
+    tx.set(COLLECTION, record.id, record);
+    return { key, info: toInfo(record) };
+  });
+}
+
+/**
+ * Keys belonging to `owner`, newest first
+ */
+export async function listApiKeys(owner: string): Promise<ApiKeyInfo[]> {
+  const records = await getStorage().list<ApiKeyRecord>(COLLECTION);
+  return records
+    .map(([, record]) => record)
+    .filter(record => record.owner === owner)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toInfo);
+}
+
+/**
+ * Replace a key with a new secret carrying the same name, scopes and quota. The old key
+ * stops working immediately, or after `graceMs` so callers can roll over.
+ */
+export async function rotateApiKey(owner: string, id: string, graceMs: number = 0): Promise<IssuedApiKey> {
+  return getStorage().transaction(tx => {
+    const now = new Date();
+    const old = tx.get<ApiKeyRecord>(COLLECTION, id);
+    if (!old || old.owner !== owner) {
+      throw new Error('API key not found');
+    }
+    if (!isUsable(old, now) || old.rotatedTo) {
+      throw new Error('API key is revoked, expired or already rotated');
+    }
+
+    const { key, record } = newRecord(owner, { name: old.name, scopes: old.scopes, rateLimit: old.rateLimit }, now);
+    record.rotatedFrom = old.id;
+    old.rotatedTo = record.id;
+    if (graceMs > 0) {
+      old.expiresAt = new Date(now.getTime() + graceMs).toISOString();
+    } else {
+      old.revokedAt = now.toISOString();
+    }
+
+    tx.set(COLLECTION, old.id, old);
+    tx.set(COLLECTION, record.id, record);
+    return { key, info: toInfo(record) };
+  });
+}
+
+/**
+ * Revoke a key. Revoking twice is a no-op.
+ */
+export async function revokeApiKey(owner: string, id: string): Promise<ApiKeyInfo> {
+  return getStorage().transaction(tx => {
+    const record = tx.get<ApiKeyRecord>(COLLECTION, id);
+    if (!record || record.owner !== owner) {
+      throw new Error('API key not found');
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      tx.set(COLLECTION, id, record);
+    }
+    return toInfo(record);
+  });
+}
+
+/**
+ * Look up a presented key without writing. Returns null for unknown, revoked or
+ * expired keys.
+ */
+export async function verifyApiKey(key: string): Promise<ApiKeyInfo | null> {
+  const match = KEY_PATTERN.exec(key.trim());
+  if (!match) return null;
+  const [, id, secret] = match;
+
+  const record = await getStorage().get<ApiKeyRecord>(COLLECTION, id);
+  if (!record || !isUsable(record, new Date())) return null;
+
+  const expected = Buffer.from(record.hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  if (!timingSafeEqual(expected, actual)) return null;
+
+  return toInfo(record);
+}
+
+/**
+ * Count one authenticated request against a key, inside the request's usage transaction
+ */
+export function recordApiKeyUse(tx: StorageTransaction, id: string, now: Date = new Date()): void {
+  const record = tx.get<ApiKeyRecord>(COLLECTION, id);
+  if (!record) return;
+
+  record.lastUsedAt = now.toISOString();
+  record.usageCount++;
+  tx.set(COLLECTION, id, record);
+}
@@ -0,0 +1,39 @@
+/**
+ * API Key Scopes
+ * Each scope grants one route group and meters requests against a usage feature
+ */
+
+import { ApiKeyScope, ApiKeyScopeDefinition } from './types';
+
+export const API_KEY_SCOPES: Record<ApiKeyScope, ApiKeyScopeDefinition> = {
+  pools: {
+    routes: ['/api/pools/'],
+    feature: 'scanner_scan',
+    description: 'Pool scanning, analysis and signals',
+  },
+  jupiter: {
+    routes: ['/api/jupiter/'],
+    feature: 'advanced_transaction',
+    description: 'Jupiter quotes and swaps',
+  },
+  ai: {
+    routes: ['/api/ai/'],
+    feature: 'ai_query',
+    description: 'AI models and content generation',
+  },
+};
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, value);
+}
+
+/**
+ * Scope that covers a request path, or null if API keys cannot access it
+ */
+export function scopeForPath(pathname: string): ApiKeyScope | null {
+  const path = pathname.endsWith('/') ? pathname : `${pathname}/`;
+  const scope = (Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).find(name =>
+    API_KEY_SCOPES[name].routes.some(prefix => path.startsWith(prefix))
+  );
+  return scope || null;
+}
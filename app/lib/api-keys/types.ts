@@ -0,0 +1,55 @@
+/**
+ * API Key Types
+ */
+
+import type { RateLimitConfig } from '../security/rate-limit';
+import type { FeatureType } from '../usage-tracking/types';
+
+export type ApiKeyScope = 'pools' | 'jupiter' | 'ai';
+
+export interface ApiKeyScopeDefinition {
+  routes: string[]; // Route prefixes the scope grants
+  feature: FeatureType; // Usage feature metered per request
+  description: string;
+}
+
+/**
+ * Stored key. Only the SHA-256 hash of the secret is kept; the full key is shown once
+ * when created or rotated.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  owner: string; // Wallet address
+  name: string;
+  prefix: string; // Non-secret start of the key, for display
+  hash: string;
+  scopes: ApiKeyScope[];
+  rateLimit: RateLimitConfig;
+  createdAt: string;
+  lastUsedAt: string | null;
+  usageCount: number;
+  expiresAt: string | null; // Set on rotation when the old key keeps working for a grace period
+  revokedAt: string | null;
+  rotatedFrom?: string;
+  rotatedTo?: string;
+}
+
+/**
+ * Key as returned to its owner (no hash)
+ */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: RateLimitConfig;
+}
+
+export interface IssuedApiKey {
+  key: string; // Full secret, never retrievable again
+  info: ApiKeyInfo;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: ApiKeyInfo; scope: ApiKeyScope }
+  | { ok: false; status: number; error: string };
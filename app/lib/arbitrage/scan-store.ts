@@ -0,0 +1,46 @@
+/**
+ * Arbitrage Scan Store
+ * Keeps validated scanning results per wallet so they can be exported later
+ */
+
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+import { ArbitrageScanningResults, ArbitrageScanningResultsSchema } from './arbitrage-result-schema';
+
+export interface StoredArbitrageScan {
+  owner: string; // Wallet address
+  savedAt: string;
+  results: ArbitrageScanningResults;
+}
+
+const COLLECTION = STORAGE_COLLECTIONS.arbitrageScans;
+
+/**
+ * Validate and store a scan. A scan with the same id replaces the earlier one.
+ */
+export async function saveArbitrageScan(owner: string, results: ArbitrageScanningResults): Promise<void> {
+  const validated = ArbitrageScanningResultsSchema.parse(results);
+  await getStorage().set<StoredArbitrageScan>(COLLECTION, validated.scanId, {
+    owner,
+    savedAt: new Date().toISOString(),
+    results: validated,
+  });
+}
+
+/**
+ * Scans of `owner` started within [from, to), oldest first
+ */
+export async function listArbitrageScans(
+  owner: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ArbitrageScanningResults[]> {
+  const scans = await getStorage().list<StoredArbitrageScan>(COLLECTION);
+  return scans
+    .map(([, scan]) => scan)
+    .filter(scan => {
+      if (scan.owner !== owner) return false;
+      const started = new Date(scan.results.scanStartTime);
+      return (!range.from || started >= range.from) && (!range.to || started < range.to);
+    })
+    .map(scan => scan.results)
+    .sort((a, b) => a.scanStartTime.localeCompare(b.scanStartTime));
+}
@@ -262,6 +262,16 @@ export async function executeMultiSend(
     config
   );
 
+  // Register created wallets in wallet manager before funding them, so their keys are
+  // stored (encrypted; throws if the registry is locked) before any SOL is sent
+  for (const { keypair, label } of createdWallets) {
+    await walletRegistry.registerWallet(
+      keypair.publicKey.toString(),
+      keypair,
+      label || `Bundler Wallet ${new Date().toLocaleString()}`
+    );
+  }
+
   // Get recent blockhash
   const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
   transaction.recentBlockhash = blockhash;
@@ -291,15 +301,6 @@ export async function executeMultiSend(
     'confirmed'
   );
 
-  // Register created wallets in wallet manager
-  for (const { keypair, label } of createdWallets) {
-    walletRegistry.registerWallet(
-      keypair.publicKey.toString(),
-      keypair,
-      label || `Bundler Wallet ${new Date().toLocaleString()}`
-    );
-  }
-
   const totalAmount = config.recipients.reduce((sum, r) => sum + r.amount, 0);
   const rentExempt = await connection.getMinimumBalanceForRentExemption(0);
   const accountsCreated = estimate.accountsToCreate;
@@ -0,0 +1,214 @@
+/**
+ * Export Datasets
+ * Each dataset reads one page of rows for a wallet at a time, so exports of any
+ * size can be streamed and resumed from a cursor.
+ */
+
+import { Connection, LAMPORTS_PER_SOL, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { ArbitrageScanningResultsSchema } from '../arbitrage/arbitrage-result-schema';
+import { listArbitrageScans } from '../arbitrage/scan-store';
+import { listMarketMakerFills } from '../market-maker/trade-log';
+import { getUserUsageRecords } from '../usage-tracking/tracker';
+import { ExportColumn, ExportDataset, ExportFilters, ExportPage, ExportRow } from './types';
+
+const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface DatasetContext {
+  wallet: string;
+  filters: ExportFilters;
+  from?: Date;
+  to?: Date;
+  connection?: Connection; // Required for transactions
+}
+
+export interface DatasetSource {
+  columns: ExportColumn[];
+  /**
+   * Up to about `size` rows after `cursor` (null for the first page)
+   */
+  page(context: DatasetContext, cursor: string | null, size: number): Promise<ExportPage>;
+}
+
+/**
+ * Page through rows already held in storage; the cursor is the row offset
+ */
+function offsetPage(rows: ExportRow[], cursor: string | null, size: number): ExportPage {
+  const offset = cursor === null ? 0 : Number(cursor);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('Invalid export cursor');
+  }
+  const end = offset + size;
+  return {
+    rows: rows.slice(offset, end),
+    nextCursor: end < rows.length ? String(end) : null,
+  };
+}
+
+const usage: DatasetSource = {
+  columns: [
+    { name: 'id', type: 'string' },
+    { name: 'userId', type: 'string' },
+    { name: 'feature', type: 'string' },
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'cost', type: 'number' },
+    { name: 'paid', type: 'boolean' },
+    { name: 'metadata', type: 'string' },
+  ],
+  async page({ wallet, filters, from, to }, cursor, size) {
+    const records = (await getUserUsageRecords(wallet))
+      .filter(record =>
+        (!filters.feature || record.feature === filters.feature) &&
+        (!from || record.timestamp >= from) &&
+        (!to || record.timestamp < to)
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return offsetPage(records.map(record => ({ ...record, timestamp: record.timestamp.toISOString() })), cursor, size);
+  },
+};
+
+const arbitrage: DatasetSource = {
+  columns: [
+    { name: 'scanId', type: 'string' },
+    { name: 'scanStartTime', type: 'timestamp' },
+    { name: 'scanEndTime', type: 'timestamp' },
+    { name: 'scanDuration', type: 'number' },
+    { name: 'chainsScanned', type: 'string' },
+    { name: 'poolsScanned', type: 'number' },
+    { name: 'opportunitiesFound', type: 'number' },
+    { name: 'executionRate', type: 'number' },
+    { name: 'financialSummary', type: 'string' },
+    { name: 'probableTrades', type: 'string' },
+    { name: 'tradesExecuted', type: 'string' },
+    { name: 'tradesFailed', type: 'string' },
+    { name: 'tradesMissed', type: 'string' },
+    { name: 'solanaDeposits', type: 'string' },
+    { name: 'tonTransactions', type: 'string' },
+    { name: 'shouldRepeat', type: 'boolean' },
+    { name: 'repeatReason', type: 'string' },
+    { name: 'errors', type: 'string' },
+  ],
+  async page({ wallet, from, to }, cursor, size) {
+    const scans = await listArbitrageScans(wallet, { from, to });
+    // Re-validate so every exported document conforms to the current schema
+    return offsetPage(scans.map(scan => ArbitrageScanningResultsSchema.parse(scan)), cursor, size);
+  },
+};
+
+const marketMakerTrades: DatasetSource = {
+  columns: [
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'strategy', type: 'string' },
+    { name: 'agentWallet', type: 'string' },
+    { name: 'tokenMint', type: 'string' },
+    { name: 'side', type: 'string' },
+    { name: 'price', type: 'number' },
+    { name: 'solAmount', type: 'number' },
+    { name: 'tokenAmount', type: 'number' },
+    { name: 'realizedPnl', type: 'number' },
+    { name: 'signature', type: 'string' },
+  ],
+  async page({ wallet, filters, from, to }, cursor, size) {
+    const fills = (await listMarketMakerFills(wallet, { from, to }))
+      .filter(fill => (!filters.mint || fill.tokenMint === filters.mint) && (!filters.side || fill.side === filters.side));
+    return offsetPage(fills.map(fill => ({ ...fill, timestamp: fill.timestamp.toISOString() })), cursor, size);
+  },
+};
+
+/**
+ * One row per SOL or token balance change of `wallet` in a transaction
+ */
+export function transactionRows(wallet: string, signature: string, tx: ParsedTransactionWithMeta): ExportRow[] {
+  if (!tx.meta) return [];
+
+  const base = {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+    status: tx.meta.err ? 'failed' : 'success',
+  };
+  const rows: ExportRow[] = [];
+
+  const index = tx.transaction.message.accountKeys.findIndex(key => key.pubkey.toBase58() === wallet);
+  if (index >= 0) {
+    const fee = index === 0 ? tx.meta.fee / LAMPORTS_PER_SOL : 0;
+    const change = (tx.meta.postBalances[index] - tx.meta.preBalances[index]) / LAMPORTS_PER_SOL;
+    if (change !== 0 || fee !== 0) {
+      rows.push({ ...base, mint: NATIVE_SOL_MINT, change, fee });
+    }
+  }
+
+  const tokenChanges = new Map<string, number>();
+  for (const balance of tx.meta.preTokenBalances || []) {
+    if (balance.owner !== wallet) continue;
+    tokenChanges.set(balance.mint, (tokenChanges.get(balance.mint) || 0) - (balance.uiTokenAmount.uiAmount || 0));
+  }
+  for (const balance of tx.meta.postTokenBalances || []) {
+    if (balance.owner !== wallet) continue;
+    tokenChanges.set(balance.mint, (tokenChanges.get(balance.mint) || 0) + (balance.uiTokenAmount.uiAmount || 0));
+  }
+  tokenChanges.forEach((change, mint) => {
+    if (change !== 0) rows.push({ ...base, mint, change, fee: 0 });
+  });
+
+  return rows;
+}
+
+const transactions: DatasetSource = {
+  columns: [
+    { name: 'signature', type: 'string' },
+    { name: 'slot', type: 'number' },
+    { name: 'blockTime', type: 'timestamp' },
+    { name: 'status', type: 'string' },
+    { name: 'mint', type: 'string' },
+    { name: 'change', type: 'number' },
+    { name: 'fee', type: 'number' },
+  ],
+  // Newest first; the cursor is the last signature read. A page ends on a
+  // transaction boundary, so it can hold a few more rows than `size`.
+  async page({ wallet, filters, from, to, connection }, cursor, size) {
+    if (!connection) throw new Error('Transaction export requires an RPC connection');
+
+    const address = new PublicKey(wallet);
+    const rows: ExportRow[] = [];
+    let before = cursor || undefined;
+
+    while (rows.length === 0) {
+      const signatures = await connection.getSignaturesForAddress(address, { before, limit: Math.min(size, 1000) });
+      if (signatures.length === 0) return { rows, nextCursor: null };
+
+      const inRange = signatures.filter(info => {
+        if (!info.blockTime) return !from && !to;
+        const time = info.blockTime * 1000;
+        return (!from || time >= from.getTime()) && (!to || time < to.getTime());
+      });
+      const parsed = inRange.length > 0
+        ? await connection.getParsedTransactions(inRange.map(info => info.signature), { maxSupportedTransactionVersion: 0 })
+        : [];
+
+      parsed.forEach((tx, i) => {
+        if (!tx) return;
+        rows.push(...transactionRows(wallet, inRange[i].signature, tx).filter(row => !filters.mint || row.mint === filters.mint));
+      });
+
+      before = signatures[signatures.length - 1].signature;
+      const last = signatures[signatures.length - 1].blockTime;
+      const passedRange = !!from && !!last && last * 1000 < from.getTime();
+      if (signatures.length < Math.min(size, 1000) || passedRange) {
+        return { rows, nextCursor: null };
+      }
+    }
+
+    return { rows, nextCursor: before || null };
+  },
+};
+
+export const EXPORT_DATASETS: Record<ExportDataset, DatasetSource> = {
+  transactions,
+  usage,
+  arbitrage,
+  market_maker_trades: marketMakerTrades,
+};
+
+export function isExportDataset(value: unknown): value is ExportDataset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_DATASETS, value);
+}
@@ -0,0 +1,194 @@
+/**
+ * Exporter
+ * Turns an export request into a byte stream in the requested format. Without a
+ * limit the whole range is streamed page by page; with a limit a single page is
+ * written and the cursor for the next one is returned.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { DatasetContext, EXPORT_DATASETS, isExportDataset } from './datasets';
+import { createExportWriter, isExportFormat } from './formats';
+import { ExportFilters, ExportRequest } from './types';
+
+export const EXPORT_PAGE_SIZE = 500;
+export const MAX_EXPORT_LIMIT = 10000;
+
+export interface ExportOptions {
+  connection?: Connection;
+}
+
+export interface ExportResult {
+  contentType: string;
+  fileName: string;
+  nextCursor: string | null;
+  body: ReadableStream<Uint8Array>;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+function validateRequest(request: ExportRequest) {
+  if (!isExportDataset(request.dataset)) {
+    throw new Error(`Unknown export dataset: ${request.dataset}`);
+  }
+  if (!isExportFormat(request.format)) {
+    throw new Error(`Unsupported export format: ${request.format}`);
+  }
+  if (!request.wallet) {
+    throw new Error('Export requires a wallet');
+  }
+  if (request.limit !== undefined &&
+      (!Number.isInteger(request.limit) || request.limit < 1 || request.limit > MAX_EXPORT_LIMIT)) {
+    throw new Error(`Export limit must be between 1 and ${MAX_EXPORT_LIMIT}`);
+  }
+  const side = request.filters?.side;
+  if (side !== undefined && side !== 'buy' && side !== 'sell') {
+    throw new Error('Export side filter must be buy or sell');
+  }
+}
+
+function toContext(request: ExportRequest, options: ExportOptions): DatasetContext {
+  const filters: ExportFilters = request.filters || {};
+  const from = parseDate(filters.from, 'from');
+  const to = parseDate(filters.to, 'to');
+  if (from && to && from >= to) {
+    throw new Error('Export range is empty: from must be before to');
+  }
+  return { wallet: request.wallet, filters, from, to, connection: options.connection };
+}
+
+/**
+ * Reads the encoded output one chunk at a time; null once the output is complete
+ */
+interface ChunkReader {
+  contentType: string;
+  extension: string;
+  read(): Promise<Uint8Array | null>;
+  rows(): number;
+  nextCursor(): string | null; // Where a limited export stopped
+}
+
+function createChunkReader(request: ExportRequest, options: ExportOptions): ChunkReader {
+  validateRequest(request);
+  const context = toContext(request, options);
+  const source = EXPORT_DATASETS[request.dataset];
+  const writer = createExportWriter(request.format, source.columns);
+
+  let stage: 'start' | 'rows' | 'done' = 'start';
+  let cursor: string | null = request.cursor || null;
+  let rowCount = 0;
+
+  return {
+    contentType: writer.contentType,
+    extension: writer.extension,
+    rows: () => rowCount,
+    nextCursor: () => cursor,
+    async read() {
+      if (stage === 'start') {
+        stage = 'rows';
+        return writer.start();
+      }
+      if (stage === 'done') return null;
+
+      const page = await source.page(context, cursor, request.limit || EXPORT_PAGE_SIZE);
+      rowCount += page.rows.length;
+      cursor = page.nextCursor;
+      if (cursor === null || request.limit) {
+        stage = 'done';
+        const body = writer.write(page.rows);
+        const end = writer.finish();
+        const chunk = new Uint8Array(body.length + end.length);
+        chunk.set(body);
+        chunk.set(end, body.length);
+        return chunk;
+      }
+      return writer.write(page.rows);
+    },
+  };
+}
+
+export function exportFileName(request: Pick<ExportRequest, 'dataset' | 'wallet'>, extension: string, date = new Date()): string {
+  return `${request.dataset}-${request.wallet.slice(0, 8)}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Stream an export. For limited exports the page is read before returning so the
+ * next cursor is known up front.
+ */
+export async function streamExport(request: ExportRequest, options: ExportOptions = {}): Promise<ExportResult> {
+  const reader = createChunkReader(request, options);
+  const fileName = exportFileName(request, reader.extension);
+
+  if (request.limit) {
+    // A limited export is a single page, so buffering it is bounded by the limit
+    const chunks: Uint8Array[] = [];
+    for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+      chunks.push(chunk);
+    }
+    return {
+      contentType: reader.contentType,
+      fileName,
+      nextCursor: reader.nextCursor(),
+      body: new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(chunk));
+          controller.close();
+        },
+      }),
+    };
+  }
+
+  return {
+    contentType: reader.contentType,
+    fileName,
+    nextCursor: null,
+    body: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          // Skip empty chunks: a pull that enqueues nothing is not called again
+          let chunk = await reader.read();
+          while (chunk !== null && chunk.length === 0) {
+            chunk = await reader.read();
+          }
+          if (chunk === null) {
+            controller.close();
+          } else {
+            controller.enqueue(chunk);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    }),
+  };
+}
+
+/**
+ * Run an export to completion in memory (used by scheduled exports)
+ */
+export async function exportToBytes(
+  request: ExportRequest,
+  options: ExportOptions = {}
+): Promise<{ bytes: Uint8Array; rows: number; extension: string }> {
+  const reader = createChunkReader({ ...request, limit: undefined, cursor: undefined }, options);
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return { bytes, rows: reader.rows(), extension: reader.extension };
+}
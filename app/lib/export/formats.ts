@@ -0,0 +1,96 @@
+/**
+ * Export Formats
+ * Streaming writers for CSV, JSON Lines and Parquet. Each writer emits its output
+ * in chunks: start() once, write() per batch of rows, finish() once.
+ */
+
+import { ParquetWriter } from './parquet';
+import { ExportColumn, ExportFormat, ExportRow } from './types';
+
+export interface ExportWriter {
+  contentType: string;
+  extension: string;
+  start(): Uint8Array;
+  write(rows: ExportRow[]): Uint8Array;
+  finish(): Uint8Array;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_CONTENT_TYPES, value);
+}
+
+const encoder = new TextEncoder();
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown, column: ExportColumn): string {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (column.type === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvWriter(columns: ExportColumn[]): ExportWriter {
+  const line = (cells: string[]) => encoder.encode(cells.join(',') + '\r\n');
+  return {
+    contentType: EXPORT_CONTENT_TYPES.csv,
+    extension: 'csv',
+    start: () => line(columns.map(column => csvCell(column.name, { name: column.name, type: 'string' }))),
+    write: rows => encoder.encode(
+      rows.map(row => columns.map(column => csvCell(row[column.name], column)).join(',') + '\r\n').join('')
+    ),
+    finish: () => new Uint8Array(0),
+  };
+}
+
+function jsonlWriter(): ExportWriter {
+  return {
+    contentType: EXPORT_CONTENT_TYPES.jsonl,
+    extension: 'jsonl',
+    start: () => new Uint8Array(0),
+    write: rows => encoder.encode(rows.map(row => JSON.stringify(row) + '\n').join('')),
+    finish: () => new Uint8Array(0),
+  };
+}
+
+function parquetWriter(columns: ExportColumn[]): ExportWriter {
+  const writer = new ParquetWriter(columns);
+  return {
+    contentType: EXPORT_CONTENT_TYPES.parquet,
+    extension: 'parquet',
+    start: () => writer.start(),
+    write: rows => writer.writeRowGroup(rows),
+    finish: () => writer.finish(),
+  };
+}
+
+export function createExportWriter(format: ExportFormat, columns: ExportColumn[]): ExportWriter {
+  switch (format) {
+    case 'csv':
+      return csvWriter(columns);
+    case 'jsonl':
+      return jsonlWriter();
+    case 'parquet':
+      return parquetWriter(columns);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Export Exports
+ */
+
+export * from './types';
+export * from './parquet';
+export * from './formats';
+export * from './datasets';
+export * from './exporter';
+export * from './schedules';
@@ -0,0 +1,410 @@
+/**
+ * Parquet Writer
+ * Minimal writer for flat tables: every column is OPTIONAL, PLAIN encoded and
+ * uncompressed, one data page per column chunk. Row groups can be written as rows
+ * arrive, so large exports stream; the footer is written by finish().
+ *
+ * Column types: string -> BYTE_ARRAY (UTF8), number -> DOUBLE, boolean -> BOOLEAN,
+ * timestamp -> INT64 (TIMESTAMP_MILLIS).
+ */
+
+import { ExportColumn, ExportColumnType } from './types';
+
+const MAGIC = new Uint8Array([0x50, 0x41, 0x52, 0x31]); // "PAR1"
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9 };
+const Repetition = { OPTIONAL: 1 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const PAGE_TYPE_DATA = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+// Thrift compact protocol field types
+const CT = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+
+const TWO_32 = 4294967296;
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  bytes(value: Uint8Array) {
+    this.ensure(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  int32LE(value: number) {
+    this.ensure(4);
+    new DataView(this.buffer.buffer).setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  int64LE(value: number) {
+    const high = Math.floor(value / TWO_32);
+    const low = value - high * TWO_32;
+    this.ensure(8);
+    const view = new DataView(this.buffer.buffer);
+    view.setUint32(this.length, low, true);
+    view.setInt32(this.length + 4, high, true);
+    this.length += 8;
+  }
+
+  doubleLE(value: number) {
+    this.ensure(8);
+    new DataView(this.buffer.buffer).setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  /**
+   * Unsigned LEB128, exact for integers up to 2^53
+   */
+  varint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.byte((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.byte(remaining);
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Thrift compact protocol encoder for the structs parquet needs
+ */
+class ThriftWriter {
+  readonly out = new ByteWriter();
+  private lastFieldIds: number[] = [0];
+
+  private fieldHeader(id: number, type: number) {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      this.out.byte((delta << 4) | type);
+    } else {
+      this.out.byte(type);
+      this.zigzag(id);
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  private zigzag(value: number) {
+    this.out.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  private listHeader(size: number, elementType: number) {
+    if (size < 15) {
+      this.out.byte((size << 4) | elementType);
+    } else {
+      this.out.byte(0xf0 | elementType);
+      this.out.varint(size);
+    }
+  }
+
+  private binary(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    this.out.varint(bytes.length);
+    this.out.bytes(bytes);
+  }
+
+  i32(id: number, value: number) {
+    this.fieldHeader(id, CT.I32);
+    this.zigzag(value);
+  }
+
+  i64(id: number, value: number) {
+    this.fieldHeader(id, CT.I64);
+    this.zigzag(value);
+  }
+
+  string(id: number, value: string) {
+    this.fieldHeader(id, CT.BINARY);
+    this.binary(value);
+  }
+
+  i32List(id: number, values: number[]) {
+    this.fieldHeader(id, CT.LIST);
+    this.listHeader(values.length, CT.I32);
+    values.forEach(value => this.zigzag(value));
+  }
+
+  stringList(id: number, values: string[]) {
+    this.fieldHeader(id, CT.LIST);
+    this.listHeader(values.length, CT.BINARY);
+    values.forEach(value => this.binary(value));
+  }
+
+  struct(id: number, write: () => void) {
+    this.fieldHeader(id, CT.STRUCT);
+    this.structBody(write);
+  }
+
+  structList<T>(id: number, items: T[], write: (item: T) => void) {
+    this.fieldHeader(id, CT.LIST);
+    this.listHeader(items.length, CT.STRUCT);
+    items.forEach(item => this.structBody(() => write(item)));
+  }
+
+  /**
+   * Fields of a struct followed by STOP; also used for the top-level struct
+   */
+  structBody(write: () => void) {
+    this.lastFieldIds.push(0);
+    write();
+    this.out.byte(0);
+    this.lastFieldIds.pop();
+  }
+}
+
+interface ColumnChunkInfo {
+  column: ExportColumn;
+  numValues: number;
+  totalSize: number;
+  dataPageOffset: number;
+}
+
+interface RowGroupInfo {
+  numRows: number;
+  totalByteSize: number;
+  columns: ColumnChunkInfo[];
+}
+
+function physicalType(type: ExportColumnType): number {
+  switch (type) {
+    case 'number': return PhysicalType.DOUBLE;
+    case 'boolean': return PhysicalType.BOOLEAN;
+    case 'timestamp': return PhysicalType.INT64;
+    default: return PhysicalType.BYTE_ARRAY;
+  }
+}
+
+function convertedType(type: ExportColumnType): number | undefined {
+  if (type === 'string') return ConvertedType.UTF8;
+  if (type === 'timestamp') return ConvertedType.TIMESTAMP_MILLIS;
+  return undefined;
+}
+
+/**
+ * Coerce a cell to the column's type, or null if it has no usable value
+ */
+function toColumnValue(value: unknown, type: ExportColumnType): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return Boolean(value);
+    case 'timestamp': {
+      const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+      return Number.isFinite(time) ? time : null;
+    }
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+/**
+ * Definition levels (bit width 1) as RLE runs, prefixed with their byte length
+ */
+function encodeDefinitionLevels(present: boolean[]): Uint8Array {
+  const runs = new ByteWriter();
+  let index = 0;
+  while (index < present.length) {
+    const value = present[index];
+    let count = 1;
+    while (index + count < present.length && present[index + count] === value) count++;
+    runs.varint(count * 2); // RLE run header: count << 1
+    runs.byte(value ? 1 : 0);
+    index += count;
+  }
+
+  const out = new ByteWriter();
+  out.int32LE(runs.length);
+  out.bytes(runs.toBytes());
+  return out.toBytes();
+}
+
+function encodeValues(values: Array<string | number | boolean>, type: ExportColumnType): Uint8Array {
+  const out = new ByteWriter();
+  if (type === 'boolean') {
+    // PLAIN booleans are bit-packed, least significant bit first
+    for (let i = 0; i < values.length; i += 8) {
+      let byte = 0;
+      for (let bit = 0; bit < 8 && i + bit < values.length; bit++) {
+        if (values[i + bit]) byte |= 1 << bit;
+      }
+      out.byte(byte);
+    }
+    return out.toBytes();
+  }
+
+  const encoder = new TextEncoder();
+  values.forEach(value => {
+    if (type === 'number') {
+      out.doubleLE(value as number);
+    } else if (type === 'timestamp') {
+      out.int64LE(value as number);
+    } else {
+      const bytes = encoder.encode(value as string);
+      out.int32LE(bytes.length);
+      out.bytes(bytes);
+    }
+  });
+  return out.toBytes();
+}
+
+export class ParquetWriter {
+  private offset = 0;
+  private rowGroups: RowGroupInfo[] = [];
+  private started = false;
+
+  constructor(private columns: ExportColumn[]) {
+    if (columns.length === 0) {
+      throw new Error('Parquet output needs at least one column');
+    }
+  }
+
+  /**
+   * Leading magic bytes
+   */
+  start(): Uint8Array {
+    if (this.started) throw new Error('Parquet writer already started');
+    this.started = true;
+    this.offset = MAGIC.length;
+    return MAGIC.slice();
+  }
+
+  /**
+   * Encode `rows` as one row group
+   */
+  writeRowGroup(rows: Array<Record<string, unknown>>): Uint8Array {
+    if (!this.started) throw new Error('Parquet writer not started');
+    if (rows.length === 0) return new Uint8Array(0);
+
+    const out = new ByteWriter();
+    const chunks: ColumnChunkInfo[] = [];
+
+    for (const column of this.columns) {
+      const cells = rows.map(row => toColumnValue(row[column.name], column.type));
+      const present = cells.map(cell => cell !== null);
+      const values = cells.filter((cell): cell is string | number | boolean => cell !== null);
+
+      const levels = encodeDefinitionLevels(present);
+      const data = encodeValues(values, column.type);
+      const pageSize = levels.length + data.length;
+
+      const header = new ThriftWriter();
+      header.structBody(() => {
+        header.i32(1, PAGE_TYPE_DATA);
+        header.i32(2, pageSize);
+        header.i32(3, pageSize);
+        header.struct(5, () => {
+          header.i32(1, rows.length);
+          header.i32(2, Encoding.PLAIN);
+          header.i32(3, Encoding.RLE);
+          header.i32(4, Encoding.RLE);
+        });
+      });
+      const headerBytes = header.out.toBytes();
+
+      chunks.push({
+        column,
+        numValues: rows.length,
+        totalSize: headerBytes.length + pageSize,
+        dataPageOffset: this.offset + out.length,
+      });
+      out.bytes(headerBytes);
+      out.bytes(levels);
+      out.bytes(data);
+    }
+
+    this.rowGroups.push({ numRows: rows.length, totalByteSize: out.length, columns: chunks });
+    this.offset += out.length;
+    return out.toBytes();
+  }
+
+  /**
+   * File metadata footer and trailing magic bytes
+   */
+  finish(): Uint8Array {
+    if (!this.started) throw new Error('Parquet writer not started');
+
+    const meta = new ThriftWriter();
+    meta.structBody(() => {
+      meta.i32(1, 1); // version
+      meta.structList(2, [null, ...this.columns], column => {
+        if (!column) {
+          meta.string(4, 'schema');
+          meta.i32(5, this.columns.length);
+          return;
+        }
+        meta.i32(1, physicalType(column.type));
+        meta.i32(3, Repetition.OPTIONAL);
+        meta.string(4, column.name);
+        const converted = convertedType(column.type);
+        if (converted !== undefined) meta.i32(6, converted);
+      });
+      meta.i64(3, this.rowGroups.reduce((sum, group) => sum + group.numRows, 0));
+      meta.structList(4, this.rowGroups, group => {
+        meta.structList(1, group.columns, chunk => {
+          meta.i64(2, chunk.dataPageOffset);
+          meta.struct(3, () => {
+            meta.i32(1, physicalType(chunk.column.type));
+            meta.i32List(2, [Encoding.PLAIN, Encoding.RLE]);
+            meta.stringList(3, [chunk.column.name]);
+            meta.i32(4, CODEC_UNCOMPRESSED);
+            meta.i64(5, chunk.numValues);
+            meta.i64(6, chunk.totalSize);
+            meta.i64(7, chunk.totalSize);
+            meta.i64(9, chunk.dataPageOffset);
+          });
+        });
+        meta.i64(2, group.totalByteSize);
+        meta.i64(3, group.numRows);
+      });
+      meta.string(6, 'sealevel-export');
+    });
+
+    const metaBytes = meta.out.toBytes();
+    const out = new ByteWriter();
+    out.bytes(metaBytes);
+    out.int32LE(metaBytes.length);
+    out.bytes(MAGIC);
+    return out.toBytes();
+  }
+}
+
+/**
+ * Encode a whole table at once
+ */
+export function encodeParquet(columns: ExportColumn[], rows: Array<Record<string, unknown>>): Uint8Array {
+  const writer = new ParquetWriter(columns);
+  const parts = [writer.start(), writer.writeRowGroup(rows), writer.finish()];
+  const out = new ByteWriter();
+  parts.forEach(part => out.bytes(part));
+  return out.toBytes();
+}
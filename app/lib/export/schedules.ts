@@ -0,0 +1,296 @@
+/**
+ * Scheduled Exports
+ * Recurring exports of the previous full UTC day, week (Monday start), month or
+ * quarter. Runs are triggered by the cron route; each writes a file under EXPORT_DIR
+ * and a run record that the owner can list and download.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+import { isExportDataset } from './datasets';
+import { ExportOptions, exportToBytes } from './exporter';
+import { EXPORT_CONTENT_TYPES, isExportFormat } from './formats';
+import { ExportDataset, ExportFilters, ExportFormat, ExportFrequency, ExportRun, ExportSchedule } from './types';
+
+const SCHEDULES = STORAGE_COLLECTIONS.exportSchedules;
+const RUNS = STORAGE_COLLECTIONS.exportRuns;
+
+const DEFAULT_EXPORT_DIR = '.data/exports';
+
+export const MAX_SCHEDULES_PER_OWNER = 10;
+
+export const EXPORT_FREQUENCIES: ExportFrequency[] = ['daily', 'weekly', 'monthly', 'quarterly'];
+
+export function isExportFrequency(value: unknown): value is ExportFrequency {
+  return typeof value === 'string' && EXPORT_FREQUENCIES.indexOf(value as ExportFrequency) >= 0;
+}
+
+function exportDir(): string {
+  return process.env.EXPORT_DIR || DEFAULT_EXPORT_DIR;
+}
+
+/**
+ * Start of the UTC period containing `date`
+ */
+export function periodStart(frequency: ExportFrequency, date: Date): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  switch (frequency) {
+    case 'daily':
+      return new Date(Date.UTC(year, month, day));
+    case 'weekly':
+      return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+    case 'monthly':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarterly':
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+  }
+}
+
+/**
+ * Move a period start forward (or back, with a negative count) by whole periods
+ */
+export function addPeriods(frequency: ExportFrequency, start: Date, count: number): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  switch (frequency) {
+    case 'daily':
+      return new Date(Date.UTC(year, month, day + count));
+    case 'weekly':
+      return new Date(Date.UTC(year, month, day + count * 7));
+    case 'monthly':
+      return new Date(Date.UTC(year, month + count, 1));
+    case 'quarterly':
+      return new Date(Date.UTC(year, month + count * 3, 1));
+  }
+}
+
+export interface CreateExportScheduleOptions {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  frequency: ExportFrequency;
+  filters?: Omit<ExportFilters, 'from' | 'to'>;
+}
+
+function validateScheduleOptions(options: Partial<CreateExportScheduleOptions>): void {
+  if (options.dataset !== undefined && !isExportDataset(options.dataset)) {
+    throw new Error(`Unknown export dataset: ${options.dataset}`);
+  }
+  if (options.format !== undefined && !isExportFormat(options.format)) {
+    throw new Error(`Unsupported export format: ${options.format}`);
+  }
+  if (options.frequency !== undefined && !isExportFrequency(options.frequency)) {
+    throw new Error(`Export frequency must be one of: ${EXPORT_FREQUENCIES.join(', ')}`);
+  }
+}
+
+// The period is chosen per run, so a schedule never keeps a fixed range
+function withoutRange(filters?: ExportFilters): ExportSchedule['filters'] {
+  if (!filters) return undefined;
+  const { from: _from, to: _to, ...rest } = filters;
+  return rest;
+}
+
+/**
+ * Create a schedule. The first run is at the start of the next period and exports
+ * the current one.
+ */
+export async function createExportSchedule(
+  owner: string,
+  options: CreateExportScheduleOptions,
+  now: Date = new Date()
+): Promise<ExportSchedule> {
+  if (!options.dataset || !options.format || !options.frequency) {
+    throw new Error('Export schedule needs a dataset, format and frequency');
+  }
+  validateScheduleOptions(options);
+
+  return getStorage().transaction(tx => {
+    const owned = tx.list<ExportSchedule>(SCHEDULES).filter(([, schedule]) => schedule.owner === owner);
+    if (owned.length >= MAX_SCHEDULES_PER_OWNER) {
+      throw new Error(`Maximum of ${MAX_SCHEDULES_PER_OWNER} export schedules reached`);
+    }
+
+    const schedule: ExportSchedule = {
+      id: `exp_${randomBytes(8).toString('hex')}`,
+      owner,
+      dataset: options.dataset,
+      format: options.format,
+      frequency: options.frequency,
+      filters: withoutRange(options.filters),
+      active: true,
+      nextRunAt: addPeriods(options.frequency, periodStart(options.frequency, now), 1).toISOString(),
+      lastRunAt: null,
+      createdAt: now.toISOString(),
+    };
+    tx.set(SCHEDULES, schedule.id, schedule);
+    return schedule;
+  });
+}
+
+export async function listExportSchedules(owner: string): Promise<ExportSchedule[]> {
+  const schedules = await getStorage().list<ExportSchedule>(SCHEDULES);
+  return schedules
+    .map(([, schedule]) => schedule)
+    .filter(schedule => schedule.owner === owner)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Change a schedule's format or filters, or pause/resume it
+ */
+export async function updateExportSchedule(
+  owner: string,
+  id: string,
+  changes: { format?: ExportFormat; filters?: ExportFilters; active?: boolean }
+): Promise<ExportSchedule> {
+  validateScheduleOptions(changes);
+
+  return getStorage().transaction(tx => {
+    const schedule = tx.get<ExportSchedule>(SCHEDULES, id);
+    if (!schedule || schedule.owner !== owner) {
+      throw new Error('Export schedule not found');
+    }
+    if (changes.format !== undefined) schedule.format = changes.format;
+    if (changes.filters !== undefined) schedule.filters = withoutRange(changes.filters);
+    if (changes.active !== undefined) schedule.active = changes.active;
+    tx.set(SCHEDULES, id, schedule);
+    return schedule;
+  });
+}
+
+/**
+ * Remove a schedule. Files of earlier runs stay downloadable.
+ */
+export async function deleteExportSchedule(owner: string, id: string): Promise<void> {
+  await getStorage().transaction(tx => {
+    const schedule = tx.get<ExportSchedule>(SCHEDULES, id);
+    if (!schedule || schedule.owner !== owner) {
+      throw new Error('Export schedule not found');
+    }
+    tx.delete(SCHEDULES, id);
+  });
+}
+
+export async function listExportRuns(owner: string, scheduleId?: string): Promise<ExportRun[]> {
+  const runs = await getStorage().list<ExportRun>(RUNS);
+  return runs
+    .map(([, run]) => run)
+    .filter(run => run.owner === owner && (!scheduleId || run.scheduleId === scheduleId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Contents of a successful run's file
+ */
+export async function readExportRunFile(
+  owner: string,
+  runId: string
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; fileName: string; contentType: string }> {
+  const run = await getStorage().get<ExportRun>(RUNS, runId);
+  if (!run || run.owner !== owner) {
+    throw new Error('Export run not found');
+  }
+  if (run.status !== 'succeeded' || !run.fileName) {
+    throw new Error('Export run has no file');
+  }
+
+  const bytes = await fs.readFile(path.join(exportDir(), run.fileName));
+  return {
+    bytes: new Uint8Array(bytes),
+    fileName: path.basename(run.fileName),
+    contentType: EXPORT_CONTENT_TYPES[run.format],
+  };
+}
+
+interface ClaimedRun {
+  schedule: ExportSchedule;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Claim due schedules by moving their next run forward, so concurrent cron calls
+ * never export the same period twice. A schedule that fell behind catches up one
+ * period per call.
+ */
+async function claimDueSchedules(now: Date): Promise<ClaimedRun[]> {
+  return getStorage().transaction(tx => {
+    const claimed: ClaimedRun[] = [];
+    for (const [id, schedule] of tx.list<ExportSchedule>(SCHEDULES)) {
+      if (!schedule.active || new Date(schedule.nextRunAt) > now) continue;
+
+      const end = periodStart(schedule.frequency, new Date(schedule.nextRunAt));
+      const start = addPeriods(schedule.frequency, end, -1);
+      const updated = {
+        ...schedule,
+        nextRunAt: addPeriods(schedule.frequency, end, 1).toISOString(),
+        lastRunAt: now.toISOString(),
+      };
+      tx.set(SCHEDULES, id, updated);
+      claimed.push({ schedule: updated, periodStart: start, periodEnd: end });
+    }
+    return claimed;
+  });
+}
+
+async function runSchedule(claim: ClaimedRun, options: ExportOptions): Promise<ExportRun> {
+  const { schedule } = claim;
+  const run: ExportRun = {
+    id: `run_${randomBytes(8).toString('hex')}`,
+    scheduleId: schedule.id,
+    owner: schedule.owner,
+    dataset: schedule.dataset,
+    format: schedule.format,
+    periodStart: claim.periodStart.toISOString(),
+    periodEnd: claim.periodEnd.toISOString(),
+    status: 'succeeded',
+    rows: 0,
+    bytes: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    const result = await exportToBytes({
+      dataset: schedule.dataset,
+      wallet: schedule.owner,
+      format: schedule.format,
+      filters: { ...schedule.filters, from: run.periodStart, to: run.periodEnd },
+    }, options);
+
+    const fileName = path.join(
+      schedule.owner,
+      schedule.id,
+      `${schedule.dataset}-${run.periodStart.slice(0, 10)}.${result.extension}`
+    );
+    const fullPath = path.join(exportDir(), fileName);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, result.bytes);
+
+    run.rows = result.rows;
+    run.bytes = result.bytes.length;
+    run.fileName = fileName;
+  } catch (error) {
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+
+  await getStorage().set(RUNS, run.id, run);
+  return run;
+}
+
+/**
+ * Run every due schedule once (called by the export cron route)
+ */
+export async function runDueExportSchedules(now: Date = new Date(), options: ExportOptions = {}): Promise<ExportRun[]> {
+  const claimed = await claimDueSchedules(now);
+  const runs: ExportRun[] = [];
+  for (const claim of claimed) {
+    runs.push(await runSchedule(claim, options));
+  }
+  return runs;
+}
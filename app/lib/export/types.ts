@@ -0,0 +1,73 @@
+/**
+ * Export Types
+ */
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet';
+
+export type ExportDataset = 'transactions' | 'usage' | 'arbitrage' | 'market_maker_trades';
+
+export type ExportColumnType = 'string' | 'number' | 'boolean' | 'timestamp';
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+}
+
+/**
+ * One exported record. CSV and Parquet write the dataset's columns (nested values as
+ * JSON text); JSON Lines writes the whole record.
+ */
+export type ExportRow = Record<string, unknown>;
+
+export interface ExportFilters {
+  from?: string; // ISO 8601, inclusive
+  to?: string; // ISO 8601, exclusive
+  feature?: string; // usage: only this feature
+  mint?: string; // transactions and market_maker_trades: only this token
+  side?: 'buy' | 'sell'; // market_maker_trades
+}
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  wallet: string;
+  format: ExportFormat;
+  filters?: ExportFilters;
+  limit?: number; // Stop after this many rows and return a cursor for the rest
+  cursor?: string; // Continue a previous limited export
+}
+
+export interface ExportPage {
+  rows: ExportRow[];
+  nextCursor: string | null;
+}
+
+export type ExportFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+
+export interface ExportSchedule {
+  id: string;
+  owner: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  frequency: ExportFrequency;
+  filters?: Omit<ExportFilters, 'from' | 'to'>; // The period is set per run
+  active: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+export interface ExportRun {
+  id: string;
+  scheduleId: string;
+  owner: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  periodStart: string;
+  periodEnd: string;
+  status: 'succeeded' | 'failed';
+  rows: number;
+  bytes: number;
+  fileName?: string;
+  error?: string;
+  createdAt: string;
+}
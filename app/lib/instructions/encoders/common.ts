@@ -0,0 +1,79 @@
+// Shared helpers for the program instruction encoders
+
+import { AccountMeta, PublicKey } from '@solana/web3.js';
+
+export type IntegerLike = number | string | bigint;
+
+const U64_MAX = BigInt('18446744073709551615');
+
+export function encodeU8(value: number): Buffer {
+  const buffer = Buffer.alloc(1);
+  buffer.writeUInt8(value);
+  return buffer;
+}
+
+export function encodeU16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+export function encodeI32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32LE(value);
+  return buffer;
+}
+
+export function encodeU64(value: IntegerLike): Buffer {
+  const amount = toU64(value);
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(amount);
+  return buffer;
+}
+
+/**
+ * Parse a u64 argument; form values arrive as strings or numbers
+ */
+export function toU64(value: IntegerLike): bigint {
+  const amount = BigInt(value);
+  if (amount < BigInt(0) || amount > U64_MAX) {
+    throw new Error(`Value out of u64 range: ${value}`);
+  }
+  return amount;
+}
+
+export function accountMeta(pubkey: PublicKey, isSigner: boolean, isWritable: boolean): AccountMeta {
+  return { pubkey, isSigner, isWritable };
+}
+
+/**
+ * Read an account from a BuiltInstruction account map, or undefined when left blank
+ */
+export function optionalAccount(accounts: Record<string, string>, name: string): PublicKey | undefined {
+  const value = accounts[name];
+  return value ? new PublicKey(value) : undefined;
+}
+
+export function requireAccount(accounts: Record<string, string>, name: string, templateId: string): PublicKey {
+  const account = optionalAccount(accounts, name);
+  if (!account) {
+    throw new Error(`${templateId}: missing required account "${name}"`);
+  }
+  return account;
+}
+
+/**
+ * Read an argument, or undefined when the form field was left empty
+ */
+export function optionalArg<T = any>(args: Record<string, any>, name: string): T | undefined {
+  const value = args[name];
+  return value === undefined || value === null || value === '' ? undefined : value;
+}
+
+export function requireArg<T = any>(args: Record<string, any>, name: string, templateId: string): T {
+  const value = optionalArg<T>(args, name);
+  if (value === undefined) {
+    throw new Error(`${templateId}: missing required argument "${name}"`);
+  }
+  return value;
+}
@@ -0,0 +1,221 @@
+// Jupiter v6 swap instructions
+// Route plans come from the Jupiter API; the route args at the end of the instruction data are
+// decoded here and checked against the user's amount and minimum output before signing.
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { IntegerLike, encodeU16, encodeU64, encodeU8, toU64 } from './common';
+
+export const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const JUPITER_API_BASE = 'https://lite-api.jup.ag/v6';
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Anchor discriminators: sha256("global:<name>")[0..8]
+export const ROUTE_DISCRIMINATOR = [229, 23, 203, 151, 122, 227, 173, 42];
+export const SHARED_ACCOUNTS_ROUTE_DISCRIMINATOR = [193, 32, 155, 51, 65, 214, 156, 129];
+export const ROUTE_WITH_TOKEN_LEDGER_DISCRIMINATOR = [150, 86, 71, 116, 167, 93, 14, 104];
+
+// in_amount u64 + quoted_out_amount u64 + slippage_bps u16 + platform_fee_bps u8
+const ROUTE_ARGS_TAIL_SIZE = 19;
+const MAX_SLIPPAGE_BPS = 10000;
+
+export type JupiterRouteKind = 'route' | 'shared_accounts_route' | 'route_with_token_ledger';
+
+export interface JupiterRouteArgs {
+  kind: JupiterRouteKind;
+  inAmount: bigint;
+  quotedOutAmount: bigint;
+  slippageBps: number;
+  platformFeeBps: number;
+}
+
+export interface JupiterRoutePlanStep {
+  swap: Buffer; // Borsh-encoded Swap enum variant
+  percent: number;
+  inputIndex: number;
+  outputIndex: number;
+}
+
+interface SerializedInstruction {
+  programId: string;
+  accounts: Array<{ pubkey: string; isSigner: boolean; isWritable: boolean }>;
+  data: string; // base64
+}
+
+interface SwapInstructionsResponse {
+  setupInstructions?: SerializedInstruction[];
+  swapInstruction: SerializedInstruction;
+  cleanupInstruction?: SerializedInstruction | null;
+  error?: string;
+}
+
+export interface JupiterSwapRequest {
+  inputMint: string;
+  outputMint: string;
+  amount: IntegerLike;
+  minAmountOut: IntegerLike;
+  userPublicKey: PublicKey;
+  destinationTokenAccount?: PublicKey;
+  feeAccount?: PublicKey;
+}
+
+const DISCRIMINATORS: Array<[JupiterRouteKind, number[]]> = [
+  ['route', ROUTE_DISCRIMINATOR],
+  ['shared_accounts_route', SHARED_ACCOUNTS_ROUTE_DISCRIMINATOR],
+  ['route_with_token_ledger', ROUTE_WITH_TOKEN_LEDGER_DISCRIMINATOR],
+];
+
+/**
+ * Encode `route` instruction data: route_plan Vec<RoutePlanStep> followed by the route args
+ */
+export function encodeJupiterRouteData(
+  routePlan: JupiterRoutePlanStep[],
+  inAmount: IntegerLike,
+  quotedOutAmount: IntegerLike,
+  slippageBps: number,
+  platformFeeBps: number = 0
+): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(routePlan.length);
+
+  return Buffer.concat([
+    Buffer.from(ROUTE_DISCRIMINATOR),
+    length,
+    ...routePlan.map(step =>
+      Buffer.concat([step.swap, encodeU8(step.percent), encodeU8(step.inputIndex), encodeU8(step.outputIndex)])
+    ),
+    encodeU64(inAmount),
+    encodeU64(quotedOutAmount),
+    encodeU16(slippageBps),
+    encodeU8(platformFeeBps),
+  ]);
+}
+
+/**
+ * Decode the fixed-size args that end every exact-in route instruction
+ */
+export function decodeJupiterRouteArgs(data: Buffer): JupiterRouteArgs {
+  const match = DISCRIMINATORS.find(([, discriminator]) => discriminator.every((byte, i) => data[i] === byte));
+  if (!match) {
+    throw new Error('Jupiter instruction is not an exact-in route');
+  }
+  if (data.length < 8 + ROUTE_ARGS_TAIL_SIZE) {
+    throw new Error(`Jupiter route data too short: ${data.length} bytes`);
+  }
+
+  const tail = data.length - ROUTE_ARGS_TAIL_SIZE;
+  return {
+    kind: match[0],
+    inAmount: data.readBigUInt64LE(tail),
+    quotedOutAmount: data.readBigUInt64LE(tail + 8),
+    slippageBps: data.readUInt16LE(tail + 16),
+    platformFeeBps: data.readUInt8(tail + 18),
+  };
+}
+
+/**
+ * Smallest slippage at which the on-chain threshold quotedOut * (1 - bps/10000) still covers minAmountOut
+ */
+export function slippageBpsForMinOut(quotedOutAmount: IntegerLike, minAmountOut: IntegerLike): number {
+  const quoted = toU64(quotedOutAmount);
+  const minimum = toU64(minAmountOut);
+  if (quoted === BigInt(0) || minimum > quoted) {
+    throw new Error(`Jupiter quote ${quoted} is below minAmountOut ${minimum}`);
+  }
+  const bps = ((quoted - minimum) * BigInt(MAX_SLIPPAGE_BPS)) / quoted;
+  return Number(bps);
+}
+
+export function minOutForSlippage(quotedOutAmount: IntegerLike, slippageBps: number): bigint {
+  return (toU64(quotedOutAmount) * BigInt(MAX_SLIPPAGE_BPS - slippageBps)) / BigInt(MAX_SLIPPAGE_BPS);
+}
+
+function deserializeInstruction(instruction: SerializedInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(instruction.programId),
+    keys: instruction.accounts.map(account => ({
+      pubkey: new PublicKey(account.pubkey),
+      isSigner: account.isSigner,
+      isWritable: account.isWritable,
+    })),
+    data: Buffer.from(instruction.data, 'base64'),
+  });
+}
+
+/**
+ * Quote a route and fetch its setup, swap and cleanup instructions.
+ * Slippage is set so the program's own threshold enforces minAmountOut, then the
+ * returned route args are checked before anything is handed to the wallet.
+ */
+export async function fetchJupiterSwapInstructions(request: JupiterSwapRequest): Promise<TransactionInstruction[]> {
+  const amount = toU64(request.amount);
+
+  const quoteUrl =
+    `${JUPITER_API_BASE}/quote?` +
+    `inputMint=${request.inputMint}&outputMint=${request.outputMint}&amount=${amount.toString()}` +
+    `&swapMode=ExactIn&slippageBps=0&asLegacyTransaction=true`;
+  const quoteResponse = await fetch(quoteUrl);
+  if (!quoteResponse.ok) {
+    throw new Error(`Jupiter quote failed: ${quoteResponse.status} ${quoteResponse.statusText}`);
+  }
+  const quote = await quoteResponse.json();
+  if (quote.error) {
+    throw new Error(`Jupiter quote failed: ${quote.error}`);
+  }
+
+  const slippageBps = slippageBpsForMinOut(quote.outAmount, request.minAmountOut);
+  const swapResponse = await fetch(`${JUPITER_API_BASE}/swap-instructions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      quoteResponse: {
+        ...quote,
+        slippageBps,
+        otherAmountThreshold: minOutForSlippage(quote.outAmount, slippageBps).toString(),
+      },
+      userPublicKey: request.userPublicKey.toString(),
+      wrapAndUnwrapSol: request.inputMint === WSOL_MINT || request.outputMint === WSOL_MINT,
+      asLegacyTransaction: true,
+      ...(request.destinationTokenAccount && { destinationTokenAccount: request.destinationTokenAccount.toString() }),
+      ...(request.feeAccount && { feeAccount: request.feeAccount.toString() }),
+    }),
+  });
+  if (!swapResponse.ok) {
+    throw new Error(`Jupiter swap-instructions failed: ${swapResponse.status} ${swapResponse.statusText}`);
+  }
+  const swap: SwapInstructionsResponse = await swapResponse.json();
+  if (swap.error) {
+    throw new Error(`Jupiter swap-instructions failed: ${swap.error}`);
+  }
+
+  const swapInstruction = deserializeInstruction(swap.swapInstruction);
+  if (!swapInstruction.programId.equals(new PublicKey(JUPITER_V6_PROGRAM_ID))) {
+    throw new Error(`Jupiter returned an instruction for unexpected program ${swapInstruction.programId.toString()}`);
+  }
+  const routeArgs = decodeJupiterRouteArgs(swapInstruction.data);
+  if (routeArgs.inAmount !== amount) {
+    throw new Error(`Jupiter route spends ${routeArgs.inAmount}, expected ${amount}`);
+  }
+  if (minOutForSlippage(routeArgs.quotedOutAmount, routeArgs.slippageBps) < toU64(request.minAmountOut)) {
+    throw new Error('Jupiter route does not enforce minAmountOut');
+  }
+
+  return [
+    ...(swap.setupInstructions || []).map(deserializeInstruction),
+    swapInstruction,
+    ...(swap.cleanupInstruction ? [deserializeInstruction(swap.cleanupInstruction)] : []),
+  ];
+}
+
+/**
+ * Mint of a token account, or wrapped SOL when the source is a plain wallet
+ */
+export async function fetchSourceMint(connection: Connection, sourceAccount: PublicKey): Promise<string> {
+  const account = await connection.getAccountInfo(sourceAccount);
+  if (!account) {
+    throw new Error(`jupiter_swap: source account ${sourceAccount.toString()} not found`);
+  }
+  if (account.data.length < 32) {
+    return WSOL_MINT;
+  }
+  return new PublicKey(account.data.subarray(0, 32)).toString();
+}
@@ -0,0 +1,144 @@
+// Kamino Lend (klend) flash borrow and repay instruction encoders
+// The repay instruction names the index of its borrow, which klend checks through the
+// instructions sysvar; the repaid amount is the borrowed amount, the fee is added on-chain.
+
+import { Connection, PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction } from '@solana/web3.js';
+import { IntegerLike, accountMeta, encodeU64, encodeU8 } from './common';
+
+export const KAMINO_MAIN_MARKET = '7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF';
+
+// Anchor discriminators: sha256("global:<name>")[0..8]
+export const FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR = [135, 231, 52, 167, 7, 52, 212, 193];
+export const FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR = [185, 117, 0, 203, 96, 245, 180, 186];
+// sha256("account:Reserve")[0..8]
+export const KAMINO_RESERVE_DISCRIMINATOR = [43, 242, 204, 202, 26, 247, 59, 127];
+
+// Reserve: discriminator, version u64, last_update (16), lending_market, farm_collateral,
+// farm_debt, then liquidity { mint_pubkey, supply_vault, fee_vault, ... }
+const RESERVE_LENDING_MARKET_OFFSET = 32;
+const RESERVE_LIQUIDITY_MINT_OFFSET = 128;
+const RESERVE_SUPPLY_VAULT_OFFSET = 160;
+const RESERVE_FEE_VAULT_OFFSET = 192;
+
+export interface KaminoReserveKeys {
+  programId: PublicKey;
+  reserve: PublicKey;
+  lendingMarket: PublicKey;
+  lendingMarketAuthority: PublicKey;
+  liquidityMint: PublicKey;
+  supplyVault: PublicKey;
+  feeVault: PublicKey;
+  tokenProgram: PublicKey;
+}
+
+export function deriveKaminoLendingMarketAuthority(lendingMarket: PublicKey, programId: PublicKey): PublicKey {
+  const [authority] = PublicKey.findProgramAddressSync([Buffer.from('lma'), lendingMarket.toBuffer()], programId);
+  return authority;
+}
+
+export function decodeKaminoReserve(
+  programId: PublicKey,
+  reserve: PublicKey,
+  data: Buffer,
+  tokenProgram: PublicKey
+): KaminoReserveKeys {
+  if (!KAMINO_RESERVE_DISCRIMINATOR.every((byte, i) => data[i] === byte)) {
+    throw new Error(`Account ${reserve.toString()} is not a Kamino reserve`);
+  }
+  const key = (offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+  const lendingMarket = key(RESERVE_LENDING_MARKET_OFFSET);
+
+  return {
+    programId,
+    reserve,
+    lendingMarket,
+    lendingMarketAuthority: deriveKaminoLendingMarketAuthority(lendingMarket, programId),
+    liquidityMint: key(RESERVE_LIQUIDITY_MINT_OFFSET),
+    supplyVault: key(RESERVE_SUPPLY_VAULT_OFFSET),
+    feeVault: key(RESERVE_FEE_VAULT_OFFSET),
+    tokenProgram,
+  };
+}
+
+/**
+ * Find the market's reserve for a mint; the token program is read from the mint's owner
+ */
+export async function fetchKaminoReserve(
+  connection: Connection,
+  programId: PublicKey,
+  mint: PublicKey,
+  lendingMarket: PublicKey = new PublicKey(KAMINO_MAIN_MARKET)
+): Promise<KaminoReserveKeys> {
+  const [reserves, mintAccount] = await Promise.all([
+    connection.getProgramAccounts(programId, {
+      filters: [
+        { memcmp: { offset: 0, bytes: Buffer.from(KAMINO_RESERVE_DISCRIMINATOR).toString('base64'), encoding: 'base64' } },
+        { memcmp: { offset: RESERVE_LENDING_MARKET_OFFSET, bytes: lendingMarket.toBase58() } },
+        { memcmp: { offset: RESERVE_LIQUIDITY_MINT_OFFSET, bytes: mint.toBase58() } },
+      ],
+    }),
+    connection.getAccountInfo(mint),
+  ]);
+  if (reserves.length === 0) {
+    throw new Error(`Kamino market ${lendingMarket.toString()} has no reserve for ${mint.toString()}`);
+  }
+  if (!mintAccount) {
+    throw new Error(`Mint ${mint.toString()} not found`);
+  }
+  return decodeKaminoReserve(programId, reserves[0].pubkey, reserves[0].account.data, mintAccount.owner);
+}
+
+/**
+ * Borrow and repay share one account list (reserve vault, then the user's token account).
+ * The optional referrer accounts are passed as the program ID, Anchor's encoding of None.
+ */
+function flashLoanKeys(keys: KaminoReserveKeys, user: PublicKey, userTokenAccount: PublicKey) {
+  return [
+    accountMeta(user, true, false),
+    accountMeta(keys.lendingMarketAuthority, false, false),
+    accountMeta(keys.lendingMarket, false, false),
+    accountMeta(keys.reserve, false, true),
+    accountMeta(keys.liquidityMint, false, false),
+    accountMeta(keys.supplyVault, false, true),
+    accountMeta(userTokenAccount, false, true),
+    accountMeta(keys.feeVault, false, true),
+    accountMeta(keys.programId, false, false),
+    accountMeta(keys.programId, false, false),
+    accountMeta(SYSVAR_INSTRUCTIONS_PUBKEY, false, false),
+    accountMeta(keys.tokenProgram, false, false),
+  ];
+}
+
+export function createKaminoFlashBorrowInstruction(
+  keys: KaminoReserveKeys,
+  user: PublicKey,
+  destination: PublicKey,
+  amount: IntegerLike
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: flashLoanKeys(keys, user, destination),
+    data: Buffer.concat([Buffer.from(FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR), encodeU64(amount)]),
+  });
+}
+
+/**
+ * `amount` is the borrowed amount; borrowInstructionIndex is the borrow's position in the transaction
+ */
+export function createKaminoFlashRepayInstruction(
+  keys: KaminoReserveKeys,
+  user: PublicKey,
+  source: PublicKey,
+  amount: IntegerLike,
+  borrowInstructionIndex: number
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: flashLoanKeys(keys, user, source),
+    data: Buffer.concat([
+      Buffer.from(FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR),
+      encodeU64(amount),
+      encodeU8(borrowInstructionIndex),
+    ]),
+  });
+}
@@ -0,0 +1,114 @@
+// Magic Eden M2 buy instruction encoder
+// M2 is an Auction House fork: `buy` takes the same bump/price/size args and trade state seeds,
+// with "m2" in place of the "auction_house" seed prefix.
+
+import { PublicKey, SystemProgram, SYSVAR_RENT_PUBKEY, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { IntegerLike, accountMeta, encodeU64, encodeU8 } from './common';
+
+export const MAGIC_EDEN_M2_PROGRAM_ID = 'M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K';
+export const TOKEN_METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+// sha256("global:buy")[0..8]
+export const BUY_DISCRIMINATOR = [102, 6, 61, 18, 1, 218, 235, 234];
+
+const M2_PREFIX = Buffer.from('m2');
+
+export interface M2BuyKeys {
+  wallet: PublicKey;
+  tokenMint: PublicKey;
+  metadata: PublicKey;
+  escrowPaymentAccount: PublicKey;
+  authority: PublicKey;
+  auctionHouse: PublicKey;
+  buyerTradeState: PublicKey;
+}
+
+export interface M2BuyArgs {
+  tradeStateBump: number;
+  escrowPaymentBump: number;
+  buyerPrice: IntegerLike;
+  tokenSize: IntegerLike;
+}
+
+const programKey = () => new PublicKey(MAGIC_EDEN_M2_PROGRAM_ID);
+
+/**
+ * Buyer escrow PDA: ["m2", auction_house, wallet]
+ */
+export function deriveM2EscrowPaymentAccount(auctionHouse: PublicKey, wallet: PublicKey): { address: PublicKey; bump: number } {
+  const [address, bump] = PublicKey.findProgramAddressSync(
+    [M2_PREFIX, auctionHouse.toBuffer(), wallet.toBuffer()],
+    programKey()
+  );
+  return { address, bump };
+}
+
+/**
+ * Buyer trade state PDA: ["m2", wallet, auction_house, token_account, treasury_mint, token_mint, price, size]
+ */
+export function deriveM2TradeState(
+  wallet: PublicKey,
+  auctionHouse: PublicKey,
+  tokenAccount: PublicKey,
+  treasuryMint: PublicKey,
+  tokenMint: PublicKey,
+  buyerPrice: IntegerLike,
+  tokenSize: IntegerLike
+): { address: PublicKey; bump: number } {
+  const [address, bump] = PublicKey.findProgramAddressSync(
+    [
+      M2_PREFIX,
+      wallet.toBuffer(),
+      auctionHouse.toBuffer(),
+      tokenAccount.toBuffer(),
+      treasuryMint.toBuffer(),
+      tokenMint.toBuffer(),
+      encodeU64(buyerPrice),
+      encodeU64(tokenSize),
+    ],
+    programKey()
+  );
+  return { address, bump };
+}
+
+/**
+ * Metaplex metadata PDA: ["metadata", metadata_program, mint]
+ */
+export function deriveMetadataAddress(mint: PublicKey): PublicKey {
+  const metadataProgram = new PublicKey(TOKEN_METADATA_PROGRAM_ID);
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), metadataProgram.toBuffer(), mint.toBuffer()],
+    metadataProgram
+  );
+  return address;
+}
+
+export function encodeM2BuyData(args: M2BuyArgs): Buffer {
+  return Buffer.concat([
+    Buffer.from(BUY_DISCRIMINATOR),
+    encodeU8(args.tradeStateBump),
+    encodeU8(args.escrowPaymentBump),
+    encodeU64(args.buyerPrice),
+    encodeU64(args.tokenSize),
+  ]);
+}
+
+export function createM2BuyInstruction(keys: M2BuyKeys, args: M2BuyArgs): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programKey(),
+    keys: [
+      accountMeta(keys.wallet, true, true),
+      accountMeta(keys.tokenMint, false, false),
+      accountMeta(keys.metadata, false, false),
+      accountMeta(keys.escrowPaymentAccount, false, true),
+      accountMeta(keys.authority, false, false),
+      accountMeta(keys.auctionHouse, false, false),
+      accountMeta(keys.buyerTradeState, false, true),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+      accountMeta(SystemProgram.programId, false, false),
+      accountMeta(SYSVAR_RENT_PUBKEY, false, false),
+    ],
+    data: encodeM2BuyData(args),
+  });
+}
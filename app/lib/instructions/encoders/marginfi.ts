@@ -0,0 +1,211 @@
+// marginfi v2 flash loan instruction encoders
+// A marginfi flash loan is a borrow and repay on the user's marginfi account, bracketed by
+// start_flashloan (which names the end_flashloan index) and end_flashloan (which runs the health check).
+
+import { Connection, PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { IntegerLike, accountMeta, encodeU64 } from './common';
+
+export const MARGINFI_MAIN_GROUP = '4qp6Fx6tnZkY5Wropq9wUYgtFxXKwE6viZxFHg3rdAG8';
+
+// Anchor discriminators: sha256("global:<name>")[0..8]
+export const START_FLASHLOAN_DISCRIMINATOR = [14, 131, 33, 220, 81, 186, 180, 107];
+export const END_FLASHLOAN_DISCRIMINATOR = [105, 124, 201, 106, 153, 2, 8, 156];
+export const LENDING_ACCOUNT_BORROW_DISCRIMINATOR = [4, 126, 116, 53, 48, 5, 212, 31];
+export const LENDING_ACCOUNT_REPAY_DISCRIMINATOR = [79, 209, 172, 177, 222, 51, 173, 151];
+// sha256("account:<name>")[0..8]
+const BANK_DISCRIMINATOR = [142, 49, 166, 242, 50, 66, 97, 188];
+const MARGINFI_ACCOUNT_DISCRIMINATOR = [67, 178, 130, 109, 126, 114, 28, 42];
+
+// Bank: discriminator, mint, mint_decimals u8, group, ...
+const BANK_MINT_OFFSET = 8;
+const BANK_GROUP_OFFSET = 41;
+// MarginfiAccount: discriminator, group, authority, lending_account { balances: [Balance; 16] }
+const ACCOUNT_GROUP_OFFSET = 8;
+const ACCOUNT_AUTHORITY_OFFSET = 40;
+const ACCOUNT_BALANCES_OFFSET = 72;
+const BALANCE_SIZE = 104; // active u8, bank_pk, padding, shares and emissions
+const MAX_BALANCES = 16;
+
+export interface MarginfiBankKeys {
+  programId: PublicKey;
+  group: PublicKey;
+  bank: PublicKey;
+  mint: PublicKey;
+  liquidityVault: PublicKey;
+  liquidityVaultAuthority: PublicKey;
+}
+
+export interface MarginfiAccountInfo {
+  address: PublicKey;
+  activeBanks: PublicKey[]; // Banks with an open balance; end_flashloan health-checks each of them
+}
+
+function discriminatorFilter(discriminator: number[]) {
+  return { memcmp: { offset: 0, bytes: Buffer.from(discriminator).toString('base64'), encoding: 'base64' as const } };
+}
+
+export function deriveMarginfiBankPda(
+  bank: PublicKey,
+  seed: 'liquidity_vault' | 'liquidity_vault_auth',
+  programId: PublicKey
+): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync([Buffer.from(seed), bank.toBuffer()], programId);
+  return address;
+}
+
+export function getMarginfiBankKeys(programId: PublicKey, group: PublicKey, bank: PublicKey, mint: PublicKey): MarginfiBankKeys {
+  return {
+    programId,
+    group,
+    bank,
+    mint,
+    liquidityVault: deriveMarginfiBankPda(bank, 'liquidity_vault', programId),
+    liquidityVaultAuthority: deriveMarginfiBankPda(bank, 'liquidity_vault_auth', programId),
+  };
+}
+
+export async function fetchMarginfiBank(
+  connection: Connection,
+  programId: PublicKey,
+  mint: PublicKey,
+  group: PublicKey = new PublicKey(MARGINFI_MAIN_GROUP)
+): Promise<MarginfiBankKeys> {
+  const banks = await connection.getProgramAccounts(programId, {
+    filters: [
+      discriminatorFilter(BANK_DISCRIMINATOR),
+      { memcmp: { offset: BANK_MINT_OFFSET, bytes: mint.toBase58() } },
+      { memcmp: { offset: BANK_GROUP_OFFSET, bytes: group.toBase58() } },
+    ],
+  });
+  if (banks.length === 0) {
+    throw new Error(`marginfi group ${group.toString()} has no bank for ${mint.toString()}`);
+  }
+  return getMarginfiBankKeys(programId, group, banks[0].pubkey, mint);
+}
+
+export function decodeMarginfiActiveBanks(data: Buffer): PublicKey[] {
+  const banks: PublicKey[] = [];
+  for (let i = 0; i < MAX_BALANCES; i++) {
+    const offset = ACCOUNT_BALANCES_OFFSET + i * BALANCE_SIZE;
+    if (data[offset] !== 0) {
+      banks.push(new PublicKey(data.subarray(offset + 1, offset + 33)));
+    }
+  }
+  return banks;
+}
+
+/**
+ * The authority's marginfi account in a group. Flash loans run against an existing account.
+ */
+export async function fetchMarginfiAccount(
+  connection: Connection,
+  programId: PublicKey,
+  authority: PublicKey,
+  group: PublicKey = new PublicKey(MARGINFI_MAIN_GROUP)
+): Promise<MarginfiAccountInfo> {
+  const accounts = await connection.getProgramAccounts(programId, {
+    filters: [
+      discriminatorFilter(MARGINFI_ACCOUNT_DISCRIMINATOR),
+      { memcmp: { offset: ACCOUNT_GROUP_OFFSET, bytes: group.toBase58() } },
+      { memcmp: { offset: ACCOUNT_AUTHORITY_OFFSET, bytes: authority.toBase58() } },
+    ],
+  });
+  if (accounts.length === 0) {
+    throw new Error(`${authority.toString()} has no marginfi account in group ${group.toString()}`);
+  }
+  return {
+    address: accounts[0].pubkey,
+    activeBanks: decodeMarginfiActiveBanks(accounts[0].account.data),
+  };
+}
+
+/**
+ * `endIndex` is the position of the matching end_flashloan instruction in the transaction
+ */
+export function createMarginfiStartFlashloanInstruction(
+  programId: PublicKey,
+  marginfiAccount: PublicKey,
+  signer: PublicKey,
+  endIndex: number
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      accountMeta(marginfiAccount, false, true),
+      accountMeta(signer, true, false),
+      accountMeta(SYSVAR_INSTRUCTIONS_PUBKEY, false, false),
+    ],
+    data: Buffer.concat([Buffer.from(START_FLASHLOAN_DISCRIMINATOR), encodeU64(endIndex)]),
+  });
+}
+
+/**
+ * `healthAccounts` are the [bank, oracle, ...] pairs for every balance still open at the end
+ */
+export function createMarginfiEndFlashloanInstruction(
+  programId: PublicKey,
+  marginfiAccount: PublicKey,
+  signer: PublicKey,
+  healthAccounts: PublicKey[] = []
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      accountMeta(marginfiAccount, false, true),
+      accountMeta(signer, true, false),
+      ...healthAccounts.map(account => accountMeta(account, false, false)),
+    ],
+    data: Buffer.from(END_FLASHLOAN_DISCRIMINATOR),
+  });
+}
+
+export function createMarginfiBorrowInstruction(
+  keys: MarginfiBankKeys,
+  marginfiAccount: PublicKey,
+  signer: PublicKey,
+  destination: PublicKey,
+  amount: IntegerLike
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: [
+      accountMeta(keys.group, false, false),
+      accountMeta(marginfiAccount, false, true),
+      accountMeta(signer, true, false),
+      accountMeta(keys.bank, false, true),
+      accountMeta(destination, false, true),
+      accountMeta(keys.liquidityVaultAuthority, false, true),
+      accountMeta(keys.liquidityVault, false, true),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+    ],
+    data: Buffer.concat([Buffer.from(LENDING_ACCOUNT_BORROW_DISCRIMINATOR), encodeU64(amount)]),
+  });
+}
+
+/**
+ * With `repayAll` the whole liability is repaid and the balance closed, so it drops out of the health check
+ */
+export function createMarginfiRepayInstruction(
+  keys: MarginfiBankKeys,
+  marginfiAccount: PublicKey,
+  signer: PublicKey,
+  source: PublicKey,
+  amount: IntegerLike,
+  repayAll: boolean = true
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: [
+      accountMeta(keys.group, false, false),
+      accountMeta(marginfiAccount, false, true),
+      accountMeta(signer, true, false),
+      accountMeta(keys.bank, false, true),
+      accountMeta(source, false, true),
+      accountMeta(keys.liquidityVault, false, true),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+    ],
+    // repay_all: Option<bool> = Some(repayAll)
+    data: Buffer.concat([Buffer.from(LENDING_ACCOUNT_REPAY_DISCRIMINATOR), encodeU64(amount), Buffer.from([1, repayAll ? 1 : 0])]),
+  });
+}
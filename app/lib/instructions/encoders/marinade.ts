@@ -0,0 +1,84 @@
+// Marinade liquid staking deposit instruction encoder
+
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { IntegerLike, accountMeta, encodeU64 } from './common';
+
+export const MARINADE_PROGRAM_ID = 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD';
+export const MARINADE_STATE = '8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC';
+export const MSOL_MINT = 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So';
+// Token account owned by the liq_st_sol_authority PDA, stored in State.liq_pool
+export const MARINADE_LIQ_POOL_MSOL_LEG = '7GgPYjS5Dza89wV6FpZ23kUJRG5vbQ1GM25ezspYFSoE';
+
+// sha256("global:deposit")[0..8]
+export const DEPOSIT_DISCRIMINATOR = [242, 35, 198, 137, 82, 225, 242, 182];
+
+export interface MarinadeDepositKeys {
+  state: PublicKey;
+  msolMint: PublicKey;
+  liqPoolSolLegPda: PublicKey;
+  liqPoolMsolLeg: PublicKey;
+  liqPoolMsolLegAuthority: PublicKey;
+  reservePda: PublicKey;
+  transferFrom: PublicKey;
+  mintTo: PublicKey;
+  msolMintAuthority: PublicKey;
+}
+
+/**
+ * State-scoped PDAs: [state, seed]
+ */
+export function deriveMarinadeStatePda(state: PublicKey, seed: 'reserve' | 'liq_sol' | 'st_mint' | 'liq_st_sol_authority'): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [state.toBuffer(), Buffer.from(seed)],
+    new PublicKey(MARINADE_PROGRAM_ID)
+  );
+  return address;
+}
+
+/**
+ * Deposit accounts for a user; any override replaces the derived/mainnet default
+ */
+export function getMarinadeDepositKeys(
+  user: PublicKey,
+  overrides: Partial<MarinadeDepositKeys> = {}
+): MarinadeDepositKeys {
+  const state = overrides.state || new PublicKey(MARINADE_STATE);
+  const msolMint = overrides.msolMint || new PublicKey(MSOL_MINT);
+
+  return {
+    state,
+    msolMint,
+    liqPoolSolLegPda: overrides.liqPoolSolLegPda || deriveMarinadeStatePda(state, 'liq_sol'),
+    liqPoolMsolLeg: overrides.liqPoolMsolLeg || new PublicKey(MARINADE_LIQ_POOL_MSOL_LEG),
+    liqPoolMsolLegAuthority: overrides.liqPoolMsolLegAuthority || deriveMarinadeStatePda(state, 'liq_st_sol_authority'),
+    reservePda: overrides.reservePda || deriveMarinadeStatePda(state, 'reserve'),
+    transferFrom: user,
+    mintTo: overrides.mintTo || getAssociatedTokenAddressSync(msolMint, user, true),
+    msolMintAuthority: overrides.msolMintAuthority || deriveMarinadeStatePda(state, 'st_mint'),
+  };
+}
+
+export function encodeMarinadeDepositData(lamports: IntegerLike): Buffer {
+  return Buffer.concat([Buffer.from(DEPOSIT_DISCRIMINATOR), encodeU64(lamports)]);
+}
+
+export function createMarinadeDepositInstruction(keys: MarinadeDepositKeys, lamports: IntegerLike): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(MARINADE_PROGRAM_ID),
+    keys: [
+      accountMeta(keys.state, false, true),
+      accountMeta(keys.msolMint, false, true),
+      accountMeta(keys.liqPoolSolLegPda, false, true),
+      accountMeta(keys.liqPoolMsolLeg, false, true),
+      accountMeta(keys.liqPoolMsolLegAuthority, false, false),
+      accountMeta(keys.reservePda, false, true),
+      accountMeta(keys.transferFrom, true, true),
+      accountMeta(keys.mintTo, false, true),
+      accountMeta(keys.msolMintAuthority, false, false),
+      accountMeta(SystemProgram.programId, false, false),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+    ],
+    data: encodeMarinadeDepositData(lamports),
+  });
+}
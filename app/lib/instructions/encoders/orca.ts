@@ -0,0 +1,162 @@
+// Orca Whirlpool open_position / initialize_tick_array instruction encoders
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { accountMeta, encodeI32, encodeU8 } from './common';
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  WHIRLPOOL_LAYOUT,
+  deriveWhirlpoolTickArray,
+  getWhirlpoolTickArrayStartIndex,
+} from '../../pools/layouts/orca';
+
+export {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  WHIRLPOOL_TICK_ARRAY_SIZE,
+  deriveWhirlpoolTickArray,
+  getWhirlpoolTickArrayStartIndex,
+} from '../../pools/layouts/orca';
+
+// Anchor discriminators: sha256("global:<name>")[0..8]
+export const OPEN_POSITION_DISCRIMINATOR = [135, 128, 47, 77, 15, 152, 240, 49];
+export const INITIALIZE_TICK_ARRAY_DISCRIMINATOR = [11, 188, 193, 214, 141, 91, 149, 184];
+
+export const WHIRLPOOL_MIN_TICK_INDEX = -443636;
+export const WHIRLPOOL_MAX_TICK_INDEX = 443636;
+
+const WHIRLPOOL_TICK_SPACING_OFFSET = WHIRLPOOL_LAYOUT.offsetOf('tickSpacing');
+
+export interface OpenPositionKeys {
+  funder: PublicKey;
+  owner: PublicKey;
+  position: PublicKey;
+  positionMint: PublicKey;
+  positionTokenAccount: PublicKey;
+  whirlpool: PublicKey;
+}
+
+const programKey = () => new PublicKey(ORCA_WHIRLPOOL_PROGRAM_ID);
+
+/**
+ * Position PDA: ["position", position_mint]
+ */
+export function derivePositionAddress(positionMint: PublicKey): { address: PublicKey; bump: number } {
+  const [address, bump] = PublicKey.findProgramAddressSync(
+    [Buffer.from('position'), positionMint.toBuffer()],
+    programKey()
+  );
+  return { address, bump };
+}
+
+export function validateTickRange(tickLowerIndex: number, tickUpperIndex: number, tickSpacing: number): void {
+  if (!Number.isInteger(tickLowerIndex) || !Number.isInteger(tickUpperIndex)) {
+    throw new Error('orca_open_position: tick indexes must be integers');
+  }
+  if (tickLowerIndex >= tickUpperIndex) {
+    throw new Error(`orca_open_position: tickLowerIndex ${tickLowerIndex} must be below tickUpperIndex ${tickUpperIndex}`);
+  }
+  if (tickLowerIndex < WHIRLPOOL_MIN_TICK_INDEX || tickUpperIndex > WHIRLPOOL_MAX_TICK_INDEX) {
+    throw new Error(`orca_open_position: ticks must be within [${WHIRLPOOL_MIN_TICK_INDEX}, ${WHIRLPOOL_MAX_TICK_INDEX}]`);
+  }
+  if (tickLowerIndex % tickSpacing !== 0 || tickUpperIndex % tickSpacing !== 0) {
+    throw new Error(`orca_open_position: ticks must be multiples of tick spacing ${tickSpacing}`);
+  }
+}
+
+export function encodeOpenPositionData(positionBump: number, tickLowerIndex: number, tickUpperIndex: number): Buffer {
+  return Buffer.concat([
+    Buffer.from(OPEN_POSITION_DISCRIMINATOR),
+    encodeU8(positionBump),
+    encodeI32(tickLowerIndex),
+    encodeI32(tickUpperIndex),
+  ]);
+}
+
+export function encodeInitializeTickArrayData(startTickIndex: number): Buffer {
+  return Buffer.concat([Buffer.from(INITIALIZE_TICK_ARRAY_DISCRIMINATOR), encodeI32(startTickIndex)]);
+}
+
+export function createOpenPositionInstruction(
+  keys: OpenPositionKeys,
+  positionBump: number,
+  tickLowerIndex: number,
+  tickUpperIndex: number
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programKey(),
+    keys: [
+      accountMeta(keys.funder, true, true),
+      accountMeta(keys.owner, false, false),
+      accountMeta(keys.position, false, true),
+      accountMeta(keys.positionMint, true, true),
+      accountMeta(keys.positionTokenAccount, false, true),
+      accountMeta(keys.whirlpool, false, false),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+      accountMeta(SystemProgram.programId, false, false),
+      accountMeta(SYSVAR_RENT_PUBKEY, false, false),
+      accountMeta(ASSOCIATED_TOKEN_PROGRAM_ID, false, false),
+    ],
+    data: encodeOpenPositionData(positionBump, tickLowerIndex, tickUpperIndex),
+  });
+}
+
+export function createInitializeTickArrayInstruction(
+  whirlpool: PublicKey,
+  funder: PublicKey,
+  startTickIndex: number
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: programKey(),
+    keys: [
+      accountMeta(whirlpool, false, false),
+      accountMeta(funder, true, true),
+      accountMeta(deriveWhirlpoolTickArray(whirlpool, startTickIndex), false, true),
+      accountMeta(SystemProgram.programId, false, false),
+    ],
+    data: encodeInitializeTickArrayData(startTickIndex),
+  });
+}
+
+/**
+ * Position token account: the owner's ATA for the position mint
+ */
+export function derivePositionTokenAccount(positionMint: PublicKey, owner: PublicKey): PublicKey {
+  return getAssociatedTokenAddressSync(positionMint, owner, true);
+}
+
+export async function fetchWhirlpoolTickSpacing(connection: Connection, whirlpool: PublicKey): Promise<number> {
+  const account = await connection.getAccountInfo(whirlpool);
+  if (!account || !account.owner.equals(programKey())) {
+    throw new Error(`orca_open_position: ${whirlpool.toString()} is not a Whirlpool`);
+  }
+  return account.data.readUInt16LE(WHIRLPOOL_TICK_SPACING_OFFSET);
+}
+
+/**
+ * Start indexes of the tick arrays holding the position bounds that are not yet initialized.
+ * Liquidity cannot be added to a position until both arrays exist.
+ */
+export async function findMissingTickArrays(
+  connection: Connection,
+  whirlpool: PublicKey,
+  tickLowerIndex: number,
+  tickUpperIndex: number,
+  tickSpacing: number
+): Promise<number[]> {
+  const startIndexes = Array.from(
+    new Set([
+      getWhirlpoolTickArrayStartIndex(tickLowerIndex, tickSpacing),
+      getWhirlpoolTickArrayStartIndex(tickUpperIndex, tickSpacing),
+    ])
+  );
+  const accounts = await connection.getMultipleAccountsInfo(
+    startIndexes.map(startIndex => deriveWhirlpoolTickArray(whirlpool, startIndex))
+  );
+  return startIndexes.filter((_, i) => !accounts[i]);
+}
@@ -0,0 +1,180 @@
+// Raydium AMM v4 swap instruction encoder
+// AMM v4 is a native (non-Anchor) program: data is a one-byte tag followed by little-endian u64 args.
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { RAYDIUM_AMM_V4_PROGRAM_ID, decodeAmmV4Pool } from '../../pools/layouts/raydium';
+import { decodeMarketState, deriveMarketVaultSigner } from '../../pools/layouts/openbook';
+import { IntegerLike, accountMeta, encodeU64, encodeU8, optionalAccount, requireAccount } from './common';
+
+// AmmInstruction::SwapBaseIn
+export const RAYDIUM_SWAP_BASE_IN_TAG = 9;
+
+export interface RaydiumSwapKeys {
+  ammId: PublicKey;
+  ammAuthority: PublicKey;
+  ammOpenOrders: PublicKey;
+  ammTargetOrders: PublicKey;
+  poolCoinTokenAccount: PublicKey;
+  poolPcTokenAccount: PublicKey;
+  serumProgramId: PublicKey;
+  serumMarket: PublicKey;
+  serumBids: PublicKey;
+  serumAsks: PublicKey;
+  serumEventQueue: PublicKey;
+  serumCoinVaultAccount: PublicKey;
+  serumPcVaultAccount: PublicKey;
+  serumVaultSigner: PublicKey;
+  userSourceTokenAccount: PublicKey;
+  userDestinationTokenAccount: PublicKey;
+  userSourceOwner: PublicKey;
+}
+
+export interface ResolvedRaydiumSwap {
+  keys: RaydiumSwapKeys;
+  // Set when the destination account was derived as an ATA and may need creating
+  destinationMint?: PublicKey;
+}
+
+// Accounts that come from the AMM and market state when left blank
+const POOL_ACCOUNT_NAMES: Array<keyof RaydiumSwapKeys> = [
+  'ammOpenOrders',
+  'ammTargetOrders',
+  'poolCoinTokenAccount',
+  'poolPcTokenAccount',
+  'serumProgramId',
+  'serumMarket',
+  'serumBids',
+  'serumAsks',
+  'serumEventQueue',
+  'serumCoinVaultAccount',
+  'serumPcVaultAccount',
+  'serumVaultSigner',
+];
+
+export function encodeRaydiumSwapBaseIn(amountIn: IntegerLike, minimumAmountOut: IntegerLike): Buffer {
+  return Buffer.concat([encodeU8(RAYDIUM_SWAP_BASE_IN_TAG), encodeU64(amountIn), encodeU64(minimumAmountOut)]);
+}
+
+/**
+ * AMM authority PDA shared by every AMM v4 pool: ["amm authority"]
+ */
+export function deriveAmmAuthority(programId: PublicKey = new PublicKey(RAYDIUM_AMM_V4_PROGRAM_ID)): PublicKey {
+  const [authority] = PublicKey.findProgramAddressSync([Buffer.from('amm authority')], programId);
+  return authority;
+}
+
+export function createRaydiumSwapInstruction(
+  keys: RaydiumSwapKeys,
+  amountIn: IntegerLike,
+  minimumAmountOut: IntegerLike,
+  programId: PublicKey = new PublicKey(RAYDIUM_AMM_V4_PROGRAM_ID)
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+      accountMeta(keys.ammId, false, true),
+      accountMeta(keys.ammAuthority, false, false),
+      accountMeta(keys.ammOpenOrders, false, true),
+      accountMeta(keys.ammTargetOrders, false, true),
+      accountMeta(keys.poolCoinTokenAccount, false, true),
+      accountMeta(keys.poolPcTokenAccount, false, true),
+      accountMeta(keys.serumProgramId, false, false),
+      accountMeta(keys.serumMarket, false, true),
+      accountMeta(keys.serumBids, false, true),
+      accountMeta(keys.serumAsks, false, true),
+      accountMeta(keys.serumEventQueue, false, true),
+      accountMeta(keys.serumCoinVaultAccount, false, true),
+      accountMeta(keys.serumPcVaultAccount, false, true),
+      accountMeta(keys.serumVaultSigner, false, false),
+      accountMeta(keys.userSourceTokenAccount, false, true),
+      accountMeta(keys.userDestinationTokenAccount, false, true),
+      accountMeta(keys.userSourceOwner, true, false),
+    ],
+    data: encodeRaydiumSwapBaseIn(amountIn, minimumAmountOut),
+  });
+}
+
+/**
+ * Fill in the swap accounts the user left blank.
+ * Vaults, open orders and order book accounts are read from the AMM and market state;
+ * user token accounts default to the owner's ATAs, which requires `inputMint` to pick the direction.
+ */
+export async function resolveRaydiumSwapKeys(
+  connection: Connection,
+  accounts: Record<string, string>,
+  inputMint?: string,
+  programId: PublicKey = new PublicKey(RAYDIUM_AMM_V4_PROGRAM_ID)
+): Promise<ResolvedRaydiumSwap> {
+  const ammId = requireAccount(accounts, 'ammId', 'raydium_swap');
+  const owner = requireAccount(accounts, 'userSourceOwner', 'raydium_swap');
+
+  const provided = (name: keyof RaydiumSwapKeys) => optionalAccount(accounts, name);
+  const needsPoolState =
+    POOL_ACCOUNT_NAMES.some(name => !provided(name)) ||
+    !provided('userSourceTokenAccount') ||
+    !provided('userDestinationTokenAccount');
+
+  const keys: Partial<RaydiumSwapKeys> = { ammId, userSourceOwner: owner };
+  for (const name of POOL_ACCOUNT_NAMES) {
+    keys[name] = provided(name);
+  }
+  keys.ammAuthority = provided('ammAuthority') || deriveAmmAuthority(programId);
+  keys.userSourceTokenAccount = provided('userSourceTokenAccount');
+  keys.userDestinationTokenAccount = provided('userDestinationTokenAccount');
+
+  let destinationMint: PublicKey | undefined;
+
+  if (needsPoolState) {
+    const ammAccount = await connection.getAccountInfo(ammId);
+    if (!ammAccount || !ammAccount.owner.equals(programId)) {
+      throw new Error(`raydium_swap: ${ammId.toString()} is not a Raydium AMM v4 pool`);
+    }
+    const pool = decodeAmmV4Pool(ammAccount.data);
+
+    const marketAccount = await connection.getAccountInfo(pool.marketId);
+    if (!marketAccount) {
+      throw new Error(`raydium_swap: market ${pool.marketId.toString()} not found`);
+    }
+    const market = decodeMarketState(marketAccount.data);
+
+    keys.ammOpenOrders = keys.ammOpenOrders || pool.openOrders;
+    keys.ammTargetOrders = keys.ammTargetOrders || pool.targetOrders;
+    keys.poolCoinTokenAccount = keys.poolCoinTokenAccount || pool.baseVault;
+    keys.poolPcTokenAccount = keys.poolPcTokenAccount || pool.quoteVault;
+    keys.serumProgramId = keys.serumProgramId || pool.marketProgramId;
+    keys.serumMarket = keys.serumMarket || pool.marketId;
+    keys.serumBids = keys.serumBids || market.bids;
+    keys.serumAsks = keys.serumAsks || market.asks;
+    keys.serumEventQueue = keys.serumEventQueue || market.eventQueue;
+    keys.serumCoinVaultAccount = keys.serumCoinVaultAccount || market.baseVault;
+    keys.serumPcVaultAccount = keys.serumPcVaultAccount || market.quoteVault;
+    keys.serumVaultSigner =
+      keys.serumVaultSigner || deriveMarketVaultSigner(pool.marketId, market.vaultSignerNonce, pool.marketProgramId);
+
+    if (!keys.userSourceTokenAccount || !keys.userDestinationTokenAccount) {
+      if (!inputMint) {
+        throw new Error('raydium_swap: inputMint is required to derive the user token accounts');
+      }
+      const sourceMint = new PublicKey(inputMint);
+      let outputMint: PublicKey;
+      if (sourceMint.equals(pool.baseMint)) {
+        outputMint = pool.quoteMint;
+      } else if (sourceMint.equals(pool.quoteMint)) {
+        outputMint = pool.baseMint;
+      } else {
+        throw new Error(`raydium_swap: ${inputMint} is not one of the pool mints`);
+      }
+
+      keys.userSourceTokenAccount =
+        keys.userSourceTokenAccount || getAssociatedTokenAddressSync(sourceMint, owner, true);
+      if (!keys.userDestinationTokenAccount) {
+        keys.userDestinationTokenAccount = getAssociatedTokenAddressSync(outputMint, owner, true);
+        destinationMint = outputMint;
+      }
+    }
+  }
+
+  return { keys: keys as RaydiumSwapKeys, destinationMint };
+}
@@ -0,0 +1,123 @@
+// Solend flash borrow and repay instruction encoders (token-lending instruction tags 19 and 20)
+// As with Kamino, the repay names the borrow's instruction index and the program adds the fee.
+
+import { Connection, PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { IntegerLike, accountMeta, encodeU64, encodeU8 } from './common';
+
+export const SOLEND_MAIN_MARKET = '4UpD2fh7xH3VP9QQaXtsS1YY3bxzWhtfpks7FatyKvdY';
+
+export const FLASH_BORROW_RESERVE_LIQUIDITY_TAG = 19;
+export const FLASH_REPAY_RESERVE_LIQUIDITY_TAG = 20;
+
+export const SOLEND_RESERVE_SIZE = 619;
+// Reserve: version u8, last_update (9), lending_market, liquidity { mint, decimals u8, supply, ... },
+// ..., config { ..., fee_receiver }
+const RESERVE_LENDING_MARKET_OFFSET = 10;
+const RESERVE_LIQUIDITY_MINT_OFFSET = 42;
+const RESERVE_LIQUIDITY_SUPPLY_OFFSET = 75;
+const RESERVE_FEE_RECEIVER_OFFSET = 339;
+
+export interface SolendReserveKeys {
+  programId: PublicKey;
+  reserve: PublicKey;
+  lendingMarket: PublicKey;
+  lendingMarketAuthority: PublicKey;
+  liquidityMint: PublicKey;
+  liquiditySupply: PublicKey;
+  feeReceiver: PublicKey;
+}
+
+export function deriveSolendLendingMarketAuthority(lendingMarket: PublicKey, programId: PublicKey): PublicKey {
+  const [authority] = PublicKey.findProgramAddressSync([lendingMarket.toBuffer()], programId);
+  return authority;
+}
+
+export function decodeSolendReserve(programId: PublicKey, reserve: PublicKey, data: Buffer): SolendReserveKeys {
+  if (data.length !== SOLEND_RESERVE_SIZE) {
+    throw new Error(`Account ${reserve.toString()} is not a Solend reserve (${data.length} bytes)`);
+  }
+  const key = (offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+  const lendingMarket = key(RESERVE_LENDING_MARKET_OFFSET);
+
+  return {
+    programId,
+    reserve,
+    lendingMarket,
+    lendingMarketAuthority: deriveSolendLendingMarketAuthority(lendingMarket, programId),
+    liquidityMint: key(RESERVE_LIQUIDITY_MINT_OFFSET),
+    liquiditySupply: key(RESERVE_LIQUIDITY_SUPPLY_OFFSET),
+    feeReceiver: key(RESERVE_FEE_RECEIVER_OFFSET),
+  };
+}
+
+export async function fetchSolendReserve(
+  connection: Connection,
+  programId: PublicKey,
+  mint: PublicKey,
+  lendingMarket: PublicKey = new PublicKey(SOLEND_MAIN_MARKET)
+): Promise<SolendReserveKeys> {
+  const reserves = await connection.getProgramAccounts(programId, {
+    filters: [
+      { dataSize: SOLEND_RESERVE_SIZE },
+      { memcmp: { offset: RESERVE_LENDING_MARKET_OFFSET, bytes: lendingMarket.toBase58() } },
+      { memcmp: { offset: RESERVE_LIQUIDITY_MINT_OFFSET, bytes: mint.toBase58() } },
+    ],
+  });
+  if (reserves.length === 0) {
+    throw new Error(`Solend market ${lendingMarket.toString()} has no reserve for ${mint.toString()}`);
+  }
+  return decodeSolendReserve(programId, reserves[0].pubkey, reserves[0].account.data);
+}
+
+export function createSolendFlashBorrowInstruction(
+  keys: SolendReserveKeys,
+  destination: PublicKey,
+  amount: IntegerLike
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: [
+      accountMeta(keys.liquiditySupply, false, true),
+      accountMeta(destination, false, true),
+      accountMeta(keys.reserve, false, true),
+      accountMeta(keys.lendingMarket, false, false),
+      accountMeta(keys.lendingMarketAuthority, false, false),
+      accountMeta(SYSVAR_INSTRUCTIONS_PUBKEY, false, false),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+    ],
+    data: Buffer.concat([encodeU8(FLASH_BORROW_RESERVE_LIQUIDITY_TAG), encodeU64(amount)]),
+  });
+}
+
+/**
+ * The host fee share goes to `hostFeeReceiver`; borrowers usually pass their own token account
+ */
+export function createSolendFlashRepayInstruction(
+  keys: SolendReserveKeys,
+  user: PublicKey,
+  source: PublicKey,
+  hostFeeReceiver: PublicKey,
+  amount: IntegerLike,
+  borrowInstructionIndex: number
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: keys.programId,
+    keys: [
+      accountMeta(source, false, true),
+      accountMeta(keys.liquiditySupply, false, true),
+      accountMeta(keys.feeReceiver, false, true),
+      accountMeta(hostFeeReceiver, false, true),
+      accountMeta(keys.reserve, false, false),
+      accountMeta(keys.lendingMarket, false, false),
+      accountMeta(user, true, false),
+      accountMeta(SYSVAR_INSTRUCTIONS_PUBKEY, false, false),
+      accountMeta(TOKEN_PROGRAM_ID, false, false),
+    ],
+    data: Buffer.concat([
+      encodeU8(FLASH_REPAY_RESERVE_LIQUIDITY_TAG),
+      encodeU64(amount),
+      encodeU8(borrowInstructionIndex),
+    ]),
+  });
+}
@@ -0,0 +1,148 @@
+// Token-2022 mint extensions
+// Every mint extension is initialized before InitializeMint, into an account sized for exactly
+// those extensions. On-mint token metadata is the exception: it is written after InitializeMint
+// (it needs the mint authority) and reallocates the mint, so its rent is prepaid at creation.
+
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  ExtensionType,
+  LENGTH_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeTransferHookInstruction,
+  getMintLen,
+} from '@solana/spl-token';
+import { createInitializeInstruction, pack } from '@solana/spl-token-metadata';
+import { IntegerLike, toU64 } from './common';
+
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 10000;
+const U64_MAX = BigInt('18446744073709551615');
+const I16_MIN = -32768;
+const I16_MAX = 32767;
+
+export interface TokenMetadataFields {
+  name: string;
+  symbol: string;
+  uri: string;
+}
+
+export interface MintExtensionConfig {
+  mint: PublicKey;
+  authority: PublicKey; // Mint authority; also holds every extension authority
+  transferFee?: { basisPoints: number; maximumFee?: IntegerLike }; // maximumFee in base units, uncapped when omitted
+  interestRateBps?: number;
+  nonTransferable?: boolean;
+  permanentDelegate?: PublicKey;
+  metadataPointer?: PublicKey; // Defaults to the mint when on-mint metadata is requested
+  metadata?: TokenMetadataFields; // Written into the mint itself
+  transferHookProgram?: PublicKey;
+}
+
+export interface MintExtensionPlan {
+  extensions: ExtensionType[];
+  mintSpace: number; // Bytes to allocate when creating the mint account
+  rentSpace: number; // Bytes to fund, including metadata written after InitializeMint
+  preInitializeInstructions: TransactionInstruction[]; // Before InitializeMint, in this order
+  postInitializeInstructions: TransactionInstruction[]; // After InitializeMint
+}
+
+/**
+ * Size the mint and build the extension instructions for a new Token-2022 mint
+ */
+export function planMintExtensions(config: MintExtensionConfig): MintExtensionPlan {
+  const { mint, authority } = config;
+  const extensions: ExtensionType[] = [];
+  const preInitializeInstructions: TransactionInstruction[] = [];
+  const postInitializeInstructions: TransactionInstruction[] = [];
+
+  if (config.transferFee) {
+    const { basisPoints, maximumFee } = config.transferFee;
+    if (!Number.isInteger(basisPoints) || basisPoints < 0 || basisPoints > MAX_TRANSFER_FEE_BASIS_POINTS) {
+      throw new Error(`Transfer fee must be 0-${MAX_TRANSFER_FEE_BASIS_POINTS} basis points, got ${basisPoints}`);
+    }
+    extensions.push(ExtensionType.TransferFeeConfig);
+    preInitializeInstructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        authority,
+        authority,
+        basisPoints,
+        maximumFee === undefined ? U64_MAX : toU64(maximumFee),
+        TOKEN_2022_PROGRAM_ID
+      )
+    );
+  }
+
+  if (config.interestRateBps !== undefined) {
+    const rate = config.interestRateBps;
+    if (!Number.isInteger(rate) || rate < I16_MIN || rate > I16_MAX) {
+      throw new Error(`Interest rate must be an i16 in basis points, got ${rate}`);
+    }
+    extensions.push(ExtensionType.InterestBearingConfig);
+    preInitializeInstructions.push(
+      createInitializeInterestBearingMintInstruction(mint, authority, rate, TOKEN_2022_PROGRAM_ID)
+    );
+  }
+
+  if (config.nonTransferable) {
+    extensions.push(ExtensionType.NonTransferable);
+    preInitializeInstructions.push(createInitializeNonTransferableMintInstruction(mint, TOKEN_2022_PROGRAM_ID));
+  }
+
+  if (config.permanentDelegate) {
+    extensions.push(ExtensionType.PermanentDelegate);
+    preInitializeInstructions.push(
+      createInitializePermanentDelegateInstruction(mint, config.permanentDelegate, TOKEN_2022_PROGRAM_ID)
+    );
+  }
+
+  const metadataAddress = config.metadataPointer || (config.metadata ? mint : undefined);
+  let metadataSpace = 0;
+  if (metadataAddress) {
+    extensions.push(ExtensionType.MetadataPointer);
+    preInitializeInstructions.push(
+      createInitializeMetadataPointerInstruction(mint, authority, metadataAddress, TOKEN_2022_PROGRAM_ID)
+    );
+  }
+  if (config.metadata) {
+    if (!metadataAddress!.equals(mint)) {
+      throw new Error(`On-mint metadata needs the metadata pointer to reference the mint, not ${metadataAddress!.toString()}`);
+    }
+    const { name, symbol, uri } = config.metadata;
+    metadataSpace =
+      TYPE_SIZE + LENGTH_SIZE + pack({ mint, updateAuthority: authority, name, symbol, uri, additionalMetadata: [] }).length;
+    postInitializeInstructions.push(
+      createInitializeInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority: authority,
+        mint,
+        mintAuthority: authority,
+        name,
+        symbol,
+        uri,
+      })
+    );
+  }
+
+  if (config.transferHookProgram) {
+    extensions.push(ExtensionType.TransferHook);
+    preInitializeInstructions.push(
+      createInitializeTransferHookInstruction(mint, authority, config.transferHookProgram, TOKEN_2022_PROGRAM_ID)
+    );
+  }
+
+  const mintSpace = getMintLen(extensions);
+  return {
+    extensions,
+    mintSpace,
+    rentSpace: mintSpace + metadataSpace,
+    preInitializeInstructions,
+    postInitializeInstructions,
+  };
+}
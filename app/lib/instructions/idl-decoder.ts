@@ -0,0 +1,392 @@
+// Anchor IDL decoder for account data, instruction data and events
+// Accepts both the legacy IDL format (anchor < 0.30: `publicKey`, `{ defined: "Name" }`,
+// `isMut`/`isSigner`, discriminators derived from names) and the 0.30+ format (`address`,
+// `pubkey`, `{ defined: { name } }`, explicit `discriminator` arrays). Decoded values are
+// JSON-safe: pubkeys as base58, 64-bit and wider integers as decimal strings, bytes as base64.
+
+import { PublicKey } from '@solana/web3.js';
+import { sha256 } from '@noble/hashes/sha256';
+
+export type IdlType =
+  | string
+  | { option: IdlType }
+  | { coption: IdlType }
+  | { vec: IdlType }
+  | { array: [IdlType, number | { generic: string }] }
+  | { defined: string | { name: string; generics?: IdlGenericArg[] } }
+  | { generic: string };
+
+export type IdlGenericArg = { kind: 'type'; type: IdlType } | { kind: 'const'; value: string };
+
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+// Named fields, tuple fields, or none (unit struct / unit variant)
+export type IdlFields = IdlField[] | IdlType[];
+
+export interface IdlTypeDef {
+  name: string;
+  generics?: Array<{ kind: 'type' | 'const'; name: string }>;
+  type:
+    | { kind: 'struct'; fields?: IdlFields }
+    | { kind: 'enum'; variants: Array<{ name: string; fields?: IdlFields }> }
+    | { kind: 'type'; alias: IdlType };
+}
+
+export interface IdlInstructionDef {
+  name: string;
+  discriminator: number[];
+  accounts: string[]; // Flattened in instruction order; composite accounts as `group.name`
+  args: IdlField[];
+}
+
+export interface IdlItemDef {
+  name: string;
+  discriminator: number[];
+  type: IdlTypeDef;
+}
+
+/**
+ * An IDL normalized to one shape regardless of the format it was written in
+ */
+export interface ParsedIdl {
+  name: string;
+  address?: string;
+  format: 'legacy' | 'v0.30';
+  instructions: IdlInstructionDef[];
+  accounts: IdlItemDef[];
+  events: IdlItemDef[];
+  types: Map<string, IdlTypeDef>;
+}
+
+export interface DecodedIdlAccount {
+  name: string;
+  data: Record<string, unknown>;
+}
+
+export interface DecodedIdlInstruction {
+  name: string;
+  args: Record<string, unknown>;
+  accounts: Array<{ name: string; pubkey: string }>;
+}
+
+export interface DecodedIdlEvent {
+  name: string;
+  data: Record<string, unknown>;
+}
+
+// emit_cpi! events are self-invoked instructions: this tag, then the event discriminator
+export const EVENT_IX_TAG = [0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d];
+
+const INTEGER_SIZES: Record<string, number> = {
+  u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, u64: 8, i64: 8, u128: 16, i128: 16, u256: 32, i256: 32,
+};
+
+export function anchorDiscriminator(namespace: 'global' | 'account' | 'event', name: string): number[] {
+  return Array.from(sha256(`${namespace}:${name}`).slice(0, 8));
+}
+
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+function flattenAccounts(accounts: any[], prefix = ''): string[] {
+  return accounts.flatMap(account =>
+    Array.isArray(account.accounts)
+      ? flattenAccounts(account.accounts, `${prefix}${account.name}.`)
+      : [`${prefix}${account.name}`]
+  );
+}
+
+/**
+ * Normalize a legacy or 0.30+ IDL. Legacy IDLs have no discriminators, so they are derived
+ * the way anchor < 0.30 does: sha256 of "global:<snake_name>", "account:<Name>" or "event:<Name>".
+ */
+export function parseIdl(idl: any): ParsedIdl {
+  if (!idl || typeof idl !== 'object' || !Array.isArray(idl.instructions)) {
+    throw new Error('IDL must be an object with an instructions array');
+  }
+  const isNew = typeof idl.address === 'string' || idl.metadata?.spec !== undefined;
+  const types = new Map<string, IdlTypeDef>();
+  for (const typeDef of idl.types || []) {
+    types.set(typeDef.name, typeDef);
+  }
+
+  const instructions: IdlInstructionDef[] = idl.instructions.map((ix: any) => ({
+    name: ix.name,
+    discriminator: isNew ? ix.discriminator : anchorDiscriminator('global', toSnakeCase(ix.name)),
+    accounts: flattenAccounts(ix.accounts || []),
+    args: ix.args || [],
+  }));
+
+  // 0.30+ keeps account and event layouts in `types`; legacy inlines them
+  const item = (namespace: 'account' | 'event') => (def: any): IdlItemDef => {
+    if (isNew) {
+      const typeDef = types.get(def.name);
+      if (!typeDef) {
+        throw new Error(`IDL ${namespace} ${def.name} has no entry in types`);
+      }
+      return { name: def.name, discriminator: def.discriminator, type: typeDef };
+    }
+    const type: IdlTypeDef =
+      namespace === 'account'
+        ? def
+        : { name: def.name, type: { kind: 'struct', fields: (def.fields || []).map(({ name, type }: IdlField) => ({ name, type })) } };
+    // Legacy IDLs also list account structs as types so they can be nested
+    if (namespace === 'account' && !types.has(def.name)) {
+      types.set(def.name, type);
+    }
+    return { name: def.name, discriminator: anchorDiscriminator(namespace, def.name), type };
+  };
+
+  return {
+    name: isNew ? idl.metadata?.name : idl.name,
+    address: isNew ? idl.address : idl.metadata?.address,
+    format: isNew ? 'v0.30' : 'legacy',
+    instructions,
+    accounts: (idl.accounts || []).map(item('account')),
+    events: (idl.events || []).map(item('event')),
+    types,
+  };
+}
+
+type Generics = Map<string, IdlType | number>;
+
+class IdlReader {
+  offset = 0;
+
+  constructor(
+    private data: Buffer,
+    private types: Map<string, IdlTypeDef>
+  ) {}
+
+  private take(size: number, path: string): Buffer {
+    if (this.offset + size > this.data.length) {
+      throw new Error(`Data ends at byte ${this.data.length}, reading ${path} needs ${this.offset + size}`);
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + size);
+    this.offset += size;
+    return bytes;
+  }
+
+  private integer(type: string, path: string): number | string {
+    const size = INTEGER_SIZES[type];
+    const bytes = this.take(size, path);
+    if (size <= 4) {
+      return type.startsWith('u') ? bytes.readUIntLE(0, size) : bytes.readIntLE(0, size);
+    }
+    let value = BigInt(0);
+    for (let i = size - 1; i >= 0; i--) {
+      value = (value << BigInt(8)) | BigInt(bytes[i]);
+    }
+    if (type.startsWith('i') && bytes[size - 1] & 0x80) {
+      value -= BigInt(1) << BigInt(size * 8);
+    }
+    return value.toString();
+  }
+
+  private length(path: string): number {
+    return this.take(4, path).readUInt32LE(0);
+  }
+
+  read(type: IdlType, path: string, generics: Generics = new Map()): unknown {
+    if (typeof type === 'string') {
+      if (type in INTEGER_SIZES) return this.integer(type, path);
+      switch (type) {
+        case 'bool':
+          return this.take(1, path)[0] !== 0;
+        case 'f32':
+          return this.take(4, path).readFloatLE(0);
+        case 'f64':
+          return this.take(8, path).readDoubleLE(0);
+        case 'pubkey':
+        case 'publicKey':
+          return new PublicKey(this.take(32, path)).toBase58();
+        case 'string':
+          return this.take(this.length(path), path).toString('utf8');
+        case 'bytes':
+          return this.take(this.length(path), path).toString('base64');
+        default:
+          throw new Error(`Unsupported IDL type ${type} at ${path}`);
+      }
+    }
+    if ('option' in type) {
+      return this.take(1, path)[0] === 0 ? null : this.read(type.option, path, generics);
+    }
+    if ('coption' in type) {
+      return this.take(4, path).readUInt32LE(0) === 0 ? null : this.read(type.coption, path, generics);
+    }
+    if ('vec' in type) {
+      const count = this.length(path);
+      return Array.from({ length: count }, (_, i) => this.read(type.vec, `${path}[${i}]`, generics));
+    }
+    if ('array' in type) {
+      const [elementType, lengthSpec] = type.array;
+      const count = typeof lengthSpec === 'number' ? lengthSpec : Number(generics.get(lengthSpec.generic));
+      if (elementType === 'u8') {
+        return Array.from(this.take(count, path));
+      }
+      return Array.from({ length: count }, (_, i) => this.read(elementType, `${path}[${i}]`, generics));
+    }
+    if ('generic' in type) {
+      const bound = generics.get(type.generic);
+      if (bound === undefined || typeof bound === 'number') {
+        throw new Error(`Generic ${type.generic} at ${path} is not bound to a type`);
+      }
+      return this.read(bound, path, generics);
+    }
+    if ('defined' in type) {
+      const ref = typeof type.defined === 'string' ? { name: type.defined } : type.defined;
+      const typeDef = this.types.get(ref.name);
+      if (!typeDef) {
+        throw new Error(`IDL has no type ${ref.name} (at ${path})`);
+      }
+      return this.readDefined(typeDef, path, this.bindGenerics(typeDef, ref.generics || [], generics));
+    }
+    throw new Error(`Unsupported IDL type ${JSON.stringify(type)} at ${path}`);
+  }
+
+  private bindGenerics(typeDef: IdlTypeDef, args: IdlGenericArg[], outer: Generics): Generics {
+    const bound: Generics = new Map();
+    (typeDef.generics || []).forEach((param, i) => {
+      const arg = args[i];
+      if (!arg) {
+        throw new Error(`Type ${typeDef.name} is missing generic argument ${param.name}`);
+      }
+      if (arg.kind === 'const') {
+        bound.set(param.name, Number(arg.value));
+      } else if (typeof arg.type === 'object' && 'generic' in arg.type && outer.has(arg.type.generic)) {
+        bound.set(param.name, outer.get(arg.type.generic)!);
+      } else {
+        bound.set(param.name, arg.type);
+      }
+    });
+    return bound;
+  }
+
+  readFields(fields: IdlFields | undefined, path: string, generics: Generics): Record<string, unknown> | unknown[] {
+    if (!fields || fields.length === 0) {
+      return {};
+    }
+    const first = fields[0];
+    if (typeof first === 'object' && 'name' in first && 'type' in first) {
+      const record: Record<string, unknown> = {};
+      for (const field of fields as IdlField[]) {
+        record[field.name] = this.read(field.type, `${path}.${field.name}`, generics);
+      }
+      return record;
+    }
+    return (fields as IdlType[]).map((fieldType, i) => this.read(fieldType, `${path}.${i}`, generics));
+  }
+
+  readDefined(typeDef: IdlTypeDef, path: string, generics: Generics = new Map()): unknown {
+    const { type } = typeDef;
+    switch (type.kind) {
+      case 'struct':
+        return this.readFields(type.fields, path, generics);
+      case 'enum': {
+        const index = this.take(1, path)[0];
+        const variant = type.variants[index];
+        if (!variant) {
+          throw new Error(`Enum ${typeDef.name} has no variant ${index} (at ${path})`);
+        }
+        return { [variant.name]: this.readFields(variant.fields, `${path}.${variant.name}`, generics) };
+      }
+      case 'type':
+        return this.read(type.alias, path, generics);
+    }
+  }
+}
+
+function startsWith(data: Buffer, prefix: number[]): boolean {
+  return data.length >= prefix.length && prefix.every((byte, i) => data[i] === byte);
+}
+
+function decodeStruct(idl: ParsedIdl, typeDef: IdlTypeDef, data: Buffer, name: string): Record<string, unknown> {
+  const decoded = new IdlReader(data, idl.types).readDefined(typeDef, name);
+  return decoded as Record<string, unknown>;
+}
+
+/**
+ * Decode an account. Without `accountType` the type is detected from the discriminator;
+ * returns null when no account in the IDL matches. Trailing bytes (zero padding, space
+ * reserved for growth) are ignored.
+ */
+export function decodeIdlAccount(idl: ParsedIdl, data: Buffer, accountType?: string): DecodedIdlAccount | null {
+  let account: IdlItemDef | undefined;
+  if (accountType) {
+    account = idl.accounts.find(def => def.name === accountType);
+    if (!account) {
+      throw new Error(`IDL has no account type ${accountType}`);
+    }
+    if (!startsWith(data, account.discriminator)) {
+      throw new Error(`Account data does not start with the ${accountType} discriminator`);
+    }
+  } else {
+    account = idl.accounts.find(def => startsWith(data, def.discriminator));
+    if (!account) return null;
+  }
+  return {
+    name: account.name,
+    data: decodeStruct(idl, account.type, data.subarray(account.discriminator.length), account.name),
+  };
+}
+
+/**
+ * Decode instruction data by its discriminator; `accountKeys` are the instruction's
+ * accounts in order, named from the IDL (extras are reported as remaining accounts).
+ */
+export function decodeIdlInstruction(
+  idl: ParsedIdl,
+  data: Buffer,
+  accountKeys: Array<PublicKey | string> = []
+): DecodedIdlInstruction | null {
+  const instruction = idl.instructions.find(def => startsWith(data, def.discriminator));
+  if (!instruction) return null;
+
+  const reader = new IdlReader(data.subarray(instruction.discriminator.length), idl.types);
+  const args: Record<string, unknown> = {};
+  for (const arg of instruction.args) {
+    args[arg.name] = reader.read(arg.type, `${instruction.name}.${arg.name}`);
+  }
+
+  return {
+    name: instruction.name,
+    args,
+    accounts: accountKeys.map((key, i) => ({
+      name: instruction.accounts[i] || `remainingAccounts[${i - instruction.accounts.length}]`,
+      pubkey: key.toString(),
+    })),
+  };
+}
+
+/**
+ * Decode event data, either from a "Program data:" log line or an emit_cpi! instruction
+ */
+export function decodeIdlEvent(idl: ParsedIdl, data: Buffer): DecodedIdlEvent | null {
+  const payload = startsWith(data, EVENT_IX_TAG) ? data.subarray(EVENT_IX_TAG.length) : data;
+  const event = idl.events.find(def => startsWith(payload, def.discriminator));
+  if (!event) return null;
+  return {
+    name: event.name,
+    data: decodeStruct(idl, event.type, payload.subarray(event.discriminator.length), event.name),
+  };
+}
+
+/**
+ * Decode the events a program emitted with emit! from a transaction's log messages
+ */
+export function decodeIdlEventsFromLogs(idl: ParsedIdl, logs: string[]): DecodedIdlEvent[] {
+  const events: DecodedIdlEvent[] = [];
+  for (const line of logs) {
+    if (!line.startsWith('Program data: ')) continue;
+    const event = decodeIdlEvent(idl, Buffer.from(line.slice('Program data: '.length), 'base64'));
+    if (event) events.push(event);
+  }
+  return events;
+}
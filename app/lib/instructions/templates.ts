@@ -209,15 +209,16 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
     category: 'defi',
     accounts: [
       { name: 'userTransferAuthority', type: 'signer', description: 'User transfer authority' },
-      { name: 'userSourceTokenAccount', type: 'writable', description: 'User source token account' },
-      { name: 'userDestinationTokenAccount', type: 'writable', description: 'User destination token account' },
-      { name: 'destinationTokenAccount', type: 'writable', description: 'Destination token account' },
+      { name: 'userSourceTokenAccount', type: 'writable', description: 'User source token account (sets the input mint when inputMint is empty)', isOptional: true },
+      { name: 'userDestinationTokenAccount', type: 'writable', description: 'User destination token account (defaults to the ATA)', isOptional: true },
+      { name: 'destinationTokenAccount', type: 'writable', description: 'Token account to receive the output instead of the user', isOptional: true },
       { name: 'destinationMint', type: 'readonly', description: 'Destination token mint' },
       { name: 'platformFeeAccount', type: 'writable', description: 'Platform fee account', isOptional: true }
     ],
     args: [
       { name: 'amount', type: 'u64', description: 'Amount to swap', validation: { min: 1 } },
-      { name: 'minAmountOut', type: 'u64', description: 'Minimum amount out', validation: { min: 0 } }
+      { name: 'minAmountOut', type: 'u64', description: 'Minimum amount out (slippage protection)', validation: { min: 1 } },
+      { name: 'inputMint', type: 'pubkey', description: 'Input token mint', isOptional: true }
     ]
   },
 
@@ -229,16 +230,16 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
     description: 'Open a liquidity position in Orca Whirlpool',
     category: 'defi',
     accounts: [
-      { name: 'position', type: 'writable', description: 'Position account' },
-      { name: 'positionMint', type: 'writable', description: 'Position mint' },
-      { name: 'positionTokenAccount', type: 'writable', description: 'Position token account' },
+      { name: 'position', type: 'writable', description: 'Position account (derived from the position mint)', isOptional: true },
+      { name: 'positionMint', type: 'signer', description: 'Position mint (a new keypair is generated when empty)', isOptional: true },
+      { name: 'positionTokenAccount', type: 'writable', description: 'Position token account (owner ATA)', isOptional: true },
       { name: 'whirlpool', type: 'readonly', description: 'Whirlpool account' },
-      { name: 'owner', type: 'signer', description: 'Position owner' }
+      { name: 'owner', type: 'signer', description: 'Position owner and funder' }
     ],
     args: [
       { name: 'tickLowerIndex', type: 'i32', description: 'Lower tick index' },
       { name: 'tickUpperIndex', type: 'i32', description: 'Upper tick index' },
-      { name: 'tickSpacing', type: 'u16', description: 'Tick spacing' }
+      { name: 'tickSpacing', type: 'u16', description: 'Tick spacing (read from the whirlpool when empty)', isOptional: true }
     ]
   },
 
@@ -250,13 +251,14 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
     description: 'Deposit SOL to Marinade for staking',
     category: 'defi',
     accounts: [
-      { name: 'state', type: 'readonly', description: 'Marinade state account' },
-      { name: 'msolMint', type: 'readonly', description: 'mSOL mint' },
-      { name: 'liqPoolSolLegPda', type: 'writable', description: 'Liquidity pool SOL PDA' },
-      { name: 'liqPoolMsolLeg', type: 'writable', description: 'Liquidity pool mSOL account' },
-      { name: 'treasuryMsolAccount', type: 'writable', description: 'Treasury mSOL account' },
-      { name: 'userSolPda', type: 'writable', description: 'User SOL PDA' },
-      { name: 'userMsolPda', type: 'writable', description: 'User mSOL PDA' },
+      { name: 'state', type: 'writable', description: 'Marinade state account', pubkey: '8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC', isOptional: true },
+      { name: 'msolMint', type: 'writable', description: 'mSOL mint', pubkey: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So', isOptional: true },
+      { name: 'liqPoolSolLegPda', type: 'writable', description: 'Liquidity pool SOL leg PDA', isOptional: true },
+      { name: 'liqPoolMsolLeg', type: 'writable', description: 'Liquidity pool mSOL leg', pubkey: '7GgPYjS5Dza89wV6FpZ23kUJRG5vbQ1GM25ezspYFSoE', isOptional: true },
+      { name: 'liqPoolMsolLegAuthority', type: 'readonly', description: 'Liquidity pool mSOL leg authority PDA', isOptional: true },
+      { name: 'reservePda', type: 'writable', description: 'Reserve SOL PDA', isOptional: true },
+      { name: 'msolMintAuthority', type: 'readonly', description: 'mSOL mint authority PDA', isOptional: true },
+      { name: 'mintTo', type: 'writable', description: 'User mSOL token account (defaults to the ATA)', isOptional: true },
       { name: 'user', type: 'signer', description: 'User account' }
     ],
     args: [{
@@ -272,30 +274,31 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
     id: 'raydium_swap',
     programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
     name: 'Raydium Swap',
-    description: 'Swap tokens on Raydium AMM',
+    description: 'Swap tokens on Raydium AMM (empty pool and market accounts are read from the AMM)',
     category: 'defi',
     accounts: [
-      { name: 'ammId', type: 'readonly', description: 'AMM account' },
-      { name: 'ammAuthority', type: 'readonly', description: 'AMM authority' },
-      { name: 'ammOpenOrders', type: 'writable', description: 'AMM open orders' },
-      { name: 'ammTargetOrders', type: 'writable', description: 'AMM target orders' },
-      { name: 'poolCoinTokenAccount', type: 'writable', description: 'Pool coin token account' },
-      { name: 'poolPcTokenAccount', type: 'writable', description: 'Pool PC token account' },
-      { name: 'serumProgramId', type: 'readonly', description: 'Serum program ID' },
-      { name: 'serumMarket', type: 'writable', description: 'Serum market' },
-      { name: 'serumBids', type: 'writable', description: 'Serum bids' },
-      { name: 'serumAsks', type: 'writable', description: 'Serum asks' },
-      { name: 'serumEventQueue', type: 'writable', description: 'Serum event queue' },
-      { name: 'serumCoinVaultAccount', type: 'writable', description: 'Serum coin vault' },
-      { name: 'serumPcVaultAccount', type: 'writable', description: 'Serum PC vault' },
-      { name: 'serumVaultSigner', type: 'readonly', description: 'Serum vault signer' },
-      { name: 'userSourceTokenAccount', type: 'writable', description: 'User source token account' },
-      { name: 'userDestinationTokenAccount', type: 'writable', description: 'User destination token account' },
+      { name: 'ammId', type: 'writable', description: 'AMM account' },
+      { name: 'ammAuthority', type: 'readonly', description: 'AMM authority', isOptional: true },
+      { name: 'ammOpenOrders', type: 'writable', description: 'AMM open orders', isOptional: true },
+      { name: 'ammTargetOrders', type: 'writable', description: 'AMM target orders', isOptional: true },
+      { name: 'poolCoinTokenAccount', type: 'writable', description: 'Pool coin token account', isOptional: true },
+      { name: 'poolPcTokenAccount', type: 'writable', description: 'Pool PC token account', isOptional: true },
+      { name: 'serumProgramId', type: 'readonly', description: 'Serum program ID', isOptional: true },
+      { name: 'serumMarket', type: 'writable', description: 'Serum market', isOptional: true },
+      { name: 'serumBids', type: 'writable', description: 'Serum bids', isOptional: true },
+      { name: 'serumAsks', type: 'writable', description: 'Serum asks', isOptional: true },
+      { name: 'serumEventQueue', type: 'writable', description: 'Serum event queue', isOptional: true },
+      { name: 'serumCoinVaultAccount', type: 'writable', description: 'Serum coin vault', isOptional: true },
+      { name: 'serumPcVaultAccount', type: 'writable', description: 'Serum PC vault', isOptional: true },
+      { name: 'serumVaultSigner', type: 'readonly', description: 'Serum vault signer', isOptional: true },
+      { name: 'userSourceTokenAccount', type: 'writable', description: 'User source token account (defaults to the inputMint ATA)', isOptional: true },
+      { name: 'userDestinationTokenAccount', type: 'writable', description: 'User destination token account (defaults to the output ATA)', isOptional: true },
       { name: 'userSourceOwner', type: 'signer', description: 'User source owner' }
     ],
     args: [
       { name: 'amountIn', type: 'u64', description: 'Amount to swap in', validation: { min: 1 } },
-      { name: 'minimumAmountOut', type: 'u64', description: 'Minimum amount out', validation: { min: 0 } }
+      { name: 'minimumAmountOut', type: 'u64', description: 'Minimum amount out (slippage protection)', validation: { min: 1 } },
+      { name: 'inputMint', type: 'pubkey', description: 'Input token mint, used to derive user token accounts', isOptional: true }
     ]
   },
 
@@ -304,25 +307,20 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
     id: 'me_buy_now',
     programId: 'M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K',
     name: 'Magic Eden Buy Now',
-    description: 'Buy NFT from Magic Eden marketplace',
+    description: 'Place a Magic Eden M2 buy at the listing price',
     category: 'nft',
     accounts: [
       { name: 'auctionHouse', type: 'readonly', description: 'Auction house account' },
-      { name: 'auctionHouseFeeAccount', type: 'writable', description: 'Fee account' },
-      { name: 'auctionHouseTreasury', type: 'writable', description: 'Treasury account' },
-      { name: 'buyerTradeState', type: 'writable', description: 'Buyer trade state' },
-      { name: 'sellerTradeState', type: 'readonly', description: 'Seller trade state' },
-      { name: 'freeSellerTradeState', type: 'readonly', description: 'Free seller trade state' },
+      { name: 'authority', type: 'readonly', description: 'Auction house authority' },
       { name: 'buyer', type: 'signer', description: 'Buyer wallet' },
-      { name: 'seller', type: 'readonly', description: 'Seller wallet' },
-      { name: 'tokenAccount', type: 'readonly', description: 'Token account' },
+      { name: 'tokenAccount', type: 'readonly', description: 'Seller token account holding the NFT' },
       { name: 'tokenMint', type: 'readonly', description: 'Token mint' },
-      { name: 'treasuryMint', type: 'readonly', description: 'Treasury mint' },
-      { name: 'buyerReceiptTokenAccount', type: 'writable', description: 'Buyer receipt token account' }
+      { name: 'treasuryMint', type: 'readonly', description: 'Treasury mint', pubkey: 'So11111111111111111111111111111111111111112', isOptional: true },
+      { name: 'buyerTradeState', type: 'writable', description: 'Buyer trade state (derived when empty)', isOptional: true }
     ],
     args: [
-      { name: 'tradeStateBump', type: 'u8', description: 'Trade state bump' },
-      { name: 'escrowPaymentBump', type: 'u8', description: 'Escrow payment bump' },
+      { name: 'tradeStateBump', type: 'u8', description: 'Trade state bump (derived when empty)', isOptional: true },
+      { name: 'escrowPaymentBump', type: 'u8', description: 'Escrow payment bump (derived when empty)', isOptional: true },
       { name: 'buyerPrice', type: 'u64', description: 'Purchase price' },
       { name: 'tokenSize', type: 'u64', description: 'Token size', defaultValue: 1 }
     ]
@@ -403,7 +401,7 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
   },
   {
     id: 'marginfi_flash_loan',
-    programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH4',
+    programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH',
     name: 'Marginfi Flash Loan',
     description: 'Borrow tokens via Marginfi flash loan (must be repaid in same transaction)',
     category: 'defi',
@@ -421,7 +419,7 @@ export const INSTRUCTION_TEMPLATES: InstructionTemplate[] = [
   },
   {
     id: 'marginfi_flash_repay',
-    programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH4',
+    programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH',
     name: 'Marginfi Flash Repay',
     description: 'Repay Marginfi flash loan (must be in same transaction as borrow)',
     category: 'defi',
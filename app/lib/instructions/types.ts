@@ -40,4 +40,5 @@ export interface TransactionDraft {
   instructions: BuiltInstruction[];
   priorityFee?: number;
   memo?: string;
+  lookupTables?: string[]; // Address lookup tables for v0 transactions
 }
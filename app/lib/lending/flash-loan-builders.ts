@@ -0,0 +1,240 @@
+// Flash loan borrow/repay instructions for the protocols in LENDING_PROTOCOLS
+// Each loan is a borrow leg and a repay leg. The legs reference each other by absolute
+// instruction index (checked on-chain through the instructions sysvar), so they are built
+// once their positions in the final transaction are known.
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { LendingProtocol } from './protocols';
+import {
+  FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR,
+  FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR,
+  KaminoReserveKeys,
+  createKaminoFlashBorrowInstruction,
+  createKaminoFlashRepayInstruction,
+  fetchKaminoReserve,
+} from '../instructions/encoders/kamino-lend';
+import {
+  FLASH_BORROW_RESERVE_LIQUIDITY_TAG,
+  FLASH_REPAY_RESERVE_LIQUIDITY_TAG,
+  SolendReserveKeys,
+  createSolendFlashBorrowInstruction,
+  createSolendFlashRepayInstruction,
+  fetchSolendReserve,
+} from '../instructions/encoders/solend';
+import {
+  END_FLASHLOAN_DISCRIMINATOR,
+  LENDING_ACCOUNT_REPAY_DISCRIMINATOR,
+  MarginfiAccountInfo,
+  MarginfiBankKeys,
+  START_FLASHLOAN_DISCRIMINATOR,
+  createMarginfiBorrowInstruction,
+  createMarginfiEndFlashloanInstruction,
+  createMarginfiRepayInstruction,
+  createMarginfiStartFlashloanInstruction,
+  fetchMarginfiAccount,
+  fetchMarginfiBank,
+} from '../instructions/encoders/marginfi';
+
+export type FlashLoanReserve =
+  | { kind: 'kamino'; keys: KaminoReserveKeys }
+  | { kind: 'solend'; keys: SolendReserveKeys }
+  | { kind: 'marginfi'; keys: MarginfiBankKeys; account: MarginfiAccountInfo };
+
+export interface FlashLoanLeg {
+  borrow: TransactionInstruction[];
+  repay: TransactionInstruction[];
+}
+
+export interface FlashLoanPositions {
+  borrowIndex: number; // Index of the first borrow-leg instruction
+  repayIndex: number; // Index of the first repay-leg instruction
+}
+
+export interface FlashLoanCheck {
+  id: string;
+  reserve: FlashLoanReserve;
+  amount: bigint;
+}
+
+// Instructions per leg; marginfi brackets its borrow and repay with start/end_flashloan
+export const FLASH_LOAN_LEG_SIZES: Record<FlashLoanReserve['kind'], { borrow: number; repay: number }> = {
+  kamino: { borrow: 1, repay: 1 },
+  solend: { borrow: 1, repay: 1 },
+  marginfi: { borrow: 2, repay: 2 },
+};
+
+export function supportsFlashLoanInstructions(protocol: LendingProtocol): boolean {
+  return protocol.id in FLASH_LOAN_LEG_SIZES;
+}
+
+/**
+ * Resolve the reserve (or bank) that lends `tokenMint`.
+ * `market` overrides the protocol's main lending market (marginfi: group).
+ */
+export async function resolveFlashLoanReserve(
+  connection: Connection,
+  protocol: LendingProtocol,
+  tokenMint: PublicKey,
+  borrower: PublicKey,
+  market?: PublicKey
+): Promise<FlashLoanReserve> {
+  const programId = protocol.flashLoanProgramId || protocol.programId;
+
+  switch (protocol.id) {
+    case 'kamino':
+      return { kind: 'kamino', keys: await fetchKaminoReserve(connection, programId, tokenMint, market) };
+    case 'solend':
+      return { kind: 'solend', keys: await fetchSolendReserve(connection, programId, tokenMint, market) };
+    case 'marginfi': {
+      const [keys, account] = await Promise.all([
+        fetchMarginfiBank(connection, programId, tokenMint, market),
+        fetchMarginfiAccount(connection, programId, borrower, market),
+      ]);
+      return { kind: 'marginfi', keys, account };
+    }
+    default:
+      throw new Error(`Flash loan instructions for ${protocol.name} are not supported`);
+  }
+}
+
+export function getFlashLoanTokenProgram(reserve: FlashLoanReserve): PublicKey {
+  return reserve.kind === 'kamino' ? reserve.keys.tokenProgram : TOKEN_PROGRAM_ID;
+}
+
+/**
+ * Build both legs of a loan. `tokenAccount` receives the borrow and funds the repay.
+ * marginfi health-checks every other open balance at end_flashloan, so those need
+ * their [bank, oracle] accounts in `healthAccounts`.
+ */
+export function buildFlashLoanLeg(
+  reserve: FlashLoanReserve,
+  borrower: PublicKey,
+  tokenAccount: PublicKey,
+  amount: bigint,
+  positions: FlashLoanPositions,
+  healthAccounts: PublicKey[] = []
+): FlashLoanLeg {
+  switch (reserve.kind) {
+    case 'kamino':
+      return {
+        borrow: [createKaminoFlashBorrowInstruction(reserve.keys, borrower, tokenAccount, amount)],
+        repay: [createKaminoFlashRepayInstruction(reserve.keys, borrower, tokenAccount, amount, positions.borrowIndex)],
+      };
+    case 'solend':
+      return {
+        borrow: [createSolendFlashBorrowInstruction(reserve.keys, tokenAccount, amount)],
+        repay: [
+          createSolendFlashRepayInstruction(reserve.keys, borrower, tokenAccount, tokenAccount, amount, positions.borrowIndex),
+        ],
+      };
+    case 'marginfi': {
+      const { keys, account } = reserve;
+      const openBalances = account.activeBanks.filter(bank => !bank.equals(keys.bank));
+      if (openBalances.length > 0 && healthAccounts.length === 0) {
+        throw new Error(
+          `marginfi account ${account.address.toString()} has ${openBalances.length} open balances; pass their bank and oracle accounts for the health check`
+        );
+      }
+      return {
+        borrow: [
+          createMarginfiStartFlashloanInstruction(keys.programId, account.address, borrower, positions.repayIndex + 1),
+          createMarginfiBorrowInstruction(keys, account.address, borrower, tokenAccount, amount),
+        ],
+        repay: [
+          createMarginfiRepayInstruction(keys, account.address, borrower, tokenAccount, amount),
+          createMarginfiEndFlashloanInstruction(keys.programId, account.address, borrower, healthAccounts),
+        ],
+      };
+    }
+  }
+}
+
+// Where reserve-based borrow/repay instructions keep their reserve account; data is
+// prefix, amount u64 and (repay) the borrow's instruction index u8
+const RESERVE_LOAN_LAYOUTS = {
+  kamino: {
+    borrowPrefix: FLASH_BORROW_RESERVE_LIQUIDITY_DISCRIMINATOR,
+    repayPrefix: FLASH_REPAY_RESERVE_LIQUIDITY_DISCRIMINATOR,
+    borrowReserveKey: 3,
+    repayReserveKey: 3,
+  },
+  solend: {
+    borrowPrefix: [FLASH_BORROW_RESERVE_LIQUIDITY_TAG],
+    repayPrefix: [FLASH_REPAY_RESERVE_LIQUIDITY_TAG],
+    borrowReserveKey: 2,
+    repayReserveKey: 4,
+  },
+};
+
+function hasPrefix(data: Buffer, prefix: number[]): boolean {
+  return data.length >= prefix.length && prefix.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Check each loan's legs against a transaction's instructions, the way the programs'
+ * introspection does: a borrow must be followed by a repay of the same amount that points
+ * back at it (marginfi: start_flashloan must point at a later end_flashloan with a repay between).
+ */
+export function findFlashLoanErrors(instructions: TransactionInstruction[], loans: FlashLoanCheck[]): string[] {
+  const errors: string[] = [];
+
+  for (const loan of loans) {
+    const { reserve } = loan;
+    const onProgram = (instruction: TransactionInstruction) => instruction.programId.equals(reserve.keys.programId);
+
+    if (reserve.kind === 'marginfi') {
+      const account = reserve.account.address;
+      const start = instructions.findIndex(
+        ix => onProgram(ix) && hasPrefix(ix.data, START_FLASHLOAN_DISCRIMINATOR) && ix.keys[0].pubkey.equals(account)
+      );
+      if (start === -1) {
+        errors.push(`Flash loan ${loan.id} has no start_flashloan instruction`);
+        continue;
+      }
+      const end = Number(instructions[start].data.readBigUInt64LE(8));
+      const endInstruction = instructions[end];
+      if (!endInstruction || end <= start || !onProgram(endInstruction) || !hasPrefix(endInstruction.data, END_FLASHLOAN_DISCRIMINATOR)) {
+        errors.push(`Flash loan ${loan.id} start_flashloan points at instruction ${end}, which is not its end_flashloan`);
+        continue;
+      }
+      const repaid = instructions
+        .slice(start + 1, end)
+        .some(ix => onProgram(ix) && hasPrefix(ix.data, LENDING_ACCOUNT_REPAY_DISCRIMINATOR) && ix.keys[3].pubkey.equals(reserve.keys.bank));
+      if (!repaid) {
+        errors.push(`Flash loan ${loan.id} is never repaid before end_flashloan`);
+      }
+      continue;
+    }
+
+    const layout = RESERVE_LOAN_LAYOUTS[reserve.kind];
+    const amountOffset = layout.borrowPrefix.length;
+
+    const borrow = instructions.findIndex(
+      ix =>
+        onProgram(ix) &&
+        hasPrefix(ix.data, layout.borrowPrefix) &&
+        ix.keys[layout.borrowReserveKey].pubkey.equals(reserve.keys.reserve) &&
+        ix.data.readBigUInt64LE(amountOffset) === loan.amount
+    );
+    if (borrow === -1) {
+      errors.push(`Flash loan ${loan.id} has no borrow instruction`);
+      continue;
+    }
+    const repay = instructions.find(
+      (ix, index) =>
+        index > borrow &&
+        onProgram(ix) &&
+        hasPrefix(ix.data, layout.repayPrefix) &&
+        ix.keys[layout.repayReserveKey].pubkey.equals(reserve.keys.reserve) &&
+        ix.data[amountOffset + 8] === borrow
+    );
+    if (!repay) {
+      errors.push(`Flash loan ${loan.id} has no repay instruction for its borrow at index ${borrow}`);
+    } else if (repay.data.readBigUInt64LE(amountOffset) !== loan.amount) {
+      errors.push(`Flash loan ${loan.id} repays ${repay.data.readBigUInt64LE(amountOffset)}, borrowed ${loan.amount}`);
+    }
+  }
+
+  return errors;
+}
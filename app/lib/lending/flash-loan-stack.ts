@@ -2,7 +2,17 @@
 // Allows chaining multiple flash loans in a single transaction
 
 import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
-import { LENDING_PROTOCOLS, LendingProtocol, getBestFlashLoanProtocol } from './protocols';
+import { createAssociatedTokenAccountIdempotentInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { LENDING_PROTOCOLS, LendingProtocol, getBestFlashLoanProtocol, getProtocolsForToken } from './protocols';
+import {
+  FLASH_LOAN_LEG_SIZES,
+  FlashLoanReserve,
+  buildFlashLoanLeg,
+  findFlashLoanErrors,
+  getFlashLoanTokenProgram,
+  resolveFlashLoanReserve,
+  supportsFlashLoanInstructions,
+} from './flash-loan-builders';
 
 export interface FlashLoanStackItem {
   id: string;
@@ -11,8 +21,15 @@ export interface FlashLoanStackItem {
   amount: bigint;
   fee: bigint; // Calculated fee
   repayAmount: bigint; // amount + fee
-  borrowInstruction?: TransactionInstruction;
-  repayInstruction?: TransactionInstruction;
+  market?: PublicKey; // Lending market (marginfi: group); the protocol's main market when unset
+  reserve?: FlashLoanReserve; // Resolved on-chain when the stack is built
+  borrowInstructions?: TransactionInstruction[];
+  repayInstructions?: TransactionInstruction[];
+}
+
+export interface StackedTransactionOptions {
+  setupInstructions?: TransactionInstruction[]; // Placed first, e.g. compute budget; counted in the leg indices
+  marginfiHealthAccounts?: PublicKey[]; // [bank, oracle] for other open marginfi balances
 }
 
 export interface FlashLoanStack {
@@ -40,12 +57,15 @@ export class FlashLoanStackManager {
   async addFlashLoan(
     tokenMint: PublicKey,
     amount: bigint,
-    protocolId?: string
+    protocolId?: string,
+    market?: PublicKey
   ): Promise<FlashLoanStackItem> {
-    // Auto-select best protocol if not specified
+    // Auto-select the cheapest protocol we can build instructions for if not specified
     const protocol = protocolId 
       ? LENDING_PROTOCOLS.find(p => p.id === protocolId)
-      : getBestFlashLoanProtocol(tokenMint.toString());
+      : getProtocolsForToken(tokenMint.toString())
+          .filter(supportsFlashLoanInstructions)
+          .sort((a, b) => a.flashLoanFeeBps - b.flashLoanFeeBps)[0];
 
     if (!protocol) {
       throw new Error(`No flash loan protocol available for token ${tokenMint.toString()}`);
@@ -62,6 +82,7 @@ export class FlashLoanStackManager {
       amount,
       fee,
       repayAmount,
+      market,
     };
 
     this.stack.push(item);
@@ -103,39 +124,81 @@ export class FlashLoanStackManager {
 
   /**
    * Build transaction with all flash loans
-   * Order: All borrows -> User operations -> All repays
+   * Order: Setup -> Token accounts -> All borrows -> User operations -> All repays (reverse order)
+   * Repays reference their borrows by instruction index, so nothing may be inserted before
+   * the stack after it is built; put compute budget instructions in `setupInstructions`.
    */
   async buildStackedTransaction(
     userInstructions: TransactionInstruction[],
-    borrower: PublicKey
+    borrower: PublicKey,
+    options: StackedTransactionOptions = {}
   ): Promise<Transaction> {
-    const transaction = new Transaction();
+    const { setupInstructions = [], marginfiHealthAccounts = [] } = options;
+    if (this.stack.filter(item => item.protocol.id === 'marginfi').length > 1) {
+      throw new Error('marginfi allows one flash loan per account per transaction');
+    }
 
-    // Step 1: Add all borrow instructions
-    for (const item of this.stack) {
-      if (item.borrowInstruction) {
-        transaction.add(item.borrowInstruction);
-      } else {
-        // Placeholder: In production, construct actual borrow instruction
-        // This would use the protocol's SDK or Anchor program
-        throw new Error(`Borrow instruction not set for ${item.id}. Please set borrowInstruction first.`);
+    // Step 1: Resolve reserves and the borrower's token accounts
+    const reserves = await Promise.all(
+      this.stack.map(item => resolveFlashLoanReserve(this.connection, item.protocol, item.tokenMint, borrower, item.market))
+    );
+    const tokenAccounts = this.stack.map((item, i) =>
+      getAssociatedTokenAddressSync(item.tokenMint, borrower, true, getFlashLoanTokenProgram(reserves[i]))
+    );
+    const accountInstructions: TransactionInstruction[] = [];
+    this.stack.forEach((item, i) => {
+      if (tokenAccounts.findIndex(account => account.equals(tokenAccounts[i])) === i) {
+        accountInstructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            borrower,
+            tokenAccounts[i],
+            borrower,
+            item.tokenMint,
+            getFlashLoanTokenProgram(reserves[i])
+          )
+        );
       }
-    }
+    });
 
-    // Step 2: Add user's operations (arbitrage, swaps, etc.)
-    for (const instruction of userInstructions) {
-      transaction.add(instruction);
+    // Step 2: Lay out leg positions; borrows in stack order, repays in reverse after the user's operations
+    const sizes = reserves.map(reserve => FLASH_LOAN_LEG_SIZES[reserve.kind]);
+    const borrowIndexes: number[] = [];
+    let index = setupInstructions.length + accountInstructions.length;
+    sizes.forEach(size => {
+      borrowIndexes.push(index);
+      index += size.borrow;
+    });
+    index += userInstructions.length;
+    const repayIndexes: number[] = new Array(sizes.length);
+    for (let i = sizes.length - 1; i >= 0; i--) {
+      repayIndexes[i] = index;
+      index += sizes[i].repay;
     }
 
-    // Step 3: Add all repay instructions (in reverse order for safety)
-    for (let i = this.stack.length - 1; i >= 0; i--) {
-      const item = this.stack[i];
-      if (item.repayInstruction) {
-        transaction.add(item.repayInstruction);
-      } else {
-        // Placeholder: In production, construct actual repay instruction
-        throw new Error(`Repay instruction not set for ${item.id}. Please set repayInstruction first.`);
-      }
+    const legs = this.stack.map((item, i) => {
+      item.reserve = reserves[i];
+      const leg = buildFlashLoanLeg(
+        reserves[i],
+        borrower,
+        tokenAccounts[i],
+        item.amount,
+        { borrowIndex: borrowIndexes[i], repayIndex: repayIndexes[i] },
+        marginfiHealthAccounts
+      );
+      item.borrowInstructions = leg.borrow;
+      item.repayInstructions = leg.repay;
+      return leg;
+    });
+
+    // Step 3: Assemble
+    const transaction = new Transaction();
+    transaction.add(...setupInstructions, ...accountInstructions);
+    legs.forEach(leg => transaction.add(...leg.borrow));
+    if (userInstructions.length > 0) {
+      transaction.add(...userInstructions);
+    }
+    for (let i = legs.length - 1; i >= 0; i--) {
+      transaction.add(...legs[i].repay);
     }
 
     return transaction;
@@ -143,8 +206,9 @@ export class FlashLoanStackManager {
 
   /**
    * Validate stack (check for conflicts, ensure profitability, etc.)
+   * Pass the built transaction to also check that every borrow is repaid at the right index.
    */
-  validateStack(estimatedProfit: bigint): {
+  validateStack(estimatedProfit: bigint, transaction?: Transaction): {
     valid: boolean;
     errors: string[];
     warnings: string[];
@@ -171,6 +235,28 @@ export class FlashLoanStackManager {
       }
     });
 
+    if (this.stack.filter(item => item.protocol.id === 'marginfi').length > 1) {
+      errors.push('marginfi allows one flash loan per account per transaction');
+    }
+    this.stack.forEach(item => {
+      if (!supportsFlashLoanInstructions(item.protocol)) {
+        errors.push(`Flash loan instructions for ${item.protocol.name} are not supported`);
+      }
+    });
+
+    if (transaction) {
+      const unresolved = this.stack.filter(item => !item.reserve);
+      unresolved.forEach(item => errors.push(`Flash loan ${item.id} has not been built`));
+      if (unresolved.length === 0) {
+        errors.push(
+          ...findFlashLoanErrors(
+            transaction.instructions,
+            this.stack.map(item => ({ id: item.id, reserve: item.reserve!, amount: item.amount }))
+          )
+        );
+      }
+    }
+
     // Check transaction size (Solana limit is ~1232 bytes)
     // This is a simplified check - actual size depends on instruction encoding
     const estimatedSize = this.stack.length * 200 + 500; // Rough estimate
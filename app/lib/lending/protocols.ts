@@ -79,8 +79,8 @@ export const LENDING_PROTOCOLS: LendingProtocol[] = [
   {
     id: 'marginfi',
     name: 'Marginfi',
-    programId: new PublicKey('MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH4'),
-    flashLoanProgramId: new PublicKey('MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH4'),
+    programId: new PublicKey('MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH'),
+    flashLoanProgramId: new PublicKey('MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FyN1mBwtbH'),
     website: 'https://marginfi.com',
     auditStatus: 'audited',
     auditReports: [
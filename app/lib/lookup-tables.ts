@@ -0,0 +1,252 @@
+// Address lookup tables and v0 transaction sizing
+// A v0 message can load non-signer accounts from lookup tables by a one-byte index,
+// which is what lets multi-hop and flash-loan stacks fit in a single packet.
+
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  MessageV0,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+} from '@solana/web3.js';
+
+export const MAX_TRANSACTION_SIZE = PACKET_DATA_SIZE; // 1232 bytes
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+// Keeps each extend transaction comfortably under the packet limit
+export const MAX_ADDRESSES_PER_EXTEND = 20;
+
+const SIGNATURE_SIZE = 64;
+const PUBKEY_SIZE = 32;
+
+export interface TransactionSizeReport {
+  legacyBytes: number;
+  versionedBytes: number;
+  savedBytes: number;
+  maxBytes: number;
+  fitsLegacy: boolean;
+  fitsVersioned: boolean;
+  compressedAccounts: string[]; // Accounts loaded from lookup tables instead of the message
+  lookupTables: string[]; // Tables that contributed at least one account
+}
+
+export interface LookupTablePlan {
+  lookupTableAddress: PublicKey;
+  addresses: PublicKey[]; // Addresses added by this plan, in insertion order
+  batches: TransactionInstruction[][]; // One transaction per batch, sent in order
+}
+
+function shortVecLength(value: number): number {
+  let length = 1;
+  while (value >= 0x80) {
+    value >>= 7;
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Serialized size of a signed transaction carrying this message
+ */
+function serializedSize(message: MessageV0, versioned: boolean): number {
+  const signatures = message.header.numRequiredSignatures;
+  const keys = message.staticAccountKeys.length;
+
+  let size = shortVecLength(signatures) + signatures * SIGNATURE_SIZE;
+  size += (versioned ? 1 : 0) + 3; // version prefix, header
+  size += shortVecLength(keys) + keys * PUBKEY_SIZE;
+  size += PUBKEY_SIZE; // recent blockhash
+  size += shortVecLength(message.compiledInstructions.length);
+  for (const instruction of message.compiledInstructions) {
+    const accounts = instruction.accountKeyIndexes.length;
+    const data = instruction.data.length;
+    size += 1 + shortVecLength(accounts) + accounts + shortVecLength(data) + data;
+  }
+
+  if (versioned) {
+    size += shortVecLength(message.addressTableLookups.length);
+    for (const lookup of message.addressTableLookups) {
+      const writable = lookup.writableIndexes.length;
+      const readonly = lookup.readonlyIndexes.length;
+      size += PUBKEY_SIZE + shortVecLength(writable) + writable + shortVecLength(readonly) + readonly;
+    }
+  }
+  return size;
+}
+
+/**
+ * Compare the legacy and v0 encodings of a set of instructions.
+ * Sizes are computed from the compiled message, so oversized transactions can be measured
+ * (web3.js serialization throws past the packet limit).
+ */
+export function measureTransactionSize(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): TransactionSizeReport {
+  const compile = (tables: AddressLookupTableAccount[]) =>
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions,
+    }).compileToV0Message(tables);
+
+  const legacyBytes = serializedSize(compile([]), false);
+  const message = compile(lookupTables);
+  const versionedBytes = serializedSize(message, true);
+
+  const compressedAccounts: string[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const table = lookupTables.find(candidate => candidate.key.equals(lookup.accountKey))!;
+    for (const index of [...lookup.writableIndexes, ...lookup.readonlyIndexes]) {
+      compressedAccounts.push(table.state.addresses[index].toString());
+    }
+  }
+
+  return {
+    legacyBytes,
+    versionedBytes,
+    savedBytes: legacyBytes - versionedBytes,
+    maxBytes: MAX_TRANSACTION_SIZE,
+    fitsLegacy: legacyBytes <= MAX_TRANSACTION_SIZE,
+    fitsVersioned: versionedBytes <= MAX_TRANSACTION_SIZE,
+    compressedAccounts,
+    lookupTables: message.addressTableLookups.map(lookup => lookup.accountKey.toString()),
+  };
+}
+
+/**
+ * Accounts worth putting in a lookup table, most used first.
+ * Signers and invoked programs must stay in the message, so they are never candidates.
+ */
+export function collectLookupCandidates(
+  instructions: TransactionInstruction[],
+  options: { minUses?: number; exclude?: PublicKey[] } = {}
+): PublicKey[] {
+  const { minUses = 1, exclude = [] } = options;
+  const excluded = new Set(exclude.map(key => key.toString()));
+  const uses = new Map<string, number>();
+
+  for (const instruction of instructions) {
+    excluded.add(instruction.programId.toString());
+    for (const meta of instruction.keys) {
+      if (meta.isSigner) {
+        excluded.add(meta.pubkey.toString());
+      }
+    }
+  }
+  for (const instruction of instructions) {
+    for (const meta of instruction.keys) {
+      const key = meta.pubkey.toString();
+      if (!excluded.has(key)) {
+        uses.set(key, (uses.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  return Array.from(uses.entries())
+    .filter(([, count]) => count >= minUses)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([key]) => new PublicKey(key));
+}
+
+export async function fetchLookupTables(
+  connection: Connection,
+  addresses: Array<string | PublicKey>
+): Promise<AddressLookupTableAccount[]> {
+  return Promise.all(
+    addresses.map(async address => {
+      const key = typeof address === 'string' ? new PublicKey(address) : address;
+      const { value } = await connection.getAddressLookupTable(key);
+      if (!value) {
+        throw new Error(`Address lookup table ${key.toString()} not found`);
+      }
+      if (!value.isActive()) {
+        throw new Error(`Address lookup table ${key.toString()} is deactivated`);
+      }
+      return value;
+    })
+  );
+}
+
+function extendBatches(
+  lookupTable: PublicKey,
+  authority: PublicKey,
+  payer: PublicKey,
+  addresses: PublicKey[]
+): TransactionInstruction[][] {
+  const batches: TransactionInstruction[][] = [];
+  for (let i = 0; i < addresses.length; i += MAX_ADDRESSES_PER_EXTEND) {
+    batches.push([
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable,
+        authority,
+        payer,
+        addresses: addresses.slice(i, i + MAX_ADDRESSES_PER_EXTEND),
+      }),
+    ]);
+  }
+  return batches;
+}
+
+/**
+ * Create a lookup table holding `addresses`. The create instruction shares the first batch.
+ * New entries can be used from the slot after the extend lands.
+ */
+export function planCreateLookupTable(
+  authority: PublicKey,
+  payer: PublicKey,
+  recentSlot: number,
+  addresses: PublicKey[]
+): LookupTablePlan {
+  if (addresses.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+    throw new Error(`A lookup table holds at most ${MAX_LOOKUP_TABLE_ADDRESSES} addresses, got ${addresses.length}`);
+  }
+
+  const [createInstruction, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer,
+    recentSlot,
+  });
+  const batches = extendBatches(lookupTableAddress, authority, payer, addresses);
+  if (batches.length === 0) {
+    batches.push([]);
+  }
+  batches[0].unshift(createInstruction);
+
+  return { lookupTableAddress, addresses, batches };
+}
+
+/**
+ * Add the addresses a table does not already hold
+ */
+export function planExtendLookupTable(
+  lookupTable: AddressLookupTableAccount,
+  authority: PublicKey,
+  payer: PublicKey,
+  addresses: PublicKey[]
+): LookupTablePlan {
+  if (!lookupTable.state.authority) {
+    throw new Error(`Lookup table ${lookupTable.key.toString()} is frozen`);
+  }
+  if (!lookupTable.state.authority.equals(authority)) {
+    throw new Error(`Lookup table ${lookupTable.key.toString()} is owned by ${lookupTable.state.authority.toString()}`);
+  }
+
+  const existing = new Set(lookupTable.state.addresses.map(address => address.toString()));
+  const missing = addresses.filter(address => !existing.has(address.toString()));
+
+  if (lookupTable.state.addresses.length + missing.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+    throw new Error(
+      `Lookup table ${lookupTable.key.toString()} has room for ${MAX_LOOKUP_TABLE_ADDRESSES - lookupTable.state.addresses.length} more addresses, ${missing.length} requested`
+    );
+  }
+
+  return {
+    lookupTableAddress: lookupTable.key,
+    addresses: missing,
+    batches: extendBatches(lookupTable.key, authority, payer, missing),
+  };
+}
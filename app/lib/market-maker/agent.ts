@@ -16,9 +16,11 @@ import {
   TOKEN_PROGRAM_ID,
   getAccount,
 } from '@solana/spl-token';
-import { MarketMakerConfig, MarketMakerState, MarketMakerAnalytics, MarketMakerTrade } from './types';
+import { MarketMakerConfig, MarketMakerState, MarketMakerAnalytics, MarketMakerTrade, MarketMakerFill } from './types';
 import { generateAnalytics } from './analytics';
 import { executeTrade } from './trading';
+import { GridEngine, GridStateStorage, GridTrigger, LocalStorageGridStateStorage, gridConfigFromMarketMaker } from './grid';
+import { InventoryQuoter, QuoteTrigger, quotingConfigFromMarketMaker } from './quoting';
 
 export class MarketMakerAgent {
   private connection: Connection;
@@ -27,10 +29,21 @@ export class MarketMakerAgent {
   private agentKeypair: Keypair;
   private monitoringInterval?: NodeJS.Timeout;
   private tradingInterval?: NodeJS.Timeout;
+  private grid?: GridEngine;
+  private gridStorage: GridStateStorage;
+  private quoter?: InventoryQuoter;
+  private strategyBusy = false; // Orders of the last price update are still executing
+  private fillListeners: Set<(fill: MarketMakerFill) => void> = new Set();
+  private stopForwardingFills?: () => void;
 
-  constructor(connection: Connection, config: MarketMakerConfig) {
+  constructor(
+    connection: Connection,
+    config: MarketMakerConfig,
+    gridStorage: GridStateStorage = new LocalStorageGridStateStorage()
+  ) {
     this.connection = connection;
     this.config = config;
+    this.gridStorage = gridStorage;
     
     // Generate or use existing agent wallet
     if (config.agentWalletSeed) {
@@ -86,6 +99,10 @@ export class MarketMakerAgent {
     }
 
     this.state.isRunning = true;
+
+    // Deliver fills to webhook subscribers while running
+    const { forwardMarketMakerFills } = await import('../webhooks');
+    this.stopForwardingFills = forwardMarketMakerFills(this);
     
     // Fund agent wallet if needed
     await this.ensureAgentFunded();
@@ -119,6 +136,9 @@ export class MarketMakerAgent {
     if (this.tradingInterval) {
       clearInterval(this.tradingInterval);
     }
+
+    this.stopForwardingFills?.();
+    this.stopForwardingFills = undefined;
     
     console.log('Market maker agent stopped');
   }
@@ -130,6 +150,48 @@ export class MarketMakerAgent {
     return { ...this.state };
   }
 
+  /**
+   * Grid engine of a running (or resumed) grid strategy
+   */
+  getGrid(): GridEngine | undefined {
+    return this.grid;
+  }
+
+  /**
+   * Quoting engine of a running market_making strategy
+   */
+  getQuoter(): InventoryQuoter | undefined {
+    return this.quoter;
+  }
+
+  /**
+   * Subscribe to grid and quote fills
+   */
+  onFill(listener: (fill: MarketMakerFill) => void): () => void {
+    this.fillListeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.fillListeners.delete(listener);
+    };
+  }
+
+  private notifyFill(strategy: MarketMakerFill['strategy'], fill: Omit<MarketMakerFill, 'strategy' | 'agentWallet' | 'tokenMint'>) {
+    const event: MarketMakerFill = {
+      ...fill,
+      strategy,
+      agentWallet: this.state.agentWallet,
+      tokenMint: this.config.tokenMint,
+    };
+    this.fillListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Fill listener error:', error);
+      }
+    });
+  }
+
   /**
    * Ensure agent wallet has sufficient funds
    */
@@ -187,7 +249,11 @@ export class MarketMakerAgent {
       
       if (response.ok) {
         const quote = await response.json();
-        this.state.currentPrice = parseFloat(quote.outAmount) / 1e9;
+        // Quote is tokens out for 1 SOL in; store the inverse so prices read as SOL per token
+        const tokensPerSol = parseFloat(quote.outAmount) / 1e9;
+        if (tokensPerSol > 0) {
+          this.state.currentPrice = 1 / tokensPerSol;
+        }
       }
     } catch (error) {
       console.error('Failed to update price:', error);
@@ -216,7 +282,8 @@ export class MarketMakerAgent {
         this.connection,
         this.config.tokenMint,
         this.config.analyticsWindow || 60,
-        birdeyeFetcher
+        birdeyeFetcher,
+        this.grid?.getAnalytics()
       );
       
       this.state.analytics = analytics;
@@ -304,18 +371,100 @@ export class MarketMakerAgent {
 
   /**
    * Grid trading strategy
+   * Resumes the saved grid for this wallet and token if its settings are unchanged,
+   * otherwise lays a new one around the current price. Each price update fires the
+   * orders it crossed.
    */
   private async executeGridStrategy() {
-    const levels = this.config.gridLevels || 10;
-    const spacing = this.config.gridSpacing || 1; // 1%
-    const range = this.config.gridRange;
-    
-    // Place buy orders at lower prices
-    // Place sell orders at higher prices
-    // Adjust grid based on current price
-    
-    // Implementation would place limit orders at grid levels
-    console.log('Grid strategy: Place orders at grid levels');
+    const gridConfig = gridConfigFromMarketMaker(this.config);
+
+    const saved = await this.gridStorage.load(this.gridStorageKey());
+    this.grid = saved && GridEngine.matches(saved, this.config.tokenMint, gridConfig)
+      ? GridEngine.fromState(saved)
+      : GridEngine.create(this.config.tokenMint, gridConfig, this.state.currentPrice);
+    await this.saveGrid();
+
+    this.tradingInterval = setInterval(async () => {
+      if (!this.state.isRunning) return;
+      await this.updatePrice();
+      await this.processGridPrice(this.state.currentPrice);
+    }, 10000); // Every 10 seconds
+  }
+
+  /**
+   * Execute every grid order crossed by `price`. Updates that arrive while orders are
+   * still executing are skipped; the next one catches up.
+   */
+  async processGridPrice(price: number): Promise<void> {
+    if (!this.grid || this.strategyBusy || !(price > 0)) return;
+    this.strategyBusy = true;
+
+    try {
+      const triggers = this.grid.onPrice(price);
+      for (const trigger of triggers) {
+        await this.executeGridOrder(trigger);
+      }
+      await this.saveGrid();
+    } finally {
+      this.strategyBusy = false;
+    }
+  }
+
+  private async executeGridOrder(trigger: GridTrigger) {
+    const grid = this.grid!;
+    const trade: MarketMakerTrade = {
+      type: trigger.side,
+      tokenMint: this.config.tokenMint,
+      amount: trigger.amount,
+      slippage: this.config.slippageTolerance || 1,
+      priorityFee: this.config.priorityFee || 10000,
+      timestamp: new Date(),
+    };
+
+    try {
+      const signature = await executeTrade(this.connection, this.agentKeypair, trade);
+      const fill = grid.recordFill(trigger, signature);
+
+      if (trigger.side === 'buy') {
+        this.state.totalBuys++;
+      } else {
+        this.state.totalSells++;
+      }
+      this.state.profit += fill.realizedPnl;
+      this.state.lastTrade = {
+        type: trigger.side,
+        price: trigger.price,
+        amount: trigger.amount,
+        timestamp: trade.timestamp,
+        signature,
+      };
+      this.notifyFill('grid', {
+        side: fill.side,
+        price: fill.price,
+        solAmount: fill.solAmount,
+        tokenAmount: fill.tokenAmount,
+        realizedPnl: fill.realizedPnl,
+        signature: fill.signature,
+        timestamp: new Date(fill.timestamp),
+        levelIndex: fill.levelIndex,
+      });
+    } catch (error) {
+      grid.releaseOrder(trigger);
+      console.error(`Grid ${trigger.side} at level ${trigger.levelIndex} failed:`, error);
+    }
+  }
+
+  private gridStorageKey(): string {
+    return `${this.state.agentWallet}_${this.config.tokenMint}`;
+  }
+
+  private async saveGrid() {
+    if (!this.grid) return;
+    try {
+      await this.gridStorage.save(this.gridStorageKey(), this.grid.getState());
+    } catch (error) {
+      console.error('Failed to save grid state:', error);
+    }
   }
 
   /**
@@ -362,36 +511,81 @@ export class MarketMakerAgent {
 
   /**
    * Market making strategy
+   * Quotes a bid and ask around a smoothed fair price, skewed and widened by inventory
+   * and volatility within the configured spread and position limits. Price updates that
+   * cross a quote fill it.
    */
   private async executeMarketMakingStrategy() {
-    const spread = this.config.spread || 0.5; // 0.5%
-    const buyPrice = this.state.currentPrice * (1 - spread / 100);
-    const sellPrice = this.state.currentPrice * (1 + spread / 100);
-    
-    // Continuously place buy and sell orders around current price
-    // Adjust based on inventory and analytics
-    
-    const interval = setInterval(async () => {
-      if (!this.state.isRunning) {
-        clearInterval(interval);
-        return;
-      }
-      
+    const intervalMs = 10000; // Every 10 seconds
+    const quotingConfig = quotingConfigFromMarketMaker(this.config, intervalMs);
+
+    // Existing tokens are carried at the current price
+    const { tokenBalance } = this.state.positions;
+    this.quoter = new InventoryQuoter(quotingConfig, tokenBalance, tokenBalance * this.state.currentPrice);
+    await this.processQuotePrice(this.state.currentPrice);
+
+    this.tradingInterval = setInterval(async () => {
+      if (!this.state.isRunning) return;
       await this.updatePrice();
-      
-      // Place buy order if price is below buyPrice
-      // Place sell order if price is above sellPrice
-      // Adjust based on analytics if enabled
-      
-      if (this.config.useAnalytics && this.state.analytics) {
-        const recommendation = this.state.analytics.recommendations;
-        if (recommendation.confidence > 0.7) {
-          await this.executeAnalyticsBasedTrade(this.state.analytics);
-        }
+      await this.processQuotePrice(this.state.currentPrice);
+    }, intervalMs);
+  }
+
+  /**
+   * Fill every quote crossed by `price` and requote. Updates that arrive while fills are
+   * still executing are skipped.
+   */
+  async processQuotePrice(price: number): Promise<void> {
+    if (!this.quoter || this.strategyBusy || !(price > 0)) return;
+    this.strategyBusy = true;
+
+    try {
+      const triggers = this.quoter.onPrice(price);
+      for (const trigger of triggers) {
+        await this.executeQuoteOrder(trigger);
       }
-    }, 10000); // Every 10 seconds
-    
-    this.tradingInterval = interval;
+
+      const quoting = this.quoter.getState();
+      this.state.quoting = quoting;
+      this.state.positions.tokenBalance = quoting.inventory;
+      this.state.positions.averageBuyPrice = quoting.inventory > 0 ? quoting.costBasis / quoting.inventory : 0;
+      this.state.positions.unrealizedPnL = quoting.inventory * price - quoting.costBasis;
+    } finally {
+      this.strategyBusy = false;
+    }
+  }
+
+  private async executeQuoteOrder(trigger: QuoteTrigger) {
+    const trade: MarketMakerTrade = {
+      type: trigger.side,
+      tokenMint: this.config.tokenMint,
+      amount: trigger.amount,
+      slippage: this.config.slippageTolerance || 1,
+      priorityFee: this.config.priorityFee || 10000,
+      timestamp: new Date(),
+    };
+
+    try {
+      const signature = await executeTrade(this.connection, this.agentKeypair, trade);
+      const fill = this.quoter!.recordFill(trigger, signature);
+
+      if (trigger.side === 'buy') {
+        this.state.totalBuys++;
+      } else {
+        this.state.totalSells++;
+      }
+      this.state.profit += fill.realizedPnl;
+      this.state.lastTrade = {
+        type: trigger.side,
+        price: trigger.price,
+        amount: trigger.amount,
+        timestamp: trade.timestamp,
+        signature,
+      };
+      this.notifyFill('market_making', fill);
+    } catch (error) {
+      console.error(`Quote ${trigger.side} at ${trigger.price} failed:`, error);
+    }
   }
 
   /**
@@ -5,16 +5,19 @@
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { MarketMakerAnalytics } from './types';
+import { GridAnalytics } from './grid';
 import { BirdeyeFetcher } from '@/app/lib/pools/fetchers/birdeye';
 
 /**
  * Generate analytics for token (optimized with Birdeye)
+ * @param grid - Grid strategy fills and PnL, included as-is
  */
 export async function generateAnalytics(
   connection: Connection,
   tokenMint: string,
   windowMinutes: number = 60,
-  birdeyeFetcher?: BirdeyeFetcher
+  birdeyeFetcher?: BirdeyeFetcher,
+  grid?: GridAnalytics
 ): Promise<MarketMakerAnalytics> {
   const priceHistory: Array<{ price: number; timestamp: Date }> = [];
   const now = Date.now();
@@ -114,6 +117,7 @@ export async function generateAnalytics(
     resistanceLevel: findResistanceLevel(prices),
     rsi,
     recommendations,
+    grid,
   };
 }
 
@@ -0,0 +1,359 @@
+/**
+ * Grid Strategy Engine
+ * Virtual limit orders on a fixed price grid. Each level except the top owns one round trip:
+ * buy at its price, then sell the same tokens one level up, then buy again.
+ * Prices are SOL per token; orders fill at their level price.
+ */
+
+import type { MarketMakerConfig } from './types';
+
+export interface GridConfig {
+  levels: number;
+  spacing: number; // Percentage between levels (used when no range is given)
+  range?: { min: number; max: number };
+  orderSize: number; // SOL per buy order
+}
+
+export type GridOrderSide = 'buy' | 'sell';
+
+export interface GridLevel {
+  index: number;
+  price: number;
+  // Order this level's round trip is waiting on: a buy here or a sell at the next level up.
+  // 'idle' levels sit above the price and arm their buy once the price has risen past them.
+  order: GridOrderSide | 'idle' | null; // null for the top level
+  pending: boolean; // Triggered and being executed
+  inventory: number; // Tokens bought at this level, not yet sold
+  costBasis: number; // SOL paid for `inventory`
+  buyFills: number;
+  sellFills: number;
+  realizedPnl: number; // SOL
+}
+
+export interface GridTrigger {
+  levelIndex: number; // Level that owns the order
+  side: GridOrderSide;
+  price: number; // Limit price crossed
+  amount: number; // SOL for buys, tokens for sells
+}
+
+export interface GridFill {
+  levelIndex: number;
+  side: GridOrderSide;
+  price: number;
+  solAmount: number;
+  tokenAmount: number;
+  realizedPnl: number;
+  signature: string;
+  timestamp: string;
+}
+
+export interface GridState {
+  version: number;
+  tokenMint: string;
+  config: GridConfig;
+  levels: GridLevel[];
+  fills: GridFill[]; // Most recent last, capped at MAX_STORED_FILLS
+  lastPrice: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GridAnalytics {
+  levels: Array<Pick<GridLevel, 'index' | 'price' | 'order' | 'inventory' | 'buyFills' | 'sellFills' | 'realizedPnl'>>;
+  totalFills: number;
+  inventory: number; // Tokens
+  costBasis: number; // SOL
+  realizedPnl: number; // SOL
+  unrealizedPnl: number; // SOL at the last price
+  recentFills: GridFill[];
+}
+
+/**
+ * Where grid state is kept between restarts
+ */
+export interface GridStateStorage {
+  load(key: string): Promise<GridState | null>;
+  save(key: string, state: GridState): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const GRID_STATE_VERSION = 1;
+const MAX_STORED_FILLS = 200;
+
+/**
+ * Grid settings of a market maker config, with the agent's defaults
+ */
+export function gridConfigFromMarketMaker(config: MarketMakerConfig): GridConfig {
+  return {
+    levels: config.gridLevels || 10,
+    spacing: config.gridSpacing || 1, // 1%
+    range: config.gridRange,
+    orderSize: config.buyAmount || 0.1, // SOL per buy
+  };
+}
+
+/**
+ * Level prices: `levels` evenly spaced across `range` if given, otherwise geometric steps
+ * of `spacing` percent centred on `centerPrice`.
+ */
+export function computeGridPrices(config: GridConfig, centerPrice: number): number[] {
+  const { levels, spacing, range } = config;
+  if (!Number.isInteger(levels) || levels < 2) {
+    throw new Error('A grid needs at least 2 levels');
+  }
+
+  if (range) {
+    if (!(range.min > 0) || range.max <= range.min) {
+      throw new Error(`Invalid grid range ${range.min}-${range.max}`);
+    }
+    const step = (range.max - range.min) / (levels - 1);
+    return Array.from({ length: levels }, (_, i) => range.min + step * i);
+  }
+
+  if (!(spacing > 0)) {
+    throw new Error('Grid spacing must be positive');
+  }
+  if (!(centerPrice > 0)) {
+    throw new Error('Cannot centre a grid without a current price');
+  }
+  const ratio = 1 + spacing / 100;
+  const lowest = centerPrice / Math.pow(ratio, Math.floor((levels - 1) / 2));
+  return Array.from({ length: levels }, (_, i) => lowest * Math.pow(ratio, i));
+}
+
+export class GridEngine {
+  private constructor(private state: GridState) {}
+
+  /**
+   * New grid around `currentPrice`: buys armed at every level below it, idle above
+   */
+  static create(tokenMint: string, config: GridConfig, currentPrice: number): GridEngine {
+    const prices = computeGridPrices(config, currentPrice);
+    const now = new Date().toISOString();
+    const levels: GridLevel[] = prices.map((price, index) => ({
+      index,
+      price,
+      order: index === prices.length - 1 ? null : price < currentPrice ? 'buy' : 'idle',
+      pending: false,
+      inventory: 0,
+      costBasis: 0,
+      buyFills: 0,
+      sellFills: 0,
+      realizedPnl: 0,
+    }));
+
+    return new GridEngine({
+      version: GRID_STATE_VERSION,
+      tokenMint,
+      config: { ...config },
+      levels,
+      fills: [],
+      lastPrice: currentPrice,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Resume a saved grid. Orders that were mid-execution when it was saved are re-armed,
+   * since their fill was never recorded.
+   */
+  static fromState(state: GridState): GridEngine {
+    if (state.version !== GRID_STATE_VERSION) {
+      throw new Error(`Unsupported grid state version ${state.version}`);
+    }
+    const restored: GridState = {
+      ...state,
+      levels: state.levels.map(level => ({ ...level, pending: false })),
+      fills: [...state.fills],
+    };
+    return new GridEngine(restored);
+  }
+
+  /**
+   * Whether a saved grid was built from the same settings
+   */
+  static matches(state: GridState, tokenMint: string, config: GridConfig): boolean {
+    const saved = state.config;
+    const savedRange = saved.range ? `${saved.range.min}-${saved.range.max}` : '';
+    const range = config.range ? `${config.range.min}-${config.range.max}` : '';
+    return state.tokenMint === tokenMint &&
+      saved.levels === config.levels &&
+      saved.spacing === config.spacing &&
+      saved.orderSize === config.orderSize &&
+      savedRange === range;
+  }
+
+  /**
+   * Apply a price update and return the orders it crossed, now marked pending.
+   * Each must be settled with recordFill or releaseOrder.
+   */
+  onPrice(price: number): GridTrigger[] {
+    const { levels } = this.state;
+    const triggers: GridTrigger[] = [];
+
+    for (const level of levels) {
+      if (level.order === null || level.pending) continue;
+      const upper = levels[level.index + 1].price;
+
+      if (level.order === 'idle' && price >= upper) {
+        level.order = 'buy';
+      } else if (level.order === 'buy' && price <= level.price) {
+        level.pending = true;
+        triggers.push({ levelIndex: level.index, side: 'buy', price: level.price, amount: this.state.config.orderSize });
+      } else if (level.order === 'sell' && price >= upper) {
+        level.pending = true;
+        triggers.push({ levelIndex: level.index, side: 'sell', price: upper, amount: level.inventory });
+      }
+    }
+
+    this.state.lastPrice = price;
+    this.touch();
+    return triggers;
+  }
+
+  /**
+   * Record an executed order and re-arm the opposite side
+   */
+  recordFill(trigger: GridTrigger, signature: string): GridFill {
+    const level = this.getPendingLevel(trigger);
+    const isBuy = trigger.side === 'buy';
+    const solAmount = isBuy ? trigger.amount : trigger.amount * trigger.price;
+    const tokenAmount = isBuy ? trigger.amount / trigger.price : trigger.amount;
+    let realizedPnl = 0;
+
+    if (isBuy) {
+      level.inventory += tokenAmount;
+      level.costBasis += solAmount;
+      level.buyFills++;
+      level.order = 'sell';
+    } else {
+      realizedPnl = solAmount - level.costBasis;
+      level.realizedPnl += realizedPnl;
+      level.inventory = 0;
+      level.costBasis = 0;
+      level.sellFills++;
+      level.order = 'buy';
+    }
+    level.pending = false;
+
+    const fill: GridFill = {
+      levelIndex: level.index,
+      side: trigger.side,
+      price: trigger.price,
+      solAmount,
+      tokenAmount,
+      realizedPnl,
+      signature,
+      timestamp: new Date().toISOString(),
+    };
+    this.state.fills.push(fill);
+    if (this.state.fills.length > MAX_STORED_FILLS) {
+      this.state.fills.splice(0, this.state.fills.length - MAX_STORED_FILLS);
+    }
+    this.touch();
+    return fill;
+  }
+
+  /**
+   * Put a triggered order back on the book after its trade failed
+   */
+  releaseOrder(trigger: GridTrigger): void {
+    this.getPendingLevel(trigger).pending = false;
+    this.touch();
+  }
+
+  /**
+   * Open virtual limit orders, by the level price they sit at
+   */
+  getOpenOrders(): Array<{ levelIndex: number; side: GridOrderSide; price: number; amount: number }> {
+    const { levels, config } = this.state;
+    return levels
+      .filter(level => level.order === 'buy' || level.order === 'sell')
+      .map(level =>
+        level.order === 'buy'
+          ? { levelIndex: level.index, side: 'buy' as const, price: level.price, amount: config.orderSize }
+          : { levelIndex: level.index, side: 'sell' as const, price: levels[level.index + 1].price, amount: level.inventory }
+      );
+  }
+
+  getAnalytics(recentFills: number = 20): GridAnalytics {
+    const { levels, fills, lastPrice } = this.state;
+    const inventory = levels.reduce((sum, level) => sum + level.inventory, 0);
+    const costBasis = levels.reduce((sum, level) => sum + level.costBasis, 0);
+
+    return {
+      levels: levels.map(({ index, price, order, inventory, buyFills, sellFills, realizedPnl }) => ({
+        index, price, order, inventory, buyFills, sellFills, realizedPnl,
+      })),
+      totalFills: levels.reduce((sum, level) => sum + level.buyFills + level.sellFills, 0),
+      inventory,
+      costBasis,
+      realizedPnl: levels.reduce((sum, level) => sum + level.realizedPnl, 0),
+      unrealizedPnl: inventory * lastPrice - costBasis,
+      recentFills: fills.slice(-recentFills),
+    };
+  }
+
+  getState(): GridState {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  private getPendingLevel(trigger: GridTrigger): GridLevel {
+    const level = this.state.levels[trigger.levelIndex];
+    if (!level || !level.pending || level.order !== trigger.side) {
+      throw new Error(`No pending ${trigger.side} order at grid level ${trigger.levelIndex}`);
+    }
+    return level;
+  }
+
+  private touch(): void {
+    this.state.updatedAt = new Date().toISOString();
+  }
+}
+
+/**
+ * LocalStorage-based grid state storage (client-side)
+ */
+export class LocalStorageGridStateStorage implements GridStateStorage {
+  private prefix = 'mm_grid_';
+
+  async load(key: string): Promise<GridState | null> {
+    if (typeof window === 'undefined') return null;
+    const data = localStorage.getItem(this.prefix + key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async save(key: string, state: GridState): Promise<void> {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(this.prefix + key, JSON.stringify(state));
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(this.prefix + key);
+    }
+  }
+}
+
+/**
+ * In-memory grid state storage (server-side or tests)
+ */
+export class MemoryGridStateStorage implements GridStateStorage {
+  private states = new Map<string, string>();
+
+  async load(key: string): Promise<GridState | null> {
+    const data = this.states.get(key);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async save(key: string, state: GridState): Promise<void> {
+    this.states.set(key, JSON.stringify(state));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+}
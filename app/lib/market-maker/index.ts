@@ -5,4 +5,8 @@ export * from './types';
 export * from './agent';
 export * from './analytics';
 export * from './trading';
+export * from './grid';
 
+export * from './quoting';
+
+export * from './trade-log';
@@ -0,0 +1,302 @@
+/**
+ * Inventory-Aware Quoting
+ * Avellaneda-Stoikov style market making with virtual bid/ask quotes around a smoothed fair
+ * price. Quotes widen with volatility and with inventory away from target, and skew so the
+ * book trades back toward the middle of the position limits.
+ * Prices are SOL per token; bid sizes are SOL, ask sizes are tokens.
+ */
+
+import type { MarketMakerConfig } from './types';
+
+export interface QuotingConfig {
+  spread: number; // Base bid-ask spread, percent
+  minSpread: number; // Percent
+  maxSpread: number; // Percent
+  minPosition: number; // Inventory value floor, SOL
+  maxPosition: number; // Inventory value ceiling, SOL
+  orderSize: number; // SOL per quote
+  riskAversion: number; // Avellaneda-Stoikov gamma
+  horizon: number; // Price samples inventory is expected to be held
+  fairPriceSamples: number; // EMA length of the fair price
+  volatilitySamples: number; // Returns used for realized volatility
+  volatilityPauseThreshold: number; // Percent move or volatility per sample that pulls quotes
+  pauseDurationMs: number;
+}
+
+export interface Quote {
+  bid: number | null; // null when the position is at its ceiling
+  ask: number | null; // null when the position is at its floor
+  bidSize: number; // SOL
+  askSize: number; // Tokens
+  fairPrice: number;
+  reservationPrice: number;
+  spread: number; // Percent, ask over bid
+  inventorySkew: number; // -1 at minPosition, 0 at target, 1 at maxPosition
+  volatility: number; // Percent per sample
+  timestamp: Date;
+}
+
+export type QuoteSide = 'buy' | 'sell';
+
+export interface QuoteTrigger {
+  side: QuoteSide;
+  price: number; // Quote price crossed
+  amount: number; // SOL for buys, tokens for sells
+}
+
+export interface QuoteFill {
+  side: QuoteSide;
+  price: number;
+  solAmount: number;
+  tokenAmount: number;
+  realizedPnl: number; // SOL
+  signature: string;
+  timestamp: Date;
+}
+
+export interface InventorySnapshot {
+  tokens: number;
+  value: number; // SOL at the fair price
+  timestamp: Date;
+}
+
+export interface QuotingState {
+  fairPrice: number;
+  volatility: number; // Percent per sample
+  inventory: number; // Tokens
+  costBasis: number; // SOL
+  inventoryValue: number; // SOL at the fair price
+  realizedPnl: number; // SOL
+  paused: boolean;
+  pausedUntil?: Date;
+  pauseReason?: string;
+  quote: Quote | null;
+  quoteHistory: Quote[];
+  fillHistory: QuoteFill[];
+  inventoryHistory: InventorySnapshot[];
+}
+
+const MAX_HISTORY = 200;
+
+// Below this a quote side is not worth a transaction
+const MIN_ORDER_SOL = 0.001;
+
+/**
+ * Quoting settings of a market maker config, with the agent's defaults, for prices
+ * sampled every `intervalMs`
+ */
+export function quotingConfigFromMarketMaker(config: MarketMakerConfig, intervalMs: number): QuotingConfig {
+  const orderSize = config.buyAmount || 0.1;
+  return {
+    spread: config.spread || 0.5, // 0.5%
+    minSpread: config.minSpread || 0.1,
+    maxSpread: config.maxSpread || 5,
+    minPosition: config.minPosition || 0,
+    maxPosition: config.maxPosition || orderSize * 10,
+    orderSize,
+    riskAversion: config.riskAversion || 5,
+    horizon: ((config.quoteHorizon || 10) * 60 * 1000) / intervalMs,
+    fairPriceSamples: Math.max(1, Math.round(60000 / intervalMs)), // ~1 minute
+    volatilitySamples: Math.max(2, Math.round(300000 / intervalMs)), // ~5 minutes
+    volatilityPauseThreshold: config.volatilityPauseThreshold || 3,
+    pauseDurationMs: (config.volatilityPauseMinutes || 5) * 60 * 1000,
+  };
+}
+
+/**
+ * Bid and ask for the given fair price, inventory and per-sample volatility (a fraction).
+ *
+ * The reservation price moves against the inventory by the Avellaneda-Stoikov term
+ * q·γ·σ²·T plus up to half the spread at the limits, so a full book asks near the fair
+ * price and an empty one bids near it. The spread is the base spread plus γ·σ²·T,
+ * widened by up to 2x as |q| grows, then clamped to [minSpread, maxSpread].
+ */
+export function computeQuote(
+  fairPrice: number,
+  inventory: number,
+  volatility: number,
+  config: QuotingConfig,
+  timestamp: Date = new Date()
+): Quote {
+  if (!(fairPrice > 0)) {
+    throw new Error('Cannot quote without a fair price');
+  }
+  if (config.maxPosition < config.minPosition) {
+    throw new Error(`Invalid position limits ${config.minPosition}-${config.maxPosition}`);
+  }
+
+  const value = inventory * fairPrice;
+  const target = (config.minPosition + config.maxPosition) / 2;
+  const halfRange = (config.maxPosition - config.minPosition) / 2;
+  const q = halfRange > 0 ? Math.max(-1, Math.min(1, (value - target) / halfRange)) : 0;
+
+  const riskTerm = config.riskAversion * volatility * volatility * config.horizon;
+  const spread = Math.max(
+    config.minSpread / 100,
+    Math.min(config.maxSpread / 100, (config.spread / 100 + riskTerm) * (1 + Math.abs(q)))
+  );
+  const reservationPrice = fairPrice * (1 - q * (riskTerm + spread / 2));
+  const bid = reservationPrice * (1 - spread / 2);
+  const ask = reservationPrice * (1 + spread / 2);
+
+  const bidSize = Math.min(config.orderSize, config.maxPosition - value);
+  const askSize = Math.min(config.orderSize / ask, (value - config.minPosition) / fairPrice, inventory);
+
+  return {
+    bid: bidSize >= MIN_ORDER_SOL ? bid : null,
+    ask: askSize * ask >= MIN_ORDER_SOL ? ask : null,
+    bidSize: Math.max(0, bidSize),
+    askSize: Math.max(0, askSize),
+    fairPrice,
+    reservationPrice,
+    spread: spread * 100,
+    inventorySkew: q,
+    volatility: volatility * 100,
+    timestamp,
+  };
+}
+
+export class InventoryQuoter {
+  private prices: number[] = [];
+  private fairPrice = 0;
+  private volatility = 0;
+  private inventory: number;
+  private costBasis: number;
+  private realizedPnl = 0;
+  private pausedUntil?: number;
+  private pauseReason?: string;
+  private quote: Quote | null = null;
+  private quoteHistory: Quote[] = [];
+  private fillHistory: QuoteFill[] = [];
+  private inventoryHistory: InventorySnapshot[] = [];
+
+  constructor(private config: QuotingConfig, inventory: number = 0, costBasis: number = 0) {
+    this.inventory = inventory;
+    this.costBasis = costBasis;
+  }
+
+  /**
+   * Apply a price sample and return the quotes it crossed. Quotes are pulled instead when
+   * the sample is a volatility spike, and stay down for `pauseDurationMs`. The book is
+   * requoted at the new fair price either way; settle each trigger with recordFill.
+   */
+  onPrice(price: number, now: Date = new Date()): QuoteTrigger[] {
+    if (!(price > 0)) return [];
+
+    const previous = this.prices[this.prices.length - 1];
+    this.prices.push(price);
+    if (this.prices.length > this.config.volatilitySamples + 1) {
+      this.prices.shift();
+    }
+    const alpha = 2 / (this.config.fairPriceSamples + 1);
+    this.fairPrice = this.fairPrice > 0 ? alpha * price + (1 - alpha) * this.fairPrice : price;
+    this.volatility = realizedVolatility(this.prices);
+
+    const move = previous ? Math.abs(price - previous) / previous : 0;
+    const threshold = this.config.volatilityPauseThreshold / 100;
+    if (move >= threshold || this.volatility >= threshold) {
+      this.pausedUntil = now.getTime() + this.config.pauseDurationMs;
+      this.pauseReason = move >= threshold
+        ? `Price moved ${(move * 100).toFixed(2)}% in one sample`
+        : `Volatility ${(this.volatility * 100).toFixed(2)}% per sample`;
+    }
+
+    const triggers: QuoteTrigger[] = [];
+    if (this.isPaused(now)) {
+      this.quote = null;
+    } else {
+      this.pausedUntil = undefined;
+      this.pauseReason = undefined;
+      if (this.quote?.bid && price <= this.quote.bid) {
+        triggers.push({ side: 'buy', price: this.quote.bid, amount: this.quote.bidSize });
+      }
+      if (this.quote?.ask && price >= this.quote.ask) {
+        triggers.push({ side: 'sell', price: this.quote.ask, amount: this.quote.askSize });
+      }
+      this.requote(now);
+    }
+
+    pushCapped(this.inventoryHistory, { tokens: this.inventory, value: this.inventory * this.fairPrice, timestamp: now });
+    return triggers;
+  }
+
+  /**
+   * Record an executed quote and requote for the new inventory
+   */
+  recordFill(trigger: QuoteTrigger, signature: string, now: Date = new Date()): QuoteFill {
+    const isBuy = trigger.side === 'buy';
+    const solAmount = isBuy ? trigger.amount : trigger.amount * trigger.price;
+    const tokenAmount = isBuy ? trigger.amount / trigger.price : trigger.amount;
+    let realizedPnl = 0;
+
+    if (isBuy) {
+      this.inventory += tokenAmount;
+      this.costBasis += solAmount;
+    } else {
+      const sold = Math.min(tokenAmount, this.inventory);
+      const cost = this.inventory > 0 ? this.costBasis * (sold / this.inventory) : 0;
+      realizedPnl = solAmount - cost;
+      this.inventory -= sold;
+      this.costBasis -= cost;
+      this.realizedPnl += realizedPnl;
+    }
+
+    const fill: QuoteFill = { side: trigger.side, price: trigger.price, solAmount, tokenAmount, realizedPnl, signature, timestamp: now };
+    pushCapped(this.fillHistory, fill);
+    pushCapped(this.inventoryHistory, { tokens: this.inventory, value: this.inventory * this.fairPrice, timestamp: now });
+    if (!this.isPaused(now)) {
+      this.requote(now);
+    }
+    return fill;
+  }
+
+  isPaused(now: Date = new Date()): boolean {
+    return this.pausedUntil !== undefined && now.getTime() < this.pausedUntil;
+  }
+
+  getState(now: Date = new Date()): QuotingState {
+    const paused = this.isPaused(now);
+    return {
+      fairPrice: this.fairPrice,
+      volatility: this.volatility * 100,
+      inventory: this.inventory,
+      costBasis: this.costBasis,
+      inventoryValue: this.inventory * this.fairPrice,
+      realizedPnl: this.realizedPnl,
+      paused,
+      pausedUntil: paused ? new Date(this.pausedUntil!) : undefined,
+      pauseReason: paused ? this.pauseReason : undefined,
+      quote: this.quote,
+      quoteHistory: [...this.quoteHistory],
+      fillHistory: [...this.fillHistory],
+      inventoryHistory: [...this.inventoryHistory],
+    };
+  }
+
+  private requote(now: Date) {
+    this.quote = computeQuote(this.fairPrice, this.inventory, this.volatility, this.config, now);
+    pushCapped(this.quoteHistory, this.quote);
+  }
+}
+
+/**
+ * Standard deviation of simple returns, as a fraction
+ */
+function realizedVolatility(prices: number[]): number {
+  if (prices.length < 3) return 0;
+
+  const returns = [];
+  for (let i = 1; i < prices.length; i++) {
+    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) / returns.length;
+  return Math.sqrt(variance);
+}
+
+function pushCapped<T>(items: T[], item: T) {
+  items.push(item);
+  if (items.length > MAX_HISTORY) {
+    items.splice(0, items.length - MAX_HISTORY);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Market Maker Trade Log
+ * Persists every grid and quote fill per agent wallet for reporting and export
+ */
+
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+import type { MarketMakerAgent } from './agent';
+import { MarketMakerFill } from './types';
+
+const COLLECTION = STORAGE_COLLECTIONS.marketMakerFills;
+
+// Stored dates come back as ISO strings
+function reviveFill(fill: MarketMakerFill): MarketMakerFill {
+  return { ...fill, timestamp: new Date(fill.timestamp) };
+}
+
+export async function recordMarketMakerFill(fill: MarketMakerFill): Promise<void> {
+  await getStorage().transaction(tx => {
+    const fills = tx.get<MarketMakerFill[]>(COLLECTION, fill.agentWallet) || [];
+    fills.push(fill);
+    tx.set(COLLECTION, fill.agentWallet, fills);
+  });
+}
+
+/**
+ * Fills of an agent wallet within [from, to), oldest first
+ */
+export async function listMarketMakerFills(
+  agentWallet: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<MarketMakerFill[]> {
+  const fills = (await getStorage().get<MarketMakerFill[]>(COLLECTION, agentWallet)) || [];
+  return fills
+    .map(reviveFill)
+    .filter(fill => (!range.from || fill.timestamp >= range.from) && (!range.to || fill.timestamp < range.to))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Record every fill of `agent` until the returned function is called
+ */
+export function recordMarketMakerFills(agent: MarketMakerAgent): () => void {
+  return agent.onFill(fill => {
+    recordMarketMakerFill(fill).catch(error => console.error('Failed to record market maker fill:', error));
+  });
+}
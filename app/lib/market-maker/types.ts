@@ -3,6 +3,9 @@
  * On-chain agent with wallet that makes markets based on analytics
  */
 
+import type { GridAnalytics } from './grid';
+import type { QuotingState } from './quoting';
+
 export type TradingStrategy = 'grid' | 'twap' | 'market_making' | 'dca' | 'custom';
 
 export interface MarketMakerConfig {
@@ -17,7 +20,7 @@ export interface MarketMakerConfig {
   // Grid Strategy
   gridLevels?: number; // Number of price levels
   gridSpacing?: number; // Percentage between levels
-  gridRange?: { min: number; max: number }; // Price range
+  gridRange?: { min: number; max: number }; // Price range (SOL per token); overrides gridSpacing
   
   // TWAP Strategy
   twapDuration?: number; // Minutes
@@ -30,6 +33,10 @@ export interface MarketMakerConfig {
   maxSpread?: number; // Maximum spread
   maxPosition?: number; // Maximum position size in SOL
   minPosition?: number; // Minimum position size
+  riskAversion?: number; // Inventory risk aversion (gamma); higher skews and widens quotes faster
+  quoteHorizon?: number; // Minutes inventory is expected to be held
+  volatilityPauseThreshold?: number; // Percentage move per price update that pulls quotes
+  volatilityPauseMinutes?: number; // How long quotes stay pulled after a spike
   
   // DCA Strategy
   dcaInterval?: number; // Minutes between buys
@@ -54,7 +61,7 @@ export interface MarketMakerState {
   agentWallet: string; // Agent wallet address
   totalBuys: number;
   totalSells: number;
-  currentPrice: number;
+  currentPrice: number; // SOL per token
   profit: number; // Total profit in SOL
   positions: {
     tokenBalance: number;
@@ -70,6 +77,7 @@ export interface MarketMakerState {
     signature: string;
   };
   analytics?: MarketMakerAnalytics;
+  quoting?: QuotingState; // Quotes, fills and inventory when the market_making strategy runs
 }
 
 export interface MarketMakerTrade {
@@ -82,6 +90,23 @@ export interface MarketMakerTrade {
   timestamp: Date;
 }
 
+/**
+ * A filled grid or quote order, as reported to fill listeners
+ */
+export interface MarketMakerFill {
+  strategy: 'grid' | 'market_making';
+  agentWallet: string;
+  tokenMint: string;
+  side: 'buy' | 'sell';
+  price: number;
+  solAmount: number;
+  tokenAmount: number;
+  realizedPnl: number; // SOL
+  signature: string;
+  timestamp: Date;
+  levelIndex?: number; // Grid level that filled, for grid fills
+}
+
 export interface MarketMakerAnalytics {
   priceHistory: Array<{ price: number; timestamp: Date }>;
   volume24h: number;
@@ -97,5 +122,6 @@ export interface MarketMakerAnalytics {
     confidence: number; // 0-1
     reason: string;
   };
+  grid?: GridAnalytics; // Fills, inventory and realized PnL per level when the grid strategy runs
 }
 
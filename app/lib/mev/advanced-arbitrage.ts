@@ -289,20 +289,16 @@ export class AdvancedArbitrageEngine {
       await this.jitoManager.calculateOptimalTip(opportunity.netProfit);
 
     if (useFlashLoan && flashLoanParams) {
-      // Create flash loan bundle
+      // Create flash loan bundle; borrow, swaps and repay are one atomic transaction
+      // and createBundle adds the tip
       const flashLoanSequence = await this.flashLoanManager.createFlashLoanArbitrageSequence(
-        flashLoanParams,
+        { ...flashLoanParams, borrower: signer.publicKey },
         [], // Swap instructions - would be built from opportunity.steps
         (await this.jitoManager.getTipAccounts())[0],
-        tipAmount
+        0
       );
 
-      // Convert to bundle format
-      const transactions = [
-        flashLoanSequence.flashLoanTx,
-        ...flashLoanSequence.arbitrageTxs,
-        flashLoanSequence.repayTx,
-      ];
+      const transactions = [flashLoanSequence.transaction];
 
       return this.jitoManager.createBundle(transactions, tipAmount, signer);
     } else {
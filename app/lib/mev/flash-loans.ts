@@ -1,17 +1,23 @@
 // Flash Loan Integration for Zero-Capital Arbitrage
 // Based on Part 6 of the technical analysis document
 
-import { Connection, PublicKey, Transaction, SystemProgram } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from '@solana/spl-token';
-
-// Kamino Lend program addresses
-const KAMINO_LEND_PROGRAM_ID = new PublicKey('KLend2g3cP87fffoy8q1mQqGKjLj1d1M24gM4RdR7Kx'); // Mainnet
-const KAMINO_FLASH_LOAN_PROGRAM_ID = new PublicKey('FLASH1nkw3dXy1vXUJgvFJ3k3qK8K5fJ8K5fJ8K5fJ8K5fJ'); // Placeholder
+import { Connection, PublicKey, Transaction, TransactionInstruction, SystemProgram } from '@solana/web3.js';
+import { createAssociatedTokenAccountIdempotentInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { getLendingProtocol } from '../lending/protocols';
+import {
+  KaminoReserveKeys,
+  createKaminoFlashBorrowInstruction,
+  createKaminoFlashRepayInstruction,
+  fetchKaminoReserve,
+} from '../instructions/encoders/kamino-lend';
+
+const KAMINO_PROTOCOL = getLendingProtocol('kamino')!;
 
 export interface FlashLoanParams {
   tokenMint: PublicKey;
   amount: bigint; // Amount in token's native units (considering decimals)
   borrower: PublicKey; // The account that will repay the loan
+  lendingMarket?: PublicKey; // Kamino main market when unset
 }
 
 export interface FlashLoanResult {
@@ -30,10 +36,11 @@ export interface FlashLoanResult {
 export class KaminoFlashLoanManager {
   private connection: Connection;
   private kaminoProgramId: PublicKey;
+  private reserves = new Map<string, KaminoReserveKeys>();
 
   constructor(connection: Connection) {
     this.connection = connection;
-    this.kaminoProgramId = KAMINO_LEND_PROGRAM_ID;
+    this.kaminoProgramId = KAMINO_PROTOCOL.flashLoanProgramId || KAMINO_PROTOCOL.programId;
   }
 
   /**
@@ -41,120 +48,101 @@ export class KaminoFlashLoanManager {
    * Kamino charges a small fee (typically 0.05-0.1% of loan amount)
    */
   async calculateFlashLoanFee(amount: bigint): Promise<bigint> {
-    // Kamino flash loan fee is typically 0.05% (5 basis points)
-    const FEE_BPS = 5; // 0.05%
-    return (amount * BigInt(FEE_BPS)) / BigInt(10000);
+    return (amount * BigInt(KAMINO_PROTOCOL.flashLoanFeeBps)) / BigInt(10000);
+  }
+
+  /**
+   * Reserve accounts for the loan's mint, fetched once per market and mint
+   */
+  async getReserve(params: FlashLoanParams): Promise<KaminoReserveKeys> {
+    const cacheKey = `${params.lendingMarket?.toString() || 'main'}:${params.tokenMint.toString()}`;
+    let reserve = this.reserves.get(cacheKey);
+    if (!reserve) {
+      reserve = await fetchKaminoReserve(this.connection, this.kaminoProgramId, params.tokenMint, params.lendingMarket);
+      this.reserves.set(cacheKey, reserve);
+    }
+    return reserve;
+  }
+
+  private async getBorrowerTokenAccount(params: FlashLoanParams): Promise<PublicKey> {
+    const reserve = await this.getReserve(params);
+    return getAssociatedTokenAddressSync(params.tokenMint, params.borrower, true, reserve.tokenProgram);
   }
 
   /**
    * Create flash loan instruction
-   * This borrows tokens that must be repaid in the same transaction
+   * This borrows tokens into the borrower's associated token account; they must be repaid
+   * in the same transaction by the instruction from createRepayInstruction
    */
-  async createFlashLoanInstruction(params: FlashLoanParams): Promise<Transaction> {
-    const { tokenMint, amount, borrower } = params;
-
-    // Get associated token accounts
-    const borrowerTokenAccount = await getAssociatedTokenAddress(tokenMint, borrower);
-    
-    // In production, this would use Kamino's actual program interface
-    // This is a simplified version showing the structure
-    
-    const transaction = new Transaction();
-
-    // Flash loan instruction structure (simplified)
-    // Actual implementation would use Anchor or direct program calls
-    // Instruction format:
-    // - Program: Kamino Lend Program
-    // - Accounts: 
-    //   - Source liquidity pool
-    //   - Borrower token account (destination)
-    //   - Borrower authority
-    //   - Token mint
-    //   - Token program
-    // - Data: amount, fee calculation
-
-    // Placeholder: In production, construct actual Kamino flash loan instruction
-    // using @coral-xyz/anchor or direct program invocation
-    
-    return transaction;
+  async createFlashLoanInstruction(params: FlashLoanParams): Promise<TransactionInstruction> {
+    const reserve = await this.getReserve(params);
+    const destination = await this.getBorrowerTokenAccount(params);
+    return createKaminoFlashBorrowInstruction(reserve, params.borrower, destination, params.amount);
   }
 
   /**
    * Create flash loan repayment instruction
-   * Must be called in the same transaction block as the loan
+   * Kamino repays the borrowed amount plus its fee; `borrowInstructionIndex` is the position
+   * of the borrow instruction in the same transaction
    */
-  async createRepayInstruction(
-    params: FlashLoanParams,
-    repayAmount: bigint // loanAmount + fee
-  ): Promise<Transaction> {
-    const { tokenMint, borrower } = params;
-
-    const transaction = new Transaction();
-
-    // Repayment instruction structure
-    // - Program: Kamino Lend Program
-    // - Accounts:
-    //   - Borrower token account (source)
-    //   - Destination liquidity pool
-    //   - Borrower authority
-    //   - Token mint
-    //   - Token program
-    // - Data: repayAmount
-
-    // Placeholder: In production, construct actual Kamino repay instruction
-
-    return transaction;
+  async createRepayInstruction(params: FlashLoanParams, borrowInstructionIndex: number): Promise<TransactionInstruction> {
+    const reserve = await this.getReserve(params);
+    const source = await this.getBorrowerTokenAccount(params);
+    return createKaminoFlashRepayInstruction(reserve, params.borrower, source, params.amount, borrowInstructionIndex);
   }
 
   /**
-   * Create complete flash loan arbitrage transaction sequence
-   * Implements the blueprint from Part 6:
+   * Create complete flash loan arbitrage transaction
+   * Implements the blueprint from Part 6. Borrow and repay must share one transaction:
    * 1. Flash Borrow
    * 2. Execute Arbitrage Swaps
    * 3. Flash Repay
-   * 4. Tip Jito
+   * 4. Tip Jito (skipped when tipAmount is 0, e.g. when the bundle adds the tip)
    */
   async createFlashLoanArbitrageSequence(
     loanParams: FlashLoanParams,
-    arbitrageInstructions: any[], // DEX swap instructions
+    arbitrageInstructions: TransactionInstruction[], // DEX swap instructions
     tipAccount: PublicKey,
     tipAmount: number
   ): Promise<{
-    flashLoanTx: Transaction;
-    arbitrageTxs: Transaction[];
-    repayTx: Transaction;
+    transaction: Transaction;
     totalRepayAmount: bigint;
   }> {
     // Calculate fee
     const fee = await this.calculateFlashLoanFee(loanParams.amount);
     const totalRepayAmount = loanParams.amount + fee;
 
-    // Transaction 1: Flash loan
-    const flashLoanTx = await this.createFlashLoanInstruction(loanParams);
-
-    // Transaction 2-N: Arbitrage swaps
-    const arbitrageTxs = arbitrageInstructions.map(instruction => {
-      const tx = new Transaction();
-      tx.add(instruction);
-      return tx;
-    });
-
-    // Last transaction: Repay + Tip
-    const repayTx = await this.createRepayInstruction(loanParams, totalRepayAmount);
-    
-    // Add tip instruction
-    repayTx.add(
-      SystemProgram.transfer({
-        fromPubkey: loanParams.borrower,
-        toPubkey: tipAccount,
-        lamports: tipAmount,
-      })
+    const reserve = await this.getReserve(loanParams);
+    const tokenAccount = await this.getBorrowerTokenAccount(loanParams);
+    const transaction = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        loanParams.borrower,
+        tokenAccount,
+        loanParams.borrower,
+        loanParams.tokenMint,
+        reserve.tokenProgram
+      )
     );
 
+    const borrowIndex = transaction.instructions.length;
+    transaction.add(await this.createFlashLoanInstruction(loanParams));
+    if (arbitrageInstructions.length > 0) {
+      transaction.add(...arbitrageInstructions);
+    }
+    transaction.add(await this.createRepayInstruction(loanParams, borrowIndex));
+
+    if (tipAmount > 0) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: loanParams.borrower,
+          toPubkey: tipAccount,
+          lamports: tipAmount,
+        })
+      );
+    }
+
     return {
-      flashLoanTx,
-      arbitrageTxs,
-      repayTx,
+      transaction,
       totalRepayAmount,
     };
   }
@@ -191,25 +179,18 @@ export class KaminoFlashLoanManager {
 }
 
 /**
- * Helper: Check if a token supports flash loans on Kamino
+ * Helper: Check if a token supports flash loans on Kamino (has a reserve in the main market)
  */
 export async function checkFlashLoanSupport(
   connection: Connection,
   tokenMint: PublicKey
 ): Promise<boolean> {
   try {
-    // In production, query Kamino's liquidity pools to check if token is available
-    // For now, return true for common tokens (USDC, USDT, SOL)
-    const supportedMints = [
-      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
-      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
-      'So11111111111111111111111111111111111111112', // SOL (wSOL)
-    ];
-    
-    return supportedMints.includes(tokenMint.toString());
+    const programId = KAMINO_PROTOCOL.flashLoanProgramId || KAMINO_PROTOCOL.programId;
+    await fetchKaminoReserve(connection, programId, tokenMint);
+    return true;
   } catch (error) {
     console.error('Error checking flash loan support:', error);
     return false;
   }
 }
-
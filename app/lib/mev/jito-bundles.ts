@@ -19,6 +19,7 @@ export interface JitoBundle {
   transactions: (Transaction | VersionedTransaction)[];
   tipAccount: PublicKey;
   tipAmount: number; // in lamports
+  payer?: PublicKey; // Fee payer for legacy transactions that do not set one
 }
 
 export interface BundleStatus {
@@ -28,12 +29,82 @@ export interface BundleStatus {
   error?: string;
 }
 
+export interface AccountBalanceChange {
+  address: string;
+  role: 'signer' | 'tip';
+  preLamports: number;
+  postLamports: number;
+  delta: number; // lamports
+}
+
+export interface BundleTransactionSimulation {
+  index: number;
+  success: boolean;
+  error?: string;
+  logs: string[];
+  unitsConsumed: number;
+  balanceChanges: AccountBalanceChange[];
+}
+
 export interface BundleSimulationResult {
   success: boolean;
   error?: string;
+  failedTransactionIndex?: number;
   logs?: string[];
-  unitsConsumed?: number;
-  profit?: number; // Estimated profit if successful
+  unitsConsumed?: number; // Total across the bundle
+  transactions?: BundleTransactionSimulation[];
+  balanceChanges?: AccountBalanceChange[]; // Before the first to after the last transaction
+  profit?: number; // SOL: net change of all signer balances, after fees and tip
+}
+
+// Per-transaction compute limit
+const MAX_TRANSACTION_COMPUTE_UNITS = 1_400_000;
+
+// JSON-RPC error code for an unsupported method
+const METHOD_NOT_FOUND = -32601;
+
+interface SimulatedAccount {
+  lamports: number;
+}
+
+// simulateBundle response (Jito-Solana RPC)
+interface SimulateBundleTransactionResult {
+  err: unknown;
+  logs: string[] | null;
+  preExecutionAccounts: Array<SimulatedAccount | null> | null;
+  postExecutionAccounts: Array<SimulatedAccount | null> | null;
+  unitsConsumed: number | null;
+}
+
+interface SimulateBundleValue {
+  summary: 'succeeded' | { failed: { error: unknown; tx_signature: string | null } };
+  transactionResults: SimulateBundleTransactionResult[];
+}
+
+interface TrackedAccount {
+  address: string;
+  role: AccountBalanceChange['role'];
+}
+
+function describeError(error: unknown): string {
+  return typeof error === 'string' ? error : JSON.stringify(error);
+}
+
+function balanceChanges(
+  tracked: TrackedAccount[],
+  pre: Array<SimulatedAccount | null> | null,
+  post: Array<SimulatedAccount | null> | null
+): AccountBalanceChange[] {
+  return tracked.map((account, i) => {
+    const preLamports = pre?.[i]?.lamports ?? 0;
+    const postLamports = post?.[i]?.lamports ?? preLamports;
+    return { ...account, preLamports, postLamports, delta: postLamports - preLamports };
+  });
+}
+
+function signerAddresses(tx: VersionedTransaction): string[] {
+  const { header, staticAccountKeys } = tx.message;
+  return staticAccountKeys.slice(0, header.numRequiredSignatures).map(key => key.toString());
 }
 
 /**
@@ -43,11 +114,17 @@ export interface BundleSimulationResult {
 export class JitoBundleManager {
   private connection: Connection;
   private jitoRpcUrl: string;
+  private simulationRpcUrl: string;
   private tipAccounts: PublicKey[] = [];
 
-  constructor(connection: Connection, jitoRpcUrl?: string) {
+  /**
+   * @param simulationRpcUrl RPC that serves Jito `simulateBundle` (defaults to
+   * JITO_SIMULATION_RPC_URL, then the connection's endpoint)
+   */
+  constructor(connection: Connection, jitoRpcUrl?: string, simulationRpcUrl?: string) {
     this.connection = connection;
     this.jitoRpcUrl = jitoRpcUrl || JITO_BLOCK_ENGINE_URLS[0];
+    this.simulationRpcUrl = simulationRpcUrl || process.env.JITO_SIMULATION_RPC_URL || connection.rpcEndpoint;
   }
 
   /**
@@ -114,75 +191,194 @@ export class JitoBundleManager {
       transactions,
       tipAccount,
       tipAmount,
+      payer: signer.publicKey,
     };
   }
 
   /**
    * Simulate a bundle before submission
-   * This is a "dry-run" that checks for on-chain errors
+   * Transactions run in order against the state left by the previous ones (Jito
+   * `simulateBundle`), so e.g. a flash loan repay sees the borrowed funds. Reports
+   * compute units per transaction, balance changes of every signer and the tip
+   * account, and the net profit of the signers.
    */
   async simulateBundle(bundle: JitoBundle): Promise<BundleSimulationResult> {
     try {
-      // Simulate each transaction in sequence
-      for (let i = 0; i < bundle.transactions.length; i++) {
-        const tx = bundle.transactions[i];
-        
-        // Get recent blockhash
-        const { blockhash } = await this.connection.getLatestBlockhash('confirmed');
-        
-        // Set blockhash if not already set
-        if (tx instanceof Transaction) {
-          tx.recentBlockhash = blockhash;
-          tx.feePayer = tx.feePayer || (tx as any).signers?.[0]?.publicKey;
-        }
-
-        // Simulate transaction
-        let simulation;
-        if (tx instanceof Transaction) {
-          simulation = await this.connection.simulateTransaction(tx, undefined, {
-            replaceRecentBlockhash: true,
-            sigVerify: false,
-          } as any);
-        } else {
-          // VersionedTransaction - different overload
-          simulation = await this.connection.simulateTransaction(tx, {
-            replaceRecentBlockhash: true,
-            sigVerify: false,
-          });
+      const transactions = await this.prepareForSimulation(bundle);
+
+      const tracked: TrackedAccount[] = [];
+      const seen = new Set<string>();
+      transactions.forEach(tx => signerAddresses(tx).forEach(address => {
+        if (!seen.has(address)) {
+          seen.add(address);
+          tracked.push({ address, role: 'signer' });
         }
+      }));
+      const tipAddress = bundle.tipAccount.toString();
+      if (!seen.has(tipAddress)) {
+        tracked.push({ address: tipAddress, role: 'tip' });
+      }
 
-        if (simulation.value.err) {
+      let value = await this.rpcSimulateBundle(transactions, tracked.map(account => account.address));
+      if (!value) {
+        // Without bundle simulation only a single transaction can be simulated faithfully
+        if (transactions.length > 1) {
           return {
             success: false,
-            error: `Transaction ${i} failed: ${JSON.stringify(simulation.value.err)}`,
-            logs: simulation.value.logs || undefined,
-            unitsConsumed: simulation.value.unitsConsumed || undefined,
+            error: 'RPC does not support simulateBundle; multi-transaction bundles cannot be simulated with state carry-over',
           };
         }
+        value = await this.simulateSingleTransaction(transactions[0], tracked);
+      }
 
-        // Check if we have enough compute units
-        if (simulation.value.unitsConsumed && simulation.value.unitsConsumed > 1_400_000) {
-          return {
-            success: false,
-            error: `Transaction ${i} exceeds compute unit limit: ${simulation.value.unitsConsumed}`,
-            unitsConsumed: simulation.value.unitsConsumed,
-          };
-        }
+      return this.toSimulationResult(value, tracked);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Simulation failed',
+      };
+    }
+  }
+
+  /**
+   * Unsigned versioned copies of the bundle's transactions with blockhash and fee payer set
+   */
+  private async prepareForSimulation(bundle: JitoBundle): Promise<VersionedTransaction[]> {
+    const needsBlockhash = bundle.transactions.some(tx => tx instanceof Transaction && !tx.recentBlockhash);
+    const blockhash = needsBlockhash
+      ? (await this.connection.getLatestBlockhash('confirmed')).blockhash
+      : undefined;
+
+    return bundle.transactions.map((tx, i) => {
+      if (tx instanceof VersionedTransaction) return tx;
+
+      tx.recentBlockhash = tx.recentBlockhash || blockhash;
+      tx.feePayer = tx.feePayer || bundle.payer;
+      if (!tx.feePayer) {
+        throw new Error(`Transaction ${i} has no fee payer`);
       }
+      return new VersionedTransaction(tx.compileMessage());
+    });
+  }
+
+  /**
+   * Run Jito `simulateBundle`; null if the RPC does not support it
+   */
+  private async rpcSimulateBundle(
+    transactions: VersionedTransaction[],
+    addresses: string[]
+  ): Promise<SimulateBundleValue | null> {
+    const accountsConfig = transactions.map(() => ({ addresses, encoding: 'base64' }));
+    const response = await fetch(this.simulationRpcUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'simulateBundle',
+        params: [
+          { encodedTransactions: transactions.map(tx => Buffer.from(tx.serialize()).toString('base64')) },
+          {
+            transactionEncoding: 'base64',
+            skipSigVerify: true,
+            replaceRecentBlockhash: true,
+            preExecutionAccountsConfigs: accountsConfig,
+            postExecutionAccountsConfigs: accountsConfig,
+          },
+        ],
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (data?.error?.code === METHOD_NOT_FOUND || (!data && response.status === 404)) {
+      return null;
+    }
+    if (!response.ok || data?.error || !data?.result?.value) {
+      throw new Error(`simulateBundle failed: ${data?.error?.message || response.statusText}`);
+    }
+    return data.result.value;
+  }
 
+  /**
+   * Standard simulation of a one-transaction bundle, shaped like a simulateBundle result
+   */
+  private async simulateSingleTransaction(
+    tx: VersionedTransaction,
+    tracked: TrackedAccount[]
+  ): Promise<SimulateBundleValue> {
+    const addresses = tracked.map(account => new PublicKey(account.address));
+    const pre = await this.connection.getMultipleAccountsInfo(addresses);
+    const simulation = await this.connection.simulateTransaction(tx, {
+      replaceRecentBlockhash: true,
+      sigVerify: false,
+      accounts: { encoding: 'base64', addresses: tracked.map(account => account.address) },
+    });
+
+    const result: SimulateBundleTransactionResult = {
+      err: simulation.value.err,
+      logs: simulation.value.logs,
+      preExecutionAccounts: pre.map(account => (account ? { lamports: account.lamports } : null)),
+      postExecutionAccounts: simulation.value.accounts?.map(account => (account ? { lamports: account.lamports } : null)) ?? null,
+      unitsConsumed: simulation.value.unitsConsumed ?? null,
+    };
+    return {
+      summary: result.err ? { failed: { error: result.err, tx_signature: null } } : 'succeeded',
+      transactionResults: [result],
+    };
+  }
+
+  private toSimulationResult(value: SimulateBundleValue, tracked: TrackedAccount[]): BundleSimulationResult {
+    const transactions: BundleTransactionSimulation[] = value.transactionResults.map((result, index) => ({
+      index,
+      success: !result.err,
+      error: result.err ? describeError(result.err) : undefined,
+      logs: result.logs || [],
+      unitsConsumed: result.unitsConsumed || 0,
+      balanceChanges: balanceChanges(tracked, result.preExecutionAccounts, result.postExecutionAccounts),
+    }));
+    const unitsConsumed = transactions.reduce((sum, tx) => sum + tx.unitsConsumed, 0);
+
+    if (value.summary !== 'succeeded') {
+      // The failing transaction may not be among the results
+      const failed = transactions.find(tx => !tx.success);
+      const index = failed ? failed.index : transactions.length;
       return {
-        success: true,
-        unitsConsumed: bundle.transactions.reduce((sum, tx) => {
-          // Estimate compute units (simplified)
-          return sum + 200_000; // Rough estimate per transaction
-        }, 0),
+        success: false,
+        error: `Transaction ${index} failed: ${failed?.error || describeError(value.summary.failed.error)}`,
+        failedTransactionIndex: index,
+        logs: failed?.logs,
+        unitsConsumed,
+        transactions,
       };
-    } catch (error: any) {
+    }
+
+    const overLimit = transactions.find(tx => tx.unitsConsumed > MAX_TRANSACTION_COMPUTE_UNITS);
+    if (overLimit) {
       return {
         success: false,
-        error: error.message || 'Simulation failed',
+        error: `Transaction ${overLimit.index} exceeds compute unit limit: ${overLimit.unitsConsumed}`,
+        failedTransactionIndex: overLimit.index,
+        unitsConsumed,
+        transactions,
       };
     }
+
+    const first = value.transactionResults[0];
+    const last = value.transactionResults[value.transactionResults.length - 1];
+    const changes = balanceChanges(tracked, first?.preExecutionAccounts ?? null, last?.postExecutionAccounts ?? null);
+    const signerDelta = changes
+      .filter(change => change.role === 'signer')
+      .reduce((sum, change) => sum + change.delta, 0);
+
+    return {
+      success: true,
+      unitsConsumed,
+      transactions,
+      balanceChanges: changes,
+      profit: signerDelta / 1e9,
+    };
   }
 
   /**
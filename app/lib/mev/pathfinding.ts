@@ -3,6 +3,7 @@
 // Handles dynamic slippage and fee constraints
 
 import { PoolData, TokenInfo, ArbitragePath, ArbitrageStep } from '../pools/types';
+import { NegativeCycleDetector } from '../pools/negative-cycle-detector';
 
 export interface PathfindingConfig {
   maxHops: number;
@@ -46,11 +47,8 @@ export class ArbitragePathfinder {
   findProfitablePaths(startToken: TokenInfo): PathfindingResult[] {
     const results: PathfindingResult[] = [];
     
-    // Build token graph
-    const graph = this.buildTokenGraph();
-    
     // Find cycles starting from startToken
-    const cycles = this.findCycles(startToken.mint, graph, this.config.maxHops);
+    const cycles = this.findCycles(startToken.mint, this.config.maxHops);
     
     // Evaluate each cycle for profitability
     for (const cycle of cycles) {
@@ -65,84 +63,16 @@ export class ArbitragePathfinder {
   }
 
   /**
-   * Build token connection graph
-   * Nodes = tokens, Edges = pools
-   */
-  private buildTokenGraph(): Map<string, Map<string, PoolData[]>> {
-    const graph = new Map<string, Map<string, PoolData[]>>();
-
-    for (const pool of this.pools) {
-      if (pool.reserves.tokenA === BigInt(0) || pool.reserves.tokenB === BigInt(0)) {
-        continue;
-      }
-
-      const tokenA = pool.tokenA.mint;
-      const tokenB = pool.tokenB.mint;
-
-      // Add edge A -> B
-      if (!graph.has(tokenA)) {
-        graph.set(tokenA, new Map());
-      }
-      const connectionsA = graph.get(tokenA)!;
-      if (!connectionsA.has(tokenB)) {
-        connectionsA.set(tokenB, []);
-      }
-      connectionsA.get(tokenB)!.push(pool);
-
-      // Add edge B -> A (bidirectional)
-      if (!graph.has(tokenB)) {
-        graph.set(tokenB, new Map());
-      }
-      const connectionsB = graph.get(tokenB)!;
-      if (!connectionsB.has(tokenA)) {
-        connectionsB.set(tokenA, []);
-      }
-      connectionsB.get(tokenA)!.push(pool);
-    }
-
-    return graph;
-  }
-
-  /**
-   * Find cycles using DFS with cycle detection
+   * Find profitable cycles through startToken via negative-cycle search on log prices,
+   * each returned as its pools in trade order starting at startToken
    */
-  private findCycles(
-    startToken: string,
-    graph: Map<string, Map<string, PoolData[]>>,
-    maxHops: number
-  ): PoolData[][] {
-    const cycles: PoolData[][] = [];
-    const visited = new Set<string>();
-    const path: PoolData[] = [];
-
-    const dfs = (currentToken: string, targetToken: string, hops: number) => {
-      if (hops > maxHops) return;
-      
-      // Found a cycle
-      if (hops > 0 && currentToken === targetToken) {
-        cycles.push([...path]);
-        return;
-      }
-
-      if (visited.has(currentToken)) return;
-      visited.add(currentToken);
-
-      const connections = graph.get(currentToken);
-      if (connections) {
-        for (const [nextToken, pools] of Array.from(connections.entries())) {
-          for (const pool of pools) {
-            path.push(pool);
-            dfs(nextToken, targetToken, hops + 1);
-            path.pop();
-          }
-        }
-      }
-
-      visited.delete(currentToken);
-    };
+  private findCycles(startToken: string, maxHops: number): PoolData[][] {
+    const detector = new NegativeCycleDetector(this.pools, maxHops);
 
-    dfs(startToken, startToken, 0);
-    return cycles;
+    return detector.findCyclesThrough(startToken, maxHops).map(cycle => {
+      const offset = Math.max(0, cycle.tokens.findIndex(token => token.mint === startToken));
+      return [...cycle.pools.slice(offset), ...cycle.pools.slice(0, offset)];
+    });
   }
 
   /**
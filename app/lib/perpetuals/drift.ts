@@ -0,0 +1,150 @@
+// Drift v2 PerpMarket accounts and the market data derived from them
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshLayout, Decoded } from '../pools/layouts/borsh';
+import { openInterestSplit, PerpMarketMetrics } from './types';
+
+export const DRIFT_PROGRAM_ID = 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH';
+
+// Anchor discriminator: sha256("account:PerpMarket")[0..8]
+const PERP_MARKET_DISCRIMINATOR = [10, 223, 12, 44, 107, 245, 55, 247];
+
+// Drift fixed-point precisions
+const PRICE_PRECISION = 1e6;
+const PEG_PRECISION = 1e6;
+const BASE_PRECISION = 1e9;
+const QUOTE_PRECISION = 1e6;
+const FUNDING_RATE_PRECISION = 1e9;
+const SECONDS_PER_HOUR = 3600;
+
+// Perp market indexes of the main markets
+export const DRIFT_PERP_MARKET_INDEXES: Record<string, number> = {
+  'SOL-PERP': 0,
+  'BTC-PERP': 1,
+  'ETH-PERP': 2,
+};
+
+// PerpMarket (zero-copy, 1216 bytes). Only the fields used for market data are named;
+// the rest are skipped as byte runs in on-chain order.
+export const DRIFT_PERP_MARKET_LAYOUT = new BorshLayout('DriftPerpMarket', [
+  ['pubkey', 'pubkey'],
+  // AMM (936 bytes)
+  ['oracle', 'pubkey'],
+  ['lastOraclePrice', 'i64'],
+  ['lastOracleConf', 'u64'],
+  ['lastOracleDelay', 'i64'],
+  ['lastOraclePriceTwap', 'i64'],
+  ['lastOraclePriceTwap5min', 'i64'],
+  ['lastOraclePriceTwapTs', 'i64'],
+  ['amountsPerLp', 32],
+  ['feePool', 24],
+  ['baseAssetReserve', 'u128'],
+  ['quoteAssetReserve', 'u128'],
+  ['reserveBounds', 64], // concentration coef, min/max base reserve, sqrt k
+  ['pegMultiplier', 'u128'],
+  ['terminalQuoteAssetReserve', 'u128'],
+  ['baseAssetAmountLong', 'i128'],
+  ['baseAssetAmountShort', 'i128'],
+  ['baseAssetAmountWithAmm', 'i128'],
+  ['baseAssetAmountWithUnsettledLp', 'i128'],
+  ['maxOpenInterest', 'u128'],
+  ['quoteAmounts', 96], // quote amount, entry and break-even amounts, user LP shares
+  ['lastFundingRate', 'i64'],
+  ['lastFundingRateLong', 'i64'],
+  ['lastFundingRateShort', 'i64'],
+  ['last24hAvgFundingRate', 'i64'],
+  ['feeTotals', 96],
+  ['cumulativeFundingRateLong', 'i128'],
+  ['cumulativeFundingRateShort', 'i128'],
+  ['socialLossAndSpreadReserves', 80],
+  ['lastOracleNormalisedPrice', 'i64'],
+  ['lastOracleReservePriceSpreadPct', 'i64'],
+  ['lastBidPriceTwap', 'u64'],
+  ['lastAskPriceTwap', 'u64'],
+  ['lastMarkPriceTwap', 'u64'],
+  ['lastMarkPriceTwap5min', 'u64'],
+  ['lastUpdateSlot', 'u64'],
+  ['lastOracleConfPct', 'u64'],
+  ['netRevenueSinceLastFunding', 'i64'],
+  ['lastFundingRateTs', 'i64'],
+  ['fundingPeriod', 'i64'],
+  ['orderStepSize', 'u64'],
+  ['orderTickSize', 'u64'],
+  ['minOrderSize', 'u64'],
+  ['maxPositionSize', 'u64'],
+  ['volume24h', 'u64'],
+  ['ammTail', 128],
+  // PerpMarket
+  ['pnlPool', 24],
+  ['name', 32],
+  ['insuranceClaim', 40],
+  ['recordIds', 48], // max imbalance, expiry, next fill/funding/curve record ids
+  ['marginAndFees', 40],
+  ['marketIndex', 'u16'],
+  ['status', 'u8'],
+  ['contractType', 'u8'],
+  ['contractTier', 'u8'],
+  ['padding', 51],
+] as const, PERP_MARKET_DISCRIMINATOR);
+
+export type DriftPerpMarket = Decoded<typeof DRIFT_PERP_MARKET_LAYOUT.fields> & { marketName: string };
+
+export function decodeDriftPerpMarket(data: Buffer): DriftPerpMarket {
+  const market = DRIFT_PERP_MARKET_LAYOUT.decode(data);
+  const nameOffset = DRIFT_PERP_MARKET_LAYOUT.offsetOf('name');
+  const marketName = data.subarray(nameOffset, nameOffset + 32).toString('utf8').replace(/[\0\s]+$/, '');
+  return { ...market, marketName };
+}
+
+/**
+ * PerpMarket PDA: ["perp_market", market_index as little-endian u16]
+ */
+export function deriveDriftPerpMarketAddress(marketIndex: number): PublicKey {
+  const indexBuffer = Buffer.alloc(2);
+  indexBuffer.writeUInt16LE(marketIndex);
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('perp_market'), indexBuffer],
+    new PublicKey(DRIFT_PROGRAM_ID)
+  );
+  return address;
+}
+
+/**
+ * AMM reserve price: quote reserve / base reserve scaled by the peg
+ */
+export function driftReservePrice(market: DriftPerpMarket): number {
+  if (market.baseAssetReserve === BigInt(0)) return 0;
+  const scaled = market.quoteAssetReserve * market.pegMultiplier * BigInt(PRICE_PRECISION) /
+    (market.baseAssetReserve * BigInt(PEG_PRECISION));
+  return Number(scaled) / PRICE_PRECISION;
+}
+
+/**
+ * Market data from a PerpMarket. `oraclePrice` (e.g. from the Pyth account at
+ * market.oracle) takes precedence over the oracle price cached in the AMM.
+ */
+export function driftPerpMetrics(market: DriftPerpMarket, oraclePrice?: number): PerpMarketMetrics {
+  const indexPrice = oraclePrice ?? Number(market.lastOraclePrice) / PRICE_PRECISION;
+  const oracleTwap = Number(market.lastOraclePriceTwap) / PRICE_PRECISION || indexPrice;
+
+  // last_funding_rate is quote per base unit for one funding period
+  const periodSeconds = Number(market.fundingPeriod) || SECONDS_PER_HOUR;
+  const fundingPerPeriod = oracleTwap > 0
+    ? Number(market.lastFundingRate) / FUNDING_RATE_PRECISION / oracleTwap
+    : 0;
+
+  const longBase = Number(market.baseAssetAmountLong) / BASE_PRECISION;
+  const shortBase = Math.abs(Number(market.baseAssetAmountShort)) / BASE_PRECISION;
+  const longOpenInterest = longBase * indexPrice;
+  const shortOpenInterest = shortBase * indexPrice;
+
+  return {
+    indexPrice,
+    markPrice: driftReservePrice(market),
+    fundingRate: fundingPerPeriod * SECONDS_PER_HOUR / periodSeconds,
+    longOpenInterest,
+    shortOpenInterest,
+    ...openInterestSplit(longOpenInterest, shortOpenInterest),
+    volume24h: Number(market.volume24h) / QUOTE_PRECISION,
+  };
+}
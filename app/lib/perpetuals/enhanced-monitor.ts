@@ -1,20 +1,38 @@
 // Enhanced perpetual contracts monitoring
 // Detects arbitrage opportunities between perpetuals and spot markets
 
-import { Connection } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  decodeDriftPerpMarket,
+  deriveDriftPerpMarketAddress,
+  driftPerpMetrics,
+  DRIFT_PERP_MARKET_INDEXES,
+} from './drift';
+import { decodeJupiterCustody, jupiterPerpMetrics, JUPITER_PERPS_CUSTODIES } from './jupiter';
+import { decodePythPrice, isPythPriceAccount, PythPrice } from './pyth';
+
+export const PERPETUAL_PROTOCOLS = ['drift', 'jupiter'] as const;
 
 export interface PerpetualContract {
-  protocol: 'drift' | 'mango' | 'zetamarkets' | '01';
+  protocol: typeof PERPETUAL_PROTOCOLS[number];
   market: string;
+  address: string; // Drift PerpMarket or Jupiter Perps custody account
   indexPrice: number;
   markPrice: number;
   fundingRate: number; // per hour
-  openInterest: number;
+  openInterest: number; // USD
+  longOpenInterest: number; // USD
+  shortOpenInterest: number; // USD
   longShortRatio: number;
+  skew: number; // (long - short) / (long + short)
   volume24h: number;
   lastUpdate: Date;
 }
 
+export function isPerpetualProtocol(value: unknown): value is PerpetualContract['protocol'] {
+  return typeof value === 'string' && (PERPETUAL_PROTOCOLS as readonly string[]).includes(value);
+}
+
 export interface PerpetualArbitrage {
   type: 'premium' | 'discount' | 'funding_rate';
   protocol: string;
@@ -38,31 +56,73 @@ export class EnhancedPerpetualMonitor {
   }
 
   /**
-   * Monitor perpetual contract
+   * Read a market's state from chain. `market` is a known symbol such as
+   * 'SOL-PERP' or the market's account address. Returns null if the market
+   * account does not exist.
    */
   async monitorContract(
     protocol: PerpetualContract['protocol'],
     market: string
   ): Promise<PerpetualContract | null> {
-    // In production, this would fetch from protocol APIs
-    // For now, return placeholder
-    
-    const contract: PerpetualContract = {
-      protocol,
-      market,
-      indexPrice: 0, // Would fetch from oracle
-      markPrice: 0, // Would fetch from protocol
-      fundingRate: 0, // Would fetch from protocol
-      openInterest: 0,
-      longShortRatio: 0.5,
-      volume24h: 0,
-      lastUpdate: new Date(),
-    };
+    const address = this.resolveMarketAddress(protocol, market);
+    if (!address) return null;
+
+    const account = await this.connection.getAccountInfo(address);
+    if (!account) return null;
+
+    let contract: PerpetualContract;
+    if (protocol === 'drift') {
+      const perpMarket = decodeDriftPerpMarket(account.data);
+      const oracle = await this.fetchPythPrice(perpMarket.oracle);
+      contract = {
+        protocol,
+        market: perpMarket.marketName || market,
+        address: address.toString(),
+        ...driftPerpMetrics(perpMarket, oracle?.price),
+        lastUpdate: oracle?.publishTime ?? new Date(Number(perpMarket.lastOraclePriceTwapTs) * 1000),
+      };
+    } else {
+      const custody = decodeJupiterCustody(account.data);
+      const oracle = await this.fetchPythPrice(custody.oracleAccount);
+      if (!oracle) {
+        throw new Error(`Jupiter Perps oracle ${custody.oracleAccount.toString()} is not a Pyth price account`);
+      }
+      contract = {
+        protocol,
+        market,
+        address: address.toString(),
+        ...jupiterPerpMetrics(custody, oracle.price),
+        lastUpdate: oracle.publishTime,
+      };
+    }
 
     this.contracts.set(`${protocol}:${market}`, contract);
     return contract;
   }
 
+  private resolveMarketAddress(protocol: PerpetualContract['protocol'], market: string): PublicKey | null {
+    if (protocol === 'drift' && market in DRIFT_PERP_MARKET_INDEXES) {
+      return deriveDriftPerpMarketAddress(DRIFT_PERP_MARKET_INDEXES[market]);
+    }
+    if (protocol === 'jupiter' && market in JUPITER_PERPS_CUSTODIES) {
+      return new PublicKey(JUPITER_PERPS_CUSTODIES[market]);
+    }
+    try {
+      return new PublicKey(market);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Price from a Pyth account, or null if the account is missing or not Pyth
+   */
+  private async fetchPythPrice(oracle: PublicKey): Promise<PythPrice | null> {
+    const account = await this.connection.getAccountInfo(oracle);
+    if (!account || !isPythPriceAccount(account.data)) return null;
+    return decodePythPrice(account.data);
+  }
+
   /**
    * Detect arbitrage between perpetual and spot
    */
@@ -70,6 +130,8 @@ export class EnhancedPerpetualMonitor {
     contract: PerpetualContract,
     spotPrice: number
   ): PerpetualArbitrage | null {
+    if (spotPrice <= 0 || contract.markPrice <= 0) return null;
+
     const premium = (contract.markPrice - spotPrice) / spotPrice;
     const absPremium = Math.abs(premium);
 
@@ -150,6 +212,8 @@ export class EnhancedPerpetualMonitor {
     market: string,
     contracts: PerpetualContract[]
   ): PerpetualArbitrage | null {
+    // Contracts without a price cannot be compared
+    contracts = contracts.filter(c => c.markPrice > 0);
     if (contracts.length < 2) return null;
 
     // Find price differences between protocols
@@ -0,0 +1,85 @@
+// Jupiter Perps custody accounts and the market data derived from them
+
+import { BorshLayout, Decoded } from '../pools/layouts/borsh';
+import { openInterestSplit, PerpMarketMetrics } from './types';
+
+export const JUPITER_PERPS_PROGRAM_ID = 'PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu';
+
+// Anchor discriminator: sha256("account:Custody")[0..8]
+const CUSTODY_DISCRIMINATOR = [1, 184, 48, 81, 93, 131, 63, 145];
+
+const USD_PRECISION = 1e6;
+const DBPS_PRECISION = 1e5; // Deci basis points: 1 dbps = 0.001%
+
+// Custody accounts of the JLP pool's tradable assets
+export const JUPITER_PERPS_CUSTODIES: Record<string, string> = {
+  'SOL-PERP': '7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz',
+  'ETH-PERP': 'AQCGyheWPLeo6Qp9WpYS9m3Qj479t7R636N9ey1rEjEn',
+  'BTC-PERP': '5Pv3gM9JrFFH883SWAhvJC9RPYmo8UNxuFtv5bMMALkm',
+};
+
+// Custody, up to the funding rate state (later fields are not needed)
+export const JUPITER_CUSTODY_LAYOUT = new BorshLayout('JupiterPerpsCustody', [
+  ['pool', 'pubkey'],
+  ['mint', 'pubkey'],
+  ['tokenAccount', 'pubkey'],
+  ['decimals', 'u8'],
+  ['isStable', 'bool'],
+  ['oracleAccount', 'pubkey'],
+  ['oracleType', 'u8'],
+  ['oracleBuffer', 'u64'],
+  ['maxPriceAgeSec', 'u32'],
+  ['tradeImpactFeeScalar', 'u64'],
+  ['pricingBuffer', 'u64'],
+  ['swapSpread', 'u64'],
+  ['maxLeverage', 'u64'],
+  ['maxGlobalLongSizes', 'u64'],
+  ['maxGlobalShortSizes', 'u64'],
+  ['permissions', 7],
+  ['targetRatioBps', 'u64'],
+  ['feesReserves', 'u64'],
+  ['owned', 'u64'],
+  ['locked', 'u64'],
+  ['guaranteedUsd', 'u64'],
+  ['globalShortSizes', 'u64'],
+  ['globalShortAveragePrices', 'u64'],
+  ['cumulativeInterestRate', 'u128'],
+  ['fundingLastUpdate', 'i64'],
+  ['hourlyFundingDbps', 'u64'],
+] as const, CUSTODY_DISCRIMINATOR);
+
+export type JupiterCustody = Decoded<typeof JUPITER_CUSTODY_LAYOUT.fields>;
+
+export function decodeJupiterCustody(data: Buffer): JupiterCustody {
+  return JUPITER_CUSTODY_LAYOUT.decode(data);
+}
+
+/**
+ * Custody utilization: locked (reserved for open longs) over owned tokens
+ */
+export function jupiterUtilization(custody: JupiterCustody): number {
+  if (custody.owned === BigInt(0)) return 0;
+  return Number(custody.locked) / Number(custody.owned);
+}
+
+/**
+ * Market data from a custody and its oracle price. Jupiter Perps trades at the
+ * oracle price, so mark equals index. Instead of funding both sides pay an hourly
+ * borrow fee that scales with utilization; it is reported as the funding rate.
+ * Long open interest is the locked tokens at the oracle price.
+ */
+export function jupiterPerpMetrics(custody: JupiterCustody, oraclePrice: number): PerpMarketMetrics {
+  const tokenScale = Math.pow(10, custody.decimals);
+  const longOpenInterest = Number(custody.locked) / tokenScale * oraclePrice;
+  const shortOpenInterest = Number(custody.globalShortSizes) / USD_PRECISION;
+
+  return {
+    indexPrice: oraclePrice,
+    markPrice: oraclePrice,
+    fundingRate: Number(custody.hourlyFundingDbps) / DBPS_PRECISION * jupiterUtilization(custody),
+    longOpenInterest,
+    shortOpenInterest,
+    ...openInterestSplit(longOpenInterest, shortOpenInterest),
+    volume24h: 0,
+  };
+}
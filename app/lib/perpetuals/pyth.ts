@@ -0,0 +1,118 @@
+// Pyth price accounts: legacy push-oracle price accounts and pull-oracle
+// PriceUpdateV2 accounts (owned by the Pyth receiver program)
+
+import { BorshLayout } from '../pools/layouts/borsh';
+
+export const PYTH_RECEIVER_PROGRAM_ID = 'rec5EKMGg6MxZYaMdyBfgwp4d5rB9T1VQH5pJv5LtFJ';
+
+const PYTH_LEGACY_MAGIC = 0xa1b2c3d4;
+const PYTH_LEGACY_PRICE_ACCOUNT_TYPE = 3;
+const PYTH_LEGACY_STATUS_TRADING = 1;
+
+// Anchor discriminator: sha256("account:PriceUpdateV2")[0..8]
+const PRICE_UPDATE_V2_DISCRIMINATOR = [34, 241, 35, 99, 157, 126, 244, 205];
+
+// Legacy price account header up to the aggregate price (240 bytes; components follow)
+export const PYTH_LEGACY_PRICE_LAYOUT = new BorshLayout('PythPriceAccount', [
+  ['magic', 'u32'],
+  ['version', 'u32'],
+  ['accountType', 'u32'],
+  ['size', 'u32'],
+  ['priceType', 'u32'],
+  ['exponent', 'i32'],
+  ['numComponents', 'u32'],
+  ['numQuoters', 'u32'],
+  ['lastSlot', 'u64'],
+  ['validSlot', 'u64'],
+  ['emaPrice', 'i64'],
+  ['emaPriceRational', 16],
+  ['emaConf', 'i64'],
+  ['emaConfRational', 16],
+  ['timestamp', 'i64'],
+  ['minPublishers', 'u8'],
+  ['reserved', 7],
+  ['product', 'pubkey'],
+  ['next', 'pubkey'],
+  ['prevSlot', 'u64'],
+  ['prevPrice', 'i64'],
+  ['prevConf', 'u64'],
+  ['prevTimestamp', 'i64'],
+  ['aggPrice', 'i64'],
+  ['aggConf', 'u64'],
+  ['aggStatus', 'u32'],
+  ['aggCorpAct', 'u32'],
+  ['aggPublishSlot', 'u64'],
+] as const);
+
+// PriceUpdateV2.price_message; its offset depends on the verification level before it
+export const PYTH_PRICE_MESSAGE_LAYOUT = new BorshLayout('PythPriceFeedMessage', [
+  ['feedId', 32],
+  ['price', 'i64'],
+  ['conf', 'u64'],
+  ['exponent', 'i32'],
+  ['publishTime', 'i64'],
+  ['prevPublishTime', 'i64'],
+  ['emaPrice', 'i64'],
+  ['emaConf', 'u64'],
+] as const);
+
+export interface PythPrice {
+  price: number;
+  confidence: number;
+  emaPrice: number;
+  publishTime: Date;
+  trading: boolean; // False when a legacy feed's aggregate is halted or unknown
+}
+
+function scale(value: bigint, exponent: number): number {
+  return Number(value) * Math.pow(10, exponent);
+}
+
+function isPriceUpdateV2(data: Buffer): boolean {
+  return data.length >= 8 && PRICE_UPDATE_V2_DISCRIMINATOR.every((byte, i) => data[i] === byte);
+}
+
+function isLegacyPriceAccount(data: Buffer): boolean {
+  return data.length >= PYTH_LEGACY_PRICE_LAYOUT.span &&
+    data.readUInt32LE(0) === PYTH_LEGACY_MAGIC &&
+    data.readUInt32LE(8) === PYTH_LEGACY_PRICE_ACCOUNT_TYPE;
+}
+
+export function isPythPriceAccount(data: Buffer): boolean {
+  return isPriceUpdateV2(data) || isLegacyPriceAccount(data);
+}
+
+/**
+ * Decode either kind of Pyth price account
+ */
+export function decodePythPrice(data: Buffer): PythPrice {
+  if (isPriceUpdateV2(data)) {
+    // discriminator, write_authority, then VerificationLevel: Partial { num_signatures: u8 } | Full
+    const verificationOffset = 8 + 32;
+    const variant = data.readUInt8(verificationOffset);
+    if (variant > 1) {
+      throw new Error(`PythPriceUpdateV2: unknown verification level ${variant}`);
+    }
+    const message = PYTH_PRICE_MESSAGE_LAYOUT.decode(data, verificationOffset + (variant === 0 ? 2 : 1));
+    return {
+      price: scale(message.price, message.exponent),
+      confidence: scale(message.conf, message.exponent),
+      emaPrice: scale(message.emaPrice, message.exponent),
+      publishTime: new Date(Number(message.publishTime) * 1000),
+      trading: true,
+    };
+  }
+
+  if (isLegacyPriceAccount(data)) {
+    const account = PYTH_LEGACY_PRICE_LAYOUT.decode(data);
+    return {
+      price: scale(account.aggPrice, account.exponent),
+      confidence: scale(account.aggConf, account.exponent),
+      emaPrice: scale(account.emaPrice, account.exponent),
+      publishTime: new Date(Number(account.timestamp) * 1000),
+      trading: account.aggStatus === PYTH_LEGACY_STATUS_TRADING,
+    };
+  }
+
+  throw new Error('Not a Pyth price account');
+}
@@ -0,0 +1,28 @@
+// Market data decoded from a perp protocol's on-chain accounts
+
+export interface PerpMarketMetrics {
+  indexPrice: number; // Oracle price, USD
+  markPrice: number; // USD
+  fundingRate: number; // Fraction per hour; positive means longs pay
+  openInterest: number; // USD, both sides
+  longOpenInterest: number; // USD
+  shortOpenInterest: number; // USD
+  longShortRatio: number; // Long share of open interest (0-1)
+  skew: number; // (long - short) / (long + short), -1 to 1
+  volume24h: number; // USD, 0 where the protocol does not track it on-chain
+}
+
+/**
+ * Share and skew of open interest; balanced when there is none
+ */
+export function openInterestSplit(longUsd: number, shortUsd: number): Pick<PerpMarketMetrics, 'openInterest' | 'longShortRatio' | 'skew'> {
+  const total = longUsd + shortUsd;
+  if (total <= 0) {
+    return { openInterest: 0, longShortRatio: 0.5, skew: 0 };
+  }
+  return {
+    openInterest: total,
+    longShortRatio: longUsd / total,
+    skew: (longUsd - shortUsd) / total,
+  };
+}
@@ -9,9 +9,13 @@ import {
   ArbitragePathType,
   TokenInfo,
   WSOL_MINT,
-  SOL_DECIMALS,
   ScannerConfig,
 } from './types';
+import { QuoteEngine, SwapQuote, quoteEngine } from './quote-engine';
+import { optimizeTradeSize, TradeSizing } from './trade-sizing';
+import { NegativeCycleDetector, NegativeCycle } from './negative-cycle-detector';
+import { PoolWebSocketManager, poolWebSocketManager } from './websocket';
+import { Clock, systemClock } from './clock';
 
 // Gas estimate constants (in lamports)
 const BASE_TRANSACTION_FEE = 5000; // Base fee per transaction
@@ -24,12 +28,64 @@ export class ArbitrageDetector {
   private config: ScannerConfig;
   private connection: Connection;
   private birdeyeOptimizer?: any; // BirdeyeOptimizer instance
-
-  constructor(pools: PoolData[], config: ScannerConfig, connection: Connection, birdeyeOptimizer?: any) {
+  private quoteEngine: QuoteEngine;
+  private clock: Clock;
+  private cycleDetector: NegativeCycleDetector | null = null; // Kept across scans and streamed updates
+  private solPools: Map<string, PoolData> | null = null; // mint -> deepest pool pairing it with SOL
+
+  constructor(
+    pools: PoolData[],
+    config: ScannerConfig,
+    connection: Connection,
+    birdeyeOptimizer?: any,
+    clock: Clock = systemClock
+  ) {
     this.pools = pools;
     this.config = config;
     this.connection = connection;
     this.birdeyeOptimizer = birdeyeOptimizer;
+    this.quoteEngine = quoteEngine;
+    this.clock = clock;
+  }
+
+  /**
+   * Replace the pool set before the next scan; the cycle graph is rebuilt in place
+   */
+  setPools(pools: PoolData[]): void {
+    this.pools = pools;
+    this.solPools = null;
+  }
+
+  updateConfig(config: ScannerConfig): void {
+    this.config = config;
+  }
+
+  setBirdeyeOptimizer(birdeyeOptimizer?: any): void {
+    this.birdeyeOptimizer = birdeyeOptimizer;
+  }
+
+  /**
+   * Stream pool updates into the persistent cycle graph and report multi-hop opportunities
+   * as soon as an update opens a cycle, without waiting for the next scan
+   */
+  attachLiveUpdates(
+    onOpportunities: (opportunities: ArbitrageOpportunity[]) => void,
+    manager: PoolWebSocketManager = poolWebSocketManager
+  ): () => void {
+    const detector = this.cycleDetector ?? this.syncCycleDetector(this.getMultiHopPools(this.pools));
+
+    const unsubscribe = detector.subscribe(cycles => {
+      const opportunities = this.toMultiHopOpportunities(cycles).filter(opp => this.meetsThresholds(opp));
+      if (opportunities.length > 0) {
+        onOpportunities(opportunities);
+      }
+    });
+    const detach = detector.attach(manager);
+
+    return () => {
+      unsubscribe();
+      detach();
+    };
   }
 
   async detectOpportunities(): Promise<ArbitrageOpportunity[]> {
@@ -87,14 +143,16 @@ export class ArbitrageDetector {
     const uniqueOpportunities = this.deduplicateOpportunities(opportunities);
     
     return uniqueOpportunities
-      .filter(opp => {
-        if (this.config.showUnprofitable) return true;
-        return opp.netProfit >= this.config.minProfitThreshold &&
-               opp.profitPercent >= this.config.minProfitPercent;
-      })
+      .filter(opp => this.meetsThresholds(opp))
       .sort((a, b) => b.netProfit - a.netProfit); // Sort by profit descending
   }
 
+  private meetsThresholds(opp: ArbitrageOpportunity): boolean {
+    if (this.config.showUnprofitable) return true;
+    return opp.netProfit >= this.config.minProfitThreshold &&
+           opp.profitPercent >= this.config.minProfitPercent;
+  }
+
   private deduplicateOpportunities(opportunities: ArbitrageOpportunity[]): ArbitrageOpportunity[] {
     const seen = new Set<string>();
     return opportunities.filter(opp => {
@@ -144,9 +202,9 @@ export class ArbitrageDetector {
             continue;
           }
 
-          // Calculate actual price from reserves (more accurate than stored price)
-          const priceA = this.calculatePriceFromReserves(poolA);
-          const priceB = this.calculatePriceFromReserves(poolB);
+          // Spot price from each pool's own curve, quoted in the same base token
+          const priceA = this.calculateSpotPrice(poolA, poolA.tokenA.mint);
+          const priceB = this.calculateSpotPrice(poolB, poolA.tokenA.mint);
 
           // Check if prices differ significantly
           const priceDiff = Math.abs(priceA - priceB);
@@ -168,41 +226,50 @@ export class ArbitrageDetector {
   }
 
   /**
-   * Calculate price directly from on-chain reserves (more accurate)
+   * Marginal price of baseMint from the pool's own curve (reserve ratio only for constant product)
    */
-  private calculatePriceFromReserves(pool: PoolData): number {
-    if (pool.reserves.tokenB === BigInt(0)) return 0;
-    
-    const adjustedA = Number(pool.reserves.tokenA) / Math.pow(10, pool.tokenA.decimals);
-    const adjustedB = Number(pool.reserves.tokenB) / Math.pow(10, pool.tokenB.decimals);
-    
-    return adjustedB / adjustedA;
+  private calculateSpotPrice(pool: PoolData, baseMint: string): number {
+    return this.quoteEngine.getSpotPriceOf(pool, baseMint);
   }
 
   private detectMultiHopArbitrage(pools: PoolData[] = this.pools): ArbitrageOpportunity[] {
-    const opportunities: ArbitrageOpportunity[] = [];
-    const maxHops = this.config.maxHops;
+    // Every cycle that is profitable at marginal prices, across all tokens
+    const cycleDetector = this.syncCycleDetector(this.getMultiHopPools(pools));
+    return this.toMultiHopOpportunities(cycleDetector.detectAll());
+  }
 
+  private getMultiHopPools(pools: PoolData[]): PoolData[] {
     // Filter to only real pools with reserves
-    const realPools = pools.filter(p => 
+    return pools.filter(p => 
       p.poolAddress && 
       p.reserves.tokenA > BigInt(0) && 
       p.reserves.tokenB > BigInt(0)
     );
+  }
 
-    // Build graph of token connections (only real pools)
-    const graph = this.buildTokenGraph(realPools);
-
-    // Find cycles starting from each token
-    // Focus on high-liquidity tokens first for better opportunities
-    const tokens = Array.from(graph.keys())
-      .slice(0, 30) // Limit to first 30 tokens for performance
-    
-    for (const startToken of tokens) {
-      const cycles = this.findProfitableCycles(startToken, graph, maxHops);
-      opportunities.push(...cycles);
+  /**
+   * Load the pool set into the long-lived cycle detector, creating it on first use.
+   * Reusing it keeps its stream subscriptions alive from one scan to the next.
+   */
+  private syncCycleDetector(pools: PoolData[]): NegativeCycleDetector {
+    if (!this.cycleDetector) {
+      this.cycleDetector = new NegativeCycleDetector(pools, this.config.maxHops, this.quoteEngine);
+    } else {
+      this.cycleDetector.setMaxHops(this.config.maxHops);
+      this.cycleDetector.setPools(pools);
     }
+    return this.cycleDetector;
+  }
 
+  private toMultiHopOpportunities(cycles: NegativeCycle[]): ArbitrageOpportunity[] {
+    const opportunities: ArbitrageOpportunity[] = [];
+    for (const cycle of cycles) {
+      const { pools: route, startToken } = this.rotateToPreferredStart(cycle);
+      const opportunity = this.calculateMultiHopArbitrage(route, startToken);
+      if (opportunity) {
+        opportunities.push(opportunity);
+      }
+    }
     return opportunities;
   }
 
@@ -282,8 +349,8 @@ export class ArbitrageDetector {
           // Compare best pools from each DEX
           for (const poolA of poolsA) {
             for (const poolB of poolsB) {
-              const priceA = this.calculatePriceFromReserves(poolA);
-              const priceB = this.calculatePriceFromReserves(poolB);
+              const priceA = this.calculateSpotPrice(poolA, poolA.tokenA.mint);
+              const priceB = this.calculateSpotPrice(poolB, poolA.tokenA.mint);
               
               const priceDiff = Math.abs(priceA - priceB);
               const avgPrice = (priceA + priceB) / 2;
@@ -309,37 +376,33 @@ export class ArbitrageDetector {
     poolA: PoolData,
     poolB: PoolData
   ): ArbitrageOpportunity | null {
-    // Determine profitable direction
-    const buyFromA = poolA.price < poolB.price;
-    const sourcePool = buyFromA ? poolA : poolB;
-    const destPool = buyFromA ? poolB : poolA;
-
-    // Calculate optimal input amount with slippage modeling
-    const optimalAmount = this.calculateOptimalInputAmount(sourcePool, destPool);
-    const inputAmount = optimalAmount;
-    
-    // Calculate swap output with slippage consideration
-    const outputAmount = this.calculateSwapOutputWithSlippage(
-      inputAmount,
-      sourcePool.reserves.tokenA,
-      sourcePool.reserves.tokenB,
-      sourcePool.tokenA.decimals,
-      sourcePool.tokenB.decimals,
-      sourcePool.fee
-    );
-
-    // Swap back on second pool with slippage
-    const finalAmount = this.calculateSwapOutputWithSlippage(
-      outputAmount,
-      destPool.reserves.tokenB,
-      destPool.reserves.tokenA,
-      destPool.tokenB.decimals,
-      destPool.tokenA.decimals,
-      destPool.fee
-    );
+    // Start and end in poolA's tokenA: sell it where it is priced higher, buy it back where it is cheaper
+    const baseToken = poolA.tokenA;
+    const sellIntoA =
+      this.calculateSpotPrice(poolA, baseToken.mint) >= this.calculateSpotPrice(poolB, baseToken.mint);
+    const sourcePool = sellIntoA ? poolA : poolB;
+    const destPool = sellIntoA ? poolB : poolA;
+    const route = [sourcePool, destPool];
+
+    // Size the trade against exact curve outputs rather than mid-price differences
+    const sizing = this.calculateOptimalSizing(route, baseToken);
+    if (!sizing) {
+      return null;
+    }
+    const inputAmount = sizing.optimalInputAmount;
+    const steps = this.quotePath(route, baseToken, inputAmount);
+    if (!steps) {
+      return null;
+    }
 
-    const profit = Number(finalAmount - inputAmount) / 1e9; // Convert to SOL
-    const profitPercent = (profit / Number(inputAmount) * 1e9) * 100;
+    const finalAmount = steps[steps.length - 1].amountOut;
+    // Profit is made in the base token; price it in SOL so thresholds and ranking compare across tokens
+    const solPrice = this.getSolPrice(baseToken);
+    if (solPrice === null) {
+      return null;
+    }
+    const profit = (Number(finalAmount - inputAmount) / Math.pow(10, baseToken.decimals)) * solPrice;
+    const profitPercent = (Number(finalAmount - inputAmount) / Number(inputAmount)) * 100;
     // Enhanced gas estimation with priority fees for MEV protection
     const baseGas = BASE_TRANSACTION_FEE + (SWAP_INSTRUCTION_FEE * 2);
     const priorityFee = Math.floor(baseGas * PRIORITY_FEE_MULTIPLIER);
@@ -350,39 +413,16 @@ export class ArbitrageDetector {
       return null;
     }
 
-    const steps: ArbitrageStep[] = [
-      {
-        pool: sourcePool,
-        dex: sourcePool.dex,
-        tokenIn: sourcePool.tokenA,
-        tokenOut: sourcePool.tokenB,
-        amountIn: inputAmount,
-        amountOut: outputAmount,
-        price: sourcePool.price,
-        fee: sourcePool.fee,
-      },
-      {
-        pool: destPool,
-        dex: destPool.dex,
-        tokenIn: destPool.tokenB,
-        tokenOut: destPool.tokenA,
-        amountIn: outputAmount,
-        amountOut: finalAmount,
-        price: 1 / destPool.price,
-        fee: destPool.fee,
-      },
-    ];
-
     const path: ArbitragePath = {
       type: 'simple',
       steps,
-      startToken: sourcePool.tokenA,
-      endToken: sourcePool.tokenA,
+      startToken: baseToken,
+      endToken: baseToken,
       totalHops: 2,
     };
 
     return {
-      id: `arb-${Date.now()}-${Math.random()}`,
+      id: `arb-${this.clock.now()}-${this.clock.random()}`,
       path,
       type: 'simple',
       profit,
@@ -393,7 +433,8 @@ export class ArbitrageDetector {
       netProfit,
       confidence: this.calculateConfidence(profitPercent, 2),
       steps,
-      timestamp: new Date(),
+      timestamp: new Date(this.clock.now()),
+      sizing,
     };
   }
 
@@ -403,52 +444,24 @@ export class ArbitrageDetector {
   ): ArbitrageOpportunity | null {
     if (path.length < 2) return null;
 
-    const inputAmount = BigInt(1_000_000_000); // 1 SOL worth
-    let currentAmount = inputAmount;
-    const steps: ArbitrageStep[] = [];
-
-    // Execute swaps along the path
-    for (let i = 0; i < path.length; i++) {
-      const pool = path[i];
-      const isFirst = i === 0;
-      const prevStep = steps[steps.length - 1];
-
-      const tokenIn = isFirst ? startToken : prevStep.tokenOut;
-      const tokenOut = pool.tokenA.mint === tokenIn.mint ? pool.tokenB : pool.tokenA;
-
-      const reservesIn = pool.tokenA.mint === tokenIn.mint 
-        ? pool.reserves.tokenA 
-        : pool.reserves.tokenB;
-      const reservesOut = pool.tokenA.mint === tokenIn.mint 
-        ? pool.reserves.tokenB 
-        : pool.reserves.tokenA;
-
-      const amountOut = this.calculateSwapOutput(
-        currentAmount,
-        reservesIn,
-        reservesOut,
-        tokenIn.decimals,
-        tokenOut.decimals,
-        pool.fee
-      );
-
-      steps.push({
-        pool,
-        dex: pool.dex,
-        tokenIn,
-        tokenOut,
-        amountIn: currentAmount,
-        amountOut,
-        price: pool.price,
-        fee: pool.fee,
-      });
-
-      currentAmount = amountOut;
+    const sizing = this.calculateOptimalSizing(path, startToken);
+    if (!sizing) {
+      return null;
+    }
+    const inputAmount = sizing.optimalInputAmount;
+    const steps = this.quotePath(path, startToken, inputAmount);
+    if (!steps) {
+      return null;
     }
+    const currentAmount = steps[steps.length - 1].amountOut;
 
-    // Check if we end up with more than we started
-    const profit = Number(currentAmount - inputAmount) / 1e9;
-    const profitPercent = (profit / Number(inputAmount) * 1e9) * 100;
+    // Check if we end up with more than we started, valued in SOL
+    const solPrice = this.getSolPrice(startToken);
+    if (solPrice === null) {
+      return null;
+    }
+    const profit = (Number(currentAmount - inputAmount) / Math.pow(10, startToken.decimals)) * solPrice;
+    const profitPercent = (Number(currentAmount - inputAmount) / Number(inputAmount)) * 100;
     const gasEstimate = BASE_TRANSACTION_FEE + (SWAP_INSTRUCTION_FEE * path.length);
     const netProfit = profit - gasEstimate / 1e9;
 
@@ -465,7 +478,7 @@ export class ArbitrageDetector {
     };
 
     return {
-      id: `arb-mh-${Date.now()}-${Math.random()}`,
+      id: `arb-mh-${this.clock.now()}-${this.clock.random()}`,
       path: arbitragePath,
       type: path.length > 3 ? 'cross_protocol' : 'multi_hop',
       profit,
@@ -476,7 +489,8 @@ export class ArbitrageDetector {
       netProfit,
       confidence: this.calculateConfidence(profitPercent, path.length),
       steps,
-      timestamp: new Date(),
+      timestamp: new Date(this.clock.now()),
+      sizing,
     };
   }
 
@@ -490,200 +504,115 @@ export class ArbitrageDetector {
   }
 
   /**
-   * Calculate optimal input amount for maximum profit
-   * Uses calculus to find the maximum profit point
+   * Search for the input size that maximizes profit along the route, in the start token's
+   * own units. Sizes beyond the first pool's reserve of the start token are never searched.
+   * Returns null when the route cannot fill even the minimum size
    */
-  private calculateOptimalInputAmount(poolA: PoolData, poolB: PoolData): bigint {
-    // Simplified optimization: try different amounts and find maximum
-    // In production, use calculus or binary search for optimal amount
-    const testAmounts = [
-      BigInt(100_000_000),      // 0.1 SOL
-      BigInt(500_000_000),      // 0.5 SOL
-      BigInt(1_000_000_000),    // 1 SOL
-      BigInt(5_000_000_000),     // 5 SOL
-      BigInt(10_000_000_000),   // 10 SOL
-    ];
-
-    let maxProfit = BigInt(0);
-    let optimalAmount = BigInt(1_000_000_000); // Default to 1 SOL
-
-    for (const amount of testAmounts) {
-      const output1 = this.calculateSwapOutput(
-        amount,
-        poolA.reserves.tokenA,
-        poolA.reserves.tokenB,
-        poolA.tokenA.decimals,
-        poolA.tokenB.decimals,
-        poolA.fee
-      );
-      const output2 = this.calculateSwapOutput(
-        output1,
-        poolB.reserves.tokenB,
-        poolB.reserves.tokenA,
-        poolB.tokenB.decimals,
-        poolB.tokenA.decimals,
-        poolB.fee
-      );
-      const profit = output2 - amount;
-
-      if (profit > maxProfit) {
-        maxProfit = profit;
-        optimalAmount = amount;
+  private calculateOptimalSizing(route: PoolData[], startToken: TokenInfo): TradeSizing | null {
+    const firstPool = route[0];
+    const reserve = firstPool.tokenA.mint === startToken.mint ? firstPool.reserves.tokenA : firstPool.reserves.tokenB;
+
+    return optimizeTradeSize(
+      amountIn => {
+        const steps = this.quotePath(route, startToken, amountIn);
+        return steps ? steps[steps.length - 1].amountOut : null;
+      },
+      {
+        decimals: startToken.decimals,
+        maxInput: reserve > BigInt(0) ? reserve : undefined,
       }
-    }
-
-    return optimalAmount;
+    );
   }
 
   /**
-   * Calculate swap output with slippage modeling
-   * Accounts for price impact and realistic execution
+   * Quote each hop with its pool's own curve math, feeding every output into the next hop.
+   * Returns null when any pool cannot fill the amount, since the route would not execute.
    */
-  private calculateSwapOutputWithSlippage(
-    amountIn: bigint,
-    reserveIn: bigint,
-    reserveOut: bigint,
-    decimalsIn: number,
-    decimalsOut: number,
-    fee: number
-  ): bigint {
-    // Base calculation
-    const baseOutput = this.calculateSwapOutput(
-      amountIn,
-      reserveIn,
-      reserveOut,
-      decimalsIn,
-      decimalsOut,
-      fee
-    );
-
-    // Apply slippage model (price impact increases with trade size)
-    const reserveRatio = Number(reserveIn) / Number(reserveOut);
-    const tradeSizeRatio = Number(amountIn) / Number(reserveIn);
-    
-    // Slippage increases quadratically with trade size
-    const slippageMultiplier = 1 - (tradeSizeRatio * tradeSizeRatio * 0.1); // Max 10% slippage
-    const adjustedOutput = BigInt(Math.floor(Number(baseOutput) * slippageMultiplier));
-
-    return adjustedOutput;
-  }
-
-  private calculateSwapOutput(
-    amountIn: bigint,
-    reserveIn: bigint,
-    reserveOut: bigint,
-    decimalsIn: number,
-    decimalsOut: number,
-    feeBps: number
-  ): bigint {
-    if (reserveIn === BigInt(0) || reserveOut === BigInt(0)) {
-      return BigInt(0);
-    }
-
-    // Constant product formula: (x + dx) * (y - dy) = x * y
-    // With fee: amountInWithFee = amountIn * (10000 - feeBps) / 10000
-    const amountInWithFee = (amountIn * BigInt(10000 - feeBps)) / BigInt(10000);
-    
-    // Adjust for decimals
-    const adjustedReserveIn = reserveIn;
-    const adjustedReserveOut = reserveOut;
-    
-    // Calculate output: dy = (y * dx) / (x + dx)
-    const numerator = adjustedReserveOut * amountInWithFee;
-    const denominator = adjustedReserveIn + amountInWithFee;
-    
-    return numerator / denominator;
-  }
-
-  private buildTokenGraph(pools: PoolData[] = this.pools): Map<string, Map<string, PoolData[]>> {
-    const graph = new Map<string, Map<string, PoolData[]>>();
-
-    // Only include real pools with reserves
-    for (const pool of pools) {
-      if (!pool.poolAddress || pool.reserves.tokenA === BigInt(0) || pool.reserves.tokenB === BigInt(0)) {
-        continue;
-      }
+  private quotePath(path: PoolData[], startToken: TokenInfo, inputAmount: bigint): ArbitrageStep[] | null {
+    const steps: ArbitrageStep[] = [];
+    let tokenIn = startToken;
+    let amountIn = inputAmount;
 
-      const tokenA = pool.tokenA.mint;
-      const tokenB = pool.tokenB.mint;
+    for (const pool of path) {
+      const tokenOut = pool.tokenA.mint === tokenIn.mint ? pool.tokenB : pool.tokenA;
+      const quote = this.quoteEngine.quote(pool, tokenIn.mint, amountIn);
 
-      if (!graph.has(tokenA)) {
-        graph.set(tokenA, new Map());
-      }
-      if (!graph.has(tokenB)) {
-        graph.set(tokenB, new Map());
+      if (!quote.complete || quote.amountOut === BigInt(0)) {
+        return null;
       }
 
-      const connectionsA = graph.get(tokenA)!;
-      if (!connectionsA.has(tokenB)) {
-        connectionsA.set(tokenB, []);
-      }
-      connectionsA.get(tokenB)!.push(pool);
+      steps.push({
+        pool,
+        dex: pool.dex,
+        tokenIn,
+        tokenOut,
+        amountIn,
+        amountOut: quote.amountOut,
+        price: this.getExecutionPrice(quote, tokenIn, tokenOut),
+        fee: pool.fee,
+      });
 
-      const connectionsB = graph.get(tokenB)!;
-      if (!connectionsB.has(tokenA)) {
-        connectionsB.set(tokenA, []);
-      }
-      connectionsB.get(tokenA)!.push(pool);
+      tokenIn = tokenOut;
+      amountIn = quote.amountOut;
     }
 
-    return graph;
+    return steps;
   }
 
-  private findProfitableCycles(
-    startToken: string,
-    graph: Map<string, Map<string, PoolData[]>>,
-    maxHops: number
-  ): ArbitrageOpportunity[] {
-    const opportunities: ArbitrageOpportunity[] = [];
-    const visited = new Set<string>();
-    const path: PoolData[] = [];
-
-    const dfs = (currentToken: string, targetToken: string, hops: number) => {
-      if (hops > maxHops) return;
-      if (hops > 0 && currentToken === targetToken) {
-        // Found a cycle
-        const tokenInfo = this.getTokenInfo(startToken);
-        if (tokenInfo) {
-          const opportunity = this.calculateMultiHopArbitrage([...path], tokenInfo);
-          if (opportunity) {
-            opportunities.push(opportunity);
-          }
-        }
-        return;
-      }
-
-      if (visited.has(currentToken)) return;
-      visited.add(currentToken);
-
-      const connections = graph.get(currentToken);
-      if (connections) {
-        for (const [nextToken, pools] of Array.from(connections.entries())) {
-          for (const pool of pools) {
-            path.push(pool);
-            dfs(nextToken, targetToken, hops + 1);
-            path.pop();
-          }
-        }
-      }
-
-      visited.delete(currentToken);
-    };
-
-    dfs(startToken, startToken, 0);
-    return opportunities;
+  /**
+   * Realized price of tokenIn in terms of tokenOut, adjusted for decimals
+   */
+  private getExecutionPrice(quote: SwapQuote, tokenIn: TokenInfo, tokenOut: TokenInfo): number {
+    if (quote.amountIn === BigInt(0)) return 0;
+    const adjustedIn = Number(quote.amountIn) / Math.pow(10, tokenIn.decimals);
+    const adjustedOut = Number(quote.amountOut) / Math.pow(10, tokenOut.decimals);
+    return adjustedOut / adjustedIn;
   }
 
   private getPairKey(mintA: string, mintB: string): string {
     return [mintA, mintB].sort().join('-');
   }
 
-  private getTokenInfo(mint: string): TokenInfo | null {
-    for (const pool of this.pools) {
-      if (pool.tokenA.mint === mint) return pool.tokenA;
-      if (pool.tokenB.mint === mint) return pool.tokenB;
+  /**
+   * SOL value of one whole token, from the deepest pool pairing it with SOL. Null when the
+   * token has no SOL pool, since its profit could not be thresholded or ranked against others.
+   */
+  private getSolPrice(token: TokenInfo): number | null {
+    if (token.mint === WSOL_MINT) return 1;
+
+    if (!this.solPools) {
+      this.solPools = new Map();
+      for (const pool of this.pools) {
+        const solIsA = pool.tokenA.mint === WSOL_MINT;
+        if (!solIsA && pool.tokenB.mint !== WSOL_MINT) continue;
+
+        const other = solIsA ? pool.tokenB.mint : pool.tokenA.mint;
+        const solReserve = solIsA ? pool.reserves.tokenA : pool.reserves.tokenB;
+        const current = this.solPools.get(other);
+        const currentReserve = current
+          ? (current.tokenA.mint === WSOL_MINT ? current.reserves.tokenA : current.reserves.tokenB)
+          : BigInt(0);
+        if (solReserve > currentReserve) {
+          this.solPools.set(other, pool);
+        }
+      }
     }
-    return null;
+
+    const pool = this.solPools.get(token.mint);
+    if (!pool) return null;
+    const price = this.calculateSpotPrice(pool, token.mint);
+    return price > 0 && isFinite(price) ? price : null;
+  }
+
+  /**
+   * Start cycles at SOL when they pass through it, so no conversion is needed to value the profit
+   */
+  private rotateToPreferredStart(cycle: NegativeCycle): { pools: PoolData[]; startToken: TokenInfo } {
+    const offset = Math.max(0, cycle.tokens.findIndex(token => token.mint === WSOL_MINT));
+    return {
+      pools: [...cycle.pools.slice(offset), ...cycle.pools.slice(0, offset)],
+      startToken: cycle.tokens[offset],
+    };
   }
 
   private calculateConfidence(profitPercent: number, hops: number): number {
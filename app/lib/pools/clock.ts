@@ -0,0 +1,29 @@
+// Time and randomness source for the scanner pipeline
+// Live scans use the system clock; replays pin both so reruns are reproducible.
+
+export interface Clock {
+  now(): number; // Milliseconds since epoch
+  random(): number; // [0, 1)
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  random: () => Math.random(),
+};
+
+/**
+ * Clock frozen at a fixed time with a seeded PRNG (mulberry32)
+ */
+export function createFixedClock(timestamp: number, seed: number = timestamp): Clock {
+  let state = seed >>> 0;
+  return {
+    now: () => timestamp,
+    random: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
@@ -1,8 +1,11 @@
 // Base fetcher interface and common utilities
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { PoolData, FetcherResult, DEXProtocol } from '../types';
 
+// getMultipleAccounts accepts at most 100 keys per request
+const MAX_MULTIPLE_ACCOUNTS = 100;
+
 export interface PoolFetcher {
   dex: DEXProtocol;
   fetchPools(connection: Connection): Promise<FetcherResult>;
@@ -37,6 +40,33 @@ export abstract class BasePoolFetcher implements PoolFetcher {
   abstract fetchPools(connection: Connection): Promise<FetcherResult>;
   abstract fetchPoolById(connection: Connection, poolId: string): Promise<PoolData | null>;
 
+  /**
+   * Fetch accounts in chunks of 100, keyed by address (duplicates fetched once)
+   */
+  protected async loadAccounts(
+    connection: Connection,
+    keys: PublicKey[]
+  ): Promise<Map<string, AccountInfo<Buffer> | null>> {
+    const result = new Map<string, AccountInfo<Buffer> | null>();
+    const unique = Array.from(new Map(keys.map(key => [key.toString(), key])).values());
+
+    for (let i = 0; i < unique.length; i += MAX_MULTIPLE_ACCOUNTS) {
+      const chunk = unique.slice(i, i + MAX_MULTIPLE_ACCOUNTS);
+      const infos = await connection.getMultipleAccountsInfo(chunk);
+      chunk.forEach((key, j) => result.set(key.toString(), infos[j] ?? null));
+    }
+
+    return result;
+  }
+
+  /**
+   * Decimals of an SPL / Token-2022 mint (same offset in both programs)
+   */
+  protected readMintDecimals(accounts: Map<string, AccountInfo<Buffer> | null>, mint: PublicKey): number | null {
+    const info = accounts.get(mint.toString());
+    return info ? info.data.readUInt8(44) : null;
+  }
+
   protected async fetchTokenInfo(
     connection: Connection,
     mintAddress: string
@@ -41,7 +41,7 @@ export class BirdeyeFetcher extends BasePoolFetcher {
                   const dexName = this.mapDexName(pair.dex || pair.platform || 'unknown');
                   
                   // Skip if not one of our enabled DEXs
-                  if (!['raydium', 'orca', 'jupiter', 'meteora', 'lifinity'].includes(dexName)) {
+                  if (!['raydium', 'raydium_clmm', 'raydium_cpmm', 'orca', 'jupiter', 'meteora', 'lifinity'].includes(dexName)) {
                     continue;
                   }
 
@@ -138,6 +138,8 @@ export class BirdeyeFetcher extends BasePoolFetcher {
   private mapDexName(birdeyeDex: string): string {
     const lower = birdeyeDex.toLowerCase();
     
+    if (lower.includes('raydium') && (lower.includes('clmm') || lower.includes('concentrated'))) return 'raydium_clmm';
+    if (lower.includes('raydium') && (lower.includes('cpmm') || lower.includes('cp-swap') || lower.includes('cp swap'))) return 'raydium_cpmm';
     if (lower.includes('raydium')) return 'raydium';
     if (lower.includes('orca') || lower.includes('whirlpool')) return 'orca';
     if (lower.includes('jupiter')) return 'jupiter';
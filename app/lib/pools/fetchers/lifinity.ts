@@ -1,12 +1,32 @@
 // Lifinity fetcher
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { BasePoolFetcher } from './base';
-import { PoolData, FetcherResult, DEXProtocol } from '../types';
+import { PoolData, FetcherResult, DEXProtocol, PoolCurve } from '../types';
 import { fetchAllProgramAccountsV2 } from './pagination';
+import {
+  LIFINITY_V2_PROGRAM_ID,
+  AMM_DISCRIMINATOR_BASE58,
+  LIFINITY_CURVE_CONSTANT_PRODUCT,
+  LIFINITY_CURVE_STABLE,
+  LifinityAmmState,
+  decodeLifinityAmm,
+  getLifinityFeeRate,
+  isLifinityAmmSwappable,
+} from '../layouts/lifinity';
+import { decodeTokenAccountAmount } from '../layouts/raydium';
+import { StableSwapQuoter } from '../quoters/stable-swap';
 
-// Lifinity program ID
-const LIFINITY_PROGRAM_ID = 'EewxydAPCCVuNEyrVN68PuSYdQ7wKn27V9Gjeoi8dy3S';
+// Lifinity v2 program ID
+const LIFINITY_PROGRAM_ID = LIFINITY_V2_PROGRAM_ID;
+
+// Amm accounts are the only ones carrying this discriminator
+const AMM_ACCOUNT_FILTER = { memcmp: { offset: 0, bytes: AMM_DISCRIMINATOR_BASE58 } };
+
+interface RawAmmAccount {
+  pubkey: string;
+  data: Buffer;
+}
 
 export class LifinityFetcher extends BasePoolFetcher {
   dex: DEXProtocol = 'lifinity';
@@ -54,9 +74,8 @@ export class LifinityFetcher extends BasePoolFetcher {
             programId,
             {
               limit: 1000,
-              encoding: 'jsonParsed',
-              filters: [{ dataSize: 512 }],
-              dataSlice: { offset: 0, length: 512 },
+              encoding: 'base64', // Raw bytes for Amm layout decoding
+              filters: [AMM_ACCOUNT_FILTER],
             }
           );
         } catch (error: any) {
@@ -75,8 +94,7 @@ export class LifinityFetcher extends BasePoolFetcher {
       if (!accounts) {
         const programPubkey = new PublicKey(programId);
         const standardAccounts = await connection.getProgramAccounts(programPubkey, {
-          filters: [{ dataSize: 512 }],
-          dataSlice: { offset: 0, length: 512 },
+          filters: [AMM_ACCOUNT_FILTER],
         });
         
         accounts = standardAccounts.map(acc => ({
@@ -91,19 +109,12 @@ export class LifinityFetcher extends BasePoolFetcher {
         }));
       }
 
-      // Process all accounts
-      const accountsToProcess = accounts;
-      
-      for (const account of accountsToProcess) {
-        try {
-          const pool = await this.parseLifinityPool(connection, account.pubkey.toString(), account.account.data);
-          if (pool) {
-            pools.push(pool);
-          }
-        } catch (error) {
-          errors.push(this.handleError(error, `Parsing Lifinity pool ${account.pubkey.toString()}`));
-        }
-      }
+      // Decode every pool, then load vaults and mints in batches
+      const ammAccounts: RawAmmAccount[] = accounts.map(account => ({
+        pubkey: account.pubkey.toString(),
+        data: Buffer.isBuffer(account.account.data) ? account.account.data : Buffer.from(account.account.data),
+      }));
+      pools.push(...(await this.decodePools(connection, ammAccounts, errors)));
 
     } catch (error) {
       errors.push(this.handleError(error, 'fetchPools'));
@@ -121,37 +132,119 @@ export class LifinityFetcher extends BasePoolFetcher {
       const poolPubkey = new PublicKey(poolId);
       const accountInfo = await connection.getAccountInfo(poolPubkey);
       
-      if (!accountInfo) {
+      if (!accountInfo || accountInfo.owner.toString() !== LIFINITY_PROGRAM_ID) {
         return null;
       }
 
-      return await this.parseLifinityPool(connection, poolId, accountInfo.data);
+      const [pool] = await this.decodePools(connection, [{ pubkey: poolId, data: accountInfo.data }], []);
+      return pool ?? null;
     } catch (error) {
       this.handleError(error, `fetchPoolById ${poolId}`);
       return null;
     }
   }
 
-  private async parseLifinityPool(
+  /**
+   * Decode Amm accounts, then resolve vaults and mints for all of them in one batched pass
+   */
+  private async decodePools(
     connection: Connection,
-    poolAddress: string,
-    data: Buffer
-  ): Promise<PoolData | null> {
-    try {
-      if (data.length < 512) {
-        return null;
+    accounts: RawAmmAccount[],
+    errors: string[]
+  ): Promise<PoolData[]> {
+    const states: Array<{ pubkey: string; state: LifinityAmmState }> = [];
+    for (const account of accounts) {
+      try {
+        const state = decodeLifinityAmm(account.data);
+        if (isLifinityAmmSwappable(state)) {
+          states.push({ pubkey: account.pubkey, state });
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Parsing Lifinity pool ${account.pubkey}`));
+      }
+    }
+
+    const dependents = await this.loadAccounts(
+      connection,
+      states.flatMap(({ state }) => [state.tokenAAccount, state.tokenBAccount, state.tokenAMint, state.tokenBMint])
+    );
+
+    const pools: PoolData[] = [];
+    for (const { pubkey, state } of states) {
+      try {
+        const pool = this.toPoolData(pubkey, state, dependents);
+        if (pool) {
+          pools.push(pool);
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Building Lifinity pool ${pubkey}`));
       }
+    }
+    return pools;
+  }
 
-      // Lifinity pool structure parsing (simplified)
-      // Real implementation would use Anchor IDL or proper deserialization
-      // For now, return null as placeholder
-      // In production, parse pool structure from account data
+  /**
+   * Swap curve from AmmCurve: curve_parameters is the virtual reserve multiplier of
+   * concentrated constant-product pools and the amplification of stable pools
+   */
+  private toCurve(state: LifinityAmmState, feeRate: number): PoolCurve | null {
+    const parameter = Number(state.curveParameters);
+    switch (state.curveType) {
+      case LIFINITY_CURVE_CONSTANT_PRODUCT:
+        return { kind: 'constant_product', concentration: Math.max(1, parameter), feeRate };
+      case LIFINITY_CURVE_STABLE:
+        return parameter > 0 ? { kind: 'stable', amplification: parameter, feeRate } : null;
+      default:
+        // Constant-price and offset curves have no quoter
+        return null;
+    }
+  }
 
+  private toPoolData(
+    poolAddress: string,
+    state: LifinityAmmState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const vaultAInfo = accounts.get(state.tokenAAccount.toString());
+    const vaultBInfo = accounts.get(state.tokenBAccount.toString());
+    const decimalsA = this.readMintDecimals(accounts, state.tokenAMint);
+    const decimalsB = this.readMintDecimals(accounts, state.tokenBMint);
+    if (!vaultAInfo || !vaultBInfo || decimalsA === null || decimalsB === null) {
       return null;
-    } catch (error) {
-      this.handleError(error, `parseLifinityPool ${poolAddress}`);
+    }
+
+    const reserveA = decodeTokenAccountAmount(vaultAInfo.data);
+    const reserveB = decodeTokenAccountAmount(vaultBInfo.data);
+    const feeRate = getLifinityFeeRate(state);
+    const curve = this.toCurve(state, feeRate);
+    if (reserveA === BigInt(0) || reserveB === BigInt(0) || !curve) {
       return null;
     }
+
+    const mintA = state.tokenAMint.toString();
+    const mintB = state.tokenBMint.toString();
+
+    const pool: PoolData = {
+      id: `lifinity-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintA, symbol: this.getTokenSymbol(mintA), decimals: decimalsA },
+      tokenB: { mint: mintB, symbol: this.getTokenSymbol(mintB), decimals: decimalsB },
+      reserves: { tokenA: reserveA, tokenB: reserveB },
+      price: this.calculatePrice(reserveA, reserveB, decimalsA, decimalsB),
+      fee: feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: LIFINITY_PROGRAM_ID,
+      poolAddress,
+      curve,
+    };
+
+    // Stable pools trade near par until deeply imbalanced, not at the reserve ratio
+    if (curve.kind === 'stable') {
+      pool.price = new StableSwapQuoter().spotPrice(pool);
+    }
+    return pool;
   }
 }
-
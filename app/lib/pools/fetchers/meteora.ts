@@ -1,12 +1,31 @@
 // Meteora DLMM fetcher
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { BasePoolFetcher } from './base';
-import { PoolData, FetcherResult, DEXProtocol } from '../types';
+import { PoolData, FetcherResult, DEXProtocol, BinData } from '../types';
 import { fetchAllProgramAccountsV2 } from './pagination';
+import {
+  METEORA_DLMM_PROGRAM_ID,
+  LB_PAIR_LAYOUT,
+  LbPairState,
+  decodeBinArray,
+  decodeLbPair,
+  deriveBinArrayAddress,
+  getBinArrayIndex,
+  getLbPairFeeRate,
+  isLbPairSwappable,
+} from '../layouts/meteora';
+import { decodeTokenAccountAmount } from '../layouts/raydium';
+import { getBinPrice } from '../quoters/dlmm';
 
-// Meteora DLMM program ID
-const METEORA_DLMM_PROGRAM_ID = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo';
+// Bin arrays loaded on each side of the active one: one for scans, two for a single pair
+const SCAN_BIN_ARRAY_RADIUS = 1;
+const POOL_BIN_ARRAY_RADIUS = 2;
+
+interface RawLbPairAccount {
+  pubkey: string;
+  data: Buffer;
+}
 
 export class MeteoraFetcher extends BasePoolFetcher {
   dex: DEXProtocol = 'meteora';
@@ -65,7 +84,7 @@ export class MeteoraFetcher extends BasePoolFetcher {
             {
               limit: 1000, // Fetch 1000 accounts per page
               encoding: 'base64', // Use base64 for better performance
-              filters: [{ dataSize: 1024 }], // Filter by data size
+              filters: [{ dataSize: LB_PAIR_LAYOUT.span }], // LbPair accounts only
             }
           );
           
@@ -85,8 +104,7 @@ export class MeteoraFetcher extends BasePoolFetcher {
           // Use a smaller limit to avoid deprioritization
           // Note: This will only get a subset of pools, but avoids errors
           const standardAccounts = await connection.getProgramAccounts(programPubkey, {
-            filters: [{ dataSize: 1024 }],
-            dataSlice: { offset: 0, length: 1024 },
+            filters: [{ dataSize: LB_PAIR_LAYOUT.span }],
             commitment: 'confirmed',
           });
           
@@ -127,29 +145,19 @@ export class MeteoraFetcher extends BasePoolFetcher {
       }
       
       console.log(`[Meteora] Processing ${accounts.length} pool accounts...`);
-      
-      for (const account of accounts) {
-        try {
-          // Convert data to Buffer if needed
-          let accountData = account.account.data;
-          if (typeof accountData === 'string') {
-            // Already base64 string, convert to Buffer
-            accountData = Buffer.from(accountData, 'base64');
-          } else if (accountData instanceof Uint8Array && typeof Buffer !== 'undefined') {
-            accountData = Buffer.from(accountData);
-          }
-          
-          const pool = await this.parseDLMMPool(connection, account.pubkey, accountData);
-          if (pool) {
-            pools.push(pool);
-          }
-        } catch (error) {
-          // Don't add every parse error to avoid spam, only log
-          if (errors.length < 10) {
-            errors.push(this.handleError(error, `Parsing DLMM pool ${account.pubkey}`));
-          }
+
+      const pairAccounts: RawLbPairAccount[] = accounts.map(account => {
+        // Convert data to Buffer if needed
+        let accountData = account.account.data;
+        if (typeof accountData === 'string') {
+          // Already base64 string, convert to Buffer
+          accountData = Buffer.from(accountData, 'base64');
+        } else if (accountData instanceof Uint8Array && typeof Buffer !== 'undefined') {
+          accountData = Buffer.from(accountData);
         }
-      }
+        return { pubkey: account.pubkey.toString(), data: accountData as Buffer };
+      });
+      pools.push(...(await this.decodePools(connection, pairAccounts, errors, SCAN_BIN_ARRAY_RADIUS)));
       
       console.log(`[Meteora] Successfully parsed ${pools.length} pools from ${accounts.length} accounts`);
 
@@ -169,44 +177,158 @@ export class MeteoraFetcher extends BasePoolFetcher {
       const poolPubkey = new PublicKey(poolId);
       const accountInfo = await connection.getAccountInfo(poolPubkey);
       
-      if (!accountInfo) {
+      if (!accountInfo || accountInfo.owner.toString() !== METEORA_DLMM_PROGRAM_ID) {
         return null;
       }
 
-      return await this.parseDLMMPool(connection, poolId, accountInfo.data);
+      const [pool] = await this.decodePools(
+        connection,
+        [{ pubkey: poolId, data: accountInfo.data }],
+        [],
+        POOL_BIN_ARRAY_RADIUS
+      );
+      return pool ?? null;
     } catch (error) {
       this.handleError(error, `fetchPoolById ${poolId}`);
       return null;
     }
   }
 
-  private async parseDLMMPool(
+  /**
+   * Decode LbPairs, resolve reserves and mints for all of them in one batched pass,
+   * then attach the bins around each active bin
+   */
+  private async decodePools(
     connection: Connection,
-    poolAddress: string,
-    data: Buffer
-  ): Promise<PoolData | null> {
+    accounts: RawLbPairAccount[],
+    errors: string[],
+    binArrayRadius: number
+  ): Promise<PoolData[]> {
+    const states: Array<{ pubkey: string; state: LbPairState }> = [];
+    for (const account of accounts) {
+      try {
+        const state = decodeLbPair(account.data);
+        if (isLbPairSwappable(state)) {
+          states.push({ pubkey: account.pubkey, state });
+        }
+      } catch (error) {
+        // Don't add every parse error to avoid spam, only log
+        if (errors.length < 10) {
+          errors.push(this.handleError(error, `Parsing DLMM pool ${account.pubkey}`));
+        }
+      }
+    }
+
+    const dependents = await this.loadAccounts(
+      connection,
+      states.flatMap(({ state }) => [state.reserveX, state.reserveY, state.tokenXMint, state.tokenYMint])
+    );
+
+    const pools: PoolData[] = [];
+    for (const { pubkey, state } of states) {
+      try {
+        const pool = this.toPoolData(pubkey, state, dependents);
+        if (pool) {
+          pools.push(pool);
+        }
+      } catch (error) {
+        if (errors.length < 10) {
+          errors.push(this.handleError(error, `Building DLMM pool ${pubkey}`));
+        }
+      }
+    }
+
     try {
-      if (data.length < 1024) {
-        return null;
+      return await this.loadBinArrays(connection, pools, binArrayRadius);
+    } catch (error) {
+      errors.push(this.handleError(error, 'loadBinArrays'));
+      return pools;
+    }
+  }
+
+  /**
+   * Attach the bins holding liquidity from the bin arrays around each pair's active bin
+   */
+  async loadBinArrays(
+    connection: Connection,
+    pools: PoolData[],
+    radius: number = POOL_BIN_ARRAY_RADIUS
+  ): Promise<PoolData[]> {
+    const addressesByPool = pools.map(pool => {
+      if (pool.curve?.kind !== 'dlmm' || !pool.poolAddress) return [];
+
+      const pairKey = new PublicKey(pool.poolAddress);
+      const activeIndex = getBinArrayIndex(pool.curve.activeId);
+      const addresses: PublicKey[] = [];
+      for (let offset = -radius; offset <= radius; offset++) {
+        addresses.push(deriveBinArrayAddress(pairKey, activeIndex + offset));
       }
+      return addresses;
+    });
+
+    const accounts = await this.loadAccounts(connection, addressesByPool.flat());
 
-      // DLMM pool structure parsing (simplified)
-      // Real implementation would use Anchor IDL or proper deserialization
-      // For now, return null as placeholder
-      // In production, parse:
-      // - mintX (token A)
-      // - mintY (token B)
-      // - binStep
-      // - liquidity
-      // - activeId
-      // - binMap
-      // ... etc
+    return pools.map((pool, i) => {
+      if (pool.curve?.kind !== 'dlmm') return pool;
 
+      const bins: BinData[] = [];
+      for (const address of addressesByPool[i]) {
+        const info = accounts.get(address.toString());
+        if (!info) continue; // Uninitialized bin arrays hold no liquidity
+        bins.push(...decodeBinArray(info.data).bins);
+      }
+
+      return { ...pool, curve: { ...pool.curve, bins: bins.sort((a, b) => a.id - b.id) } };
+    });
+  }
+
+  private toPoolData(
+    poolAddress: string,
+    state: LbPairState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const reserveXInfo = accounts.get(state.reserveX.toString());
+    const reserveYInfo = accounts.get(state.reserveY.toString());
+    const decimalsA = this.readMintDecimals(accounts, state.tokenXMint);
+    const decimalsB = this.readMintDecimals(accounts, state.tokenYMint);
+    if (!reserveXInfo || !reserveYInfo || decimalsA === null || decimalsB === null) {
       return null;
-    } catch (error) {
-      this.handleError(error, `parseDLMMPool ${poolAddress}`);
+    }
+
+    // Protocol fees are held in the reserves until claimed
+    const reserveA = decodeTokenAccountAmount(reserveXInfo.data) - state.protocolFeeAmountX;
+    const reserveB = decodeTokenAccountAmount(reserveYInfo.data) - state.protocolFeeAmountY;
+    if (reserveA <= BigInt(0) && reserveB <= BigInt(0)) {
       return null;
     }
+
+    const feeRate = getLbPairFeeRate(state);
+    const mintA = state.tokenXMint.toString();
+    const mintB = state.tokenYMint.toString();
+
+    return {
+      id: `meteora-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintA, symbol: this.getTokenSymbol(mintA), decimals: decimalsA },
+      tokenB: { mint: mintB, symbol: this.getTokenSymbol(mintB), decimals: decimalsB },
+      reserves: {
+        tokenA: reserveA > BigInt(0) ? reserveA : BigInt(0),
+        tokenB: reserveB > BigInt(0) ? reserveB : BigInt(0),
+      },
+      price: getBinPrice(state.activeId, state.binStep) * Math.pow(10, decimalsA - decimalsB),
+      fee: feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: METEORA_DLMM_PROGRAM_ID,
+      poolAddress,
+      curve: {
+        kind: 'dlmm',
+        activeId: state.activeId,
+        binStep: state.binStep,
+        feeRate,
+      },
+    };
   }
 }
-
@@ -1,12 +1,29 @@
 // Orca Whirlpool fetcher
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { BasePoolFetcher } from './base';
-import { PoolData, FetcherResult, DEXProtocol } from '../types';
+import { PoolData, FetcherResult, DEXProtocol, TickData } from '../types';
 import { fetchAllProgramAccountsV2 } from './pagination';
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  WHIRLPOOL_LAYOUT,
+  WHIRLPOOL_TICK_ARRAY_SIZE,
+  WhirlpoolState,
+  decodeWhirlpool,
+  decodeWhirlpoolTickArray,
+  deriveWhirlpoolTickArray,
+  getWhirlpoolTickArrayStartIndex,
+} from '../layouts/orca';
+import { decodeTokenAccountAmount } from '../layouts/raydium';
 
-// Orca Whirlpool program ID
-const ORCA_WHIRLPOOL_PROGRAM_ID = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+// Tick arrays loaded on each side of the current one: one for scans, two for a single pool
+const SCAN_TICK_ARRAY_RADIUS = 1;
+const POOL_TICK_ARRAY_RADIUS = 2;
+
+interface RawWhirlpoolAccount {
+  pubkey: string;
+  data: Buffer;
+}
 
 export class OrcaFetcher extends BasePoolFetcher {
   dex: DEXProtocol = 'orca';
@@ -63,9 +80,8 @@ export class OrcaFetcher extends BasePoolFetcher {
             programId,
             {
               limit: 1000,
-              encoding: 'jsonParsed',
-              filters: [{ dataSize: 653 }],
-              dataSlice: { offset: 0, length: 653 },
+              encoding: 'base64', // Raw bytes for whirlpool layout decoding
+              filters: [{ dataSize: WHIRLPOOL_LAYOUT.span }],
             }
           );
         } catch (error: any) {
@@ -94,8 +110,7 @@ export class OrcaFetcher extends BasePoolFetcher {
           console.log(`[${this.dex}] Using standard getProgramAccounts (not using Helius)`);
           const programPubkey = new PublicKey(programId);
           const standardAccounts = await connection.getProgramAccounts(programPubkey, {
-            filters: [{ dataSize: 653 }],
-            dataSlice: { offset: 0, length: 653 },
+            filters: [{ dataSize: WHIRLPOOL_LAYOUT.span }],
             commitment: 'confirmed',
           });
           
@@ -119,19 +134,12 @@ export class OrcaFetcher extends BasePoolFetcher {
         console.error(`[${this.dex}] Cannot fetch pools - Helius failed and cannot fallback`);
       }
 
-      // Process all accounts
-      const accountsToProcess = accounts || [];
-      
-      for (const account of accountsToProcess) {
-        try {
-          const pool = await this.parseWhirlpoolAccount(connection, account.pubkey.toString(), account.account.data);
-          if (pool) {
-            pools.push(pool);
-          }
-        } catch (error) {
-          errors.push(this.handleError(error, `Parsing whirlpool ${account.pubkey.toString()}`));
-        }
-      }
+      // Decode every whirlpool, then load vaults, mints and tick arrays in batches
+      const accountsToProcess: RawWhirlpoolAccount[] = (accounts || []).map(account => ({
+        pubkey: account.pubkey.toString(),
+        data: Buffer.isBuffer(account.account.data) ? account.account.data : Buffer.from(account.account.data),
+      }));
+      pools.push(...(await this.decodePools(connection, accountsToProcess, errors, SCAN_TICK_ARRAY_RADIUS)));
 
     } catch (error) {
       errors.push(this.handleError(error, 'fetchPools'));
@@ -148,50 +156,175 @@ export class OrcaFetcher extends BasePoolFetcher {
     try {
       const poolPubkey = new PublicKey(poolId);
       const accountInfo = await connection.getAccountInfo(poolPubkey);
-      
-      if (!accountInfo) {
+
+      if (!accountInfo || accountInfo.owner.toString() !== ORCA_WHIRLPOOL_PROGRAM_ID) {
         return null;
       }
 
-      return await this.parseWhirlpoolAccount(connection, poolId, accountInfo.data);
+      const [pool] = await this.decodePools(
+        connection,
+        [{ pubkey: poolId, data: accountInfo.data }],
+        [],
+        POOL_TICK_ARRAY_RADIUS
+      );
+      return pool ?? null;
     } catch (error) {
       this.handleError(error, `fetchPoolById ${poolId}`);
       return null;
     }
   }
 
-  private async parseWhirlpoolAccount(
+  /**
+   * Decode whirlpools, resolve vaults and mints for all of them in one batched pass,
+   * then attach the tick arrays around each current tick
+   */
+  private async decodePools(
     connection: Connection,
-    poolAddress: string,
-    data: Buffer
-  ): Promise<PoolData | null> {
-    try {
-      if (data.length < 653) {
-        return null;
+    accounts: RawWhirlpoolAccount[],
+    errors: string[],
+    tickArrayRadius: number
+  ): Promise<PoolData[]> {
+    const states: Array<{ pubkey: string; state: WhirlpoolState }> = [];
+    for (const account of accounts) {
+      try {
+        const state = decodeWhirlpool(account.data);
+        // Pools without in-range liquidity cannot be quoted
+        if (state.liquidity > BigInt(0)) {
+          states.push({ pubkey: account.pubkey, state });
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Parsing whirlpool ${account.pubkey}`));
       }
+    }
 
-      // Whirlpool structure parsing (simplified)
-      // Real implementation would use Anchor IDL or proper deserialization
-      // For now, return null as placeholder
-      // In production, parse:
-      // - tokenMintA (offset 8)
-      // - tokenVaultA (offset 40)
-      // - feeRate (offset 72)
-      // - tickSpacing (offset 76)
-      // - liquidity (offset 80)
-      // - sqrtPrice (offset 88)
-      // - tickCurrentIndex (offset 96)
-      // - protocolFeeOwedA (offset 100)
-      // - protocolFeeOwedB (offset 108)
-      // - tokenMintB (offset 116)
-      // - tokenVaultB (offset 148)
-      // ... etc
+    const dependents = await this.loadAccounts(
+      connection,
+      states.flatMap(({ state }) => [state.tokenVaultA, state.tokenVaultB, state.tokenMintA, state.tokenMintB])
+    );
 
-      return null;
+    const pools: PoolData[] = [];
+    for (const { pubkey, state } of states) {
+      try {
+        const pool = this.toPoolData(pubkey, state, dependents);
+        if (pool) {
+          pools.push(pool);
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Building whirlpool ${pubkey}`));
+      }
+    }
+
+    try {
+      return await this.loadTickArrays(connection, pools, tickArrayRadius);
     } catch (error) {
-      this.handleError(error, `parseWhirlpoolAccount ${poolAddress}`);
+      errors.push(this.handleError(error, 'loadTickArrays'));
+      return pools;
+    }
+  }
+
+  /**
+   * Attach initialized ticks from the tick arrays around each pool's current tick
+   */
+  async loadTickArrays(
+    connection: Connection,
+    pools: PoolData[],
+    radius: number = POOL_TICK_ARRAY_RADIUS
+  ): Promise<PoolData[]> {
+    const startsByPool = pools.map(pool => {
+      if (pool.curve?.kind !== 'concentrated' || !pool.poolAddress) return [];
+
+      const ticksInArray = pool.curve.tickSpacing * WHIRLPOOL_TICK_ARRAY_SIZE;
+      const currentStart = getWhirlpoolTickArrayStartIndex(pool.curve.tickCurrentIndex, pool.curve.tickSpacing);
+      const starts: number[] = [];
+      for (let offset = -radius; offset <= radius; offset++) {
+        starts.push(currentStart + offset * ticksInArray);
+      }
+      return starts;
+    });
+    const addressesByPool = pools.map((pool, i) =>
+      startsByPool[i].map(start => deriveWhirlpoolTickArray(new PublicKey(pool.poolAddress!), start))
+    );
+
+    const accounts = await this.loadAccounts(connection, addressesByPool.flat());
+
+    return pools.map((pool, i) => {
+      if (pool.curve?.kind !== 'concentrated' || startsByPool[i].length === 0) return pool;
+
+      const ticks: TickData[] = [];
+      try {
+        for (const address of addressesByPool[i]) {
+          const info = accounts.get(address.toString());
+          if (!info) continue; // Uninitialized tick arrays hold no initialized ticks
+          for (const tick of decodeWhirlpoolTickArray(info.data, pool.curve.tickSpacing).ticks) {
+            ticks.push({ index: tick.index, liquidityNet: tick.liquidityNet });
+          }
+        }
+      } catch (error) {
+        // Tick arrays in another format: quote the current tick-spacing range only
+        this.handleError(error, `Decoding tick arrays for ${pool.poolAddress}`);
+        return pool;
+      }
+
+      const ticksInArray = pool.curve.tickSpacing * WHIRLPOOL_TICK_ARRAY_SIZE;
+      const starts = startsByPool[i];
+      return {
+        ...pool,
+        curve: {
+          ...pool.curve,
+          ticks: ticks.sort((a, b) => a.index - b.index),
+          tickRange: { lower: starts[0], upper: starts[starts.length - 1] + ticksInArray },
+        },
+      };
+    });
+  }
+
+  private toPoolData(
+    poolAddress: string,
+    state: WhirlpoolState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const vaultAInfo = accounts.get(state.tokenVaultA.toString());
+    const vaultBInfo = accounts.get(state.tokenVaultB.toString());
+    const decimalsA = this.readMintDecimals(accounts, state.tokenMintA);
+    const decimalsB = this.readMintDecimals(accounts, state.tokenMintB);
+    if (!vaultAInfo || !vaultBInfo || decimalsA === null || decimalsB === null) {
       return null;
     }
+
+    // Protocol fees owed sit in the vaults until collected
+    const reserveA = decodeTokenAccountAmount(vaultAInfo.data) - state.protocolFeeOwedA;
+    const reserveB = decodeTokenAccountAmount(vaultBInfo.data) - state.protocolFeeOwedB;
+    const mintAddressA = state.tokenMintA.toString();
+    const mintAddressB = state.tokenMintB.toString();
+
+    const sqrtPrice = Number(state.sqrtPrice) / Math.pow(2, 64);
+    const price = sqrtPrice * sqrtPrice * Math.pow(10, decimalsA - decimalsB);
+
+    return {
+      id: `orca-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintAddressA, symbol: this.getTokenSymbol(mintAddressA), decimals: decimalsA },
+      tokenB: { mint: mintAddressB, symbol: this.getTokenSymbol(mintAddressB), decimals: decimalsB },
+      reserves: {
+        tokenA: reserveA > BigInt(0) ? reserveA : BigInt(0),
+        tokenB: reserveB > BigInt(0) ? reserveB : BigInt(0),
+      },
+      price,
+      fee: state.feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: ORCA_WHIRLPOOL_PROGRAM_ID,
+      poolAddress,
+      curve: {
+        kind: 'concentrated',
+        sqrtPriceX64: state.sqrtPrice,
+        liquidity: state.liquidity,
+        tickCurrentIndex: state.tickCurrentIndex,
+        tickSpacing: state.tickSpacing,
+        feeRate: state.feeRate, // Hundredths of a basis point
+      },
+    };
   }
 }
-
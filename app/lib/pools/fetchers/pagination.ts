@@ -142,6 +142,15 @@ export async function fetchAllProgramAccountsV2(
           else if (accountData.data instanceof Uint8Array || (typeof Buffer !== 'undefined' && Buffer.isBuffer(accountData.data))) {
             data = accountData.data;
           } 
+          // Standard RPC tuple format: [data, encoding]
+          else if (
+            Array.isArray(accountData.data) &&
+            accountData.data[1] === 'base64' &&
+            typeof accountData.data[0] === 'string' &&
+            typeof Buffer !== 'undefined'
+          ) {
+            data = Buffer.from(accountData.data[0], 'base64');
+          }
           // Array format (base58 or other)
           else if (Array.isArray(accountData.data)) {
             data = new Uint8Array(accountData.data);
@@ -289,6 +298,15 @@ export async function fetchAllProgramAccountsV2WithProgress(
           else if (accountData.data instanceof Uint8Array || (typeof Buffer !== 'undefined' && Buffer.isBuffer(accountData.data))) {
             data = accountData.data;
           } 
+          // Standard RPC tuple format: [data, encoding]
+          else if (
+            Array.isArray(accountData.data) &&
+            accountData.data[1] === 'base64' &&
+            typeof accountData.data[0] === 'string' &&
+            typeof Buffer !== 'undefined'
+          ) {
+            data = Buffer.from(accountData.data[0], 'base64');
+          }
           // Array format (base58 or other)
           else if (Array.isArray(accountData.data)) {
             data = new Uint8Array(accountData.data);
@@ -1,147 +1,66 @@
-// Raydium AMM pool fetcher
+// Raydium pool fetchers: AMM v4, CLMM and CPMM
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
 import { BasePoolFetcher } from './base';
-import { PoolData, FetcherResult, DEXProtocol } from '../types';
+import { PoolData, FetcherResult, DEXProtocol, TickData } from '../types';
 import { fetchAllProgramAccountsV2 } from './pagination';
+import {
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  RAYDIUM_CLMM_PROGRAM_ID,
+  RAYDIUM_CPMM_PROGRAM_ID,
+  AMM_V4_POOL_LAYOUT,
+  CLMM_POOL_LAYOUT,
+  CPMM_POOL_LAYOUT,
+  TICK_ARRAY_SIZE,
+  AmmV4PoolState,
+  ClmmPoolState,
+  CpmmPoolState,
+  decodeAmmV4Pool,
+  decodeClmmPool,
+  decodeClmmConfig,
+  decodeClmmTickArray,
+  decodeCpmmPool,
+  decodeCpmmConfig,
+  decodeTokenAccountAmount,
+  deriveTickArrayAddress,
+  getTickArrayStartIndex,
+  isAmmV4Swappable,
+  isClmmSwappable,
+  isCpmmSwappable,
+} from '../layouts/raydium';
 
-// Raydium AMM program ID
-const RAYDIUM_AMM_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+// Tick arrays loaded on each side of the current one when a single CLMM pool is fetched
+const CLMM_TICK_ARRAY_RADIUS = 2;
 
-// Known Raydium pool addresses (we'll fetch dynamically, but these are examples)
-const KNOWN_POOLS: string[] = [
-  // Add known pool addresses here if needed
-];
+interface RawProgramAccount {
+  pubkey: string;
+  data: Buffer;
+}
 
-export class RaydiumFetcher extends BasePoolFetcher {
-  dex: DEXProtocol = 'raydium';
+/**
+ * Shared account loading for Raydium programs: paginated program account scan,
+ * then every dependent account (vaults, configs, tick arrays) in batched
+ * getMultipleAccountsInfo calls.
+ */
+abstract class RaydiumProgramFetcher<TState> extends BasePoolFetcher {
+  protected abstract programId: string;
+  protected abstract accountSize: number;
+
+  protected abstract decodeState(data: Buffer): TState | null;
+  protected abstract dependentAccounts(state: TState): PublicKey[];
+  protected abstract toPoolData(
+    poolAddress: string,
+    state: TState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null;
 
   async fetchPools(connection: Connection): Promise<FetcherResult> {
     const pools: PoolData[] = [];
     const errors: string[] = [];
 
     try {
-      // Fetch program accounts for Raydium AMM using getProgramAccountsV2 with pagination
-      const programId = RAYDIUM_AMM_PROGRAM_ID;
-      
-      // Use Helius RPC if available, otherwise fall back to standard RPC
-      const rpcUrl = this.getRpcUrl(connection);
-      const useHelius = rpcUrl.includes('helius') || !!process.env.NEXT_PUBLIC_HELIUS_API_KEY;
-      
-      let accounts;
-      
-      if (useHelius) {
-        // Use Helius API with getProgramAccountsV2 pagination
-        // Don't add API key again if URL already has it
-        let heliusRpcUrl = rpcUrl;
-        
-        // Only add API key if URL doesn't already have one
-        if (!heliusRpcUrl.includes('api-key') && process.env.NEXT_PUBLIC_HELIUS_API_KEY) {
-          // Extract just the API key if env var is accidentally set to full URL
-          let apiKey = process.env.NEXT_PUBLIC_HELIUS_API_KEY;
-          try {
-            // Parse as URL and check hostname
-            const url = new URL(apiKey);
-            const hostname = url.hostname;
-            if (
-              hostname === 'helius-rpc.com' ||
-              hostname.endsWith('.helius-rpc.com')
-            ) {
-              // Only extract the API key if the host is a valid Helius RPC host
-              apiKey = url.searchParams.get('api-key') || apiKey;
-            }
-          } catch (e) {
-            // Not a valid URL; fallback to manual extraction
-            if (apiKey.includes('helius-rpc.com')) {
-              const match = apiKey.match(/[?&]api-key=([^&]+)/);
-              apiKey = match ? match[1] : apiKey.split('api-key=')[1]?.split('&')[0] || apiKey;
-            }
-          }
-          
-          const separator = heliusRpcUrl.includes('?') ? '&' : '?';
-          heliusRpcUrl = `${heliusRpcUrl}${separator}api-key=${apiKey}`;
-        }
-        
-        try {
-          accounts = await fetchAllProgramAccountsV2(
-            heliusRpcUrl,
-            programId,
-            {
-              limit: 1000, // Fetch in batches of 1000
-              encoding: 'jsonParsed',
-              filters: [
-                {
-                  dataSize: 752, // Raydium AMM pool account size
-                },
-              ],
-              dataSlice: {
-                offset: 0,
-                length: 752,
-              },
-            }
-          );
-        } catch (error: any) {
-          // If Helius method fails (403, rate limit, etc.), fallback to standard method
-          const errorMsg = error?.message || String(error);
-          if (errorMsg.includes('403') || errorMsg.includes('Forbidden') || errorMsg.includes('401')) {
-            console.warn(`[${this.dex}] Helius getProgramAccountsV2 failed (${errorMsg}), falling back to standard method`);
-            // Fall through to standard method below
-          } else {
-            throw error; // Re-throw if it's a different error
-          }
-        }
-      }
-      
-      // Fallback to standard getProgramAccounts if Helius failed or not using Helius
-      if (!accounts) {
-        // Fallback to standard getProgramAccounts (limited)
-        const programPubkey = new PublicKey(programId);
-        const standardAccounts = await connection.getProgramAccounts(programPubkey, {
-          filters: [{ dataSize: 752 }],
-          dataSlice: { offset: 0, length: 752 },
-        });
-        
-        // Transform to match pagination format
-        accounts = standardAccounts.map(acc => ({
-          pubkey: acc.pubkey.toString(),
-          account: {
-            data: acc.account.data,
-            executable: acc.account.executable,
-            owner: acc.account.owner.toString(),
-            lamports: acc.account.lamports,
-            rentEpoch: acc.account.rentEpoch,
-          },
-        }));
-      }
-
-      // Process all accounts (no longer limited to 50)
-      const accountsToProcess = accounts;
-      
-      for (const account of accountsToProcess) {
-        try {
-          const pool = await this.parsePoolAccount(connection, account.pubkey.toString(), account.account.data);
-          if (pool) {
-            pools.push(pool);
-          }
-        } catch (error) {
-          errors.push(this.handleError(error, `Parsing pool ${account.pubkey.toString()}`));
-        }
-      }
-
-      // If we didn't get pools from on-chain, try known pools
-      if (pools.length === 0 && KNOWN_POOLS.length > 0) {
-        for (const poolAddress of KNOWN_POOLS.slice(0, 10)) {
-          try {
-            const pool = await this.fetchPoolById(connection, poolAddress);
-            if (pool) {
-              pools.push(pool);
-            }
-          } catch (error) {
-            errors.push(this.handleError(error, `Fetching known pool ${poolAddress}`));
-          }
-        }
-      }
-
+      const accounts = await this.fetchProgramAccounts(connection);
+      pools.push(...(await this.decodePools(connection, accounts, errors)));
     } catch (error) {
       errors.push(this.handleError(error, 'fetchPools'));
     }
@@ -157,76 +76,386 @@ export class RaydiumFetcher extends BasePoolFetcher {
     try {
       const poolPubkey = new PublicKey(poolId);
       const accountInfo = await connection.getAccountInfo(poolPubkey);
-      
-      if (!accountInfo) {
+
+      if (!accountInfo || accountInfo.owner.toString() !== this.programId) {
         return null;
       }
 
-      return await this.parsePoolAccount(connection, poolId, accountInfo.data);
+      const [pool] = await this.decodePools(connection, [{ pubkey: poolId, data: accountInfo.data }], []);
+      return pool ?? null;
     } catch (error) {
       this.handleError(error, `fetchPoolById ${poolId}`);
       return null;
     }
   }
 
-  private async parsePoolAccount(
+  /**
+   * Decode pool states, then resolve all their dependent accounts in one batched pass
+   */
+  protected async decodePools(
     connection: Connection,
-    poolAddress: string,
-    data: Buffer
-  ): Promise<PoolData | null> {
-    try {
-      // Raydium AMM pool structure (simplified parsing)
-      // Offset 0-32: poolCoinTokenAccount
-      // Offset 32-64: poolPcTokenAccount
-      // Offset 64-72: coinDecimals
-      // Offset 72-80: pcDecimals
-      // Offset 80-88: lpSupply
-      // Offset 88-96: ammOpenOrders
-      // Offset 96-104: serumMarket
-      // Offset 104-112: poolCoinTokenAccountVault
-      // Offset 112-120: poolPcTokenAccountVault
-      // Offset 120-128: poolWithdrawQueue
-      // Offset 128-136: poolTempLpTokenAccount
-      // Offset 136-144: ammTargetOrders
-      // Offset 144-152: poolCoinTokenAccountMint
-      // Offset 152-160: poolPcTokenAccountMint
-      // Offset 160-168: poolCoinTokenAccountProgramId
-      // Offset 168-176: poolPcTokenAccountProgramId
-      // Offset 176-184: ammTargetOrders
-      // Offset 184-192: poolWithdrawQueue
-      // Offset 192-200: ammOpenOrders
-      // Offset 200-208: poolCoinTokenAccountVault
-      // Offset 208-216: poolPcTokenAccountVault
-      // Offset 216-224: poolWithdrawQueue
-      // Offset 224-232: poolTempLpTokenAccount
-      // Offset 232-240: ammTargetOrders
-      // Offset 240-248: poolCoinTokenAccountMint
-      // Offset 248-256: poolPcTokenAccountMint
-      // ... (continues)
-
-      if (data.length < 752) {
-        return null;
+    accounts: RawProgramAccount[],
+    errors: string[]
+  ): Promise<PoolData[]> {
+    const states: Array<{ pubkey: string; state: TState }> = [];
+    for (const account of accounts) {
+      try {
+        const state = this.decodeState(account.data);
+        if (state) {
+          states.push({ pubkey: account.pubkey, state });
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Parsing pool ${account.pubkey}`));
       }
+    }
+
+    const dependents = await this.loadAccounts(
+      connection,
+      states.flatMap(({ state }) => this.dependentAccounts(state))
+    );
+
+    const pools: PoolData[] = [];
+    for (const { pubkey, state } of states) {
+      try {
+        const pool = this.toPoolData(pubkey, state, dependents);
+        if (pool) {
+          pools.push(pool);
+        }
+      } catch (error) {
+        errors.push(this.handleError(error, `Building pool ${pubkey}`));
+      }
+    }
+    return pools;
+  }
+
+  protected readAmount(accounts: Map<string, AccountInfo<Buffer> | null>, vault: PublicKey): bigint | null {
+    const info = accounts.get(vault.toString());
+    return info ? decodeTokenAccountAmount(info.data) : null;
+  }
+
+  /**
+   * Scan the program's pool accounts, via Helius getProgramAccountsV2 when available
+   */
+  private async fetchProgramAccounts(connection: Connection): Promise<RawProgramAccount[]> {
+    const rpcUrl = this.getRpcUrl(connection);
+    const useHelius = rpcUrl.includes('helius') || !!process.env.NEXT_PUBLIC_HELIUS_API_KEY;
+
+    if (useHelius) {
+      // Don't add API key again if URL already has it
+      let heliusRpcUrl = rpcUrl;
+
+      // Only add API key if URL doesn't already have one
+      if (!heliusRpcUrl.includes('api-key') && process.env.NEXT_PUBLIC_HELIUS_API_KEY) {
+        // Extract just the API key if env var is accidentally set to full URL
+        let apiKey = process.env.NEXT_PUBLIC_HELIUS_API_KEY;
+        try {
+          // Parse as URL and check hostname
+          const url = new URL(apiKey);
+          const hostname = url.hostname;
+          if (
+            hostname === 'helius-rpc.com' ||
+            hostname.endsWith('.helius-rpc.com')
+          ) {
+            // Only extract the API key if the host is a valid Helius RPC host
+            apiKey = url.searchParams.get('api-key') || apiKey;
+          }
+        } catch (e) {
+          // Not a valid URL; fallback to manual extraction
+          if (apiKey.includes('helius-rpc.com')) {
+            const match = apiKey.match(/[?&]api-key=([^&]+)/);
+            apiKey = match ? match[1] : apiKey.split('api-key=')[1]?.split('&')[0] || apiKey;
+          }
+        }
+
+        const separator = heliusRpcUrl.includes('?') ? '&' : '?';
+        heliusRpcUrl = `${heliusRpcUrl}${separator}api-key=${apiKey}`;
+      }
+
+      try {
+        const accounts = await fetchAllProgramAccountsV2(heliusRpcUrl, this.programId, {
+          limit: 1000, // Fetch in batches of 1000
+          encoding: 'base64', // Raw bytes for layout decoding
+          filters: [{ dataSize: this.accountSize }],
+        });
+
+        return accounts.map(account => ({
+          pubkey: account.pubkey.toString(),
+          data: Buffer.isBuffer(account.account.data)
+            ? account.account.data
+            : Buffer.from(account.account.data),
+        }));
+      } catch (error: any) {
+        // If Helius method fails (403, rate limit, etc.), fallback to standard method
+        const errorMsg = error?.message || String(error);
+        if (errorMsg.includes('403') || errorMsg.includes('Forbidden') || errorMsg.includes('401')) {
+          console.warn(`[${this.dex}] Helius getProgramAccountsV2 failed (${errorMsg}), falling back to standard method`);
+        } else {
+          throw error; // Re-throw if it's a different error
+        }
+      }
+    }
+
+    const standardAccounts = await connection.getProgramAccounts(new PublicKey(this.programId), {
+      filters: [{ dataSize: this.accountSize }],
+    });
+
+    return standardAccounts.map(acc => ({
+      pubkey: acc.pubkey.toString(),
+      data: acc.account.data,
+    }));
+  }
+}
+
+/**
+ * Raydium AMM v4 (constant product, OpenBook-backed) pools
+ */
+export class RaydiumFetcher extends RaydiumProgramFetcher<AmmV4PoolState> {
+  dex: DEXProtocol = 'raydium';
+  protected programId = RAYDIUM_AMM_V4_PROGRAM_ID;
+  protected accountSize = AMM_V4_POOL_LAYOUT.span;
+
+  protected decodeState(data: Buffer): AmmV4PoolState | null {
+    const state = decodeAmmV4Pool(data);
+    return isAmmV4Swappable(state) ? state : null;
+  }
+
+  protected dependentAccounts(state: AmmV4PoolState): PublicKey[] {
+    return [state.baseVault, state.quoteVault];
+  }
 
-      // Extract mint addresses (simplified - actual parsing would need proper deserialization)
-      const mintAOffset = 144;
-      const mintBOffset = 152;
-      
-      // For now, we'll use a placeholder approach
-      // In production, you'd want to use proper Anchor IDL or deserialization
-      
-      // Try to get token accounts from the pool
-      const tokenAccountAOffset = 0;
-      const tokenAccountBOffset = 32;
-      
-      // This is a simplified version - real implementation would parse the full structure
-      // For now, return null and let the scanner handle it gracefully
+  protected toPoolData(
+    poolAddress: string,
+    state: AmmV4PoolState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const baseVaultAmount = this.readAmount(accounts, state.baseVault);
+    const quoteVaultAmount = this.readAmount(accounts, state.quoteVault);
+    if (baseVaultAmount === null || quoteVaultAmount === null || state.swapFeeDenominator === BigInt(0)) {
       return null;
-      
-    } catch (error) {
-      this.handleError(error, `parsePoolAccount ${poolAddress}`);
+    }
+
+    // PnL owed to the protocol sits in the vaults but is not tradable liquidity
+    const reserveA = baseVaultAmount - state.baseNeedTakePnl;
+    const reserveB = quoteVaultAmount - state.quoteNeedTakePnl;
+    if (reserveA <= BigInt(0) || reserveB <= BigInt(0)) {
       return null;
     }
+
+    const decimalsA = Number(state.baseDecimal);
+    const decimalsB = Number(state.quoteDecimal);
+    const mintA = state.baseMint.toString();
+    const mintB = state.quoteMint.toString();
+    const feeRate = Number((state.swapFeeNumerator * BigInt(1_000_000)) / state.swapFeeDenominator);
+
+    return {
+      id: `raydium-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintA, symbol: this.getTokenSymbol(mintA), decimals: decimalsA },
+      tokenB: { mint: mintB, symbol: this.getTokenSymbol(mintB), decimals: decimalsB },
+      reserves: { tokenA: reserveA, tokenB: reserveB },
+      price: this.calculatePrice(reserveA, reserveB, decimalsA, decimalsB),
+      fee: feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: this.programId,
+      poolAddress,
+      curve: { kind: 'constant_product', feeRate },
+    };
   }
 }
 
+/**
+ * Raydium CPMM (constant product, Token-2022 capable) pools
+ */
+export class RaydiumCpmmFetcher extends RaydiumProgramFetcher<CpmmPoolState> {
+  dex: DEXProtocol = 'raydium_cpmm';
+  protected programId = RAYDIUM_CPMM_PROGRAM_ID;
+  protected accountSize = CPMM_POOL_LAYOUT.span;
+
+  protected decodeState(data: Buffer): CpmmPoolState | null {
+    const state = decodeCpmmPool(data);
+    return isCpmmSwappable(state) ? state : null;
+  }
+
+  protected dependentAccounts(state: CpmmPoolState): PublicKey[] {
+    return [state.token0Vault, state.token1Vault, state.ammConfig];
+  }
+
+  protected toPoolData(
+    poolAddress: string,
+    state: CpmmPoolState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const vault0Amount = this.readAmount(accounts, state.token0Vault);
+    const vault1Amount = this.readAmount(accounts, state.token1Vault);
+    const configInfo = accounts.get(state.ammConfig.toString());
+    if (vault0Amount === null || vault1Amount === null || !configInfo) {
+      return null;
+    }
+
+    // Accrued protocol and fund fees are held in the vaults until collected
+    const reserveA = vault0Amount - state.protocolFeesToken0 - state.fundFeesToken0;
+    const reserveB = vault1Amount - state.protocolFeesToken1 - state.fundFeesToken1;
+    if (reserveA <= BigInt(0) || reserveB <= BigInt(0)) {
+      return null;
+    }
+
+    const config = decodeCpmmConfig(configInfo.data);
+    const feeRate = Number(config.tradeFeeRate);
+    const decimalsA = state.mint0Decimals;
+    const decimalsB = state.mint1Decimals;
+    const mintA = state.token0Mint.toString();
+    const mintB = state.token1Mint.toString();
+
+    return {
+      id: `raydium_cpmm-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintA, symbol: this.getTokenSymbol(mintA), decimals: decimalsA },
+      tokenB: { mint: mintB, symbol: this.getTokenSymbol(mintB), decimals: decimalsB },
+      reserves: { tokenA: reserveA, tokenB: reserveB },
+      price: this.calculatePrice(reserveA, reserveB, decimalsA, decimalsB),
+      fee: feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: this.programId,
+      poolAddress,
+      curve: { kind: 'constant_product', feeRate },
+    };
+  }
+}
+
+/**
+ * Raydium CLMM (concentrated liquidity) pools. Pool scans quote the current tick
+ * range only; fetchPoolById also loads the surrounding tick arrays.
+ */
+export class RaydiumClmmFetcher extends RaydiumProgramFetcher<ClmmPoolState> {
+  dex: DEXProtocol = 'raydium_clmm';
+  protected programId = RAYDIUM_CLMM_PROGRAM_ID;
+  protected accountSize = CLMM_POOL_LAYOUT.span;
+
+  async fetchPoolById(connection: Connection, poolId: string): Promise<PoolData | null> {
+    const pool = await super.fetchPoolById(connection, poolId);
+    if (!pool) {
+      return null;
+    }
+
+    try {
+      const [withTicks] = await this.loadTickArrays(connection, [pool]);
+      return withTicks;
+    } catch (error) {
+      this.handleError(error, `loadTickArrays ${poolId}`);
+      return pool;
+    }
+  }
+
+  /**
+   * Attach initialized ticks from the tick arrays around each pool's current tick
+   */
+  async loadTickArrays(
+    connection: Connection,
+    pools: PoolData[],
+    radius: number = CLMM_TICK_ARRAY_RADIUS
+  ): Promise<PoolData[]> {
+    const addressesByPool = pools.map(pool => {
+      if (pool.curve?.kind !== 'concentrated' || !pool.poolAddress) return [];
+
+      const poolKey = new PublicKey(pool.poolAddress);
+      const ticksInArray = pool.curve.tickSpacing * TICK_ARRAY_SIZE;
+      const currentStart = getTickArrayStartIndex(pool.curve.tickCurrentIndex, pool.curve.tickSpacing);
+      const addresses: PublicKey[] = [];
+      for (let offset = -radius; offset <= radius; offset++) {
+        addresses.push(deriveTickArrayAddress(poolKey, currentStart + offset * ticksInArray));
+      }
+      return addresses;
+    });
+
+    const accounts = await this.loadAccounts(connection, addressesByPool.flat());
+
+    return pools.map((pool, i) => {
+      if (pool.curve?.kind !== 'concentrated') return pool;
+
+      const ticks: TickData[] = [];
+      for (const address of addressesByPool[i]) {
+        const info = accounts.get(address.toString());
+        if (!info) continue; // Uninitialized tick arrays hold no liquidity
+        for (const tick of decodeClmmTickArray(info.data).ticks) {
+          ticks.push({ index: tick.index, liquidityNet: tick.liquidityNet });
+        }
+      }
+
+      const ticksInArray = pool.curve.tickSpacing * TICK_ARRAY_SIZE;
+      const currentStart = getTickArrayStartIndex(pool.curve.tickCurrentIndex, pool.curve.tickSpacing);
+      return {
+        ...pool,
+        curve: {
+          ...pool.curve,
+          ticks: ticks.sort((a, b) => a.index - b.index),
+          tickRange: {
+            lower: currentStart - radius * ticksInArray,
+            upper: currentStart + (radius + 1) * ticksInArray,
+          },
+        },
+      };
+    });
+  }
+
+  protected decodeState(data: Buffer): ClmmPoolState | null {
+    const state = decodeClmmPool(data);
+    return isClmmSwappable(state) && state.liquidity > BigInt(0) ? state : null;
+  }
+
+  protected dependentAccounts(state: ClmmPoolState): PublicKey[] {
+    return [state.tokenVault0, state.tokenVault1, state.ammConfig];
+  }
+
+  protected toPoolData(
+    poolAddress: string,
+    state: ClmmPoolState,
+    accounts: Map<string, AccountInfo<Buffer> | null>
+  ): PoolData | null {
+    const reserveA = this.readAmount(accounts, state.tokenVault0);
+    const reserveB = this.readAmount(accounts, state.tokenVault1);
+    const configInfo = accounts.get(state.ammConfig.toString());
+    if (reserveA === null || reserveB === null || !configInfo) {
+      return null;
+    }
+
+    const config = decodeClmmConfig(configInfo.data);
+    const feeRate = config.tradeFeeRate;
+    const decimalsA = state.mintDecimals0;
+    const decimalsB = state.mintDecimals1;
+    const mintA = state.tokenMint0.toString();
+    const mintB = state.tokenMint1.toString();
+
+    const sqrtPrice = Number(state.sqrtPriceX64) / Math.pow(2, 64);
+    const price = sqrtPrice * sqrtPrice * Math.pow(10, decimalsA - decimalsB);
+
+    return {
+      id: `raydium_clmm-${poolAddress}`,
+      dex: this.dex,
+      tokenA: { mint: mintA, symbol: this.getTokenSymbol(mintA), decimals: decimalsA },
+      tokenB: { mint: mintB, symbol: this.getTokenSymbol(mintB), decimals: decimalsB },
+      reserves: { tokenA: reserveA, tokenB: reserveB },
+      price,
+      fee: feeRate / 100,
+      volume24h: 0,
+      tvl: 0,
+      recentTrades: [],
+      lastUpdated: new Date(),
+      programId: this.programId,
+      poolAddress,
+      curve: {
+        kind: 'concentrated',
+        sqrtPriceX64: state.sqrtPriceX64,
+        liquidity: state.liquidity,
+        tickCurrentIndex: state.tickCurrent,
+        tickSpacing: state.tickSpacing,
+        feeRate,
+      },
+    };
+  }
+}
@@ -3,6 +3,7 @@
 
 import { Connection } from '@solana/web3.js';
 import { PoolData, ArbitragePath, ArbitrageStep, TokenInfo, ArbitrageOpportunity } from './types';
+import { NegativeCycleDetector, NegativeCycle } from './negative-cycle-detector';
 
 interface GraphNode {
   token: TokenInfo;
@@ -31,12 +32,14 @@ export class GraphArbitrageDetector {
   private connection: Connection;
   private graph: Map<string, GraphNode>; // token mint -> node
   private edges: Map<string, GraphEdge[]>; // token mint -> outgoing edges
+  private cycleDetector: NegativeCycleDetector; // Log-price weighted view of the same graph
 
   constructor(pools: PoolData[], connection: Connection) {
     this.pools = pools;
     this.connection = connection;
     this.graph = new Map();
     this.edges = new Map();
+    this.cycleDetector = new NegativeCycleDetector(pools);
     this.buildGraph();
   }
 
@@ -123,36 +126,23 @@ export class GraphArbitrageDetector {
   }
 
   /**
-   * Find cycles in the graph using DFS
+   * Find profitable cycles through startToken via negative-cycle search on log prices
    */
   private findCycles(startToken: string, maxHops: number): Array<GraphEdge[]> {
-    const cycles: Array<GraphEdge[]> = [];
-    const visited = new Set<string>();
-    const path: GraphEdge[] = [];
-
-    const dfs = (currentToken: string, targetToken: string, hops: number) => {
-      if (hops > maxHops) return;
-      if (hops > 0 && currentToken === targetToken) {
-        // Found a cycle
-        cycles.push([...path]);
-        return;
-      }
-
-      if (visited.has(currentToken)) return;
-      visited.add(currentToken);
-
-      const outgoingEdges = this.edges.get(currentToken) || [];
-      for (const edge of outgoingEdges) {
-        path.push(edge);
-        dfs(edge.tokenOut.mint, targetToken, hops + 1);
-        path.pop();
-      }
-
-      visited.delete(currentToken);
-    };
+    return this.cycleDetector
+      .findCyclesThrough(startToken, maxHops)
+      .map(cycle => this.toGraphEdges(cycle, startToken));
+  }
 
-    dfs(startToken, startToken, 0);
-    return cycles;
+  /**
+   * Convert a detected cycle into this graph's edges, starting at startToken
+   */
+  private toGraphEdges(cycle: NegativeCycle, startToken: string): GraphEdge[] {
+    const offset = Math.max(0, cycle.tokens.findIndex(token => token.mint === startToken));
+    const edges = cycle.pools.map((pool, i) =>
+      (this.edges.get(cycle.tokens[i].mint) || []).find(edge => edge.pool.id === pool.id)!
+    );
+    return [...edges.slice(offset), ...edges.slice(0, offset)].filter(Boolean);
   }
 
   /**
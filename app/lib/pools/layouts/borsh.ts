@@ -0,0 +1,116 @@
+// Minimal typed borsh struct layouts for fixed-size on-chain accounts
+// Fields are declared in on-chain order, so offsets are derived rather than hand-written.
+
+import { PublicKey } from '@solana/web3.js';
+
+const FIELD_SIZES = {
+  u8: 1,
+  bool: 1,
+  u16: 2,
+  i32: 4,
+  u32: 4,
+  u64: 8,
+  i64: 8,
+  u128: 16,
+  i128: 16,
+  pubkey: 32,
+} as const;
+
+export type BorshPrimitive = keyof typeof FIELD_SIZES;
+
+// A field is either a primitive or a number of padding/unused bytes
+export type LayoutField = readonly [name: string, type: BorshPrimitive | number];
+export type LayoutSpec = readonly LayoutField[];
+
+type FieldValue<T> = T extends 'pubkey'
+  ? PublicKey
+  : T extends 'u64' | 'i64' | 'u128' | 'i128'
+    ? bigint
+    : T extends 'bool'
+      ? boolean
+      : T extends BorshPrimitive
+        ? number
+        : never;
+
+export type Decoded<S extends LayoutSpec> = {
+  [F in S[number] as F[1] extends BorshPrimitive ? F[0] : never]: FieldValue<F[1]>;
+};
+
+export type FieldName<S extends LayoutSpec> = S[number][0];
+
+export class BorshLayout<S extends LayoutSpec> {
+  readonly span: number;
+  private offsets: Map<string, number>;
+
+  /**
+   * @param name Account name, used in error messages
+   * @param fields Fields in on-chain order
+   * @param discriminator Anchor account discriminator expected in the first 8 bytes, if any
+   */
+  constructor(
+    readonly name: string,
+    readonly fields: S,
+    readonly discriminator?: readonly number[]
+  ) {
+    this.offsets = new Map();
+    let offset = discriminator ? discriminator.length : 0;
+    for (const [fieldName, type] of fields) {
+      this.offsets.set(fieldName, offset);
+      offset += typeof type === 'number' ? type : FIELD_SIZES[type];
+    }
+    this.span = offset;
+  }
+
+  offsetOf(field: FieldName<S>): number {
+    return this.offsets.get(field)!;
+  }
+
+  decode(data: Buffer, offset = 0): Decoded<S> {
+    if (data.length < offset + this.span) {
+      throw new Error(`${this.name}: expected at least ${this.span} bytes, got ${data.length - offset}`);
+    }
+    if (this.discriminator && !this.discriminator.every((byte, i) => data[offset + i] === byte)) {
+      throw new Error(`${this.name}: account discriminator mismatch`);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [fieldName, type] of this.fields) {
+      if (typeof type === 'number') continue;
+      result[fieldName] = readField(data, offset + this.offsets.get(fieldName)!, type);
+    }
+    return result as Decoded<S>;
+  }
+}
+
+function readField(data: Buffer, offset: number, type: BorshPrimitive): unknown {
+  switch (type) {
+    case 'u8':
+      return data.readUInt8(offset);
+    case 'bool':
+      return data.readUInt8(offset) !== 0;
+    case 'u16':
+      return data.readUInt16LE(offset);
+    case 'i32':
+      return data.readInt32LE(offset);
+    case 'u32':
+      return data.readUInt32LE(offset);
+    case 'u64':
+      return data.readBigUInt64LE(offset);
+    case 'i64':
+      return data.readBigInt64LE(offset);
+    case 'u128':
+      return readU128LE(data, offset);
+    case 'i128':
+      return readI128LE(data, offset);
+    case 'pubkey':
+      return new PublicKey(data.subarray(offset, offset + 32));
+  }
+}
+
+export function readU128LE(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << BigInt(64));
+}
+
+export function readI128LE(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigInt64LE(offset + 8) << BigInt(64));
+}
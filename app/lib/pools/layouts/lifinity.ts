@@ -0,0 +1,72 @@
+// On-chain account layout for Lifinity v2 pools (Amm), up to the swap curve
+// The oracle and rebalancing config that follows is not needed for quoting.
+
+import { BorshLayout, Decoded } from './borsh';
+
+export const LIFINITY_V2_PROGRAM_ID = '2wT8Yq49kHgDzXuPxZSaeLaH1qbmGXtEyPy64bL7aD3c';
+
+// Anchor discriminator: sha256("account:Amm")[0..8], and its base58 form for memcmp filters
+export const AMM_DISCRIMINATOR = [143, 245, 200, 17, 74, 214, 196, 135];
+export const AMM_DISCRIMINATOR_BASE58 = 'R5bQM5YRBie';
+
+export const LIFINITY_AMM_LAYOUT = new BorshLayout('LifinityAmm', [
+  ['initializerKey', 'pubkey'],
+  ['initializerDepositTokenAccount', 'pubkey'],
+  ['initializerReceiveTokenAccount', 'pubkey'],
+  ['initializerAmount', 'u64'],
+  ['takerAmount', 'u64'],
+  ['isInitialized', 'bool'],
+  ['bumpSeed', 'u8'],
+  ['freezeTrade', 'u8'],
+  ['freezeDeposit', 'u8'],
+  ['freezeWithdraw', 'u8'],
+  ['baseDecimals', 'u8'],
+  ['tokenProgramId', 'pubkey'],
+  ['tokenAAccount', 'pubkey'],
+  ['tokenBAccount', 'pubkey'],
+  ['poolMint', 'pubkey'],
+  ['tokenAMint', 'pubkey'],
+  ['tokenBMint', 'pubkey'],
+  ['feeAccount', 'pubkey'],
+  ['oracleMainAccount', 'pubkey'],
+  ['oracleSubAccount', 'pubkey'],
+  ['oraclePcAccount', 'pubkey'],
+  // AmmFees
+  ['tradeFeeNumerator', 'u64'],
+  ['tradeFeeDenominator', 'u64'],
+  ['ownerTradeFeeNumerator', 'u64'],
+  ['ownerTradeFeeDenominator', 'u64'],
+  ['ownerWithdrawFeeNumerator', 'u64'],
+  ['ownerWithdrawFeeDenominator', 'u64'],
+  ['hostFeeNumerator', 'u64'],
+  ['hostFeeDenominator', 'u64'],
+  // AmmCurve
+  ['curveType', 'u8'],
+  ['curveParameters', 'u64'],
+] as const, AMM_DISCRIMINATOR);
+
+export type LifinityAmmState = Decoded<typeof LIFINITY_AMM_LAYOUT.fields>;
+
+// AmmCurve.curve_type, numbered as in spl-token-swap
+export const LIFINITY_CURVE_CONSTANT_PRODUCT = 0;
+export const LIFINITY_CURVE_STABLE = 2;
+
+export function decodeLifinityAmm(data: Buffer): LifinityAmmState {
+  return LIFINITY_AMM_LAYOUT.decode(data);
+}
+
+export function isLifinityAmmSwappable(state: LifinityAmmState): boolean {
+  return state.isInitialized && state.freezeTrade === 0;
+}
+
+/**
+ * Trade plus owner trade fee, in millionths
+ */
+export function getLifinityFeeRate(state: LifinityAmmState): number {
+  const part = (numerator: bigint, denominator: bigint) =>
+    denominator === BigInt(0) ? BigInt(0) : (numerator * BigInt(1_000_000)) / denominator;
+  return Number(
+    part(state.tradeFeeNumerator, state.tradeFeeDenominator) +
+      part(state.ownerTradeFeeNumerator, state.ownerTradeFeeDenominator)
+  );
+}
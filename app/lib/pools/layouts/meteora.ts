@@ -0,0 +1,172 @@
+// On-chain account layouts for Meteora DLMM (liquidity book) pairs and bin arrays
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshLayout, Decoded } from './borsh';
+
+export const METEORA_DLMM_PROGRAM_ID = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo';
+
+// Anchor discriminators: sha256("account:<Name>")[0..8]
+const LB_PAIR_DISCRIMINATOR = [33, 11, 49, 98, 181, 101, 177, 13];
+const BIN_ARRAY_DISCRIMINATOR = [92, 142, 92, 220, 5, 148, 70, 181];
+
+const REWARD_INFO_SIZE = 144;
+const NUM_REWARDS = 2;
+
+// LbPair (904 bytes)
+export const LB_PAIR_LAYOUT = new BorshLayout('LbPair', [
+  // StaticParameters
+  ['baseFactor', 'u16'],
+  ['filterPeriod', 'u16'],
+  ['decayPeriod', 'u16'],
+  ['reductionFactor', 'u16'],
+  ['variableFeeControl', 'u32'],
+  ['maxVolatilityAccumulator', 'u32'],
+  ['minBinId', 'i32'],
+  ['maxBinId', 'i32'],
+  ['protocolShare', 'u16'],
+  ['baseFeePowerFactor', 'u8'],
+  ['parametersPadding', 5],
+  // VariableParameters
+  ['volatilityAccumulator', 'u32'],
+  ['volatilityReference', 'u32'],
+  ['indexReference', 'i32'],
+  ['variableParametersPadding', 4],
+  ['lastUpdateTimestamp', 'i64'],
+  ['variableParametersPadding1', 8],
+  ['bumpSeed', 'u8'],
+  ['binStepSeed', 2],
+  ['pairType', 'u8'],
+  ['activeId', 'i32'],
+  ['binStep', 'u16'],
+  ['status', 'u8'],
+  ['requireBaseFactorSeed', 'u8'],
+  ['baseFactorSeed', 2],
+  ['activationType', 'u8'],
+  ['creatorPoolOnOffControl', 'u8'],
+  ['tokenXMint', 'pubkey'],
+  ['tokenYMint', 'pubkey'],
+  ['reserveX', 'pubkey'],
+  ['reserveY', 'pubkey'],
+  ['protocolFeeAmountX', 'u64'],
+  ['protocolFeeAmountY', 'u64'],
+  ['padding1', 32],
+  ['rewardInfos', REWARD_INFO_SIZE * NUM_REWARDS],
+  ['oracle', 'pubkey'],
+  ['binArrayBitmap', 128],
+  ['lastUpdatedAt', 'i64'],
+  ['padding2', 32],
+  ['preActivationSwapAddress', 'pubkey'],
+  ['baseKey', 'pubkey'],
+  ['activationPoint', 'u64'],
+  ['preActivationDuration', 'u64'],
+  ['padding3', 8],
+  ['padding4', 8],
+  ['creator', 'pubkey'],
+  ['tokenMintXProgramFlag', 'u8'],
+  ['tokenMintYProgramFlag', 'u8'],
+  ['reserved', 22],
+] as const, LB_PAIR_DISCRIMINATOR);
+
+export const MAX_BIN_PER_ARRAY = 70;
+
+// A single Bin inside a bin array (144 bytes)
+export const DLMM_BIN_LAYOUT = new BorshLayout('DlmmBin', [
+  ['amountX', 'u64'],
+  ['amountY', 'u64'],
+  ['price', 'u128'],
+  ['liquiditySupply', 'u128'],
+  ['rewardPerTokenStored', 32],
+  ['feeAmountXPerTokenStored', 'u128'],
+  ['feeAmountYPerTokenStored', 'u128'],
+  ['amountXIn', 'u128'],
+  ['amountYIn', 'u128'],
+] as const);
+
+// BinArray (10136 bytes); bin i has id index * MAX_BIN_PER_ARRAY + i
+export const BIN_ARRAY_LAYOUT = new BorshLayout('BinArray', [
+  ['index', 'i64'],
+  ['version', 'u8'],
+  ['padding', 7],
+  ['lbPair', 'pubkey'],
+  ['bins', DLMM_BIN_LAYOUT.span * MAX_BIN_PER_ARRAY],
+] as const, BIN_ARRAY_DISCRIMINATOR);
+
+export type LbPairState = Decoded<typeof LB_PAIR_LAYOUT.fields>;
+
+export interface DlmmBinArray {
+  lbPair: PublicKey;
+  index: number;
+  bins: Array<{ id: number; amountX: bigint; amountY: bigint }>; // Bins holding liquidity only
+}
+
+// PairStatus::Enabled
+const LB_PAIR_ENABLED = 0;
+
+// Fee rates are in 1e9 precision on-chain and capped at 10%
+const FEE_PRECISION = BigInt(1_000_000_000);
+const MAX_FEE_RATE = BigInt(100_000_000);
+
+export function decodeLbPair(data: Buffer): LbPairState {
+  return LB_PAIR_LAYOUT.decode(data);
+}
+
+export function decodeBinArray(data: Buffer): DlmmBinArray {
+  const header = BIN_ARRAY_LAYOUT.decode(data);
+  const binsOffset = BIN_ARRAY_LAYOUT.offsetOf('bins');
+  const index = Number(header.index);
+  const bins: DlmmBinArray['bins'] = [];
+
+  for (let i = 0; i < MAX_BIN_PER_ARRAY; i++) {
+    const bin = DLMM_BIN_LAYOUT.decode(data, binsOffset + i * DLMM_BIN_LAYOUT.span);
+    if (bin.amountX > BigInt(0) || bin.amountY > BigInt(0)) {
+      bins.push({ id: index * MAX_BIN_PER_ARRAY + i, amountX: bin.amountX, amountY: bin.amountY });
+    }
+  }
+
+  return { lbPair: header.lbPair, index, bins };
+}
+
+export function isLbPairSwappable(state: LbPairState): boolean {
+  return state.status === LB_PAIR_ENABLED;
+}
+
+/**
+ * Total swap fee (base + volatility-driven variable fee) in millionths, rounded up
+ */
+export function getLbPairFeeRate(state: LbPairState): number {
+  const binStep = BigInt(state.binStep);
+  const baseFee =
+    BigInt(state.baseFactor) * binStep * BigInt(10) * BigInt(Math.pow(10, state.baseFeePowerFactor));
+
+  let variableFee = BigInt(0);
+  if (state.variableFeeControl > 0) {
+    const volatility = BigInt(state.volatilityAccumulator) * binStep;
+    variableFee =
+      (volatility * volatility * BigInt(state.variableFeeControl) + BigInt(99_999_999_999)) /
+      BigInt(100_000_000_000);
+  }
+
+  const total = baseFee + variableFee > MAX_FEE_RATE ? MAX_FEE_RATE : baseFee + variableFee;
+  const scale = FEE_PRECISION / BigInt(1_000_000);
+  return Number((total + scale - BigInt(1)) / scale);
+}
+
+/**
+ * Index of the bin array holding binId (floor division, also for negative ids)
+ */
+export function getBinArrayIndex(binId: number): number {
+  return Math.floor(binId / MAX_BIN_PER_ARRAY);
+}
+
+/**
+ * Bin array PDA: ["bin_array", lb_pair, index as little-endian i64]
+ */
+export function deriveBinArrayAddress(lbPair: PublicKey, index: number): PublicKey {
+  const indexBuffer = Buffer.alloc(8);
+  indexBuffer.writeBigInt64LE(BigInt(index));
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bin_array'), lbPair.toBuffer(), indexBuffer],
+    new PublicKey(METEORA_DLMM_PROGRAM_ID)
+  );
+  return address;
+}
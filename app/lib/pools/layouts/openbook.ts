@@ -0,0 +1,47 @@
+// On-chain market layout shared by Serum v3 and OpenBook v1 (the order books behind Raydium AMM v4)
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshLayout, Decoded } from './borsh';
+
+export const OPENBOOK_PROGRAM_ID = 'srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX';
+
+// MarketStateV3: "serum" head padding, fixed fields, "padding" tail (388 bytes)
+export const MARKET_STATE_LAYOUT = new BorshLayout('MarketStateV3', [
+  ['head', 5],
+  ['accountFlags', 'u64'],
+  ['ownAddress', 'pubkey'],
+  ['vaultSignerNonce', 'u64'],
+  ['baseMint', 'pubkey'],
+  ['quoteMint', 'pubkey'],
+  ['baseVault', 'pubkey'],
+  ['baseDepositsTotal', 'u64'],
+  ['baseFeesAccrued', 'u64'],
+  ['quoteVault', 'pubkey'],
+  ['quoteDepositsTotal', 'u64'],
+  ['quoteFeesAccrued', 'u64'],
+  ['quoteDustThreshold', 'u64'],
+  ['requestQueue', 'pubkey'],
+  ['eventQueue', 'pubkey'],
+  ['bids', 'pubkey'],
+  ['asks', 'pubkey'],
+  ['baseLotSize', 'u64'],
+  ['quoteLotSize', 'u64'],
+  ['feeRateBps', 'u64'],
+  ['referrerRebatesAccrued', 'u64'],
+  ['tail', 7],
+] as const);
+
+export type MarketState = Decoded<typeof MARKET_STATE_LAYOUT.fields>;
+
+export function decodeMarketState(data: Buffer): MarketState {
+  return MARKET_STATE_LAYOUT.decode(data);
+}
+
+/**
+ * Market vault signer: program address of [market, nonce as u64 LE] (not a bump-searched PDA)
+ */
+export function deriveMarketVaultSigner(market: PublicKey, nonce: bigint, marketProgramId: PublicKey): PublicKey {
+  const nonceBuffer = Buffer.alloc(8);
+  nonceBuffer.writeBigUInt64LE(nonce);
+  return PublicKey.createProgramAddressSync([market.toBuffer(), nonceBuffer], marketProgramId);
+}
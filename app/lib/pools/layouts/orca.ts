@@ -0,0 +1,105 @@
+// On-chain account layouts for Orca Whirlpools and their fixed-size tick arrays
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshLayout, Decoded } from './borsh';
+
+export const ORCA_WHIRLPOOL_PROGRAM_ID = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+
+// Anchor discriminators: sha256("account:<Name>")[0..8]
+const WHIRLPOOL_DISCRIMINATOR = [63, 149, 209, 12, 225, 128, 99, 9];
+const TICK_ARRAY_DISCRIMINATOR = [69, 97, 189, 190, 110, 7, 66, 187];
+
+const WHIRLPOOL_REWARD_INFO_SIZE = 128;
+const WHIRLPOOL_REWARD_NUM = 3;
+
+// Whirlpool (653 bytes)
+export const WHIRLPOOL_LAYOUT = new BorshLayout('Whirlpool', [
+  ['whirlpoolsConfig', 'pubkey'],
+  ['whirlpoolBump', 'u8'],
+  ['tickSpacing', 'u16'],
+  ['tickSpacingSeed', 2],
+  ['feeRate', 'u16'], // Hundredths of a basis point (millionths)
+  ['protocolFeeRate', 'u16'],
+  ['liquidity', 'u128'],
+  ['sqrtPrice', 'u128'],
+  ['tickCurrentIndex', 'i32'],
+  ['protocolFeeOwedA', 'u64'],
+  ['protocolFeeOwedB', 'u64'],
+  ['tokenMintA', 'pubkey'],
+  ['tokenVaultA', 'pubkey'],
+  ['feeGrowthGlobalA', 'u128'],
+  ['tokenMintB', 'pubkey'],
+  ['tokenVaultB', 'pubkey'],
+  ['feeGrowthGlobalB', 'u128'],
+  ['rewardLastUpdatedTimestamp', 'u64'],
+  ['rewardInfos', WHIRLPOOL_REWARD_INFO_SIZE * WHIRLPOOL_REWARD_NUM],
+] as const, WHIRLPOOL_DISCRIMINATOR);
+
+export const WHIRLPOOL_TICK_ARRAY_SIZE = 88;
+
+// A single Tick inside a tick array (113 bytes)
+export const WHIRLPOOL_TICK_LAYOUT = new BorshLayout('WhirlpoolTick', [
+  ['initialized', 'bool'],
+  ['liquidityNet', 'i128'],
+  ['liquidityGross', 'u128'],
+  ['feeGrowthOutsideA', 'u128'],
+  ['feeGrowthOutsideB', 'u128'],
+  ['rewardGrowthsOutside', 48],
+] as const);
+
+// Fixed TickArray (9988 bytes); tick i sits at startTickIndex + i * tickSpacing
+export const WHIRLPOOL_TICK_ARRAY_LAYOUT = new BorshLayout('WhirlpoolTickArray', [
+  ['startTickIndex', 'i32'],
+  ['ticks', WHIRLPOOL_TICK_LAYOUT.span * WHIRLPOOL_TICK_ARRAY_SIZE],
+  ['whirlpool', 'pubkey'],
+] as const, TICK_ARRAY_DISCRIMINATOR);
+
+export type WhirlpoolState = Decoded<typeof WHIRLPOOL_LAYOUT.fields>;
+
+export interface WhirlpoolTickArray {
+  whirlpool: PublicKey;
+  startTickIndex: number;
+  ticks: Array<{ index: number; liquidityNet: bigint; liquidityGross: bigint }>; // Initialized ticks only
+}
+
+export function decodeWhirlpool(data: Buffer): WhirlpoolState {
+  return WHIRLPOOL_LAYOUT.decode(data);
+}
+
+export function decodeWhirlpoolTickArray(data: Buffer, tickSpacing: number): WhirlpoolTickArray {
+  const header = WHIRLPOOL_TICK_ARRAY_LAYOUT.decode(data);
+  const ticksOffset = WHIRLPOOL_TICK_ARRAY_LAYOUT.offsetOf('ticks');
+  const ticks: WhirlpoolTickArray['ticks'] = [];
+
+  for (let i = 0; i < WHIRLPOOL_TICK_ARRAY_SIZE; i++) {
+    const tick = WHIRLPOOL_TICK_LAYOUT.decode(data, ticksOffset + i * WHIRLPOOL_TICK_LAYOUT.span);
+    if (tick.initialized) {
+      ticks.push({
+        index: header.startTickIndex + i * tickSpacing,
+        liquidityNet: tick.liquidityNet,
+        liquidityGross: tick.liquidityGross,
+      });
+    }
+  }
+
+  return { whirlpool: header.whirlpool, startTickIndex: header.startTickIndex, ticks };
+}
+
+/**
+ * First tick of the tick array containing tickIndex
+ */
+export function getWhirlpoolTickArrayStartIndex(tickIndex: number, tickSpacing: number): number {
+  const ticksInArray = tickSpacing * WHIRLPOOL_TICK_ARRAY_SIZE;
+  return Math.floor(tickIndex / ticksInArray) * ticksInArray;
+}
+
+/**
+ * Tick array PDA: ["tick_array", whirlpool, start_tick_index as a decimal string]
+ */
+export function deriveWhirlpoolTickArray(whirlpool: PublicKey, startTickIndex: number): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), whirlpool.toBuffer(), Buffer.from(startTickIndex.toString())],
+    new PublicKey(ORCA_WHIRLPOOL_PROGRAM_ID)
+  );
+  return address;
+}
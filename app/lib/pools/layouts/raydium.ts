@@ -0,0 +1,285 @@
+// On-chain account layouts for Raydium AMM v4, CLMM and CPMM pools
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshLayout, Decoded } from './borsh';
+
+export const RAYDIUM_AMM_V4_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+export const RAYDIUM_CLMM_PROGRAM_ID = 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK';
+export const RAYDIUM_CPMM_PROGRAM_ID = 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C';
+
+// Anchor discriminators: sha256("account:<Name>")[0..8]
+const POOL_STATE_DISCRIMINATOR = [247, 237, 227, 245, 215, 195, 222, 70];
+const AMM_CONFIG_DISCRIMINATOR = [218, 244, 33, 104, 203, 203, 43, 111];
+const TICK_ARRAY_STATE_DISCRIMINATOR = [192, 155, 85, 205, 49, 249, 129, 42];
+
+// AMM v4 LiquidityStateV4 (no discriminator, 752 bytes)
+export const AMM_V4_POOL_LAYOUT = new BorshLayout('AmmInfo', [
+  ['status', 'u64'],
+  ['nonce', 'u64'],
+  ['maxOrder', 'u64'],
+  ['depth', 'u64'],
+  ['baseDecimal', 'u64'],
+  ['quoteDecimal', 'u64'],
+  ['state', 'u64'],
+  ['resetFlag', 'u64'],
+  ['minSize', 'u64'],
+  ['volMaxCutRatio', 'u64'],
+  ['amountWaveRatio', 'u64'],
+  ['baseLotSize', 'u64'],
+  ['quoteLotSize', 'u64'],
+  ['minPriceMultiplier', 'u64'],
+  ['maxPriceMultiplier', 'u64'],
+  ['systemDecimalValue', 'u64'],
+  ['minSeparateNumerator', 'u64'],
+  ['minSeparateDenominator', 'u64'],
+  ['tradeFeeNumerator', 'u64'],
+  ['tradeFeeDenominator', 'u64'],
+  ['pnlNumerator', 'u64'],
+  ['pnlDenominator', 'u64'],
+  ['swapFeeNumerator', 'u64'],
+  ['swapFeeDenominator', 'u64'],
+  ['baseNeedTakePnl', 'u64'],
+  ['quoteNeedTakePnl', 'u64'],
+  ['quoteTotalPnl', 'u64'],
+  ['baseTotalPnl', 'u64'],
+  ['poolOpenTime', 'u64'],
+  ['punishPcAmount', 'u64'],
+  ['punishCoinAmount', 'u64'],
+  ['orderbookToInitTime', 'u64'],
+  ['swapBaseInAmount', 'u128'],
+  ['swapQuoteOutAmount', 'u128'],
+  ['swapBase2QuoteFee', 'u64'],
+  ['swapQuoteInAmount', 'u128'],
+  ['swapBaseOutAmount', 'u128'],
+  ['swapQuote2BaseFee', 'u64'],
+  ['baseVault', 'pubkey'],
+  ['quoteVault', 'pubkey'],
+  ['baseMint', 'pubkey'],
+  ['quoteMint', 'pubkey'],
+  ['lpMint', 'pubkey'],
+  ['openOrders', 'pubkey'],
+  ['marketId', 'pubkey'],
+  ['marketProgramId', 'pubkey'],
+  ['targetOrders', 'pubkey'],
+  ['withdrawQueue', 'pubkey'],
+  ['lpVault', 'pubkey'],
+  ['owner', 'pubkey'],
+  ['lpReserve', 'u64'],
+  ['padding', 24],
+] as const);
+
+// CPMM PoolState (637 bytes)
+export const CPMM_POOL_LAYOUT = new BorshLayout('CpmmPoolState', [
+  ['ammConfig', 'pubkey'],
+  ['poolCreator', 'pubkey'],
+  ['token0Vault', 'pubkey'],
+  ['token1Vault', 'pubkey'],
+  ['lpMint', 'pubkey'],
+  ['token0Mint', 'pubkey'],
+  ['token1Mint', 'pubkey'],
+  ['token0Program', 'pubkey'],
+  ['token1Program', 'pubkey'],
+  ['observationKey', 'pubkey'],
+  ['authBump', 'u8'],
+  ['status', 'u8'],
+  ['lpMintDecimals', 'u8'],
+  ['mint0Decimals', 'u8'],
+  ['mint1Decimals', 'u8'],
+  ['lpSupply', 'u64'],
+  ['protocolFeesToken0', 'u64'],
+  ['protocolFeesToken1', 'u64'],
+  ['fundFeesToken0', 'u64'],
+  ['fundFeesToken1', 'u64'],
+  ['openTime', 'u64'],
+  ['recentEpoch', 'u64'],
+  ['padding', 248],
+] as const, POOL_STATE_DISCRIMINATOR);
+
+// CPMM AmmConfig; fee rates are in millionths
+export const CPMM_CONFIG_LAYOUT = new BorshLayout('CpmmAmmConfig', [
+  ['bump', 'u8'],
+  ['disableCreatePool', 'bool'],
+  ['index', 'u16'],
+  ['tradeFeeRate', 'u64'],
+  ['protocolFeeRate', 'u64'],
+  ['fundFeeRate', 'u64'],
+  ['createPoolFee', 'u64'],
+  ['protocolOwner', 'pubkey'],
+  ['fundOwner', 'pubkey'],
+  ['padding', 128],
+] as const, AMM_CONFIG_DISCRIMINATOR);
+
+const REWARD_INFO_SIZE = 169;
+const REWARD_NUM = 3;
+
+// CLMM PoolState (1544 bytes)
+export const CLMM_POOL_LAYOUT = new BorshLayout('ClmmPoolState', [
+  ['bump', 'u8'],
+  ['ammConfig', 'pubkey'],
+  ['owner', 'pubkey'],
+  ['tokenMint0', 'pubkey'],
+  ['tokenMint1', 'pubkey'],
+  ['tokenVault0', 'pubkey'],
+  ['tokenVault1', 'pubkey'],
+  ['observationKey', 'pubkey'],
+  ['mintDecimals0', 'u8'],
+  ['mintDecimals1', 'u8'],
+  ['tickSpacing', 'u16'],
+  ['liquidity', 'u128'],
+  ['sqrtPriceX64', 'u128'],
+  ['tickCurrent', 'i32'],
+  ['padding3', 2],
+  ['padding4', 2],
+  ['feeGrowthGlobal0X64', 'u128'],
+  ['feeGrowthGlobal1X64', 'u128'],
+  ['protocolFeesToken0', 'u64'],
+  ['protocolFeesToken1', 'u64'],
+  ['swapInAmountToken0', 'u128'],
+  ['swapOutAmountToken1', 'u128'],
+  ['swapInAmountToken1', 'u128'],
+  ['swapOutAmountToken0', 'u128'],
+  ['status', 'u8'],
+  ['padding', 7],
+  ['rewardInfos', REWARD_INFO_SIZE * REWARD_NUM],
+  ['tickArrayBitmap', 128],
+  ['totalFeesToken0', 'u64'],
+  ['totalFeesClaimedToken0', 'u64'],
+  ['totalFeesToken1', 'u64'],
+  ['totalFeesClaimedToken1', 'u64'],
+  ['fundFeesToken0', 'u64'],
+  ['fundFeesToken1', 'u64'],
+  ['openTime', 'u64'],
+  ['recentEpoch', 'u64'],
+  ['padding1', 192],
+  ['padding2', 256],
+] as const, POOL_STATE_DISCRIMINATOR);
+
+// CLMM AmmConfig; fee rates are in millionths
+export const CLMM_CONFIG_LAYOUT = new BorshLayout('ClmmAmmConfig', [
+  ['bump', 'u8'],
+  ['index', 'u16'],
+  ['owner', 'pubkey'],
+  ['protocolFeeRate', 'u32'],
+  ['tradeFeeRate', 'u32'],
+  ['tickSpacing', 'u16'],
+  ['fundFeeRate', 'u32'],
+  ['paddingU32', 'u32'],
+  ['fundOwner', 'pubkey'],
+  ['padding', 24],
+] as const, AMM_CONFIG_DISCRIMINATOR);
+
+export const TICK_ARRAY_SIZE = 60;
+
+// A single TickState inside a tick array (168 bytes)
+export const CLMM_TICK_LAYOUT = new BorshLayout('ClmmTickState', [
+  ['tick', 'i32'],
+  ['liquidityNet', 'i128'],
+  ['liquidityGross', 'u128'],
+  ['feeGrowthOutside0X64', 'u128'],
+  ['feeGrowthOutside1X64', 'u128'],
+  ['rewardGrowthsOutsideX64', 48],
+  ['padding', 52],
+] as const);
+
+// TickArrayState header; the ticks follow immediately after (10240 bytes in total)
+export const CLMM_TICK_ARRAY_LAYOUT = new BorshLayout('ClmmTickArrayState', [
+  ['poolId', 'pubkey'],
+  ['startTickIndex', 'i32'],
+  ['ticks', CLMM_TICK_LAYOUT.span * TICK_ARRAY_SIZE],
+  ['initializedTickCount', 'u8'],
+  ['recentEpoch', 'u64'],
+  ['padding', 107],
+] as const, TICK_ARRAY_STATE_DISCRIMINATOR);
+
+export type AmmV4PoolState = Decoded<typeof AMM_V4_POOL_LAYOUT.fields>;
+export type CpmmPoolState = Decoded<typeof CPMM_POOL_LAYOUT.fields>;
+export type CpmmConfigState = Decoded<typeof CPMM_CONFIG_LAYOUT.fields>;
+export type ClmmPoolState = Decoded<typeof CLMM_POOL_LAYOUT.fields>;
+export type ClmmConfigState = Decoded<typeof CLMM_CONFIG_LAYOUT.fields>;
+
+export interface ClmmTickArray {
+  poolId: PublicKey;
+  startTickIndex: number;
+  ticks: Array<{ index: number; liquidityNet: bigint; liquidityGross: bigint }>; // Initialized ticks only
+}
+
+// AMM v4 status values that accept swaps (Initialized, SwapOnly, WaitingTrade)
+const AMM_V4_SWAP_STATUSES = [1, 6, 7];
+// Bit in CPMM / CLMM PoolState.status that disables swaps
+const CPMM_SWAP_DISABLED_BIT = 1 << 2;
+const CLMM_SWAP_DISABLED_BIT = 1 << 4;
+
+export function decodeAmmV4Pool(data: Buffer): AmmV4PoolState {
+  return AMM_V4_POOL_LAYOUT.decode(data);
+}
+
+export function decodeCpmmPool(data: Buffer): CpmmPoolState {
+  return CPMM_POOL_LAYOUT.decode(data);
+}
+
+export function decodeCpmmConfig(data: Buffer): CpmmConfigState {
+  return CPMM_CONFIG_LAYOUT.decode(data);
+}
+
+export function decodeClmmPool(data: Buffer): ClmmPoolState {
+  return CLMM_POOL_LAYOUT.decode(data);
+}
+
+export function decodeClmmConfig(data: Buffer): ClmmConfigState {
+  return CLMM_CONFIG_LAYOUT.decode(data);
+}
+
+export function decodeClmmTickArray(data: Buffer): ClmmTickArray {
+  const header = CLMM_TICK_ARRAY_LAYOUT.decode(data);
+  const ticksOffset = CLMM_TICK_ARRAY_LAYOUT.offsetOf('ticks');
+  const ticks: ClmmTickArray['ticks'] = [];
+
+  for (let i = 0; i < TICK_ARRAY_SIZE; i++) {
+    const tick = CLMM_TICK_LAYOUT.decode(data, ticksOffset + i * CLMM_TICK_LAYOUT.span);
+    if (tick.liquidityGross > BigInt(0)) {
+      ticks.push({ index: tick.tick, liquidityNet: tick.liquidityNet, liquidityGross: tick.liquidityGross });
+    }
+  }
+
+  return { poolId: header.poolId, startTickIndex: header.startTickIndex, ticks };
+}
+
+export function isAmmV4Swappable(state: AmmV4PoolState): boolean {
+  return AMM_V4_SWAP_STATUSES.includes(Number(state.status));
+}
+
+export function isCpmmSwappable(state: CpmmPoolState): boolean {
+  return (state.status & CPMM_SWAP_DISABLED_BIT) === 0;
+}
+
+export function isClmmSwappable(state: ClmmPoolState): boolean {
+  return (state.status & CLMM_SWAP_DISABLED_BIT) === 0;
+}
+
+/**
+ * First tick of the tick array containing tickIndex
+ */
+export function getTickArrayStartIndex(tickIndex: number, tickSpacing: number): number {
+  const ticksInArray = tickSpacing * TICK_ARRAY_SIZE;
+  return Math.floor(tickIndex / ticksInArray) * ticksInArray;
+}
+
+/**
+ * Tick array PDA: ["tick_array", pool, start_tick_index as big-endian i32]
+ */
+export function deriveTickArrayAddress(poolId: PublicKey, startTickIndex: number): PublicKey {
+  const indexBuffer = Buffer.alloc(4);
+  indexBuffer.writeInt32BE(startTickIndex);
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), poolId.toBuffer(), indexBuffer],
+    new PublicKey(RAYDIUM_CLMM_PROGRAM_ID)
+  );
+  return address;
+}
+
+/**
+ * Amount of an SPL / Token-2022 token account (same offset in both programs)
+ */
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  return data.readBigUInt64LE(64);
+}
@@ -0,0 +1,516 @@
+// Incremental negative-cycle arbitrage detection over the live pool graph
+// Every pool contributes two directed edges weighted -ln(rate * (1 - fee)); a cycle whose
+// weights sum below zero multiplies the input by more than one, i.e. it is profitable.
+
+import { PoolData, PoolCurve, TokenInfo, DEFAULT_SCANNER_CONFIG } from './types';
+import { QuoteEngine, quoteEngine } from './quote-engine';
+import { getFeeRate, FEE_RATE_DENOMINATOR } from './quoters/base';
+import { PoolUpdate, PoolWebSocketManager, poolWebSocketManager } from './websocket';
+
+interface CycleEdge {
+  from: number; // Token index
+  to: number; // Token index
+  pool: PoolData;
+  weight: number;
+}
+
+export interface NegativeCycle {
+  key: string; // Rotation-independent identity of the cycle
+  tokens: TokenInfo[]; // tokens[i] is swapped through pools[i]
+  pools: PoolData[];
+  weight: number; // Sum of edge weights (negative)
+  rate: number; // Output per unit of input at marginal prices, after fees
+  profitPercent: number;
+  detectedAt: Date;
+}
+
+export type NegativeCycleCallback = (cycles: NegativeCycle[]) => void;
+
+// Tolerance so floating point noise never reads as an arbitrage
+const WEIGHT_EPSILON = 1e-9;
+// Upper bound on Bellman-Ford passes when breaking cycles to find every candidate token
+const MAX_CYCLE_BREAKS = 1000;
+// Safety cap against pathological (e.g. mispriced) pools flooding the enumeration
+const MAX_CYCLES_PER_SEARCH = 500;
+
+export class NegativeCycleDetector {
+  private maxHops: number;
+  private quoteEngine: QuoteEngine;
+  private tokens: TokenInfo[] = [];
+  private tokenIndex: Map<string, number> = new Map(); // mint -> index
+  private outgoing: CycleEdge[][] = [];
+  private edges: CycleEdge[] = [];
+  private edgesByPool: Map<string, CycleEdge[]> = new Map(); // pool id -> edges
+  private poolLookup: Map<string, PoolData> = new Map(); // pool id or address -> pool
+  private activeCycles: Map<string, NegativeCycle> = new Map();
+  private listeners: Set<NegativeCycleCallback> = new Set();
+  private manager: PoolWebSocketManager | null = null;
+  private unsubscribeUpdates: (() => void) | null = null;
+  private subscribedKeys = '';
+
+  constructor(pools: PoolData[], maxHops: number = DEFAULT_SCANNER_CONFIG.maxHops, engine: QuoteEngine = quoteEngine) {
+    this.maxHops = maxHops;
+    this.quoteEngine = engine;
+    this.setPools(pools);
+  }
+
+  /**
+   * Rebuild the graph from a fresh pool set. While attached, the stream subscriptions
+   * follow the new pool set so the detector can be reused across scans.
+   */
+  setPools(pools: PoolData[]): void {
+    this.tokens = [];
+    this.tokenIndex.clear();
+    this.outgoing = [];
+    this.edges = [];
+    this.edgesByPool.clear();
+    this.poolLookup.clear();
+    this.activeCycles.clear();
+
+    for (const pool of pools) {
+      const a = this.getOrAddToken(pool.tokenA);
+      const b = this.getOrAddToken(pool.tokenB);
+      if (a === b) continue;
+
+      const edgeAtoB: CycleEdge = { from: a, to: b, pool, weight: Infinity };
+      const edgeBtoA: CycleEdge = { from: b, to: a, pool, weight: Infinity };
+      this.outgoing[a].push(edgeAtoB);
+      this.outgoing[b].push(edgeBtoA);
+      this.edges.push(edgeAtoB, edgeBtoA);
+      this.edgesByPool.set(pool.id, [edgeAtoB, edgeBtoA]);
+
+      this.poolLookup.set(pool.id, pool);
+      if (pool.poolAddress) {
+        this.poolLookup.set(pool.poolAddress, pool);
+      }
+
+      this.updateEdgeWeights(pool);
+    }
+
+    if (this.manager) {
+      this.resubscribe();
+    }
+  }
+
+  setMaxHops(maxHops: number): void {
+    this.maxHops = maxHops;
+  }
+
+  /**
+   * Full detection: every profitable cycle of at most maxHops hops, across all tokens
+   */
+  detectAll(): NegativeCycle[] {
+    // Bellman-Ford with cycle breaking: each pass finds one negative cycle and disables
+    // one of its edges. Every negative cycle loses an edge before the loop ends, so every
+    // one of them touches a token on some found cycle.
+    const disabled = new Set<CycleEdge>();
+    const candidates = new Set<number>();
+
+    for (let round = 0; round < MAX_CYCLE_BREAKS; round++) {
+      const cycle = this.findNegativeCycle(disabled);
+      if (!cycle) break;
+
+      cycle.forEach(edge => candidates.add(edge.from));
+      const mostNegative = cycle.reduce((min, edge) => (edge.weight < min.weight ? edge : min), cycle[0]);
+      disabled.add(mostNegative);
+
+      if (round === MAX_CYCLE_BREAKS - 1) {
+        console.warn('[NegativeCycleDetector] Cycle-break limit reached, results may be incomplete');
+      }
+    }
+
+    // Exact bounded enumeration from each candidate token on the full graph
+    const found = new Map<string, NegativeCycle>();
+    for (const start of Array.from(candidates)) {
+      for (const cycle of this.enumerateCycles(start)) {
+        found.set(cycle.key, cycle);
+      }
+    }
+
+    this.activeCycles = found;
+    return this.sortCycles(Array.from(found.values()));
+  }
+
+  /**
+   * Profitable cycles passing through a token
+   */
+  findCyclesThrough(mint: string, maxHops: number = this.maxHops): NegativeCycle[] {
+    const start = this.tokenIndex.get(mint);
+    if (start === undefined) return [];
+    return this.sortCycles(this.enumerateCycles(start, undefined, maxHops));
+  }
+
+  /**
+   * Apply a streamed pool update and search only the cycles through that pool,
+   * since no other cycle's weight changed. Returns newly profitable cycles.
+   * The pool is replaced by an updated copy, so pools passed to setPools are never written.
+   */
+  applyUpdate(update: PoolUpdate): NegativeCycle[] {
+    const current = this.poolLookup.get(update.poolId);
+    if (!current) return [];
+
+    const pool = this.withUpdate(current, update);
+    if (!pool) return [];
+    this.replacePool(pool);
+    this.updateEdgeWeights(pool);
+
+    // Re-weigh known cycles through this pool and drop the ones that closed
+    for (const [key, cycle] of Array.from(this.activeCycles.entries())) {
+      if (!cycle.pools.some(p => p.id === pool.id)) continue;
+      const refreshed = this.toNegativeCycle(this.getCycleEdges(cycle));
+      if (refreshed && refreshed.weight < -WEIGHT_EPSILON) {
+        this.activeCycles.set(key, refreshed);
+      } else {
+        this.activeCycles.delete(key);
+      }
+    }
+
+    const newlyProfitable: NegativeCycle[] = [];
+    for (const edge of this.edgesByPool.get(pool.id) || []) {
+      for (const cycle of this.enumerateCycles(edge.from, edge)) {
+        if (!this.activeCycles.has(cycle.key)) {
+          newlyProfitable.push(cycle);
+        }
+        this.activeCycles.set(cycle.key, cycle);
+      }
+    }
+
+    if (newlyProfitable.length > 0) {
+      this.notifyListeners(this.sortCycles(newlyProfitable));
+    }
+    return newlyProfitable;
+  }
+
+  /**
+   * Listen for cycles that become profitable as updates stream in
+   */
+  subscribe(callback: NegativeCycleCallback): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Stream updates for every pool in the graph from the WebSocket manager
+   */
+  attach(manager: PoolWebSocketManager = poolWebSocketManager): () => void {
+    this.detach();
+    this.manager = manager;
+    this.resubscribe();
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.unsubscribeUpdates?.();
+    this.unsubscribeUpdates = null;
+    this.manager = null;
+    this.subscribedKeys = '';
+  }
+
+  isAttached(): boolean {
+    return this.manager !== null;
+  }
+
+  getActiveCycles(): NegativeCycle[] {
+    return this.sortCycles(Array.from(this.activeCycles.values()));
+  }
+
+  getGraphStats(): { tokens: number; edges: number; activeCycles: number } {
+    return {
+      tokens: this.tokens.length,
+      edges: this.edges.length,
+      activeCycles: this.activeCycles.size,
+    };
+  }
+
+  /**
+   * Subscribe to the graph's current pools, keeping existing streams when the set is unchanged
+   */
+  private resubscribe(): void {
+    const pools = Array.from(this.edgesByPool.values())
+      .map(edges => edges[0].pool)
+      .filter(pool => pool.poolAddress)
+      .map(pool => ({ poolId: pool.poolAddress!, dex: pool.dex }));
+    const keys = pools.map(pool => `${pool.dex}:${pool.poolId}`).sort().join(',');
+    if (this.unsubscribeUpdates && keys === this.subscribedKeys) return;
+
+    // Subscribe before releasing the old streams so shared pools keep their connections
+    const previous = this.unsubscribeUpdates;
+    this.unsubscribeUpdates = this.manager!.subscribeMultiple(pools, update => this.applyUpdate(update));
+    this.subscribedKeys = keys;
+    previous?.();
+  }
+
+  /**
+   * Copy of a pool with the streamed state applied, or null when the update carries
+   * nothing this pool can use (e.g. a constant-product pool whose reserves live in vaults)
+   */
+  private withUpdate(pool: PoolData, update: PoolUpdate): PoolData | null {
+    const updated: PoolData = { ...pool, lastUpdated: update.timestamp };
+    let changed = false;
+
+    if (update.reserveA > BigInt(0) && update.reserveB > BigInt(0)) {
+      updated.reserves = { tokenA: update.reserveA, tokenB: update.reserveB };
+      changed = true;
+    }
+    if (update.curve && pool.curve?.kind === update.curve.kind) {
+      updated.curve = { ...pool.curve, ...update.curve } as PoolCurve;
+      changed = true;
+    }
+    if (!changed) return null;
+
+    // Account layouts don't carry decimals, so the price follows the updated curve
+    const price = this.quoteEngine.getSpotPrice(updated);
+    updated.price = price > 0 && isFinite(price) ? price : pool.price;
+    if (update.volume24h !== undefined) {
+      updated.volume24h = update.volume24h;
+    }
+    return updated;
+  }
+
+  private replacePool(pool: PoolData): void {
+    for (const edge of this.edgesByPool.get(pool.id) || []) {
+      edge.pool = pool;
+    }
+    this.poolLookup.set(pool.id, pool);
+    if (pool.poolAddress) {
+      this.poolLookup.set(pool.poolAddress, pool);
+    }
+  }
+
+  private getOrAddToken(token: TokenInfo): number {
+    let index = this.tokenIndex.get(token.mint);
+    if (index === undefined) {
+      index = this.tokens.length;
+      this.tokens.push(token);
+      this.tokenIndex.set(token.mint, index);
+      this.outgoing.push([]);
+    }
+    return index;
+  }
+
+  private updateEdgeWeights(pool: PoolData): void {
+    const edges = this.edgesByPool.get(pool.id);
+    if (!edges) return;
+
+    const feeMultiplier = 1 - Number(getFeeRate(pool)) / Number(FEE_RATE_DENOMINATOR);
+    for (const edge of edges) {
+      const rate = this.quoteEngine.getSpotPriceOf(pool, this.tokens[edge.from].mint) * feeMultiplier;
+      // Unpriceable pools stay in the graph but can never be part of a cycle
+      edge.weight = rate > 0 && isFinite(rate) ? -Math.log(rate) : Infinity;
+    }
+  }
+
+  /**
+   * SPFA from a virtual source connected to every token. Returns one negative cycle,
+   * or null once distances settle (no negative cycle among enabled edges).
+   */
+  private findNegativeCycle(disabled: Set<CycleEdge>): CycleEdge[] | null {
+    const n = this.tokens.length;
+    if (n === 0) return null;
+
+    const dist = new Float64Array(n);
+    const parent: Array<CycleEdge | null> = new Array(n).fill(null);
+    const inQueue = new Uint8Array(n).fill(1);
+    const queue: number[] = [];
+    for (let i = 0; i < n; i++) queue.push(i);
+
+    let head = 0;
+    let relaxations = 0;
+    const maxRelaxations = n * Math.max(1, this.edges.length);
+
+    while (head < queue.length) {
+      const u = queue[head++];
+      inQueue[u] = 0;
+
+      for (const edge of this.outgoing[u]) {
+        if (disabled.has(edge) || edge.weight === Infinity) continue;
+
+        const candidate = dist[u] + edge.weight;
+        if (candidate < dist[edge.to] - WEIGHT_EPSILON) {
+          dist[edge.to] = candidate;
+          parent[edge.to] = edge;
+
+          // A cycle in the parent graph during relaxation is always negative
+          if (++relaxations % n === 0) {
+            const cycle = this.findParentCycle(parent);
+            if (cycle) return cycle;
+          }
+          if (relaxations > maxRelaxations) {
+            return this.findParentCycle(parent);
+          }
+
+          if (!inQueue[edge.to]) {
+            inQueue[edge.to] = 1;
+            queue.push(edge.to);
+          }
+        }
+      }
+
+      // Compact the queue so long runs don't grow memory unbounded
+      if (head > 4096 && head * 2 > queue.length) {
+        queue.splice(0, head);
+        head = 0;
+      }
+    }
+
+    return this.findParentCycle(parent);
+  }
+
+  private findParentCycle(parent: Array<CycleEdge | null>): CycleEdge[] | null {
+    const n = parent.length;
+    const visitedBy = new Int32Array(n).fill(-1);
+
+    for (let start = 0; start < n; start++) {
+      if (visitedBy[start] !== -1) continue;
+
+      let node = start;
+      while (node !== -1 && visitedBy[node] === -1) {
+        visitedBy[node] = start;
+        node = parent[node] ? parent[node]!.from : -1;
+      }
+
+      // Walked back into this same walk: the parent pointers close a cycle
+      if (node !== -1 && visitedBy[node] === start) {
+        const cycle: CycleEdge[] = [];
+        let current = node;
+        do {
+          const edge = parent[current]!;
+          cycle.unshift(edge);
+          current = edge.from;
+        } while (current !== node);
+        return cycle;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Exact enumeration of simple negative cycles through start with at most maxHops edges.
+   * A hop-bounded shortest-distance-to-start table prunes every prefix that cannot close
+   * into a profitable cycle. With firstEdge set, only cycles using that edge are returned.
+   */
+  private enumerateCycles(start: number, firstEdge?: CycleEdge, maxHops: number = this.maxHops): NegativeCycle[] {
+    const cycles: NegativeCycle[] = [];
+    if (maxHops < 2) return cycles;
+
+    const bound = this.distancesToTarget(start, maxHops - 1);
+    const visited = new Uint8Array(this.tokens.length);
+    const path: CycleEdge[] = [];
+    visited[start] = 1;
+
+    const dfs = (node: number, weight: number) => {
+      if (cycles.length >= MAX_CYCLES_PER_SEARCH) return;
+
+      for (const edge of this.outgoing[node]) {
+        if (edge.weight === Infinity) continue;
+        // Round-tripping the same pool only pays fees twice
+        if (path.length > 0 && path[path.length - 1].pool.id === edge.pool.id) continue;
+
+        const nextWeight = weight + edge.weight;
+        if (edge.to === start) {
+          if (path.length >= 1 && path[0].pool.id !== edge.pool.id && nextWeight < -WEIGHT_EPSILON) {
+            const cycle = this.toNegativeCycle([...path, edge]);
+            if (cycle) cycles.push(cycle);
+          }
+          continue;
+        }
+
+        const remaining = maxHops - path.length - 1;
+        if (visited[edge.to] || remaining < 1) continue;
+        if (nextWeight + bound[remaining][edge.to] >= -WEIGHT_EPSILON) continue;
+
+        visited[edge.to] = 1;
+        path.push(edge);
+        dfs(edge.to, nextWeight);
+        path.pop();
+        visited[edge.to] = 0;
+      }
+    };
+
+    if (firstEdge) {
+      if (firstEdge.weight === Infinity || firstEdge.to === start) return cycles;
+      if (firstEdge.weight + bound[maxHops - 1][firstEdge.to] >= -WEIGHT_EPSILON) return cycles;
+      visited[firstEdge.to] = 1;
+      path.push(firstEdge);
+      dfs(firstEdge.to, firstEdge.weight);
+    } else {
+      dfs(start, 0);
+    }
+
+    return cycles;
+  }
+
+  /**
+   * bound[k][v] = lightest path from v to target using at most k edges
+   */
+  private distancesToTarget(target: number, maxEdges: number): Float64Array[] {
+    const n = this.tokens.length;
+    const bound: Float64Array[] = [];
+    const base = new Float64Array(n).fill(Infinity);
+    base[target] = 0;
+    bound.push(base);
+
+    for (let k = 1; k <= maxEdges; k++) {
+      const previous = bound[k - 1];
+      const current = Float64Array.from(previous);
+      for (const edge of this.edges) {
+        const candidate = edge.weight + previous[edge.to];
+        if (candidate < current[edge.from]) {
+          current[edge.from] = candidate;
+        }
+      }
+      bound.push(current);
+    }
+
+    return bound;
+  }
+
+  private toNegativeCycle(edges: CycleEdge[]): NegativeCycle | null {
+    if (edges.length === 0) return null;
+    const weight = edges.reduce((sum, edge) => sum + edge.weight, 0);
+    if (!isFinite(weight)) return null;
+
+    // Canonical rotation so the same loop found from different tokens dedupes
+    const labels = edges.map(edge => `${edge.pool.id}:${this.tokens[edge.from].mint}`);
+    let offset = 0;
+    for (let i = 1; i < labels.length; i++) {
+      if (labels[i] < labels[offset]) offset = i;
+    }
+    const key = [...labels.slice(offset), ...labels.slice(0, offset)].join('>');
+
+    const rate = Math.exp(-weight);
+    return {
+      key,
+      tokens: edges.map(edge => this.tokens[edge.from]),
+      pools: edges.map(edge => edge.pool),
+      weight,
+      rate,
+      profitPercent: (rate - 1) * 100,
+      detectedAt: new Date(),
+    };
+  }
+
+  private getCycleEdges(cycle: NegativeCycle): CycleEdge[] {
+    return cycle.pools.map((pool, i) => {
+      const edges = this.edgesByPool.get(pool.id) || [];
+      return edges.find(edge => this.tokens[edge.from].mint === cycle.tokens[i].mint)!;
+    }).filter(Boolean);
+  }
+
+  private sortCycles(cycles: NegativeCycle[]): NegativeCycle[] {
+    return cycles.sort((a, b) => a.weight - b.weight);
+  }
+
+  private notifyListeners(cycles: NegativeCycle[]): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(cycles);
+      } catch (error) {
+        console.error('[NegativeCycleDetector] Error in cycle callback:', error);
+      }
+    });
+  }
+}
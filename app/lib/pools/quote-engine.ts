@@ -0,0 +1,90 @@
+// Pluggable per-DEX swap quote engine
+// Resolves the right curve math for each pool so arbitrage sizing uses exact outputs
+
+import { PoolData, DEXProtocol, PoolCurveKind } from './types';
+import { PoolQuoter, SwapQuote, emptyQuote } from './quoters/base';
+import { ConstantProductQuoter } from './quoters/constant-product';
+import { ConcentratedLiquidityQuoter } from './quoters/concentrated-liquidity';
+import { DLMMQuoter } from './quoters/dlmm';
+import { StableSwapQuoter } from './quoters/stable-swap';
+
+export type { PoolQuoter, SwapQuote } from './quoters/base';
+
+export class QuoteEngine {
+  private quoters: Map<PoolCurveKind, PoolQuoter>;
+  private dexQuoters: Map<DEXProtocol, PoolQuoter>;
+
+  constructor() {
+    this.quoters = new Map();
+    this.dexQuoters = new Map();
+
+    // Default curve math, selected by the pool's decoded curve state
+    this.registerQuoter(new ConstantProductQuoter());
+    this.registerQuoter(new ConcentratedLiquidityQuoter());
+    this.registerQuoter(new DLMMQuoter());
+    this.registerQuoter(new StableSwapQuoter());
+  }
+
+  /**
+   * Register (or replace) the quoter for a curve kind
+   */
+  registerQuoter(quoter: PoolQuoter): void {
+    this.quoters.set(quoter.kind, quoter);
+  }
+
+  /**
+   * Override curve-based selection for every pool of a DEX
+   */
+  registerDexQuoter(dex: DEXProtocol, quoter: PoolQuoter): void {
+    this.dexQuoters.set(dex, quoter);
+  }
+
+  getQuoter(pool: PoolData): PoolQuoter {
+    const dexQuoter = this.dexQuoters.get(pool.dex);
+    if (dexQuoter) return dexQuoter;
+
+    const kind: PoolCurveKind = pool.curve?.kind ?? 'constant_product';
+    return this.quoters.get(kind) ?? this.quoters.get('constant_product')!;
+  }
+
+  /**
+   * Quote swapping amountIn of tokenInMint through the pool
+   */
+  quote(pool: PoolData, tokenInMint: string, amountIn: bigint): SwapQuote {
+    if (tokenInMint !== pool.tokenA.mint && tokenInMint !== pool.tokenB.mint) {
+      return emptyQuote();
+    }
+
+    const aToB = tokenInMint === pool.tokenA.mint;
+    try {
+      return this.getQuoter(pool).quote(pool, aToB, amountIn);
+    } catch (error) {
+      console.error(`[QuoteEngine] Failed to quote ${pool.dex} pool ${pool.id}:`, error);
+      return emptyQuote();
+    }
+  }
+
+  /**
+   * Marginal price of tokenA in terms of tokenB, adjusted for decimals
+   */
+  getSpotPrice(pool: PoolData): number {
+    try {
+      return this.getQuoter(pool).spotPrice(pool);
+    } catch (error) {
+      console.error(`[QuoteEngine] Failed to price ${pool.dex} pool ${pool.id}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Marginal price of baseMint in terms of the pool's other token
+   */
+  getSpotPriceOf(pool: PoolData, baseMint: string): number {
+    const price = this.getSpotPrice(pool);
+    if (baseMint === pool.tokenA.mint) return price;
+    return price > 0 ? 1 / price : 0;
+  }
+}
+
+// Singleton instance
+export const quoteEngine = new QuoteEngine();
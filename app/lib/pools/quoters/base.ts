@@ -0,0 +1,71 @@
+// Base quoter interface and shared swap math utilities
+
+import { PoolData, PoolCurveKind } from '../types';
+
+export const FEE_RATE_DENOMINATOR = BigInt(1_000_000);
+
+export interface SwapQuote {
+  amountIn: bigint; // Input actually consumed, including fees
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpact: number; // Fraction of spot price lost to the trade (0.01 = 1%)
+  complete: boolean; // False when the pool ran out of quotable liquidity before consuming amountIn
+}
+
+export interface PoolQuoter {
+  kind: PoolCurveKind;
+  /**
+   * Exact output for swapping amountIn of tokenA (aToB) or tokenB (!aToB), in raw units
+   */
+  quote(pool: PoolData, aToB: boolean, amountIn: bigint): SwapQuote;
+  /**
+   * Marginal price of tokenA in terms of tokenB, adjusted for decimals
+   */
+  spotPrice(pool: PoolData): number;
+}
+
+/**
+ * Fee tier in millionths. Curve state carries the on-chain fee rate when the
+ * fetcher decoded it; otherwise fall back to the basis-point fee on PoolData.
+ */
+export function getFeeRate(pool: PoolData): bigint {
+  if (pool.curve?.feeRate !== undefined) {
+    return BigInt(pool.curve.feeRate);
+  }
+  return BigInt(Math.round(pool.fee * 100));
+}
+
+export function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  if (denominator === BigInt(0)) return BigInt(0);
+  return (numerator + denominator - BigInt(1)) / denominator;
+}
+
+export function emptyQuote(): SwapQuote {
+  return {
+    amountIn: BigInt(0),
+    amountOut: BigInt(0),
+    feeAmount: BigInt(0),
+    priceImpact: 0,
+    complete: false,
+  };
+}
+
+/**
+ * Price impact of an executed swap relative to the pool's spot price
+ */
+export function calculatePriceImpact(
+  pool: PoolData,
+  aToB: boolean,
+  amountIn: bigint,
+  amountOut: bigint,
+  spotPrice: number
+): number {
+  if (amountIn === BigInt(0) || spotPrice <= 0) return 0;
+
+  // Convert the decimal-adjusted spot price back to raw units in the swap direction
+  const decimalShift = Math.pow(10, pool.tokenB.decimals - pool.tokenA.decimals);
+  const rawSpot = aToB ? spotPrice * decimalShift : 1 / (spotPrice * decimalShift);
+  const executionPrice = Number(amountOut) / Number(amountIn);
+
+  return Math.max(0, 1 - executionPrice / rawSpot);
+}
@@ -0,0 +1,189 @@
+// Concentrated liquidity (Orca Whirlpool / Raydium CLMM) quoter
+// Walks initialized ticks the same way the on-chain swap loop does, in Q64.64 fixed point
+
+import { PoolData, ConcentratedLiquidityCurve, TickData } from '../types';
+import {
+  PoolQuoter,
+  SwapQuote,
+  FEE_RATE_DENOMINATOR,
+  getFeeRate,
+  ceilDiv,
+  calculatePriceImpact,
+  emptyQuote,
+} from './base';
+
+const Q64 = BigInt(1) << BigInt(64);
+const ZERO = BigInt(0);
+
+// Tick bounds shared by Whirlpool and Raydium CLMM
+export const MIN_TICK_INDEX = -443636;
+export const MAX_TICK_INDEX = 443636;
+
+// Hard stop so malformed tick data can never spin the loop forever
+const MAX_SWAP_STEPS = 512;
+
+interface SwapStep {
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  nextSqrtPrice: bigint;
+}
+
+/**
+ * sqrt(1.0001^tick) in Q64.64. Double precision keeps the relative error
+ * around 1e-15, well below the smallest fee tier.
+ */
+export function tickIndexToSqrtPriceX64(tickIndex: number): bigint {
+  const clamped = Math.max(MIN_TICK_INDEX, Math.min(MAX_TICK_INDEX, tickIndex));
+  return BigInt(Math.floor(Math.pow(1.0001, clamped / 2) * Math.pow(2, 64)));
+}
+
+export function sqrtPriceX64ToPrice(sqrtPriceX64: bigint, decimalsA: number, decimalsB: number): number {
+  const sqrtPrice = Number(sqrtPriceX64) / Math.pow(2, 64);
+  return sqrtPrice * sqrtPrice * Math.pow(10, decimalsA - decimalsB);
+}
+
+// Amount of tokenA between two sqrt prices: L * (upper - lower) / (upper * lower)
+function getAmountADelta(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const numerator = liquidity * (upper - lower) * Q64;
+  const denominator = upper * lower;
+  return roundUp ? ceilDiv(numerator, denominator) : numerator / denominator;
+}
+
+// Amount of tokenB between two sqrt prices: L * (upper - lower)
+function getAmountBDelta(lower: bigint, upper: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const numerator = liquidity * (upper - lower);
+  return roundUp ? ceilDiv(numerator, Q64) : numerator / Q64;
+}
+
+function getNextSqrtPriceFromAmountA(sqrtPrice: bigint, liquidity: bigint, amount: bigint): bigint {
+  const numerator = liquidity * sqrtPrice * Q64;
+  const denominator = liquidity * Q64 + amount * sqrtPrice;
+  return ceilDiv(numerator, denominator);
+}
+
+function getNextSqrtPriceFromAmountB(sqrtPrice: bigint, liquidity: bigint, amount: bigint): bigint {
+  return sqrtPrice + (amount * Q64) / liquidity;
+}
+
+function computeSwapStep(
+  amountRemaining: bigint,
+  feeRate: bigint,
+  liquidity: bigint,
+  sqrtPrice: bigint,
+  targetSqrtPrice: bigint,
+  aToB: boolean
+): SwapStep {
+  const amountRemainingLessFee =
+    (amountRemaining * (FEE_RATE_DENOMINATOR - feeRate)) / FEE_RATE_DENOMINATOR;
+
+  const amountToTarget = aToB
+    ? getAmountADelta(targetSqrtPrice, sqrtPrice, liquidity, true)
+    : getAmountBDelta(sqrtPrice, targetSqrtPrice, liquidity, true);
+
+  const reachesTarget = amountRemainingLessFee >= amountToTarget;
+  const amountIn = reachesTarget ? amountToTarget : amountRemainingLessFee;
+  const nextSqrtPrice = reachesTarget
+    ? targetSqrtPrice
+    : aToB
+      ? getNextSqrtPriceFromAmountA(sqrtPrice, liquidity, amountIn)
+      : getNextSqrtPriceFromAmountB(sqrtPrice, liquidity, amountIn);
+
+  const amountOut = aToB
+    ? getAmountBDelta(nextSqrtPrice, sqrtPrice, liquidity, false)
+    : getAmountADelta(sqrtPrice, nextSqrtPrice, liquidity, false);
+
+  const feeAmount = reachesTarget
+    ? ceilDiv(amountIn * feeRate, FEE_RATE_DENOMINATOR - feeRate)
+    : amountRemaining - amountIn;
+
+  return { amountIn, amountOut, feeAmount, nextSqrtPrice };
+}
+
+export class ConcentratedLiquidityQuoter implements PoolQuoter {
+  kind = 'concentrated' as const;
+
+  quote(pool: PoolData, aToB: boolean, amountIn: bigint): SwapQuote {
+    const curve = pool.curve;
+    if (curve?.kind !== 'concentrated' || amountIn <= ZERO) {
+      return emptyQuote();
+    }
+
+    const feeRate = getFeeRate(pool);
+    const boundaries = this.getBoundaries(curve, aToB);
+
+    let sqrtPrice = curve.sqrtPriceX64;
+    let liquidity = curve.liquidity;
+    let remaining = amountIn;
+    let amountOut = ZERO;
+    let feeAmount = ZERO;
+
+    for (let i = 0; i < boundaries.length && i < MAX_SWAP_STEPS && remaining > ZERO; i++) {
+      const boundary = boundaries[i];
+      const targetSqrtPrice = tickIndexToSqrtPriceX64(boundary.index);
+
+      // Rounding in tickIndexToSqrtPriceX64 can leave the pool price exactly on or past a boundary
+      const alreadyPast = aToB ? targetSqrtPrice >= sqrtPrice : targetSqrtPrice <= sqrtPrice;
+
+      if (liquidity > ZERO && !alreadyPast) {
+        const step = computeSwapStep(remaining, feeRate, liquidity, sqrtPrice, targetSqrtPrice, aToB);
+        remaining -= step.amountIn + step.feeAmount;
+        amountOut += step.amountOut;
+        feeAmount += step.feeAmount;
+        sqrtPrice = step.nextSqrtPrice;
+
+        if (step.nextSqrtPrice !== targetSqrtPrice) {
+          break;
+        }
+      } else if (!alreadyPast) {
+        // Empty range: price moves to the next initialized tick for free
+        sqrtPrice = targetSqrtPrice;
+      }
+
+      // Crossing a tick going left removes its net liquidity, going right adds it
+      liquidity = aToB ? liquidity - boundary.liquidityNet : liquidity + boundary.liquidityNet;
+      if (liquidity < ZERO) liquidity = ZERO;
+    }
+
+    const consumed = amountIn - remaining;
+    return {
+      amountIn: consumed,
+      amountOut,
+      feeAmount,
+      priceImpact: calculatePriceImpact(pool, aToB, consumed, amountOut, this.spotPrice(pool)),
+      complete: remaining === ZERO,
+    };
+  }
+
+  spotPrice(pool: PoolData): number {
+    if (pool.curve?.kind !== 'concentrated') return 0;
+    return sqrtPriceX64ToPrice(pool.curve.sqrtPriceX64, pool.tokenA.decimals, pool.tokenB.decimals);
+  }
+
+  /**
+   * Initialized ticks in traversal order. Without tick data we only trust the
+   * liquidity inside the current tick-spacing range, so the quote stops at its edge.
+   */
+  private getBoundaries(curve: ConcentratedLiquidityCurve, aToB: boolean): TickData[] {
+    if (!curve.ticks) {
+      const lower = Math.floor(curve.tickCurrentIndex / curve.tickSpacing) * curve.tickSpacing;
+      const edge = aToB ? lower : lower + curve.tickSpacing;
+      return [{ index: edge, liquidityNet: ZERO }];
+    }
+
+    // Terminal boundary at the edge of the loaded ticks (or the price limit) so the last range is
+    // still swappable; liquidity beyond unloaded tick arrays is unknown
+    const limit = aToB
+      ? Math.max(MIN_TICK_INDEX, curve.tickRange?.lower ?? MIN_TICK_INDEX)
+      : Math.min(MAX_TICK_INDEX, curve.tickRange?.upper ?? MAX_TICK_INDEX);
+
+    const ticks = aToB
+      ? curve.ticks
+          .filter(t => t.index <= curve.tickCurrentIndex && t.index > limit)
+          .sort((a, b) => b.index - a.index)
+      : curve.ticks
+          .filter(t => t.index > curve.tickCurrentIndex && t.index < limit)
+          .sort((a, b) => a.index - b.index);
+    return [...ticks, { index: limit, liquidityNet: ZERO }];
+  }
+}
@@ -0,0 +1,68 @@
+// Constant product (x * y = k) quoter, with optional Lifinity-style concentration
+
+import { PoolData } from '../types';
+import {
+  PoolQuoter,
+  SwapQuote,
+  FEE_RATE_DENOMINATOR,
+  getFeeRate,
+  calculatePriceImpact,
+  emptyQuote,
+} from './base';
+
+// Fixed-point scale for the concentration multiplier
+const CONCENTRATION_SCALE = BigInt(1_000_000);
+
+export class ConstantProductQuoter implements PoolQuoter {
+  kind = 'constant_product' as const;
+
+  quote(pool: PoolData, aToB: boolean, amountIn: bigint): SwapQuote {
+    const reserveIn = aToB ? pool.reserves.tokenA : pool.reserves.tokenB;
+    const reserveOut = aToB ? pool.reserves.tokenB : pool.reserves.tokenA;
+
+    if (amountIn <= BigInt(0) || reserveIn === BigInt(0) || reserveOut === BigInt(0)) {
+      return emptyQuote();
+    }
+
+    const feeRate = getFeeRate(pool);
+    const feeAmount = (amountIn * feeRate) / FEE_RATE_DENOMINATOR;
+    const amountInLessFee = amountIn - feeAmount;
+
+    // Concentrated CP pools price against virtual reserves but can only pay out real ones
+    const concentration = this.getConcentration(pool);
+    const virtualIn = (reserveIn * concentration) / CONCENTRATION_SCALE;
+    const virtualOut = (reserveOut * concentration) / CONCENTRATION_SCALE;
+
+    // dy = (y * dx) / (x + dx)
+    let amountOut = (virtualOut * amountInLessFee) / (virtualIn + amountInLessFee);
+    let complete = true;
+
+    if (amountOut >= reserveOut) {
+      amountOut = reserveOut - BigInt(1);
+      complete = false;
+    }
+
+    return {
+      amountIn,
+      amountOut,
+      feeAmount,
+      priceImpact: calculatePriceImpact(pool, aToB, amountIn, amountOut, this.spotPrice(pool)),
+      complete,
+    };
+  }
+
+  spotPrice(pool: PoolData): number {
+    if (pool.reserves.tokenA === BigInt(0)) return 0;
+    const adjustedA = Number(pool.reserves.tokenA) / Math.pow(10, pool.tokenA.decimals);
+    const adjustedB = Number(pool.reserves.tokenB) / Math.pow(10, pool.tokenB.decimals);
+    return adjustedB / adjustedA;
+  }
+
+  private getConcentration(pool: PoolData): bigint {
+    const concentration =
+      pool.curve?.kind === 'constant_product' && pool.curve.concentration
+        ? pool.curve.concentration
+        : 1;
+    return BigInt(Math.round(Math.max(1, concentration) * Number(CONCENTRATION_SCALE)));
+  }
+}
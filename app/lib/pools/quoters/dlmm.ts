@@ -0,0 +1,99 @@
+// Meteora DLMM (liquidity book) quoter
+// Each bin trades at a constant price; swaps drain bins outward from the active one
+
+import { PoolData, BinData } from '../types';
+import {
+  PoolQuoter,
+  SwapQuote,
+  FEE_RATE_DENOMINATOR,
+  getFeeRate,
+  ceilDiv,
+  calculatePriceImpact,
+  emptyQuote,
+} from './base';
+
+const Q64 = BigInt(1) << BigInt(64);
+const ZERO = BigInt(0);
+
+/**
+ * Raw tokenB-per-tokenA price of a bin: (1 + binStep / 10000) ^ binId
+ */
+export function getBinPrice(binId: number, binStep: number): number {
+  return Math.pow(1 + binStep / 10000, binId);
+}
+
+function getBinPriceX64(binId: number, binStep: number): bigint {
+  return BigInt(Math.floor(getBinPrice(binId, binStep) * Math.pow(2, 64)));
+}
+
+export class DLMMQuoter implements PoolQuoter {
+  kind = 'dlmm' as const;
+
+  quote(pool: PoolData, aToB: boolean, amountIn: bigint): SwapQuote {
+    const curve = pool.curve;
+    // Without bin liquidity there is nothing we can honestly quote against
+    if (curve?.kind !== 'dlmm' || !curve.bins || amountIn <= ZERO) {
+      return emptyQuote();
+    }
+
+    const feeRate = getFeeRate(pool);
+    const bins = this.getTraversalOrder(curve.bins, curve.activeId, aToB);
+
+    let remaining = amountIn;
+    let amountOut = ZERO;
+    let feeAmount = ZERO;
+
+    for (const bin of bins) {
+      if (remaining <= ZERO) break;
+
+      const priceX64 = getBinPriceX64(bin.id, curve.binStep);
+      if (priceX64 === ZERO) continue;
+
+      // Selling tokenA drains the bin's tokenB and vice versa
+      const binLiquidityOut = aToB ? bin.amountY : bin.amountX;
+      if (binLiquidityOut === ZERO) continue;
+
+      const maxAmountIn = aToB
+        ? ceilDiv(binLiquidityOut * Q64, priceX64)
+        : ceilDiv(binLiquidityOut * priceX64, Q64);
+      const maxFee = ceilDiv(maxAmountIn * feeRate, FEE_RATE_DENOMINATOR - feeRate);
+
+      if (remaining >= maxAmountIn + maxFee) {
+        remaining -= maxAmountIn + maxFee;
+        amountOut += binLiquidityOut;
+        feeAmount += maxFee;
+        continue;
+      }
+
+      const fee = ceilDiv(remaining * feeRate, FEE_RATE_DENOMINATOR);
+      const amountInLessFee = remaining - fee;
+      amountOut += aToB ? (amountInLessFee * priceX64) / Q64 : (amountInLessFee * Q64) / priceX64;
+      feeAmount += fee;
+      remaining = ZERO;
+    }
+
+    const consumed = amountIn - remaining;
+    return {
+      amountIn: consumed,
+      amountOut,
+      feeAmount,
+      priceImpact: calculatePriceImpact(pool, aToB, consumed, amountOut, this.spotPrice(pool)),
+      complete: remaining === ZERO,
+    };
+  }
+
+  spotPrice(pool: PoolData): number {
+    if (pool.curve?.kind !== 'dlmm') return 0;
+    const rawPrice = getBinPrice(pool.curve.activeId, pool.curve.binStep);
+    return rawPrice * Math.pow(10, pool.tokenA.decimals - pool.tokenB.decimals);
+  }
+
+  /**
+   * Selling tokenA walks down from the active bin, selling tokenB walks up
+   */
+  private getTraversalOrder(bins: BinData[], activeId: number, aToB: boolean): BinData[] {
+    return aToB
+      ? bins.filter(b => b.id <= activeId).sort((a, b) => b.id - a.id)
+      : bins.filter(b => b.id >= activeId).sort((a, b) => a.id - b.id);
+  }
+}
@@ -0,0 +1,128 @@
+// Stable-swap (Curve / Saber invariant) quoter for two-asset pools
+
+import { PoolData } from '../types';
+import {
+  PoolQuoter,
+  SwapQuote,
+  FEE_RATE_DENOMINATOR,
+  getFeeRate,
+  calculatePriceImpact,
+  emptyQuote,
+} from './base';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const N_COINS = BigInt(2);
+const MAX_ITERATIONS = 255;
+
+function pow10(exponent: number): bigint {
+  let result = ONE;
+  for (let i = 0; i < exponent; i++) result *= BigInt(10);
+  return result;
+}
+
+function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+/**
+ * Invariant D for balances x, y: A·n^n·(x + y) + D = A·D·n^n + D^(n+1) / (n^n·x·y)
+ */
+export function computeD(amplification: bigint, x: bigint, y: bigint): bigint {
+  const sum = x + y;
+  if (sum === ZERO) return ZERO;
+
+  const ann = amplification * N_COINS * N_COINS;
+  let d = sum;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = d;
+    dP = (dP * d) / (x * N_COINS);
+    dP = (dP * d) / (y * N_COINS);
+
+    const previous = d;
+    d = ((ann * sum + dP * N_COINS) * d) / ((ann - ONE) * d + (N_COINS + ONE) * dP);
+
+    if (abs(d - previous) <= ONE) break;
+  }
+
+  return d;
+}
+
+/**
+ * Balance of the other asset that keeps D constant when one side becomes newX
+ */
+export function computeY(amplification: bigint, newX: bigint, d: bigint): bigint {
+  const ann = amplification * N_COINS * N_COINS;
+  let c = (d * d) / (newX * N_COINS);
+  c = (c * d) / (ann * N_COINS);
+  const b = newX + d / ann;
+
+  let y = d;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const previous = y;
+    y = (y * y + c) / (N_COINS * y + b - d);
+    if (abs(y - previous) <= ONE) break;
+  }
+
+  return y;
+}
+
+export class StableSwapQuoter implements PoolQuoter {
+  kind = 'stable' as const;
+
+  quote(pool: PoolData, aToB: boolean, amountIn: bigint): SwapQuote {
+    if (pool.curve?.kind !== 'stable' || amountIn <= ZERO) {
+      return emptyQuote();
+    }
+
+    const amountOut = this.getAmountOut(pool, aToB, amountIn, true);
+    const grossOut = this.getAmountOut(pool, aToB, amountIn, false);
+    const reserveOut = aToB ? pool.reserves.tokenB : pool.reserves.tokenA;
+
+    return {
+      amountIn,
+      amountOut,
+      // Stable pools charge the fee on the output side
+      feeAmount: grossOut - amountOut,
+      priceImpact: calculatePriceImpact(pool, aToB, amountIn, amountOut, this.spotPrice(pool)),
+      complete: amountOut > ZERO && amountOut < reserveOut,
+    };
+  }
+
+  spotPrice(pool: PoolData): number {
+    if (pool.curve?.kind !== 'stable' || pool.reserves.tokenA === ZERO) return 0;
+
+    // Marginal price from a swap of one millionth of the tokenA reserve, before fees
+    const probe = pool.reserves.tokenA / BigInt(1_000_000) || ONE;
+    const out = this.getAmountOut(pool, true, probe, false);
+    const rawPrice = Number(out) / Number(probe);
+    return rawPrice * Math.pow(10, pool.tokenA.decimals - pool.tokenB.decimals);
+  }
+
+  private getAmountOut(pool: PoolData, aToB: boolean, amountIn: bigint, applyFee: boolean): bigint {
+    if (pool.curve?.kind !== 'stable') return ZERO;
+    if (pool.reserves.tokenA === ZERO || pool.reserves.tokenB === ZERO) return ZERO;
+
+    // Normalize both sides to the larger decimal precision so the invariant compares like units
+    const precision = Math.max(pool.tokenA.decimals, pool.tokenB.decimals);
+    const scaleA = pow10(precision - pool.tokenA.decimals);
+    const scaleB = pow10(precision - pool.tokenB.decimals);
+    const scaleIn = aToB ? scaleA : scaleB;
+    const scaleOut = aToB ? scaleB : scaleA;
+
+    const x = (aToB ? pool.reserves.tokenA : pool.reserves.tokenB) * scaleIn;
+    const y = (aToB ? pool.reserves.tokenB : pool.reserves.tokenA) * scaleOut;
+    const amplification = BigInt(Math.max(1, Math.round(pool.curve.amplification)));
+
+    const d = computeD(amplification, x, y);
+    const newY = computeY(amplification, x + amountIn * scaleIn, d);
+    if (newY >= y) return ZERO;
+
+    let dy = (y - newY - ONE) / scaleOut;
+    if (applyFee) {
+      dy -= (dy * getFeeRate(pool)) / FEE_RATE_DENOMINATOR;
+    }
+    return dy > ZERO ? dy : ZERO;
+  }
+}
@@ -0,0 +1,350 @@
+// Record/replay snapshots of scanner I/O
+// A recorded scan captures every RPC call (program accounts, vault balances, mints) and
+// every HTTP response (Helius pagination, Birdeye) so PoolScanner, ArbitrageDetector and
+// RiskAnalyzer can be re-run offline against the identical market state.
+
+import { promises as fs } from 'fs';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { ArbitrageOpportunity, ScannerConfig, ScannerState } from './types';
+import { PoolScanner } from './scanner';
+import { ArbitrageDetector } from './arbitrage';
+import { RiskAnalyzer, RiskAnalysis } from './risk-analyzer';
+import { Clock, createFixedClock } from './clock';
+
+export const SCAN_SNAPSHOT_VERSION = 1;
+
+// Environment flags that switch fetchers between data sources; replays restore them
+const SNAPSHOT_ENV_KEYS = ['NEXT_PUBLIC_HELIUS_API_KEY', 'NEXT_PUBLIC_BIRDEYE_API_KEY'] as const;
+const REPLAY_ENV_PLACEHOLDER = 'replay';
+
+export interface RecordedHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface ScanSnapshot {
+  version: number;
+  recordedAt: string; // ISO timestamp; replays run with the clock frozen here
+  label?: string;
+  rpcEndpoint: string; // RPC URL the scanner used; api-key query params are redacted
+  env: Record<string, boolean>; // Which data-source keys were configured
+  config: ScannerConfig;
+  rpc: Record<string, unknown[]>; // "method(args)" -> encoded results, in call order
+  http: Record<string, RecordedHttpResponse[]>; // "METHOD url body" -> responses, in call order
+}
+
+export interface ReplayResult {
+  state: ScannerState;
+  opportunities: ArbitrageOpportunity[];
+  riskAnalyses: RiskAnalysis[];
+}
+
+type FetchFn = typeof fetch;
+
+// ===== Value codec (Buffers, PublicKeys, bigints and Dates survive JSON) =====
+
+export function encodeValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return { $bigint: value.toString() };
+  if (value instanceof PublicKey) return { $pubkey: value.toBase58() };
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString('base64') };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) encoded[key] = encodeValue(entry);
+    }
+    return encoded;
+  }
+  return value;
+}
+
+export function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const tagged = value as Record<string, any>;
+    if (typeof tagged.$bigint === 'string') return BigInt(tagged.$bigint);
+    if (typeof tagged.$pubkey === 'string') return new PublicKey(tagged.$pubkey);
+    if (typeof tagged.$date === 'string') return new Date(tagged.$date);
+    if (typeof tagged.$bytes === 'string') return Buffer.from(tagged.$bytes, 'base64');
+
+    const decoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(tagged)) {
+      decoded[key] = decodeValue(entry);
+    }
+    return decoded;
+  }
+  return value;
+}
+
+function redact(url: string): string {
+  return url.replace(/api-key=[^&]+/g, 'api-key=***');
+}
+
+function rpcKey(method: string, args: unknown[]): string {
+  return `${method}(${JSON.stringify(encodeValue(args))})`;
+}
+
+function httpKey(input: RequestInfo | URL, init?: RequestInit): string {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const method = init?.method ?? (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+  const body = typeof init?.body === 'string' ? init.body : '';
+  return `${method.toUpperCase()} ${redact(url)} ${body}`.trim();
+}
+
+function isThenable(value: unknown): value is Promise<unknown> {
+  return !!value && typeof (value as any).then === 'function';
+}
+
+/**
+ * Swap globalThis.fetch and the data-source env flags for the duration of fn
+ */
+async function withScope<T>(fetchImpl: FetchFn, env: Record<string, string | undefined> | null, fn: () => Promise<T>): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const originalEnv: Record<string, string | undefined> = {};
+  if (env) {
+    for (const key of SNAPSHOT_ENV_KEYS) {
+      originalEnv[key] = process.env[key];
+      if (env[key] === undefined) delete process.env[key];
+      else process.env[key] = env[key];
+    }
+  }
+
+  globalThis.fetch = fetchImpl;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+    if (env) {
+      for (const key of SNAPSHOT_ENV_KEYS) {
+        if (originalEnv[key] === undefined) delete process.env[key];
+        else process.env[key] = originalEnv[key];
+      }
+    }
+  }
+}
+
+// ===== Recording =====
+
+export class ScanRecorder {
+  readonly connection: Connection;
+  private rpc: Record<string, unknown[]> = {};
+  private http: Record<string, RecordedHttpResponse[]> = {};
+  private target: Connection;
+  private startedAt: number | null = null;
+
+  constructor(connection: Connection) {
+    this.target = connection;
+    this.connection = this.createRecordingConnection(connection);
+  }
+
+  /**
+   * Run fn with fetch recorded; pass this.connection to anything that does RPC
+   */
+  async run<T>(fn: (connection: Connection) => Promise<T>): Promise<T> {
+    this.startedAt = this.startedAt ?? Date.now();
+    const originalFetch = globalThis.fetch;
+
+    const recordingFetch: FetchFn = async (input, init) => {
+      const response = await originalFetch(input, init);
+      const body = await response.clone().text();
+      // Bodies are stored decoded, so transport headers (encoding, length) are dropped
+      const headers: Record<string, string> = {};
+      const contentType = response.headers.get('content-type');
+      if (contentType) headers['content-type'] = contentType;
+
+      const key = httpKey(input, init);
+      (this.http[key] = this.http[key] || []).push({
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body,
+      });
+      return response;
+    };
+
+    return withScope(recordingFetch, null, () => fn(this.connection));
+  }
+
+  /**
+   * @param rpcUrl The RPC URL the scanner was given, if it differs from the connection's
+   */
+  toSnapshot(config: ScannerConfig, options: { label?: string; rpcUrl?: string } = {}): ScanSnapshot {
+    const env: Record<string, boolean> = {};
+    for (const key of SNAPSHOT_ENV_KEYS) {
+      env[key] = !!process.env[key];
+    }
+
+    return {
+      version: SCAN_SNAPSHOT_VERSION,
+      recordedAt: new Date(this.startedAt ?? Date.now()).toISOString(),
+      label: options.label,
+      rpcEndpoint: redact(options.rpcUrl ?? this.target.rpcEndpoint),
+      env,
+      config,
+      rpc: this.rpc,
+      http: this.http,
+    };
+  }
+
+  private createRecordingConnection(connection: Connection): Connection {
+    return new Proxy(connection, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+        return (...args: unknown[]) => {
+          const result = value.apply(target, args);
+          if (!isThenable(result)) return result;
+
+          return result.then(resolved => {
+            const key = rpcKey(property, args);
+            (this.rpc[key] = this.rpc[key] || []).push(encodeValue(resolved));
+            return resolved;
+          });
+        };
+      },
+    });
+  }
+}
+
+// ===== Replay =====
+
+export class ScanReplayer {
+  readonly connection: Connection;
+  readonly clock: Clock;
+  private snapshot: ScanSnapshot;
+  private rpcCursor = new Map<string, number>();
+  private httpCursor = new Map<string, number>();
+
+  constructor(snapshot: ScanSnapshot) {
+    if (snapshot.version !== SCAN_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported scan snapshot version ${snapshot.version}`);
+    }
+    this.snapshot = snapshot;
+    this.clock = createFixedClock(new Date(snapshot.recordedAt).getTime());
+    this.connection = this.createReplayConnection();
+  }
+
+  /**
+   * Run fn against recorded responses only; unrecorded requests fail instead of going live
+   */
+  async run<T>(fn: (connection: Connection) => Promise<T>): Promise<T> {
+    const replayFetch: FetchFn = async (input, init) => {
+      const key = httpKey(input, init);
+      const recorded = this.next(this.snapshot.http, this.httpCursor, key) as RecordedHttpResponse;
+      return new Response(recorded.body, {
+        status: recorded.status,
+        statusText: recorded.statusText,
+        headers: recorded.headers,
+      });
+    };
+
+    const env: Record<string, string | undefined> = {};
+    for (const key of SNAPSHOT_ENV_KEYS) {
+      env[key] = this.snapshot.env[key] ? REPLAY_ENV_PLACEHOLDER : undefined;
+    }
+
+    return withScope(replayFetch, env, () => fn(this.connection));
+  }
+
+  private next<V>(recorded: Record<string, V[]>, cursor: Map<string, number>, key: string): V {
+    const responses = recorded[key];
+    if (!responses || responses.length === 0) {
+      throw new Error(`Scan snapshot has no recorded response for ${key}`);
+    }
+    // Serve responses in recorded order, repeating the last one for extra calls
+    const index = cursor.get(key) ?? 0;
+    cursor.set(key, index + 1);
+    return responses[Math.min(index, responses.length - 1)];
+  }
+
+  private createReplayConnection(): Connection {
+    const rpcEndpoint = this.snapshot.rpcEndpoint;
+    return new Proxy({} as Connection, {
+      get: (_target, property) => {
+        if (property === 'rpcEndpoint') return rpcEndpoint;
+        if (property === 'then' || typeof property !== 'string') return undefined;
+
+        return async (...args: unknown[]) =>
+          decodeValue(this.next(this.snapshot.rpc, this.rpcCursor, rpcKey(property, args)));
+      },
+    });
+  }
+}
+
+// ===== Pipeline helpers =====
+
+/**
+ * Run a live scan while recording everything it reads
+ */
+export async function recordScan(
+  connection: Connection,
+  config: Partial<ScannerConfig> & { rpcUrl?: string } = {},
+  label?: string
+): Promise<{ state: ScannerState; snapshot: ScanSnapshot }> {
+  const recorder = new ScanRecorder(connection);
+  const scanner = new PoolScanner({ ...config, useCache: false });
+  const state = await recorder.run(recordingConnection => scanner.scan(recordingConnection));
+
+  return { state, snapshot: recorder.toSnapshot(state.config, { label, rpcUrl: config.rpcUrl }) };
+}
+
+/**
+ * Re-run scan, detection and risk analysis against a snapshot. The clock is frozen at
+ * the recording time, so identical snapshots produce identical results.
+ */
+export async function replayScan(
+  snapshot: ScanSnapshot,
+  configOverrides: Partial<ScannerConfig> = {}
+): Promise<ReplayResult> {
+  const replayer = new ScanReplayer(snapshot);
+  const clock = replayer.clock;
+
+  return replayer.run(async connection => {
+    const scanner = new PoolScanner({
+      ...snapshot.config,
+      rpcUrl: snapshot.rpcEndpoint,
+      clock,
+      useCache: false,
+    });
+    const state = await scanner.scan(connection);
+    const recordedAt = new Date(clock.now());
+    state.pools = state.pools.map(pool => ({ ...pool, lastUpdated: recordedAt }));
+
+    const config = { ...state.config, ...configOverrides };
+    const detector = new ArbitrageDetector(state.pools, config, connection, undefined, clock);
+    const opportunities = await detector.detectOpportunities();
+
+    const riskAnalyzer = new RiskAnalyzer(clock);
+    const riskAnalyses = opportunities.map(opportunity =>
+      riskAnalyzer.analyzeOpportunity(opportunity, state.pools)
+    );
+
+    return { state, opportunities, riskAnalyses };
+  });
+}
+
+// ===== Snapshot files =====
+
+export function serializeSnapshot(snapshot: ScanSnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+export function parseSnapshot(json: string): ScanSnapshot {
+  const snapshot = JSON.parse(json) as ScanSnapshot;
+  if (!snapshot || typeof snapshot !== 'object' || !snapshot.rpc || !snapshot.http) {
+    throw new Error('Invalid scan snapshot');
+  }
+  return snapshot;
+}
+
+export async function saveSnapshot(path: string, snapshot: ScanSnapshot): Promise<void> {
+  await fs.writeFile(path, serializeSnapshot(snapshot), 'utf8');
+}
+
+export async function loadSnapshot(path: string): Promise<ScanSnapshot> {
+  return parseSnapshot(await fs.readFile(path, 'utf8'));
+}
@@ -2,6 +2,7 @@
 // Determines if an opportunity is worth executing
 
 import { ArbitrageOpportunity, PoolData } from './types';
+import { Clock, systemClock } from './clock';
 
 export interface RiskAnalysis {
   opportunity: ArbitrageOpportunity;
@@ -22,6 +23,12 @@ export interface RiskAnalysis {
 }
 
 export class RiskAnalyzer {
+  private clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
   /**
    * Analyze risk and execution probability for an opportunity
    */
@@ -92,15 +99,15 @@ export class RiskAnalyzer {
       'high';
 
     // Analyze competition (based on opportunity age and profit)
-    const opportunityAge = Date.now() - opportunity.timestamp.getTime();
+    const opportunityAge = this.clock.now() - opportunity.timestamp.getTime();
     const competition: RiskAnalysis['factors']['competition'] =
       opportunityAge < 5000 && opportunity.profitPercent > 2 ? 'high' :
       opportunityAge < 10000 ? 'medium' :
       'low';
 
     // Analyze time window
-    const expiresAt = opportunity.expiresAt?.getTime() || Date.now() + 60000;
-    const timeRemaining = expiresAt - Date.now();
+    const expiresAt = opportunity.expiresAt?.getTime() || this.clock.now() + 60000;
+    const timeRemaining = expiresAt - this.clock.now();
     const timeWindow: RiskAnalysis['factors']['timeWindow'] =
       timeRemaining > 30000 ? 'wide' :
       timeRemaining > 10000 ? 'narrow' :
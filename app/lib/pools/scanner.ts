@@ -3,7 +3,7 @@
 import { Connection } from '@solana/web3.js';
 import { PoolData, ScannerState, ScannerConfig, DEFAULT_SCANNER_CONFIG, DEXProtocol } from './types';
 import { PoolFetcher } from './fetchers/base';
-import { RaydiumFetcher } from './fetchers/raydium';
+import { RaydiumFetcher, RaydiumClmmFetcher, RaydiumCpmmFetcher } from './fetchers/raydium';
 import { OrcaFetcher } from './fetchers/orca';
 import { JupiterFetcher } from './fetchers/jupiter';
 import { MeteoraFetcher } from './fetchers/meteora';
@@ -13,29 +13,43 @@ import { BirdeyeFetcher } from './fetchers/birdeye';
 import { AISearcher } from './ai-searcher';
 import { poolWebSocketManager, PoolUpdate } from './websocket';
 import { poolCache } from './cache';
+import { Clock, systemClock } from './clock';
+
+export interface PoolScannerOptions {
+  rpcUrl?: string;
+  clock?: Clock;
+  useCache?: boolean; // Read and write the shared pool cache (default true)
+}
 
 export class PoolScanner {
   private fetchers: Map<DEXProtocol, PoolFetcher>;
   private state: ScannerState;
   private rpcUrl?: string;
+  private clock: Clock;
+  private useCache: boolean;
   private lastScanTime: number = 0;
   private readonly CACHE_TTL = 60000; // 60 seconds cache TTL
   private readonly MIN_SCAN_INTERVAL = 30000; // Minimum 30 seconds between scans
 
-  constructor(config: Partial<ScannerConfig> & { rpcUrl?: string } = {}) {
-    this.rpcUrl = config.rpcUrl;
+  constructor(config: Partial<ScannerConfig> & PoolScannerOptions = {}) {
+    const { rpcUrl, clock, useCache, ...scannerConfig } = config;
+    this.rpcUrl = rpcUrl;
+    this.clock = clock ?? systemClock;
+    this.useCache = useCache ?? true;
     this.state = {
       pools: [],
       opportunities: [],
       isScanning: false,
       lastScanTime: null,
       errors: [],
-      config: { ...DEFAULT_SCANNER_CONFIG, ...config },
+      config: { ...DEFAULT_SCANNER_CONFIG, ...scannerConfig },
     };
 
     // Initialize fetchers
     this.fetchers = new Map();
     this.fetchers.set('raydium', new RaydiumFetcher());
+    this.fetchers.set('raydium_clmm', new RaydiumClmmFetcher());
+    this.fetchers.set('raydium_cpmm', new RaydiumCpmmFetcher());
     this.fetchers.set('orca', new OrcaFetcher());
     this.fetchers.set('jupiter', new JupiterFetcher());
     this.fetchers.set('meteora', new MeteoraFetcher());
@@ -63,7 +77,7 @@ export class PoolScanner {
     }
 
     // Rate limiting: Prevent scans too frequently
-    const now = Date.now();
+    const now = this.clock.now();
     const timeSinceLastScan = now - this.lastScanTime;
     if (timeSinceLastScan < this.MIN_SCAN_INTERVAL) {
       console.warn(`[Scanner] Rate limit: Please wait ${Math.ceil((this.MIN_SCAN_INTERVAL - timeSinceLastScan) / 1000)}s before scanning again`);
@@ -72,11 +86,11 @@ export class PoolScanner {
 
     // Check cache first
     const cacheKey = `scan_${this.state.config.enabledDEXs.join(',')}`;
-    const cached = poolCache.getOpportunities(cacheKey);
+    const cached = this.useCache ? poolCache.getOpportunities(cacheKey) : null;
     if (cached && Array.isArray(cached) && cached.length > 0) {
       console.log(`[Scanner] Using cached pools (${cached.length} pools)`);
       this.state.pools = cached as any;
-      this.state.lastScanTime = new Date();
+      this.state.lastScanTime = new Date(now);
       return this.state;
     }
 
@@ -87,6 +101,8 @@ export class PoolScanner {
     try {
       let allPools: PoolData[] = [];
       const enabledDEXs = this.state.config.enabledDEXs;
+      // Results are merged in enabledDEXs order, not completion order, so pool order is stable
+      const poolsByIndex: PoolData[][] = enabledDEXs.map(() => []);
       
       // Track API calls for logging
       let totalApiCalls = 0;
@@ -122,7 +138,7 @@ export class PoolScanner {
             console.warn(`[Scanner] ${dex}: No pools found`);
           }
           
-          allPools.push(...result.pools);
+          poolsByIndex[index] = result.pools;
           
           // Estimate API calls (rough estimate: 1 call per 1000 accounts)
           // This is just for logging, actual calls are in pagination
@@ -140,9 +156,10 @@ export class PoolScanner {
       });
 
       const results = await Promise.allSettled(fetchPromises);
+      allPools = poolsByIndex.flat();
       
       // Cache the results
-      if (allPools.length > 0) {
+      if (allPools.length > 0 && this.useCache) {
         poolCache.setOpportunities(cacheKey, allPools as any, this.CACHE_TTL);
         console.log(`[Scanner] Cached ${allPools.length} pools for ${this.CACHE_TTL / 1000}s`);
       }
@@ -224,7 +241,7 @@ export class PoolScanner {
 
       // Update state
       this.state.pools = allPools;
-      this.state.lastScanTime = new Date();
+      this.state.lastScanTime = new Date(this.clock.now());
       this.state.isScanning = false;
 
       return this.state;
@@ -0,0 +1,189 @@
+// Optimal trade-size search for arbitrage routes
+// Profit along a route is concave in the input size (every swap curve has diminishing
+// marginal output), so a bracketed ternary search finds the global maximum.
+
+export interface ProfitCurvePoint {
+  inputAmount: bigint;
+  outputAmount: bigint;
+  profit: number; // (output - input) in whole tokens of the start token
+}
+
+export interface TradeSizing {
+  optimalInputAmount: bigint;
+  optimalOutputAmount: bigint;
+  optimalProfit: number; // In whole tokens of the start token
+  marginalProfit: number; // d(profit)/d(input) at the optimum; ~0 at an interior optimum
+  profitCurve: ProfitCurvePoint[];
+  iterations: number; // Route simulations spent on the search
+}
+
+export interface TradeSizingOptions {
+  minInput?: bigint; // Smallest size worth executing (raw units); defaults to 0.001 whole tokens
+  maxInput?: bigint; // Upper bound on the search (raw units); defaults to 10,000 whole tokens
+  decimals?: number; // Decimals of the start token, for the default bounds and reported profit
+  curvePoints?: number; // Samples in the reported profit curve
+}
+
+/**
+ * Simulates a full route: returns the final output for amountIn, or null when any
+ * pool along the route cannot fill it.
+ */
+export type RouteSimulator = (amountIn: bigint) => bigint | null;
+
+// Default search bounds in whole tokens of the start token, scaled by its decimals
+const DEFAULT_MIN_INPUT_EXPONENT = -3; // 0.001 tokens
+const DEFAULT_MAX_INPUT_EXPONENT = 4; // 10,000 tokens
+const DEFAULT_CURVE_POINTS = 16;
+const MAX_SEARCH_ITERATIONS = 128;
+
+export function optimizeTradeSize(
+  simulate: RouteSimulator,
+  options: TradeSizingOptions = {}
+): TradeSizing | null {
+  const decimals = options.decimals ?? 9;
+  const minInput = options.minInput ?? toRawAmount(DEFAULT_MIN_INPUT_EXPONENT, decimals);
+  const maxInput = options.maxInput ?? toRawAmount(DEFAULT_MAX_INPUT_EXPONENT, decimals);
+  if (maxInput < minInput) {
+    return null; // Nothing to search, e.g. a pool holding less than the minimum size
+  }
+  const curvePoints = options.curvePoints ?? DEFAULT_CURVE_POINTS;
+
+  let iterations = 0;
+  const cache = new Map<string, bigint | null>();
+  const evaluate = (amountIn: bigint): bigint | null => {
+    const key = amountIn.toString();
+    if (!cache.has(key)) {
+      iterations++;
+      const output = simulate(amountIn);
+      cache.set(key, output === null ? null : output - amountIn);
+    }
+    return cache.get(key)!;
+  };
+
+  if (evaluate(minInput) === null) {
+    return null; // Route cannot fill even the smallest size
+  }
+
+  // 1. Bracket the optimum by doubling until profit stops increasing
+  let best = minInput;
+  let upper = minInput;
+  while (upper < maxInput) {
+    const next = upper * BigInt(2) > maxInput ? maxInput : upper * BigInt(2);
+    upper = next;
+    if (!isGreater(evaluate(next), evaluate(best))) break;
+    best = next;
+  }
+  let lo = best / BigInt(2) > minInput ? best / BigInt(2) : minInput;
+  let hi = upper;
+
+  // 2. Ternary search inside the bracket, unfillable sizes count as worse than anything
+  const tolerance = (amount: bigint) => (amount / BigInt(1000) > BigInt(1) ? amount / BigInt(1000) : BigInt(1));
+  for (let i = 0; i < MAX_SEARCH_ITERATIONS && hi - lo > tolerance(lo); i++) {
+    const third = (hi - lo) / BigInt(3);
+    const m1 = lo + third;
+    const m2 = hi - third;
+    if (isGreater(evaluate(m2), evaluate(m1))) {
+      lo = m1;
+    } else {
+      hi = m2;
+    }
+  }
+
+  let optimal = best;
+  for (const candidate of [lo, (lo + hi) / BigInt(2), hi]) {
+    if (isGreater(evaluate(candidate), evaluate(optimal))) {
+      optimal = candidate;
+    }
+  }
+
+  const optimalProfitRaw = evaluate(optimal)!;
+
+  return {
+    optimalInputAmount: optimal,
+    optimalOutputAmount: optimal + optimalProfitRaw,
+    optimalProfit: toWholeTokens(optimalProfitRaw, decimals),
+    marginalProfit: calculateMarginalProfit(evaluate, optimal, minInput),
+    profitCurve: sampleProfitCurve(evaluate, optimal, minInput, maxInput, curvePoints, decimals),
+    iterations,
+  };
+}
+
+/**
+ * Central difference of profit around amountIn, falling back to a one-sided
+ * difference when the larger size is unfillable
+ */
+function calculateMarginalProfit(
+  evaluate: (amountIn: bigint) => bigint | null,
+  amountIn: bigint,
+  minInput: bigint
+): number {
+  const step = amountIn / BigInt(1000) > BigInt(1) ? amountIn / BigInt(1000) : BigInt(1);
+  const center = evaluate(amountIn);
+  const above = evaluate(amountIn + step);
+  const below = amountIn - step >= minInput ? evaluate(amountIn - step) : null;
+
+  if (center === null) return 0;
+  if (above !== null && below !== null) {
+    return Number(above - below) / Number(step * BigInt(2));
+  }
+  if (below !== null) {
+    return Number(center - below) / Number(step);
+  }
+  if (above !== null) {
+    return Number(above - center) / Number(step);
+  }
+  return 0;
+}
+
+/**
+ * Evenly spaced samples from zero to twice the optimum, so the peak sits mid-chart
+ */
+function sampleProfitCurve(
+  evaluate: (amountIn: bigint) => bigint | null,
+  optimal: bigint,
+  minInput: bigint,
+  maxInput: bigint,
+  points: number,
+  decimals: number
+): ProfitCurvePoint[] {
+  const curve: ProfitCurvePoint[] = [];
+  if (points < 2) return curve;
+
+  const span = optimal * BigInt(2) < maxInput ? optimal * BigInt(2) : maxInput;
+  for (let i = 1; i <= points; i++) {
+    const amountIn = (span * BigInt(i)) / BigInt(points);
+    if (amountIn < minInput) continue;
+
+    const profit = evaluate(amountIn);
+    if (profit === null) break; // Everything larger is unfillable too
+
+    curve.push({
+      inputAmount: amountIn,
+      outputAmount: amountIn + profit,
+      profit: toWholeTokens(profit, decimals),
+    });
+  }
+
+  return curve;
+}
+
+function isGreater(a: bigint | null, b: bigint | null): boolean {
+  if (a === null) return false;
+  if (b === null) return true;
+  return a > b;
+}
+
+function toWholeTokens(amount: bigint, decimals: number): number {
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+/**
+ * 10^exponent whole tokens in raw units, at least one raw unit
+ */
+function toRawAmount(exponent: number, decimals: number): bigint {
+  let amount = BigInt(1);
+  for (let i = 0; i < decimals + exponent; i++) {
+    amount *= BigInt(10);
+  }
+  return amount;
+}
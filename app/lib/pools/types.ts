@@ -1,6 +1,16 @@
 // Type definitions for liquidity pools and arbitrage detection
 
-export type DEXProtocol = 'raydium' | 'orca' | 'jupiter' | 'meteora' | 'lifinity' | string;
+import type { TradeSizing } from './trade-sizing';
+
+export type DEXProtocol =
+  | 'raydium' // Raydium AMM v4
+  | 'raydium_clmm'
+  | 'raydium_cpmm'
+  | 'orca'
+  | 'jupiter'
+  | 'meteora'
+  | 'lifinity'
+  | string;
 
 export interface TokenInfo {
   mint: string;
@@ -23,6 +33,57 @@ export interface Trade {
   txSignature?: string;
 }
 
+// Swap curve state used by the quote engine (see quote-engine.ts)
+export type PoolCurveKind = 'constant_product' | 'concentrated' | 'dlmm' | 'stable';
+
+export interface ConstantProductCurve {
+  kind: 'constant_product';
+  concentration?: number; // Virtual reserve multiplier (Lifinity-style concentrated CP), defaults to 1
+  feeRate?: number; // Fee tier in millionths (e.g., 3000 = 0.3%), overrides PoolData.fee
+}
+
+export interface TickData {
+  index: number;
+  liquidityNet: bigint;
+}
+
+export interface ConcentratedLiquidityCurve {
+  kind: 'concentrated';
+  sqrtPriceX64: bigint; // sqrt(tokenB / tokenA) in raw units, Q64.64
+  liquidity: bigint; // Active liquidity at the current tick
+  tickCurrentIndex: number;
+  tickSpacing: number;
+  ticks?: TickData[]; // Initialized ticks; when omitted only the current tick-spacing range is quoted
+  tickRange?: { lower: number; upper: number }; // Span of the loaded tick arrays; quotes stop at its edges
+  feeRate?: number;
+}
+
+export interface BinData {
+  id: number;
+  amountX: bigint; // tokenA held in the bin
+  amountY: bigint; // tokenB held in the bin
+}
+
+export interface BinLiquidityCurve {
+  kind: 'dlmm';
+  activeId: number;
+  binStep: number; // In basis points
+  bins?: BinData[]; // Bins with liquidity from the loaded bin arrays; quotes stop past the last one
+  feeRate?: number;
+}
+
+export interface StableSwapCurve {
+  kind: 'stable';
+  amplification: number;
+  feeRate?: number;
+}
+
+export type PoolCurve =
+  | ConstantProductCurve
+  | ConcentratedLiquidityCurve
+  | BinLiquidityCurve
+  | StableSwapCurve;
+
 export interface PoolData {
   id: string;
   dex: DEXProtocol;
@@ -37,6 +98,7 @@ export interface PoolData {
   lastUpdated: Date;
   programId?: string; // On-chain program ID
   poolAddress?: string; // Pool account address
+  curve?: PoolCurve; // Swap curve state; constant product on reserves when omitted
 }
 
 export type ArbitragePathType = 'simple' | 'multi_hop' | 'wrap' | 'unwrap' | 'cross-protocol';
@@ -65,12 +127,12 @@ export interface ArbitrageOpportunity {
   id: string;
   path: ArbitragePath;
   type: 'simple' | 'multi_hop' | 'wrap_unwrap' | 'cross_protocol' | 'flash_loan' | 'mev';
-  profit: number; // Estimated profit in SOL
+  profit: number; // Estimated profit in SOL (start-token profit at its SOL spot price; see sizing for token units)
   profitPercent: number; // Profit as percentage of input
   inputAmount: bigint;
   outputAmount: bigint;
   gasEstimate: number; // Estimated transaction cost in lamports
-  netProfit: number; // Profit after gas costs
+  netProfit: number; // Profit after gas costs, in SOL
   confidence: number; // 0-1 confidence score
   steps: ArbitrageStep[];
   timestamp: Date;
@@ -80,6 +142,8 @@ export interface ArbitrageOpportunity {
   requiresFlashLoan?: boolean;
   jitoBundleId?: string;
   signalType?: 'new_pool' | 'large_swap' | 'lsd_depeg' | 'oracle_update';
+  // Optimal trade size found by searching the route's composed swap curves
+  sizing?: TradeSizing;
 }
 
 export interface ScannerConfig {
@@ -118,7 +182,7 @@ export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
   minProfitThreshold: 0.001, // 0.001 SOL minimum
   minProfitPercent: 0.1, // 0.1% minimum
   maxHops: 5,
-  enabledDEXs: ['raydium', 'orca', 'jupiter', 'meteora', 'lifinity'],
+  enabledDEXs: ['raydium', 'raydium_clmm', 'raydium_cpmm', 'orca', 'jupiter', 'meteora', 'lifinity'],
   showUnprofitable: true, // Show all results for training context
 };
 
@@ -3,14 +3,23 @@
 // Uses QuickNode WebSocket streaming for account updates
 
 import { Connection, PublicKey } from '@solana/web3.js';
-import { PoolData, DEXProtocol } from './types';
+import { PoolData, DEXProtocol, ConcentratedLiquidityCurve, BinLiquidityCurve } from './types';
+import { decodeWhirlpool } from './layouts/orca';
+import { decodeClmmPool } from './layouts/raydium';
+import { decodeLbPair } from './layouts/meteora';
+
+// Curve state held in the pool account itself; liquidity in tick and bin arrays is not
+export type PoolCurveUpdate =
+  | Pick<ConcentratedLiquidityCurve, 'kind' | 'sqrtPriceX64' | 'liquidity' | 'tickCurrentIndex'>
+  | Pick<BinLiquidityCurve, 'kind' | 'activeId'>;
 
 export interface PoolUpdate {
   poolId: string;
   dex: DEXProtocol;
-  price: number;
-  reserveA: bigint;
-  reserveB: bigint;
+  price: number; // 0 when unknown
+  reserveA: bigint; // 0 when unknown
+  reserveB: bigint; // 0 when unknown
+  curve?: PoolCurveUpdate;
   volume24h?: number;
   timestamp: Date;
 }
@@ -271,59 +280,12 @@ export class PoolWebSocketManager {
    * Parse Solana account update from QuickNode WebSocket
    */
   private parseSolanaAccountUpdate(accountData: any, dex: DEXProtocol, poolId: string): PoolUpdate | null {
-    try {
-      // Account data comes as base64 encoded
-      // We need to decode and parse the pool state
-      // This is a simplified parser - actual parsing depends on pool type (Raydium, Orca, etc.)
-      
-      if (!accountData.data || !Array.isArray(accountData.data)) {
-        return null;
-      }
-
-      // Decode base64 account data
-      const accountBytes = Buffer.from(accountData.data[0], 'base64');
-      
-      // Parse pool reserves and price from account data
-      // This is a generic parser - you'll need to adjust based on specific DEX pool structure
-      // For Raydium: reserves are typically at specific offsets
-      // For Orca: different structure
-      // This is a placeholder that extracts what it can
-      
-      let reserveA = BigInt(0);
-      let reserveB = BigInt(0);
-      let price = 0;
-
-      // Try to extract reserves (simplified - actual parsing depends on pool type)
-      if (accountBytes.length >= 16) {
-        // Example: read first 8 bytes as reserveA, next 8 as reserveB
-        // This is a placeholder - adjust based on actual pool account structure
-        try {
-          reserveA = accountBytes.readBigUInt64LE(0);
-          reserveB = accountBytes.length >= 16 ? accountBytes.readBigUInt64LE(8) : BigInt(0);
-          
-          // Calculate price from reserves
-          if (reserveB > 0) {
-            price = Number(reserveA) / Number(reserveB);
-          }
-        } catch (e) {
-          // If parsing fails, we still create an update to notify of account change
-          console.warn(`[WebSocket] Could not parse reserves from account data for ${poolId}`);
-        }
-      }
-
-      return {
-        poolId,
-        dex,
-        price,
-        reserveA,
-        reserveB,
-        volume24h: undefined, // Not available from account data alone
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      console.error(`[WebSocket] Error parsing Solana account update:`, error);
+    // Account data comes as [base64, encoding]
+    if (!accountData.data || !Array.isArray(accountData.data)) {
       return null;
     }
+
+    return decodePoolAccountUpdate(poolId, dex, Buffer.from(accountData.data[0], 'base64'));
   }
 
   /**
@@ -426,6 +388,55 @@ export class PoolWebSocketManager {
   }
 }
 
+/**
+ * Decode a streamed pool account with its DEX layout. Constant-product pools keep their
+ * reserves in vault accounts, so their updates carry no state and leave the pool unchanged.
+ */
+export function decodePoolAccountUpdate(
+  poolId: string,
+  dex: DEXProtocol,
+  data: Buffer,
+  timestamp: Date = new Date()
+): PoolUpdate | null {
+  const update: PoolUpdate = { poolId, dex, price: 0, reserveA: BigInt(0), reserveB: BigInt(0), timestamp };
+
+  try {
+    switch (dex) {
+      case 'orca': {
+        const state = decodeWhirlpool(data);
+        update.curve = {
+          kind: 'concentrated',
+          sqrtPriceX64: state.sqrtPrice,
+          liquidity: state.liquidity,
+          tickCurrentIndex: state.tickCurrentIndex,
+        };
+        break;
+      }
+      case 'raydium_clmm': {
+        const state = decodeClmmPool(data);
+        const sqrtPrice = Number(state.sqrtPriceX64) / Math.pow(2, 64);
+        update.price = sqrtPrice * sqrtPrice * Math.pow(10, state.mintDecimals0 - state.mintDecimals1);
+        update.curve = {
+          kind: 'concentrated',
+          sqrtPriceX64: state.sqrtPriceX64,
+          liquidity: state.liquidity,
+          tickCurrentIndex: state.tickCurrent,
+        };
+        break;
+      }
+      case 'meteora': {
+        update.curve = { kind: 'dlmm', activeId: decodeLbPair(data).activeId };
+        break;
+      }
+    }
+  } catch (error) {
+    console.warn(`[WebSocket] Could not decode ${dex} account update for ${poolId}:`, error);
+    return null;
+  }
+
+  return update;
+}
+
 // Singleton instance
 export const poolWebSocketManager = new PoolWebSocketManager();
 
@@ -0,0 +1,285 @@
+// Pump.fun bonding curve accounts, quote math and buy/sell instructions
+
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { BorshLayout, Decoded } from '../pools/layouts/borsh';
+import { SwapQuote, ceilDiv, emptyQuote } from '../pools/quoters/base';
+import { IntegerLike, accountMeta, encodeU64 } from '../instructions/encoders/common';
+
+export const PUMPFUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+// Anchor discriminators: sha256("account:<Name>")[0..8] and sha256("global:<ix>")[0..8]
+const GLOBAL_DISCRIMINATOR = [167, 232, 232, 177, 200, 108, 114, 127];
+const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96];
+export const BUY_DISCRIMINATOR = [102, 6, 61, 18, 1, 218, 235, 234];
+export const SELL_DISCRIMINATOR = [51, 230, 133, 164, 1, 127, 131, 173];
+
+export const BPS_DENOMINATOR = BigInt(10_000);
+
+// Global config, up to the creator fee (later fields are not needed)
+export const PUMPFUN_GLOBAL_LAYOUT = new BorshLayout('PumpFunGlobal', [
+  ['initialized', 'bool'],
+  ['authority', 'pubkey'],
+  ['feeRecipient', 'pubkey'],
+  ['initialVirtualTokenReserves', 'u64'],
+  ['initialVirtualSolReserves', 'u64'],
+  ['initialRealTokenReserves', 'u64'],
+  ['tokenTotalSupply', 'u64'],
+  ['feeBasisPoints', 'u64'],
+  ['withdrawAuthority', 'pubkey'],
+  ['enableMigrate', 'bool'],
+  ['poolMigrationFee', 'u64'],
+  ['creatorFeeBasisPoints', 'u64'],
+] as const, GLOBAL_DISCRIMINATOR);
+
+export const BONDING_CURVE_LAYOUT = new BorshLayout('PumpFunBondingCurve', [
+  ['virtualTokenReserves', 'u64'],
+  ['virtualSolReserves', 'u64'],
+  ['realTokenReserves', 'u64'],
+  ['realSolReserves', 'u64'],
+  ['tokenTotalSupply', 'u64'],
+  ['complete', 'bool'],
+  ['creator', 'pubkey'],
+] as const, BONDING_CURVE_DISCRIMINATOR);
+
+export type PumpFunGlobal = Decoded<typeof PUMPFUN_GLOBAL_LAYOUT.fields>;
+export type BondingCurveState = Decoded<typeof BONDING_CURVE_LAYOUT.fields>;
+
+export interface PumpFunTradeKeys {
+  global: PublicKey;
+  feeRecipient: PublicKey;
+  mint: PublicKey;
+  bondingCurve: PublicKey;
+  associatedBondingCurve: PublicKey;
+  associatedUser: PublicKey;
+  user: PublicKey;
+  creatorVault: PublicKey;
+  tokenProgram: PublicKey;
+}
+
+export function decodePumpFunGlobal(data: Buffer): PumpFunGlobal {
+  return PUMPFUN_GLOBAL_LAYOUT.decode(data);
+}
+
+export function decodeBondingCurve(data: Buffer): BondingCurveState {
+  return BONDING_CURVE_LAYOUT.decode(data);
+}
+
+/**
+ * Protocol plus creator fee charged on both buys and sells, in basis points
+ */
+export function pumpFunFeeBps(global: PumpFunGlobal): bigint {
+  return global.feeBasisPoints + global.creatorFeeBasisPoints;
+}
+
+function findPumpFunAddress(seeds: Buffer[]): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(seeds, new PublicKey(PUMPFUN_PROGRAM_ID));
+  return address;
+}
+
+export function derivePumpFunGlobal(): PublicKey {
+  return findPumpFunAddress([Buffer.from('global')]);
+}
+
+export function deriveBondingCurve(mint: PublicKey): PublicKey {
+  return findPumpFunAddress([Buffer.from('bonding-curve'), mint.toBuffer()]);
+}
+
+export function deriveCreatorVault(creator: PublicKey): PublicKey {
+  return findPumpFunAddress([Buffer.from('creator-vault'), creator.toBuffer()]);
+}
+
+export function derivePumpFunEventAuthority(): PublicKey {
+  return findPumpFunAddress([Buffer.from('__event_authority')]);
+}
+
+/**
+ * Trade accounts for a user on a mint's bonding curve. `tokenProgram` is the
+ * mint account's owner (SPL Token or Token-2022).
+ */
+export function getPumpFunTradeKeys(
+  mint: PublicKey,
+  user: PublicKey,
+  global: PumpFunGlobal,
+  curve: BondingCurveState,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): PumpFunTradeKeys {
+  const bondingCurve = deriveBondingCurve(mint);
+  return {
+    global: derivePumpFunGlobal(),
+    feeRecipient: global.feeRecipient,
+    mint,
+    bondingCurve,
+    associatedBondingCurve: getAssociatedTokenAddressSync(mint, bondingCurve, true, tokenProgram),
+    associatedUser: getAssociatedTokenAddressSync(mint, user, true, tokenProgram),
+    user,
+    creatorVault: deriveCreatorVault(curve.creator),
+    tokenProgram,
+  };
+}
+
+/**
+ * Spot price in lamports per raw token unit
+ */
+export function bondingCurveSpotPrice(curve: BondingCurveState): number {
+  if (curve.virtualTokenReserves === BigInt(0)) return 0;
+  return Number(curve.virtualSolReserves) / Number(curve.virtualTokenReserves);
+}
+
+/**
+ * Share of the curve's sellable tokens already bought, 0-100
+ */
+export function bondingCurveProgress(curve: BondingCurveState, global: PumpFunGlobal): number {
+  if (curve.complete) return 100;
+  if (global.initialRealTokenReserves === BigInt(0)) return 0;
+  const sold = global.initialRealTokenReserves - curve.realTokenReserves;
+  return Number(sold * BigInt(10_000) / global.initialRealTokenReserves) / 100;
+}
+
+/**
+ * Tokens received for spending `lamportsIn` (fees included). Mirrors the program:
+ * the token amount is priced off the virtual reserves, capped at the real token
+ * reserves, and the fee is charged on top of the SOL cost.
+ */
+export function quoteBondingCurveBuy(curve: BondingCurveState, lamportsIn: bigint, feeBps: bigint): SwapQuote {
+  const { virtualSolReserves, virtualTokenReserves, realTokenReserves } = curve;
+  if (curve.complete || lamportsIn <= BigInt(0) || virtualTokenReserves === BigInt(0)) {
+    return emptyQuote();
+  }
+
+  const solForCurve = lamportsIn * BPS_DENOMINATOR / (BPS_DENOMINATOR + feeBps);
+  let amountOut = virtualTokenReserves * solForCurve / (virtualSolReserves + solForCurve);
+  let complete = true;
+  if (amountOut > realTokenReserves) {
+    amountOut = realTokenReserves;
+    complete = false;
+  }
+  if (amountOut <= BigInt(0)) {
+    return emptyQuote();
+  }
+
+  const solCost = bondingCurveBuyCost(curve, amountOut);
+  const feeAmount = ceilDiv(solCost * feeBps, BPS_DENOMINATOR);
+  const executionPrice = Number(solCost) / Number(amountOut);
+
+  return {
+    amountIn: solCost + feeAmount,
+    amountOut,
+    feeAmount,
+    priceImpact: Math.max(0, 1 - bondingCurveSpotPrice(curve) / executionPrice),
+    complete,
+  };
+}
+
+/**
+ * Lamports received for selling `tokensIn`, net of fees
+ */
+export function quoteBondingCurveSell(curve: BondingCurveState, tokensIn: bigint, feeBps: bigint): SwapQuote {
+  const { virtualSolReserves, virtualTokenReserves, realSolReserves } = curve;
+  if (curve.complete || tokensIn <= BigInt(0)) {
+    return emptyQuote();
+  }
+
+  let solOut = tokensIn * virtualSolReserves / (virtualTokenReserves + tokensIn);
+  let complete = true;
+  if (solOut > realSolReserves) {
+    solOut = realSolReserves;
+    complete = false;
+  }
+
+  const feeAmount = ceilDiv(solOut * feeBps, BPS_DENOMINATOR);
+  const spotPrice = bondingCurveSpotPrice(curve);
+
+  return {
+    amountIn: tokensIn,
+    amountOut: solOut > feeAmount ? solOut - feeAmount : BigInt(0),
+    feeAmount,
+    priceImpact: spotPrice > 0 ? Math.max(0, 1 - Number(solOut) / Number(tokensIn) / spotPrice) : 0,
+    complete,
+  };
+}
+
+/**
+ * SOL the program charges for `tokens` before fees (rounded up by one lamport, as on-chain)
+ */
+function bondingCurveBuyCost(curve: BondingCurveState, tokens: bigint): bigint {
+  return curve.virtualSolReserves * tokens / (curve.virtualTokenReserves - tokens) + BigInt(1);
+}
+
+/**
+ * Upper bound for an input amount after `slippageBps` of adverse price movement
+ */
+export function withMaxSlippage(amount: bigint, slippageBps: number): bigint {
+  return amount * (BPS_DENOMINATOR + BigInt(slippageBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * Lower bound for an output amount after `slippageBps` of adverse price movement
+ */
+export function withMinSlippage(amount: bigint, slippageBps: number): bigint {
+  return amount * (BPS_DENOMINATOR - BigInt(slippageBps)) / BPS_DENOMINATOR;
+}
+
+export function encodePumpFunBuyData(tokenAmount: IntegerLike, maxSolCost: IntegerLike): Buffer {
+  return Buffer.concat([Buffer.from(BUY_DISCRIMINATOR), encodeU64(tokenAmount), encodeU64(maxSolCost)]);
+}
+
+export function encodePumpFunSellData(tokenAmount: IntegerLike, minSolOutput: IntegerLike): Buffer {
+  return Buffer.concat([Buffer.from(SELL_DISCRIMINATOR), encodeU64(tokenAmount), encodeU64(minSolOutput)]);
+}
+
+/**
+ * Buy exactly `tokenAmount`; the program rejects the trade if it would cost more than `maxSolCost` lamports
+ */
+export function createPumpFunBuyInstruction(
+  keys: PumpFunTradeKeys,
+  tokenAmount: IntegerLike,
+  maxSolCost: IntegerLike
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(PUMPFUN_PROGRAM_ID),
+    keys: [
+      accountMeta(keys.global, false, false),
+      accountMeta(keys.feeRecipient, false, true),
+      accountMeta(keys.mint, false, false),
+      accountMeta(keys.bondingCurve, false, true),
+      accountMeta(keys.associatedBondingCurve, false, true),
+      accountMeta(keys.associatedUser, false, true),
+      accountMeta(keys.user, true, true),
+      accountMeta(SystemProgram.programId, false, false),
+      accountMeta(keys.tokenProgram, false, false),
+      accountMeta(keys.creatorVault, false, true),
+      accountMeta(derivePumpFunEventAuthority(), false, false),
+      accountMeta(new PublicKey(PUMPFUN_PROGRAM_ID), false, false),
+    ],
+    data: encodePumpFunBuyData(tokenAmount, maxSolCost),
+  });
+}
+
+/**
+ * Sell `tokenAmount`; the program rejects the trade if it would pay out less than `minSolOutput` lamports
+ */
+export function createPumpFunSellInstruction(
+  keys: PumpFunTradeKeys,
+  tokenAmount: IntegerLike,
+  minSolOutput: IntegerLike
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(PUMPFUN_PROGRAM_ID),
+    keys: [
+      accountMeta(keys.global, false, false),
+      accountMeta(keys.feeRecipient, false, true),
+      accountMeta(keys.mint, false, false),
+      accountMeta(keys.bondingCurve, false, true),
+      accountMeta(keys.associatedBondingCurve, false, true),
+      accountMeta(keys.associatedUser, false, true),
+      accountMeta(keys.user, true, true),
+      accountMeta(SystemProgram.programId, false, false),
+      accountMeta(keys.creatorVault, false, true),
+      accountMeta(keys.tokenProgram, false, false),
+      accountMeta(derivePumpFunEventAuthority(), false, false),
+      accountMeta(new PublicKey(PUMPFUN_PROGRAM_ID), false, false),
+    ],
+    data: encodePumpFunSellData(tokenAmount, minSolOutput),
+  });
+}
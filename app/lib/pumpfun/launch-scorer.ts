@@ -0,0 +1,487 @@
+/**
+ * Rule-based Pump.fun launch scoring
+ * Aggregates the first minutes of a token's filtered stream activity into launch
+ * features and scores them without an LLM. Recorded streams can be replayed to
+ * tune the thresholds offline against which launches went on to graduate.
+ */
+
+import { PumpFunFilterResult, PumpFunTransactionResult, processPumpFunFilter } from './quicknode-filter';
+import { SnipingAnalysis } from './ai-analysis';
+
+// Every pump.fun mint has a 1B token supply
+const TOTAL_SUPPLY_TOKENS = 1_000_000_000;
+// Real SOL in the curve when it completes and migrates
+const GRADUATION_SOL = 85;
+
+export interface LaunchScorerConfig {
+  windowMinutes: number; // Activity after this long from creation is ignored
+  bundleSlots: number; // Buys landing within this many slots of the create are treated as bundled
+  bundleMinWallets: number;
+  serialCreatorLaunches: number; // Earlier launches without a graduation that mark a serial creator
+  maxDevBuyPct: number; // % of supply
+  maxTop10HolderPct: number; // % of supply
+  strongVelocitySolPerMinute: number;
+  weakVelocitySolPerMinute: number;
+  minUniqueBuyers: number;
+  snipeScore: number;
+  watchScore: number;
+}
+
+export const DEFAULT_LAUNCH_SCORER_CONFIG: LaunchScorerConfig = {
+  windowMinutes: 5,
+  bundleSlots: 1,
+  bundleMinWallets: 3,
+  serialCreatorLaunches: 3,
+  maxDevBuyPct: 10,
+  maxTop10HolderPct: 35,
+  strongVelocitySolPerMinute: 2,
+  weakVelocitySolPerMinute: 0.2,
+  minUniqueBuyers: 20,
+  snipeScore: 70,
+  watchScore: 50,
+};
+
+export interface CreatorHistory {
+  launches: number;
+  graduated: number;
+}
+
+export interface LaunchFeatures {
+  mint: string;
+  creator: string;
+  createdAt: number; // Block time, Unix seconds
+  createdSlot: number;
+  elapsedMinutes: number; // Part of the window observed so far
+  creatorLaunches: number; // Launches by the creator before this one
+  creatorGraduations: number;
+  devBuyPct: number; // % of supply bought by the creator
+  devSold: boolean;
+  trades: number;
+  uniqueBuyers: number;
+  buyVolumeSol: number;
+  sellVolumeSol: number;
+  topHolderPct: number; // % of supply held by the largest wallet, creator included
+  top10HolderPct: number;
+  bundledWallets: number; // Non-creator wallets buying within bundleSlots of the create
+  bundledPct: number; // % of supply those wallets bought
+  netSolInflow: number;
+  velocitySolPerMinute: number;
+  curveProgressPct: number; // Net SOL in, relative to the graduation threshold
+}
+
+export type LaunchVerdict = 'snipe' | 'watch' | 'avoid';
+
+export interface LaunchScore {
+  mint: string;
+  score: number; // 0-100
+  verdict: LaunchVerdict;
+  reasons: string[];
+  warnings: string[];
+  features: LaunchFeatures;
+}
+
+export interface LaunchReplayResult extends LaunchScore {
+  graduated: boolean; // A migration for the mint appears later in the recording
+}
+
+export interface ThresholdSweepRow {
+  threshold: number;
+  selected: number;
+  graduated: number; // Selected launches that graduated
+  precision: number;
+  recall: number;
+}
+
+interface LaunchTrade {
+  wallet: string;
+  side: 'buy' | 'sell';
+  sol: number;
+  tokens: number;
+  slot: number;
+  timestamp: number;
+}
+
+interface LaunchState {
+  mint: string;
+  creator: string;
+  createdAt: number;
+  createdSlot: number;
+  creatorHistory: CreatorHistory; // As it stood at creation, so replays do not see the future
+  trades: LaunchTrade[];
+  migrated: boolean;
+}
+
+export class LaunchScorer {
+  private config: LaunchScorerConfig;
+  private launches: Map<string, LaunchState> = new Map();
+  private creators: Map<string, CreatorHistory> = new Map();
+  private latestBlockTime = 0;
+
+  /**
+   * @param creatorHistory Known launch records per creator wallet, e.g. from a previous replay
+   */
+  constructor(config: Partial<LaunchScorerConfig> = {}, creatorHistory: Record<string, CreatorHistory> = {}) {
+    this.config = { ...DEFAULT_LAUNCH_SCORER_CONFIG, ...config };
+    for (const [creator, history] of Object.entries(creatorHistory)) {
+      this.creators.set(creator, { ...history });
+    }
+  }
+
+  /**
+   * Feed one filtered block. Blocks must arrive in slot order.
+   */
+  ingest(result: PumpFunFilterResult): void {
+    this.latestBlockTime = Math.max(this.latestBlockTime, result.blockTime);
+    for (const tx of result.transactions) {
+      const slot = tx.info.slot ?? result.slot;
+      switch (tx.operation) {
+        case 'tokenCreation':
+          this.recordCreation(tx, slot);
+          break;
+        case 'buy':
+        case 'sell':
+          this.recordTrade(tx, slot);
+          break;
+        case 'migration':
+          this.recordMigration(tx);
+          break;
+      }
+    }
+  }
+
+  ingestAll(results: PumpFunFilterResult[]): void {
+    for (const result of results) {
+      this.ingest(result);
+    }
+  }
+
+  getLaunches(): string[] {
+    return Array.from(this.launches.keys());
+  }
+
+  hasGraduated(mint: string): boolean {
+    return this.launches.get(mint)?.migrated ?? false;
+  }
+
+  getCreatorHistory(): Record<string, CreatorHistory> {
+    const history: Record<string, CreatorHistory> = {};
+    this.creators.forEach((entry, creator) => {
+      history[creator] = { ...entry };
+    });
+    return history;
+  }
+
+  getFeatures(mint: string): LaunchFeatures | null {
+    const launch = this.launches.get(mint);
+    if (!launch) return null;
+
+    const windowEnd = launch.createdAt + this.config.windowMinutes * 60;
+    const trades = launch.trades.filter(trade => trade.timestamp <= windowEnd);
+    const elapsedMinutes = Math.min(
+      this.config.windowMinutes,
+      Math.max(0, (this.latestBlockTime - launch.createdAt) / 60)
+    );
+
+    const holdings = new Map<string, number>();
+    const buyers = new Set<string>();
+    const bundled = new Map<string, number>();
+    let devTokens = 0;
+    let devSold = false;
+    let buyVolumeSol = 0;
+    let sellVolumeSol = 0;
+
+    for (const trade of trades) {
+      const held = holdings.get(trade.wallet) ?? 0;
+      const isCreator = trade.wallet === launch.creator;
+
+      if (trade.side === 'buy') {
+        holdings.set(trade.wallet, held + trade.tokens);
+        buyVolumeSol += trade.sol;
+        if (isCreator) {
+          devTokens += trade.tokens;
+        } else {
+          buyers.add(trade.wallet);
+          if (trade.slot - launch.createdSlot <= this.config.bundleSlots) {
+            bundled.set(trade.wallet, (bundled.get(trade.wallet) ?? 0) + trade.tokens);
+          }
+        }
+      } else {
+        holdings.set(trade.wallet, Math.max(0, held - trade.tokens));
+        sellVolumeSol += trade.sol;
+        if (isCreator) devSold = true;
+      }
+    }
+
+    const balances = Array.from(holdings.values()).sort((a, b) => b - a);
+    const bundledTokens = Array.from(bundled.values()).reduce((sum, tokens) => sum + tokens, 0);
+    const netSolInflow = buyVolumeSol - sellVolumeSol;
+
+    return {
+      mint,
+      creator: launch.creator,
+      createdAt: launch.createdAt,
+      createdSlot: launch.createdSlot,
+      elapsedMinutes,
+      creatorLaunches: launch.creatorHistory.launches,
+      creatorGraduations: launch.creatorHistory.graduated,
+      devBuyPct: supplyPct(devTokens),
+      devSold,
+      trades: trades.length,
+      uniqueBuyers: buyers.size,
+      buyVolumeSol,
+      sellVolumeSol,
+      topHolderPct: supplyPct(balances[0] ?? 0),
+      top10HolderPct: supplyPct(balances.slice(0, 10).reduce((sum, tokens) => sum + tokens, 0)),
+      bundledWallets: bundled.size,
+      bundledPct: supplyPct(bundledTokens),
+      netSolInflow,
+      // Floor at one minute so the first few trades do not read as extreme velocity
+      velocitySolPerMinute: netSolInflow / Math.max(elapsedMinutes, 1),
+      curveProgressPct: Math.max(0, Math.min(100, (netSolInflow / GRADUATION_SOL) * 100)),
+    };
+  }
+
+  score(mint: string): LaunchScore | null {
+    const features = this.getFeatures(mint);
+    return features ? scoreLaunchFeatures(features, this.config) : null;
+  }
+
+  scoreAll(): LaunchScore[] {
+    return this.getLaunches().map(mint => this.score(mint)!);
+  }
+
+  private recordCreation(tx: PumpFunTransactionResult, slot: number): void {
+    const mint = tx.info.tokenMint;
+    const creator = tx.accounts.owner;
+    if (!mint || !creator || this.launches.has(mint)) return;
+
+    const history = this.creators.get(creator) ?? { launches: 0, graduated: 0 };
+    const launch: LaunchState = {
+      mint,
+      creator,
+      createdAt: tx.timestamp,
+      createdSlot: slot,
+      creatorHistory: { ...history },
+      trades: [],
+      migrated: false,
+    };
+    this.launches.set(mint, launch);
+    this.creators.set(creator, { ...history, launches: history.launches + 1 });
+
+    // A dev buy bundled into the create shows up as the creator's token change
+    const changes = tx.info.changes;
+    if (changes && changes.token > 0) {
+      const createFee = tx.info.bondingCurve?.createFee ?? 0;
+      launch.trades.push({
+        wallet: creator,
+        side: 'buy',
+        sol: Math.max(0, -changes.sol - createFee),
+        tokens: changes.token,
+        slot,
+        timestamp: tx.timestamp,
+      });
+    }
+  }
+
+  private recordTrade(tx: PumpFunTransactionResult, slot: number): void {
+    const launch = tx.info.tokenAddress ? this.launches.get(tx.info.tokenAddress) : undefined;
+    const wallet = tx.accounts.owner;
+    const changes = tx.info.changes;
+    if (!launch || !wallet || !changes) return;
+
+    launch.trades.push({
+      wallet,
+      side: tx.operation === 'buy' ? 'buy' : 'sell',
+      sol: Math.abs(changes.sol),
+      tokens: Math.abs(changes.token),
+      slot,
+      timestamp: tx.timestamp,
+    });
+  }
+
+  private recordMigration(tx: PumpFunTransactionResult): void {
+    const launch = tx.info.tokenAddress ? this.launches.get(tx.info.tokenAddress) : undefined;
+    if (!launch || launch.migrated) return;
+
+    launch.migrated = true;
+    const history = this.creators.get(launch.creator);
+    if (history) {
+      history.graduated += 1;
+    }
+  }
+}
+
+function supplyPct(tokens: number): number {
+  return (tokens / TOTAL_SUPPLY_TOKENS) * 100;
+}
+
+/**
+ * Score launch features from a neutral 50, adding and subtracting per rule
+ */
+export function scoreLaunchFeatures(
+  features: LaunchFeatures,
+  config: LaunchScorerConfig = DEFAULT_LAUNCH_SCORER_CONFIG
+): LaunchScore {
+  let score = 50;
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+
+  // Creator history
+  if (features.creatorLaunches >= config.serialCreatorLaunches && features.creatorGraduations === 0) {
+    score -= 20;
+    warnings.push(`Creator launched ${features.creatorLaunches} earlier tokens and none graduated`);
+  } else if (features.creatorGraduations > 0) {
+    score += 10;
+    reasons.push(`Creator has ${features.creatorGraduations} graduated launch(es)`);
+  }
+
+  // Dev buy
+  if (features.devSold) {
+    score -= 25;
+    warnings.push('Creator sold within the launch window');
+  }
+  if (features.devBuyPct > config.maxDevBuyPct) {
+    score -= 15;
+    warnings.push(`Dev bought ${features.devBuyPct.toFixed(1)}% of supply`);
+  } else if (features.devBuyPct > 0 && features.devBuyPct <= config.maxDevBuyPct / 2) {
+    score += 5;
+    reasons.push(`Modest dev buy (${features.devBuyPct.toFixed(1)}% of supply)`);
+  }
+
+  // Holder concentration
+  if (features.top10HolderPct > config.maxTop10HolderPct) {
+    score -= 15;
+    warnings.push(`Top 10 wallets hold ${features.top10HolderPct.toFixed(1)}% of supply`);
+  } else if (features.uniqueBuyers > 0 && features.top10HolderPct <= config.maxTop10HolderPct / 2) {
+    score += 10;
+    reasons.push(`Spread holder base (top 10 hold ${features.top10HolderPct.toFixed(1)}%)`);
+  }
+
+  // Bundled buys
+  if (features.bundledWallets >= config.bundleMinWallets) {
+    score -= 20;
+    warnings.push(
+      `${features.bundledWallets} wallets bought within ${config.bundleSlots} slot(s) of creation ` +
+      `(${features.bundledPct.toFixed(1)}% of supply)`
+    );
+  }
+
+  // Bonding curve velocity
+  if (features.velocitySolPerMinute >= config.strongVelocitySolPerMinute) {
+    score += 15;
+    reasons.push(`Curve filling at ${features.velocitySolPerMinute.toFixed(2)} SOL/min`);
+  } else if (features.velocitySolPerMinute < config.weakVelocitySolPerMinute) {
+    score -= 10;
+    warnings.push(`Curve barely moving (${features.velocitySolPerMinute.toFixed(2)} SOL/min)`);
+  }
+
+  if (features.uniqueBuyers >= config.minUniqueBuyers) {
+    score += 10;
+    reasons.push(`${features.uniqueBuyers} unique buyers`);
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  const verdict: LaunchVerdict =
+    score >= config.snipeScore ? 'snipe' : score >= config.watchScore ? 'watch' : 'avoid';
+
+  return { mint: features.mint, score, verdict, reasons, warnings, features };
+}
+
+/**
+ * Present a launch score in the same shape as the LLM verdict, so the sniper can
+ * act on it when no model is available
+ */
+export function toSnipingAnalysis(launch: LaunchScore): SnipingAnalysis {
+  const { features } = launch;
+  let creatorReputation: NonNullable<SnipingAnalysis['metrics']>['creatorReputation'] = 'unknown';
+  if (features.creatorGraduations > 0) {
+    creatorReputation = 'verified';
+  } else if (launch.warnings.some(warning => warning.startsWith('Creator'))) {
+    creatorReputation = 'suspicious';
+  } else if (features.creatorLaunches === 0) {
+    creatorReputation = 'new';
+  }
+
+  return {
+    shouldSnipe: launch.verdict === 'snipe',
+    confidence: launch.score,
+    riskLevel: launch.score >= 70 ? 'low' : launch.score >= 50 ? 'medium' : launch.score >= 30 ? 'high' : 'very_high',
+    reasons: launch.reasons,
+    warnings: launch.warnings,
+    metrics: {
+      creatorReputation,
+      liquidityScore: Math.round(features.curveProgressPct),
+      technicalScore: launch.score,
+    },
+    timing: {
+      urgency: launch.verdict === 'snipe' ? 'immediate' : launch.verdict === 'watch' ? 'wait' : 'skip',
+    },
+  };
+}
+
+/**
+ * Parse a recorded stream: a JSON array or JSON Lines of either filter results or
+ * raw QuickNode block payloads (which are run through the filter first)
+ */
+export function parseRecordedStream(text: string): PumpFunFilterResult[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const records: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+  const results: PumpFunFilterResult[] = [];
+  for (const record of records) {
+    if (isFilterResult(record)) {
+      results.push(record);
+    } else {
+      results.push(...(processPumpFunFilter(record) ?? []));
+    }
+  }
+  return results.sort((a, b) => a.slot - b.slot);
+}
+
+function isFilterResult(record: any): record is PumpFunFilterResult {
+  return (
+    !!record &&
+    typeof record.slot === 'number' &&
+    Array.isArray(record.transactions) &&
+    record.transactions.every((tx: any) => typeof tx?.operation === 'string')
+  );
+}
+
+/**
+ * Score every launch in a recording as of the end of its window, labelled with
+ * whether it graduated later in the recording
+ */
+export function replayLaunches(
+  results: PumpFunFilterResult[],
+  config: Partial<LaunchScorerConfig> = {},
+  creatorHistory: Record<string, CreatorHistory> = {}
+): LaunchReplayResult[] {
+  const scorer = new LaunchScorer(config, creatorHistory);
+  scorer.ingestAll([...results].sort((a, b) => a.slot - b.slot));
+  return scorer.scoreAll().map(launch => ({ ...launch, graduated: scorer.hasGraduated(launch.mint) }));
+}
+
+/**
+ * Precision and recall of "score >= threshold" as a graduation predictor
+ */
+export function sweepThresholds(
+  results: LaunchReplayResult[],
+  thresholds: number[] = [30, 40, 50, 60, 70, 80, 90]
+): ThresholdSweepRow[] {
+  const totalGraduated = results.filter(result => result.graduated).length;
+  return thresholds.map(threshold => {
+    const selected = results.filter(result => result.score >= threshold);
+    const graduated = selected.filter(result => result.graduated).length;
+    return {
+      threshold,
+      selected: selected.length,
+      graduated,
+      precision: selected.length > 0 ? graduated / selected.length : 0,
+      recall: totalGraduated > 0 ? graduated / totalGraduated : 0,
+    };
+  });
+}
@@ -378,6 +378,7 @@ PumpFunFilter.prototype._processTokenCreation = function(tx, baseInfo) {
     tokenMint: creationInfo.tokenMint,
     initialSupply: creationInfo.initialSupply,
     decimals: creationInfo.decimals,
+    changes: this._calculateBalanceChanges(tx),
     bondingCurve: {
       k: PROTOCOL.BONDING_CURVE.K,
       initialReserves: PROTOCOL.BONDING_CURVE.INITIAL_RESERVES_SOL,
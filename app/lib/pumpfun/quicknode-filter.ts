@@ -438,6 +438,8 @@ export class PumpFunFilter {
 
     const info: any = {
       ...creationInfo,
+      // The creator's own balance changes; non-zero tokens when the dev buy is in the create transaction
+      changes: this._calculateBalanceChanges(tx),
       bondingCurve: {
         k: PROTOCOL.BONDING_CURVE.K,
         initialReserves: PROTOCOL.BONDING_CURVE.INITIAL_RESERVES_SOL,
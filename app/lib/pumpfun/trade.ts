@@ -0,0 +1,321 @@
+// Pump.fun trade planning: bonding curve while it is live, the migrated Raydium pool once it graduates
+
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SwapQuote, emptyQuote } from '../pools/quoters/base';
+import {
+  AmmV4PoolState,
+  RAYDIUM_AMM_V4_PROGRAM_ID,
+  decodeAmmV4Pool,
+  decodeTokenAccountAmount,
+  isAmmV4Swappable,
+} from '../pools/layouts/raydium';
+import { createRaydiumSwapInstruction, resolveRaydiumSwapKeys } from '../instructions/encoders/raydium';
+import {
+  BondingCurveState,
+  PumpFunGlobal,
+  createPumpFunBuyInstruction,
+  createPumpFunSellInstruction,
+  decodeBondingCurve,
+  decodePumpFunGlobal,
+  deriveBondingCurve,
+  derivePumpFunGlobal,
+  getPumpFunTradeKeys,
+  pumpFunFeeBps,
+  quoteBondingCurveBuy,
+  quoteBondingCurveSell,
+  withMaxSlippage,
+  withMinSlippage,
+} from './bonding-curve';
+
+export type PumpFunVenue = 'bonding_curve' | 'raydium';
+
+export type PumpFunMarket =
+  | {
+      venue: 'bonding_curve';
+      mint: PublicKey;
+      global: PumpFunGlobal;
+      curve: BondingCurveState;
+      tokenProgram: PublicKey;
+    }
+  | {
+      venue: 'raydium';
+      mint: PublicKey;
+      poolAddress: PublicKey;
+      pool: AmmV4PoolState;
+      tokenReserve: bigint;
+      solReserve: bigint;
+    };
+
+export interface PumpFunTradeRequest {
+  mint: string;
+  user: PublicKey;
+  amount: bigint; // Lamports to spend on a buy, raw tokens to sell on a sell
+  slippageBps: number;
+  raydiumPool?: string; // PumpFunToken.raydiumPool, used once the curve is complete
+}
+
+export interface PumpFunTradePlan {
+  venue: PumpFunVenue;
+  quote: SwapQuote;
+  // Max lamports spent on a bonding curve buy; otherwise the minimum output accepted
+  limit: bigint;
+  instructions: TransactionInstruction[];
+}
+
+export interface PumpFunPosition {
+  mint: string;
+  tokenAmount: bigint;
+  costLamports: bigint; // Total spent on the entry, fees included
+}
+
+export interface ExitRules {
+  takeProfitPct?: number; // Sell when the position is up this much, e.g. 100 = 2x
+  stopLossPct?: number; // Sell when the position is down this much, e.g. 30
+}
+
+export interface ExitDecision {
+  trigger: 'take_profit' | 'stop_loss' | null;
+  valueLamports: bigint; // What selling the whole position returns now, net of fees
+  pnlPct: number;
+}
+
+/**
+ * Load the venue a mint currently trades on. The curve is authoritative: once it
+ * reports complete, liquidity has migrated and `raydiumPool` must be known.
+ */
+export async function loadPumpFunMarket(
+  connection: Connection,
+  mint: string,
+  raydiumPool?: string
+): Promise<PumpFunMarket> {
+  const mintKey = new PublicKey(mint);
+  const [globalAccount, curveAccount, mintAccount] = await connection.getMultipleAccountsInfo([
+    derivePumpFunGlobal(),
+    deriveBondingCurve(mintKey),
+    mintKey,
+  ]);
+
+  const curve = curveAccount ? decodeBondingCurve(curveAccount.data) : null;
+  if (curve && !curve.complete) {
+    if (!globalAccount || !mintAccount) {
+      throw new Error(`Pump.fun accounts for ${mint} not found`);
+    }
+    return {
+      venue: 'bonding_curve',
+      mint: mintKey,
+      global: decodePumpFunGlobal(globalAccount.data),
+      curve,
+      tokenProgram: mintAccount.owner,
+    };
+  }
+
+  if (!raydiumPool) {
+    throw new Error(
+      curve
+        ? `${mint} has graduated from the bonding curve but no Raydium pool is recorded`
+        : `${mint} is not a pump.fun token`
+    );
+  }
+  return loadRaydiumMarket(connection, mintKey, new PublicKey(raydiumPool));
+}
+
+async function loadRaydiumMarket(connection: Connection, mint: PublicKey, poolAddress: PublicKey): Promise<PumpFunMarket> {
+  const poolAccount = await connection.getAccountInfo(poolAddress);
+  if (!poolAccount || !poolAccount.owner.equals(new PublicKey(RAYDIUM_AMM_V4_PROGRAM_ID))) {
+    throw new Error(`${poolAddress.toString()} is not a Raydium AMM v4 pool`);
+  }
+  const pool = decodeAmmV4Pool(poolAccount.data);
+  if (!isAmmV4Swappable(pool)) {
+    throw new Error(`Raydium pool ${poolAddress.toString()} is not accepting swaps`);
+  }
+
+  const tokenIsBase = pool.baseMint.equals(mint);
+  const solIsOther = (tokenIsBase ? pool.quoteMint : pool.baseMint).equals(NATIVE_MINT);
+  if (!(tokenIsBase || pool.quoteMint.equals(mint)) || !solIsOther) {
+    throw new Error(`Raydium pool ${poolAddress.toString()} does not pair ${mint.toString()} with SOL`);
+  }
+
+  const [baseVault, quoteVault] = await connection.getMultipleAccountsInfo([pool.baseVault, pool.quoteVault]);
+  if (!baseVault || !quoteVault) {
+    throw new Error(`Vaults of Raydium pool ${poolAddress.toString()} not found`);
+  }
+  // PnL owed to the protocol sits in the vaults but is not tradable liquidity
+  const baseReserve = decodeTokenAccountAmount(baseVault.data) - pool.baseNeedTakePnl;
+  const quoteReserve = decodeTokenAccountAmount(quoteVault.data) - pool.quoteNeedTakePnl;
+
+  return {
+    venue: 'raydium',
+    mint,
+    poolAddress,
+    pool,
+    tokenReserve: tokenIsBase ? baseReserve : quoteReserve,
+    solReserve: tokenIsBase ? quoteReserve : baseReserve,
+  };
+}
+
+/**
+ * Quote spending `lamports` on the token at its current venue
+ */
+export function quotePumpFunBuy(market: PumpFunMarket, lamports: bigint): SwapQuote {
+  if (market.venue === 'bonding_curve') {
+    return quoteBondingCurveBuy(market.curve, lamports, pumpFunFeeBps(market.global));
+  }
+  return quoteRaydiumSwap(market.pool, market.solReserve, market.tokenReserve, lamports);
+}
+
+/**
+ * Quote selling `tokens` at the token's current venue; the output is net lamports
+ */
+export function quotePumpFunSell(market: PumpFunMarket, tokens: bigint): SwapQuote {
+  if (market.venue === 'bonding_curve') {
+    return quoteBondingCurveSell(market.curve, tokens, pumpFunFeeBps(market.global));
+  }
+  return quoteRaydiumSwap(market.pool, market.tokenReserve, market.solReserve, tokens);
+}
+
+/**
+ * AMM v4 swap-base-in: the fee is taken from the input, then x * y = k
+ */
+function quoteRaydiumSwap(pool: AmmV4PoolState, reserveIn: bigint, reserveOut: bigint, amountIn: bigint): SwapQuote {
+  if (amountIn <= BigInt(0) || reserveIn <= BigInt(0) || reserveOut <= BigInt(0) || pool.swapFeeDenominator === BigInt(0)) {
+    return emptyQuote();
+  }
+  const feeAmount = amountIn * pool.swapFeeNumerator / pool.swapFeeDenominator;
+  const amountInLessFee = amountIn - feeAmount;
+  const amountOut = reserveOut * amountInLessFee / (reserveIn + amountInLessFee);
+  const spotOut = Number(amountIn) * Number(reserveOut) / Number(reserveIn);
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    priceImpact: spotOut > 0 ? Math.max(0, 1 - Number(amountOut) / spotOut) : 0,
+    complete: true,
+  };
+}
+
+/**
+ * Quote and build the instructions for buying with `request.amount` lamports
+ */
+export async function planPumpFunBuy(connection: Connection, request: PumpFunTradeRequest): Promise<PumpFunTradePlan> {
+  const market = await loadPumpFunMarket(connection, request.mint, request.raydiumPool);
+  const quote = quotePumpFunBuy(market, request.amount);
+  if (quote.amountOut <= BigInt(0)) {
+    throw new Error(`No tokens available for ${request.mint} at this size`);
+  }
+
+  if (market.venue === 'bonding_curve') {
+    const keys = getPumpFunTradeKeys(market.mint, request.user, market.global, market.curve, market.tokenProgram);
+    const maxSolCost = withMaxSlippage(quote.amountIn, request.slippageBps);
+    return {
+      venue: market.venue,
+      quote,
+      limit: maxSolCost,
+      instructions: [
+        createAssociatedTokenAccountIdempotentInstruction(
+          request.user,
+          keys.associatedUser,
+          request.user,
+          market.mint,
+          market.tokenProgram
+        ),
+        createPumpFunBuyInstruction(keys, quote.amountOut, maxSolCost),
+      ],
+    };
+  }
+
+  const minimumOut = withMinSlippage(quote.amountOut, request.slippageBps);
+  const { keys, destinationMint } = await resolveRaydiumSwapKeys(
+    connection,
+    { ammId: market.poolAddress.toString(), userSourceOwner: request.user.toString() },
+    NATIVE_MINT.toString()
+  );
+  const wrappedSol = keys.userSourceTokenAccount;
+
+  const instructions = [
+    createAssociatedTokenAccountIdempotentInstruction(request.user, wrappedSol, request.user, NATIVE_MINT),
+    SystemProgram.transfer({ fromPubkey: request.user, toPubkey: wrappedSol, lamports: request.amount }),
+    createSyncNativeInstruction(wrappedSol),
+  ];
+  if (destinationMint) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(
+      request.user,
+      keys.userDestinationTokenAccount,
+      request.user,
+      destinationMint
+    ));
+  }
+  instructions.push(
+    createRaydiumSwapInstruction(keys, request.amount, minimumOut),
+    createCloseAccountInstruction(wrappedSol, request.user, request.user)
+  );
+
+  return { venue: market.venue, quote, limit: minimumOut, instructions };
+}
+
+/**
+ * Quote and build the instructions for selling `request.amount` raw tokens
+ */
+export async function planPumpFunSell(connection: Connection, request: PumpFunTradeRequest): Promise<PumpFunTradePlan> {
+  const market = await loadPumpFunMarket(connection, request.mint, request.raydiumPool);
+  const quote = quotePumpFunSell(market, request.amount);
+  if (quote.amountOut <= BigInt(0)) {
+    throw new Error(`Selling ${request.amount.toString()} of ${request.mint} returns nothing`);
+  }
+  const minimumOut = withMinSlippage(quote.amountOut, request.slippageBps);
+
+  if (market.venue === 'bonding_curve') {
+    const keys = getPumpFunTradeKeys(market.mint, request.user, market.global, market.curve, market.tokenProgram);
+    return {
+      venue: market.venue,
+      quote,
+      limit: minimumOut,
+      instructions: [createPumpFunSellInstruction(keys, request.amount, minimumOut)],
+    };
+  }
+
+  const { keys } = await resolveRaydiumSwapKeys(
+    connection,
+    { ammId: market.poolAddress.toString(), userSourceOwner: request.user.toString() },
+    market.mint.toString()
+  );
+  const wrappedSol = getAssociatedTokenAddressSync(NATIVE_MINT, request.user, true);
+
+  return {
+    venue: market.venue,
+    quote,
+    limit: minimumOut,
+    instructions: [
+      createAssociatedTokenAccountIdempotentInstruction(request.user, wrappedSol, request.user, NATIVE_MINT),
+      createRaydiumSwapInstruction(keys, request.amount, minimumOut),
+      createCloseAccountInstruction(wrappedSol, request.user, request.user),
+    ],
+  };
+}
+
+/**
+ * Value a position by what selling all of it would return right now, and decide
+ * whether a take-profit or stop-loss level has been crossed
+ */
+export function evaluateExit(position: PumpFunPosition, market: PumpFunMarket, rules: ExitRules): ExitDecision {
+  const valueLamports = quotePumpFunSell(market, position.tokenAmount).amountOut;
+  const pnlPct = position.costLamports > BigInt(0)
+    ? (Number(valueLamports) / Number(position.costLamports) - 1) * 100
+    : 0;
+
+  let trigger: ExitDecision['trigger'] = null;
+  if (rules.takeProfitPct !== undefined && pnlPct >= rules.takeProfitPct) {
+    trigger = 'take_profit';
+  } else if (rules.stopLossPct !== undefined && pnlPct <= -rules.stopLossPct) {
+    trigger = 'stop_loss';
+  }
+
+  return { trigger, valueLamports, pnlPct };
+}
@@ -1,9 +1,12 @@
 /**
- * Server-side in-memory store for airdrop reservations
- * Replaces unsafe client-side localStorage
+ * Server-side store for airdrop reservations
+ * Replaces unsafe client-side localStorage. Backed by the shared storage adapter, so
+ * reservations survive restarts and are visible to every instance using the same store.
  */
 
-interface AirdropReservation {
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+
+export interface AirdropReservation {
   id: string;
   wallet: string;
   amount: number;
@@ -13,39 +16,54 @@ interface AirdropReservation {
   claimedAt: string | null;
 }
 
-// Global store for server-side state
-// Note: This resets on server restart. In production, use a real database (Redis/Postgres)
-const reservationStore = new Map<string, AirdropReservation>();
+const COLLECTION = STORAGE_COLLECTIONS.airdropReservations;
 
 export const airdropStore = {
-  save: (reservation: AirdropReservation) => {
-    reservationStore.set(reservation.wallet, reservation);
+  save: async (reservation: AirdropReservation) => {
+    await getStorage().set(COLLECTION, reservation.wallet, reservation);
+  },
+
+  get: async (wallet: string) => {
+    return getStorage().get<AirdropReservation>(COLLECTION, wallet);
   },
 
-  get: (wallet: string) => {
-    return reservationStore.get(wallet);
+  updateStatus: async (wallet: string, status: 'reserved' | 'claimed') => {
+    await getStorage().transaction(tx => {
+      const record = tx.get<AirdropReservation>(COLLECTION, wallet);
+      if (record) {
+        record.status = status;
+        record.claimedAt = status === 'claimed' ? new Date().toISOString() : null;
+        tx.set(COLLECTION, wallet, record);
+      }
+    });
   },
 
-  updateStatus: (wallet: string, status: 'reserved' | 'claimed') => {
-    const record = reservationStore.get(wallet);
-    if (record) {
-      record.status = status;
-      if (status === 'claimed') {
-        record.claimedAt = new Date().toISOString();
+  /**
+   * Atomically mark a wallet's airdrop as claimed, creating the record from `defaults`
+   * if there is none. Returns false if it was already claimed.
+   */
+  claim: async (wallet: string, defaults: Omit<AirdropReservation, 'wallet' | 'status' | 'claimedAt'>) => {
+    return getStorage().transaction(tx => {
+      const record = tx.get<AirdropReservation>(COLLECTION, wallet);
+      if (record?.status === 'claimed') {
+        return false;
       }
-      reservationStore.set(wallet, record);
-    }
+      tx.set<AirdropReservation>(COLLECTION, wallet, {
+        ...(record || { ...defaults, wallet }),
+        status: 'claimed',
+        claimedAt: new Date().toISOString(),
+      });
+      return true;
+    });
   },
 
-  hasReservation: (wallet: string) => {
-    const record = reservationStore.get(wallet);
-    return record && record.status === 'reserved';
+  hasReservation: async (wallet: string) => {
+    const record = await airdropStore.get(wallet);
+    return !!record && record.status === 'reserved';
   },
 
-  isClaimed: (wallet: string) => {
-    const record = reservationStore.get(wallet);
-    return record && record.status === 'claimed';
+  isClaimed: async (wallet: string) => {
+    const record = await airdropStore.get(wallet);
+    return !!record && record.status === 'claimed';
   }
 };
-
-
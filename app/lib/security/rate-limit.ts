@@ -1,12 +1,13 @@
 import { NextRequest } from 'next/server';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   limit: number;
   windowMs: number;
 }
 
 const ipRateLimit = new Map<string, { count: number; resetTime: number }>();
 const walletRateLimit = new Map<string, { count: number; resetTime: number }>();
+const apiKeyRateLimit = new Map<string, { count: number; resetTime: number }>();
 
 /**
  * Generic rate limiter
@@ -53,12 +54,19 @@ export function rateLimitByWallet(wallet: string, config: RateLimitConfig = { li
   return checkRateLimit(wallet, walletRateLimit, config);
 }
 
+/**
+ * Rate limit by API key, using the quota configured on the key
+ */
+export function rateLimitByApiKey(keyId: string, config: RateLimitConfig = { limit: 60, windowMs: 60000 }): boolean {
+  return checkRateLimit(keyId, apiKeyRateLimit, config);
+}
+
 /**
  * Cleanup old rate limit records to prevent memory leaks
  */
-setInterval(() => {
+const cleanupInterval = setInterval(() => {
   const now = Date.now();
-  [ipRateLimit, walletRateLimit].forEach(store => {
+  [ipRateLimit, walletRateLimit, apiKeyRateLimit].forEach(store => {
     // Convert Map entries to array for iteration
     Array.from(store.entries()).forEach(([key, record]) => {
       if (now > record.resetTime) {
@@ -68,3 +76,6 @@ setInterval(() => {
   });
 }, 60000); // Run every minute
 
+// Don't keep the process alive just for cleanup
+cleanupInterval.unref?.();
+
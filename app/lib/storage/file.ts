@@ -0,0 +1,105 @@
+/**
+ * File Storage
+ * Keeps the whole store in one JSON file. Writes go to a temp file that is renamed over
+ * the original, so a crash never leaves a half-written store, and a lock file serializes
+ * transactions across processes sharing the volume. Reads never take the lock file: a
+ * reader opens either the old or the new file, both complete.
+ */
+
+import { SnapshotStorageAdapter } from './snapshot';
+import { StorageMigration, StorageSnapshot } from './types';
+
+export interface FileStorageOptions {
+  migrations?: StorageMigration[];
+  lockTimeoutMs?: number; // How long to wait for another process's lock
+  staleLockMs?: number; // Locks older than this are left over from a crash
+}
+
+// Loaded on first use so client bundles that import storage never pull in fs
+async function loadFs() {
+  const { promises } = await import('fs');
+  return promises;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class FileStorageAdapter extends SnapshotStorageAdapter {
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  private cached?: { ino: number; mtimeMs: number; snapshot: StorageSnapshot };
+
+  constructor(private filePath: string, options: FileStorageOptions = {}) {
+    super(options.migrations);
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 30000;
+  }
+
+  protected async readSnapshot(): Promise<StorageSnapshot | null> {
+    const fs = await loadFs();
+    let stat;
+    try {
+      stat = await fs.stat(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    // Every write renames a new file into place, so an unchanged inode means no other
+    // process has written since the last read
+    if (this.cached && this.cached.ino === stat.ino && this.cached.mtimeMs === stat.mtimeMs) {
+      return this.cached.snapshot;
+    }
+    const snapshot: StorageSnapshot = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    this.cached = { ino: stat.ino, mtimeMs: stat.mtimeMs, snapshot };
+    return snapshot;
+  }
+
+  protected async writeSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    const fs = await loadFs();
+    const { dirname } = await import('path');
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+
+    const stat = await fs.stat(this.filePath);
+    this.cached = { ino: stat.ino, mtimeMs: stat.mtimeMs, snapshot };
+  }
+
+  protected async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    const fs = await loadFs();
+    const { dirname } = await import('path');
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+        const stat = await fs.stat(lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > this.staleLockMs) {
+          await fs.unlink(lockPath).catch(() => undefined);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for storage lock ${lockPath}`);
+        }
+        await sleep(25);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.unlink(lockPath).catch(() => undefined);
+    }
+  }
+}
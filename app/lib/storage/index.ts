@@ -0,0 +1,49 @@
+/**
+ * Storage Exports
+ * `getStorage()` is the store server subsystems share. It is chosen by STORAGE_DRIVER:
+ * 'file' (default, JSON at STORAGE_PATH) or 'memory'; in the browser it is localStorage.
+ */
+
+import { StorageAdapter } from './types';
+import { LocalStorageAdapter, MemoryStorageAdapter } from './snapshot';
+import { FileStorageAdapter } from './file';
+import { STORAGE_MIGRATIONS } from './migrations';
+
+export * from './types';
+export * from './snapshot';
+export * from './file';
+export * from './migrations';
+
+const DEFAULT_STORAGE_PATH = '.data/storage.json';
+
+let storage: StorageAdapter | undefined;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createDefaultStorage();
+  }
+  return storage;
+}
+
+/**
+ * Swap the shared store, e.g. for another adapter or an isolated store in tests
+ */
+export function setStorage(adapter: StorageAdapter): void {
+  storage = adapter;
+}
+
+function createDefaultStorage(): StorageAdapter {
+  if (typeof window !== 'undefined') {
+    return new LocalStorageAdapter('sealevel_storage', STORAGE_MIGRATIONS);
+  }
+
+  const driver = process.env.STORAGE_DRIVER || 'file';
+  switch (driver) {
+    case 'memory':
+      return new MemoryStorageAdapter(STORAGE_MIGRATIONS);
+    case 'file':
+      return new FileStorageAdapter(process.env.STORAGE_PATH || DEFAULT_STORAGE_PATH, { migrations: STORAGE_MIGRATIONS });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Storage Schema
+ * Collection names and the migrations that bring an existing store up to date. Append a
+ * migration with the next version whenever a stored record changes shape; never edit
+ * one that has shipped.
+ */
+
+import { StorageMigration } from './types';
+
+export const STORAGE_COLLECTIONS = {
+  meta: 'meta',
+  agents: 'agents',
+  usageRecords: 'usage_records', // userId -> UsageRecord[]
+  freeTrials: 'free_trials', // userId -> FreeTrialStatus
+  airdropReservations: 'airdrop_reservations', // wallet -> AirdropReservation
+  apiKeys: 'api_keys', // key id -> ApiKeyRecord
+  webhookSubscriptions: 'webhook_subscriptions', // subscription id -> WebhookSubscription
+  webhookDeliveries: 'webhook_deliveries', // delivery id -> WebhookDelivery
+  webhookDeadLetters: 'webhook_dead_letters', // delivery id -> WebhookDelivery
+  arbitrageScans: 'arbitrage_scans', // scan id -> StoredArbitrageScan
+  marketMakerFills: 'market_maker_fills', // agent wallet -> MarketMakerFill[]
+  exportSchedules: 'export_schedules', // schedule id -> ExportSchedule
+  exportRuns: 'export_runs', // run id -> ExportRun
+} as const;
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    name: 'initial-schema',
+    up: tx => {
+      tx.set(STORAGE_COLLECTIONS.meta, 'createdAt', new Date().toISOString());
+    },
+  },
+];
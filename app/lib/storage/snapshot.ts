@@ -0,0 +1,224 @@
+/**
+ * Snapshot Storage
+ * Base for adapters that load and save the whole store at once. Transactions run one at a
+ * time against a fresh snapshot and write it back only if they changed something. Plain
+ * get/list calls read the latest snapshot under the shared lock, without queueing.
+ */
+
+import { StorageAdapter, StorageMigration, StorageSnapshot, StorageTransaction } from './types';
+
+function emptySnapshot(): StorageSnapshot {
+  return { schemaVersion: 0, collections: {} };
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Copy-on-write view of a snapshot. Collections are copied on first write, so an
+ * aborted transaction leaves the snapshot untouched.
+ */
+class SnapshotTransaction implements StorageTransaction {
+  private written = new Map<string, Record<string, unknown>>();
+
+  constructor(private snapshot: StorageSnapshot) {}
+
+  get dirty(): boolean {
+    return this.written.size > 0;
+  }
+
+  get<T>(collection: string, key: string): T | undefined {
+    const entries = this.read(collection);
+    return Object.prototype.hasOwnProperty.call(entries, key) ? clone(entries[key] as T) : undefined;
+  }
+
+  list<T>(collection: string): Array<[string, T]> {
+    return Object.entries(this.read(collection)).map(([key, value]) => [key, clone(value as T)]);
+  }
+
+  set<T>(collection: string, key: string, value: T): void {
+    if (value === undefined) {
+      throw new Error(`Cannot store undefined at ${collection}/${key}`);
+    }
+    this.write(collection)[key] = clone(value);
+  }
+
+  delete(collection: string, key: string): void {
+    delete this.write(collection)[key];
+  }
+
+  clear(collection: string): void {
+    this.written.set(collection, {});
+  }
+
+  commit(): StorageSnapshot {
+    const collections = { ...this.snapshot.collections };
+    this.written.forEach((entries, name) => {
+      collections[name] = entries;
+    });
+    return { ...this.snapshot, collections };
+  }
+
+  private read(collection: string): Record<string, unknown> {
+    return this.written.get(collection) || this.snapshot.collections[collection] || {};
+  }
+
+  private write(collection: string): Record<string, unknown> {
+    let entries = this.written.get(collection);
+    if (!entries) {
+      entries = { ...(this.snapshot.collections[collection] || {}) };
+      this.written.set(collection, entries);
+    }
+    return entries;
+  }
+}
+
+export abstract class SnapshotStorageAdapter implements StorageAdapter {
+  private queue: Promise<unknown> = Promise.resolve();
+  private migrated?: Promise<void>;
+
+  constructor(private migrations: StorageMigration[] = []) {
+    const versions = migrations.map(migration => migration.version);
+    if (new Set(versions).size !== versions.length) {
+      throw new Error('Storage migration versions must be unique');
+    }
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  protected abstract readSnapshot(): Promise<StorageSnapshot | null>;
+  protected abstract writeSnapshot(snapshot: StorageSnapshot): Promise<void>;
+
+  /**
+   * Hold whatever lock keeps other processes out while `fn` reads and writes
+   */
+  protected async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    return fn();
+  }
+
+  /**
+   * Hold whatever lock lets other readers in but keeps a half-written store out while `fn` reads
+   */
+  protected async withSharedLock<R>(fn: () => Promise<R>): Promise<R> {
+    return fn();
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    return this.read(tx => tx.get<T>(collection, key));
+  }
+
+  async list<T>(collection: string): Promise<Array<[string, T]>> {
+    return this.read(tx => tx.list<T>(collection));
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.transaction(tx => tx.set(collection, key, value));
+  }
+
+  async delete(collection: string, key: string): Promise<void> {
+    await this.transaction(tx => tx.delete(collection, key));
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    await this.migrate();
+    return this.serialize(async () => ((await this.readSnapshot()) || emptySnapshot()).schemaVersion);
+  }
+
+  async transaction<R>(fn: (tx: StorageTransaction) => R | Promise<R>): Promise<R> {
+    await this.migrate();
+    return this.serialize(() => this.run(fn));
+  }
+
+  /**
+   * Apply pending migrations once per adapter
+   */
+  migrate(): Promise<void> {
+    if (!this.migrated) {
+      this.migrated = this.serialize(async () => {
+        for (const migration of this.migrations) {
+          await this.run(tx => migration.up(tx), migration.version);
+        }
+      });
+      // A failed migration is retried by the next operation
+      this.migrated.catch(() => {
+        this.migrated = undefined;
+      });
+    }
+    return this.migrated;
+  }
+
+  /**
+   * Read-only view of the latest snapshot
+   */
+  private async read<R>(fn: (tx: StorageTransaction) => R): Promise<R> {
+    await this.migrate();
+    return this.withSharedLock(async () => fn(new SnapshotTransaction((await this.readSnapshot()) || emptySnapshot())));
+  }
+
+  /**
+   * One transaction. With `migrateTo` it is a migration: skipped if the store is already
+   * at that version, and committed together with the version bump.
+   */
+  private run<R>(fn: (tx: StorageTransaction) => R | Promise<R>, migrateTo?: number): Promise<R> {
+    return this.withLock(async () => {
+      const snapshot = (await this.readSnapshot()) || emptySnapshot();
+      if (migrateTo !== undefined && snapshot.schemaVersion >= migrateTo) {
+        return undefined as R;
+      }
+
+      const tx = new SnapshotTransaction(snapshot);
+      const result = await fn(tx);
+      if (migrateTo !== undefined) {
+        await this.writeSnapshot({ ...tx.commit(), schemaVersion: migrateTo });
+      } else if (tx.dirty) {
+        await this.writeSnapshot(tx.commit());
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Run `fn` after every earlier operation on this adapter has finished
+   */
+  private serialize<R>(fn: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(fn, fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * In-memory storage (tests, or when nothing should outlive the process)
+ */
+export class MemoryStorageAdapter extends SnapshotStorageAdapter {
+  private snapshot: StorageSnapshot | null = null;
+
+  protected async readSnapshot(): Promise<StorageSnapshot | null> {
+    return this.snapshot;
+  }
+
+  protected async writeSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+}
+
+/**
+ * localStorage-backed storage (client-side)
+ */
+export class LocalStorageAdapter extends SnapshotStorageAdapter {
+  constructor(private storageKey: string = 'sealevel_storage', migrations: StorageMigration[] = []) {
+    super(migrations);
+  }
+
+  protected async readSnapshot(): Promise<StorageSnapshot | null> {
+    if (typeof window === 'undefined') return null;
+    const data = localStorage.getItem(this.storageKey);
+    return data ? JSON.parse(data) : null;
+  }
+
+  protected async writeSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(this.storageKey, JSON.stringify(snapshot));
+    }
+  }
+}
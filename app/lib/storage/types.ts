@@ -0,0 +1,44 @@
+/**
+ * Storage Types
+ * Key-value collections shared by server subsystems (agents, usage tracking, airdrops).
+ * Values must be JSON-serializable; Dates come back as ISO strings.
+ */
+
+/**
+ * Reads and writes inside one transaction. Writes are only visible to the rest of the
+ * app once the transaction commits, and are discarded if it throws.
+ */
+export interface StorageTransaction {
+  get<T>(collection: string, key: string): T | undefined;
+  list<T>(collection: string): Array<[string, T]>;
+  set<T>(collection: string, key: string, value: T): void;
+  delete(collection: string, key: string): void;
+  clear(collection: string): void;
+}
+
+export interface StorageAdapter {
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  list<T>(collection: string): Promise<Array<[string, T]>>;
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+  delete(collection: string, key: string): Promise<void>;
+  transaction<R>(fn: (tx: StorageTransaction) => R | Promise<R>): Promise<R>;
+  getSchemaVersion(): Promise<number>;
+}
+
+/**
+ * One schema change. Migrations run in version order, each in its own transaction,
+ * the first time an adapter is used.
+ */
+export interface StorageMigration {
+  version: number;
+  name: string;
+  up(tx: StorageTransaction): void | Promise<void>;
+}
+
+/**
+ * Everything an adapter stores
+ */
+export interface StorageSnapshot {
+  schemaVersion: number;
+  collections: Record<string, Record<string, unknown>>;
+}
@@ -9,10 +9,14 @@ import {
   Signer,
   Keypair,
   LAMPORTS_PER_SOL,
+  AddressLookupTableAccount,
+  TransactionMessage,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import {
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
   MINT_SIZE,
   getMinimumBalanceForRentExemptMint,
   createTransferInstruction,
@@ -24,9 +28,39 @@ import {
   createInitializeAccountInstruction,
   createFreezeAccountInstruction,
   createThawAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
   getAssociatedTokenAddress
 } from '@solana/spl-token';
 import { BuiltInstruction, TransactionDraft } from './instructions/types';
+import {
+  LookupTablePlan,
+  TransactionSizeReport,
+  collectLookupCandidates,
+  fetchLookupTables,
+  measureTransactionSize,
+  planCreateLookupTable,
+  planExtendLookupTable,
+} from './lookup-tables';
+import { optionalAccount, optionalArg, requireAccount, requireArg, toU64 } from './instructions/encoders/common';
+import { fetchJupiterSwapInstructions, fetchSourceMint } from './instructions/encoders/jupiter';
+import { createRaydiumSwapInstruction, resolveRaydiumSwapKeys } from './instructions/encoders/raydium';
+import {
+  createInitializeTickArrayInstruction,
+  createOpenPositionInstruction,
+  derivePositionAddress,
+  derivePositionTokenAccount,
+  fetchWhirlpoolTickSpacing,
+  findMissingTickArrays,
+  validateTickRange,
+} from './instructions/encoders/orca';
+import { createMarinadeDepositInstruction, getMarinadeDepositKeys } from './instructions/encoders/marinade';
+import { MintExtensionPlan, planMintExtensions } from './instructions/encoders/token-2022';
+import {
+  createM2BuyInstruction,
+  deriveM2EscrowPaymentAccount,
+  deriveM2TradeState,
+  deriveMetadataAddress,
+} from './instructions/encoders/magic-eden';
 
 // Platform fee configuration
 // 0.0002 SOL per transaction
@@ -36,15 +70,112 @@ const PLATFORM_FEE_LAMPORTS = Math.floor(0.0002 * LAMPORTS_PER_SOL);
 // Should be a valid Solana address
 const PLATFORM_FEE_RECIPIENT_ENV = process.env.NEXT_PUBLIC_PLATFORM_FEE_ADDRESS || process.env.NEXT_PUBLIC_TREASURY_ADDRESS || '';
 
+// Templates that expand to several instructions (ATA setup, tick arrays) or generate signers
+const DEX_TEMPLATE_IDS = ['jupiter_swap', 'raydium_swap', 'orca_open_position', 'marinade_deposit', 'me_buy_now'];
+
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Fallback base fee when the RPC cannot price the message
+const FALLBACK_SIGNATURE_FEE_LAMPORTS = 5000;
+
+/**
+ * Swap minimum output; a zero minimum would accept any fill (100% slippage)
+ */
+function requireMinOut(args: Record<string, any>, name: string, templateId: string): bigint {
+  const minOut = toU64(requireArg(args, name, templateId));
+  if (minOut === BigInt(0)) {
+    throw new Error(`${templateId}: ${name} must be greater than 0`);
+  }
+  return minOut;
+}
+
+export interface VersionedTransactionBuild {
+  transaction: VersionedTransaction;
+  signers: Keypair[];
+  lookupTables: AddressLookupTableAccount[];
+  size: TransactionSizeReport;
+  lastValidBlockHeight: number;
+}
+
 export class TransactionBuilder {
   constructor(private connection: Connection) {}
 
   async buildTransaction(draft: TransactionDraft): Promise<Transaction> {
-    const transaction = new Transaction();
-    
+    const { instructions, signers } = await this.buildInstructions(draft);
+    const transaction = new Transaction().add(...instructions);
+
+    // Store additional signers in transaction metadata (for R&D purposes)
+    (transaction as any)._additionalSigners = signers;
+
+    return transaction;
+  }
+
+  /**
+   * Build a v0 transaction that loads accounts from the draft's address lookup tables.
+   * Signing is left to the caller, like buildTransaction; additional signers are in _additionalSigners.
+   */
+  async buildVersionedTransaction(
+    draft: TransactionDraft,
+    payer: PublicKey,
+    options: { includePlatformFee?: boolean } = {}
+  ): Promise<VersionedTransactionBuild> {
+    const { instructions, signers } = await this.buildInstructions(draft);
+    if (options.includePlatformFee) {
+      const feeInstruction = this.createPlatformFeeInstruction(payer);
+      if (feeInstruction) {
+        instructions.push(feeInstruction);
+      }
+    }
+    return this.compileVersionedTransaction(instructions, signers, payer, draft.lookupTables || []);
+  }
+
+  /**
+   * Recompile a built legacy transaction as v0, e.g. once it turns out too large for a legacy packet
+   */
+  async toVersionedTransaction(
+    transaction: Transaction,
+    payer: PublicKey,
+    lookupTableAddresses: string[] = []
+  ): Promise<VersionedTransactionBuild> {
+    const signers: Keypair[] = (transaction as any)._additionalSigners || [];
+    return this.compileVersionedTransaction(transaction.instructions, signers, payer, lookupTableAddresses);
+  }
+
+  private async compileVersionedTransaction(
+    instructions: TransactionInstruction[],
+    signers: Keypair[],
+    payer: PublicKey,
+    lookupTableAddresses: string[]
+  ): Promise<VersionedTransactionBuild> {
+    const lookupTables = await fetchLookupTables(this.connection, lookupTableAddresses);
+    const size = measureTransactionSize(instructions, payer, lookupTables);
+    if (!size.fitsVersioned) {
+      throw new Error(
+        `Transaction is ${size.versionedBytes} bytes with ${lookupTables.length} lookup table(s), over the ${size.maxBytes}-byte limit`
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables);
+    const transaction = new VersionedTransaction(message);
+    (transaction as any)._additionalSigners = signers;
+
+    return { transaction, signers, lookupTables, size, lastValidBlockHeight };
+  }
+
+  private async buildInstructions(draft: TransactionDraft): Promise<{
+    instructions: TransactionInstruction[];
+    signers: Keypair[];
+  }> {
+    const instructions: TransactionInstruction[] = [];
+
     // Add priority fee if specified
     if (draft.priorityFee) {
-      transaction.add(this.createPriorityFeeInstruction(draft.priorityFee));
+      instructions.push(this.createPriorityFeeInstruction(draft.priorityFee));
     }
 
     // Store additional signers (like mint keypairs)
@@ -55,26 +186,24 @@ export class TransactionBuilder {
       // Handle special multi-instruction operations
       if (instruction.args._operation === 'create_token_and_mint') {
         const result = await this.buildCreateTokenAndMint(instruction);
-        for (const inst of result.instructions) {
-          transaction.add(inst);
-        }
+        instructions.push(...result.instructions);
         // Add mint keypair to signers
         additionalSigners.push(...result.signers);
+      } else if (DEX_TEMPLATE_IDS.includes(instruction.template.id)) {
+        const result = await this.buildDexInstructions(instruction);
+        instructions.push(...result.instructions);
+        additionalSigners.push(...result.signers);
       } else {
-        const solanaInstruction = await this.buildInstruction(instruction);
-        transaction.add(solanaInstruction);
+        instructions.push(await this.buildInstruction(instruction));
       }
     }
-    
-    // Store additional signers in transaction metadata (for R&D purposes)
-    (transaction as any)._additionalSigners = additionalSigners;
 
     // Add memo if specified
     if (draft.memo) {
-      transaction.add(this.createMemoInstruction(draft.memo));
+      instructions.push(this.createMemoInstruction(draft.memo));
     }
 
-    return transaction;
+    return { instructions, signers: additionalSigners };
   }
 
   /**
@@ -84,9 +213,16 @@ export class TransactionBuilder {
    * This should be called after buildTransaction and before prepareTransaction.
    */
   addPlatformFee(transaction: Transaction, payer: PublicKey): void {
+    const feeIx = this.createPlatformFeeInstruction(payer);
+    if (feeIx) {
+      transaction.add(feeIx);
+    }
+  }
+
+  private createPlatformFeeInstruction(payer: PublicKey): TransactionInstruction | null {
     // If no recipient configured, skip adding the fee
     if (!PLATFORM_FEE_RECIPIENT_ENV) {
-      return;
+      return null;
     }
 
     let recipient: PublicKey;
@@ -95,20 +231,63 @@ export class TransactionBuilder {
     } catch {
       // Invalid address configured - skip to avoid breaking transactions
       console.warn('Invalid platform fee recipient address configured, skipping platform fee.');
-      return;
+      return null;
     }
 
     if (PLATFORM_FEE_LAMPORTS <= 0) {
-      return;
+      return null;
     }
 
-    const feeIx = SystemProgram.transfer({
+    return SystemProgram.transfer({
       fromPubkey: payer,
       toPubkey: recipient,
       lamports: PLATFORM_FEE_LAMPORTS,
     });
+  }
 
-    transaction.add(feeIx);
+  // ===== ADDRESS LOOKUP TABLES =====
+  /**
+   * Create a lookup table for the accounts the drafts use at least `minUses` times.
+   * Send the returned transactions in order, signed by authority and payer.
+   */
+  async createLookupTable(
+    drafts: TransactionDraft[],
+    authority: PublicKey,
+    payer: PublicKey,
+    minUses = 1
+  ): Promise<LookupTablePlan & { transactions: Transaction[] }> {
+    const addresses = await this.collectDraftAccounts(drafts, [authority, payer], minUses);
+    const recentSlot = await this.connection.getSlot('finalized');
+    const plan = planCreateLookupTable(authority, payer, recentSlot, addresses);
+    return { ...plan, transactions: plan.batches.map(batch => new Transaction().add(...batch)) };
+  }
+
+  /**
+   * Add the drafts' frequently used accounts that an existing lookup table is missing
+   */
+  async extendLookupTable(
+    lookupTableAddress: string,
+    drafts: TransactionDraft[],
+    authority: PublicKey,
+    payer: PublicKey,
+    minUses = 1
+  ): Promise<LookupTablePlan & { transactions: Transaction[] }> {
+    const [lookupTable] = await fetchLookupTables(this.connection, [lookupTableAddress]);
+    const addresses = await this.collectDraftAccounts(drafts, [authority, payer], minUses);
+    const plan = planExtendLookupTable(lookupTable, authority, payer, addresses);
+    return { ...plan, transactions: plan.batches.map(batch => new Transaction().add(...batch)) };
+  }
+
+  private async collectDraftAccounts(
+    drafts: TransactionDraft[],
+    exclude: PublicKey[],
+    minUses: number
+  ): Promise<PublicKey[]> {
+    const instructions: TransactionInstruction[] = [];
+    for (const draft of drafts) {
+      instructions.push(...(await this.buildInstructions(draft)).instructions);
+    }
+    return collectLookupCandidates(instructions, { minUses, exclude });
   }
 
   private async buildInstruction(builtInstruction: BuiltInstruction): Promise<TransactionInstruction> {
@@ -153,6 +332,14 @@ export class TransactionBuilder {
       case 'mpl_update_metadata':
         return this.buildUpdateMetadata(accountKeys, args);
       
+      case 'jupiter_swap':
+      case 'raydium_swap':
+      case 'orca_open_position':
+      case 'marinade_deposit':
+      case 'me_buy_now':
+        // These expand to several instructions and are handled in buildTransaction
+        throw new Error(`${template.id} should be built via buildDexInstructions`);
+      
       default:
         throw new Error(`Unsupported instruction template: ${template.id}`);
     }
@@ -265,15 +452,6 @@ export class TransactionBuilder {
     const mintKeypair = Keypair.generate();
     const mint = mintKeypair.publicKey;
     
-    // Get associated token account address
-    const tokenAccount = await getAssociatedTokenAddress(
-      mint,
-      tokenAccountOwner,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
-    );
-    
     // Core SPL Mint Attributes
     const decimals = args.decimals || 9;
     const initialSupply = args.initialSupply || BigInt(0);
@@ -302,45 +480,79 @@ export class TransactionBuilder {
     
     // Token-2022 Extensions
     const transferFee = args.transferFee || 0;
+    const maxTransferFee = optionalArg(args, 'maxTransferFee');
     const enableTax = args.enableTax === true;
     const transferHookProgram = args.transferHookProgram ? new PublicKey(args.transferHookProgram) : null;
     const enableConfidentialTransfers = args.enableConfidentialTransfers === true;
     const enableInterestBearing = args.enableInterestBearing === true;
     const interestRate = args.interestRate || 0;
     const enableNonTransferable = args.enableNonTransferable === true;
+    const permanentDelegate = args.permanentDelegate ? new PublicKey(args.permanentDelegate) : null;
     const enableTransferMemo = args.enableTransferMemo === true;
     const enableImmutableOwner = args.enableImmutableOwner === true;
-    const metadataPointer = args.metadataPointer || '';
+    const metadataPointer = args.metadataPointer ? new PublicKey(args.metadataPointer) : null;
     const supplyCap = args.supplyCap || BigInt(0);
     
     // Determine which token program to use
-    const TOKEN_PROGRAM = useToken2022 
-      ? new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb') // Token-2022
-      : TOKEN_PROGRAM_ID; // Standard SPL Token
+    const TOKEN_PROGRAM = useToken2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+    if (useToken2022 && enableConfidentialTransfers) {
+      throw new Error('Token-2022 confidential transfers are not supported by this builder');
+    }
+
+    // Get associated token account address
+    const tokenAccount = await getAssociatedTokenAddress(
+      mint,
+      tokenAccountOwner,
+      false,
+      TOKEN_PROGRAM,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
     
-    // Get rent exemption for mint
-    const mintRent = await getMinimumBalanceForRentExemptMint(this.connection);
+    // Token-2022: size the mint for its extensions. Token metadata lives on the mint
+    // unless the metadata pointer references another account.
+    const onMintMetadata = useToken2022
+      && Boolean(tokenName || tokenSymbol || metadataURI)
+      && (!metadataPointer || metadataPointer.equals(mint));
+    const extensionPlan: MintExtensionPlan | null = useToken2022
+      ? planMintExtensions({
+          mint,
+          authority: mintAuthority,
+          transferFee: enableTax ? { basisPoints: transferFee, maximumFee: maxTransferFee } : undefined,
+          interestRateBps: enableInterestBearing ? interestRate : undefined,
+          nonTransferable: enableNonTransferable,
+          permanentDelegate: permanentDelegate || undefined,
+          metadataPointer: metadataPointer || undefined,
+          metadata: onMintMetadata ? { name: tokenName, symbol: tokenSymbol, uri: metadataURI } : undefined,
+          transferHookProgram: transferHookProgram || undefined,
+        })
+      : null;
     
     const instructions: TransactionInstruction[] = [];
     
     // 1. Create mint account
-    // Note: Token-2022 requires larger space for extensions
-    const mintSpace = useToken2022 ? MINT_SIZE + 1024 : MINT_SIZE; // Extra space for extensions
-    const mintRent2022 = useToken2022 
-      ? await this.connection.getMinimumBalanceForRentExemption(mintSpace)
-      : mintRent;
+    // Token-2022 allocates exactly its extensions; rent also covers metadata written after initialization
+    const mintSpace = extensionPlan ? extensionPlan.mintSpace : MINT_SIZE;
+    const mintRent = extensionPlan
+      ? await this.connection.getMinimumBalanceForRentExemption(extensionPlan.rentSpace)
+      : await getMinimumBalanceForRentExemptMint(this.connection);
     
     instructions.push(
       SystemProgram.createAccount({
         fromPubkey: payer,
         newAccountPubkey: mint,
         space: mintSpace,
-        lamports: mintRent2022,
+        lamports: mintRent,
         programId: TOKEN_PROGRAM
       })
     );
     
-    // 2. Initialize mint with freeze authority (if enabled)
+    // 2. For Token-2022: initialize extensions (must precede InitializeMint)
+    if (extensionPlan) {
+      instructions.push(...extensionPlan.preInitializeInstructions);
+    }
+    
+    // 2b. Initialize mint with freeze authority (if enabled)
     instructions.push(
       createInitializeMintInstruction(
         mint,
@@ -351,29 +563,9 @@ export class TransactionBuilder {
       )
     );
     
-    // 2b. For Token-2022: Add extensions if enabled
-    if (useToken2022) {
-      // Transfer Fee Extension
-      if (enableTax && transferFee > 0) {
-        // This would require Token-2022's extension initialization
-        // For now, we log it - full implementation would use extension instructions
-        console.log('Token-2022: Transfer fee extension would be initialized here');
-      }
-      
-      // Interest-bearing Extension
-      if (enableInterestBearing && interestRate !== 0) {
-        console.log('Token-2022: Interest-bearing extension would be initialized here');
-      }
-      
-      // Non-transferable Extension
-      if (enableNonTransferable) {
-        console.log('Token-2022: Non-transferable extension would be initialized here');
-      }
-      
-      // Metadata Pointer Extension
-      if (metadataPointer) {
-        console.log('Token-2022: Metadata pointer extension would be initialized here');
-      }
+    // 2c. For Token-2022: write token metadata into the mint (needs the mint authority)
+    if (extensionPlan) {
+      instructions.push(...extensionPlan.postInitializeInstructions);
     }
     
     // 3. Create associated token account
@@ -421,8 +613,8 @@ export class TransactionBuilder {
       );
     }
     
-    // 5. Create Metaplex Metadata (if provided)
-    if (tokenName || tokenSymbol || metadataURI || tokenImage) {
+    // 5. Create Metaplex Metadata (if provided and not already stored on a Token-2022 mint)
+    if (!onMintMetadata && (tokenName || tokenSymbol || metadataURI || tokenImage)) {
       // This would create a Metaplex metadata account
       // For now, we'll add the instruction structure
       const metadataProgramId = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
@@ -547,6 +739,210 @@ export class TransactionBuilder {
     });
   }
 
+  // ===== DEX INSTRUCTIONS =====
+  private async buildDexInstructions(builtInstruction: BuiltInstruction): Promise<{
+    instructions: TransactionInstruction[];
+    signers: Keypair[];
+  }> {
+    switch (builtInstruction.template.id) {
+      case 'jupiter_swap':
+        return { instructions: await this.buildJupiterSwap(builtInstruction), signers: [] };
+
+      case 'raydium_swap':
+        return { instructions: await this.buildRaydiumSwap(builtInstruction), signers: [] };
+
+      case 'orca_open_position':
+        return await this.buildOrcaOpenPosition(builtInstruction);
+
+      case 'marinade_deposit':
+        return { instructions: this.buildMarinadeDeposit(builtInstruction), signers: [] };
+
+      case 'me_buy_now':
+        return { instructions: this.buildMagicEdenBuy(builtInstruction), signers: [] };
+
+      default:
+        throw new Error(`Unsupported instruction template: ${builtInstruction.template.id}`);
+    }
+  }
+
+  private async buildJupiterSwap(builtInstruction: BuiltInstruction): Promise<TransactionInstruction[]> {
+    const { accounts, args } = builtInstruction;
+    const user = requireAccount(accounts, 'userTransferAuthority', 'jupiter_swap');
+    const sourceAccount = optionalAccount(accounts, 'userSourceTokenAccount');
+
+    let inputMint = optionalArg<string>(args, 'inputMint');
+    if (!inputMint) {
+      if (!sourceAccount) {
+        throw new Error('jupiter_swap: set inputMint or userSourceTokenAccount');
+      }
+      inputMint = await fetchSourceMint(this.connection, sourceAccount);
+    }
+
+    return fetchJupiterSwapInstructions({
+      inputMint,
+      outputMint: requireAccount(accounts, 'destinationMint', 'jupiter_swap').toString(),
+      amount: args.amount,
+      minAmountOut: requireMinOut(args, 'minAmountOut', 'jupiter_swap'),
+      userPublicKey: user,
+      destinationTokenAccount:
+        optionalAccount(accounts, 'destinationTokenAccount') || optionalAccount(accounts, 'userDestinationTokenAccount'),
+      feeAccount: optionalAccount(accounts, 'platformFeeAccount'),
+    });
+  }
+
+  private async buildRaydiumSwap(builtInstruction: BuiltInstruction): Promise<TransactionInstruction[]> {
+    const { template, accounts, args } = builtInstruction;
+    const programId = new PublicKey(template.programId);
+    const { keys, destinationMint } = await resolveRaydiumSwapKeys(
+      this.connection,
+      accounts,
+      optionalArg<string>(args, 'inputMint'),
+      programId
+    );
+
+    const instructions: TransactionInstruction[] = [];
+    if (destinationMint) {
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          keys.userSourceOwner,
+          keys.userDestinationTokenAccount,
+          keys.userSourceOwner,
+          destinationMint
+        )
+      );
+    }
+    instructions.push(
+      createRaydiumSwapInstruction(
+        keys,
+        args.amountIn,
+        requireMinOut(args, 'minimumAmountOut', 'raydium_swap'),
+        programId
+      )
+    );
+    return instructions;
+  }
+
+  private async buildOrcaOpenPosition(builtInstruction: BuiltInstruction): Promise<{
+    instructions: TransactionInstruction[];
+    signers: Keypair[];
+  }> {
+    const { accounts, args } = builtInstruction;
+    const whirlpool = requireAccount(accounts, 'whirlpool', 'orca_open_position');
+    const owner = requireAccount(accounts, 'owner', 'orca_open_position');
+    const tickLowerIndex = Number(args.tickLowerIndex);
+    const tickUpperIndex = Number(args.tickUpperIndex);
+
+    const tickSpacing = await fetchWhirlpoolTickSpacing(this.connection, whirlpool);
+    const requestedSpacing = optionalArg(args, 'tickSpacing');
+    if (requestedSpacing !== undefined && Number(requestedSpacing) !== tickSpacing) {
+      throw new Error(`orca_open_position: whirlpool tick spacing is ${tickSpacing}, not ${requestedSpacing}`);
+    }
+    validateTickRange(tickLowerIndex, tickUpperIndex, tickSpacing);
+
+    // The position mint is created by the program and must sign; generate one if none was given
+    const signers: Keypair[] = [];
+    let positionMint = optionalAccount(accounts, 'positionMint');
+    if (!positionMint) {
+      const positionMintKeypair = Keypair.generate();
+      signers.push(positionMintKeypair);
+      positionMint = positionMintKeypair.publicKey;
+    }
+
+    const { address: position, bump } = derivePositionAddress(positionMint);
+    const providedPosition = optionalAccount(accounts, 'position');
+    if (providedPosition && !providedPosition.equals(position)) {
+      throw new Error('orca_open_position: position does not match the position mint PDA');
+    }
+    const positionTokenAccount =
+      optionalAccount(accounts, 'positionTokenAccount') || derivePositionTokenAccount(positionMint, owner);
+
+    const missingTickArrays = await findMissingTickArrays(
+      this.connection,
+      whirlpool,
+      tickLowerIndex,
+      tickUpperIndex,
+      tickSpacing
+    );
+    const instructions = missingTickArrays.map(startTickIndex =>
+      createInitializeTickArrayInstruction(whirlpool, owner, startTickIndex)
+    );
+    instructions.push(
+      createOpenPositionInstruction(
+        { funder: owner, owner, position, positionMint, positionTokenAccount, whirlpool },
+        bump,
+        tickLowerIndex,
+        tickUpperIndex
+      )
+    );
+
+    return { instructions, signers };
+  }
+
+  private buildMarinadeDeposit(builtInstruction: BuiltInstruction): TransactionInstruction[] {
+    const { accounts, args } = builtInstruction;
+    const user = requireAccount(accounts, 'user', 'marinade_deposit');
+    const mintTo = optionalAccount(accounts, 'mintTo');
+    const keys = getMarinadeDepositKeys(user, {
+      state: optionalAccount(accounts, 'state'),
+      msolMint: optionalAccount(accounts, 'msolMint'),
+      liqPoolSolLegPda: optionalAccount(accounts, 'liqPoolSolLegPda'),
+      liqPoolMsolLeg: optionalAccount(accounts, 'liqPoolMsolLeg'),
+      liqPoolMsolLegAuthority: optionalAccount(accounts, 'liqPoolMsolLegAuthority'),
+      reservePda: optionalAccount(accounts, 'reservePda'),
+      msolMintAuthority: optionalAccount(accounts, 'msolMintAuthority'),
+      mintTo,
+    });
+
+    const instructions: TransactionInstruction[] = [];
+    if (!mintTo) {
+      instructions.push(createAssociatedTokenAccountIdempotentInstruction(user, keys.mintTo, user, keys.msolMint));
+    }
+    instructions.push(createMarinadeDepositInstruction(keys, args.amount));
+    return instructions;
+  }
+
+  private buildMagicEdenBuy(builtInstruction: BuiltInstruction): TransactionInstruction[] {
+    const { accounts, args } = builtInstruction;
+    const buyer = requireAccount(accounts, 'buyer', 'me_buy_now');
+    const auctionHouse = requireAccount(accounts, 'auctionHouse', 'me_buy_now');
+    const tokenAccount = requireAccount(accounts, 'tokenAccount', 'me_buy_now');
+    const tokenMint = requireAccount(accounts, 'tokenMint', 'me_buy_now');
+    const treasuryMint = optionalAccount(accounts, 'treasuryMint') || new PublicKey(WSOL_MINT);
+    const buyerPrice = args.buyerPrice;
+    const tokenSize = optionalArg(args, 'tokenSize') ?? 1;
+
+    const tradeState = deriveM2TradeState(buyer, auctionHouse, tokenAccount, treasuryMint, tokenMint, buyerPrice, tokenSize);
+    const escrow = deriveM2EscrowPaymentAccount(auctionHouse, buyer);
+
+    const providedTradeState = optionalAccount(accounts, 'buyerTradeState');
+    if (providedTradeState && !providedTradeState.equals(tradeState.address)) {
+      throw new Error('me_buy_now: buyerTradeState does not match the derived trade state');
+    }
+    const tradeStateBump = optionalArg(args, 'tradeStateBump');
+    const escrowPaymentBump = optionalArg(args, 'escrowPaymentBump');
+    if (tradeStateBump !== undefined && Number(tradeStateBump) !== tradeState.bump) {
+      throw new Error(`me_buy_now: tradeStateBump should be ${tradeState.bump}`);
+    }
+    if (escrowPaymentBump !== undefined && Number(escrowPaymentBump) !== escrow.bump) {
+      throw new Error(`me_buy_now: escrowPaymentBump should be ${escrow.bump}`);
+    }
+
+    return [
+      createM2BuyInstruction(
+        {
+          wallet: buyer,
+          tokenMint,
+          metadata: deriveMetadataAddress(tokenMint),
+          escrowPaymentAccount: escrow.address,
+          authority: requireAccount(accounts, 'authority', 'me_buy_now'),
+          auctionHouse,
+          buyerTradeState: tradeState.address,
+        },
+        { tradeStateBump: tradeState.bump, escrowPaymentBump: escrow.bump, buyerPrice, tokenSize }
+      ),
+    ];
+  }
+
   // ===== UTILITY INSTRUCTIONS =====
   private createPriorityFeeInstruction(microLamports: number): TransactionInstruction {
     // Encode u64 (64-bit unsigned integer) in little-endian format
@@ -595,8 +991,11 @@ export class TransactionBuilder {
     transaction.feePayer = payer;
   }
 
-  // Estimate transaction cost with platform fee breakdown
-  async estimateCost(transaction: Transaction): Promise<{
+  // Estimate transaction cost with platform fee breakdown and legacy vs v0 size
+  async estimateCost(
+    transaction: Transaction | VersionedTransaction,
+    lookupTables: AddressLookupTableAccount[] = []
+  ): Promise<{
     lamports: number;
     sol: number;
     platformFee: {
@@ -607,28 +1006,39 @@ export class TransactionBuilder {
       lamports: number;
       sol: number;
     };
+    size: TransactionSizeReport;
   }> {
-    const baseLamports = await transaction.getEstimatedFee(this.connection);
+    let size: TransactionSizeReport;
+    let baseLamports: number | null = null;
+    let signatures: number;
+
+    if (transaction instanceof VersionedTransaction) {
+      const { message } = transaction;
+      const tables = lookupTables.length > 0 || message.addressTableLookups.length === 0
+        ? lookupTables
+        : await fetchLookupTables(this.connection, message.addressTableLookups.map(lookup => lookup.accountKey));
+      const decompiled = TransactionMessage.decompile(message, { addressLookupTableAccounts: tables });
+      size = measureTransactionSize(decompiled.instructions, decompiled.payerKey, tables);
+      signatures = message.header.numRequiredSignatures;
+      baseLamports = (await this.connection.getFeeForMessage(message)).value;
+    } else {
+      const payer = transaction.feePayer || transaction.instructions.flatMap(ix => ix.keys).find(key => key.isSigner)?.pubkey;
+      if (!payer) {
+        throw new Error('Transaction has no fee payer');
+      }
+      size = measureTransactionSize(transaction.instructions, payer, lookupTables);
+      signatures = new Set([payer.toString(), ...transaction.instructions.flatMap(ix =>
+        ix.keys.filter(key => key.isSigner).map(key => key.pubkey.toString())
+      )]).size;
+      // Legacy serialization throws past the packet limit, so only ask the RPC when it fits
+      if (size.fitsLegacy) {
+        baseLamports = await transaction.getEstimatedFee(this.connection);
+      }
+    }
 
     // Handle case where fee estimation fails
     if (baseLamports === null) {
-      // Provide a reasonable fallback or throw an error
-      // For now, we'll use a fallback estimate
-      const fallbackLamports = 5000; // ~0.000005 SOL fallback
-      const platformFeeLamports = PLATFORM_FEE_LAMPORTS;
-
-      return {
-        lamports: fallbackLamports,
-        sol: fallbackLamports / 1e9,
-        platformFee: {
-          lamports: platformFeeLamports,
-          sol: platformFeeLamports / 1e9
-        },
-        total: {
-          lamports: fallbackLamports + platformFeeLamports,
-          sol: (fallbackLamports + platformFeeLamports) / 1e9
-        }
-      };
+      baseLamports = FALLBACK_SIGNATURE_FEE_LAMPORTS * signatures;
     }
 
     const platformFeeLamports = PLATFORM_FEE_LAMPORTS;
@@ -644,7 +1054,8 @@ export class TransactionBuilder {
       total: {
         lamports: totalLamports,
         sol: totalLamports / 1e9
-      }
+      },
+      size
     };
   }
 }
@@ -3,11 +3,12 @@
 
 import { FeatureType, UsageRecord, UsageStats, FreeTrialStatus } from './types';
 import { SEAL_TOKEN_ECONOMICS } from '../seal-token/config';
+import { getStorage, STORAGE_COLLECTIONS, StorageTransaction } from '../storage';
 
-// In-memory storage (in production, use database)
-// Exported for admin analytics access
-export const usageRecords: Map<string, UsageRecord[]> = new Map();
-export const freeTrials: Map<string, FreeTrialStatus> = new Map();
+// Records and trials live in the shared store (usage_records: userId -> UsageRecord[],
+// free_trials: userId -> FreeTrialStatus) so counters survive restarts
+const RECORDS = STORAGE_COLLECTIONS.usageRecords;
+const TRIALS = STORAGE_COLLECTIONS.freeTrials;
 
 // Free trial configuration
 const FREE_TRIAL_DAYS = 7; // 7-day free trial
@@ -32,238 +33,125 @@ const FREE_TRIAL_FEATURES: Record<FeatureType, number> = {
   twitter_bot_tweet: 0,
 };
 
+// Premium services are NOT included in free trial
+const PREMIUM_SERVICES: FeatureType[] = [
+  'bundler_multi_send',
+  'bundler_recipient',
+  'market_maker_setup',
+  'market_maker_monthly',
+  'market_maker_trade',
+  'telegram_bot_setup',
+  'telegram_bot_monthly',
+  'telegram_bot_post',
+  'twitter_bot_setup',
+  'twitter_bot_monthly',
+  'twitter_bot_tweet',
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Usage records are trimmed as new ones arrive; trial counters are kept on the trial itself
+export const USAGE_RECORD_RETENTION_DAYS = 90;
+export const MAX_USAGE_RECORDS_PER_USER = 1000;
+
+// Stored dates come back as ISO strings
+function reviveTrial(trial: FreeTrialStatus): FreeTrialStatus {
+  return { ...trial, startDate: new Date(trial.startDate), endDate: new Date(trial.endDate) };
+}
+
+function reviveRecord(record: UsageRecord): UsageRecord {
+  return { ...record, timestamp: new Date(record.timestamp) };
+}
+
 /**
- * Get or create free trial for a user
+ * New free trial starting now
  */
-export function getOrCreateFreeTrial(userId: string): FreeTrialStatus {
-  // Check if user already has a free trial
-  const existing = freeTrials.get(userId);
-  if (existing && existing.isActive) {
-    const now = new Date();
-    const remainingDays = Math.max(0, Math.ceil((existing.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-    
-    // Update remaining days
-    // Ensure all premium service fields exist (for backward compatibility)
-    const updatedFeaturesUsed = {
-      ...existing.featuresUsed,
-      bundler_multi_send: existing.featuresUsed.bundler_multi_send || 0,
-      bundler_recipient: existing.featuresUsed.bundler_recipient || 0,
-      market_maker_setup: existing.featuresUsed.market_maker_setup || 0,
-      market_maker_monthly: existing.featuresUsed.market_maker_monthly || 0,
-      market_maker_trade: existing.featuresUsed.market_maker_trade || 0,
-      telegram_bot_setup: existing.featuresUsed.telegram_bot_setup || 0,
-      telegram_bot_monthly: existing.featuresUsed.telegram_bot_monthly || 0,
-      telegram_bot_post: existing.featuresUsed.telegram_bot_post || 0,
-      twitter_bot_setup: existing.featuresUsed.twitter_bot_setup || 0,
-      twitter_bot_monthly: existing.featuresUsed.twitter_bot_monthly || 0,
-      twitter_bot_tweet: existing.featuresUsed.twitter_bot_tweet || 0,
-    };
-    
-    return {
-      ...existing,
-      remainingDays,
-      isActive: remainingDays > 0,
-      featuresUsed: updatedFeaturesUsed,
-    };
-  }
-  
-  // Create new free trial
-  const startDate = new Date();
+export function createFreeTrial(userId: string, now: Date = new Date()): FreeTrialStatus {
+  const startDate = new Date(now);
   const endDate = new Date(startDate);
   endDate.setDate(endDate.getDate() + FREE_TRIAL_DAYS);
-  
-  const trial: FreeTrialStatus = {
+
+  const featuresUsed = {} as FreeTrialStatus['featuresUsed'];
+  (Object.keys(FREE_TRIAL_FEATURES) as FeatureType[]).forEach(feature => {
+    featuresUsed[feature] = 0;
+  });
+
+  return {
     userId,
     isActive: true,
     startDate,
     endDate,
     remainingDays: FREE_TRIAL_DAYS,
-    featuresUsed: {
-      scanner_scan: 0,
-      scanner_auto_refresh: 0,
-      simulation: 0,
-      ai_query: 0,
-      code_export: 0,
-      advanced_transaction: 0,
-      // Premium services (not in free trial, but must be initialized)
-      bundler_multi_send: 0,
-      bundler_recipient: 0,
-      market_maker_setup: 0,
-      market_maker_monthly: 0,
-      market_maker_trade: 0,
-      telegram_bot_setup: 0,
-      telegram_bot_monthly: 0,
-      telegram_bot_post: 0,
-      twitter_bot_setup: 0,
-      twitter_bot_monthly: 0,
-      twitter_bot_tweet: 0,
-    },
+    featuresUsed,
     totalUsage: 0,
   };
-  
-  freeTrials.set(userId, trial);
-  return trial;
 }
 
 /**
- * Check if user is in free trial period
+ * Trial with remaining days and active flag recomputed for `now`
  */
-export function isInFreeTrial(userId: string): boolean {
-  const trial = freeTrials.get(userId);
-  if (!trial) return false;
-  
-  const now = new Date();
-  const isActive = now < trial.endDate;
-  
-  if (!isActive && trial.isActive) {
-    // Trial expired, update status
-    trial.isActive = false;
-    freeTrials.set(userId, trial);
-  }
-  
-  return isActive;
+export function refreshFreeTrial(trial: FreeTrialStatus, now: Date = new Date()): FreeTrialStatus {
+  const remainingDays = Math.max(0, Math.ceil((trial.endDate.getTime() - now.getTime()) / DAY_MS));
+
+  // Ensure every feature counter exists (for trials stored before a feature was added)
+  const featuresUsed = { ...createFreeTrial(trial.userId).featuresUsed, ...trial.featuresUsed };
+
+  return {
+    ...trial,
+    remainingDays,
+    isActive: now < trial.endDate,
+    featuresUsed,
+  };
 }
 
 /**
- * Check if user can use a feature (within free trial limits)
+ * Whether a trial allows one more use of a feature
  */
-export function canUseFeature(userId: string, feature: FeatureType): { allowed: boolean; reason?: string } {
-  const trial = getOrCreateFreeTrial(userId);
-  
+export function evaluateFeatureAccess(trial: FreeTrialStatus, feature: FeatureType): { allowed: boolean; reason?: string } {
   if (!trial.isActive) {
     // Trial expired, check subscription or payment
     // For now, during development, allow usage (payment collection disabled)
     return { allowed: true, reason: 'Payment collection disabled during development' };
   }
-  
+
   // Check if feature usage is within free trial limits
-  const used = trial.featuresUsed[feature];
+  const used = trial.featuresUsed[feature] || 0;
   const limit = FREE_TRIAL_FEATURES[feature];
-  
+
   // Premium services (limit = 0) are not included in free trial
   if (limit === 0) {
-    return { 
-      allowed: false, 
-      reason: `${feature} is a premium service and not included in the free trial` 
+    return {
+      allowed: false,
+      reason: `${feature} is a premium service and not included in the free trial`
     };
   }
-  
+
   if (limit === -1) {
     return { allowed: true }; // Unlimited
   }
-  
+
   if (used >= limit) {
-    return { 
-      allowed: false, 
-      reason: `Free trial limit reached for ${feature}. Limit: ${limit}` 
+    return {
+      allowed: false,
+      reason: `Free trial limit reached for ${feature}. Limit: ${limit}`
     };
   }
-  
-  return { allowed: true };
-}
 
-/**
- * Track feature usage
- * IMPORTANT: This function checks limits BEFORE tracking to prevent exceeding limits
- */
-export function trackUsage(
-  userId: string,
-  feature: FeatureType,
-  metadata?: Record<string, any>
-): UsageRecord {
-  const trial = getOrCreateFreeTrial(userId);
-  const isTrialActive = isInFreeTrial(userId);
-  
-  // Calculate cost (0 during free trial)
-  const baseCost = SEAL_TOKEN_ECONOMICS.pricing[feature] || 0;
-  const cost = isTrialActive ? 0 : baseCost;
-  
-  // Premium services are NOT included in free trial
-  const premiumServices: FeatureType[] = [
-    'bundler_multi_send',
-    'bundler_recipient',
-    'market_maker_setup',
-    'market_maker_monthly',
-    'market_maker_trade',
-    'telegram_bot_setup',
-    'telegram_bot_monthly',
-    'telegram_bot_post',
-    'twitter_bot_setup',
-    'twitter_bot_monthly',
-    'twitter_bot_tweet',
-  ];
-  
-  const isPremiumService = premiumServices.includes(feature);
-  
-  // Premium services require payment (not in free trial)
-  if (isPremiumService && isTrialActive) {
-    throw new Error(
-      `${feature} is a premium service and not included in the free trial. ` +
-      `Payment required: ${baseCost} SEAL tokens.`
-    );
-  }
-  
-  // Check if usage is allowed BEFORE tracking (for non-premium features)
-  if (!isPremiumService && isTrialActive) {
-    const canUse = canUseFeature(userId, feature);
-    if (!canUse.allowed) {
-      throw new Error(canUse.reason || 'Feature usage not allowed');
-    }
-    
-    // Double-check: Verify we haven't exceeded the limit
-    const used = trial.featuresUsed[feature] || 0;
-    const limit = FREE_TRIAL_FEATURES[feature];
-    if (limit > 0 && used >= limit) {
-      throw new Error(
-        `Free trial limit reached for ${feature}. Used: ${used}/${limit}`
-      );
-    }
-  }
-  
-  // Create usage record
-  const record: UsageRecord = {
-    id: `${userId}-${feature}-${Date.now()}`,
-    userId,
-    feature,
-    timestamp: new Date(),
-    metadata,
-    cost,
-    paid: false, // Payment collection disabled during development
-  };
-  
-  // Store record
-  if (!usageRecords.has(userId)) {
-    usageRecords.set(userId, []);
-  }
-  usageRecords.get(userId)!.push(record);
-  
-  // Update free trial usage AFTER successful tracking
-  if (isTrialActive) {
-    // Ensure feature counter exists
-    if (trial.featuresUsed[feature] === undefined) {
-      trial.featuresUsed[feature] = 0;
-    }
-    trial.featuresUsed[feature]++;
-    trial.totalUsage++;
-    freeTrials.set(userId, trial);
-  }
-  
-  return record;
+  return { allowed: true };
 }
 
 /**
- * Get usage statistics for a user
+ * Usage statistics over `records` for a period ending now
  */
-export function getUsageStats(
+export function summarizeUsage(
   userId: string,
-  period: 'daily' | 'weekly' | 'monthly' | 'all_time' = 'all_time'
+  records: UsageRecord[],
+  period: 'daily' | 'weekly' | 'monthly' | 'all_time' = 'all_time',
+  now: Date = new Date()
 ): UsageStats {
-  const records = usageRecords.get(userId) || [];
-  
-  const now = new Date();
   let startDate: Date;
-  let endDate = now;
-  
+  const endDate = now;
+
   switch (period) {
     case 'daily':
       startDate = new Date(now);
@@ -278,42 +166,23 @@ export function getUsageStats(
       startDate.setMonth(startDate.getMonth() - 1);
       break;
     case 'all_time':
-      startDate = records.length > 0 
-        ? records[0].timestamp 
-        : new Date();
+      startDate = records.length > 0
+        ? records[0].timestamp
+        : new Date(now);
       break;
   }
-  
+
   // Filter records by period
-  const periodRecords = records.filter(r => 
+  const periodRecords = records.filter(r =>
     r.timestamp >= startDate && r.timestamp <= endDate
   );
-  
+
   // Count features
-  const features: UsageStats['features'] = {
-    scanner_scan: 0,
-    scanner_auto_refresh: 0,
-    simulation: 0,
-    ai_query: 0,
-    code_export: 0,
-    advanced_transaction: 0,
-    // Premium services
-    bundler_multi_send: 0,
-    bundler_recipient: 0,
-    market_maker_setup: 0,
-    market_maker_monthly: 0,
-    market_maker_trade: 0,
-    telegram_bot_setup: 0,
-    telegram_bot_monthly: 0,
-    telegram_bot_post: 0,
-    twitter_bot_setup: 0,
-    twitter_bot_monthly: 0,
-    twitter_bot_tweet: 0,
-  };
-  
+  const features = createFreeTrial(userId).featuresUsed as UsageStats['features'];
+
   let totalCost = 0;
   let totalPaid = 0;
-  
+
   periodRecords.forEach(record => {
     features[record.feature]++;
     totalCost += record.cost;
@@ -321,7 +190,7 @@ export function getUsageStats(
       totalPaid += record.cost;
     }
   });
-  
+
   return {
     userId,
     period,
@@ -333,30 +202,165 @@ export function getUsageStats(
   };
 }
 
+function loadOrCreateTrial(tx: StorageTransaction, userId: string, now: Date): FreeTrialStatus {
+  const stored = tx.get<FreeTrialStatus>(TRIALS, userId);
+  const trial = stored ? refreshFreeTrial(reviveTrial(stored), now) : createFreeTrial(userId, now);
+  tx.set(TRIALS, userId, trial);
+  return trial;
+}
+
 /**
- * Get free trial status for a user
+ * Records still within retention once `record` is added
  */
-export function getFreeTrialStatus(userId: string): FreeTrialStatus | null {
-  return freeTrials.get(userId) || null;
+function appendWithRetention(records: UsageRecord[], record: UsageRecord, now: Date): UsageRecord[] {
+  const cutoff = now.getTime() - USAGE_RECORD_RETENTION_DAYS * DAY_MS;
+  return [...records.filter(r => new Date(r.timestamp).getTime() >= cutoff), record].slice(-MAX_USAGE_RECORDS_PER_USER);
 }
 
 /**
- * Get all usage records for a user
+ * Free trial for a user: the stored one, or a new trial that is saved when the user's
+ * first use is tracked. An expired trial is returned as inactive; it is never replaced.
  */
-export function getUserUsageRecords(userId: string): UsageRecord[] {
-  return usageRecords.get(userId) || [];
+export async function getOrCreateFreeTrial(userId: string): Promise<FreeTrialStatus> {
+  return (await getFreeTrialStatus(userId)) || createFreeTrial(userId);
 }
 
 /**
- * Clear usage records (for testing/development)
+ * Check if user is in free trial period
+ */
+export async function isInFreeTrial(userId: string): Promise<boolean> {
+  const trial = await getFreeTrialStatus(userId);
+  return trial ? trial.isActive : false;
+}
+
+/**
+ * Check if user can use a feature (within free trial limits)
+ */
+export async function canUseFeature(userId: string, feature: FeatureType): Promise<{ allowed: boolean; reason?: string }> {
+  return evaluateFeatureAccess(await getOrCreateFreeTrial(userId), feature);
+}
+
+/**
+ * Track feature usage
+ * IMPORTANT: Limits are checked and the counter incremented in one transaction, so
+ * concurrent requests cannot push a user past a free trial limit
  */
-export function clearUsageRecords(userId?: string): void {
-  if (userId) {
-    usageRecords.delete(userId);
-    freeTrials.delete(userId);
-  } else {
-    usageRecords.clear();
-    freeTrials.clear();
+export async function trackUsage(
+  userId: string,
+  feature: FeatureType,
+  metadata?: Record<string, any>
+): Promise<UsageRecord> {
+  return getStorage().transaction(tx => recordUsage(tx, userId, feature, metadata));
+}
+
+/**
+ * trackUsage inside the caller's transaction, so other writes of the same request
+ * commit together with it
+ */
+export function recordUsage(
+  tx: StorageTransaction,
+  userId: string,
+  feature: FeatureType,
+  metadata?: Record<string, any>
+): UsageRecord {
+  const now = new Date();
+  const trial = loadOrCreateTrial(tx, userId, now);
+  const isTrialActive = trial.isActive;
+
+  // Calculate cost (0 during free trial)
+  const baseCost = SEAL_TOKEN_ECONOMICS.pricing[feature] || 0;
+  const cost = isTrialActive ? 0 : baseCost;
+
+  const isPremiumService = PREMIUM_SERVICES.includes(feature);
+
+  // Premium services require payment (not in free trial)
+  if (isPremiumService && isTrialActive) {
+    throw new Error(
+      `${feature} is a premium service and not included in the free trial. ` +
+      `Payment required: ${baseCost} SEAL tokens.`
+    );
+  }
+
+  // Check if usage is allowed BEFORE tracking (for non-premium features)
+  if (!isPremiumService && isTrialActive) {
+    const canUse = evaluateFeatureAccess(trial, feature);
+    if (!canUse.allowed) {
+      throw new Error(canUse.reason || 'Feature usage not allowed');
+    }
   }
+
+  // Create usage record
+  const record: UsageRecord = {
+    id: `${userId}-${feature}-${now.getTime()}`,
+    userId,
+    feature,
+    timestamp: now,
+    metadata,
+    cost,
+    paid: false, // Payment collection disabled during development
+  };
+
+  // Store record, dropping those past retention
+  tx.set(RECORDS, userId, appendWithRetention(tx.get<UsageRecord[]>(RECORDS, userId) || [], record, now));
+
+  // Update free trial usage AFTER successful tracking
+  if (isTrialActive) {
+    trial.featuresUsed[feature] = (trial.featuresUsed[feature] || 0) + 1;
+    trial.totalUsage++;
+    tx.set(TRIALS, userId, trial);
+  }
+
+  return record;
 }
 
+/**
+ * Get usage statistics for a user
+ */
+export async function getUsageStats(
+  userId: string,
+  period: 'daily' | 'weekly' | 'monthly' | 'all_time' = 'all_time'
+): Promise<UsageStats> {
+  return summarizeUsage(userId, await getUserUsageRecords(userId), period);
+}
+
+/**
+ * Get free trial status for a user
+ */
+export async function getFreeTrialStatus(userId: string): Promise<FreeTrialStatus | null> {
+  const trial = await getStorage().get<FreeTrialStatus>(TRIALS, userId);
+  return trial ? refreshFreeTrial(reviveTrial(trial)) : null;
+}
+
+/**
+ * Get a user's usage records within retention
+ */
+export async function getUserUsageRecords(userId: string): Promise<UsageRecord[]> {
+  const records = await getStorage().get<UsageRecord[]>(RECORDS, userId);
+  return (records || []).map(reviveRecord);
+}
+
+/**
+ * Every user with usage records or a free trial (for admin analytics)
+ */
+export async function listTrackedUsers(): Promise<string[]> {
+  const [records, trials] = await Promise.all([
+    getStorage().list(RECORDS),
+    getStorage().list(TRIALS),
+  ]);
+  return Array.from(new Set([...records.map(([userId]) => userId), ...trials.map(([userId]) => userId)]));
+}
+
+/**
+ * Clear usage records (for testing/development)
+ */
+export async function clearUsageRecords(userId?: string): Promise<void> {
+  await getStorage().transaction(tx => {
+    if (userId) {
+      tx.delete(RECORDS, userId);
+      tx.delete(TRIALS, userId);
+    } else {
+      tx.clear(RECORDS);
+      tx.clear(TRIALS);
+    }
+  });
+}
@@ -5,5 +5,6 @@
 
 export * from './types';
 export * from './registry';
+export * from './keystore';
 export { walletRegistry } from './registry';
 
@@ -0,0 +1,147 @@
+/**
+ * Wallet Keystore
+ * Password-based encryption for stored and exported wallet keys:
+ * PBKDF2-SHA256 or scrypt key derivation, AES-256-GCM, versioned JSON envelopes.
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+
+export const KEYSTORE_VERSION = 1;
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+export const DEFAULT_SCRYPT_PARAMS = { N: 131072, r: 8, p: 1 };
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // 96-bit GCM nonce
+
+export type KdfParams =
+  | { name: 'pbkdf2'; hash: 'SHA-256'; iterations: number; salt: string }
+  | { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+
+/**
+ * One AES-256-GCM ciphertext. `ciphertext` carries the 16-byte auth tag at the end,
+ * as Web Crypto produces it. Binary fields are base64.
+ */
+export interface CipherEnvelope {
+  version: number;
+  cipher: 'aes-256-gcm';
+  iv: string;
+  ciphertext: string;
+}
+
+// A ciphertext that names the key derivation used for its password
+export interface PasswordEnvelope extends CipherEnvelope {
+  kdf: KdfParams;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function createKdfParams(name: KdfParams['name'] = 'pbkdf2', options: { iterations?: number; salt?: Uint8Array } = {}): KdfParams {
+  const salt = Buffer.from(options.salt || randomBytes(SALT_BYTES)).toString('base64');
+  return name === 'scrypt'
+    ? { name, ...DEFAULT_SCRYPT_PARAMS, salt }
+    : { name, hash: 'SHA-256', iterations: options.iterations || DEFAULT_PBKDF2_ITERATIONS, salt };
+}
+
+export async function deriveKey(password: string, kdf: KdfParams): Promise<CryptoKey> {
+  if (!password) {
+    throw new Error('Password is required');
+  }
+  const passwordBytes = new TextEncoder().encode(password);
+  const salt = Buffer.from(kdf.salt, 'base64');
+
+  if (kdf.name === 'scrypt') {
+    const keyBytes = await scryptAsync(passwordBytes, salt, { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: 32 });
+    return crypto.subtle.importKey('raw', toArrayBuffer(keyBytes), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  }
+  if (kdf.name !== 'pbkdf2') {
+    throw new Error(`Unsupported key derivation: ${(kdf as { name: string }).name}`);
+  }
+
+  const baseKey = await crypto.subtle.importKey('raw', toArrayBuffer(passwordBytes), { name: 'PBKDF2' }, false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: toArrayBuffer(salt), iterations: kdf.iterations, hash: kdf.hash },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt under an already derived key. `associatedData` is authenticated but not stored,
+ * so decryption must pass the same value (the registry uses the wallet address).
+ */
+export async function encryptBytes(
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  associatedData?: string,
+  iv: Uint8Array = randomBytes(IV_BYTES)
+): Promise<CipherEnvelope> {
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: toArrayBuffer(iv),
+      ...(associatedData !== undefined ? { additionalData: toArrayBuffer(new TextEncoder().encode(associatedData)) } : {}),
+    },
+    key,
+    toArrayBuffer(plaintext)
+  );
+  return {
+    version: KEYSTORE_VERSION,
+    cipher: 'aes-256-gcm',
+    iv: Buffer.from(iv).toString('base64'),
+    ciphertext: Buffer.from(ciphertext).toString('base64'),
+  };
+}
+
+export async function decryptBytes(key: CryptoKey, envelope: CipherEnvelope, associatedData?: string): Promise<Uint8Array> {
+  if (envelope.version !== KEYSTORE_VERSION || envelope.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore envelope (version ${envelope.version}, ${envelope.cipher})`);
+  }
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: toArrayBuffer(Buffer.from(envelope.iv, 'base64')),
+        ...(associatedData !== undefined ? { additionalData: toArrayBuffer(new TextEncoder().encode(associatedData)) } : {}),
+      },
+      key,
+      toArrayBuffer(Buffer.from(envelope.ciphertext, 'base64'))
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    // GCM does not distinguish a wrong key from tampered data
+    throw new Error('Invalid password or corrupted data');
+  }
+}
+
+/**
+ * Encrypt with a fresh key derived from `password`. Pass `kdf` and `iv` only to reproduce test vectors.
+ */
+export async function encryptWithPassword(
+  plaintext: Uint8Array,
+  password: string,
+  options: { kdf?: KdfParams; iv?: Uint8Array } = {}
+): Promise<PasswordEnvelope> {
+  const kdf = options.kdf || createKdfParams();
+  const envelope = await encryptBytes(await deriveKey(password, kdf), plaintext, undefined, options.iv);
+  return { ...envelope, kdf };
+}
+
+export async function decryptWithPassword(envelope: PasswordEnvelope, password: string): Promise<Uint8Array> {
+  return decryptBytes(await deriveKey(password, envelope.kdf), envelope);
+}
+
+export function isCipherEnvelope(value: unknown): value is CipherEnvelope {
+  const envelope = value as CipherEnvelope;
+  return !!envelope && typeof envelope === 'object' && typeof envelope.version === 'number' &&
+    envelope.cipher === 'aes-256-gcm' && typeof envelope.iv === 'string' && typeof envelope.ciphertext === 'string';
+}
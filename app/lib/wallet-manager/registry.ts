@@ -1,31 +1,68 @@
 /**
  * Wallet Registry
  * Manages wallets created via the transaction bundler
+ *
+ * Secret keys are stored AES-256-GCM encrypted under a key derived from the registry
+ * password (see ./keystore). The derived key is held only while the registry is unlocked
+ * and is dropped after the idle timeout.
  */
 
-import { Keypair, PublicKey } from '@solana/web3.js';
-import { ManagedWallet, WalletGroup, WalletImportOptions } from './types';
+import { Keypair } from '@solana/web3.js';
+import { ManagedWallet, WalletGroup, WalletImportOptions, WalletExportData } from './types';
+import {
+  CipherEnvelope,
+  KEYSTORE_VERSION,
+  KdfParams,
+  PasswordEnvelope,
+  createKdfParams,
+  decryptBytes,
+  decryptWithPassword,
+  deriveKey,
+  encryptBytes,
+  encryptWithPassword,
+  isCipherEnvelope,
+} from './keystore';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Decrypting this proves the password before any wallet is touched
+const KEYSTORE_CHECK = 'wallet-registry-keystore';
+const EXPORT_TYPE = 'wallet-registry-export';
+
+interface KeystoreHeader {
+  version: number;
+  kdf: KdfParams;
+  check: CipherEnvelope;
+}
 
-// Simple encryption/decryption (in production, use a proper crypto library)
-function encryptKeypair(keypair: Keypair, password: string): string {
-  // In production, use proper encryption (e.g., AES-256-GCM)
-  // For now, base64 encode (NOT SECURE - replace in production)
-  const secretKey = Buffer.from(keypair.secretKey).toString('base64');
-  return btoa(JSON.stringify({ key: secretKey, password })); // Temporary - not secure
+export interface WalletRegistryOptions {
+  idleTimeoutMs?: number;
+  kdf?: KdfParams['name'];
+  kdfIterations?: number; // PBKDF2 only
 }
 
-function decryptKeypair(encrypted: string, password: string): Keypair {
-  // In production, use proper decryption
+/**
+ * Secret keys stored before the keystore existed: plain base64 of the 64-byte secret key,
+ * or base64 of JSON { key, password }. Returns null for encrypted entries.
+ */
+function parseLegacySecret(stored: string): Uint8Array | null {
   try {
-    const data = JSON.parse(atob(encrypted));
-    if (data.password !== password) {
-      throw new Error('Invalid password');
-    }
-    const secretKey = Buffer.from(data.key, 'base64');
-    return Keypair.fromSecretKey(secretKey);
-  } catch (error) {
-    throw new Error('Failed to decrypt keypair: Invalid password or corrupted data');
+    if (isCipherEnvelope(JSON.parse(stored))) return null;
+  } catch {
+    // not JSON, so not an envelope
+  }
+  const bytes = Buffer.from(stored, 'base64');
+  if (bytes.length === 64) {
+    return new Uint8Array(bytes);
   }
+  try {
+    const data = JSON.parse(bytes.toString('utf8'));
+    const key = Buffer.from(data.key, 'base64');
+    if (key.length === 64) return new Uint8Array(key);
+  } catch {
+    // fall through
+  }
+  throw new Error('Unrecognized stored key format');
 }
 
 function generateId(): string {
@@ -37,20 +74,111 @@ export class WalletRegistry {
   private groups: Map<string, WalletGroup> = new Map();
   private storageKey = 'wallet_registry';
   private groupsKey = 'wallet_groups';
-
-  constructor() {
+  private keystoreKey = 'wallet_keystore';
+  private keystore: KeystoreHeader | null = null;
+  private sessionKey: CryptoKey | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimeoutMs: number;
+
+  constructor(private options: WalletRegistryOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
     this.loadFromStorage();
   }
 
   /**
-   * Register a new wallet (created via bundler)
+   * Whether a registry password has been set
+   */
+  isKeystoreInitialized(): boolean {
+    return this.keystore !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.sessionKey !== null;
+  }
+
+  /**
+   * Unlock with the registry password. The first unlock sets the password, and any keys
+   * stored in the old unencrypted format are encrypted then.
+   */
+  async unlock(password: string): Promise<void> {
+    if (!this.keystore) {
+      const kdf = createKdfParams(this.options.kdf, { iterations: this.options.kdfIterations });
+      const key = await deriveKey(password, kdf);
+      this.keystore = {
+        version: KEYSTORE_VERSION,
+        kdf,
+        check: await encryptBytes(key, new TextEncoder().encode(KEYSTORE_CHECK)),
+      };
+      this.startSession(key);
+    } else {
+      const key = await deriveKey(password, this.keystore.kdf);
+      await decryptBytes(key, this.keystore.check);
+      this.startSession(key);
+    }
+    await this.migrateLegacySecrets();
+    this.saveToStorage();
+  }
+
+  /**
+   * Forget the derived key; stored keys stay encrypted
+   */
+  lock(): void {
+    this.sessionKey = null;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  setIdleTimeout(ms: number): void {
+    this.idleTimeoutMs = ms;
+    if (this.sessionKey) this.touchSession();
+  }
+
+  /**
+   * Re-encrypt every stored key under a new password (and a fresh salt)
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    if (!this.keystore) {
+      throw new Error('No registry password has been set');
+    }
+    const currentKey = await deriveKey(currentPassword, this.keystore.kdf);
+    await decryptBytes(currentKey, this.keystore.check);
+
+    const kdf = createKdfParams(this.keystore.kdf.name, {
+      iterations: this.keystore.kdf.name === 'pbkdf2' ? this.keystore.kdf.iterations : undefined,
+    });
+    const newKey = await deriveKey(newPassword, kdf);
+
+    // Re-encrypt everything before replacing anything, so a failure leaves the old keystore intact
+    const reencrypted = new Map<string, string>();
+    for (const wallet of Array.from(this.wallets.values())) {
+      if (!wallet.encryptedKeypair) continue;
+      const secretKey = await this.decryptSecret(wallet, currentKey);
+      reencrypted.set(wallet.id, await this.encryptSecret(wallet.address, secretKey, newKey));
+    }
+
+    reencrypted.forEach((encrypted, id) => {
+      this.wallets.get(id)!.encryptedKeypair = encrypted;
+    });
+    this.keystore = {
+      version: KEYSTORE_VERSION,
+      kdf,
+      check: await encryptBytes(newKey, new TextEncoder().encode(KEYSTORE_CHECK)),
+    };
+    this.startSession(newKey);
+    this.saveToStorage();
+  }
+
+  /**
+   * Register a new wallet (created via bundler). Storing its keypair requires the registry to be unlocked.
    */
-  registerWallet(
+  async registerWallet(
     address: string,
     keypair?: Keypair,
     label?: string,
     tags?: string[]
-  ): ManagedWallet {
+  ): Promise<ManagedWallet> {
     const wallet: ManagedWallet = {
       id: generateId(),
       address,
@@ -58,7 +186,7 @@ export class WalletRegistry {
       tags: tags || [],
       createdAt: new Date(),
       isImported: false,
-      encryptedKeypair: keypair ? this.encryptKeypairForStorage(keypair) : undefined,
+      encryptedKeypair: keypair ? await this.encryptKeypairForStorage(keypair) : undefined,
     };
     
     this.wallets.set(wallet.id, wallet);
@@ -67,9 +195,9 @@ export class WalletRegistry {
   }
 
   /**
-   * Import existing wallet
+   * Import existing wallet (requires the registry to be unlocked)
    */
-  importWallet(options: WalletImportOptions): ManagedWallet {
+  async importWallet(options: WalletImportOptions): Promise<ManagedWallet> {
     let keypair: Keypair;
     try {
       // Try to parse as hex string
@@ -95,7 +223,7 @@ export class WalletRegistry {
       tags: options.tags || [],
       createdAt: new Date(),
       isImported: true,
-      encryptedKeypair: this.encryptKeypairForStorage(keypair),
+      encryptedKeypair: await this.encryptKeypairForStorage(keypair),
       notes: options.notes,
     };
     
@@ -189,20 +317,15 @@ export class WalletRegistry {
   }
 
   /**
-   * Get keypair for wallet (requires password if encrypted)
+   * Get keypair for wallet (requires the registry to be unlocked)
    */
-  getKeypair(walletId: string, password?: string): Keypair | null {
+  async getKeypair(walletId: string): Promise<Keypair | null> {
     const wallet = this.wallets.get(walletId);
     if (!wallet || !wallet.encryptedKeypair) {
       return null;
     }
-
-    try {
-      // In production, use proper password-based decryption
-      return decryptKeypair(wallet.encryptedKeypair, password || 'default-password');
-    } catch {
-      return null;
-    }
+    const secretKey = await this.decryptSecret(wallet, this.requireSessionKey());
+    return Keypair.fromSecretKey(secretKey);
   }
 
   /**
@@ -267,60 +390,88 @@ export class WalletRegistry {
   }
 
   /**
-   * Export wallet registry (encrypted backup)
+   * Export wallet registry (encrypted backup). The backup has its own password and salt, so it
+   * can be restored into another registry; the registry must be unlocked to read the keys.
    */
-  exportRegistry(password: string, walletIds?: string[]): string {
+  async exportRegistry(password: string, walletIds?: string[]): Promise<string> {
     const walletsToExport = walletIds
       ? walletIds.map(id => this.wallets.get(id)).filter(Boolean) as ManagedWallet[]
       : Array.from(this.wallets.values());
+    const key = walletsToExport.some(w => w.encryptedKeypair) ? this.requireSessionKey() : null;
 
-    const exportData = {
-      version: '1.0',
+    const exportData: WalletExportData = {
+      version: '2.0',
       exportedAt: new Date().toISOString(),
-      wallets: walletsToExport.map(w => ({
+      wallets: await Promise.all(walletsToExport.map(async w => ({
         id: w.id,
         address: w.address,
         label: w.label,
         tags: w.tags,
-        encryptedKeypair: w.encryptedKeypair,
+        secretKey: w.encryptedKeypair && key
+          ? Buffer.from(await this.decryptSecret(w, key)).toString('base64')
+          : undefined,
         notes: w.notes,
-      })),
+        createdAt: w.createdAt.toISOString(),
+        isImported: w.isImported,
+      }))),
       groups: Array.from(this.groups.values()),
     };
 
-    // In production, encrypt with password
-    return btoa(JSON.stringify(exportData)); // Temporary - not secure
+    const envelope = await encryptWithPassword(new TextEncoder().encode(JSON.stringify(exportData)), password);
+    return JSON.stringify({ type: EXPORT_TYPE, ...envelope });
   }
 
   /**
-   * Import wallet registry
+   * Import an encrypted backup from exportRegistry. Keys are re-encrypted under this
+   * registry's password, so it must be unlocked.
    */
-  importRegistry(encryptedData: string, password: string): void {
+  async importRegistry(encryptedData: string, password: string): Promise<void> {
+    let envelope: PasswordEnvelope & { type?: string };
     try {
-      const data = JSON.parse(atob(encryptedData));
-      
-      // Import wallets
-      data.wallets.forEach((w: any) => {
-        this.wallets.set(w.id, {
-          ...w,
-          createdAt: new Date(w.createdAt || Date.now()),
-        });
-      });
+      envelope = JSON.parse(encryptedData);
+    } catch {
+      throw new Error('Failed to import registry: Invalid format');
+    }
+    if (envelope.type !== EXPORT_TYPE || !isCipherEnvelope(envelope) || !envelope.kdf) {
+      throw new Error('Failed to import registry: Invalid format');
+    }
 
-      // Import groups
-      if (data.groups) {
-        data.groups.forEach((g: any) => {
-          this.groups.set(g.id, {
-            ...g,
-            createdAt: new Date(g.createdAt || Date.now()),
-          });
-        });
+    const data: WalletExportData = JSON.parse(
+      new TextDecoder().decode(await decryptWithPassword(envelope, password))
+    );
+    const key = data.wallets.some(w => w.secretKey) ? this.requireSessionKey() : null;
+
+    // Encrypt everything first so a bad entry doesn't leave a half-imported registry
+    const imported: ManagedWallet[] = [];
+    for (const w of data.wallets) {
+      let encryptedKeypair: string | undefined;
+      if (w.secretKey && key) {
+        const keypair = Keypair.fromSecretKey(Buffer.from(w.secretKey, 'base64'));
+        if (keypair.publicKey.toString() !== w.address) {
+          throw new Error(`Failed to import registry: key for ${w.address} does not match its address`);
+        }
+        encryptedKeypair = await this.encryptSecret(w.address, keypair.secretKey, key);
       }
-
-      this.saveToStorage();
-    } catch (error) {
-      throw new Error('Failed to import registry: Invalid format or password');
+      imported.push({
+        id: w.id,
+        address: w.address,
+        label: w.label,
+        tags: w.tags || [],
+        notes: w.notes,
+        createdAt: new Date(w.createdAt || Date.now()),
+        isImported: w.isImported ?? true,
+        encryptedKeypair,
+      });
     }
+
+    imported.forEach(wallet => this.wallets.set(wallet.id, wallet));
+    (data.groups || []).forEach((g: any) => {
+      this.groups.set(g.id, {
+        ...g,
+        createdAt: new Date(g.createdAt || Date.now()),
+      });
+    });
+    this.saveToStorage();
   }
 
   /**
@@ -352,10 +503,54 @@ export class WalletRegistry {
     };
   }
 
-  private encryptKeypairForStorage(keypair: Keypair): string {
-    // In production, use proper encryption
-    // For now, base64 encode (NOT SECURE)
-    return Buffer.from(keypair.secretKey).toString('base64');
+  private requireSessionKey(): CryptoKey {
+    if (!this.sessionKey) {
+      throw new Error('Wallet registry is locked');
+    }
+    this.touchSession();
+    return this.sessionKey;
+  }
+
+  private startSession(key: CryptoKey): void {
+    this.sessionKey = key;
+    this.touchSession();
+  }
+
+  // Any use of the key postpones the idle lock
+  private touchSession(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => this.lock(), this.idleTimeoutMs);
+  }
+
+  private async encryptSecret(address: string, secretKey: Uint8Array, key: CryptoKey): Promise<string> {
+    return JSON.stringify(await encryptBytes(key, secretKey, address));
+  }
+
+  private async decryptSecret(wallet: ManagedWallet, key: CryptoKey): Promise<Uint8Array> {
+    const legacy = parseLegacySecret(wallet.encryptedKeypair!);
+    if (legacy) return legacy;
+    return decryptBytes(key, JSON.parse(wallet.encryptedKeypair!), wallet.address);
+  }
+
+  private async encryptKeypairForStorage(keypair: Keypair): Promise<string> {
+    return this.encryptSecret(keypair.publicKey.toString(), keypair.secretKey, this.requireSessionKey());
+  }
+
+  private async migrateLegacySecrets(): Promise<void> {
+    const key = this.requireSessionKey();
+    for (const wallet of Array.from(this.wallets.values())) {
+      if (!wallet.encryptedKeypair) continue;
+      try {
+        const legacy = parseLegacySecret(wallet.encryptedKeypair);
+        if (legacy) {
+          wallet.encryptedKeypair = await this.encryptSecret(wallet.address, legacy, key);
+        }
+      } catch (error) {
+        console.error(`Could not migrate stored key for ${wallet.address}:`, error);
+      }
+    }
   }
 
   private saveToStorage(): void {
@@ -372,6 +567,10 @@ export class WalletRegistry {
         createdAt: g.createdAt.toISOString(),
       }));
       localStorage.setItem(this.groupsKey, JSON.stringify(groupsData));
+
+      if (this.keystore) {
+        localStorage.setItem(this.keystoreKey, JSON.stringify(this.keystore));
+      }
     }
   }
 
@@ -394,6 +593,9 @@ export class WalletRegistry {
             createdAt: new Date(g.createdAt),
           });
         });
+
+        const keystoreData = localStorage.getItem(this.keystoreKey);
+        this.keystore = keystoreData ? JSON.parse(keystoreData) : null;
       } catch (error) {
         console.error('Error loading wallet registry from storage:', error);
       }
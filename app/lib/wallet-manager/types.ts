@@ -12,7 +12,7 @@ export interface ManagedWallet {
   lastUsed?: Date;
   balance?: number; // SOL balance
   isImported: boolean; // true if imported, false if created via bundler
-  encryptedKeypair?: string; // Encrypted private key (if stored)
+  encryptedKeypair?: string; // JSON CipherEnvelope of the secret key, encrypted under the registry password
   notes?: string; // User notes about the wallet
 }
 
@@ -56,8 +56,10 @@ export interface WalletExportData {
     address: string;
     label?: string;
     tags?: string[];
-    encryptedKeypair?: string;
+    secretKey?: string; // base64; the whole export is encrypted with the export password
     notes?: string;
+    createdAt?: string;
+    isImported?: boolean;
   }>;
   groups?: WalletGroup[];
 }
@@ -0,0 +1,339 @@
+/**
+ * Webhook Dispatcher
+ * Queues a delivery per matching subscription when an event is emitted, then POSTs it
+ * signed. Failed deliveries are retried with exponential backoff and moved to the
+ * dead-letter queue once attempts run out. Every delivery is kept in the delivery log.
+ */
+
+import { randomBytes } from 'crypto';
+import { getStorage, STORAGE_COLLECTIONS, StorageTransaction } from '../storage';
+import {
+  EVENT_ID_HEADER,
+  EVENT_TYPE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from './signing';
+import { assertPublicWebhookHost } from './subscriptions';
+import { WebhookDelivery, WebhookEvent, WebhookEventType, WebhookSubscription } from './types';
+
+const SUBSCRIPTIONS = STORAGE_COLLECTIONS.webhookSubscriptions;
+const DELIVERIES = STORAGE_COLLECTIONS.webhookDeliveries;
+const DEAD_LETTERS = STORAGE_COLLECTIONS.webhookDeadLetters;
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+export const RETRY_BASE_DELAY_MS = 30000; // 30s, 1m, 2m, 4m, 8m
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_LOGGED_DELIVERIES_PER_SUBSCRIPTION = 100;
+
+let processing: Promise<number> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+function matches(subscription: WebhookSubscription, type: WebhookEventType, subjects: string[]): boolean {
+  if (!subscription.active || !subscription.events.includes(type)) return false;
+  if (!subscription.accounts || subjects.length === 0) return true;
+  return subjects.some(subject => subscription.accounts!.includes(subject));
+}
+
+function createDelivery(subscription: WebhookSubscription, event: WebhookEvent, now: string, test?: boolean): WebhookDelivery {
+  return {
+    id: newId('dlv'),
+    subscriptionId: subscription.id,
+    owner: subscription.owner,
+    event,
+    status: 'pending',
+    attempts: [],
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+    test,
+  };
+}
+
+/**
+ * Keep only the most recent finished deliveries of a subscription in the log
+ */
+function pruneLog(tx: StorageTransaction, subscriptionId: string): void {
+  const finished = tx.list<WebhookDelivery>(DELIVERIES)
+    .map(([, delivery]) => delivery)
+    .filter(delivery => delivery.subscriptionId === subscriptionId && delivery.status !== 'pending')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  finished.slice(MAX_LOGGED_DELIVERIES_PER_SUBSCRIPTION).forEach(delivery => tx.delete(DELIVERIES, delivery.id));
+}
+
+/**
+ * Queue `data` for every active subscription to `type`. `subjects` are the addresses the
+ * event involves, matched against subscriptions' account filters. Returns the number of
+ * deliveries queued; sending happens in the background.
+ */
+export async function emitWebhookEvent<T extends Record<string, unknown>>(
+  type: WebhookEventType,
+  data: T,
+  subjects: string[] = []
+): Promise<number> {
+  if (typeof window !== 'undefined') return 0; // Deliveries are sent from the server only
+
+  const event: WebhookEvent = {
+    id: newId('evt'),
+    type,
+    createdAt: new Date().toISOString(),
+    data: JSON.parse(JSON.stringify(data)),
+  };
+
+  const queued = await getStorage().transaction(tx => {
+    const subscriptions = tx.list<WebhookSubscription>(SUBSCRIPTIONS)
+      .map(([, subscription]) => subscription)
+      .filter(subscription => matches(subscription, type, subjects));
+
+    subscriptions.forEach(subscription => {
+      const delivery = createDelivery(subscription, event, event.createdAt);
+      tx.set(DELIVERIES, delivery.id, delivery);
+    });
+    return subscriptions.length;
+  });
+
+  if (queued > 0) {
+    processDueDeliveries().catch(error => console.error('[Webhooks] Delivery run failed:', error));
+  }
+  return queued;
+}
+
+/**
+ * POST one delivery and return the attempt outcome
+ */
+async function send(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookDelivery['attempts'][number]> {
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+  try {
+    await assertPublicWebhookHost(subscription.url);
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [EVENT_ID_HEADER]: delivery.event.id,
+        [EVENT_TYPE_HEADER]: delivery.event.type,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    return {
+      at: new Date(started).toISOString(),
+      responseStatus: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      at: new Date(started).toISOString(),
+      error: controller.signal.aborted
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Attempt a claimed delivery and record the outcome: success, a scheduled retry, or the
+ * dead-letter queue
+ */
+async function attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  // Deliveries to removed or paused endpoints are cancelled (test-fire still sends)
+  const subscription = await getStorage().get<WebhookSubscription>(SUBSCRIPTIONS, delivery.subscriptionId);
+  const result = subscription && (subscription.active || delivery.test)
+    ? await send(subscription, delivery)
+    : undefined;
+
+  return getStorage().transaction(tx => {
+    const current = tx.get<WebhookDelivery>(DELIVERIES, delivery.id) || delivery;
+    const now = new Date();
+    const updated: WebhookDelivery = { ...current, updatedAt: now.toISOString() };
+
+    if (!result) {
+      updated.status = 'cancelled';
+      updated.nextAttemptAt = null;
+    } else {
+      updated.attempts = [...current.attempts, result];
+      if (!result.error) {
+        updated.status = 'succeeded';
+        updated.nextAttemptAt = null;
+      } else if (updated.test) {
+        updated.status = 'dead';
+        updated.nextAttemptAt = null;
+      } else if (updated.attempts.length >= MAX_DELIVERY_ATTEMPTS) {
+        updated.status = 'dead';
+        updated.nextAttemptAt = null;
+        tx.set(DEAD_LETTERS, updated.id, updated);
+      } else {
+        updated.nextAttemptAt = new Date(now.getTime() + retryDelayMs(updated.attempts.length)).toISOString();
+      }
+    }
+
+    tx.set(DELIVERIES, updated.id, updated);
+    if (updated.status !== 'pending') {
+      pruneLog(tx, updated.subscriptionId);
+    }
+    return updated;
+  });
+}
+
+/**
+ * Send every delivery that is due. Deliveries are claimed by pushing their next attempt
+ * past the send timeout, so concurrent runs (or processes) don't send them twice.
+ * Returns the number attempted.
+ */
+export function processDueDeliveries(now: number = Date.now()): Promise<number> {
+  if (!processing) {
+    processing = (async () => {
+      const claimed = await getStorage().transaction(tx => {
+        const lease = new Date(now + DELIVERY_TIMEOUT_MS * 2).toISOString();
+        return tx.list<WebhookDelivery>(DELIVERIES)
+          .map(([, delivery]) => delivery)
+          .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt !== null &&
+            new Date(delivery.nextAttemptAt).getTime() <= now)
+          .map(delivery => {
+            const leased = { ...delivery, nextAttemptAt: lease };
+            tx.set(DELIVERIES, delivery.id, leased);
+            return leased;
+          });
+      });
+
+      for (const delivery of claimed) {
+        await attempt(delivery);
+      }
+      return claimed.length;
+    })().finally(() => {
+      processing = null;
+      scheduleRetries().catch(error => console.error('[Webhooks] Failed to schedule retries:', error));
+    });
+  }
+  return processing;
+}
+
+/**
+ * Wake up when the earliest pending retry is due
+ */
+async function scheduleRetries(): Promise<void> {
+  const deliveries = await getStorage().list<WebhookDelivery>(DELIVERIES);
+  const next = deliveries
+    .map(([, delivery]) => delivery)
+    .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt)
+    .map(delivery => new Date(delivery.nextAttemptAt!).getTime())
+    .sort((a, b) => a - b)[0];
+
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (next === undefined) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processDueDeliveries().catch(error => console.error('[Webhooks] Delivery run failed:', error));
+  }, Math.max(0, next - Date.now()));
+  // Don't keep the process alive just for retries
+  retryTimer.unref?.();
+}
+
+/**
+ * Send a 'webhook.test' event to one subscription right away and return the result.
+ * Test deliveries are logged but not retried.
+ */
+export async function sendTestEvent(owner: string, subscriptionId: string): Promise<WebhookDelivery> {
+  const delivery = await getStorage().transaction(tx => {
+    const subscription = tx.get<WebhookSubscription>(SUBSCRIPTIONS, subscriptionId);
+    if (!subscription || subscription.owner !== owner) {
+      throw new Error('Webhook not found');
+    }
+
+    const now = new Date().toISOString();
+    const event: WebhookEvent = {
+      id: newId('evt'),
+      type: 'webhook.test',
+      createdAt: now,
+      data: { message: 'Test event', subscriptionId },
+    };
+    // Leased from the start so a concurrent run does not pick it up
+    const created = {
+      ...createDelivery(subscription, event, now, true),
+      nextAttemptAt: new Date(Date.now() + DELIVERY_TIMEOUT_MS * 2).toISOString(),
+    };
+    tx.set(DELIVERIES, created.id, created);
+    return created;
+  });
+
+  return attempt(delivery);
+}
+
+/**
+ * Delivery log for an owner, newest first
+ */
+export async function listDeliveries(
+  owner: string,
+  options: { subscriptionId?: string; status?: WebhookDelivery['status']; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const deliveries = await getStorage().list<WebhookDelivery>(DELIVERIES);
+  return deliveries
+    .map(([, delivery]) => delivery)
+    .filter(delivery => delivery.owner === owner &&
+      (!options.subscriptionId || delivery.subscriptionId === options.subscriptionId) &&
+      (!options.status || delivery.status === options.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, options.limit ?? 50);
+}
+
+/**
+ * Dead-lettered deliveries for an owner, newest first
+ */
+export async function listDeadLetters(owner: string): Promise<WebhookDelivery[]> {
+  const deadLetters = await getStorage().list<WebhookDelivery>(DEAD_LETTERS);
+  return deadLetters
+    .map(([, delivery]) => delivery)
+    .filter(delivery => delivery.owner === owner)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Take a delivery off the dead-letter queue and retry it from the first attempt
+ */
+export async function redriveDeadLetter(owner: string, deliveryId: string): Promise<WebhookDelivery> {
+  const delivery = await getStorage().transaction(tx => {
+    const dead = tx.get<WebhookDelivery>(DEAD_LETTERS, deliveryId);
+    if (!dead || dead.owner !== owner) {
+      throw new Error('Dead-lettered delivery not found');
+    }
+    if (!tx.get<WebhookSubscription>(SUBSCRIPTIONS, dead.subscriptionId)) {
+      throw new Error('Webhook for this delivery no longer exists');
+    }
+
+    const now = new Date().toISOString();
+    const redriven: WebhookDelivery = { ...dead, status: 'pending', attempts: [], nextAttemptAt: now, updatedAt: now };
+    tx.delete(DEAD_LETTERS, deliveryId);
+    tx.set(DELIVERIES, deliveryId, redriven);
+    return redriven;
+  });
+
+  processDueDeliveries().catch(error => console.error('[Webhooks] Delivery run failed:', error));
+  return delivery;
+}
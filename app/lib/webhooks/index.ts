@@ -0,0 +1,9 @@
+/**
+ * Webhook Exports
+ */
+
+export * from './types';
+export * from './signing';
+export * from './subscriptions';
+export * from './dispatcher';
+export * from './sources';
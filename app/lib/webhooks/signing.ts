@@ -0,0 +1,37 @@
+/**
+ * Webhook Signing
+ * Each delivery carries `X-Webhook-Timestamp` and `X-Webhook-Signature: v1=<hex>`, where
+ * the signature is HMAC-SHA256 over `<timestamp>.<raw body>` with the subscription secret.
+ * Receivers should recompute it and reject stale timestamps to prevent replays.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const EVENT_ID_HEADER = 'X-Webhook-Id';
+export const EVENT_TYPE_HEADER = 'X-Webhook-Event';
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `v1=${digest}`;
+}
+
+/**
+ * Check a received delivery (for receivers written against this platform, and tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean {
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
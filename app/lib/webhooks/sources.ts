@@ -0,0 +1,101 @@
+/**
+ * Webhook Sources
+ * Turn platform events into webhook events. Bridges subscribe to long-running sources
+ * (whale tracker, market maker agents) and return an unsubscribe function. Pump.fun
+ * launches arrive through the Helius webhook route, since the pump.fun stream only runs
+ * in the sniper UI.
+ */
+
+import type { ArbitrageOpportunity } from '../pools/types';
+import type { WhaleTracker } from '../whales/tracker';
+import type { MarketMakerAgent } from '../market-maker/agent';
+import { emitWebhookEvent } from './dispatcher';
+
+function logFailure(error: unknown) {
+  console.error('[Webhooks] Failed to emit event:', error);
+}
+
+/**
+ * Emit one 'arbitrage.opportunity' event per detected opportunity
+ */
+export async function emitArbitrageOpportunities(opportunities: ArbitrageOpportunity[]): Promise<void> {
+  for (const opportunity of opportunities) {
+    const mints = Array.from(new Set(opportunity.steps.flatMap(step => [step.tokenIn.mint, step.tokenOut.mint])));
+    await emitWebhookEvent('arbitrage.opportunity', {
+      id: opportunity.id,
+      type: opportunity.type,
+      profit: opportunity.profit,
+      profitPercent: opportunity.profitPercent,
+      netProfit: opportunity.netProfit,
+      confidence: opportunity.confidence,
+      inputAmount: opportunity.inputAmount.toString(),
+      outputAmount: opportunity.outputAmount.toString(),
+      steps: opportunity.steps.map(step => ({
+        dex: step.dex,
+        pool: step.pool.id,
+        tokenIn: step.tokenIn.mint,
+        tokenOut: step.tokenOut.mint,
+        price: step.price,
+      })),
+      detectedAt: new Date(opportunity.timestamp).toISOString(),
+    }, mints);
+  }
+}
+
+/**
+ * Emit a 'wallet.balance_change' event for a SOL balance change (lamports)
+ */
+export function emitBalanceChange(account: string, change: number, signature: string, slot: number, timestamp: number): Promise<number> {
+  return emitWebhookEvent('wallet.balance_change', {
+    account,
+    change,
+    changeSol: change / 1e9,
+    signature,
+    slot,
+    timestamp: new Date(timestamp * 1000).toISOString(),
+  }, [account]);
+}
+
+/**
+ * Emit a 'pumpfun.launch' event for a newly created pump.fun token
+ */
+export function emitPumpFunLaunch(launch: { mint: string; creator: string; name?: string; symbol?: string; signature?: string; createdAt: number }): Promise<number> {
+  return emitWebhookEvent('pumpfun.launch', {
+    ...launch,
+    createdAt: new Date(launch.createdAt).toISOString(),
+  }, [launch.mint, launch.creator].filter(Boolean));
+}
+
+export function forwardWhaleSignals(tracker: WhaleTracker): () => void {
+  return tracker.onSignal(signal => {
+    emitWebhookEvent('whale.signal', {
+      whale: signal.whale.address,
+      label: signal.whale.label,
+      totalValue: signal.whale.totalValue,
+      behaviorPattern: signal.whale.behaviorPattern,
+      predictedAction: signal.predictedAction,
+      targetToken: signal.targetToken,
+      confidence: signal.confidence,
+      reasoning: signal.reasoning,
+      opportunity: signal.opportunity,
+    }, [signal.whale.address]).catch(logFailure);
+  });
+}
+
+export function forwardMarketMakerFills(agent: MarketMakerAgent): () => void {
+  return agent.onFill(fill => {
+    emitWebhookEvent('market_maker.fill', {
+      strategy: fill.strategy,
+      agentWallet: fill.agentWallet,
+      tokenMint: fill.tokenMint,
+      side: fill.side,
+      price: fill.price,
+      solAmount: fill.solAmount,
+      tokenAmount: fill.tokenAmount,
+      realizedPnl: fill.realizedPnl,
+      signature: fill.signature,
+      levelIndex: fill.levelIndex,
+      timestamp: fill.timestamp.toISOString(),
+    }, [fill.agentWallet, fill.tokenMint]).catch(logFailure);
+  });
+}
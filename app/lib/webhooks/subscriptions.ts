@@ -0,0 +1,264 @@
+/**
+ * Webhook Subscriptions
+ * Endpoints users register to receive events, kept in the shared store
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as dnsPromises } from 'dns';
+import { isIP } from 'net';
+import { getStorage, STORAGE_COLLECTIONS } from '../storage';
+import {
+  CreateWebhookOptions,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionInfo,
+} from './types';
+
+const COLLECTION = STORAGE_COLLECTIONS.webhookSubscriptions;
+
+export const MAX_SUBSCRIPTIONS_PER_OWNER = 20;
+
+// Event types users can subscribe to ('webhook.test' is only sent by test-fire)
+export const WEBHOOK_EVENT_TYPES: Record<Exclude<WebhookEventType, 'webhook.test'>, string> = {
+  'arbitrage.opportunity': 'Arbitrage opportunity detected by the pool scanner',
+  'whale.signal': 'Predicted whale action from the whale tracker',
+  'pumpfun.launch': 'New pump.fun token launch',
+  'market_maker.fill': 'Market maker order filled',
+  'wallet.balance_change': 'SOL balance change on a watched wallet',
+};
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_TYPES, value);
+}
+
+function toInfo(subscription: WebhookSubscription): WebhookSubscriptionInfo {
+  const { secret: _secret, ...info } = subscription;
+  return info;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 3], // Multicast and reserved
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Loopback, private, link-local and other non-routable addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = Math.pow(2, 32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+  }
+
+  const ipv6 = address.toLowerCase();
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return ipv6 === '::' || ipv6 === '::1' ||
+    /^f[cd]/.test(ipv6) || // Unique local fc00::/7
+    /^fe[89ab]/.test(ipv6) || // Link-local fe80::/10
+    /^ff/.test(ipv6); // Multicast
+}
+
+/**
+ * Endpoints on this machine or a private network are only reachable with
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true, outside production, for local development
+ */
+function privateUrlsAllowed(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+function parseWebhookUrl(url: string): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new Error('Invalid webhook URL');
+  }
+}
+
+/**
+ * Endpoints must be http(s) on a public host; production also requires https.
+ * Hostnames are checked again against their resolved addresses before each delivery.
+ */
+export function validateWebhookUrl(url: string): void {
+  const parsed = parseWebhookUrl(url);
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+  if (process.env.NODE_ENV === 'production' && parsed.protocol !== 'https:') {
+    throw new Error('Webhook URL must be a public https endpoint');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  const isPrivateHost = host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') ||
+    host.endsWith('.internal') || (isIP(host) !== 0 && isPrivateAddress(host));
+  if (isPrivateHost && !privateUrlsAllowed()) {
+    throw new Error('Webhook URL must be a public endpoint');
+  }
+}
+
+/**
+ * Resolve an endpoint's host and reject it when any of its addresses is private,
+ * so a public-looking hostname cannot point deliveries into the internal network
+ */
+export async function assertPublicWebhookHost(url: string): Promise<void> {
+  validateWebhookUrl(url);
+  if (privateUrlsAllowed()) return;
+
+  const host = parseWebhookUrl(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) !== 0) return; // Literal addresses were checked above
+
+  const addresses = await dnsPromises.lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`Webhook host ${host} resolves to private address ${blocked.address}`);
+  }
+}
+
+function validateOptions(options: Partial<CreateWebhookOptions>): void {
+  if (options.url !== undefined) {
+    validateWebhookUrl(options.url);
+  }
+  if (options.events !== undefined && (options.events.length === 0 || !options.events.every(isWebhookEventType))) {
+    throw new Error(`Webhook needs at least one event type. Available: ${Object.keys(WEBHOOK_EVENT_TYPES).join(', ')}`);
+  }
+  if (options.accounts !== undefined && !options.accounts.every(account => typeof account === 'string' && account.length > 0)) {
+    throw new Error('Webhook accounts must be addresses');
+  }
+}
+
+/**
+ * Register an endpoint. The returned secret is used to verify deliveries.
+ */
+export async function createWebhookSubscription(
+  owner: string,
+  options: CreateWebhookOptions
+): Promise<{ subscription: WebhookSubscriptionInfo; secret: string }> {
+  if (!options.url || !options.events) {
+    throw new Error('Webhook needs a url and events');
+  }
+  validateOptions(options);
+
+  return getStorage().transaction(tx => {
+    const owned = tx.list<WebhookSubscription>(COLLECTION).filter(([, sub]) => sub.owner === owner);
+    if (owned.length >= MAX_SUBSCRIPTIONS_PER_OWNER) {
+      throw new Error(`Maximum of ${MAX_SUBSCRIPTIONS_PER_OWNER} webhooks reached`);
+    }
+
+    const now = new Date().toISOString();
+    const subscription: WebhookSubscription = {
+      id: `wh_${randomBytes(8).toString('hex')}`,
+      owner,
+      url: options.url,
+      events: Array.from(new Set(options.events)),
+      accounts: options.accounts?.length ? Array.from(new Set(options.accounts)) : undefined,
+      description: options.description,
+      secret: generateSecret(),
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.set(COLLECTION, subscription.id, subscription);
+    return { subscription: toInfo(subscription), secret: subscription.secret };
+  });
+}
+
+export async function listWebhookSubscriptions(owner: string): Promise<WebhookSubscriptionInfo[]> {
+  const subscriptions = await getStorage().list<WebhookSubscription>(COLLECTION);
+  return subscriptions
+    .map(([, sub]) => sub)
+    .filter(sub => sub.owner === owner)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toInfo);
+}
+
+/**
+ * Change an endpoint's URL, events or account filter, or pause/resume it
+ */
+export async function updateWebhookSubscription(
+  owner: string,
+  id: string,
+  changes: Partial<CreateWebhookOptions> & { active?: boolean }
+): Promise<WebhookSubscriptionInfo> {
+  validateOptions(changes);
+
+  return getStorage().transaction(tx => {
+    const subscription = tx.get<WebhookSubscription>(COLLECTION, id);
+    if (!subscription || subscription.owner !== owner) {
+      throw new Error('Webhook not found');
+    }
+
+    if (changes.url !== undefined) subscription.url = changes.url;
+    if (changes.events !== undefined) subscription.events = Array.from(new Set(changes.events));
+    if (changes.accounts !== undefined) {
+      subscription.accounts = changes.accounts.length ? Array.from(new Set(changes.accounts)) : undefined;
+    }
+    if (changes.description !== undefined) subscription.description = changes.description;
+    if (changes.active !== undefined) subscription.active = changes.active;
+    subscription.updatedAt = new Date().toISOString();
+
+    tx.set(COLLECTION, id, subscription);
+    return toInfo(subscription);
+  });
+}
+
+/**
+ * Replace the signing secret. Deliveries signed from now on use the new one.
+ */
+export async function rotateWebhookSecret(owner: string, id: string): Promise<string> {
+  return getStorage().transaction(tx => {
+    const subscription = tx.get<WebhookSubscription>(COLLECTION, id);
+    if (!subscription || subscription.owner !== owner) {
+      throw new Error('Webhook not found');
+    }
+    subscription.secret = generateSecret();
+    subscription.updatedAt = new Date().toISOString();
+    tx.set(COLLECTION, id, subscription);
+    return subscription.secret;
+  });
+}
+
+/**
+ * Remove an endpoint and cancel its pending deliveries
+ */
+export async function deleteWebhookSubscription(owner: string, id: string): Promise<void> {
+  await getStorage().transaction(tx => {
+    const subscription = tx.get<WebhookSubscription>(COLLECTION, id);
+    if (!subscription || subscription.owner !== owner) {
+      throw new Error('Webhook not found');
+    }
+    tx.delete(COLLECTION, id);
+
+    const now = new Date().toISOString();
+    tx.list<WebhookDelivery>(STORAGE_COLLECTIONS.webhookDeliveries)
+      .filter(([, delivery]) => delivery.subscriptionId === id && delivery.status === 'pending')
+      .forEach(([deliveryId, delivery]) => {
+        tx.set(STORAGE_COLLECTIONS.webhookDeliveries, deliveryId, {
+          ...delivery,
+          status: 'cancelled',
+          nextAttemptAt: null,
+          updatedAt: now,
+        });
+      });
+  });
+}
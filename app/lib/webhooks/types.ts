@@ -0,0 +1,66 @@
+/**
+ * Webhook Types
+ * Outbound webhooks forward platform events to endpoints registered by users
+ */
+
+export type WebhookEventType =
+  | 'arbitrage.opportunity'
+  | 'whale.signal'
+  | 'pumpfun.launch'
+  | 'market_maker.fill'
+  | 'wallet.balance_change'
+  | 'webhook.test';
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  owner: string; // Wallet address
+  url: string;
+  events: WebhookEventType[];
+  accounts?: string[]; // Only forward events involving one of these addresses
+  description?: string;
+  secret: string; // HMAC signing secret
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Subscription as returned to its owner (secret only shown on create and rotation)
+ */
+export type WebhookSubscriptionInfo = Omit<WebhookSubscription, 'secret'>;
+
+export interface CreateWebhookOptions {
+  url: string;
+  events: WebhookEventType[];
+  accounts?: string[];
+  description?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead' | 'cancelled';
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  owner: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  test?: boolean; // Test-fire deliveries are attempted once and never dead-lettered
+}
@@ -39,6 +39,7 @@ export class WhaleTracker {
   private connection: Connection;
   private whales: Map<string, Whale> = new Map();
   private minWhaleSize = 1000; // 1000 SOL minimum to be considered whale
+  private signalListeners: Set<(signal: WhaleSignal) => void> = new Set();
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -177,13 +178,35 @@ export class WhaleTracker {
       };
     }
 
-    return {
+    const signal: WhaleSignal = {
       whale,
       predictedAction,
       confidence,
       reasoning,
       opportunity,
     };
+
+    if (predictedAction !== 'hold') {
+      this.signalListeners.forEach(listener => {
+        try {
+          listener(signal);
+        } catch (error) {
+          console.error('Whale signal listener error:', error);
+        }
+      });
+    }
+
+    return signal;
+  }
+
+  /**
+   * Subscribe to buy/sell predictions (hold predictions are not reported)
+   */
+  onSignal(listener: (signal: WhaleSignal) => void): () => void {
+    this.signalListeners.add(listener);
+    return () => {
+      this.signalListeners.delete(listener);
+    };
   }
 
   /**
@@ -0,0 +1,116 @@
+#!/usr/bin/env ts-node
+/**
+ * Replay a recorded pump.fun stream through the rule-based launch scorer.
+ *
+ * The recording is a JSON array or JSON Lines file of PumpFunFilter results or raw
+ * QuickNode block payloads. Every launch is scored on its first minutes of activity
+ * and labelled with whether it graduated later in the recording, then a threshold
+ * sweep shows how well the score predicts graduation.
+ *
+ * Usage:
+ *   ts-node --project tsconfig.scripts.json scripts/replay-launches.ts recordings/pumpfun.jsonl
+ *   ts-node --project tsconfig.scripts.json scripts/replay-launches.ts recordings/pumpfun.jsonl --window 3 --bundle-wallets 4
+ *   ts-node --project tsconfig.scripts.json scripts/replay-launches.ts recordings/pumpfun.jsonl --json
+ *
+ * You can also run it via npm:
+ *   npm run replay:launches -- recordings/pumpfun.jsonl --thresholds 50,60,70
+ */
+
+import { promises as fs } from 'fs';
+import {
+  LaunchScorerConfig,
+  parseRecordedStream,
+  replayLaunches,
+  sweepThresholds,
+} from '../app/lib/pumpfun/launch-scorer';
+
+interface CLIOptions {
+  file: string;
+  config: Partial<LaunchScorerConfig>;
+  thresholds?: number[];
+  json: boolean;
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    throw new Error(`${flag} expects a number`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CLIOptions {
+  const [file, ...rest] = argv;
+  if (!file) {
+    throw new Error('Usage: replay-launches.ts <recording.jsonl> [options]');
+  }
+
+  const options: CLIOptions = { file, config: {}, json: false };
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--window':
+        options.config.windowMinutes = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--bundle-slots':
+        options.config.bundleSlots = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--bundle-wallets':
+        options.config.bundleMinWallets = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--max-dev-buy':
+        options.config.maxDevBuyPct = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--max-top10':
+        options.config.maxTop10HolderPct = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--snipe-score':
+        options.config.snipeScore = parseNumber(rest[i], rest[++i]);
+        break;
+      case '--thresholds':
+        options.thresholds = (rest[++i] || '').split(',').map(value => parseNumber('--thresholds', value.trim()));
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${rest[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const results = parseRecordedStream(await fs.readFile(options.file, 'utf8'));
+  const launches = replayLaunches(results, options.config);
+  const sweep = sweepThresholds(launches, options.thresholds);
+
+  if (options.json) {
+    console.log(JSON.stringify({ launches, sweep }, null, 2));
+    return;
+  }
+
+  console.log(`🔁 Replayed ${options.file}: ${results.length} blocks, ${launches.length} launches`);
+  for (const launch of [...launches].sort((a, b) => b.score - a.score)) {
+    const notes = [...launch.reasons, ...launch.warnings].join('; ');
+    console.log(
+      `   ${launch.mint} score=${launch.score} ${launch.verdict}${launch.graduated ? ' (graduated)' : ''}` +
+      (notes ? ` - ${notes}` : '')
+    );
+  }
+
+  console.log('\n   threshold  selected  graduated  precision  recall');
+  for (const row of sweep) {
+    console.log(
+      `   ${String(row.threshold).padStart(9)}  ${String(row.selected).padStart(8)}  ${String(row.graduated).padStart(9)}` +
+      `  ${(row.precision * 100).toFixed(1).padStart(8)}%  ${(row.recall * 100).toFixed(1).padStart(5)}%`
+    );
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+#!/usr/bin/env ts-node
+/**
+ * Record a pool scan to a snapshot file, or replay one offline.
+ *
+ * Recording runs a live PoolScanner scan and saves every RPC and HTTP response it read.
+ * Replaying re-runs PoolScanner, ArbitrageDetector and RiskAnalyzer against that file
+ * with the clock frozen at the recording time, so results are identical on every run.
+ *
+ * Usage:
+ *   ts-node --project tsconfig.scripts.json scripts/replay-scan.ts record snapshots/scan.json --rpc-url https://...
+ *   ts-node --project tsconfig.scripts.json scripts/replay-scan.ts record snapshots/scan.json --dexes raydium,orca
+ *   ts-node --project tsconfig.scripts.json scripts/replay-scan.ts replay snapshots/scan.json
+ *   ts-node --project tsconfig.scripts.json scripts/replay-scan.ts replay snapshots/scan.json --pool <poolId>
+ *
+ * You can also run it via npm:
+ *   npm run replay:scan -- replay snapshots/scan.json --json
+ */
+
+import { Connection } from '@solana/web3.js';
+import { recordScan, replayScan, saveSnapshot, loadSnapshot } from '../app/lib/pools/replay';
+
+interface CLIOptions {
+  command: 'record' | 'replay';
+  file: string;
+  rpcUrl: string;
+  dexes?: string[];
+  label?: string;
+  poolId?: string;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CLIOptions {
+  const [command, file, ...rest] = argv;
+  if ((command !== 'record' && command !== 'replay') || !file) {
+    throw new Error('Usage: replay-scan.ts <record|replay> <snapshot.json> [options]');
+  }
+
+  const options: CLIOptions = {
+    command,
+    file,
+    rpcUrl: process.env.NEXT_PUBLIC_SOLANA_RPC_MAINNET || 'https://api.mainnet-beta.solana.com',
+    json: false,
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--rpc-url':
+        options.rpcUrl = rest[++i];
+        break;
+      case '--dexes':
+        options.dexes = rest[++i].split(',').map(dex => dex.trim()).filter(Boolean);
+        break;
+      case '--label':
+        options.label = rest[++i];
+        break;
+      case '--pool':
+        options.poolId = rest[++i];
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${rest[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function record(options: CLIOptions): Promise<void> {
+  const connection = new Connection(options.rpcUrl, 'confirmed');
+  const { state, snapshot } = await recordScan(
+    connection,
+    { rpcUrl: options.rpcUrl, ...(options.dexes && { enabledDEXs: options.dexes }) },
+    options.label
+  );
+
+  await saveSnapshot(options.file, snapshot);
+  console.log(`📼 Recorded ${state.pools.length} pools to ${options.file}`);
+  console.log(`   RPC calls: ${Object.values(snapshot.rpc).reduce((sum, calls) => sum + calls.length, 0)}`);
+  console.log(`   HTTP responses: ${Object.values(snapshot.http).reduce((sum, calls) => sum + calls.length, 0)}`);
+  if (state.errors.length > 0) {
+    console.log(`⚠️  ${state.errors.length} scan errors were recorded as-is`);
+  }
+}
+
+async function replay(options: CLIOptions): Promise<void> {
+  const snapshot = await loadSnapshot(options.file);
+  const result = await replayScan(snapshot);
+
+  const analyses = options.poolId
+    ? result.riskAnalyses.filter(analysis => analysis.opportunity.steps.some(step => step.pool.id === options.poolId))
+    : result.riskAnalyses;
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(analyses, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2)
+    );
+    return;
+  }
+
+  console.log(`🔁 Replayed ${options.file} (recorded ${snapshot.recordedAt}${snapshot.label ? `, ${snapshot.label}` : ''})`);
+  console.log(`   Pools: ${result.state.pools.length}, opportunities: ${result.opportunities.length}`);
+  for (const analysis of analyses) {
+    const { opportunity } = analysis;
+    const route = opportunity.steps.map(step => `${step.tokenIn.symbol}→${step.tokenOut.symbol}@${step.dex}`).join(' ');
+    console.log(
+      `   ${opportunity.id} ${route} profit=${opportunity.profit.toFixed(6)} SOL ` +
+      `(${opportunity.profitPercent.toFixed(3)}%) ${analysis.recommendation}: ${analysis.reasoning}`
+    );
+  }
+  if (result.state.errors.length > 0) {
+    console.log(`⚠️  Replay errors:\n   ${result.state.errors.join('\n   ')}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.command === 'record') {
+    await record(options);
+  } else {
+    await replay(options);
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});